@@ -6,17 +6,25 @@ import { Loader2 } from 'lucide-react'
 import { useAuth } from '@/hooks/use-auth'
 import { LoginForm } from '@/components/auth/LoginForm'
 import { useRouter } from 'next/navigation'
+import { TWO_FACTOR_REQUIRED } from '@/lib/validations'
+import type { LoginCredentials } from '@/types/user'
 
 export default function LoginPage() {
   const [isLoading, setIsLoading] = useState(false)
+  // Kept so the code step can resubmit them; the form remounts after loading
+  const [credentials, setCredentials] = useState<LoginCredentials | undefined>()
+  const [twoFactorRequired, setTwoFactorRequired] = useState(false)
   const { login, resetPassword } = useAuth()
   const router = useRouter()
 
-  const handleSubmit = async (data: { email: string; password: string }) => {
+  const handleSubmit = async (data: LoginCredentials) => {
+    setCredentials({ email: data.email, password: data.password })
     setIsLoading(true)
     try {
-      const result = await login(data.email, data.password)
-      if (result) {
+      const result = await login(data.email, data.password, data.code)
+      if (result === TWO_FACTOR_REQUIRED) {
+        setTwoFactorRequired(true)
+      } else if (result) {
         router.push('/dashboard')
       }
     } finally {
@@ -24,6 +32,11 @@ export default function LoginPage() {
     }
   }
 
+  const handleCancelTwoFactor = () => {
+    setTwoFactorRequired(false)
+    setCredentials(undefined)
+  }
+
   const handleForgotPassword = async () => {
     // In a real application, you would show a modal or navigate to a reset password page
     // For now, we'll just show a toast notification
@@ -45,12 +58,17 @@ export default function LoginPage() {
     <div className="flex items-center justify-center min-h-screen bg-gray-50">
       <Card className="w-full max-w-md">
         <CardHeader>
-          <CardTitle className="text-2xl text-center">Welcome Back</CardTitle>
+          <CardTitle className="text-2xl text-center">
+            {twoFactorRequired ? 'Two-Step Verification' : 'Welcome Back'}
+          </CardTitle>
         </CardHeader>
         <CardContent>
           <LoginForm
             onSubmit={handleSubmit}
             onForgotPassword={handleForgotPassword}
+            twoFactorRequired={twoFactorRequired}
+            onCancelTwoFactor={handleCancelTwoFactor}
+            defaultValues={credentials}
           />
         </CardContent>
       </Card>
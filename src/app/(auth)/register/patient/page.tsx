@@ -3,6 +3,7 @@
 import { useState } from 'react'
 import { useRouter } from 'next/navigation'
 import Link from 'next/link'
+import { signIn } from 'next-auth/react'
 
 export default function PatientRegisterPage() {
   const router = useRouter()
@@ -38,8 +39,13 @@ export default function PatientRegisterPage() {
         throw new Error(data.message || 'Registration failed')
       }
 
-      // Redirect to dashboard on success
-      router.push('/dashboard')
+      // Sign the new account in and open the patient portal
+      const result = await signIn('credentials', {
+        email: formData.email,
+        password: formData.password,
+        redirect: false,
+      })
+      router.push(result?.ok ? '/patient-portal' : '/login')
     } catch (err) {
       setError(err instanceof Error ? err.message : 'Registration failed')
     } finally {
@@ -9,7 +9,7 @@ import { useAppointment } from '@/hooks/use-appointment'
 import { usePatientAppointments } from '@/hooks/use-patient-appointments'
 import { Appointment } from '@/types/appointment'
 import { Patient } from '@/types/patient'
-import { Doctor } from '@/types/doctor'
+import { Provider } from '@/types/provider'
 import { Exam, Facility } from '@/types'
 import { AppointmentForm } from '@/components/appointments/AppointmentForm'
 import { format, isToday, parseISO } from 'date-fns'
@@ -18,7 +18,7 @@ import { Procedure } from '@/types/procedure'
 export default function AppointmentsPage() {
   const [appointments, setAppointments] = useState<Appointment[]>([])
   const [patients, setPatients] = useState<Record<string, Patient>>({})
-  const [doctors, setDoctors] = useState<Record<string, Doctor>>({})
+  const [doctors, setDoctors] = useState<Record<string, Provider>>({})
   const [exams, setExams] = useState<Record<string, Exam>>({})
   const [facilities, setFacilities] = useState<Record<string, Facility>>({})
   const [selectedAppointment, setSelectedAppointment] = useState<Appointment | null>(null)
@@ -85,7 +85,7 @@ export default function AppointmentsPage() {
         const examIds = [...new Set(sortedAppointments.map((app: Appointment) => app.examId).filter(Boolean))]
         
         const patientsData: Record<string, Patient> = {}
-        const doctorsData: Record<string, Doctor> = {}
+        const doctorsData: Record<string, Provider> = {}
         const examsData: Record<string, Exam> = {}
         const facilitiesData: Record<string, Facility> = {}
         
@@ -107,11 +107,11 @@ export default function AppointmentsPage() {
         // Fetch doctor data
         for (const doctorId of doctorIds) {
           try {
-            const response = await fetch(`/api/doctors/${doctorId}`)
+            const response = await fetch(`/api/providers/${doctorId}`)
             if (response.ok) {
               const doctor = await response.json()
               if (doctor && typeof doctor === 'object' && 'id' in doctor) {
-                doctorsData[doctorId] = doctor as Doctor
+                doctorsData[doctorId] = doctor as Provider
                 
                 // If doctor has a clinic, fetch facility data
                 if (doctor.clinicName) {
@@ -179,39 +179,30 @@ export default function AppointmentsPage() {
         setLoading(true)
         setError(null)
 
-        // First, fetch all patients to get their procedures
-        const patientsResponse = await fetch('/api/patients')
-        if (!patientsResponse.ok) {
-          throw new Error('Failed to fetch patients')
+        // Every scheduled procedure is mirrored as an appointment
+        const proceduresResponse = await fetch('/api/procedures')
+        if (!proceduresResponse.ok) {
+          throw new Error('Failed to fetch procedures')
         }
 
-        const patients = await patientsResponse.json()
-        console.log('Fetched patients:', patients)
+        const procedures: Procedure[] = await proceduresResponse.json()
 
-        // Extract procedures from patients and convert to appointments
-        const appointmentsToSync: Appointment[] = []
-        patients.forEach((patient: Patient) => {
-          if (patient.procedures && Array.isArray(patient.procedures)) {
-            patient.procedures.forEach((procedure: Procedure) => {
-              // Only create appointments for procedures with a schedule
-              if (procedure.scheduleDate && procedure.scheduleTime) {
-                appointmentsToSync.push({
-                  id: procedure.id, // Use procedure ID as appointment ID for upsert
-                  patientId: patient.id,
-                  doctorId: procedure.physician?.id || '',
-                  examId: procedure.exam?.id || '',
-                  date: new Date(procedure.scheduleDate).toISOString(),
-                  time: procedure.scheduleTime,
-                  type: 'checkup', // Default to checkup
-                  status: procedure.isCompleted ? 'completed' : 'scheduled',
-                  notes: procedure.lop || undefined,
-                  createdAt: procedure.createdAt,
-                  updatedAt: procedure.updatedAt
-                })
-              }
-            })
-          }
-        })
+        // Convert procedures to appointments
+        const appointmentsToSync: Appointment[] = procedures
+          .filter((procedure) => procedure.scheduleDate && procedure.scheduleTime)
+          .map((procedure): Appointment => ({
+            id: procedure.id, // Use procedure ID as appointment ID for upsert
+            patientId: procedure.patientId,
+            doctorId: procedure.physician?.id || '',
+            examId: procedure.examId || '',
+            date: new Date(procedure.scheduleDate).toISOString(),
+            time: procedure.scheduleTime,
+            type: 'checkup', // Default to checkup
+            status: procedure.isCompleted ? 'completed' : 'scheduled',
+            notes: procedure.lop ? `LOP ${procedure.lop.status.toLowerCase()}` : undefined,
+            createdAt: procedure.createdAt,
+            updatedAt: procedure.updatedAt
+          }))
 
         console.log('Appointments to sync:', appointmentsToSync)
 
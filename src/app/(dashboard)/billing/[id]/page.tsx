@@ -0,0 +1,426 @@
+'use client'
+
+import { useState, useEffect, useCallback } from 'react'
+import { useParams } from 'next/navigation'
+import { motion } from 'framer-motion'
+import { ArrowLeft, FileText, Loader2, Printer, Download } from 'lucide-react'
+import Link from 'next/link'
+import { format } from 'date-fns'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+
+interface Invoice {
+  id: string
+  invoiceNumber: string
+  status: 'OPEN' | 'PARTIAL' | 'PAID' | 'VOID'
+  issueDate: string
+  dueDate: string | null
+  subtotal: number
+  reductionTotal: number
+  paymentTotal: number
+  balance: number
+  notes: string | null
+  patient: {
+    id: string
+    firstName: string
+    lastName: string
+  }
+  attorney: {
+    id: string
+    user: {
+      name: string
+    }
+  } | null
+  case: {
+    id: string
+    caseNumber: string
+  } | null
+  charges: Array<{
+    id: string
+    description: string
+    amount: number
+    serviceDate: string
+  }>
+  payments: Array<{
+    id: string
+    amount: number
+    receivedDate: string
+    method: string
+    reference: string | null
+  }>
+  reductions: Array<{
+    id: string
+    amount: number
+    reason: string
+    date: string
+  }>
+}
+
+const paymentMethods = ['CHECK', 'ACH', 'WIRE', 'CARD', 'CASH', 'OTHER']
+
+const emptyPayment = {
+  amount: '',
+  receivedDate: '',
+  method: 'CHECK',
+  reference: '',
+}
+
+const emptyReduction = {
+  amount: '',
+  reason: '',
+  date: '',
+}
+
+const selectClassName =
+  'mt-1 block w-full rounded-md border border-gray-300 bg-white px-3 py-2 text-sm shadow-sm focus:border-indigo-500 focus:outline-none focus:ring-1 focus:ring-indigo-500'
+
+export default function InvoicePage() {
+  const params = useParams()
+  const id = params.id as string
+  const [invoice, setInvoice] = useState<Invoice | null>(null)
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+  const [saving, setSaving] = useState<string | null>(null)
+  const [payment, setPayment] = useState(emptyPayment)
+  const [reduction, setReduction] = useState(emptyReduction)
+
+  const fetchInvoice = useCallback(async () => {
+    try {
+      const response = await fetch(`/api/invoices/${id}`)
+      if (!response.ok) {
+        throw new Error('Failed to fetch invoice')
+      }
+      setInvoice(await response.json())
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'An error occurred')
+    } finally {
+      setLoading(false)
+    }
+  }, [id])
+
+  useEffect(() => {
+    fetchInvoice()
+  }, [fetchInvoice])
+
+  const submit = async (key: string, url: string, method: string, body: object) => {
+    setSaving(key)
+    setError(null)
+
+    try {
+      const response = await fetch(url, {
+        method,
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify(body),
+      })
+      const data = await response.json()
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to update invoice')
+      }
+      setInvoice(data)
+      return true
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to update invoice')
+      return false
+    } finally {
+      setSaving(null)
+    }
+  }
+
+  const handlePayment = async (e: React.FormEvent) => {
+    e.preventDefault()
+    const saved = await submit('payment', `/api/invoices/${id}/payments`, 'POST', {
+      ...payment,
+      receivedDate: payment.receivedDate || undefined,
+    })
+    if (saved) setPayment(emptyPayment)
+  }
+
+  const handleReduction = async (e: React.FormEvent) => {
+    e.preventDefault()
+    const saved = await submit('reduction', `/api/invoices/${id}/reductions`, 'POST', {
+      ...reduction,
+      date: reduction.date || undefined,
+    })
+    if (saved) setReduction(emptyReduction)
+  }
+
+  const handleVoid = async () => {
+    if (!confirm('Void this invoice? Its charges will be released for re-billing.')) {
+      return
+    }
+    await submit('void', `/api/invoices/${id}`, 'PUT', { status: 'VOID' })
+  }
+
+  const formatDate = (date: string | null) =>
+    date ? format(new Date(date), 'MM/dd/yyyy') : '—'
+
+  if (loading) {
+    return (
+      <div className="min-h-screen bg-gradient-to-br from-gray-50 to-gray-100 flex justify-center items-center">
+        <Loader2 className="h-16 w-16 text-indigo-600 animate-spin" />
+      </div>
+    )
+  }
+
+  if (!invoice) {
+    return (
+      <div className="max-w-7xl mx-auto px-4 py-12">
+        <div className="bg-red-50 border-l-4 border-red-500 p-4 rounded-lg max-w-md">
+          <p className="text-sm font-medium text-red-800">{error || 'Invoice not found'}</p>
+        </div>
+      </div>
+    )
+  }
+
+  const isVoid = invoice.status === 'VOID'
+
+  return (
+    <motion.div
+      initial={{ opacity: 0 }}
+      animate={{ opacity: 1 }}
+      transition={{ duration: 0.5 }}
+      className="min-h-screen bg-gradient-to-br from-gray-50 to-gray-100 py-12"
+    >
+      <div className="max-w-5xl mx-auto px-4 sm:px-6 lg:px-8">
+        <Link href="/billing" className="inline-flex items-center text-sm text-gray-600 hover:text-gray-900 mb-4">
+          <ArrowLeft className="h-4 w-4 mr-1" />
+          Back to Billing
+        </Link>
+
+        <div className="bg-white rounded-2xl shadow-xl overflow-hidden">
+          <div className="px-8 py-6 bg-gradient-to-r from-indigo-600 to-indigo-700">
+            <div className="flex flex-col sm:flex-row justify-between items-start sm:items-center gap-4">
+              <div>
+                <h1 className="text-2xl font-bold text-white">Invoice {invoice.invoiceNumber}</h1>
+                <p className="text-indigo-100 text-sm">
+                  {invoice.patient.firstName} {invoice.patient.lastName} &middot; {invoice.status}
+                </p>
+              </div>
+              <div className="flex gap-2">
+                <a
+                  href={`/api/invoices/${id}?format=html`}
+                  target="_blank"
+                  rel="noopener noreferrer"
+                  className="inline-flex items-center px-3 py-2 bg-white/10 text-white border border-white/20 rounded-lg hover:bg-white/20 transition-colors"
+                >
+                  <Printer className="h-4 w-4 mr-2" />
+                  Print
+                </a>
+                <a
+                  href={`/api/invoices/${id}?format=pdf`}
+                  target="_blank"
+                  rel="noopener noreferrer"
+                  className="inline-flex items-center px-3 py-2 bg-white/10 text-white border border-white/20 rounded-lg hover:bg-white/20 transition-colors"
+                >
+                  <FileText className="h-4 w-4 mr-2" />
+                  PDF
+                </a>
+                <a
+                  href={`/api/invoices/${id}?format=csv`}
+                  className="inline-flex items-center px-3 py-2 bg-white/10 text-white border border-white/20 rounded-lg hover:bg-white/20 transition-colors"
+                >
+                  <Download className="h-4 w-4 mr-2" />
+                  CSV
+                </a>
+              </div>
+            </div>
+          </div>
+
+          <div className="px-8 py-6 space-y-8">
+            {error && (
+              <div className="bg-red-50 border-l-4 border-red-500 p-4 rounded-lg">
+                <p className="text-sm font-medium text-red-800">{error}</p>
+              </div>
+            )}
+
+            <dl className="grid grid-cols-2 gap-4 md:grid-cols-4 text-sm">
+              <div>
+                <dt className="text-gray-500">Issued</dt>
+                <dd className="text-gray-900">{formatDate(invoice.issueDate)}</dd>
+              </div>
+              <div>
+                <dt className="text-gray-500">Due</dt>
+                <dd className="text-gray-900">{formatDate(invoice.dueDate)}</dd>
+              </div>
+              <div>
+                <dt className="text-gray-500">Attorney</dt>
+                <dd className="text-gray-900">{invoice.attorney?.user.name || '—'}</dd>
+              </div>
+              <div>
+                <dt className="text-gray-500">Case</dt>
+                <dd className="text-gray-900">{invoice.case?.caseNumber || '—'}</dd>
+              </div>
+            </dl>
+
+            <div className="overflow-x-auto">
+              <table className="min-w-full divide-y divide-gray-200">
+                <thead className="bg-gray-50">
+                  <tr>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Date</th>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Description</th>
+                    <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Amount</th>
+                  </tr>
+                </thead>
+                <tbody className="bg-white divide-y divide-gray-200 text-sm">
+                  {invoice.charges.map((charge) => (
+                    <tr key={charge.id}>
+                      <td className="px-6 py-3 whitespace-nowrap text-gray-900">{formatDate(charge.serviceDate)}</td>
+                      <td className="px-6 py-3 text-gray-900">{charge.description}</td>
+                      <td className="px-6 py-3 text-right text-gray-900">${charge.amount.toFixed(2)}</td>
+                    </tr>
+                  ))}
+                  {invoice.reductions.map((item) => (
+                    <tr key={item.id}>
+                      <td className="px-6 py-3 whitespace-nowrap text-gray-500">{formatDate(item.date)}</td>
+                      <td className="px-6 py-3 text-gray-500">Reduction: {item.reason}</td>
+                      <td className="px-6 py-3 text-right text-gray-500">-${item.amount.toFixed(2)}</td>
+                    </tr>
+                  ))}
+                  {invoice.payments.map((item) => (
+                    <tr key={item.id}>
+                      <td className="px-6 py-3 whitespace-nowrap text-green-700">{formatDate(item.receivedDate)}</td>
+                      <td className="px-6 py-3 text-green-700">
+                        Payment ({item.method}{item.reference ? ` #${item.reference}` : ''})
+                      </td>
+                      <td className="px-6 py-3 text-right text-green-700">-${item.amount.toFixed(2)}</td>
+                    </tr>
+                  ))}
+                </tbody>
+                <tfoot className="text-sm">
+                  <tr>
+                    <td colSpan={2} className="px-6 py-2 text-right text-gray-500">Subtotal</td>
+                    <td className="px-6 py-2 text-right text-gray-900">${invoice.subtotal.toFixed(2)}</td>
+                  </tr>
+                  <tr>
+                    <td colSpan={2} className="px-6 py-2 text-right text-gray-500">Reductions</td>
+                    <td className="px-6 py-2 text-right text-gray-900">-${invoice.reductionTotal.toFixed(2)}</td>
+                  </tr>
+                  <tr>
+                    <td colSpan={2} className="px-6 py-2 text-right text-gray-500">Payments</td>
+                    <td className="px-6 py-2 text-right text-gray-900">-${invoice.paymentTotal.toFixed(2)}</td>
+                  </tr>
+                  <tr>
+                    <td colSpan={2} className="px-6 py-2 text-right font-semibold text-gray-900">Balance Due</td>
+                    <td className="px-6 py-2 text-right font-semibold text-gray-900">${invoice.balance.toFixed(2)}</td>
+                  </tr>
+                </tfoot>
+              </table>
+            </div>
+
+            {!isVoid && (
+              <div className="grid grid-cols-1 gap-6 md:grid-cols-2">
+                <form onSubmit={handlePayment} className="space-y-3 rounded-lg border border-gray-200 p-4">
+                  <h2 className="text-lg font-semibold text-gray-900">Record Payment</h2>
+                  <div>
+                    <Label htmlFor="payment-amount">Amount</Label>
+                    <Input
+                      id="payment-amount"
+                      type="number"
+                      min="0.01"
+                      step="0.01"
+                      required
+                      value={payment.amount}
+                      onChange={(e) => setPayment({ ...payment, amount: e.target.value })}
+                    />
+                  </div>
+                  <div>
+                    <Label htmlFor="payment-date">Received</Label>
+                    <Input
+                      id="payment-date"
+                      type="date"
+                      value={payment.receivedDate}
+                      onChange={(e) => setPayment({ ...payment, receivedDate: e.target.value })}
+                    />
+                  </div>
+                  <div className="grid grid-cols-2 gap-3">
+                    <div>
+                      <Label htmlFor="payment-method">Method</Label>
+                      <select
+                        id="payment-method"
+                        value={payment.method}
+                        onChange={(e) => setPayment({ ...payment, method: e.target.value })}
+                        className={selectClassName}
+                      >
+                        {paymentMethods.map((method) => (
+                          <option key={method} value={method}>
+                            {method}
+                          </option>
+                        ))}
+                      </select>
+                    </div>
+                    <div>
+                      <Label htmlFor="payment-reference">Reference</Label>
+                      <Input
+                        id="payment-reference"
+                        value={payment.reference}
+                        onChange={(e) => setPayment({ ...payment, reference: e.target.value })}
+                      />
+                    </div>
+                  </div>
+                  <div className="flex justify-end">
+                    <Button type="submit" disabled={saving === 'payment'}>
+                      {saving === 'payment' && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                      Record Payment
+                    </Button>
+                  </div>
+                </form>
+
+                <form onSubmit={handleReduction} className="space-y-3 rounded-lg border border-gray-200 p-4">
+                  <h2 className="text-lg font-semibold text-gray-900">Record Reduction</h2>
+                  <div>
+                    <Label htmlFor="reduction-amount">Amount</Label>
+                    <Input
+                      id="reduction-amount"
+                      type="number"
+                      min="0.01"
+                      step="0.01"
+                      required
+                      value={reduction.amount}
+                      onChange={(e) => setReduction({ ...reduction, amount: e.target.value })}
+                    />
+                  </div>
+                  <div>
+                    <Label htmlFor="reduction-reason">Reason</Label>
+                    <Input
+                      id="reduction-reason"
+                      required
+                      value={reduction.reason}
+                      onChange={(e) => setReduction({ ...reduction, reason: e.target.value })}
+                    />
+                  </div>
+                  <div>
+                    <Label htmlFor="reduction-date">Date</Label>
+                    <Input
+                      id="reduction-date"
+                      type="date"
+                      value={reduction.date}
+                      onChange={(e) => setReduction({ ...reduction, date: e.target.value })}
+                    />
+                  </div>
+                  <div className="flex justify-end">
+                    <Button type="submit" disabled={saving === 'reduction'}>
+                      {saving === 'reduction' && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                      Record Reduction
+                    </Button>
+                  </div>
+                </form>
+              </div>
+            )}
+
+            {!isVoid && invoice.paymentTotal === 0 && (
+              <div className="flex justify-end">
+                <Button variant="destructive" onClick={handleVoid} disabled={saving === 'void'}>
+                  {saving === 'void' && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                  Void Invoice
+                </Button>
+              </div>
+            )}
+          </div>
+        </div>
+      </div>
+    </motion.div>
+  )
+}
@@ -0,0 +1,418 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import { motion, AnimatePresence } from 'framer-motion'
+import { Loader2, Plus, Eye, Download } from 'lucide-react'
+import Link from 'next/link'
+import { format } from 'date-fns'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table"
+import { Badge } from "@/components/ui/badge"
+import { fetchAllPatients } from '@/lib/patient-options'
+
+interface Invoice {
+  id: string
+  invoiceNumber: string
+  status: 'OPEN' | 'PARTIAL' | 'PAID' | 'VOID'
+  issueDate: string
+  dueDate: string | null
+  subtotal: number
+  balance: number
+  patient: {
+    id: string
+    firstName: string
+    lastName: string
+  }
+  attorney: {
+    id: string
+    user: {
+      name: string
+    }
+  } | null
+  case: {
+    id: string
+    caseNumber: string
+  } | null
+}
+
+interface Option {
+  id: string
+  name: string
+}
+
+interface CaseOption {
+  id: string
+  caseNumber: string
+  patient: {
+    id: string
+  }
+}
+
+const statuses = ['OPEN', 'PARTIAL', 'PAID', 'VOID'] as const
+
+const emptyForm = {
+  patientId: '',
+  attorneyId: '',
+  caseId: '',
+  dueDate: '',
+  notes: '',
+}
+
+const selectClassName =
+  'mt-1 block w-full rounded-md border border-gray-300 bg-white px-3 py-2 text-sm shadow-sm focus:border-indigo-500 focus:outline-none focus:ring-1 focus:ring-indigo-500'
+
+export default function BillingPage() {
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+  const [invoices, setInvoices] = useState<Invoice[]>([])
+  const [statusFilter, setStatusFilter] = useState('')
+  const [outstandingOnly, setOutstandingOnly] = useState(false)
+  const [patients, setPatients] = useState<Option[]>([])
+  const [attorneys, setAttorneys] = useState<Option[]>([])
+  const [cases, setCases] = useState<CaseOption[]>([])
+  const [showForm, setShowForm] = useState(false)
+  const [formData, setFormData] = useState(emptyForm)
+  const [creating, setCreating] = useState(false)
+
+  useEffect(() => {
+    fetchOptions()
+  }, [])
+
+  useEffect(() => {
+    fetchInvoices(statusFilter)
+  }, [statusFilter])
+
+  const fetchInvoices = async (status: string) => {
+    try {
+      const response = await fetch(`/api/invoices${status ? `?status=${status}` : ''}`)
+      if (!response.ok) {
+        throw new Error('Failed to fetch invoices')
+      }
+      const data = await response.json()
+      setInvoices(data)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'An error occurred')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const fetchOptions = async () => {
+    try {
+      const [patients, attorneysRes, casesRes] = await Promise.all([
+        fetchAllPatients(),
+        fetch('/api/attorneys'),
+        fetch('/api/cases'),
+      ])
+
+      setPatients(patients.map((patient) => ({ id: patient.id, name: `${patient.lastName}, ${patient.firstName}` })))
+      if (attorneysRes.ok) {
+        const data: { id: string; user: { name: string } }[] = await attorneysRes.json()
+        setAttorneys(data.map((attorney) => ({ id: attorney.id, name: attorney.user.name })))
+      }
+      if (casesRes.ok) setCases(await casesRes.json())
+    } catch (err) {
+      console.error('Error fetching billing options:', err)
+    }
+  }
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault()
+    setCreating(true)
+    setError(null)
+
+    try {
+      const response = await fetch('/api/invoices', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          patientId: formData.patientId,
+          attorneyId: formData.attorneyId || null,
+          caseId: formData.caseId || null,
+          dueDate: formData.dueDate || null,
+          notes: formData.notes,
+        }),
+      })
+      const data = await response.json()
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to create invoice')
+      }
+      setFormData(emptyForm)
+      setShowForm(false)
+      await fetchInvoices(statusFilter)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to create invoice')
+    } finally {
+      setCreating(false)
+    }
+  }
+
+  const getStatusColor = (status: Invoice['status']) => {
+    switch (status) {
+      case 'OPEN':
+        return 'bg-yellow-500'
+      case 'PARTIAL':
+        return 'bg-blue-500'
+      case 'PAID':
+        return 'bg-green-500'
+      default:
+        return 'bg-gray-500'
+    }
+  }
+
+  const visibleInvoices = outstandingOnly
+    ? invoices.filter((invoice) => invoice.balance > 0 && invoice.status !== 'VOID')
+    : invoices
+
+  const totalOutstanding = visibleInvoices
+    .filter((invoice) => invoice.status !== 'VOID')
+    .reduce((total, invoice) => total + invoice.balance, 0)
+
+  if (loading) {
+    return (
+      <div className="min-h-screen bg-gradient-to-br from-gray-50 to-gray-100 flex justify-center items-center">
+        <motion.div
+          animate={{ rotate: 360 }}
+          transition={{ duration: 1, repeat: Infinity, ease: "linear" }}
+          className="h-16 w-16"
+        >
+          <Loader2 className="h-16 w-16 text-indigo-600" />
+        </motion.div>
+      </div>
+    )
+  }
+
+  return (
+    <motion.div
+      initial={{ opacity: 0 }}
+      animate={{ opacity: 1 }}
+      transition={{ duration: 0.5 }}
+      className="min-h-screen bg-gradient-to-br from-gray-50 to-gray-100 py-12"
+    >
+      <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
+        <motion.div
+          initial={{ opacity: 0, y: 20 }}
+          animate={{ opacity: 1, y: 0 }}
+          transition={{ duration: 0.5, delay: 0.2 }}
+          className="bg-white rounded-2xl shadow-xl overflow-hidden"
+        >
+          <div className="px-8 py-6 bg-gradient-to-r from-indigo-600 to-indigo-700">
+            <div className="flex flex-col sm:flex-row justify-between items-start sm:items-center gap-4">
+              <h1 className="text-2xl font-bold text-white">Billing</h1>
+              <div className="flex gap-2">
+                <a
+                  href={`/api/invoices/export${statusFilter ? `?status=${statusFilter}` : ''}`}
+                  className="inline-flex items-center px-4 py-2 bg-white/10 text-white border border-white/20 rounded-lg hover:bg-white/20 transition-colors"
+                >
+                  <Download className="h-4 w-4 mr-2" />
+                  Export CSV
+                </a>
+                <button
+                  onClick={() => setShowForm(!showForm)}
+                  className="inline-flex items-center px-4 py-2 bg-white/10 text-white border border-white/20 rounded-lg hover:bg-white/20 transition-colors"
+                >
+                  <Plus className="h-4 w-4 mr-2" />
+                  New Invoice
+                </button>
+              </div>
+            </div>
+          </div>
+
+          <div className="px-8 py-6 space-y-6">
+            {error && (
+              <div className="bg-red-50 border-l-4 border-red-500 p-4 rounded-lg">
+                <p className="text-sm font-medium text-red-800">{error}</p>
+              </div>
+            )}
+
+            {showForm && (
+              <form onSubmit={handleCreate} className="grid grid-cols-1 gap-4 rounded-lg border border-gray-200 p-4 md:grid-cols-3">
+                <div>
+                  <Label htmlFor="invoice-patient">Patient</Label>
+                  <select
+                    id="invoice-patient"
+                    required
+                    value={formData.patientId}
+                    onChange={(e) => setFormData({ ...formData, patientId: e.target.value, caseId: '' })}
+                    className={selectClassName}
+                  >
+                    <option value="">Select Patient</option>
+                    {patients.map((patient) => (
+                      <option key={patient.id} value={patient.id}>
+                        {patient.name}
+                      </option>
+                    ))}
+                  </select>
+                </div>
+                <div>
+                  <Label htmlFor="invoice-attorney">Attorney</Label>
+                  <select
+                    id="invoice-attorney"
+                    value={formData.attorneyId}
+                    onChange={(e) => setFormData({ ...formData, attorneyId: e.target.value })}
+                    className={selectClassName}
+                  >
+                    <option value="">All unbilled charges</option>
+                    {attorneys.map((attorney) => (
+                      <option key={attorney.id} value={attorney.id}>
+                        {attorney.name}
+                      </option>
+                    ))}
+                  </select>
+                </div>
+                <div>
+                  <Label htmlFor="invoice-case">Case</Label>
+                  <select
+                    id="invoice-case"
+                    value={formData.caseId}
+                    onChange={(e) => setFormData({ ...formData, caseId: e.target.value })}
+                    className={selectClassName}
+                  >
+                    <option value="">No case</option>
+                    {cases
+                      .filter((case_) => case_.patient.id === formData.patientId)
+                      .map((case_) => (
+                        <option key={case_.id} value={case_.id}>
+                          {case_.caseNumber}
+                        </option>
+                      ))}
+                  </select>
+                </div>
+                <div>
+                  <Label htmlFor="invoice-due">Due Date</Label>
+                  <Input
+                    id="invoice-due"
+                    type="date"
+                    value={formData.dueDate}
+                    onChange={(e) => setFormData({ ...formData, dueDate: e.target.value })}
+                  />
+                </div>
+                <div className="md:col-span-2">
+                  <Label htmlFor="invoice-notes">Notes</Label>
+                  <Input
+                    id="invoice-notes"
+                    value={formData.notes}
+                    onChange={(e) => setFormData({ ...formData, notes: e.target.value })}
+                  />
+                </div>
+                <div className="md:col-span-3 flex justify-end">
+                  <Button type="submit" disabled={creating}>
+                    {creating && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                    Create Invoice
+                  </Button>
+                </div>
+              </form>
+            )}
+
+            <div className="flex flex-col sm:flex-row sm:items-end justify-between gap-4">
+              <div className="flex items-end gap-4">
+                <div>
+                  <Label htmlFor="status-filter">Status</Label>
+                  <select
+                    id="status-filter"
+                    value={statusFilter}
+                    onChange={(e) => setStatusFilter(e.target.value)}
+                    className={selectClassName}
+                  >
+                    <option value="">All statuses</option>
+                    {statuses.map((status) => (
+                      <option key={status} value={status}>
+                        {status}
+                      </option>
+                    ))}
+                  </select>
+                </div>
+                <label className="flex items-center pb-2 text-sm text-gray-700">
+                  <input
+                    type="checkbox"
+                    checked={outstandingOnly}
+                    onChange={(e) => setOutstandingOnly(e.target.checked)}
+                    className="h-4 w-4 mr-2 text-indigo-600 focus:ring-indigo-500 border-gray-300 rounded"
+                  />
+                  Outstanding balance only
+                </label>
+              </div>
+              <p className="text-sm text-gray-600">
+                Outstanding: <span className="font-semibold text-gray-900">${totalOutstanding.toFixed(2)}</span>
+              </p>
+            </div>
+
+            <div className="rounded-md border">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Invoice</TableHead>
+                    <TableHead>Patient</TableHead>
+                    <TableHead>Attorney</TableHead>
+                    <TableHead>Case</TableHead>
+                    <TableHead>Status</TableHead>
+                    <TableHead>Issued</TableHead>
+                    <TableHead className="text-right">Total</TableHead>
+                    <TableHead className="text-right">Balance</TableHead>
+                    <TableHead className="text-right">Actions</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  <AnimatePresence>
+                    {visibleInvoices.map((invoice, index) => (
+                      <motion.tr
+                        key={invoice.id}
+                        initial={{ opacity: 0, y: 20 }}
+                        animate={{ opacity: 1, y: 0 }}
+                        exit={{ opacity: 0, y: -20 }}
+                        transition={{ duration: 0.3, delay: index * 0.05 }}
+                        className="hover:bg-gray-50 transition-colors"
+                      >
+                        <TableCell className="font-medium">{invoice.invoiceNumber}</TableCell>
+                        <TableCell>
+                          {invoice.patient.firstName} {invoice.patient.lastName}
+                        </TableCell>
+                        <TableCell>{invoice.attorney?.user.name || '—'}</TableCell>
+                        <TableCell>{invoice.case?.caseNumber || '—'}</TableCell>
+                        <TableCell>
+                          <Badge className={getStatusColor(invoice.status)}>
+                            {invoice.status}
+                          </Badge>
+                        </TableCell>
+                        <TableCell>{format(new Date(invoice.issueDate), 'MM/dd/yyyy')}</TableCell>
+                        <TableCell className="text-right">${invoice.subtotal.toFixed(2)}</TableCell>
+                        <TableCell className="text-right">${invoice.balance.toFixed(2)}</TableCell>
+                        <TableCell className="text-right">
+                          <Link
+                            href={`/billing/${invoice.id}`}
+                            className="inline-flex items-center justify-center h-8 w-8 rounded-md hover:bg-gray-100 transition-colors"
+                          >
+                            <Eye className="h-4 w-4 text-gray-600" />
+                          </Link>
+                        </TableCell>
+                      </motion.tr>
+                    ))}
+                  </AnimatePresence>
+                  {visibleInvoices.length === 0 && (
+                    <TableRow>
+                      <TableCell colSpan={9} className="text-center text-gray-500">
+                        No invoices found.
+                      </TableCell>
+                    </TableRow>
+                  )}
+                </TableBody>
+              </Table>
+            </div>
+          </div>
+        </motion.div>
+      </div>
+    </motion.div>
+  )
+}
@@ -1,6 +1,6 @@
 "use client"
 
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useRef } from 'react';
 import { format, startOfWeek, addDays, isSameDay, parse, setHours, setMinutes, addMinutes } from 'date-fns';
 import { ChevronLeft, ChevronRight, Plus, Pencil, Check } from 'lucide-react';
 import {
@@ -21,6 +21,10 @@ import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { useToast } from "@/components/ui/use-toast";
+import { fetchAllPatients } from "@/lib/patient-options";
+import { todayInTimezone } from "@/lib/utils";
+import { useUserSettings } from "@/context/UserSettingsContext";
+import { ProviderPicker } from "@/components/providers/ProviderPicker";
 
 type ViewType = 'day' | 'week' | 'month';
 
@@ -101,6 +105,17 @@ export default function CalendarPage() {
   const [editingProcedure, setEditingProcedure] = useState<ScheduledProcedure | null>(null);
   const [isEditDialogOpen, setIsEditDialogOpen] = useState(false);
   const { toast } = useToast();
+  const { settings } = useUserSettings();
+  const appliedSettings = useRef(false);
+
+  // Start on the user's saved view, facility and time zone; later changes are theirs to make
+  useEffect(() => {
+    if (!settings || appliedSettings.current) return;
+    appliedSettings.current = true;
+    setView(settings.defaultCalendarView);
+    if (settings.defaultFacilityId) setSelectedFacility(settings.defaultFacilityId);
+    if (settings.timezone) setCurrentDate(todayInTimezone(settings.timezone));
+  }, [settings]);
 
   const weekStart = startOfWeek(currentDate, { weekStartsOn: 1 }); // Start from Monday
   const weekDays = Array.from({ length: 7 }, (_, i) => addDays(weekStart, i));
@@ -196,7 +211,7 @@ export default function CalendarPage() {
 
   const fetchPhysicians = async () => {
     try {
-      const response = await fetch('/api/physicians');
+      const response = await fetch('/api/providers?role=READING');
       if (!response.ok) {
         throw new Error('Failed to fetch physicians');
       }
@@ -209,12 +224,7 @@ export default function CalendarPage() {
 
   const fetchPatients = async () => {
     try {
-      const response = await fetch('/api/patients');
-      if (!response.ok) {
-        throw new Error('Failed to fetch patients');
-      }
-      const data = await response.json();
-      setPatients(data);
+      setPatients(await fetchAllPatients());
     } catch (err) {
       console.error('Error fetching patients:', err);
     }
@@ -413,14 +423,29 @@ export default function CalendarPage() {
         statusId: '67ed260cc52a7fd85d24a7a0', // Default status for new procedures
       };
 
-      const response = await fetch('/api/procedures', {
+      const submit = (allowDoubleBooking = false) => fetch('/api/procedures', {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
         },
-        body: JSON.stringify(scheduleData),
+        body: JSON.stringify({ ...scheduleData, allowDoubleBooking }),
       });
 
+      let response = await submit();
+
+      // The slot is taken; let the user decide whether to double book
+      if (response.status === 409) {
+        const conflictData = await response.json();
+        const conflicts = (conflictData.conflicts || [])
+          .map((conflict: { time: string; examName: string; patientName: string; resourceName: string | null }) =>
+            `${conflict.time} ${conflict.examName} – ${conflict.patientName}${conflict.resourceName ? ` (${conflict.resourceName})` : ''}`)
+          .join('\n');
+        if (!window.confirm(`${conflictData.error}:\n${conflicts}\n\nBook anyway?`)) {
+          return;
+        }
+        response = await submit(true);
+      }
+
       if (!response.ok) {
         const errorData = await response.json();
         throw new Error(errorData.error || 'Failed to schedule procedure');
@@ -431,7 +456,9 @@ export default function CalendarPage() {
 
       toast({
         title: "Success",
-        description: "Procedure scheduled successfully",
+        description: result.warnings?.length
+          ? `Procedure scheduled. ${result.warnings.join('. ')}`
+          : "Procedure scheduled successfully",
       });
       setIsScheduleDialogOpen(false);
       
@@ -939,7 +966,7 @@ export default function CalendarPage() {
 
             <div className="space-y-2">
               <Label htmlFor="facilityId">Facility</Label>
-              <Select name="facilityId">
+              <Select name="facilityId" defaultValue={settings?.defaultFacilityId ?? undefined}>
                 <SelectTrigger className="w-full">
                   <SelectValue placeholder="Select Facility" />
                 </SelectTrigger>
@@ -959,22 +986,13 @@ export default function CalendarPage() {
 
             <div className="space-y-2">
               <Label htmlFor="physicianId">Physician</Label>
-              <Select name="physicianId">
-                <SelectTrigger className="w-full">
-                  <SelectValue placeholder="Select Physician" />
-                </SelectTrigger>
-                <SelectContent>
-                  {physicians.map((physician) => (
-                    <SelectItem 
-                      key={physician.id} 
-                      value={physician.id}
-                      className="cursor-pointer"
-                    >
-                      {physician.name}
-                    </SelectItem>
-                  ))}
-                </SelectContent>
-              </Select>
+              <ProviderPicker
+                role="READING"
+                id="physicianId"
+                name="physicianId"
+                placeholder="Select Physician"
+                className="flex h-10 w-full rounded-md border border-input bg-background px-3 py-2 text-sm ring-offset-background focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring focus-visible:ring-offset-2"
+              />
             </div>
 
             <div className="space-y-2">
@@ -1086,22 +1104,14 @@ export default function CalendarPage() {
 
             <div className="space-y-2">
               <Label htmlFor="physicianId">Physician</Label>
-              <Select name="physicianId" defaultValue={editingProcedure?.physician?.id}>
-                <SelectTrigger className="w-full">
-                  <SelectValue placeholder="Select Physician" />
-                </SelectTrigger>
-                <SelectContent>
-                  {physicians.map((physician) => (
-                    <SelectItem 
-                      key={physician.id} 
-                      value={physician.id}
-                      className="cursor-pointer"
-                    >
-                      {physician.name}
-                    </SelectItem>
-                  ))}
-                </SelectContent>
-              </Select>
+              <ProviderPicker
+                role="READING"
+                id="physicianId"
+                name="physicianId"
+                defaultValue={editingProcedure?.physician?.id}
+                placeholder="Select Physician"
+                className="flex h-10 w-full rounded-md border border-input bg-background px-3 py-2 text-sm ring-offset-background focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring focus-visible:ring-offset-2"
+              />
             </div>
 
             <div className="pt-4 flex justify-end gap-2">
@@ -1,17 +1,18 @@
 'use client'
 
-import { useState, useEffect } from 'react'
+import { useState, useEffect, useCallback } from 'react'
 import { useRouter } from 'next/navigation'
 import { motion } from 'framer-motion'
-import { Loader2, ArrowLeft, Save, Trash2 } from 'lucide-react'
+import { Loader2, ArrowLeft, Save, Trash2, Send } from 'lucide-react'
 import Link from 'next/link'
 import { format } from 'date-fns'
 import { use } from 'react'
 
-import { Button } from "@/components/ui/button"
 import { Input } from "@/components/ui/input"
 import { Label } from "@/components/ui/label"
 import { Textarea } from "@/components/ui/textarea"
+import { Badge } from "@/components/ui/badge"
+import { useToast } from "@/components/ui/use-toast"
 import {
   Select,
   SelectContent,
@@ -19,6 +20,50 @@ import {
   SelectTrigger,
   SelectValue,
 } from "@/components/ui/select"
+import {
+  CaseAttorneyOption,
+  CaseDetailsFields,
+  CaseDetailsValue,
+  CaseProcedureOption,
+  CLAIM_TYPE_LABELS,
+  emptyCaseDetails,
+  SETTLEMENT_STATUS_LABELS,
+  toCaseDetailsPayload,
+} from "@/components/cases/CaseDetailsFields"
+import { LinkedTasks } from "@/components/tasks/LinkedTasks"
+
+interface CaseProcedure {
+  id: string
+  scheduleDate: string
+  scheduleTime: string
+  isCompleted: boolean
+  reportDeliveredAt: string | null
+  exam: { id: string; name: string }
+  lop: { id: string; status: string } | null
+  charges: Array<{ id: string; amount: number; invoiceId: string | null }>
+}
+
+interface CaseInvoice {
+  id: string
+  invoiceNumber: string
+  status: string
+  issueDate: string
+  subtotal: number
+  paymentTotal: number
+  balance: number
+}
+
+interface CaseSummary {
+  totalCharges: number
+  invoiced: number
+  paid: number
+  reduced: number
+  uninvoiced: number
+  balance: number
+  outstandingLops: Array<{ id: string; status: string; requestedDate: string | null; receivedDate: string | null; amount: number | null }>
+  proceduresWithoutLop: number
+  reportsPending: string[]
+}
 
 interface Case {
   id: string
@@ -26,20 +71,56 @@ interface Case {
   status: string
   filingDate: string
   notes: string
+  patientId: string
+  attorneyId: string | null
+  caseManagerId: string | null
+  dateOfInjury: string | null
+  claimType: string | null
+  opposingInsurer: string | null
+  settlementStatus: string | null
+  settlementAmount: number | null
   patient: {
     id: string
     firstName: string
     lastName: string
   }
+  attorney: { id: string; user: { name: string } } | null
+  caseManager: { id: string; firstName: string; lastName: string; email: string; phone: string } | null
+  procedures: CaseProcedure[]
+  invoices: CaseInvoice[]
+  summary: CaseSummary
+}
+
+const formatMoney = (value: number | null | undefined) => `$${(value ?? 0).toFixed(2)}`
+
+const formatDay = (value: string | null | undefined) => (value ? format(new Date(value), 'MM/dd/yyyy') : '—')
+
+function toDetails(case_: Case): CaseDetailsValue {
+  return {
+    attorneyId: case_.attorneyId ?? '',
+    caseManagerId: case_.caseManagerId ?? '',
+    dateOfInjury: case_.dateOfInjury ? format(new Date(case_.dateOfInjury), 'yyyy-MM-dd') : '',
+    claimType: case_.claimType ?? '',
+    opposingInsurer: case_.opposingInsurer ?? '',
+    settlementStatus: case_.settlementStatus ?? '',
+    settlementAmount: case_.settlementAmount === null ? '' : String(case_.settlementAmount),
+    procedureIds: case_.procedures.map((procedure) => procedure.id),
+  }
 }
 
 export default function CaseDetailPage({ params }: { params: Promise<{ id: string }> }) {
   const resolvedParams = use(params)
   const router = useRouter()
+  const { toast } = useToast()
   const [loading, setLoading] = useState(true)
   const [saving, setSaving] = useState(false)
+  const [delivering, setDelivering] = useState(false)
   const [error, setError] = useState<string | null>(null)
+  const [saveError, setSaveError] = useState<string | null>(null)
   const [case_, setCase] = useState<Case | null>(null)
+  const [attorneys, setAttorneys] = useState<CaseAttorneyOption[]>([])
+  const [patientProcedures, setPatientProcedures] = useState<CaseProcedureOption[]>([])
+  const [details, setDetails] = useState<CaseDetailsValue>(emptyCaseDetails)
   const [formData, setFormData] = useState({
     caseNumber: '',
     status: '',
@@ -47,17 +128,13 @@ export default function CaseDetailPage({ params }: { params: Promise<{ id: strin
     notes: '',
   })
 
-  useEffect(() => {
-    fetchCase()
-  }, [resolvedParams.id])
-
-  const fetchCase = async () => {
+  const fetchCase = useCallback(async () => {
     try {
       const response = await fetch(`/api/cases/${resolvedParams.id}`)
       if (!response.ok) {
         throw new Error('Failed to fetch case')
       }
-      const data = await response.json()
+      const data: Case = await response.json()
       setCase(data)
       setFormData({
         caseNumber: data.caseNumber,
@@ -65,12 +142,24 @@ export default function CaseDetailPage({ params }: { params: Promise<{ id: strin
         filingDate: format(new Date(data.filingDate), 'yyyy-MM-dd'),
         notes: data.notes,
       })
+      setDetails(toDetails(data))
+
+      const [patientRes, attorneysRes] = await Promise.all([
+        fetch(`/api/patients/${data.patientId}`),
+        fetch('/api/attorneys'),
+      ])
+      if (patientRes.ok) setPatientProcedures((await patientRes.json()).procedures ?? [])
+      if (attorneysRes.ok) setAttorneys(await attorneysRes.json())
     } catch (err) {
       setError(err instanceof Error ? err.message : 'An error occurred')
     } finally {
       setLoading(false)
     }
-  }
+  }, [resolvedParams.id])
+
+  useEffect(() => {
+    fetchCase()
+  }, [fetchCase])
 
   const handleChange = (e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement>) => {
     const { name, value } = e.target
@@ -84,7 +173,7 @@ export default function CaseDetailPage({ params }: { params: Promise<{ id: strin
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault()
     setSaving(true)
-    setError(null)
+    setSaveError(null)
 
     try {
       // Convert the date to ISO string for the API
@@ -97,20 +186,52 @@ export default function CaseDetailPage({ params }: { params: Promise<{ id: strin
         body: JSON.stringify({
           ...formData,
           filingDate: formattedDate,
+          ...toCaseDetailsPayload(details),
         }),
       })
 
       if (!response.ok) {
-        throw new Error('Failed to update case')
+        const data = await response.json().catch(() => null)
+        throw new Error(data?.error || 'Failed to update case')
       }
 
-      router.push('/cases')
+      toast({ title: 'Case saved' })
+      await fetchCase()
     } catch (err) {
-      setError(err instanceof Error ? err.message : 'An error occurred')
+      setSaveError(err instanceof Error ? err.message : 'An error occurred')
+    } finally {
       setSaving(false)
     }
   }
 
+  const markDelivered = async (procedureIds: string[]) => {
+    setDelivering(true)
+    try {
+      const response = await fetch(`/api/cases/${resolvedParams.id}/reports`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ procedureIds }),
+      })
+      const data = await response.json()
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to update report delivery')
+      }
+
+      toast({ title: `${data.updated} report${data.updated === 1 ? '' : 's'} marked delivered` })
+      await fetchCase()
+    } catch (err) {
+      toast({
+        title: 'Error',
+        description: err instanceof Error ? err.message : 'Failed to update report delivery',
+        variant: 'destructive',
+      })
+    } finally {
+      setDelivering(false)
+    }
+  }
+
   const handleDelete = async () => {
     if (!confirm('Are you sure you want to delete this case?')) {
       return
@@ -209,6 +330,9 @@ export default function CaseDetailPage({ params }: { params: Promise<{ id: strin
     )
   }
 
+  const { summary } = case_
+  const pendingReports = case_.procedures.filter((procedure) => summary.reportsPending.includes(procedure.id))
+
   return (
     <motion.div
       initial={{ opacity: 0 }}
@@ -216,79 +340,221 @@ export default function CaseDetailPage({ params }: { params: Promise<{ id: strin
       transition={{ duration: 0.5 }}
       className="min-h-screen bg-gradient-to-br from-gray-50 to-gray-100 py-12"
     >
-      <div className="max-w-3xl mx-auto px-4 sm:px-6 lg:px-8">
+      <div className="max-w-6xl mx-auto px-4 sm:px-6 lg:px-8 space-y-6">
         <motion.div
           initial={{ opacity: 0, y: 20 }}
           animate={{ opacity: 1, y: 0 }}
           transition={{ duration: 0.5, delay: 0.2 }}
           className="bg-white rounded-2xl shadow-xl overflow-hidden"
         >
-          <motion.div
-            initial={{ opacity: 0, y: -20 }}
-            animate={{ opacity: 1, y: 0 }}
-            transition={{ duration: 0.5, delay: 0.3 }}
-            className="px-8 py-6 bg-gradient-to-r from-indigo-600 to-indigo-700"
-          >
+          <div className="px-8 py-6 bg-gradient-to-r from-indigo-600 to-indigo-700">
             <div className="flex flex-col sm:flex-row justify-between items-start sm:items-center gap-4">
-              <motion.h1
-                initial={{ opacity: 0, x: -20 }}
-                animate={{ opacity: 1, x: 0 }}
-                transition={{ duration: 0.5, delay: 0.4 }}
-                className="text-2xl font-bold text-white"
-              >
-                Edit Case
-              </motion.h1>
-              <motion.button
-                whileHover={{ scale: 1.05 }}
-                whileTap={{ scale: 0.95 }}
-                className="inline-flex items-center px-4 py-2 bg-white/10 text-white border border-white/20 rounded-lg hover:bg-white/20 transition-colors"
-              >
-                <Link href="/cases" className="flex items-center">
+              <div>
+                <h1 className="text-2xl font-bold text-white">Case {case_.caseNumber}</h1>
+                <p className="text-indigo-100">
+                  <Link href={`/patients/${case_.patient.id}`} className="hover:underline">
+                    {case_.patient.firstName} {case_.patient.lastName}
+                  </Link>
+                  {case_.claimType && ` · ${CLAIM_TYPE_LABELS[case_.claimType] ?? case_.claimType}`}
+                  {case_.dateOfInjury && ` · injured ${formatDay(case_.dateOfInjury)}`}
+                </p>
+              </div>
+              <div className="flex gap-2">
+                <Link
+                  href="/cases"
+                  className="inline-flex items-center px-4 py-2 bg-white/10 text-white border border-white/20 rounded-lg hover:bg-white/20 transition-colors"
+                >
                   <ArrowLeft className="h-4 w-4 mr-2" />
                   Back to Cases
                 </Link>
-              </motion.button>
+                <button
+                  onClick={handleDelete}
+                  className="inline-flex items-center px-4 py-2 bg-red-50 text-red-600 rounded-lg hover:bg-red-100 transition-colors"
+                >
+                  <Trash2 className="h-4 w-4 mr-2" />
+                  Delete
+                </button>
+              </div>
             </div>
-          </motion.div>
+          </div>
 
-          <motion.div
-            initial={{ opacity: 0, y: 20 }}
-            animate={{ opacity: 1, y: 0 }}
-            transition={{ duration: 0.5, delay: 0.5 }}
-            className="px-8 py-6 border-b border-gray-200"
-          >
-            <div className="flex flex-col sm:flex-row justify-between items-start sm:items-center gap-4">
-              <div>
-                <h2 className="text-lg font-semibold text-gray-900">Patient Information</h2>
-                <p className="text-gray-600">
-                  {case_.patient.firstName} {case_.patient.lastName}
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-4 px-8 py-6 border-b border-gray-200">
+            <div>
+              <p className="text-sm text-gray-500">Balance</p>
+              <p className="text-2xl font-semibold text-gray-900">{formatMoney(summary.balance)}</p>
+              <p className="text-xs text-gray-500">{formatMoney(summary.uninvoiced)} not yet invoiced</p>
+            </div>
+            <div>
+              <p className="text-sm text-gray-500">Charges</p>
+              <p className="text-2xl font-semibold text-gray-900">{formatMoney(summary.totalCharges)}</p>
+              <p className="text-xs text-gray-500">
+                {formatMoney(summary.paid)} paid · {formatMoney(summary.reduced)} reduced
+              </p>
+            </div>
+            <div>
+              <p className="text-sm text-gray-500">Settlement</p>
+              <p className="text-2xl font-semibold text-gray-900">
+                {case_.settlementAmount !== null ? formatMoney(case_.settlementAmount) : '—'}
+              </p>
+              <p className="text-xs text-gray-500">
+                {case_.settlementStatus ? SETTLEMENT_STATUS_LABELS[case_.settlementStatus] ?? case_.settlementStatus : 'No status'}
+              </p>
+            </div>
+            <div>
+              <p className="text-sm text-gray-500">Attorney</p>
+              <p className="text-lg font-semibold text-gray-900">{case_.attorney?.user.name ?? '—'}</p>
+              {case_.caseManager && (
+                <p className="text-xs text-gray-500">
+                  {case_.caseManager.firstName} {case_.caseManager.lastName} · {case_.caseManager.phone || case_.caseManager.email}
                 </p>
+              )}
+              {case_.opposingInsurer && (
+                <p className="text-xs text-gray-500">Opposing insurer: {case_.opposingInsurer}</p>
+              )}
+            </div>
+          </div>
+
+          <div className="grid grid-cols-1 lg:grid-cols-2 gap-6 px-8 py-6 border-b border-gray-200">
+            <div>
+              <h2 className="text-lg font-semibold text-gray-900 mb-2">Outstanding LOPs</h2>
+              {summary.outstandingLops.length === 0 && summary.proceduresWithoutLop === 0 ? (
+                <p className="text-sm text-gray-500">Every procedure is covered by a received LOP.</p>
+              ) : (
+                <ul className="text-sm space-y-1">
+                  {summary.outstandingLops.map((lop) => (
+                    <li key={lop.id} className="flex justify-between">
+                      <span>
+                        <Badge variant="outline" className="mr-2">{lop.status}</Badge>
+                        requested {formatDay(lop.requestedDate)}
+                      </span>
+                      {lop.amount !== null && <span className="text-gray-600">{formatMoney(lop.amount)}</span>}
+                    </li>
+                  ))}
+                  {summary.proceduresWithoutLop > 0 && (
+                    <li className="text-amber-700">
+                      {summary.proceduresWithoutLop} procedure{summary.proceduresWithoutLop === 1 ? '' : 's'} without a received LOP
+                    </li>
+                  )}
+                </ul>
+              )}
+            </div>
+            <div>
+              <div className="flex justify-between items-center mb-2">
+                <h2 className="text-lg font-semibold text-gray-900">Reports Pending Delivery</h2>
+                {pendingReports.length > 1 && (
+                  <button
+                    type="button"
+                    disabled={delivering}
+                    onClick={() => markDelivered(summary.reportsPending)}
+                    className="text-sm text-indigo-600 hover:text-indigo-800 disabled:opacity-50"
+                  >
+                    Mark all delivered
+                  </button>
+                )}
               </div>
-              <motion.button
-                whileHover={{ scale: 1.05 }}
-                whileTap={{ scale: 0.95 }}
-                onClick={handleDelete}
-                className="inline-flex items-center px-4 py-2 bg-red-50 text-red-600 rounded-lg hover:bg-red-100 transition-colors"
-              >
-                <Trash2 className="h-4 w-4 mr-2" />
-                Delete Case
-              </motion.button>
+              {pendingReports.length === 0 ? (
+                <p className="text-sm text-gray-500">No completed procedures are waiting on a report.</p>
+              ) : (
+                <ul className="text-sm space-y-1">
+                  {pendingReports.map((procedure) => (
+                    <li key={procedure.id} className="flex justify-between items-center">
+                      <span>{procedure.exam.name} · {formatDay(procedure.scheduleDate)}</span>
+                      <button
+                        type="button"
+                        disabled={delivering}
+                        onClick={() => markDelivered([procedure.id])}
+                        className="inline-flex items-center text-indigo-600 hover:text-indigo-800 disabled:opacity-50"
+                      >
+                        <Send className="h-3 w-3 mr-1" />
+                        Mark delivered
+                      </button>
+                    </li>
+                  ))}
+                </ul>
+              )}
             </div>
-          </motion.div>
+          </div>
 
-          <motion.form
-            initial={{ opacity: 0 }}
-            animate={{ opacity: 1 }}
-            transition={{ duration: 0.5, delay: 0.6 }}
-            onSubmit={handleSubmit}
-            className="px-8 py-6 space-y-6"
-          >
-            <motion.div
-              initial={{ opacity: 0, y: 20 }}
-              animate={{ opacity: 1, y: 0 }}
-              transition={{ duration: 0.5, delay: 0.7 }}
-              className="space-y-2"
-            >
+          <div className="px-8 py-6 border-b border-gray-200">
+            <h2 className="text-lg font-semibold text-gray-900 mb-2">Procedures</h2>
+            {case_.procedures.length === 0 ? (
+              <p className="text-sm text-gray-500">No procedures are billed under this case yet.</p>
+            ) : (
+              <div className="overflow-x-auto">
+                <table className="min-w-full divide-y divide-gray-200 text-sm">
+                  <thead className="bg-gray-50">
+                    <tr>
+                      <th className="px-4 py-2 text-left font-medium text-gray-500">Exam</th>
+                      <th className="px-4 py-2 text-left font-medium text-gray-500">Date</th>
+                      <th className="px-4 py-2 text-left font-medium text-gray-500">LOP</th>
+                      <th className="px-4 py-2 text-left font-medium text-gray-500">Report</th>
+                      <th className="px-4 py-2 text-right font-medium text-gray-500">Charges</th>
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-gray-200">
+                    {case_.procedures.map((procedure) => (
+                      <tr key={procedure.id}>
+                        <td className="px-4 py-2 text-gray-900">{procedure.exam.name}</td>
+                        <td className="px-4 py-2 text-gray-600">{formatDay(procedure.scheduleDate)} {procedure.scheduleTime}</td>
+                        <td className="px-4 py-2 text-gray-600">{procedure.lop?.status ?? 'None'}</td>
+                        <td className="px-4 py-2 text-gray-600">
+                          {procedure.reportDeliveredAt
+                            ? `Delivered ${formatDay(procedure.reportDeliveredAt)}`
+                            : procedure.isCompleted ? 'Pending' : 'Not performed'}
+                        </td>
+                        <td className="px-4 py-2 text-right text-gray-900">
+                          {formatMoney(procedure.charges.reduce((sum, charge) => sum + charge.amount, 0))}
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            )}
+          </div>
+
+          <div className="px-8 py-6">
+            <h2 className="text-lg font-semibold text-gray-900 mb-2">Invoices</h2>
+            {case_.invoices.length === 0 ? (
+              <p className="text-sm text-gray-500">No invoices have been issued for this case.</p>
+            ) : (
+              <ul className="divide-y border rounded-md text-sm">
+                {case_.invoices.map((invoice) => (
+                  <li key={invoice.id} className="flex justify-between px-4 py-2">
+                    <Link href={`/billing/${invoice.id}`} className="text-indigo-600 hover:text-indigo-800">
+                      {invoice.invoiceNumber}
+                    </Link>
+                    <span className="text-gray-600">
+                      {formatDay(invoice.issueDate)} · <Badge variant="outline">{invoice.status}</Badge> · balance {formatMoney(invoice.balance)}
+                    </span>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+
+          <div className="px-8 py-6">
+            <LinkedTasks patientId={case_.patient.id} caseId={case_.id} />
+          </div>
+        </motion.div>
+
+        <motion.form
+          initial={{ opacity: 0, y: 20 }}
+          animate={{ opacity: 1, y: 0 }}
+          transition={{ duration: 0.5, delay: 0.4 }}
+          onSubmit={handleSubmit}
+          className="bg-white rounded-2xl shadow-xl px-8 py-6 space-y-6"
+        >
+          <h2 className="text-lg font-semibold text-gray-900">Edit Case</h2>
+
+          {saveError && (
+            <div className="bg-red-50 border-l-4 border-red-500 p-4 rounded-lg">
+              <p className="text-sm font-medium text-red-800">{saveError}</p>
+            </div>
+          )}
+
+          <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+            <div className="space-y-2">
               <Label htmlFor="caseNumber">Case Number</Label>
               <Input
                 id="caseNumber"
@@ -298,14 +564,8 @@ export default function CaseDetailPage({ params }: { params: Promise<{ id: strin
                 required
                 className="w-full"
               />
-            </motion.div>
-
-            <motion.div
-              initial={{ opacity: 0, y: 20 }}
-              animate={{ opacity: 1, y: 0 }}
-              transition={{ duration: 0.5, delay: 0.8 }}
-              className="space-y-2"
-            >
+            </div>
+            <div className="space-y-2">
               <Label htmlFor="status">Status</Label>
               <Select
                 value={formData.status}
@@ -320,14 +580,8 @@ export default function CaseDetailPage({ params }: { params: Promise<{ id: strin
                   <SelectItem value="closed">Closed</SelectItem>
                 </SelectContent>
               </Select>
-            </motion.div>
-
-            <motion.div
-              initial={{ opacity: 0, y: 20 }}
-              animate={{ opacity: 1, y: 0 }}
-              transition={{ duration: 0.5, delay: 0.9 }}
-              className="space-y-2"
-            >
+            </div>
+            <div className="space-y-2">
               <Label htmlFor="filingDate">Filing Date</Label>
               <Input
                 id="filingDate"
@@ -338,57 +592,46 @@ export default function CaseDetailPage({ params }: { params: Promise<{ id: strin
                 required
                 className="w-full"
               />
-            </motion.div>
+            </div>
+          </div>
 
-            <motion.div
-              initial={{ opacity: 0, y: 20 }}
-              animate={{ opacity: 1, y: 0 }}
-              transition={{ duration: 0.5, delay: 1.0 }}
-              className="space-y-2"
-            >
-              <Label htmlFor="notes">Notes</Label>
-              <Textarea
-                id="notes"
-                name="notes"
-                value={formData.notes}
-                onChange={handleChange}
-                className="w-full min-h-[100px]"
-              />
-            </motion.div>
+          <CaseDetailsFields
+            value={details}
+            onChange={(changes) => setDetails((prev) => ({ ...prev, ...changes }))}
+            attorneys={attorneys}
+            procedures={patientProcedures}
+            caseId={case_.id}
+          />
 
-            <motion.div
-              initial={{ opacity: 0, y: 20 }}
-              animate={{ opacity: 1, y: 0 }}
-              transition={{ duration: 0.5, delay: 1.1 }}
-              className="flex justify-end gap-4"
+          <div className="space-y-2">
+            <Label htmlFor="notes">Notes</Label>
+            <Textarea
+              id="notes"
+              name="notes"
+              value={formData.notes}
+              onChange={handleChange}
+              className="w-full min-h-[100px]"
+            />
+          </div>
+
+          <div className="flex justify-end">
+            <motion.button
+              whileHover={{ scale: 1.05 }}
+              whileTap={{ scale: 0.95 }}
+              type="submit"
+              disabled={saving}
+              className="inline-flex items-center px-4 py-2 bg-indigo-600 text-white rounded-lg hover:bg-indigo-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
             >
-              <motion.button
-                whileHover={{ scale: 1.05 }}
-                whileTap={{ scale: 0.95 }}
-                type="button"
-                onClick={() => router.push('/cases')}
-                className="px-4 py-2 text-gray-700 bg-gray-100 rounded-lg hover:bg-gray-200 transition-colors"
-              >
-                Cancel
-              </motion.button>
-              <motion.button
-                whileHover={{ scale: 1.05 }}
-                whileTap={{ scale: 0.95 }}
-                type="submit"
-                disabled={saving}
-                className="inline-flex items-center px-4 py-2 bg-indigo-600 text-white rounded-lg hover:bg-indigo-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
-              >
-                {saving ? (
-                  <Loader2 className="h-4 w-4 mr-2 animate-spin" />
-                ) : (
-                  <Save className="h-4 w-4 mr-2" />
-                )}
-                Save Changes
-              </motion.button>
-            </motion.div>
-          </motion.form>
-        </motion.div>
+              {saving ? (
+                <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+              ) : (
+                <Save className="h-4 w-4 mr-2" />
+              )}
+              Save Changes
+            </motion.button>
+          </div>
+        </motion.form>
       </div>
     </motion.div>
   )
-} 
\ No newline at end of file
+}
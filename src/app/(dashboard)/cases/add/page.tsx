@@ -18,6 +18,15 @@ import {
   SelectTrigger,
   SelectValue,
 } from "@/components/ui/select"
+import { fetchAllPatients } from "@/lib/patient-options"
+import {
+  CaseAttorneyOption,
+  CaseDetailsFields,
+  CaseDetailsValue,
+  CaseProcedureOption,
+  emptyCaseDetails,
+  toCaseDetailsPayload,
+} from "@/components/cases/CaseDetailsFields"
 
 interface Patient {
   id: string
@@ -38,6 +47,9 @@ export default function AddCasePage() {
   const [loading, setLoading] = useState(false)
   const [error, setError] = useState<string | null>(null)
   const [patients, setPatients] = useState<Patient[]>([])
+  const [attorneys, setAttorneys] = useState<CaseAttorneyOption[]>([])
+  const [procedures, setProcedures] = useState<CaseProcedureOption[]>([])
+  const [details, setDetails] = useState<CaseDetailsValue>(emptyCaseDetails)
   const [formData, setFormData] = useState<FormData>({
     caseNumber: '',
     patientId: '',
@@ -50,14 +62,38 @@ export default function AddCasePage() {
     fetchPatients()
   }, [])
 
+  // The patient's attorney, injury date and procedures are the usual starting point
+  useEffect(() => {
+    setProcedures([])
+    setDetails(emptyCaseDetails)
+    if (!formData.patientId) return
+
+    fetch(`/api/patients/${formData.patientId}`)
+      .then((response) => (response.ok ? response.json() : null))
+      .then((patient) => {
+        if (!patient) return
+        const attorney = attorneys.find((item) => item.user.name === patient.lawyer)
+        setProcedures(patient.procedures ?? [])
+        setDetails({
+          ...emptyCaseDetails,
+          attorneyId: attorney?.id ?? '',
+          dateOfInjury: patient.doidol ? format(new Date(patient.doidol), 'yyyy-MM-dd') : '',
+          procedureIds: (patient.procedures ?? [])
+            .filter((procedure: CaseProcedureOption) => !procedure.caseId)
+            .map((procedure: CaseProcedureOption) => procedure.id),
+        })
+      })
+      .catch((err) => console.error('Error fetching patient:', err))
+  }, [formData.patientId, attorneys])
+
   const fetchPatients = async () => {
     try {
-      const response = await fetch('/api/patients')
-      if (!response.ok) {
-        throw new Error('Failed to fetch patients')
-      }
-      const data = await response.json()
-      setPatients(data)
+      const [patientList, attorneysRes] = await Promise.all([
+        fetchAllPatients(),
+        fetch('/api/attorneys'),
+      ])
+      setPatients(patientList)
+      if (attorneysRes.ok) setAttorneys(await attorneysRes.json())
     } catch (err) {
       setError(err instanceof Error ? err.message : 'An error occurred')
     }
@@ -83,11 +119,12 @@ export default function AddCasePage() {
         headers: {
           'Content-Type': 'application/json',
         },
-        body: JSON.stringify(formData),
+        body: JSON.stringify({ ...formData, ...toCaseDetailsPayload(details) }),
       })
 
       if (!response.ok) {
-        throw new Error('Failed to create case')
+        const data = await response.json().catch(() => null)
+        throw new Error(data?.error || 'Failed to create case')
       }
 
       router.push('/cases')
@@ -257,6 +294,19 @@ export default function AddCasePage() {
               />
             </motion.div>
 
+            <motion.div
+              initial={{ opacity: 0, y: 20 }}
+              animate={{ opacity: 1, y: 0 }}
+              transition={{ duration: 0.5, delay: 0.95 }}
+            >
+              <CaseDetailsFields
+                value={details}
+                onChange={(changes) => setDetails((prev) => ({ ...prev, ...changes }))}
+                attorneys={attorneys}
+                procedures={procedures}
+              />
+            </motion.div>
+
             <motion.div
               initial={{ opacity: 0, y: 20 }}
               animate={{ opacity: 1, y: 0 }}
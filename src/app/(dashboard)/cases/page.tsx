@@ -28,6 +28,7 @@ interface Case {
     firstName: string
     lastName: string
   }
+  attorney: { id: string; user: { name: string } } | null
 }
 
 export default function CasesPage() {
@@ -186,6 +187,7 @@ export default function CasesPage() {
                   <TableRow>
                     <TableHead>Case Number</TableHead>
                     <TableHead>Patient</TableHead>
+                    <TableHead>Attorney</TableHead>
                     <TableHead>Status</TableHead>
                     <TableHead>Filing Date</TableHead>
                     <TableHead>Notes</TableHead>
@@ -207,6 +209,7 @@ export default function CasesPage() {
                         <TableCell>
                           {case_.patient.firstName} {case_.patient.lastName}
                         </TableCell>
+                        <TableCell>{case_.attorney?.user.name ?? '—'}</TableCell>
                         <TableCell>
                           <motion.div
                             whileHover={{ scale: 1.05 }}
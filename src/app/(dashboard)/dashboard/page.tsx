@@ -74,12 +74,12 @@ export default function DashboardPage() {
       today.setHours(0, 0, 0, 0)
 
       // Fetch patients
-      const patientsRes = await fetch('/api/patients')
+      const patientsRes = await fetch('/api/patients?limit=1')
       if (!patientsRes.ok) {
         throw new Error('Failed to fetch patients')
       }
       const patients = await patientsRes.json()
-      setData(prev => ({ ...prev, totalPatients: patients.length }))
+      setData(prev => ({ ...prev, totalPatients: patients.total }))
 
       // Fetch appointments
       const appointmentsRes = await fetch('/api/appointments')
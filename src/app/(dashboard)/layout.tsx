@@ -11,6 +11,8 @@ import { Menu, Transition } from '@headlessui/react'
 import { Fragment } from 'react'
 import { ChevronDownIcon } from '@heroicons/react/20/solid'
 import { ThemeSwitcher } from '@/components/ThemeSwitcher'
+import { NotificationBell } from '@/components/notifications/NotificationBell'
+import { IdleTimeout } from '@/components/auth/IdleTimeout'
 
 const navigation = [
   { name: 'Dashboard', href: '/dashboard' },
@@ -19,17 +21,25 @@ const navigation = [
   { name: 'Cases', href: '/cases' },
   { name: 'Tasks', href: '/tasks' },
   { name: 'Calendar', href: '/calendar' },
+  { name: 'Billing', href: '/billing' },
   { name: 'Reports', href: '/reports' },
 ]
 
 const toolsNavigation = [
-  { name: 'Doctors', href: '/tools/doctors' },
+  { name: 'Providers', href: '/tools/providers' },
   { name: 'Attorneys', href: '/tools/attorneys' },
   { name: 'Facilities', href: '/tools/facilities' },
   { name: 'Exams', href: '/tools/exams' },
   { name: 'Payers', href: '/tools/payers' },
   { name: 'Statuses', href: '/tools/statuses' },
-  { name: 'Physicians', href: '/tools/physicians' },
+]
+
+const adminToolsNavigation = [
+  { name: 'Audit Log', href: '/tools/audit-log' },
+  { name: 'Merge Patients', href: '/tools/merge-patients' },
+  { name: 'Active Sessions', href: '/tools/sessions' },
+  { name: 'Security Policy', href: '/tools/security' },
+  { name: 'Task Rules', href: '/tools/task-rules' },
 ]
 
 export default function DashboardLayout({
@@ -109,7 +119,7 @@ export default function DashboardLayout({
                 >
                   <Menu.Items className="absolute right-0 top-full z-50 mt-1 w-56 origin-top-right rounded-lg bg-white shadow-lg ring-1 ring-black ring-opacity-5 focus:outline-none">
                     <div className="py-1">
-                      {toolsNavigation.map((item) => (
+                      {[...toolsNavigation, ...(session.user.role === 'ADMIN' ? adminToolsNavigation : [])].map((item) => (
                         <Menu.Item key={item.name}>
                           {({ active }) => (
                             <Link
@@ -151,6 +161,9 @@ export default function DashboardLayout({
               >
                 Help
               </Link>
+              <div className="px-1">
+                <NotificationBell />
+              </div>
               <div className="px-3">
                 <ThemeSwitcher />
               </div>
@@ -176,6 +189,7 @@ export default function DashboardLayout({
           {children}
         </div>
       </main>
+      <IdleTimeout />
     </div>
   )
 } 
\ No newline at end of file
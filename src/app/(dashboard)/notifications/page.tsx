@@ -0,0 +1,220 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import Link from 'next/link'
+import { format } from 'date-fns'
+import { Loader2, Save } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { Label } from '@/components/ui/label'
+import { Switch } from '@/components/ui/switch'
+import { useToast } from '@/components/ui/use-toast'
+import { cn } from '@/lib/utils'
+import type { AppNotification } from '@/components/notifications/NotificationBell'
+
+interface Preferences {
+  notifications: {
+    email: boolean
+    push: boolean
+    sms: boolean
+  }
+  mutedTypes: string[]
+  types: Array<{ type: string; label: string }>
+}
+
+const channels = [
+  { key: 'email', label: 'Email', description: 'Send a copy to my email address' },
+  { key: 'push', label: 'Browser', description: 'Show a desktop notification while the app is open' },
+  { key: 'sms', label: 'Text message', description: 'Text the phone number on my account' },
+] as const
+
+export default function NotificationsPage() {
+  const { toast } = useToast()
+  const [notifications, setNotifications] = useState<AppNotification[]>([])
+  const [preferences, setPreferences] = useState<Preferences | null>(null)
+  const [loading, setLoading] = useState(true)
+  const [saving, setSaving] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    const load = async () => {
+      const [notificationsRes, preferencesRes] = await Promise.all([
+        fetch('/api/notifications?limit=100'),
+        fetch('/api/notifications/preferences'),
+      ])
+      if (!notificationsRes.ok || !preferencesRes.ok) {
+        throw new Error('Failed to load notifications')
+      }
+      const [notificationsData, preferencesData] = await Promise.all([notificationsRes.json(), preferencesRes.json()])
+      setNotifications(notificationsData.notifications)
+      setPreferences(preferencesData)
+    }
+
+    load()
+      .catch((err) => setError(err instanceof Error ? err.message : 'Failed to load notifications'))
+      .finally(() => setLoading(false))
+  }, [])
+
+  const markAllRead = async () => {
+    const response = await fetch('/api/notifications', {
+      method: 'PATCH',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({ all: true }),
+    })
+    if (response.ok) {
+      const readAt = new Date().toISOString()
+      setNotifications((prev) => prev.map((notification) => ({ ...notification, readAt: notification.readAt ?? readAt })))
+    }
+  }
+
+  const setChannel = async (key: keyof Preferences['notifications'], enabled: boolean) => {
+    if (!preferences) return
+    // Browser notifications need the user's permission before they can be shown
+    if (key === 'push' && enabled && 'Notification' in window && window.Notification.permission === 'default') {
+      await window.Notification.requestPermission()
+    }
+    setPreferences({ ...preferences, notifications: { ...preferences.notifications, [key]: enabled } })
+  }
+
+  const toggleType = (type: string, enabled: boolean) => {
+    if (!preferences) return
+    setPreferences({
+      ...preferences,
+      mutedTypes: enabled
+        ? preferences.mutedTypes.filter((muted) => muted !== type)
+        : [...preferences.mutedTypes, type],
+    })
+  }
+
+  const save = async () => {
+    if (!preferences) return
+
+    setSaving(true)
+    setError(null)
+    try {
+      const response = await fetch('/api/notifications/preferences', {
+        method: 'PUT',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          notifications: preferences.notifications,
+          mutedTypes: preferences.mutedTypes,
+        }),
+      })
+      const data = await response.json()
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to save preferences')
+      }
+      setPreferences(data)
+      toast({ title: 'Notification preferences saved' })
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save preferences')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center min-h-screen">
+        <Loader2 className="h-8 w-8 animate-spin text-indigo-600" />
+      </div>
+    )
+  }
+
+  return (
+    <div className="container mx-auto px-4 py-8 space-y-6">
+      <div className="flex items-center justify-between">
+        <h1 className="text-2xl font-bold text-gray-900">Notifications</h1>
+        {notifications.some((notification) => !notification.readAt) && (
+          <Button type="button" variant="outline" onClick={markAllRead}>
+            Mark all read
+          </Button>
+        )}
+      </div>
+
+      {error && (
+        <div className="bg-red-50 border-l-4 border-red-500 p-4 rounded-lg">
+          <p className="text-sm font-medium text-red-800">{error}</p>
+        </div>
+      )}
+
+      <div className="bg-white rounded-lg shadow-lg overflow-hidden">
+        {notifications.length === 0 ? (
+          <p className="p-6 text-sm text-gray-500">No notifications yet.</p>
+        ) : (
+          <ul className="divide-y">
+            {notifications.map((notification) => (
+              <li key={notification.id} className={cn(notification.readAt ? '' : 'bg-indigo-50/50', 'px-6 py-4')}>
+                <div className="flex items-start justify-between gap-4">
+                  <div>
+                    {notification.link ? (
+                      <Link href={notification.link} className="text-sm font-medium text-indigo-600 hover:text-indigo-800">
+                        {notification.title}
+                      </Link>
+                    ) : (
+                      <p className="text-sm font-medium text-gray-900">{notification.title}</p>
+                    )}
+                    <p className="text-sm text-gray-600">{notification.body}</p>
+                  </div>
+                  <span className="text-xs text-gray-500 whitespace-nowrap">
+                    {format(new Date(notification.createdAt), 'MM/dd/yyyy h:mm a')}
+                  </span>
+                </div>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+
+      {preferences && (
+        <div className="bg-white rounded-lg shadow-lg p-6 space-y-6">
+          <div>
+            <h2 className="text-lg font-semibold text-gray-900">Preferences</h2>
+            <p className="text-sm text-gray-500">Notifications always appear under the bell. Choose where else they go.</p>
+          </div>
+
+          <div className="space-y-4">
+            {channels.map((channel) => (
+              <div key={channel.key} className="flex items-center justify-between">
+                <div>
+                  <Label htmlFor={`channel-${channel.key}`}>{channel.label}</Label>
+                  <p className="text-sm text-gray-500">{channel.description}</p>
+                </div>
+                <Switch
+                  id={`channel-${channel.key}`}
+                  checked={preferences.notifications[channel.key]}
+                  onCheckedChange={(checked) => setChannel(channel.key, checked)}
+                />
+              </div>
+            ))}
+          </div>
+
+          <div className="space-y-2">
+            <h3 className="text-sm font-semibold text-gray-700">Notify me when</h3>
+            {preferences.types.map(({ type, label }) => (
+              <label key={type} className="flex items-center gap-2 text-sm text-gray-700">
+                <input
+                  type="checkbox"
+                  checked={!preferences.mutedTypes.includes(type)}
+                  onChange={(e) => toggleType(type, e.target.checked)}
+                  className="rounded border-gray-300 text-indigo-600 focus:ring-indigo-500"
+                />
+                {label}
+              </label>
+            ))}
+          </div>
+
+          <div className="flex justify-end">
+            <Button type="button" onClick={save} disabled={saving}>
+              {saving ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Save className="h-4 w-4 mr-2" />}
+              Save Preferences
+            </Button>
+          </div>
+        </div>
+      )}
+    </div>
+  )
+}
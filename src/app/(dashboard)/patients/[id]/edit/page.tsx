@@ -3,13 +3,10 @@
 import { useState, useEffect } from 'react'
 import { useRouter } from 'next/navigation'
 import { use } from 'react'
-
-interface Doctor {
-  id: string
-  name: string
-  prefix: string
-  email: string
-}
+import { isLopReceived } from '@/lib/lops'
+import { ProviderPicker } from '@/components/providers/ProviderPicker'
+import { CityOptions } from '@/components/address/PlaceOptions'
+import { getCityStateFromZip } from '@/lib/zipcode'
 
 interface Payer {
   id: string
@@ -28,13 +25,6 @@ interface Facility {
   name: string
 }
 
-interface Physician {
-  id: string
-  prefix: string
-  name: string
-  suffix: string | null
-}
-
 interface Exam {
   id: string
   name: string
@@ -50,10 +40,21 @@ interface Procedure {
   facilityId: string
   physicianId: string
   statusId: string
-  lop: string
+  lopId: string
   isCompleted: boolean
 }
 
+interface Lop {
+  id: string
+  status: string
+  requestedDate: string | null
+  attorney: {
+    user: {
+      name: string
+    }
+  } | null
+}
+
 interface Attorney {
   id: string
   user: {
@@ -118,16 +119,15 @@ export default function EditPatientPage({ params }: { params: Promise<{ id: stri
     referringDoctorId: '',
     procedures: [] as Procedure[]
   })
-  const [doctors, setDoctors] = useState<Doctor[]>([])
   const [payers, setPayers] = useState<Payer[]>([])
   const [statuses, setStatuses] = useState<Status[]>([])
   const [facilities, setFacilities] = useState<Facility[]>([])
-  const [physicians, setPhysicians] = useState<Physician[]>([])
   const [exams, setExams] = useState<Exam[]>([])
   const [attorneys, setAttorneys] = useState<Attorney[]>([])
   const [loading, setLoading] = useState(true)
   const [error, setError] = useState<string | null>(null)
   const [patientData, setPatientData] = useState<any>(null)
+  const lops: Lop[] = patientData?.lops || []
 
   const formatPhoneNumber = (value: string) => {
     // Remove all non-numeric characters
@@ -284,11 +284,9 @@ export default function EditPatientPage({ params }: { params: Promise<{ id: stri
 
   useEffect(() => {
     fetchPatient()
-    fetchDoctors()
     fetchPayers()
     fetchStatuses()
     fetchFacilities()
-    fetchPhysicians()
     fetchExams()
     fetchAttorneys()
   }, [resolvedParams.id])
@@ -339,27 +337,6 @@ export default function EditPatientPage({ params }: { params: Promise<{ id: stri
     }
   }
 
-  const fetchDoctors = async () => {
-    try {
-      console.log('Fetching doctors...')
-      const response = await fetch('/api/doctors')
-      if (!response.ok) {
-        throw new Error('Failed to fetch doctors')
-      }
-      const result = await response.json()
-      console.log('Fetched doctors:', result)
-      if (result.data) {
-        setDoctors(result.data)
-      } else {
-        setDoctors([])
-      }
-    } catch (error) {
-      console.error('Error fetching doctors:', error)
-      setError('Failed to load doctors')
-      setDoctors([])
-    }
-  }
-
   const fetchStatuses = async () => {
     try {
       const response = await fetch('/api/statuses')
@@ -388,20 +365,6 @@ export default function EditPatientPage({ params }: { params: Promise<{ id: stri
     }
   }
 
-  const fetchPhysicians = async () => {
-    try {
-      const response = await fetch('/api/physicians')
-      if (!response.ok) {
-        throw new Error('Failed to fetch physicians')
-      }
-      const data = await response.json()
-      setPhysicians(data)
-    } catch (err) {
-      console.error('Error fetching physicians:', err)
-      setError('Failed to load physicians')
-    }
-  }
-
   const fetchExams = async () => {
     try {
       const response = await fetch('/api/exams')
@@ -434,7 +397,7 @@ export default function EditPatientPage({ params }: { params: Promise<{ id: stri
         facilityId: proc.facilityId,
         physicianId: proc.physicianId,
         statusId: proc.statusId,
-        lop: proc.lop || '',
+        lopId: proc.lopId || '',
         isCompleted: proc.isCompleted || false
       })) || []
 
@@ -480,7 +443,7 @@ export default function EditPatientPage({ params }: { params: Promise<{ id: stri
           facilityId: '',
           physicianId: '',
           statusId: '',
-          lop: '',
+          lopId: '',
           isCompleted: false
         }
       ]
@@ -624,7 +587,8 @@ export default function EditPatientPage({ params }: { params: Promise<{ id: stri
           ...proc,
           scheduleDate: proc.scheduleDate ? parseDate(proc.scheduleDate) : null,
           facilityId: proc.facilityId || undefined,
-          physicianId: proc.physicianId || undefined
+          physicianId: proc.physicianId || undefined,
+          lopId: proc.lopId || undefined
         }))
       }
 
@@ -736,6 +700,17 @@ export default function EditPatientPage({ params }: { params: Promise<{ id: stri
       ...prev,
       [name]: formattedValue
     }))
+
+    // A complete ZIP fills in the city from the offline ZIP database
+    if (name === 'zip' && value.length === 5) {
+      getCityStateFromZip(value)
+        .then((location) => {
+          if (location) {
+            setFormData(prev => ({ ...prev, city: location.city }))
+          }
+        })
+        .catch((error) => console.error('Error looking up ZIP code:', error))
+    }
   }
 
   if (loading) {
@@ -975,10 +950,12 @@ export default function EditPatientPage({ params }: { params: Promise<{ id: stri
                       type="text"
                       name="city"
                       id="city"
+                      list="city-options"
                       value={formData.city}
                       onChange={handleChange}
                       className="mt-1 block w-full rounded-lg border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm"
                     />
+                    <CityOptions id="city-options" city={formData.city} />
                   </div>
 
                   <div className="sm:col-span-3">
@@ -1102,20 +1079,15 @@ export default function EditPatientPage({ params }: { params: Promise<{ id: stri
                     <label htmlFor="referringDoctorId" className="block text-sm font-medium text-gray-700">
                       Referring Doctor
                     </label>
-                    <select
-                      name="referringDoctorId"
+                    <ProviderPicker
+                      role="REFERRING"
                       id="referringDoctorId"
+                      name="referringDoctorId"
                       value={formData.referringDoctorId || ''}
-                      onChange={handleChange}
+                      onChange={(providerId) => setFormData(prev => ({ ...prev, referringDoctorId: providerId }))}
+                      placeholder="Select Doctor"
                       className="mt-1 block w-full rounded-lg border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm"
-                    >
-                      <option value="">Select Doctor</option>
-                      {doctors.map((doctor) => (
-                        <option key={doctor.id} value={doctor.id}>
-                          {doctor.prefix} {doctor.name}
-                        </option>
-                      ))}
-                    </select>
+                    />
                   </div>
                 </div>
               </div>
@@ -1231,21 +1203,16 @@ export default function EditPatientPage({ params }: { params: Promise<{ id: stri
                           <label className="block text-sm font-medium text-gray-700">
                             Physician *
                           </label>
-                          <select
+                          <ProviderPicker
+                            role="READING"
                             id={`procedures.${index}.physicianId`}
                             name={`procedures.${index}.physicianId`}
                             value={procedure.physicianId}
-                            onChange={(e) => updateProcedure(index, 'physicianId', e.target.value)}
+                            onChange={(providerId) => updateProcedure(index, 'physicianId', providerId)}
                             required
+                            placeholder="Select Physician"
                             className="mt-1 block w-full rounded-lg border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm"
-                          >
-                            <option value="">Select Physician</option>
-                            {physicians.map((physician) => (
-                              <option key={physician.id} value={physician.id}>
-                                {physician.name}
-                              </option>
-                            ))}
-                          </select>
+                          />
                         </div>
 
                         <div>
@@ -1269,6 +1236,31 @@ export default function EditPatientPage({ params }: { params: Promise<{ id: stri
                           </select>
                         </div>
 
+                        <div>
+                          <label className="block text-sm font-medium text-gray-700">
+                            LOP
+                          </label>
+                          <select
+                            id={`procedures.${index}.lopId`}
+                            name={`procedures.${index}.lopId`}
+                            value={procedure.lopId}
+                            onChange={(e) => updateProcedure(index, 'lopId', e.target.value)}
+                            className="mt-1 block w-full rounded-lg border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm"
+                          >
+                            <option value="">No LOP</option>
+                            {lops.map((lop) => (
+                              <option key={lop.id} value={lop.id}>
+                                {lop.attorney?.user.name || 'Unassigned attorney'} ({lop.status.toLowerCase()})
+                              </option>
+                            ))}
+                          </select>
+                          {!isLopReceived(lops.find((lop) => lop.id === procedure.lopId)) && (
+                            <p className="mt-1 text-xs text-amber-600">
+                              Scheduled without a received LOP
+                            </p>
+                          )}
+                        </div>
+
                         <div className="sm:col-span-2">
                           <div className="flex items-center">
                             <input
@@ -2,7 +2,12 @@
 
 import { useEffect, useState } from 'react'
 import { useParams } from 'next/navigation'
+import Link from 'next/link'
 import { format } from 'date-fns'
+import { LopPanel, PatientLop } from '@/components/patients/LopPanel'
+import { PatientDocuments } from '@/components/patients/PatientDocuments'
+import { LinkedTasks } from '@/components/tasks/LinkedTasks'
+import { procedureNeedsLop } from '@/lib/lops'
 
 interface Patient {
   id: string
@@ -36,7 +41,10 @@ interface Patient {
   }
   procedures: Array<{
     id: string
-    exam: string
+    exam: {
+      id: string
+      name: string
+    }
     scheduleDate: string
     scheduleTime: string
     facility: {
@@ -53,7 +61,12 @@ interface Patient {
       color: string
     }
     isCompleted: boolean
+    lop: {
+      id: string
+      status: string
+    } | null
   }>
+  lops: PatientLop[]
 }
 
 export default function PatientPage() {
@@ -62,26 +75,26 @@ export default function PatientPage() {
   const [loading, setLoading] = useState(true)
   const [error, setError] = useState<string | null>(null)
 
-  useEffect(() => {
-    const fetchPatient = async () => {
-      try {
-        const response = await fetch(`/api/patients/${params.id}`)
-        if (!response.ok) {
-          if (response.status === 404) {
-            setError('Patient not found')
-            return
-          }
-          throw new Error('Failed to fetch patient data')
+  const fetchPatient = async () => {
+    try {
+      const response = await fetch(`/api/patients/${params.id}`)
+      if (!response.ok) {
+        if (response.status === 404) {
+          setError('Patient not found')
+          return
         }
-        const data = await response.json()
-        setPatient(data)
-      } catch (err) {
-        setError(err instanceof Error ? err.message : 'An error occurred')
-      } finally {
-        setLoading(false)
+        throw new Error('Failed to fetch patient data')
       }
+      const data = await response.json()
+      setPatient(data)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'An error occurred')
+    } finally {
+      setLoading(false)
     }
+  }
 
+  useEffect(() => {
     fetchPatient()
   }, [params.id])
 
@@ -116,7 +129,13 @@ export default function PatientPage() {
           <h1 className="text-2xl font-bold text-gray-900">
             {patient.firstName} {patient.middleName} {patient.lastName}
           </h1>
-          <div className="flex items-center">
+          <div className="flex items-center gap-4">
+            <Link
+              href={`/patients/${patient.id}/schedule`}
+              className="px-3 py-1 rounded-md text-sm font-medium text-white bg-indigo-600 hover:bg-indigo-700"
+            >
+              Schedule Procedures
+            </Link>
             <span
               className="px-3 py-1 rounded-full text-sm font-medium"
               style={{ backgroundColor: patient.status.color + '20', color: patient.status.color }}
@@ -236,13 +255,16 @@ export default function PatientPage() {
                     <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
                       Status
                     </th>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                      LOP
+                    </th>
                   </tr>
                 </thead>
                 <tbody className="bg-white divide-y divide-gray-200">
                   {patient.procedures.map((procedure) => (
                     <tr key={procedure.id}>
                       <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
-                        {procedure.exam}
+                        {procedure.exam.name}
                       </td>
                       <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
                         {procedure.facility.name}
@@ -261,6 +283,17 @@ export default function PatientPage() {
                           {procedure.status.name}
                         </span>
                       </td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm">
+                        {procedureNeedsLop(procedure) ? (
+                          <span className="px-2 py-1 text-xs font-medium rounded-full bg-amber-100 text-amber-800">
+                            {procedure.lop ? `LOP ${procedure.lop.status.toLowerCase()}` : 'No LOP'}
+                          </span>
+                        ) : (
+                          <span className="px-2 py-1 text-xs font-medium rounded-full bg-green-100 text-green-800">
+                            LOP {procedure.lop?.status.toLowerCase()}
+                          </span>
+                        )}
+                      </td>
                     </tr>
                   ))}
                 </tbody>
@@ -268,6 +301,21 @@ export default function PatientPage() {
             </div>
           </div>
         )}
+
+        <LopPanel
+          patientId={patient.id}
+          lops={patient.lops || []}
+          procedures={patient.procedures || []}
+          onChange={fetchPatient}
+        />
+
+        <div className="mt-8">
+          <LinkedTasks patientId={patient.id} />
+        </div>
+
+        <div className="mt-8">
+          <PatientDocuments patientId={patient.id} />
+        </div>
       </div>
     </div>
   )
@@ -0,0 +1,458 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { useParams, useRouter } from 'next/navigation'
+import Link from 'next/link'
+import { format } from 'date-fns'
+import { Loader2, Plus, Trash2, CalendarCheck } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { useToast } from '@/components/ui/use-toast'
+import { ProviderPicker } from '@/components/providers/ProviderPicker'
+
+interface Option {
+  id: string
+  name: string
+}
+
+interface PatientSummary {
+  id: string
+  firstName: string
+  lastName: string
+}
+
+interface WizardItem {
+  examId: string
+  facilityId: string
+  repeats: boolean
+  intervalWeeks: number
+  occurrences: number
+}
+
+interface PlannedAppointment {
+  item: number
+  occurrence: number
+  examId: string
+  facilityId: string
+  resourceId: string | null
+  date: string
+  time: string
+  durationMinutes: number
+  available: boolean
+}
+
+interface SchedulePlan {
+  date: string
+  appointments: PlannedAppointment[]
+}
+
+interface BookingConflict {
+  index: number
+  conflicts: Array<{ time: string; examName: string; patientName: string; resourceName: string | null }>
+}
+
+const emptyItem = (): WizardItem => ({
+  examId: '',
+  facilityId: '',
+  repeats: false,
+  intervalWeeks: 1,
+  occurrences: 6,
+})
+
+const selectClassName = 'mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm'
+
+// Dates come back as yyyy-MM-dd calendar days
+const formatDay = (date: string) => format(new Date(`${date}T00:00:00`), 'EEE, MMM d, yyyy')
+
+export default function SchedulePatientPage() {
+  const params = useParams<{ id: string }>()
+  const router = useRouter()
+  const { toast } = useToast()
+  const [patient, setPatient] = useState<PatientSummary | null>(null)
+  const [exams, setExams] = useState<Option[]>([])
+  const [facilities, setFacilities] = useState<Option[]>([])
+  const [statuses, setStatuses] = useState<Option[]>([])
+  const [items, setItems] = useState<WizardItem[]>([emptyItem()])
+  const [physicianId, setPhysicianId] = useState('')
+  const [statusId, setStatusId] = useState('')
+  const [startDate, setStartDate] = useState(format(new Date(), 'yyyy-MM-dd'))
+  const [plans, setPlans] = useState<SchedulePlan[] | null>(null)
+  const [selectedPlan, setSelectedPlan] = useState(0)
+  const [loading, setLoading] = useState(true)
+  const [searching, setSearching] = useState(false)
+  const [booking, setBooking] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    const load = async () => {
+      try {
+        const [patientRes, examsRes, facilitiesRes, statusesRes] = await Promise.all([
+          fetch(`/api/patients/${params.id}`),
+          fetch('/api/exams'),
+          fetch('/api/facilities'),
+          fetch('/api/statuses'),
+        ])
+        if (!patientRes.ok) {
+          throw new Error('Failed to fetch patient')
+        }
+
+        setPatient(await patientRes.json())
+        if (examsRes.ok) setExams(await examsRes.json())
+        if (facilitiesRes.ok) setFacilities(await facilitiesRes.json())
+        if (statusesRes.ok) setStatuses(await statusesRes.json())
+      } catch (err) {
+        setError(err instanceof Error ? err.message : 'An error occurred')
+      } finally {
+        setLoading(false)
+      }
+    }
+
+    load()
+  }, [params.id])
+
+  const updateItem = (index: number, changes: Partial<WizardItem>) => {
+    setItems(prev => prev.map((item, i) => i === index ? { ...item, ...changes } : item))
+    setPlans(null)
+  }
+
+  const nameOf = (options: Option[], id: string) => options.find((option) => option.id === id)?.name ?? 'Unknown'
+
+  const findTimes = async () => {
+    setError(null)
+    if (items.some((item) => !item.examId)) {
+      setError('Choose an exam for every procedure')
+      return
+    }
+
+    setSearching(true)
+    try {
+      const response = await fetch('/api/scheduling/plan', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          patientId: params.id,
+          startDate,
+          items: items.map((item) => ({
+            examId: item.examId,
+            facilityId: item.facilityId || null,
+            recurrence: item.repeats
+              ? { intervalWeeks: item.intervalWeeks, occurrences: item.occurrences }
+              : null,
+          })),
+        }),
+      })
+      const data = await response.json()
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to find available times')
+      }
+
+      setPlans(data.plans)
+      setSelectedPlan(0)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to find available times')
+    } finally {
+      setSearching(false)
+    }
+  }
+
+  const bookPlan = async () => {
+    const plan = plans?.[selectedPlan]
+    if (!plan) return
+    if (!physicianId || !statusId) {
+      setError('Choose a physician and status for the new procedures')
+      return
+    }
+
+    // Follow-ups without a free slot are left for staff to book by hand
+    const appointments = plan.appointments.filter((appointment) => appointment.available)
+    const submit = (allowDoubleBooking = false) => fetch('/api/scheduling/book', {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({
+        patientId: params.id,
+        physicianId,
+        statusId,
+        appointments,
+        allowDoubleBooking,
+      }),
+    })
+
+    setBooking(true)
+    setError(null)
+    try {
+      let response = await submit()
+
+      // Someone booked over the plan since it was proposed
+      if (response.status === 409) {
+        const data = await response.json()
+        const taken = (data.conflicts as BookingConflict[])
+          .map(({ index }) => `${formatDay(appointments[index].date)} ${appointments[index].time} ${nameOf(exams, appointments[index].examId)}`)
+          .join('\n')
+        if (!window.confirm(`${data.error}:\n${taken}\n\nBook anyway?`)) {
+          return
+        }
+        response = await submit(true)
+      }
+
+      const data = await response.json()
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to book procedures')
+      }
+
+      toast({
+        title: 'Success',
+        description: `${data.procedures.length} procedure${data.procedures.length === 1 ? '' : 's'} scheduled`,
+      })
+      router.push(`/patients/${params.id}`)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to book procedures')
+    } finally {
+      setBooking(false)
+    }
+  }
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center min-h-screen">
+        <div className="animate-spin rounded-full h-12 w-12 border-t-2 border-b-2 border-blue-500"></div>
+      </div>
+    )
+  }
+
+  if (!patient) {
+    return (
+      <div className="flex items-center justify-center min-h-screen">
+        <div className="text-red-500 text-xl">{error || 'Patient not found'}</div>
+      </div>
+    )
+  }
+
+  const plan = plans?.[selectedPlan]
+  const skipped = plan?.appointments.filter((appointment) => !appointment.available).length ?? 0
+
+  return (
+    <div className="container mx-auto px-4 py-8 space-y-6">
+      <div className="flex justify-between items-center">
+        <h1 className="text-2xl font-bold text-gray-900">
+          Schedule Procedures for {patient.firstName} {patient.lastName}
+        </h1>
+        <Link href={`/patients/${patient.id}`} className="text-sm text-indigo-600 hover:text-indigo-800">
+          Back to patient
+        </Link>
+      </div>
+
+      {error && (
+        <div className="bg-red-50 border-l-4 border-red-500 p-4 rounded-lg">
+          <p className="text-sm font-medium text-red-800">{error}</p>
+        </div>
+      )}
+
+      <div className="bg-white rounded-lg shadow-lg p-6 space-y-4">
+        <h2 className="text-lg font-semibold text-gray-900">1. Procedures</h2>
+
+        {items.map((item, index) => (
+          <div key={index} className="grid grid-cols-1 md:grid-cols-[1fr_1fr_auto] gap-4 border rounded-md p-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700">Exam *</label>
+              <select
+                value={item.examId}
+                onChange={(e) => updateItem(index, { examId: e.target.value })}
+                className={selectClassName}
+              >
+                <option value="">Select an exam</option>
+                {exams.map((exam) => (
+                  <option key={exam.id} value={exam.id}>{exam.name}</option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700">Facility</label>
+              <select
+                value={item.facilityId}
+                onChange={(e) => updateItem(index, { facilityId: e.target.value })}
+                className={selectClassName}
+              >
+                <option value="">Any facility</option>
+                {facilities.map((facility) => (
+                  <option key={facility.id} value={facility.id}>{facility.name}</option>
+                ))}
+              </select>
+            </div>
+            <div className="flex items-end">
+              {items.length > 1 && (
+                <button
+                  type="button"
+                  onClick={() => {
+                    setItems(prev => prev.filter((_, i) => i !== index))
+                    setPlans(null)
+                  }}
+                  className="p-2 text-red-600 hover:text-red-800"
+                  aria-label="Remove procedure"
+                >
+                  <Trash2 className="h-4 w-4" />
+                </button>
+              )}
+            </div>
+            <div className="md:col-span-3 flex flex-wrap items-center gap-2 text-sm text-gray-700">
+              <label className="flex items-center gap-2">
+                <input
+                  type="checkbox"
+                  checked={item.repeats}
+                  onChange={(e) => updateItem(index, { repeats: e.target.checked })}
+                  className="rounded border-gray-300 text-indigo-600 focus:ring-indigo-500"
+                />
+                Repeat every
+              </label>
+              <input
+                type="number"
+                min={1}
+                max={12}
+                value={item.intervalWeeks}
+                disabled={!item.repeats}
+                onChange={(e) => updateItem(index, { intervalWeeks: Number(e.target.value) })}
+                className="w-16 rounded-md border-gray-300 shadow-sm sm:text-sm disabled:bg-gray-50"
+                aria-label="Weeks between sessions"
+              />
+              <span>week(s) for</span>
+              <input
+                type="number"
+                min={1}
+                max={26}
+                value={item.occurrences}
+                disabled={!item.repeats}
+                onChange={(e) => updateItem(index, { occurrences: Number(e.target.value) })}
+                className="w-16 rounded-md border-gray-300 shadow-sm sm:text-sm disabled:bg-gray-50"
+                aria-label="Number of sessions"
+              />
+              <span>sessions</span>
+            </div>
+          </div>
+        ))}
+
+        <Button
+          type="button"
+          variant="outline"
+          onClick={() => {
+            setItems(prev => [...prev, emptyItem()])
+            setPlans(null)
+          }}
+        >
+          <Plus className="h-4 w-4 mr-1" />
+          Add Procedure
+        </Button>
+
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+          <div>
+            <label className="block text-sm font-medium text-gray-700">Earliest Date *</label>
+            <input
+              type="date"
+              value={startDate}
+              onChange={(e) => {
+                setStartDate(e.target.value)
+                setPlans(null)
+              }}
+              className={selectClassName}
+            />
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700">Physician *</label>
+            <ProviderPicker
+              role="READING"
+              value={physicianId}
+              onChange={setPhysicianId}
+              placeholder="Select a physician"
+              className={selectClassName}
+            />
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700">Status *</label>
+            <select value={statusId} onChange={(e) => setStatusId(e.target.value)} className={selectClassName}>
+              <option value="">Select a status</option>
+              {statuses.map((status) => (
+                <option key={status.id} value={status.id}>{status.name}</option>
+              ))}
+            </select>
+          </div>
+        </div>
+
+        <div className="flex justify-end">
+          <Button type="button" onClick={findTimes} disabled={searching}>
+            {searching && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+            Find Times
+          </Button>
+        </div>
+      </div>
+
+      {plans && (
+        <div className="bg-white rounded-lg shadow-lg p-6 space-y-4">
+          <h2 className="text-lg font-semibold text-gray-900">2. Choose a Schedule</h2>
+
+          {plans.length === 0 ? (
+            <p className="text-sm text-gray-500">
+              No day in the next two weeks fits every procedure. Try a later date, fewer procedures or another facility.
+            </p>
+          ) : (
+            <>
+              <div className="flex flex-wrap gap-2">
+                {plans.map((option, index) => (
+                  <button
+                    key={option.date}
+                    type="button"
+                    onClick={() => setSelectedPlan(index)}
+                    className={`px-4 py-2 rounded-md border text-sm ${index === selectedPlan ? 'border-indigo-600 bg-indigo-50 text-indigo-700' : 'border-gray-300 text-gray-700 hover:bg-gray-50'}`}
+                  >
+                    {formatDay(option.date)}
+                  </button>
+                ))}
+              </div>
+
+              {plan && (
+                <table className="min-w-full divide-y divide-gray-200">
+                  <thead className="bg-gray-50">
+                    <tr>
+                      <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Date</th>
+                      <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Time</th>
+                      <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Exam</th>
+                      <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Facility</th>
+                    </tr>
+                  </thead>
+                  <tbody className="bg-white divide-y divide-gray-200">
+                    {plan.appointments.map((appointment) => (
+                      <tr key={`${appointment.item}-${appointment.occurrence}`} className={appointment.available ? '' : 'text-gray-400'}>
+                        <td className="px-6 py-4 whitespace-nowrap text-sm">{formatDay(appointment.date)}</td>
+                        <td className="px-6 py-4 whitespace-nowrap text-sm">
+                          {appointment.available ? `${appointment.time} (${appointment.durationMinutes} min)` : 'No free slot'}
+                        </td>
+                        <td className="px-6 py-4 whitespace-nowrap text-sm">
+                          {nameOf(exams, appointment.examId)}
+                          {appointment.occurrence > 0 && ` · session ${appointment.occurrence + 1}`}
+                        </td>
+                        <td className="px-6 py-4 whitespace-nowrap text-sm">{nameOf(facilities, appointment.facilityId)}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              )}
+
+              {skipped > 0 && (
+                <p className="text-sm text-amber-700">
+                  {skipped} follow-up session{skipped === 1 ? ' has' : 's have'} no free slot and will not be booked.
+                </p>
+              )}
+
+              <div className="flex justify-end">
+                <Button type="button" onClick={bookPlan} disabled={booking}>
+                  {booking ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <CalendarCheck className="h-4 w-4 mr-2" />}
+                  Book {(plan?.appointments.length ?? 0) - skipped} Appointment{(plan?.appointments.length ?? 0) - skipped === 1 ? '' : 's'}
+                </Button>
+              </div>
+            </>
+          )}
+        </div>
+      )}
+    </div>
+  )
+}
@@ -5,6 +5,9 @@ import { useRouter } from 'next/navigation'
 import { motion, AnimatePresence } from 'framer-motion'
 import { format } from 'date-fns'
 import { Loader2, Plus, X, ArrowLeft, CheckCircle2 } from 'lucide-react'
+import { ProviderPicker } from '@/components/providers/ProviderPicker'
+import { CityOptions } from '@/components/address/PlaceOptions'
+import { getCityStateFromZip } from '@/lib/zipcode'
 
 interface Payer {
   id: string
@@ -23,13 +26,6 @@ interface Facility {
   name: string
 }
 
-interface Physician {
-  id: string
-  prefix: string
-  name: string
-  suffix: string | null
-}
-
 interface Exam {
   id: string
   name: string
@@ -44,10 +40,17 @@ interface Procedure {
   scheduleTime?: string
   facilityId?: string
   physicianId?: string
-  lop?: string
   isCompleted?: boolean
 }
 
+interface PossibleDuplicate {
+  id: string
+  firstName: string
+  lastName: string
+  dateOfBirth: string
+  reasons: string[]
+}
+
 interface Attorney {
   id: string
   user: {
@@ -70,7 +73,6 @@ export default function AddPatientPage() {
   const [payers, setPayers] = useState<Payer[]>([])
   const [statuses, setStatuses] = useState<Status[]>([])
   const [facilities, setFacilities] = useState<Facility[]>([])
-  const [physicians, setPhysicians] = useState<Physician[]>([])
   const [exams, setExams] = useState<Exam[]>([])
   const [attorneys, setAttorneys] = useState<Attorney[]>([])
   const [formData, setFormData] = useState({
@@ -104,7 +106,6 @@ export default function AddPatientPage() {
     fetchPayers()
     fetchStatuses()
     fetchFacilities()
-    fetchPhysicians()
     fetchExams()
     fetchAttorneys()
   }, [])
@@ -149,19 +150,6 @@ export default function AddPatientPage() {
     }
   }
 
-  const fetchPhysicians = async () => {
-    try {
-      const response = await fetch('/api/physicians')
-      if (!response.ok) {
-        throw new Error('Failed to fetch physicians')
-      }
-      const data = await response.json()
-      setPhysicians(data)
-    } catch (err) {
-      console.error('Error fetching physicians:', err)
-    }
-  }
-
   const fetchExams = async () => {
     try {
       const response = await fetch('/api/exams')
@@ -267,6 +255,17 @@ export default function AddPatientPage() {
       ...prev,
       [name]: formattedValue
     }))
+
+    // A complete ZIP fills in the city from the offline ZIP database
+    if (name === 'zip' && value.length === 5) {
+      getCityStateFromZip(value)
+        .then((location) => {
+          if (location) {
+            setFormData(prev => ({ ...prev, city: location.city }))
+          }
+        })
+        .catch((error) => console.error('Error looking up ZIP code:', error))
+    }
   }
 
   const addProcedure = () => {
@@ -281,7 +280,6 @@ export default function AddPatientPage() {
           scheduleTime: '',
           facilityId: '',
           physicianId: '',
-          lop: '',
           isCompleted: false
         }
       ]
@@ -401,21 +399,34 @@ export default function AddPatientPage() {
           scheduleTime: proc.scheduleTime || '00:00',
           facilityId: proc.facilityId || undefined,
           physicianId: proc.physicianId || undefined,
-          lop: proc.lop || '',
           isCompleted: proc.isCompleted || false
         }))
       }
 
       console.log('Submitting patient data:', JSON.stringify(submissionData, null, 2))
 
-      const response = await fetch('/api/patients', {
+      const submit = (allowDuplicate = false) => fetch('/api/patients', {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
         },
-        body: JSON.stringify(submissionData),
+        body: JSON.stringify({ ...submissionData, allowDuplicate }),
       })
 
+      let response = await submit()
+
+      // Ask before creating what looks like a second record for the same person
+      if (response.status === 409) {
+        const { error, duplicates } = await response.json()
+        const matches = (duplicates as PossibleDuplicate[])
+          .map((duplicate) => `${duplicate.firstName} ${duplicate.lastName}, born ${format(new Date(duplicate.dateOfBirth), 'MM/dd/yyyy')} (${duplicate.reasons.join(', ').toLowerCase()})`)
+          .join('\n')
+        if (!window.confirm(`${error}:\n${matches}\n\nCreate a new patient anyway?`)) {
+          return
+        }
+        response = await submit(true)
+      }
+
       const data = await response.json()
       console.log('API Response:', {
         status: response.status,
@@ -755,10 +766,12 @@ export default function AddPatientPage() {
                       type="text"
                       name="city"
                       id="city"
+                      list="city-options"
                       value={formData.city}
                       onChange={handleChange}
                       className="mt-1 block w-full rounded-lg border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm"
                     />
+                    <CityOptions id="city-options" city={formData.city} />
                   </motion.div>
 
                   <motion.div
@@ -1044,21 +1057,16 @@ export default function AddPatientPage() {
                             <label className="block text-sm font-medium text-gray-700">
                               Physician *
                             </label>
-                            <select
+                            <ProviderPicker
+                              role="READING"
                               id={`procedures.${index}.physicianId`}
                               name={`procedures.${index}.physicianId`}
                               value={procedure.physicianId}
-                              onChange={(e) => updateProcedure(index, 'physicianId', e.target.value)}
+                              onChange={(providerId) => updateProcedure(index, 'physicianId', providerId)}
                               required
+                              placeholder="Select Physician"
                               className="mt-1 block w-full rounded-lg border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm"
-                            >
-                              <option value="">Select Physician</option>
-                              {physicians.map((physician) => (
-                                <option key={physician.id} value={physician.id}>
-                                  {physician.name}
-                                </option>
-                              ))}
-                            </select>
+                            />
                           </div>
 
                           <div>
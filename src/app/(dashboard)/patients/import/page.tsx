@@ -0,0 +1,409 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import Link from 'next/link'
+import { Loader2, Upload, CheckCircle2, XCircle, AlertTriangle } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { useToast } from '@/components/ui/use-toast'
+import { ProviderPicker } from '@/components/providers/ProviderPicker'
+
+interface Option {
+  id: string
+  name: string
+}
+
+interface ImportField {
+  key: string
+  label: string
+  group: 'Patient' | 'Procedure'
+  required?: boolean
+}
+
+interface ImportTable {
+  headers: string[]
+  rows: string[][]
+}
+
+interface ImportRowResult {
+  rowNumber: number
+  name: string
+  errors: string[]
+  warnings: string[]
+  procedure: object | null
+  patientId?: string
+}
+
+interface ImportDefaults {
+  statusId: string
+  procedureStatusId: string
+  facilityId: string
+  physicianId: string
+}
+
+const selectClassName = 'mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm'
+
+const PREVIEW_ROWS = 5
+
+export default function ImportPatientsPage() {
+  const { toast } = useToast()
+  const [statuses, setStatuses] = useState<Option[]>([])
+  const [facilities, setFacilities] = useState<Option[]>([])
+  const [file, setFile] = useState<File | null>(null)
+  const [fields, setFields] = useState<ImportField[]>([])
+  const [table, setTable] = useState<ImportTable | null>(null)
+  const [mapping, setMapping] = useState<Record<string, number>>({})
+  const [defaults, setDefaults] = useState<ImportDefaults>({
+    statusId: '',
+    procedureStatusId: '',
+    facilityId: '',
+    physicianId: '',
+  })
+  const [preview, setPreview] = useState<{ rows: ImportRowResult[]; valid: number; invalid: number } | null>(null)
+  const [result, setResult] = useState<{ rows: ImportRowResult[]; created: number; failed: number } | null>(null)
+  const [showValid, setShowValid] = useState(false)
+  const [working, setWorking] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    const load = async () => {
+      const [statusesRes, facilitiesRes] = await Promise.all([
+        fetch('/api/statuses'),
+        fetch('/api/facilities'),
+      ])
+      if (statusesRes.ok) setStatuses(await statusesRes.json())
+      if (facilitiesRes.ok) setFacilities(await facilitiesRes.json())
+    }
+
+    load().catch((err) => console.error('Error loading import options:', err))
+  }, [])
+
+  const post = async (url: string, body: BodyInit, json = true) => {
+    const response = await fetch(url, {
+      method: 'POST',
+      ...(json && { headers: { 'Content-Type': 'application/json' } }),
+      body,
+    })
+    const data = await response.json()
+    if (!response.ok) {
+      throw new Error(data.error || 'Request failed')
+    }
+    return data
+  }
+
+  const run = async (task: () => Promise<void>) => {
+    setWorking(true)
+    setError(null)
+    try {
+      await task()
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'An error occurred')
+    } finally {
+      setWorking(false)
+    }
+  }
+
+  const readFile = () => run(async () => {
+    if (!file) {
+      setError('Choose a file to import')
+      return
+    }
+    const formData = new FormData()
+    formData.append('file', file)
+
+    const data = await post('/api/patients/import/parse', formData, false)
+    setFields(data.fields)
+    setTable({ headers: data.headers, rows: data.rows })
+    setMapping(data.mapping)
+    setPreview(null)
+    setResult(null)
+  })
+
+  const payload = () => JSON.stringify({ table, mapping, defaults })
+
+  const validate = () => run(async () => {
+    setPreview(await post('/api/patients/import/preview', payload()))
+  })
+
+  const commit = () => run(async () => {
+    const data = await post('/api/patients/import', payload())
+    setResult(data)
+    setPreview(null)
+    toast({
+      title: 'Import finished',
+      description: `${data.created} patient${data.created === 1 ? '' : 's'} created, ${data.failed} skipped`,
+    })
+  })
+
+  const updateMapping = (key: string, value: string) => {
+    setMapping(prev => {
+      const next = { ...prev }
+      if (value === '') {
+        delete next[key]
+      } else {
+        next[key] = Number(value)
+      }
+      return next
+    })
+    setPreview(null)
+  }
+
+  const updateDefault = (key: keyof ImportDefaults, value: string) => {
+    setDefaults(prev => ({ ...prev, [key]: value }))
+    setPreview(null)
+  }
+
+  const reset = () => {
+    setFile(null)
+    setTable(null)
+    setPreview(null)
+    setResult(null)
+    setError(null)
+  }
+
+  const renderRows = (rows: ImportRowResult[]) => (
+    <div className="overflow-x-auto">
+      <table className="min-w-full divide-y divide-gray-200 text-sm">
+        <thead className="bg-gray-50">
+          <tr>
+            <th className="px-4 py-2 text-left font-medium text-gray-500">Row</th>
+            <th className="px-4 py-2 text-left font-medium text-gray-500">Patient</th>
+            <th className="px-4 py-2 text-left font-medium text-gray-500">Result</th>
+          </tr>
+        </thead>
+        <tbody className="divide-y divide-gray-200">
+          {rows.map((row) => (
+            <tr key={row.rowNumber} className={row.errors.length > 0 ? 'bg-red-50' : undefined}>
+              <td className="px-4 py-2 text-gray-500">{row.rowNumber}</td>
+              <td className="px-4 py-2 text-gray-900">{row.name || '—'}</td>
+              <td className="px-4 py-2">
+                {row.errors.length > 0 ? (
+                  <ul className="text-red-700 space-y-0.5">
+                    {row.errors.map((message) => (
+                      <li key={message} className="flex items-start gap-1">
+                        <XCircle className="h-4 w-4 mt-0.5 flex-shrink-0" />
+                        {message}
+                      </li>
+                    ))}
+                  </ul>
+                ) : row.patientId ? (
+                  <Link href={`/patients/${row.patientId}`} className="text-indigo-600 hover:text-indigo-800">
+                    Created
+                  </Link>
+                ) : (
+                  <span className="flex items-center gap-1 text-green-700">
+                    <CheckCircle2 className="h-4 w-4" />
+                    Ready{row.procedure ? ' with procedure' : ''}
+                  </span>
+                )}
+                {row.errors.length === 0 && row.warnings.length > 0 && (
+                  <ul className="mt-1 text-amber-700 space-y-0.5">
+                    {row.warnings.map((message) => (
+                      <li key={message} className="flex items-start gap-1">
+                        <AlertTriangle className="h-4 w-4 mt-0.5 flex-shrink-0" />
+                        {message}
+                      </li>
+                    ))}
+                  </ul>
+                )}
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  )
+
+  return (
+    <div className="container mx-auto px-4 py-8 space-y-6">
+      <div className="flex justify-between items-center">
+        <h1 className="text-2xl font-bold text-gray-900">Import Patients</h1>
+        <Link href="/patients" className="text-sm text-indigo-600 hover:text-indigo-800">
+          Back to patients
+        </Link>
+      </div>
+
+      {error && (
+        <div className="bg-red-50 border-l-4 border-red-500 p-4 rounded-lg">
+          <p className="text-sm font-medium text-red-800">{error}</p>
+        </div>
+      )}
+
+      <div className="bg-white rounded-lg shadow-lg p-6 space-y-4">
+        <h2 className="text-lg font-semibold text-gray-900">1. Upload</h2>
+        <p className="text-sm text-gray-500">
+          A CSV or Excel (.xlsx) file with a header row and one patient per row, up to 2,000 rows.
+          Attorneys, payers, exams, facilities and physicians are matched by name.
+        </p>
+        <div className="flex flex-wrap items-center gap-4">
+          <input
+            type="file"
+            accept=".csv,.xlsx"
+            onChange={(e) => {
+              reset()
+              setFile(e.target.files?.[0] ?? null)
+            }}
+            className="text-sm"
+          />
+          <Button type="button" onClick={readFile} disabled={!file || working}>
+            {working && !table ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Upload className="h-4 w-4 mr-2" />}
+            Read File
+          </Button>
+        </div>
+      </div>
+
+      {table && !result && (
+        <div className="bg-white rounded-lg shadow-lg p-6 space-y-6">
+          <h2 className="text-lg font-semibold text-gray-900">2. Map Columns</h2>
+          <p className="text-sm text-gray-500">
+            {table.rows.length} row{table.rows.length === 1 ? '' : 's'} found. Columns were matched by their headers; adjust any that are wrong.
+          </p>
+
+          {(['Patient', 'Procedure'] as const).map((group) => (
+            <div key={group}>
+              <h3 className="text-sm font-semibold text-gray-700 mb-2">{group}</h3>
+              <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                {fields.filter((field) => field.group === group).map((field) => (
+                  <div key={field.key}>
+                    <label className="block text-sm font-medium text-gray-700">
+                      {field.label}{field.required ? ' *' : ''}
+                    </label>
+                    <select
+                      value={mapping[field.key] ?? ''}
+                      onChange={(e) => updateMapping(field.key, e.target.value)}
+                      className={selectClassName}
+                    >
+                      <option value="">Not imported</option>
+                      {table.headers.map((header, index) => (
+                        <option key={index} value={index}>{header}</option>
+                      ))}
+                    </select>
+                  </div>
+                ))}
+              </div>
+            </div>
+          ))}
+
+          <div>
+            <h3 className="text-sm font-semibold text-gray-700 mb-2">Defaults for blank cells</h3>
+            <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+              <div>
+                <label className="block text-sm font-medium text-gray-700">Patient Status *</label>
+                <select value={defaults.statusId} onChange={(e) => updateDefault('statusId', e.target.value)} className={selectClassName}>
+                  <option value="">Select a status</option>
+                  {statuses.map((status) => (
+                    <option key={status.id} value={status.id}>{status.name}</option>
+                  ))}
+                </select>
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700">Procedure Status</label>
+                <select value={defaults.procedureStatusId} onChange={(e) => updateDefault('procedureStatusId', e.target.value)} className={selectClassName}>
+                  <option value="">Same as patient</option>
+                  {statuses.map((status) => (
+                    <option key={status.id} value={status.id}>{status.name}</option>
+                  ))}
+                </select>
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700">Facility</label>
+                <select value={defaults.facilityId} onChange={(e) => updateDefault('facilityId', e.target.value)} className={selectClassName}>
+                  <option value="">None</option>
+                  {facilities.map((facility) => (
+                    <option key={facility.id} value={facility.id}>{facility.name}</option>
+                  ))}
+                </select>
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700">Physician</label>
+                <ProviderPicker
+                  role="READING"
+                  value={defaults.physicianId}
+                  onChange={(providerId) => updateDefault('physicianId', providerId)}
+                  placeholder="None"
+                  className={selectClassName}
+                />
+              </div>
+            </div>
+          </div>
+
+          <div className="overflow-x-auto">
+            <table className="min-w-full divide-y divide-gray-200 text-xs">
+              <thead className="bg-gray-50">
+                <tr>
+                  {table.headers.map((header, index) => (
+                    <th key={index} className="px-3 py-2 text-left font-medium text-gray-500 whitespace-nowrap">{header}</th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-200">
+                {table.rows.slice(0, PREVIEW_ROWS).map((row, rowIndex) => (
+                  <tr key={rowIndex}>
+                    {row.map((cell, index) => (
+                      <td key={index} className="px-3 py-2 text-gray-700 whitespace-nowrap">{cell}</td>
+                    ))}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+
+          <div className="flex justify-end">
+            <Button type="button" onClick={validate} disabled={working}>
+              {working && !preview && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              Check Rows
+            </Button>
+          </div>
+        </div>
+      )}
+
+      {preview && (
+        <div className="bg-white rounded-lg shadow-lg p-6 space-y-4">
+          <div className="flex flex-wrap justify-between items-center gap-4">
+            <h2 className="text-lg font-semibold text-gray-900">3. Review</h2>
+            <label className="flex items-center gap-2 text-sm text-gray-700">
+              <input
+                type="checkbox"
+                checked={showValid}
+                onChange={(e) => setShowValid(e.target.checked)}
+                className="rounded border-gray-300 text-indigo-600 focus:ring-indigo-500"
+              />
+              Show rows without errors
+            </label>
+          </div>
+          <p className="text-sm text-gray-700">
+            <span className="text-green-700 font-medium">{preview.valid} ready</span>
+            {' · '}
+            <span className={preview.invalid > 0 ? 'text-red-700 font-medium' : undefined}>
+              {preview.invalid} with errors
+            </span>
+            {preview.invalid > 0 && '. Rows with errors are skipped; fix the file and upload it again to import them.'}
+          </p>
+
+          {renderRows(preview.rows.filter((row) => showValid || row.errors.length > 0))}
+
+          <div className="flex justify-end">
+            <Button type="button" onClick={commit} disabled={working || preview.valid === 0}>
+              {working && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              Import {preview.valid} Patient{preview.valid === 1 ? '' : 's'}
+            </Button>
+          </div>
+        </div>
+      )}
+
+      {result && (
+        <div className="bg-white rounded-lg shadow-lg p-6 space-y-4">
+          <div className="flex justify-between items-center">
+            <h2 className="text-lg font-semibold text-gray-900">Import Complete</h2>
+            <Button type="button" variant="outline" onClick={reset}>
+              Import Another File
+            </Button>
+          </div>
+          <p className="text-sm text-gray-700">
+            {result.created} created, {result.failed} skipped.
+          </p>
+          {renderRows(result.rows)}
+        </div>
+      )}
+    </div>
+  )
+}
@@ -1,40 +1,17 @@
 'use client'
 
-import { useState, useEffect } from 'react'
+import { useState, useEffect, useRef, useCallback } from 'react'
 import { useRouter } from 'next/navigation'
 import { motion } from 'framer-motion'
 import { format } from 'date-fns'
-import { Loader2, Plus, Pencil, Eye, Users } from 'lucide-react'
+import { Loader2, Plus, Pencil, Eye, Users, Search, X, Upload } from 'lucide-react'
+import { usePageSize } from '@/context/UserSettingsContext'
 
 interface Status {
   name: string
   color: string
 }
 
-interface Procedure {
-  id: string
-  exam: {
-    id: string
-    name: string
-  }
-  facility: {
-    id: string
-    name: string
-  }
-  physician: {
-    id: string
-    name: string
-  }
-  status: {
-    id: string
-    name: string
-    color: string
-  }
-  scheduleDate: string
-  scheduleTime: string
-  isCompleted: boolean
-}
-
 interface Patient {
   id: string
   firstName: string
@@ -42,42 +19,141 @@ interface Patient {
   dateOfBirth: string
   phone: string | null
   email: string | null
-  address: string | null
-  city: string | null
-  zip: string | null
   status: {
     name: string
     color: string
   }
-  procedures: Procedure[]
+  payer: {
+    name: string
+  } | null
+  openProcedureCount: number
+  nextProcedure: {
+    id: string
+    scheduleDate: string
+    scheduleTime: string
+    exam: {
+      name: string
+    }
+  } | null
+}
+
+interface Option {
+  id: string
+  name: string
+}
+
+const emptyFilters = {
+  statusId: '',
+  payerId: '',
+  attorneyId: '',
+  facilityId: '',
+  injuryFrom: '',
+  injuryTo: '',
+  hasOpenProcedures: '',
 }
 
+const filterClassName = 'block w-full rounded-lg border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm'
+
 export default function PatientsPage() {
   const router = useRouter()
   const [patients, setPatients] = useState<Patient[]>([])
+  const [nextCursor, setNextCursor] = useState<string | null>(null)
+  const [total, setTotal] = useState(0)
+  const [query, setQuery] = useState('')
+  const [filters, setFilters] = useState(emptyFilters)
+  const [statuses, setStatuses] = useState<Option[]>([])
+  const [payers, setPayers] = useState<Option[]>([])
+  const [attorneys, setAttorneys] = useState<Option[]>([])
+  const [facilities, setFacilities] = useState<Option[]>([])
   const [loading, setLoading] = useState(true)
+  const [searching, setSearching] = useState(false)
+  const [loadingMore, setLoadingMore] = useState(false)
   const [error, setError] = useState<string | null>(null)
+  // Ignores responses to searches that have since been replaced
+  const requestId = useRef(0)
+  const pageSize = usePageSize('patients')
 
   useEffect(() => {
-    fetchPatients()
+    fetchOptions()
   }, [])
 
-  const fetchPatients = async () => {
+  const buildQuery = useCallback((cursor?: string) => {
+    const params = new URLSearchParams()
+    if (query.trim()) params.set('q', query.trim())
+    Object.entries(filters).forEach(([key, value]) => {
+      if (value) params.set(key, value)
+    })
+    if (pageSize) params.set('limit', String(pageSize))
+    if (cursor) params.set('cursor', cursor)
+    return params.toString()
+  }, [query, filters, pageSize])
+
+  const fetchPatients = useCallback(async (cursor?: string) => {
+    const id = ++requestId.current
+    if (cursor) {
+      setLoadingMore(true)
+    } else {
+      setSearching(true)
+    }
+
     try {
-      const response = await fetch('/api/patients')
+      const response = await fetch(`/api/patients?${buildQuery(cursor)}`)
       if (!response.ok) {
         throw new Error('Failed to fetch patients')
       }
       const data = await response.json()
-      setPatients(data)
+      if (id !== requestId.current) return
+
+      setPatients(prev => cursor ? [...prev, ...data.patients] : data.patients)
+      setNextCursor(data.nextCursor)
+      setTotal(data.total)
+      setError(null)
     } catch (error) {
       console.error('Error fetching patients:', error)
       setError('Failed to load patients')
     } finally {
-      setLoading(false)
+      if (id === requestId.current) {
+        setLoading(false)
+        setSearching(false)
+        setLoadingMore(false)
+      }
+    }
+  }, [buildQuery])
+
+  // Typing waits for a pause before searching; filters apply straight away
+  useEffect(() => {
+    if (pageSize === null) return
+    const timeout = setTimeout(() => fetchPatients(), query ? 300 : 0)
+    return () => clearTimeout(timeout)
+  }, [query, pageSize, fetchPatients])
+
+  const fetchOptions = async () => {
+    try {
+      const [statusesRes, payersRes, attorneysRes, facilitiesRes] = await Promise.all([
+        fetch('/api/statuses'),
+        fetch('/api/payers'),
+        fetch('/api/attorneys'),
+        fetch('/api/facilities'),
+      ])
+
+      if (statusesRes.ok) setStatuses(await statusesRes.json())
+      if (payersRes.ok) setPayers(await payersRes.json())
+      if (attorneysRes.ok) {
+        const data: { id: string; user: { name: string } }[] = await attorneysRes.json()
+        setAttorneys(data.map((attorney) => ({ id: attorney.id, name: attorney.user.name })))
+      }
+      if (facilitiesRes.ok) setFacilities(await facilitiesRes.json())
+    } catch (error) {
+      console.error('Error fetching patient filters:', error)
     }
   }
 
+  const updateFilter = (key: keyof typeof emptyFilters, value: string) => {
+    setFilters(prev => ({ ...prev, [key]: value }))
+  }
+
+  const hasFilters = query !== '' || Object.values(filters).some(Boolean)
+
   const getStatusColor = (status?: Status) => {
     if (!status?.color) return 'bg-gray-100 text-gray-800';
     
@@ -194,7 +270,17 @@ export default function PatientsPage() {
                 initial={{ opacity: 0, x: 20 }}
                 animate={{ opacity: 1, x: 0 }}
                 transition={{ duration: 0.5, delay: 0.4 }}
+                className="flex gap-2"
               >
+                <motion.button
+                  whileHover={{ scale: 1.05 }}
+                  whileTap={{ scale: 0.95 }}
+                  onClick={() => router.push('/patients/import')}
+                  className="inline-flex items-center px-4 py-2 bg-white/10 text-white border border-white/20 rounded-lg hover:bg-white/20 transition-colors"
+                >
+                  <Upload className="h-4 w-4 mr-2" />
+                  Import
+                </motion.button>
                 <motion.button
                   whileHover={{ scale: 1.05 }}
                   whileTap={{ scale: 0.95 }}
@@ -214,6 +300,88 @@ export default function PatientsPage() {
             transition={{ duration: 0.5, delay: 0.5 }}
             className="px-8 py-6"
           >
+            <div className="space-y-4 mb-6">
+              <div className="relative">
+                <div className="absolute inset-y-0 left-0 pl-3 flex items-center pointer-events-none">
+                  {searching ? (
+                    <Loader2 className="h-5 w-5 text-gray-400 animate-spin" />
+                  ) : (
+                    <Search className="h-5 w-5 text-gray-400" />
+                  )}
+                </div>
+                <input
+                  type="search"
+                  value={query}
+                  onChange={(e) => setQuery(e.target.value)}
+                  placeholder="Search by name, phone, date of birth or case number"
+                  className="pl-10 block w-full rounded-lg border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500"
+                />
+              </div>
+              <div className="grid grid-cols-2 md:grid-cols-4 lg:grid-cols-7 gap-3">
+                <select aria-label="Status" value={filters.statusId} onChange={(e) => updateFilter('statusId', e.target.value)} className={filterClassName}>
+                  <option value="">All statuses</option>
+                  {statuses.map((status) => (
+                    <option key={status.id} value={status.id}>{status.name}</option>
+                  ))}
+                </select>
+                <select aria-label="Payer" value={filters.payerId} onChange={(e) => updateFilter('payerId', e.target.value)} className={filterClassName}>
+                  <option value="">All payers</option>
+                  {payers.map((payer) => (
+                    <option key={payer.id} value={payer.id}>{payer.name}</option>
+                  ))}
+                </select>
+                <select aria-label="Attorney" value={filters.attorneyId} onChange={(e) => updateFilter('attorneyId', e.target.value)} className={filterClassName}>
+                  <option value="">All attorneys</option>
+                  {attorneys.map((attorney) => (
+                    <option key={attorney.id} value={attorney.id}>{attorney.name}</option>
+                  ))}
+                </select>
+                <select aria-label="Facility" value={filters.facilityId} onChange={(e) => updateFilter('facilityId', e.target.value)} className={filterClassName}>
+                  <option value="">All facilities</option>
+                  {facilities.map((facility) => (
+                    <option key={facility.id} value={facility.id}>{facility.name}</option>
+                  ))}
+                </select>
+                <input
+                  type="date"
+                  aria-label="Injured on or after"
+                  title="Injured on or after"
+                  value={filters.injuryFrom}
+                  onChange={(e) => updateFilter('injuryFrom', e.target.value)}
+                  className={filterClassName}
+                />
+                <input
+                  type="date"
+                  aria-label="Injured on or before"
+                  title="Injured on or before"
+                  value={filters.injuryTo}
+                  onChange={(e) => updateFilter('injuryTo', e.target.value)}
+                  className={filterClassName}
+                />
+                <select aria-label="Open procedures" value={filters.hasOpenProcedures} onChange={(e) => updateFilter('hasOpenProcedures', e.target.value)} className={filterClassName}>
+                  <option value="">Any procedures</option>
+                  <option value="true">Has open procedures</option>
+                  <option value="false">No open procedures</option>
+                </select>
+              </div>
+              <div className="flex justify-between items-center text-sm text-gray-500">
+                <span>{total} patient{total === 1 ? '' : 's'}</span>
+                {hasFilters && (
+                  <button
+                    type="button"
+                    onClick={() => {
+                      setQuery('')
+                      setFilters(emptyFilters)
+                    }}
+                    className="inline-flex items-center text-indigo-600 hover:text-indigo-800"
+                  >
+                    <X className="h-4 w-4 mr-1" />
+                    Clear filters
+                  </button>
+                )}
+              </div>
+            </div>
+
             <div className="overflow-x-auto">
               <table className="min-w-full divide-y divide-gray-200">
                 <thead>
@@ -231,7 +399,7 @@ export default function PatientsPage() {
                       Status
                     </th>
                     <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
-                      Procedures
+                      Open Procedures
                     </th>
                     <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">
                       Actions
@@ -244,7 +412,7 @@ export default function PatientsPage() {
                       key={patient.id}
                       initial={{ opacity: 0, y: 20 }}
                       animate={{ opacity: 1, y: 0 }}
-                      transition={{ duration: 0.3, delay: index * 0.05 }}
+                      transition={{ duration: 0.3, delay: (index % 25) * 0.02 }}
                       className="hover:bg-gray-50 transition-colors"
                     >
                       <td className="px-6 py-4 whitespace-nowrap">
@@ -270,38 +438,21 @@ export default function PatientsPage() {
                         </motion.span>
                       </td>
                       <td className="px-6 py-4">
-                        <div className="space-y-2">
-                          {patient.procedures && patient.procedures.length > 0 ? (
-                            patient.procedures.map((procedure) => (
-                              <motion.div
-                                key={procedure.id}
-                                initial={{ opacity: 0 }}
-                                animate={{ opacity: 1 }}
-                                transition={{ duration: 0.3 }}
-                                className="text-sm"
-                              >
-                                <div className="flex items-center space-x-2">
-                                  <span className="font-medium text-gray-900">{procedure.exam.name}</span>
-                                  <motion.span
-                                    whileHover={{ scale: 1.05 }}
-                                    className={`px-2 py-0.5 text-xs rounded-full`}
-                                    style={{ 
-                                      backgroundColor: procedure.status.color + '20', 
-                                      color: procedure.status.color 
-                                    }}
-                                  >
-                                    {procedure.status.name}
-                                  </motion.span>
-                                </div>
-                                <div className="text-xs text-gray-500">
-                                  {format(new Date(procedure.scheduleDate), 'MM/dd/yyyy')} {procedure.scheduleTime}
-                                </div>
-                              </motion.div>
-                            ))
-                          ) : (
-                            <span className="text-sm text-gray-500">No procedures</span>
-                          )}
-                        </div>
+                        {patient.nextProcedure ? (
+                          <div className="text-sm">
+                            <div className="font-medium text-gray-900">
+                              {patient.nextProcedure.exam.name}
+                              {patient.openProcedureCount > 1 && (
+                                <span className="ml-2 text-xs text-gray-500">+{patient.openProcedureCount - 1} more</span>
+                              )}
+                            </div>
+                            <div className="text-xs text-gray-500">
+                              {format(new Date(patient.nextProcedure.scheduleDate), 'MM/dd/yyyy')} {patient.nextProcedure.scheduleTime}
+                            </div>
+                          </div>
+                        ) : (
+                          <span className="text-sm text-gray-500">None</span>
+                        )}
                       </td>
                       <td className="px-6 py-4 whitespace-nowrap text-right text-sm font-medium">
                         <div className="flex justify-end space-x-3">
@@ -346,7 +497,9 @@ export default function PatientsPage() {
                             <Users className="h-12 w-12 text-gray-400" />
                           </motion.div>
                           <h3 className="mt-2 text-sm font-medium text-gray-900">No patients found</h3>
-                          <p className="mt-1 text-sm text-gray-500">Get started by creating a new patient.</p>
+                          <p className="mt-1 text-sm text-gray-500">
+                            {hasFilters ? 'Try a different search or clear the filters.' : 'Get started by creating a new patient.'}
+                          </p>
                           <div className="mt-6">
                             <motion.button
                               whileHover={{ scale: 1.05 }}
@@ -365,6 +518,21 @@ export default function PatientsPage() {
                 </tbody>
               </table>
             </div>
+
+            {nextCursor && (
+              <div className="flex justify-center mt-6">
+                <motion.button
+                  whileHover={{ scale: 1.05 }}
+                  whileTap={{ scale: 0.95 }}
+                  onClick={() => fetchPatients(nextCursor)}
+                  disabled={loadingMore}
+                  className="inline-flex items-center px-4 py-2 border border-gray-300 text-sm font-medium rounded-md text-gray-700 bg-white hover:bg-gray-50 disabled:opacity-50"
+                >
+                  {loadingMore && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                  Load more ({total - patients.length} remaining)
+                </motion.button>
+              </div>
+            )}
           </motion.div>
         </motion.div>
       </div>
@@ -1,76 +1,208 @@
 'use client'
 
-import { useState } from 'react'
+import { useCallback, useEffect, useState } from 'react'
 import { motion, AnimatePresence } from 'framer-motion'
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
 import { Button } from '@/components/ui/button'
-import { Download, Calendar, BarChart2, PieChart, Loader2 } from 'lucide-react'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Download, Calendar, BarChart2, PieChart, Loader2, Play, ShieldAlert } from 'lucide-react'
 import { format } from 'date-fns'
+import { usePageSize } from '@/context/UserSettingsContext'
+
+type ReportType = 'daily' | 'weekly' | 'monthly' | 'npi'
 
 interface Report {
   id: string
   title: string
-  date: string
-  type: 'daily' | 'weekly' | 'monthly'
-  status: 'completed' | 'pending'
+  type: ReportType
+  status: 'completed' | 'pending' | 'failed'
+  startDate: string
+  endDate: string
+  error: string | null
+  createdAt: string
+  generatedBy: {
+    id: string
+    name: string
+  } | null
 }
 
-const reports: Report[] = [
-  {
-    id: '1',
-    title: 'Daily Patient Report',
-    date: '2024-03-31',
-    type: 'daily',
-    status: 'completed',
-  },
-  {
-    id: '2',
-    title: 'Weekly Revenue Report',
-    date: '2024-03-31',
-    type: 'weekly',
-    status: 'pending',
-  },
-  {
-    id: '3',
-    title: 'Monthly Performance Report',
-    date: '2024-03-31',
-    type: 'monthly',
-    status: 'completed',
-  },
+interface Option {
+  id: string
+  name: string
+}
+
+interface Filters {
+  startDate: string
+  endDate: string
+  facilityId: string
+  physicianId: string
+  payerId: string
+  attorneyId: string
+}
+
+const sections: { type: ReportType; title: string }[] = [
+  { type: 'daily', title: 'Daily Reports' },
+  { type: 'weekly', title: 'Weekly Reports' },
+  { type: 'monthly', title: 'Monthly Reports' },
+  { type: 'npi', title: 'NPI Reconciliation' },
 ]
 
+const emptyFilters: Filters = {
+  startDate: '',
+  endDate: '',
+  facilityId: '',
+  physicianId: '',
+  payerId: '',
+  attorneyId: '',
+}
+
 export default function ReportsPage() {
+  const [reports, setReports] = useState<Report[]>([])
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+  const [generating, setGenerating] = useState<ReportType | null>(null)
   const [downloading, setDownloading] = useState<string | null>(null)
+  const [filters, setFilters] = useState<Filters>(emptyFilters)
+  const [facilities, setFacilities] = useState<Option[]>([])
+  const [physicians, setPhysicians] = useState<Option[]>([])
+  const [payers, setPayers] = useState<Option[]>([])
+  const [attorneys, setAttorneys] = useState<Option[]>([])
+
+  const pageSize = usePageSize('reports')
+
+  useEffect(() => {
+    fetchFilterOptions()
+  }, [])
+
+  const fetchReports = useCallback(async () => {
+    try {
+      const response = await fetch(`/api/reports?limit=${pageSize}`)
+      if (!response.ok) {
+        throw new Error('Failed to fetch reports')
+      }
+      const data = await response.json()
+      setReports(data)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to fetch reports')
+    } finally {
+      setLoading(false)
+    }
+  }, [pageSize])
+
+  useEffect(() => {
+    if (pageSize !== null) fetchReports()
+  }, [pageSize, fetchReports])
+
+  const fetchFilterOptions = async () => {
+    try {
+      const [facilitiesRes, physiciansRes, payersRes, attorneysRes] = await Promise.all([
+        fetch('/api/facilities'),
+        fetch('/api/providers?role=READING&includeInactive=true'),
+        fetch('/api/payers'),
+        fetch('/api/attorneys'),
+      ])
+
+      if (facilitiesRes.ok) setFacilities(await facilitiesRes.json())
+      if (physiciansRes.ok) setPhysicians(await physiciansRes.json())
+      if (payersRes.ok) setPayers(await payersRes.json())
+      if (attorneysRes.ok) {
+        const data: { id: string; user: { name: string } }[] = await attorneysRes.json()
+        setAttorneys(data.map((attorney) => ({ id: attorney.id, name: attorney.user.name })))
+      }
+    } catch (err) {
+      console.error('Error fetching report filters:', err)
+    }
+  }
 
-  const handleDownload = (reportId: string) => {
-    setDownloading(reportId)
-    
-    // Simulate download
-    setTimeout(() => {
+  const handleFilterChange = (e: React.ChangeEvent<HTMLInputElement | HTMLSelectElement>) => {
+    const { name, value } = e.target
+    setFilters((prev) => ({ ...prev, [name]: value }))
+  }
+
+  const handleGenerate = async (type: ReportType) => {
+    setGenerating(type)
+    setError(null)
+
+    try {
+      const response = await fetch('/api/reports', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ type, ...filters }),
+      })
+      const data = await response.json()
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to generate report')
+      }
+      await fetchReports()
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to generate report')
+      await fetchReports()
+    } finally {
+      setGenerating(null)
+    }
+  }
+
+  const handleDownload = async (report: Report) => {
+    setDownloading(report.id)
+
+    try {
+      const response = await fetch(`/api/reports/${report.id}?format=csv`)
+      if (!response.ok) {
+        throw new Error('Failed to download report')
+      }
+      const blob = await response.blob()
+      const url = window.URL.createObjectURL(blob)
+      const link = document.createElement('a')
+      link.href = url
+      link.download = `${report.type}-report-${format(new Date(report.startDate), 'yyyy-MM-dd')}.csv`
+      document.body.appendChild(link)
+      link.click()
+      link.remove()
+      window.URL.revokeObjectURL(url)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to download report')
+    } finally {
       setDownloading(null)
-    }, 1500)
+    }
   }
 
   const getStatusColor = (status: string) => {
     if (status === 'completed') {
       return 'bg-green-100 text-green-800 dark:bg-green-900 dark:text-green-100'
     }
+    if (status === 'failed') {
+      return 'bg-red-100 text-red-800 dark:bg-red-900 dark:text-red-100'
+    }
     return 'bg-yellow-100 text-yellow-800 dark:bg-yellow-900 dark:text-yellow-100'
   }
 
-  const getReportIcon = (type: string) => {
+  const getReportIcon = (type: string, className = 'h-5 w-5 text-indigo-500') => {
     switch (type) {
       case 'daily':
-        return <Calendar className="h-5 w-5 text-indigo-500" />
+        return <Calendar className={className} />
       case 'weekly':
-        return <BarChart2 className="h-5 w-5 text-indigo-500" />
+        return <BarChart2 className={className} />
       case 'monthly':
-        return <PieChart className="h-5 w-5 text-indigo-500" />
+        return <PieChart className={className} />
+      case 'npi':
+        return <ShieldAlert className={className} />
       default:
-        return <Calendar className="h-5 w-5 text-indigo-500" />
+        return <Calendar className={className} />
     }
   }
 
+  const formatRange = (report: Report) => {
+    const start = format(new Date(report.startDate), 'MMMM d, yyyy')
+    const end = format(new Date(report.endDate), 'MMMM d, yyyy')
+    return start === end ? start : `${start} – ${end}`
+  }
+
+  const selectClassName =
+    'mt-1 block w-full rounded-md border border-gray-300 bg-white px-3 py-2 text-sm shadow-sm focus:border-indigo-500 focus:outline-none focus:ring-1 focus:ring-indigo-500'
+
   return (
     <motion.div
       initial={{ opacity: 0 }}
@@ -86,218 +218,228 @@ export default function ReportsPage() {
           className="mb-8"
         >
           <h1 className="text-3xl font-bold text-gray-900">Reports</h1>
-          <p className="mt-2 text-gray-600">View and download your reports</p>
+          <p className="mt-2 text-gray-600">Generate, view and download your reports</p>
         </motion.div>
 
+        {error && (
+          <div className="mb-6 bg-red-50 border-l-4 border-red-500 p-4 rounded-lg">
+            <p className="text-sm font-medium text-red-800">{error}</p>
+          </div>
+        )}
+
         <div className="grid gap-6">
           <motion.div
             initial={{ opacity: 0, y: 20 }}
             animate={{ opacity: 1, y: 0 }}
-            transition={{ duration: 0.5, delay: 0.3 }}
+            transition={{ duration: 0.5, delay: 0.25 }}
           >
             <Card className="overflow-hidden border-0 shadow-lg rounded-xl">
               <CardHeader className="bg-gradient-to-r from-indigo-600 to-indigo-700 text-white">
-                <div className="flex items-center">
-                  <Calendar className="h-5 w-5 mr-2" />
-                  <CardTitle>Daily Reports</CardTitle>
-                </div>
+                <CardTitle>Report Parameters</CardTitle>
               </CardHeader>
               <CardContent className="p-6">
-                <div className="space-y-4">
-                  <AnimatePresence>
-                    {reports
-                      .filter((report) => report.type === 'daily')
-                      .map((report, index) => (
-                        <motion.div
-                          key={report.id}
-                          initial={{ opacity: 0, y: 20 }}
-                          animate={{ opacity: 1, y: 0 }}
-                          exit={{ opacity: 0, y: -20 }}
-                          transition={{ duration: 0.3, delay: index * 0.1 }}
-                          className="flex items-center justify-between p-4 bg-gray-50 rounded-lg hover:bg-gray-100 transition-colors"
-                          whileHover={{ scale: 1.01 }}
-                          whileTap={{ scale: 0.99 }}
-                        >
-                          <div className="flex items-center">
-                            <div className="mr-4 p-2 bg-indigo-50 rounded-full">
-                              {getReportIcon(report.type)}
-                            </div>
-                            <div>
-                              <h3 className="font-medium text-gray-900">{report.title}</h3>
-                              <p className="text-sm text-gray-500">
-                                {format(new Date(report.date), 'MMMM d, yyyy')}
-                              </p>
-                            </div>
-                          </div>
-                          <div className="flex items-center space-x-3">
-                            <span
-                              className={`px-2 py-1 text-xs rounded-full ${getStatusColor(
-                                report.status
-                              )}`}
-                            >
-                              {report.status}
-                            </span>
-                            <motion.button
-                              whileHover={{ scale: 1.1 }}
-                              whileTap={{ scale: 0.9 }}
-                              onClick={() => handleDownload(report.id)}
-                              disabled={downloading === report.id}
-                              className="p-2 text-gray-500 hover:text-indigo-600 rounded-full hover:bg-indigo-50 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
-                            >
-                              {downloading === report.id ? (
-                                <Loader2 className="h-4 w-4 animate-spin" />
-                              ) : (
-                                <Download className="h-4 w-4" />
-                              )}
-                            </motion.button>
-                          </div>
-                        </motion.div>
+                <div className="grid grid-cols-1 gap-4 sm:grid-cols-2">
+                  <div>
+                    <Label htmlFor="startDate">Start Date</Label>
+                    <Input
+                      id="startDate"
+                      name="startDate"
+                      type="date"
+                      value={filters.startDate}
+                      onChange={handleFilterChange}
+                    />
+                  </div>
+                  <div>
+                    <Label htmlFor="endDate">End Date</Label>
+                    <Input
+                      id="endDate"
+                      name="endDate"
+                      type="date"
+                      value={filters.endDate}
+                      onChange={handleFilterChange}
+                    />
+                  </div>
+                  <div>
+                    <Label htmlFor="facilityId">Facility</Label>
+                    <select
+                      id="facilityId"
+                      name="facilityId"
+                      value={filters.facilityId}
+                      onChange={handleFilterChange}
+                      className={selectClassName}
+                    >
+                      <option value="">All facilities</option>
+                      {facilities.map((facility) => (
+                        <option key={facility.id} value={facility.id}>
+                          {facility.name}
+                        </option>
                       ))}
-                  </AnimatePresence>
-                </div>
-              </CardContent>
-            </Card>
-          </motion.div>
-
-          <motion.div
-            initial={{ opacity: 0, y: 20 }}
-            animate={{ opacity: 1, y: 0 }}
-            transition={{ duration: 0.5, delay: 0.4 }}
-          >
-            <Card className="overflow-hidden border-0 shadow-lg rounded-xl">
-              <CardHeader className="bg-gradient-to-r from-indigo-600 to-indigo-700 text-white">
-                <div className="flex items-center">
-                  <BarChart2 className="h-5 w-5 mr-2" />
-                  <CardTitle>Weekly Reports</CardTitle>
-                </div>
-              </CardHeader>
-              <CardContent className="p-6">
-                <div className="space-y-4">
-                  <AnimatePresence>
-                    {reports
-                      .filter((report) => report.type === 'weekly')
-                      .map((report, index) => (
-                        <motion.div
-                          key={report.id}
-                          initial={{ opacity: 0, y: 20 }}
-                          animate={{ opacity: 1, y: 0 }}
-                          exit={{ opacity: 0, y: -20 }}
-                          transition={{ duration: 0.3, delay: index * 0.1 }}
-                          className="flex items-center justify-between p-4 bg-gray-50 rounded-lg hover:bg-gray-100 transition-colors"
-                          whileHover={{ scale: 1.01 }}
-                          whileTap={{ scale: 0.99 }}
-                        >
-                          <div className="flex items-center">
-                            <div className="mr-4 p-2 bg-indigo-50 rounded-full">
-                              {getReportIcon(report.type)}
-                            </div>
-                            <div>
-                              <h3 className="font-medium text-gray-900">{report.title}</h3>
-                              <p className="text-sm text-gray-500">
-                                {format(new Date(report.date), 'MMMM d, yyyy')}
-                              </p>
-                            </div>
-                          </div>
-                          <div className="flex items-center space-x-3">
-                            <span
-                              className={`px-2 py-1 text-xs rounded-full ${getStatusColor(
-                                report.status
-                              )}`}
-                            >
-                              {report.status}
-                            </span>
-                            <motion.button
-                              whileHover={{ scale: 1.1 }}
-                              whileTap={{ scale: 0.9 }}
-                              onClick={() => handleDownload(report.id)}
-                              disabled={downloading === report.id}
-                              className="p-2 text-gray-500 hover:text-indigo-600 rounded-full hover:bg-indigo-50 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
-                            >
-                              {downloading === report.id ? (
-                                <Loader2 className="h-4 w-4 animate-spin" />
-                              ) : (
-                                <Download className="h-4 w-4" />
-                              )}
-                            </motion.button>
-                          </div>
-                        </motion.div>
+                    </select>
+                  </div>
+                  <div>
+                    <Label htmlFor="physicianId">Physician</Label>
+                    <select
+                      id="physicianId"
+                      name="physicianId"
+                      value={filters.physicianId}
+                      onChange={handleFilterChange}
+                      className={selectClassName}
+                    >
+                      <option value="">All physicians</option>
+                      {physicians.map((physician) => (
+                        <option key={physician.id} value={physician.id}>
+                          {physician.name}
+                        </option>
+                      ))}
+                    </select>
+                  </div>
+                  <div>
+                    <Label htmlFor="payerId">Payer</Label>
+                    <select
+                      id="payerId"
+                      name="payerId"
+                      value={filters.payerId}
+                      onChange={handleFilterChange}
+                      className={selectClassName}
+                    >
+                      <option value="">All payers</option>
+                      {payers.map((payer) => (
+                        <option key={payer.id} value={payer.id}>
+                          {payer.name}
+                        </option>
+                      ))}
+                    </select>
+                  </div>
+                  <div>
+                    <Label htmlFor="attorneyId">Attorney</Label>
+                    <select
+                      id="attorneyId"
+                      name="attorneyId"
+                      value={filters.attorneyId}
+                      onChange={handleFilterChange}
+                      className={selectClassName}
+                    >
+                      <option value="">All attorneys</option>
+                      {attorneys.map((attorney) => (
+                        <option key={attorney.id} value={attorney.id}>
+                          {attorney.name}
+                        </option>
                       ))}
-                  </AnimatePresence>
+                    </select>
+                  </div>
                 </div>
+                <p className="mt-4 text-xs text-gray-500">
+                  Leave the dates empty to use each report&apos;s default period (today, the last 7 days or the current month).
+                </p>
               </CardContent>
             </Card>
           </motion.div>
 
-          <motion.div
-            initial={{ opacity: 0, y: 20 }}
-            animate={{ opacity: 1, y: 0 }}
-            transition={{ duration: 0.5, delay: 0.5 }}
-          >
-            <Card className="overflow-hidden border-0 shadow-lg rounded-xl">
-              <CardHeader className="bg-gradient-to-r from-indigo-600 to-indigo-700 text-white">
-                <div className="flex items-center">
-                  <PieChart className="h-5 w-5 mr-2" />
-                  <CardTitle>Monthly Reports</CardTitle>
-                </div>
-              </CardHeader>
-              <CardContent className="p-6">
-                <div className="space-y-4">
-                  <AnimatePresence>
-                    {reports
-                      .filter((report) => report.type === 'monthly')
-                      .map((report, index) => (
-                        <motion.div
-                          key={report.id}
-                          initial={{ opacity: 0, y: 20 }}
-                          animate={{ opacity: 1, y: 0 }}
-                          exit={{ opacity: 0, y: -20 }}
-                          transition={{ duration: 0.3, delay: index * 0.1 }}
-                          className="flex items-center justify-between p-4 bg-gray-50 rounded-lg hover:bg-gray-100 transition-colors"
-                          whileHover={{ scale: 1.01 }}
-                          whileTap={{ scale: 0.99 }}
-                        >
-                          <div className="flex items-center">
-                            <div className="mr-4 p-2 bg-indigo-50 rounded-full">
-                              {getReportIcon(report.type)}
-                            </div>
-                            <div>
-                              <h3 className="font-medium text-gray-900">{report.title}</h3>
-                              <p className="text-sm text-gray-500">
-                                {format(new Date(report.date), 'MMMM d, yyyy')}
-                              </p>
-                            </div>
-                          </div>
-                          <div className="flex items-center space-x-3">
-                            <span
-                              className={`px-2 py-1 text-xs rounded-full ${getStatusColor(
-                                report.status
-                              )}`}
-                            >
-                              {report.status}
-                            </span>
-                            <motion.button
-                              whileHover={{ scale: 1.1 }}
-                              whileTap={{ scale: 0.9 }}
-                              onClick={() => handleDownload(report.id)}
-                              disabled={downloading === report.id}
-                              className="p-2 text-gray-500 hover:text-indigo-600 rounded-full hover:bg-indigo-50 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+          {sections.map((section, sectionIndex) => {
+            const sectionReports = reports.filter((report) => report.type === section.type)
+
+            return (
+              <motion.div
+                key={section.type}
+                initial={{ opacity: 0, y: 20 }}
+                animate={{ opacity: 1, y: 0 }}
+                transition={{ duration: 0.5, delay: 0.3 + sectionIndex * 0.1 }}
+              >
+                <Card className="overflow-hidden border-0 shadow-lg rounded-xl">
+                  <CardHeader className="bg-gradient-to-r from-indigo-600 to-indigo-700 text-white">
+                    <div className="flex items-center justify-between">
+                      <div className="flex items-center">
+                        {getReportIcon(section.type, 'h-5 w-5 mr-2')}
+                        <CardTitle>{section.title}</CardTitle>
+                      </div>
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => handleGenerate(section.type)}
+                        disabled={generating !== null}
+                        className="bg-white/10 text-white border-white/20 hover:bg-white/20"
+                      >
+                        {generating === section.type ? (
+                          <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                        ) : (
+                          <Play className="h-4 w-4 mr-2" />
+                        )}
+                        Generate
+                      </Button>
+                    </div>
+                  </CardHeader>
+                  <CardContent className="p-6">
+                    <div className="space-y-4">
+                      {loading ? (
+                        <div className="flex justify-center">
+                          <Loader2 className="h-6 w-6 animate-spin text-indigo-600" />
+                        </div>
+                      ) : sectionReports.length === 0 ? (
+                        <p className="text-sm text-gray-500 text-center">No reports generated yet</p>
+                      ) : (
+                        <AnimatePresence>
+                          {sectionReports.map((report, index) => (
+                            <motion.div
+                              key={report.id}
+                              initial={{ opacity: 0, y: 20 }}
+                              animate={{ opacity: 1, y: 0 }}
+                              exit={{ opacity: 0, y: -20 }}
+                              transition={{ duration: 0.3, delay: index * 0.1 }}
+                              className="flex items-center justify-between p-4 bg-gray-50 rounded-lg hover:bg-gray-100 transition-colors"
+                              whileHover={{ scale: 1.01 }}
+                              whileTap={{ scale: 0.99 }}
                             >
-                              {downloading === report.id ? (
-                                <Loader2 className="h-4 w-4 animate-spin" />
-                              ) : (
-                                <Download className="h-4 w-4" />
-                              )}
-                            </motion.button>
-                          </div>
-                        </motion.div>
-                      ))}
-                  </AnimatePresence>
-                </div>
-              </CardContent>
-            </Card>
-          </motion.div>
+                              <div className="flex items-center">
+                                <div className="mr-4 p-2 bg-indigo-50 rounded-full">
+                                  {getReportIcon(report.type)}
+                                </div>
+                                <div>
+                                  <h3 className="font-medium text-gray-900">{report.title}</h3>
+                                  <p className="text-sm text-gray-500">{formatRange(report)}</p>
+                                  <p className="text-xs text-gray-400">
+                                    Generated {format(new Date(report.createdAt), 'MMM d, yyyy h:mm a')}
+                                    {report.generatedBy && ` by ${report.generatedBy.name}`}
+                                  </p>
+                                  {report.error && (
+                                    <p className="text-xs text-red-600">{report.error}</p>
+                                  )}
+                                </div>
+                              </div>
+                              <div className="flex items-center space-x-3">
+                                <span
+                                  className={`px-2 py-1 text-xs rounded-full ${getStatusColor(
+                                    report.status
+                                  )}`}
+                                >
+                                  {report.status}
+                                </span>
+                                <motion.button
+                                  whileHover={{ scale: 1.1 }}
+                                  whileTap={{ scale: 0.9 }}
+                                  onClick={() => handleDownload(report)}
+                                  disabled={downloading === report.id || report.status !== 'completed'}
+                                  className="p-2 text-gray-500 hover:text-indigo-600 rounded-full hover:bg-indigo-50 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                                  aria-label={`Download ${report.title}`}
+                                >
+                                  {downloading === report.id ? (
+                                    <Loader2 className="h-4 w-4 animate-spin" />
+                                  ) : (
+                                    <Download className="h-4 w-4" />
+                                  )}
+                                </motion.button>
+                              </div>
+                            </motion.div>
+                          ))}
+                        </AnimatePresence>
+                      )}
+                    </div>
+                  </CardContent>
+                </Card>
+              </motion.div>
+            )
+          })}
         </div>
       </div>
     </motion.div>
   )
-} 
\ No newline at end of file
+}
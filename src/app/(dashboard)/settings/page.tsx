@@ -1,12 +1,14 @@
 'use client'
 
-import { useState } from 'react'
+import { useEffect, useState } from 'react'
+import Link from 'next/link'
+import { useSession } from 'next-auth/react'
 import { motion, AnimatePresence } from 'framer-motion'
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
-import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
 import { Switch } from '@/components/ui/switch'
 import { Label } from '@/components/ui/label'
-import { Loader2, Save, Bell, Shield, Palette } from 'lucide-react'
+import { Loader2, Save, Bell, Phone, Palette, LayoutGrid, ShieldCheck, KeyRound } from 'lucide-react'
 import {
   Select,
   SelectContent,
@@ -14,49 +16,120 @@ import {
   SelectTrigger,
   SelectValue,
 } from "@/components/ui/select"
+import { PasswordSettings } from '@/components/auth/PasswordSettings'
+import { TwoFactorSettings } from '@/components/auth/TwoFactorSettings'
+import { useUserSettings } from '@/context/UserSettingsContext'
+import { PAGE_SIZE_OPTIONS, type TableName } from '@/lib/validations'
+import type { UserSettingsResponse } from '@/lib/user-settings'
 
-interface Settings {
-  notifications: {
-    email: boolean
-    push: boolean
-    sms: boolean
-  }
-  privacy: {
-    showEmail: boolean
-    showPhone: boolean
-  }
-  theme: 'light' | 'dark' | 'system'
+interface Option {
+  id: string
+  name: string
+}
+
+const channels = [
+  { key: 'email', label: 'Email Notifications', description: 'Receive notifications via email' },
+  { key: 'push', label: 'Push Notifications', description: 'Show a desktop notification while the app is open' },
+  { key: 'sms', label: 'SMS Notifications', description: 'Text the phone number below' },
+] as const
+
+const timezones = [
+  { value: 'America/Chicago', label: 'Central (Chicago)' },
+  { value: 'America/New_York', label: 'Eastern (New York)' },
+  { value: 'America/Denver', label: 'Mountain (Denver)' },
+  { value: 'America/Phoenix', label: 'Mountain, no DST (Phoenix)' },
+  { value: 'America/Los_Angeles', label: 'Pacific (Los Angeles)' },
+  { value: 'America/Anchorage', label: 'Alaska (Anchorage)' },
+  { value: 'Pacific/Honolulu', label: 'Hawaii (Honolulu)' },
+]
+
+const tables: Array<{ key: TableName; label: string }> = [
+  { key: 'patients', label: 'Patients' },
+  { key: 'reports', label: 'Reports' },
+  { key: 'auditLog', label: 'Audit log' },
+]
+
+// Select items cannot carry an empty value
+const NONE = 'none'
+
+const rowClassName = 'flex items-center justify-between gap-4 p-4 bg-gray-50 rounded-lg hover:bg-gray-100 transition-colors'
+
+function Section({ icon: Icon, title, delay, children }: {
+  icon: typeof Bell
+  title: string
+  delay: number
+  children: React.ReactNode
+}) {
+  return (
+    <motion.div
+      initial={{ opacity: 0, y: 20 }}
+      animate={{ opacity: 1, y: 0 }}
+      transition={{ duration: 0.5, delay }}
+    >
+      <Card className="overflow-hidden border-0 shadow-lg rounded-xl">
+        <CardHeader className="bg-gradient-to-r from-indigo-600 to-indigo-700 text-white">
+          <div className="flex items-center">
+            <Icon className="h-5 w-5 mr-2" />
+            <CardTitle>{title}</CardTitle>
+          </div>
+        </CardHeader>
+        <CardContent className="space-y-6 p-6">{children}</CardContent>
+      </Card>
+    </motion.div>
+  )
 }
 
 export default function SettingsPage() {
-  const [settings, setSettings] = useState<Settings>({
-    notifications: {
-      email: true,
-      push: true,
-      sms: false,
-    },
-    privacy: {
-      showEmail: true,
-      showPhone: false,
-    },
-    theme: 'system',
-  })
+  const { data: session } = useSession()
+  const { settings: saved, loaded, updateSettings } = useUserSettings()
+  const [settings, setSettings] = useState<UserSettingsResponse | null>(null)
+  const [facilities, setFacilities] = useState<Option[]>([])
   const [saving, setSaving] = useState(false)
   const [saveSuccess, setSaveSuccess] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  // The form starts from the saved settings and keeps its edits after that
+  useEffect(() => {
+    if (saved && !settings) setSettings(saved)
+  }, [saved, settings])
+
+  useEffect(() => {
+    fetch('/api/facilities')
+      .then((response) => (response.ok ? response.json() : []))
+      .then(setFacilities)
+      .catch((err) => console.error('Error fetching facilities:', err))
+  }, [])
+
+  const handleSave = async () => {
+    if (!settings) return
 
-  const handleSave = () => {
     setSaving(true)
-    
-    // Simulate API call
-    setTimeout(() => {
-      setSaving(false)
+    setError(null)
+    try {
+      setSettings(await updateSettings(settings))
       setSaveSuccess(true)
-      
+
       // Reset success message after 3 seconds
       setTimeout(() => {
         setSaveSuccess(false)
       }, 3000)
-    }, 1500)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save settings')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  if (!settings) {
+    return (
+      <div className="flex items-center justify-center min-h-screen">
+        {loaded ? (
+          <p className="text-sm text-red-600">Settings could not be loaded. Please refresh the page.</p>
+        ) : (
+          <Loader2 className="h-8 w-8 animate-spin text-indigo-600" />
+        )}
+      </div>
+    )
   }
 
   return (
@@ -77,229 +150,207 @@ export default function SettingsPage() {
           <p className="mt-2 text-gray-600">Manage your account settings and preferences</p>
         </motion.div>
 
+        {session?.user.twoFactorSetupRequired && (
+          <div className="mb-6 bg-amber-50 border-l-4 border-amber-500 p-4 rounded-lg">
+            <p className="text-sm font-medium text-amber-800">
+              Your organization requires two-factor authentication. Set it up below to continue using the app.
+            </p>
+          </div>
+        )}
+
+        {session?.user.passwordChangeRequired && (
+          <div className="mb-6 bg-amber-50 border-l-4 border-amber-500 p-4 rounded-lg">
+            <p className="text-sm font-medium text-amber-800">
+              Your password has expired. Choose a new one below to continue using the app.
+            </p>
+          </div>
+        )}
+
         <div className="grid gap-6">
-          <motion.div
-            initial={{ opacity: 0, y: 20 }}
-            animate={{ opacity: 1, y: 0 }}
-            transition={{ duration: 0.5, delay: 0.3 }}
-          >
-            <Card className="overflow-hidden border-0 shadow-lg rounded-xl">
-              <CardHeader className="bg-gradient-to-r from-indigo-600 to-indigo-700 text-white">
-                <div className="flex items-center">
-                  <Bell className="h-5 w-5 mr-2" />
-                  <CardTitle>Notifications</CardTitle>
+          <Section icon={Bell} title="Notifications" delay={0.3}>
+            {channels.map((channel) => (
+              <div key={channel.key} className={rowClassName}>
+                <div>
+                  <Label htmlFor={`${channel.key}-notifications`} className="text-base">{channel.label}</Label>
+                  <p className="text-sm text-gray-500">{channel.description}</p>
                 </div>
-              </CardHeader>
-              <CardContent className="space-y-6 p-6">
-                <motion.div 
-                  className="flex items-center justify-between p-4 bg-gray-50 rounded-lg hover:bg-gray-100 transition-colors"
-                  whileHover={{ scale: 1.01 }}
-                  whileTap={{ scale: 0.99 }}
-                >
-                  <div>
-                    <Label htmlFor="email-notifications" className="text-base">Email Notifications</Label>
-                    <p className="text-sm text-gray-500">Receive notifications via email</p>
-                  </div>
-                  <Switch
-                    id="email-notifications"
-                    checked={settings.notifications.email}
-                    onCheckedChange={(checked: boolean) =>
-                      setSettings({
-                        ...settings,
-                        notifications: {
-                          ...settings.notifications,
-                          email: checked,
-                        },
-                      })
-                    }
-                  />
-                </motion.div>
+                <Switch
+                  id={`${channel.key}-notifications`}
+                  checked={settings.notifications[channel.key]}
+                  onCheckedChange={(checked: boolean) =>
+                    setSettings({
+                      ...settings,
+                      notifications: {
+                        ...settings.notifications,
+                        [channel.key]: checked,
+                      },
+                    })
+                  }
+                />
+              </div>
+            ))}
+            <p className="text-sm text-gray-500">
+              Choose which events notify you on the{' '}
+              <Link href="/notifications" className="text-indigo-600 hover:text-indigo-800">notifications page</Link>.
+            </p>
+          </Section>
 
-                <motion.div 
-                  className="flex items-center justify-between p-4 bg-gray-50 rounded-lg hover:bg-gray-100 transition-colors"
-                  whileHover={{ scale: 1.01 }}
-                  whileTap={{ scale: 0.99 }}
-                >
-                  <div>
-                    <Label htmlFor="push-notifications" className="text-base">Push Notifications</Label>
-                    <p className="text-sm text-gray-500">Receive push notifications</p>
-                  </div>
-                  <Switch
-                    id="push-notifications"
-                    checked={settings.notifications.push}
-                    onCheckedChange={(checked: boolean) =>
-                      setSettings({
-                        ...settings,
-                        notifications: {
-                          ...settings.notifications,
-                          push: checked,
-                        },
-                      })
-                    }
-                  />
-                </motion.div>
+          <Section icon={Phone} title="Contact" delay={0.4}>
+            <div className="p-4 bg-gray-50 rounded-lg">
+              <Label htmlFor="phone" className="text-base mb-2 block">Mobile Phone</Label>
+              <Input
+                id="phone"
+                type="tel"
+                value={settings.phone}
+                onChange={(e) => setSettings({ ...settings, phone: e.target.value })}
+                placeholder="(555) 555-5555"
+              />
+              <p className="mt-2 text-sm text-gray-500">Used for SMS notifications</p>
+            </div>
+          </Section>
 
-                <motion.div 
-                  className="flex items-center justify-between p-4 bg-gray-50 rounded-lg hover:bg-gray-100 transition-colors"
-                  whileHover={{ scale: 1.01 }}
-                  whileTap={{ scale: 0.99 }}
-                >
-                  <div>
-                    <Label htmlFor="sms-notifications" className="text-base">SMS Notifications</Label>
-                    <p className="text-sm text-gray-500">Receive notifications via SMS</p>
-                  </div>
-                  <Switch
-                    id="sms-notifications"
-                    checked={settings.notifications.sms}
-                    onCheckedChange={(checked: boolean) =>
-                      setSettings({
-                        ...settings,
-                        notifications: {
-                          ...settings.notifications,
-                          sms: checked,
-                        },
-                      })
-                    }
-                  />
-                </motion.div>
-              </CardContent>
-            </Card>
-          </motion.div>
+          <Section icon={KeyRound} title="Password" delay={0.42}>
+            <PasswordSettings />
+          </Section>
 
-          <motion.div
-            initial={{ opacity: 0, y: 20 }}
-            animate={{ opacity: 1, y: 0 }}
-            transition={{ duration: 0.5, delay: 0.4 }}
-          >
-            <Card className="overflow-hidden border-0 shadow-lg rounded-xl">
-              <CardHeader className="bg-gradient-to-r from-indigo-600 to-indigo-700 text-white">
-                <div className="flex items-center">
-                  <Shield className="h-5 w-5 mr-2" />
-                  <CardTitle>Privacy Settings</CardTitle>
-                </div>
-              </CardHeader>
-              <CardContent className="space-y-6 p-6">
-                <motion.div 
-                  className="flex items-center justify-between p-4 bg-gray-50 rounded-lg hover:bg-gray-100 transition-colors"
-                  whileHover={{ scale: 1.01 }}
-                  whileTap={{ scale: 0.99 }}
+          <Section icon={ShieldCheck} title="Two-Factor Authentication" delay={0.45}>
+            <TwoFactorSettings />
+          </Section>
+
+          <Section icon={Palette} title="Theme Settings" delay={0.5}>
+            <div className="p-4 bg-gray-50 rounded-lg">
+              <Label htmlFor="theme" className="text-base mb-2 block">Theme</Label>
+              <Select
+                value={settings.theme}
+                onValueChange={(value: UserSettingsResponse['theme']) => setSettings({ ...settings, theme: value })}
+              >
+                <SelectTrigger id="theme" className="w-full">
+                  <SelectValue placeholder="Select a theme" />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="LIGHT">Light</SelectItem>
+                  <SelectItem value="DARK">Dark</SelectItem>
+                  <SelectItem value="SYSTEM">System</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+          </Section>
+
+          <Section icon={LayoutGrid} title="Workspace" delay={0.6}>
+            <div className="grid gap-4 sm:grid-cols-2">
+              <div className="p-4 bg-gray-50 rounded-lg">
+                <Label htmlFor="default-facility" className="text-base mb-2 block">Default Facility</Label>
+                <Select
+                  value={settings.defaultFacilityId ?? NONE}
+                  onValueChange={(value) => setSettings({ ...settings, defaultFacilityId: value === NONE ? null : value })}
                 >
-                  <div>
-                    <Label htmlFor="show-email" className="text-base">Show Email Address</Label>
-                    <p className="text-sm text-gray-500">Display your email address to other users</p>
-                  </div>
-                  <Switch
-                    id="show-email"
-                    checked={settings.privacy.showEmail}
-                    onCheckedChange={(checked: boolean) =>
-                      setSettings({
-                        ...settings,
-                        privacy: {
-                          ...settings.privacy,
-                          showEmail: checked,
-                        },
-                      })
-                    }
-                  />
-                </motion.div>
+                  <SelectTrigger id="default-facility" className="w-full">
+                    <SelectValue placeholder="All facilities" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={NONE}>All facilities</SelectItem>
+                    {facilities.map((facility) => (
+                      <SelectItem key={facility.id} value={facility.id}>{facility.name}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
 
-                <motion.div 
-                  className="flex items-center justify-between p-4 bg-gray-50 rounded-lg hover:bg-gray-100 transition-colors"
-                  whileHover={{ scale: 1.01 }}
-                  whileTap={{ scale: 0.99 }}
+              <div className="p-4 bg-gray-50 rounded-lg">
+                <Label htmlFor="calendar-view" className="text-base mb-2 block">Calendar View</Label>
+                <Select
+                  value={settings.defaultCalendarView}
+                  onValueChange={(value: UserSettingsResponse['defaultCalendarView']) =>
+                    setSettings({ ...settings, defaultCalendarView: value })
+                  }
                 >
-                  <div>
-                    <Label htmlFor="show-phone" className="text-base">Show Phone Number</Label>
-                    <p className="text-sm text-gray-500">Display your phone number to other users</p>
-                  </div>
-                  <Switch
-                    id="show-phone"
-                    checked={settings.privacy.showPhone}
-                    onCheckedChange={(checked: boolean) =>
-                      setSettings({
-                        ...settings,
-                        privacy: {
-                          ...settings.privacy,
-                          showPhone: checked,
-                        },
-                      })
-                    }
-                  />
-                </motion.div>
-              </CardContent>
-            </Card>
-          </motion.div>
+                  <SelectTrigger id="calendar-view" className="w-full">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="day">Day</SelectItem>
+                    <SelectItem value="week">Week</SelectItem>
+                    <SelectItem value="month">Month</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
 
-          <motion.div
-            initial={{ opacity: 0, y: 20 }}
-            animate={{ opacity: 1, y: 0 }}
-            transition={{ duration: 0.5, delay: 0.5 }}
-          >
-            <Card className="overflow-hidden border-0 shadow-lg rounded-xl">
-              <CardHeader className="bg-gradient-to-r from-indigo-600 to-indigo-700 text-white">
-                <div className="flex items-center">
-                  <Palette className="h-5 w-5 mr-2" />
-                  <CardTitle>Theme Settings</CardTitle>
-                </div>
-              </CardHeader>
-              <CardContent className="p-6">
-                <motion.div 
-                  className="p-4 bg-gray-50 rounded-lg hover:bg-gray-100 transition-colors"
-                  whileHover={{ scale: 1.01 }}
-                  whileTap={{ scale: 0.99 }}
+              <div className="p-4 bg-gray-50 rounded-lg sm:col-span-2">
+                <Label htmlFor="timezone" className="text-base mb-2 block">Time Zone</Label>
+                <Select
+                  value={settings.timezone ?? NONE}
+                  onValueChange={(value) => setSettings({ ...settings, timezone: value === NONE ? null : value })}
                 >
-                  <Label htmlFor="theme" className="text-base mb-2 block">Theme</Label>
-                  <Select
-                    value={settings.theme}
-                    onValueChange={(value: 'light' | 'dark' | 'system') =>
-                      setSettings({
-                        ...settings,
-                        theme: value,
-                      })
-                    }
-                  >
-                    <SelectTrigger className="w-full">
-                      <SelectValue placeholder="Select a theme" />
-                    </SelectTrigger>
-                    <SelectContent>
-                      <SelectItem value="light">Light</SelectItem>
-                      <SelectItem value="dark">Dark</SelectItem>
-                      <SelectItem value="system">System</SelectItem>
-                    </SelectContent>
-                  </Select>
-                </motion.div>
-              </CardContent>
-            </Card>
-          </motion.div>
+                  <SelectTrigger id="timezone" className="w-full">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={NONE}>Use this device&apos;s time zone</SelectItem>
+                    {timezones.map((timezone) => (
+                      <SelectItem key={timezone.value} value={timezone.value}>{timezone.label}</SelectItem>
+                    ))}
+                    {settings.timezone && !timezones.some((timezone) => timezone.value === settings.timezone) && (
+                      <SelectItem value={settings.timezone}>{settings.timezone}</SelectItem>
+                    )}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+
+            <div>
+              <h3 className="text-sm font-semibold text-gray-700 mb-2">Rows per page</h3>
+              <div className="grid gap-4 sm:grid-cols-3">
+                {tables.map((table) => (
+                  <div key={table.key} className="p-4 bg-gray-50 rounded-lg">
+                    <Label htmlFor={`page-size-${table.key}`} className="mb-2 block">{table.label}</Label>
+                    <Select
+                      value={String(settings.pageSizes[table.key])}
+                      onValueChange={(value) =>
+                        setSettings({
+                          ...settings,
+                          pageSizes: {
+                            ...settings.pageSizes,
+                            [table.key]: Number(value),
+                          },
+                        })
+                      }
+                    >
+                      <SelectTrigger id={`page-size-${table.key}`} className="w-full">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {PAGE_SIZE_OPTIONS.map((size) => (
+                          <SelectItem key={size} value={String(size)}>{size}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                ))}
+              </div>
+            </div>
+          </Section>
 
           <motion.div
             initial={{ opacity: 0, y: 20 }}
             animate={{ opacity: 1, y: 0 }}
-            transition={{ duration: 0.5, delay: 0.6 }}
+            transition={{ duration: 0.5, delay: 0.7 }}
             className="flex justify-end"
           >
             <AnimatePresence>
-              {saveSuccess && (
+              {(saveSuccess || error) && (
                 <motion.div
                   initial={{ opacity: 0, y: -10 }}
                   animate={{ opacity: 1, y: 0 }}
                   exit={{ opacity: 0, y: -10 }}
-                  className="bg-green-50 border-l-4 border-green-500 p-4 rounded-lg mr-4 max-w-md"
+                  className={`${error ? 'bg-red-50 border-red-500' : 'bg-green-50 border-green-500'} border-l-4 p-4 rounded-lg mr-4 max-w-md`}
                 >
-                  <div className="flex">
-                    <div className="flex-shrink-0">
-                      <svg className="h-5 w-5 text-green-500" viewBox="0 0 20 20" fill="currentColor">
-                        <path fillRule="evenodd" d="M10 18a8 8 0 100-16 8 8 0 000 16zm3.707-9.293a1 1 0 00-1.414-1.414L9 10.586 7.707 9.293a1 1 0 00-1.414 1.414l2 2a1 1 0 001.414 0l4-4z" clipRule="evenodd" />
-                      </svg>
-                    </div>
-                    <div className="ml-3">
-                      <p className="text-sm font-medium text-green-800">Settings saved successfully!</p>
-                    </div>
-                  </div>
+                  <p className={`text-sm font-medium ${error ? 'text-red-800' : 'text-green-800'}`}>
+                    {error || 'Settings saved successfully!'}
+                  </p>
                 </motion.div>
               )}
             </AnimatePresence>
-            
+
             <motion.button
               whileHover={{ scale: 1.05 }}
               whileTap={{ scale: 0.95 }}
@@ -319,4 +370,4 @@ export default function SettingsPage() {
       </div>
     </motion.div>
   )
-} 
\ No newline at end of file
+}
@@ -1,9 +1,11 @@
 "use client"
 
 import { useEffect, useState, use } from "react"
+import Link from "next/link"
 import { useSession } from "next-auth/react"
 import { useRouter } from "next/navigation"
 import { motion, AnimatePresence } from "framer-motion"
+import { formatDistanceToNow } from "date-fns"
 import { Loader2, ArrowLeft, CheckCircle2, Trash2 } from "lucide-react"
 import { Button } from "@/components/ui/button"
 import { Input } from "@/components/ui/input"
@@ -11,6 +13,9 @@ import { Label } from "@/components/ui/label"
 import { Textarea } from "@/components/ui/textarea"
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
 import { Badge } from "@/components/ui/badge"
+import { TaskLinkFields } from "@/components/tasks/TaskLinkFields"
+import { TaskComments, type TaskComment } from "@/components/tasks/TaskComments"
+import { TaskAttachments, type TaskAttachment } from "@/components/tasks/TaskAttachments"
 
 interface Task {
   id: string
@@ -25,14 +30,68 @@ interface Task {
     name: string
     email: string
   } | null
+  patientId: string | null
+  caseId: string | null
+  procedureId: string | null
+  patient: {
+    id: string
+    firstName: string
+    lastName: string
+  } | null
+  case: {
+    id: string
+    caseNumber: string
+  } | null
+  rule: {
+    name: string
+  } | null
+  comments: TaskComment[]
+  attachments: TaskAttachment[]
+  activities: TaskActivity[]
   createdAt: string
   updatedAt: string
 }
 
+interface TaskActivity {
+  id: string
+  type: string
+  fromValue: string | null
+  toValue: string | null
+  createdAt: string
+  actor: {
+    name: string
+  } | null
+}
+
+const statusLabels: Record<string, string> = {
+  pending: "Pending",
+  in_progress: "In Progress",
+  completed: "Completed",
+}
+
+const describeActivity = (activity: TaskActivity) => {
+  const status = (value: string | null) => (value ? statusLabels[value] ?? value : "none")
+  switch (activity.type) {
+    case "CREATED":
+      return "created the task"
+    case "STATUS_CHANGED":
+      return `changed the status from ${status(activity.fromValue)} to ${status(activity.toValue)}`
+    case "ASSIGNEE_CHANGED":
+      return `reassigned the task from ${activity.fromValue} to ${activity.toValue}`
+    case "ATTACHMENT_ADDED":
+      return `attached ${activity.toValue}`
+    case "ATTACHMENT_REMOVED":
+      return `removed ${activity.fromValue}`
+    default:
+      return activity.type.toLowerCase()
+  }
+}
+
 interface User {
   id: string
   name: string
   email: string
+  role: string
 }
 
 export default function TaskDetailPage({ params }: { params: Promise<{ id: string }> }) {
@@ -83,6 +142,13 @@ export default function TaskDetailPage({ params }: { params: Promise<{ id: strin
     }
   }
 
+  const refreshTask = async () => {
+    const response = await fetch(`/api/tasks/${id}`)
+    if (response.ok) {
+      setTask(await response.json())
+    }
+  }
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault()
     if (!task) return
@@ -343,6 +409,15 @@ export default function TaskDetailPage({ params }: { params: Promise<{ id: strin
                     </SelectContent>
                   </Select>
                 </div>
+
+                <TaskLinkFields
+                  value={{
+                    patientId: task.patientId ?? "",
+                    caseId: task.caseId ?? "",
+                    procedureId: task.procedureId ?? "",
+                  }}
+                  onChange={(links) => setTask({ ...task, ...links })}
+                />
               </motion.div>
 
               <motion.div
@@ -377,6 +452,57 @@ export default function TaskDetailPage({ params }: { params: Promise<{ id: strin
             </form>
           </motion.div>
         </motion.div>
+
+        <div className="mt-8 grid grid-cols-1 lg:grid-cols-3 gap-8">
+          <div className="lg:col-span-2 bg-white rounded-2xl shadow-xl p-8 space-y-8">
+            {(task.patient || task.case || task.rule) && (
+              <div className="flex flex-wrap gap-4 text-sm text-gray-600">
+                {task.patient && (
+                  <Link href={`/patients/${task.patient.id}`} className="text-indigo-600 hover:text-indigo-800">
+                    Patient: {task.patient.firstName} {task.patient.lastName}
+                  </Link>
+                )}
+                {task.case && (
+                  <Link href={`/cases/${task.case.id}`} className="text-indigo-600 hover:text-indigo-800">
+                    Case: {task.case.caseNumber}
+                  </Link>
+                )}
+                {task.rule && <span>Automated by {task.rule.name}</span>}
+              </div>
+            )}
+            <TaskComments
+              taskId={task.id}
+              comments={task.comments}
+              // Only office logins can be mentioned
+              users={users.filter((user) => user.role === "ADMIN" || user.role === "STAFF")}
+              currentUserId={session?.user.id}
+              isAdmin={session?.user.role === "ADMIN"}
+              onChange={(comments) => setTask({ ...task, comments })}
+            />
+            <TaskAttachments taskId={task.id} attachments={task.attachments} onChange={refreshTask} />
+          </div>
+
+          <div className="bg-white rounded-2xl shadow-xl p-8 space-y-4">
+            <h2 className="text-lg font-semibold text-gray-900">History</h2>
+            {task.activities.length === 0 ? (
+              <p className="text-sm text-gray-500">No changes recorded yet.</p>
+            ) : (
+              <ul className="space-y-3">
+                {task.activities.map((activity) => (
+                  <li key={activity.id} className="text-sm">
+                    <p className="text-gray-700">
+                      <span className="font-medium text-gray-900">{activity.actor?.name ?? "Automation"}</span>{" "}
+                      {describeActivity(activity)}
+                    </p>
+                    <p className="text-xs text-gray-500">
+                      {formatDistanceToNow(new Date(activity.createdAt), { addSuffix: true })}
+                    </p>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+        </div>
       </div>
     </motion.div>
   )
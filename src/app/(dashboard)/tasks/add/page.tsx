@@ -2,7 +2,7 @@
 
 import { useEffect, useState } from "react"
 import { useSession } from "next-auth/react"
-import { useRouter } from "next/navigation"
+import { useRouter, useSearchParams } from "next/navigation"
 import { motion } from "framer-motion"
 import { Loader2, ArrowLeft, CheckCircle2 } from "lucide-react"
 
@@ -17,6 +17,7 @@ import {
   SelectTrigger,
   SelectValue,
 } from "@/components/ui/select"
+import { TaskLinkFields } from "@/components/tasks/TaskLinkFields"
 
 interface User {
   id: string
@@ -27,6 +28,7 @@ interface User {
 export default function AddTaskPage() {
   const { data: session, status } = useSession()
   const router = useRouter()
+  const searchParams = useSearchParams()
   const [loading, setLoading] = useState(false)
   const [error, setError] = useState<string | null>(null)
   const [users, setUsers] = useState<User[]>([])
@@ -37,6 +39,9 @@ export default function AddTaskPage() {
     priority: "medium",
     dueDate: "",
     assignedToId: "",
+    patientId: searchParams.get("patientId") ?? "",
+    caseId: searchParams.get("caseId") ?? "",
+    procedureId: searchParams.get("procedureId") ?? "",
   })
 
   useEffect(() => {
@@ -233,6 +238,7 @@ export default function AddTaskPage() {
                     type="datetime-local"
                     value={formData.dueDate}
                     onChange={handleChange}
+                    required
                     className="mt-1 block w-full rounded-lg border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm transition-colors"
                   />
                 </div>
@@ -257,6 +263,11 @@ export default function AddTaskPage() {
                     </SelectContent>
                   </Select>
                 </div>
+
+                <TaskLinkFields
+                  value={formData}
+                  onChange={(links) => setFormData((prev) => ({ ...prev, ...links }))}
+                />
               </motion.div>
 
               <motion.div
@@ -30,6 +30,14 @@ interface Task {
     name: string
     email: string
   } | null
+  rule: {
+    name: string
+  } | null
+  patient: {
+    id: string
+    firstName: string
+    lastName: string
+  } | null
   createdAt: string
   updatedAt: string
 }
@@ -229,7 +237,22 @@ export default function TasksPage() {
                         transition={{ duration: 0.3, delay: index * 0.05 }}
                         className="hover:bg-gray-50 transition-colors"
                       >
-                        <TableCell className="font-medium">{task.title}</TableCell>
+                        <TableCell className="font-medium">
+                          {task.title}
+                          {task.patient && (
+                            <Link
+                              href={`/patients/${task.patient.id}`}
+                              className="block text-xs font-normal text-indigo-600 hover:text-indigo-800"
+                            >
+                              {task.patient.firstName} {task.patient.lastName}
+                            </Link>
+                          )}
+                          {task.rule && (
+                            <span className="block text-xs font-normal text-gray-500">
+                              Automated by {task.rule.name}
+                            </span>
+                          )}
+                        </TableCell>
                         <TableCell>
                           <motion.div
                             whileHover={{ scale: 1.05 }}
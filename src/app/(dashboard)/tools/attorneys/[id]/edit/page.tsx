@@ -3,7 +3,9 @@
 import { useState, useEffect, use } from 'react'
 import { useRouter } from 'next/navigation'
 import { motion, AnimatePresence } from 'framer-motion'
-import { formatPhoneNumber, lookupZipCode } from '@/utils/formatters'
+import { formatPhoneNumber } from '@/utils/formatters'
+import { getCityStateFromZip } from '@/lib/zipcode'
+import { CityOptions, StateOptions } from '@/components/address/PlaceOptions'
 
 interface CaseManagerData {
   name: string
@@ -11,6 +13,8 @@ interface CaseManagerData {
   phone: string
   phoneExt: string
   faxNumber: string
+  password: string
+  hasPortalLogin: boolean
 }
 
 interface Attorney {
@@ -106,7 +110,9 @@ export default function EditAttorneyPage({ params }: { params: Promise<{ id: str
         email: manager.email || '',
         phone: manager.phone || '',
         phoneExt: manager.phoneExt || '',
-        faxNumber: manager.faxNumber || ''
+        faxNumber: manager.faxNumber || '',
+        password: '',
+        hasPortalLogin: Boolean(manager.userId)
       })) ?? [])
     } catch (err) {
       setError(err instanceof Error ? err.message : 'An error occurred')
@@ -130,15 +136,19 @@ export default function EditAttorneyPage({ params }: { params: Promise<{ id: str
 
     // Handle ZIP code lookup
     if (name === 'zip' && value.length === 5) {
-      const location = await lookupZipCode(value)
-      if (location) {
-        setFormData(prev => ({
-          ...prev,
-          zip: value,
-          city: location.city,
-          state: location.state
-        }))
-        return
+      try {
+        const location = await getCityStateFromZip(value)
+        if (location) {
+          setFormData(prev => ({
+            ...prev,
+            zip: value,
+            city: location.city,
+            state: location.state
+          }))
+          return
+        }
+      } catch (error) {
+        console.error('Error looking up ZIP code:', error)
       }
     }
 
@@ -148,7 +158,7 @@ export default function EditAttorneyPage({ params }: { params: Promise<{ id: str
     }))
   }
 
-  const handleCaseManagerChange = (index: number, field: keyof CaseManagerData, value: string) => {
+  const handleCaseManagerChange = (index: number, field: Exclude<keyof CaseManagerData, 'hasPortalLogin'>, value: string) => {
     const newCaseManagers = [...caseManagers]
     
     // Format phone and fax numbers
@@ -174,7 +184,9 @@ export default function EditAttorneyPage({ params }: { params: Promise<{ id: str
       email: '',
       phone: '',
       phoneExt: '',
-      faxNumber: ''
+      faxNumber: '',
+      password: '',
+      hasPortalLogin: false
     }])
   }
 
@@ -219,7 +231,8 @@ export default function EditAttorneyPage({ params }: { params: Promise<{ id: str
           email: manager.email,
           phone: manager.phone,
           phoneExt: manager.phoneExt,
-          faxNumber: manager.faxNumber
+          faxNumber: manager.faxNumber,
+          password: manager.password || undefined
         }))
       }
 
@@ -419,11 +432,13 @@ export default function EditAttorneyPage({ params }: { params: Promise<{ id: str
                       type="text"
                       id="city"
                       name="city"
+                      list="city-options"
                       value={formData.city}
                       onChange={handleChange}
                       className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm"
                       placeholder="City"
                     />
+                    <CityOptions id="city-options" city={formData.city} state={formData.state} />
                   </div>
 
                   <div>
@@ -434,11 +449,13 @@ export default function EditAttorneyPage({ params }: { params: Promise<{ id: str
                       type="text"
                       id="state"
                       name="state"
+                      list="state-options"
                       value={formData.state}
                       onChange={handleChange}
                       className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm"
                       placeholder="State"
                     />
+                    <StateOptions id="state-options" />
                   </div>
                 </div>
 
@@ -583,6 +600,19 @@ export default function EditAttorneyPage({ params }: { params: Promise<{ id: str
                             className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500"
                           />
                         </div>
+                        <div>
+                          <label className="block text-sm font-medium text-gray-700">
+                            Portal Password {manager.hasPortalLogin && <span className="text-xs text-green-600">(login active)</span>}
+                          </label>
+                          <input
+                            type="password"
+                            name="password"
+                            value={manager.password}
+                            onChange={(e) => handleCaseManagerChange(index, 'password', e.target.value)}
+                            placeholder={manager.hasPortalLogin ? 'Leave blank to keep current' : 'Set to enable portal access'}
+                            className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500"
+                          />
+                        </div>
                       </div>
                     </div>
                   ))}
@@ -3,7 +3,9 @@
 import { useState } from 'react'
 import { useRouter } from 'next/navigation'
 import { motion, AnimatePresence } from 'framer-motion'
-import { formatPhoneNumber, lookupZipCode } from '@/utils/formatters'
+import { formatPhoneNumber } from '@/utils/formatters'
+import { getCityStateFromZip } from '@/lib/zipcode'
+import { CityOptions, StateOptions } from '@/components/address/PlaceOptions'
 import { Loader2, Plus, Trash2 } from 'lucide-react'
 
 interface CaseManagerData {
@@ -12,6 +14,7 @@ interface CaseManagerData {
   phone: string
   phoneExt: string
   faxNumber: string
+  password: string
 }
 
 interface FormData {
@@ -65,7 +68,7 @@ export default function AddAttorneyPage() {
     if (name === 'zipcode' && value.length === 5) {
       setZipLookupError(null)
       try {
-        const location = await lookupZipCode(value)
+        const location = await getCityStateFromZip(value)
         if (location) {
           setFormData(prev => ({
             ...prev,
@@ -79,7 +82,7 @@ export default function AddAttorneyPage() {
             ...prev,
             zipcode: value
           }))
-          setZipLookupError('ZIP code lookup failed. Please enter city and state manually.')
+          setZipLookupError('ZIP code not found. Please enter city and state manually.')
         }
       } catch (error) {
         console.log('Error looking up ZIP code:', error)
@@ -132,7 +135,8 @@ export default function AddAttorneyPage() {
       email: '',
       phone: '',
       phoneExt: '',
-      faxNumber: ''
+      faxNumber: '',
+      password: ''
     }])
   }
 
@@ -351,11 +355,13 @@ export default function AddAttorneyPage() {
                       type="text"
                       id="city"
                       name="city"
+                      list="city-options"
                       value={formData.city}
                       onChange={handleChange}
                       className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm"
                       placeholder="City"
                     />
+                    <CityOptions id="city-options" city={formData.city} state={formData.state} />
                   </div>
 
                   <div>
@@ -366,11 +372,13 @@ export default function AddAttorneyPage() {
                       type="text"
                       id="state"
                       name="state"
+                      list="state-options"
                       value={formData.state}
                       onChange={handleChange}
                       className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm"
                       placeholder="State"
                     />
+                    <StateOptions id="state-options" />
                   </div>
                 </div>
 
@@ -525,6 +533,21 @@ export default function AddAttorneyPage() {
                           className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm"
                         />
                       </div>
+
+                      <div>
+                        <label htmlFor={`caseManagerPassword${index}`} className="block text-sm font-medium text-gray-700">
+                          Portal Password
+                        </label>
+                        <input
+                          type="password"
+                          id={`caseManagerPassword${index}`}
+                          name="password"
+                          value={manager.password}
+                          onChange={(e) => handleCaseManagerChange(index, e)}
+                          placeholder="Leave blank for no portal access"
+                          className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm"
+                        />
+                      </div>
                     </motion.div>
                   ))}
                 </AnimatePresence>
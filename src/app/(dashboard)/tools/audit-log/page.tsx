@@ -0,0 +1,390 @@
+'use client'
+
+import { Fragment, useState, useEffect } from 'react'
+import { motion } from 'framer-motion'
+import { Loader2, Download, ChevronDown, ChevronRight } from 'lucide-react'
+import { format } from 'date-fns'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table"
+import { Badge } from "@/components/ui/badge"
+import { fetchAllPatients } from '@/lib/patient-options'
+import { usePageSize } from '@/context/UserSettingsContext'
+
+interface AuditEvent {
+  id: string
+  action: 'VIEW' | 'CREATE' | 'UPDATE' | 'DELETE'
+  entityType: string
+  entityId: string | null
+  patientId: string | null
+  summary: string | null
+  changes: Record<string, { before: unknown; after: unknown }> | null
+  details: Record<string, unknown> | null
+  userName: string | null
+  userRole: string | null
+  ipAddress: string | null
+  createdAt: string
+}
+
+interface AuditPage {
+  events: AuditEvent[]
+  total: number
+  page: number
+  limit: number
+}
+
+interface Option {
+  id: string
+  name: string
+}
+
+const actions = ['VIEW', 'CREATE', 'UPDATE', 'DELETE'] as const
+const entityTypes = ['Patient', 'Procedure', 'Case', 'Attorney'] as const
+
+const emptyFilters = {
+  userId: '',
+  patientId: '',
+  entityType: '',
+  action: '',
+  startDate: '',
+  endDate: '',
+}
+
+const selectClassName =
+  'mt-1 block w-full rounded-md border border-gray-300 bg-white px-3 py-2 text-sm shadow-sm focus:border-indigo-500 focus:outline-none focus:ring-1 focus:ring-indigo-500'
+
+function toQuery(filters: typeof emptyFilters) {
+  const params = new URLSearchParams()
+  Object.entries(filters).forEach(([key, value]) => {
+    if (value) params.set(key, value)
+  })
+  return params
+}
+
+function formatValue(value: unknown) {
+  if (value === null || value === undefined || value === '') return '—'
+  return typeof value === 'string' ? value : JSON.stringify(value)
+}
+
+export default function AuditLogPage() {
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+  const [data, setData] = useState<AuditPage | null>(null)
+  const [filters, setFilters] = useState(emptyFilters)
+  const [page, setPage] = useState(1)
+  const [expanded, setExpanded] = useState<string | null>(null)
+  const [users, setUsers] = useState<Option[]>([])
+  const [patients, setPatients] = useState<Option[]>([])
+  const pageSize = usePageSize('auditLog')
+
+  useEffect(() => {
+    fetchOptions()
+  }, [])
+
+  useEffect(() => {
+    if (pageSize === null) return
+    fetchEvents(filters, page, pageSize)
+  }, [filters, page, pageSize])
+
+  const fetchEvents = async (current: typeof emptyFilters, currentPage: number, limit: number) => {
+    try {
+      const params = toQuery(current)
+      params.set('page', String(currentPage))
+      params.set('limit', String(limit))
+
+      const response = await fetch(`/api/events?${params}`)
+      if (!response.ok) {
+        throw new Error('Failed to fetch audit log')
+      }
+      setData(await response.json())
+      setError(null)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'An error occurred')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const fetchOptions = async () => {
+    try {
+      const [usersRes, patients] = await Promise.all([
+        fetch('/api/users'),
+        fetchAllPatients(),
+      ])
+
+      if (usersRes.ok) {
+        const data: { id: string; name: string | null; email: string }[] = await usersRes.json()
+        setUsers(data.map((user) => ({ id: user.id, name: user.name || user.email })))
+      }
+      setPatients(patients.map((patient) => ({ id: patient.id, name: `${patient.lastName}, ${patient.firstName}` })))
+    } catch (err) {
+      console.error('Error fetching audit log options:', err)
+    }
+  }
+
+  const updateFilter = (key: keyof typeof emptyFilters, value: string) => {
+    setFilters({ ...filters, [key]: value })
+    setPage(1)
+  }
+
+  const getActionColor = (action: AuditEvent['action']) => {
+    switch (action) {
+      case 'CREATE':
+        return 'bg-green-500'
+      case 'UPDATE':
+        return 'bg-blue-500'
+      case 'DELETE':
+        return 'bg-red-500'
+      default:
+        return 'bg-gray-500'
+    }
+  }
+
+  const totalPages = data ? Math.max(Math.ceil(data.total / data.limit), 1) : 1
+
+  if (loading) {
+    return (
+      <div className="min-h-screen bg-gradient-to-br from-gray-50 to-gray-100 flex justify-center items-center">
+        <motion.div
+          animate={{ rotate: 360 }}
+          transition={{ duration: 1, repeat: Infinity, ease: "linear" }}
+          className="h-16 w-16"
+        >
+          <Loader2 className="h-16 w-16 text-indigo-600" />
+        </motion.div>
+      </div>
+    )
+  }
+
+  return (
+    <motion.div
+      initial={{ opacity: 0 }}
+      animate={{ opacity: 1 }}
+      transition={{ duration: 0.5 }}
+      className="min-h-screen bg-gradient-to-br from-gray-50 to-gray-100 py-12"
+    >
+      <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
+        <motion.div
+          initial={{ opacity: 0, y: 20 }}
+          animate={{ opacity: 1, y: 0 }}
+          transition={{ duration: 0.5, delay: 0.2 }}
+          className="bg-white rounded-2xl shadow-xl overflow-hidden"
+        >
+          <div className="px-8 py-6 bg-gradient-to-r from-indigo-600 to-indigo-700">
+            <div className="flex flex-col sm:flex-row justify-between items-start sm:items-center gap-4">
+              <h1 className="text-2xl font-bold text-white">Audit Log</h1>
+              <a
+                href={`/api/events/export?${toQuery(filters)}`}
+                className="inline-flex items-center px-4 py-2 bg-white/10 text-white border border-white/20 rounded-lg hover:bg-white/20 transition-colors"
+              >
+                <Download className="h-4 w-4 mr-2" />
+                Export CSV
+              </a>
+            </div>
+          </div>
+
+          <div className="px-8 py-6 space-y-6">
+            {error && (
+              <div className="bg-red-50 border-l-4 border-red-500 p-4 rounded-lg">
+                <p className="text-sm font-medium text-red-800">{error}</p>
+              </div>
+            )}
+
+            <div className="grid grid-cols-1 gap-4 md:grid-cols-3 lg:grid-cols-6">
+              <div>
+                <Label htmlFor="audit-user">User</Label>
+                <select
+                  id="audit-user"
+                  value={filters.userId}
+                  onChange={(e) => updateFilter('userId', e.target.value)}
+                  className={selectClassName}
+                >
+                  <option value="">All users</option>
+                  {users.map((user) => (
+                    <option key={user.id} value={user.id}>{user.name}</option>
+                  ))}
+                </select>
+              </div>
+              <div>
+                <Label htmlFor="audit-patient">Patient</Label>
+                <select
+                  id="audit-patient"
+                  value={filters.patientId}
+                  onChange={(e) => updateFilter('patientId', e.target.value)}
+                  className={selectClassName}
+                >
+                  <option value="">All patients</option>
+                  {patients.map((patient) => (
+                    <option key={patient.id} value={patient.id}>{patient.name}</option>
+                  ))}
+                </select>
+              </div>
+              <div>
+                <Label htmlFor="audit-entity">Record Type</Label>
+                <select
+                  id="audit-entity"
+                  value={filters.entityType}
+                  onChange={(e) => updateFilter('entityType', e.target.value)}
+                  className={selectClassName}
+                >
+                  <option value="">All records</option>
+                  {entityTypes.map((entityType) => (
+                    <option key={entityType} value={entityType}>{entityType}</option>
+                  ))}
+                </select>
+              </div>
+              <div>
+                <Label htmlFor="audit-action">Action</Label>
+                <select
+                  id="audit-action"
+                  value={filters.action}
+                  onChange={(e) => updateFilter('action', e.target.value)}
+                  className={selectClassName}
+                >
+                  <option value="">All actions</option>
+                  {actions.map((action) => (
+                    <option key={action} value={action}>{action}</option>
+                  ))}
+                </select>
+              </div>
+              <div>
+                <Label htmlFor="audit-start">From</Label>
+                <Input
+                  id="audit-start"
+                  type="date"
+                  value={filters.startDate}
+                  onChange={(e) => updateFilter('startDate', e.target.value)}
+                  className="mt-1"
+                />
+              </div>
+              <div>
+                <Label htmlFor="audit-end">To</Label>
+                <Input
+                  id="audit-end"
+                  type="date"
+                  value={filters.endDate}
+                  onChange={(e) => updateFilter('endDate', e.target.value)}
+                  className="mt-1"
+                />
+              </div>
+            </div>
+
+            <div className="rounded-lg border border-gray-200">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead className="w-8" />
+                    <TableHead>Time</TableHead>
+                    <TableHead>User</TableHead>
+                    <TableHead>Action</TableHead>
+                    <TableHead>Record</TableHead>
+                    <TableHead>Summary</TableHead>
+                    <TableHead>IP Address</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {data?.events.length === 0 && (
+                    <TableRow>
+                      <TableCell colSpan={7} className="text-center text-gray-500 py-8">
+                        No audit events match these filters
+                      </TableCell>
+                    </TableRow>
+                  )}
+                  {data?.events.map((event) => {
+                    const hasDetails = Boolean(event.changes || event.details)
+                    const isExpanded = expanded === event.id
+
+                    return (
+                      <Fragment key={event.id}>
+                        <TableRow
+                          className={hasDetails ? 'cursor-pointer' : undefined}
+                          onClick={() => hasDetails && setExpanded(isExpanded ? null : event.id)}
+                        >
+                          <TableCell>
+                            {hasDetails && (isExpanded
+                              ? <ChevronDown className="h-4 w-4 text-gray-500" />
+                              : <ChevronRight className="h-4 w-4 text-gray-500" />)}
+                          </TableCell>
+                          <TableCell className="whitespace-nowrap">
+                            {format(new Date(event.createdAt), 'MM/dd/yyyy HH:mm:ss')}
+                          </TableCell>
+                          <TableCell>
+                            <div>{event.userName || 'System'}</div>
+                            {event.userRole && <div className="text-xs text-gray-500">{event.userRole}</div>}
+                          </TableCell>
+                          <TableCell>
+                            <Badge className={getActionColor(event.action)}>{event.action}</Badge>
+                          </TableCell>
+                          <TableCell>
+                            <div>{event.entityType}</div>
+                            {event.entityId && <div className="text-xs text-gray-500">{event.entityId}</div>}
+                          </TableCell>
+                          <TableCell>{event.summary || '—'}</TableCell>
+                          <TableCell className="text-gray-500">{event.ipAddress || '—'}</TableCell>
+                        </TableRow>
+                        {isExpanded && (
+                          <TableRow className="bg-gray-50">
+                            <TableCell />
+                            <TableCell colSpan={6}>
+                              {event.changes && (
+                                <table className="w-full text-sm">
+                                  <thead>
+                                    <tr className="text-left text-gray-500">
+                                      <th className="py-1 pr-4 font-medium">Field</th>
+                                      <th className="py-1 pr-4 font-medium">Before</th>
+                                      <th className="py-1 font-medium">After</th>
+                                    </tr>
+                                  </thead>
+                                  <tbody>
+                                    {Object.entries(event.changes).map(([field, change]) => (
+                                      <tr key={field} className="align-top">
+                                        <td className="py-1 pr-4 font-medium text-gray-700">{field}</td>
+                                        <td className="py-1 pr-4 text-red-700 break-all">{formatValue(change.before)}</td>
+                                        <td className="py-1 text-green-700 break-all">{formatValue(change.after)}</td>
+                                      </tr>
+                                    ))}
+                                  </tbody>
+                                </table>
+                              )}
+                              {event.details && (
+                                <pre className="mt-2 whitespace-pre-wrap break-all text-xs text-gray-600">
+                                  {JSON.stringify(event.details, null, 2)}
+                                </pre>
+                              )}
+                            </TableCell>
+                          </TableRow>
+                        )}
+                      </Fragment>
+                    )
+                  })}
+                </TableBody>
+              </Table>
+            </div>
+
+            <div className="flex items-center justify-between text-sm text-gray-600">
+              <span>{data?.total ?? 0} events</span>
+              <div className="flex items-center gap-2">
+                <Button variant="outline" size="sm" disabled={page <= 1} onClick={() => setPage(page - 1)}>
+                  Previous
+                </Button>
+                <span>Page {page} of {totalPages}</span>
+                <Button variant="outline" size="sm" disabled={page >= totalPages} onClick={() => setPage(page + 1)}>
+                  Next
+                </Button>
+              </div>
+            </div>
+          </div>
+        </motion.div>
+      </div>
+    </motion.div>
+  )
+}
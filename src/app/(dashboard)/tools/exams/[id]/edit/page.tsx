@@ -93,6 +93,9 @@ interface Exam {
   category: string
   subExams: SubExam[]
   status: string
+  modality: string
+  durationMinutes: number | string
+  prepInstructions: string
 }
 
 export default function EditExamPage({ params }: { params: Promise<{ id: string }> }) {
@@ -105,7 +108,10 @@ export default function EditExamPage({ params }: { params: Promise<{ id: string
     name: '',
     category: 'Injection',
     subExams: [],
-    status: 'active'
+    status: 'active',
+    modality: '',
+    durationMinutes: '',
+    prepInstructions: ''
   })
 
   useEffect(() => {
@@ -118,7 +124,10 @@ export default function EditExamPage({ params }: { params: Promise<{ id: string
         const data = await response.json()
         setFormData({
           ...data,
-          subExams: data.subExams || []
+          subExams: data.subExams || [],
+          modality: data.modality || '',
+          durationMinutes: data.durationMinutes ?? '',
+          prepInstructions: data.prepInstructions || ''
         })
       } catch (err) {
         setError('Failed to load exam data')
@@ -129,7 +138,7 @@ export default function EditExamPage({ params }: { params: Promise<{ id: string
     fetchExam()
   }, [resolvedParams.id])
 
-  const handleChange = (e: React.ChangeEvent<HTMLInputElement | HTMLSelectElement>, index?: number) => {
+  const handleChange = (e: React.ChangeEvent<HTMLInputElement | HTMLSelectElement | HTMLTextAreaElement>, index?: number) => {
     const { name, value } = e.target
     
     if (index !== undefined) {
@@ -234,6 +243,59 @@ export default function EditExamPage({ params }: { params: Promise<{ id: string
               <option value="Procedure">Procedure</option>
             </select>
           </div>
+
+          <div>
+            <label htmlFor="modality" className="block text-sm font-medium text-gray-700 dark:text-gray-300">
+              Modality
+            </label>
+            <select
+              id="modality"
+              name="modality"
+              value={formData.modality}
+              onChange={handleChange}
+              className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 dark:bg-gray-700 dark:border-gray-600 dark:text-white sm:text-sm"
+            >
+              <option value="">Any resource</option>
+              <option value="MRI">MRI</option>
+              <option value="CT">CT</option>
+              <option value="XRAY">X-Ray</option>
+              <option value="ULTRASOUND">Ultrasound</option>
+              <option value="FLUOROSCOPY">Fluoroscopy</option>
+              <option value="OTHER">Other</option>
+            </select>
+          </div>
+
+          <div>
+            <label htmlFor="durationMinutes" className="block text-sm font-medium text-gray-700 dark:text-gray-300">
+              Duration (minutes)
+            </label>
+            <input
+              type="number"
+              id="durationMinutes"
+              name="durationMinutes"
+              value={formData.durationMinutes}
+              onChange={handleChange}
+              min="5"
+              step="5"
+              placeholder="30"
+              className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 dark:bg-gray-700 dark:border-gray-600 dark:text-white sm:text-sm"
+            />
+          </div>
+        </div>
+
+        <div>
+          <label htmlFor="prepInstructions" className="block text-sm font-medium text-gray-700 dark:text-gray-300">
+            Prep Instructions
+          </label>
+          <textarea
+            id="prepInstructions"
+            name="prepInstructions"
+            value={formData.prepInstructions}
+            onChange={handleChange}
+            rows={3}
+            placeholder="Shown to the patient in the patient portal, e.g. no food after midnight"
+            className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 dark:bg-gray-700 dark:border-gray-600 dark:text-white sm:text-sm"
+          />
         </div>
 
         <div className="space-y-4">
@@ -86,10 +86,13 @@ export default function AddExamPage() {
   const [formData, setFormData] = useState({
     name: '',
     category: 'Injection',
+    modality: '',
+    durationMinutes: '',
+    prepInstructions: '',
     subExams: [{ name: '', price: '' }]
   })
 
-  const handleChange = (e: React.ChangeEvent<HTMLInputElement | HTMLSelectElement>, index?: number) => {
+  const handleChange = (e: React.ChangeEvent<HTMLInputElement | HTMLSelectElement | HTMLTextAreaElement>, index?: number) => {
     const { name, value } = e.target
     
     if (index !== undefined) {
@@ -193,6 +196,59 @@ export default function AddExamPage() {
               <option value="Procedure">Procedure</option>
             </select>
           </div>
+
+          <div>
+            <label htmlFor="modality" className="block text-sm font-medium text-gray-700 dark:text-gray-300">
+              Modality
+            </label>
+            <select
+              id="modality"
+              name="modality"
+              value={formData.modality}
+              onChange={handleChange}
+              className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 dark:bg-gray-700 dark:border-gray-600 dark:text-white sm:text-sm"
+            >
+              <option value="">Any resource</option>
+              <option value="MRI">MRI</option>
+              <option value="CT">CT</option>
+              <option value="XRAY">X-Ray</option>
+              <option value="ULTRASOUND">Ultrasound</option>
+              <option value="FLUOROSCOPY">Fluoroscopy</option>
+              <option value="OTHER">Other</option>
+            </select>
+          </div>
+
+          <div>
+            <label htmlFor="durationMinutes" className="block text-sm font-medium text-gray-700 dark:text-gray-300">
+              Duration (minutes)
+            </label>
+            <input
+              type="number"
+              id="durationMinutes"
+              name="durationMinutes"
+              value={formData.durationMinutes}
+              onChange={handleChange}
+              min="5"
+              step="5"
+              placeholder="30"
+              className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 dark:bg-gray-700 dark:border-gray-600 dark:text-white sm:text-sm"
+            />
+          </div>
+        </div>
+
+        <div>
+          <label htmlFor="prepInstructions" className="block text-sm font-medium text-gray-700 dark:text-gray-300">
+            Prep Instructions
+          </label>
+          <textarea
+            id="prepInstructions"
+            name="prepInstructions"
+            value={formData.prepInstructions}
+            onChange={handleChange}
+            rows={3}
+            placeholder="Shown to the patient in the patient portal, e.g. no food after midnight"
+            className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 dark:bg-gray-700 dark:border-gray-600 dark:text-white sm:text-sm"
+          />
         </div>
 
         <div className="space-y-4">
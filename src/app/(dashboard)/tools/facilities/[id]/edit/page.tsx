@@ -4,7 +4,8 @@ import { useState, useEffect, use } from 'react'
 import { useRouter } from 'next/navigation'
 import { motion, AnimatePresence } from 'framer-motion'
 import { getCityStateFromZip } from '@/lib/zipcode'
-import { Loader2, MapPin, Phone, Mail, Building2, Save, X } from 'lucide-react'
+import { CityOptions, StateOptions } from '@/components/address/PlaceOptions'
+import { Loader2, MapPin, Phone, Mail, Building2, Save, X, Clock, Plus, Trash2 } from 'lucide-react'
 
 interface Facility {
   id: string
@@ -20,6 +21,34 @@ interface Facility {
   status: string
 }
 
+interface FacilityResource {
+  id: string
+  name: string
+  modality: string
+  isActive: boolean
+}
+
+interface DayHours {
+  isOpen: boolean
+  open: string
+  close: string
+}
+
+const DAYS = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday']
+
+const MODALITY_OPTIONS = [
+  { value: 'MRI', label: 'MRI' },
+  { value: 'CT', label: 'CT' },
+  { value: 'XRAY', label: 'X-Ray' },
+  { value: 'ULTRASOUND', label: 'Ultrasound' },
+  { value: 'FLUOROSCOPY', label: 'Fluoroscopy' },
+  { value: 'OTHER', label: 'Other' },
+]
+
+// Matches the weekday 8–5 default used when a facility has no hours saved
+const defaultHours = (): DayHours[] =>
+  DAYS.map((_, day) => ({ isOpen: day >= 1 && day <= 5, open: '08:00', close: '17:00' }))
+
 interface FacilityFormData {
   name: string
   address: string
@@ -49,6 +78,10 @@ export default function EditFacilityPage({ params }: { params: Promise<{ id: str
     email: '',
     mapLink: '',
   })
+  const [hours, setHours] = useState<DayHours[]>(defaultHours)
+  const [resources, setResources] = useState<FacilityResource[]>([])
+  const [newResource, setNewResource] = useState({ name: '', modality: 'MRI' })
+  const [addingResource, setAddingResource] = useState(false)
 
   useEffect(() => {
     fetchFacility()
@@ -86,6 +119,15 @@ export default function EditFacilityPage({ params }: { params: Promise<{ id: str
         email: facility.email || '',
         mapLink: facility.mapLink || '',
       })
+      if (facility.operatingHours?.length) {
+        setHours(DAYS.map((_, day) => {
+          const entry = facility.operatingHours.find((item: { dayOfWeek: number }) => item.dayOfWeek === day)
+          return entry
+            ? { isOpen: true, open: entry.open, close: entry.close }
+            : { isOpen: false, open: '08:00', close: '17:00' }
+        }))
+      }
+      setResources(facility.resources || [])
     } catch (error) {
       setError('Failed to fetch facility')
       console.error('Error:', error)
@@ -126,6 +168,61 @@ export default function EditFacilityPage({ params }: { params: Promise<{ id: str
     }
   }
 
+  const updateHours = (day: number, changes: Partial<DayHours>) => {
+    setHours(prev => prev.map((entry, index) => index === day ? { ...entry, ...changes } : entry))
+  }
+
+  const fetchResources = async () => {
+    const response = await fetch(`/api/facilities/${resolvedParams.id}/resources`)
+    if (response.ok) {
+      setResources(await response.json())
+    }
+  }
+
+  const handleAddResource = async () => {
+    if (!newResource.name.trim()) return
+    setAddingResource(true)
+    setError('')
+
+    try {
+      const response = await fetch(`/api/facilities/${resolvedParams.id}/resources`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify(newResource),
+      })
+      if (!response.ok) {
+        const data = await response.json()
+        throw new Error(data.error || 'Failed to add resource')
+      }
+
+      setNewResource(prev => ({ ...prev, name: '' }))
+      await fetchResources()
+    } catch (error) {
+      setError(error instanceof Error ? error.message : 'Failed to add resource')
+    } finally {
+      setAddingResource(false)
+    }
+  }
+
+  const handleRemoveResource = async (resourceId: string) => {
+    setError('')
+
+    try {
+      const response = await fetch(`/api/facilities/${resolvedParams.id}/resources/${resourceId}`, {
+        method: 'DELETE',
+      })
+      if (!response.ok) {
+        throw new Error('Failed to remove resource')
+      }
+
+      await fetchResources()
+    } catch (error) {
+      setError(error instanceof Error ? error.message : 'Failed to remove resource')
+    }
+  }
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault()
     setSaving(true)
@@ -152,16 +249,22 @@ export default function EditFacilityPage({ params }: { params: Promise<{ id: str
         headers: {
           'Content-Type': 'application/json',
         },
-        body: JSON.stringify(formData),
+        body: JSON.stringify({
+          ...formData,
+          operatingHours: hours.flatMap((entry, dayOfWeek) =>
+            entry.isOpen ? [{ dayOfWeek, open: entry.open, close: entry.close }] : []
+          ),
+        }),
       })
 
       if (!response.ok) {
-        throw new Error('Failed to update facility')
+        const data = await response.json().catch(() => ({}))
+        throw new Error(data.error || 'Failed to update facility')
       }
 
       router.push('/tools/facilities')
     } catch (error) {
-      setError('Failed to update facility')
+      setError(error instanceof Error ? error.message : 'Failed to update facility')
       console.error('Error:', error)
     } finally {
       setSaving(false)
@@ -272,12 +375,13 @@ export default function EditFacilityPage({ params }: { params: Promise<{ id: str
                       type="text"
                       id="city"
                       name="city"
+                      list="city-options"
                       required
                       value={formData.city}
                       onChange={handleChange}
-                      readOnly
-                      className="mt-1 block w-full rounded-lg border-gray-300 bg-gray-50 shadow-sm focus:border-blue-500 focus:ring-blue-500 transition-colors duration-200"
+                      className="mt-1 block w-full rounded-lg border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 transition-colors duration-200"
                     />
+                    <CityOptions id="city-options" city={formData.city} state={formData.state} />
                   </div>
                   <div>
                     <label htmlFor="state" className="block text-sm font-medium text-gray-700">
@@ -287,12 +391,13 @@ export default function EditFacilityPage({ params }: { params: Promise<{ id: str
                       type="text"
                       id="state"
                       name="state"
+                      list="state-options"
                       required
                       value={formData.state}
                       onChange={handleChange}
-                      readOnly
-                      className="mt-1 block w-full rounded-lg border-gray-300 bg-gray-50 shadow-sm focus:border-blue-500 focus:ring-blue-500 transition-colors duration-200"
+                      className="mt-1 block w-full rounded-lg border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 transition-colors duration-200"
                     />
+                    <StateOptions id="state-options" />
                   </div>
                 </div>
                 <div className="grid grid-cols-2 gap-4">
@@ -403,6 +508,107 @@ export default function EditFacilityPage({ params }: { params: Promise<{ id: str
                     Enter a Google Maps or other mapping service URL for this facility
                   </p>
                 </div>
+
+                <div>
+                  <h2 className="text-sm font-medium text-gray-700 flex items-center">
+                    <Clock className="h-4 w-4 mr-1" />
+                    Operating Hours
+                  </h2>
+                  <div className="mt-2 space-y-2">
+                    {DAYS.map((dayName, day) => (
+                      <div key={dayName} className="grid grid-cols-[8rem_1fr_1fr] items-center gap-4">
+                        <label className="flex items-center gap-2 text-sm text-gray-700">
+                          <input
+                            type="checkbox"
+                            checked={hours[day].isOpen}
+                            onChange={(e) => updateHours(day, { isOpen: e.target.checked })}
+                            className="rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+                          />
+                          {dayName}
+                        </label>
+                        <input
+                          type="time"
+                          aria-label={`${dayName} opening time`}
+                          value={hours[day].open}
+                          disabled={!hours[day].isOpen}
+                          onChange={(e) => updateHours(day, { open: e.target.value })}
+                          className="block w-full rounded-lg border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 disabled:bg-gray-50 disabled:text-gray-400"
+                        />
+                        <input
+                          type="time"
+                          aria-label={`${dayName} closing time`}
+                          value={hours[day].close}
+                          disabled={!hours[day].isOpen}
+                          onChange={(e) => updateHours(day, { close: e.target.value })}
+                          className="block w-full rounded-lg border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 disabled:bg-gray-50 disabled:text-gray-400"
+                        />
+                      </div>
+                    ))}
+                  </div>
+                </div>
+
+                <div>
+                  <h2 className="text-sm font-medium text-gray-700">Rooms &amp; Machines</h2>
+                  <p className="mt-1 text-sm text-gray-500">
+                    Each resource takes one booking at a time. Exams are booked on a resource of the same modality.
+                  </p>
+                  <ul className="mt-2 divide-y divide-gray-200 rounded-lg border border-gray-200">
+                    {resources.length === 0 && (
+                      <li className="px-4 py-3 text-sm text-gray-500">
+                        No resources yet; the facility takes one booking at a time.
+                      </li>
+                    )}
+                    {resources.map((resource) => (
+                      <li key={resource.id} className="flex items-center justify-between px-4 py-3 text-sm">
+                        <span className={resource.isActive ? 'text-gray-900' : 'text-gray-400 line-through'}>
+                          {resource.name}
+                          <span className="ml-2 text-gray-500">
+                            {MODALITY_OPTIONS.find((option) => option.value === resource.modality)?.label ?? resource.modality}
+                          </span>
+                        </span>
+                        {resource.isActive && (
+                          <button
+                            type="button"
+                            onClick={() => handleRemoveResource(resource.id)}
+                            className="text-red-600 hover:text-red-800"
+                            aria-label={`Remove ${resource.name}`}
+                          >
+                            <Trash2 className="h-4 w-4" />
+                          </button>
+                        )}
+                      </li>
+                    ))}
+                  </ul>
+                  <div className="mt-2 grid grid-cols-[1fr_10rem_auto] gap-2">
+                    <input
+                      type="text"
+                      aria-label="Resource name"
+                      placeholder="e.g. MRI Suite 1"
+                      value={newResource.name}
+                      onChange={(e) => setNewResource(prev => ({ ...prev, name: e.target.value }))}
+                      className="block w-full rounded-lg border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500"
+                    />
+                    <select
+                      aria-label="Resource modality"
+                      value={newResource.modality}
+                      onChange={(e) => setNewResource(prev => ({ ...prev, modality: e.target.value }))}
+                      className="block w-full rounded-lg border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500"
+                    >
+                      {MODALITY_OPTIONS.map((option) => (
+                        <option key={option.value} value={option.value}>{option.label}</option>
+                      ))}
+                    </select>
+                    <button
+                      type="button"
+                      onClick={handleAddResource}
+                      disabled={addingResource || !newResource.name.trim()}
+                      className="px-3 py-2 text-sm font-medium text-white bg-blue-600 rounded-lg hover:bg-blue-700 disabled:opacity-50 flex items-center"
+                    >
+                      {addingResource ? <Loader2 className="h-4 w-4 animate-spin" /> : <Plus className="h-4 w-4 mr-1" />}
+                      Add
+                    </button>
+                  </div>
+                </div>
               </motion.div>
 
               <div className="flex justify-end space-x-4 pt-4">
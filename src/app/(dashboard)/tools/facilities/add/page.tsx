@@ -4,6 +4,7 @@ import { useState } from 'react'
 import { useRouter } from 'next/navigation'
 import { motion, AnimatePresence } from 'framer-motion'
 import { getCityStateFromZip } from '@/lib/zipcode'
+import { CityOptions, StateOptions } from '@/components/address/PlaceOptions'
 import { Loader2, MapPin, Phone, Mail, Building2 } from 'lucide-react'
 
 interface FacilityFormData {
@@ -213,11 +214,13 @@ export default function AddFacilityPage() {
                       type="text"
                       id="city"
                       name="city"
+                      list="city-options"
                       value={formData.city}
                       onChange={handleChange}
                       required
                       className="mt-1 block w-full rounded-lg border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 transition-colors duration-200"
                     />
+                    <CityOptions id="city-options" city={formData.city} state={formData.state} />
                   </div>
 
                   <div>
@@ -228,11 +231,13 @@ export default function AddFacilityPage() {
                       type="text"
                       id="state"
                       name="state"
+                      list="state-options"
                       value={formData.state}
                       onChange={handleChange}
                       required
                       className="mt-1 block w-full rounded-lg border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 transition-colors duration-200"
                     />
+                    <StateOptions id="state-options" />
                   </div>
 
                   <div>
@@ -0,0 +1,269 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { useSearchParams } from 'next/navigation'
+import Link from 'next/link'
+import { format } from 'date-fns'
+import { Loader2, ArrowRight } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { Badge } from '@/components/ui/badge'
+import { useToast } from '@/components/ui/use-toast'
+import { fetchAllPatients, type PatientOption } from '@/lib/patient-options'
+
+interface PossibleDuplicate {
+  id: string
+  firstName: string
+  lastName: string
+  dateOfBirth: string
+  phone: string
+  score: number
+  reasons: string[]
+}
+
+interface PatientDetail {
+  id: string
+  firstName: string
+  lastName: string
+  dateOfBirth: string
+  phone: string
+  email: string | null
+  address: string | null
+  city: string | null
+  zip: string | null
+  status: { name: string } | null
+  procedures: unknown[]
+  lops: unknown[]
+}
+
+const selectClassName =
+  'mt-1 block w-full rounded-md border border-gray-300 bg-white px-3 py-2 text-sm shadow-sm focus:border-indigo-500 focus:outline-none focus:ring-1 focus:ring-indigo-500'
+
+const formatDate = (value: string) => format(new Date(value), 'MM/dd/yyyy')
+
+function PatientCard({ title, patient }: { title: string; patient: PatientDetail | null }) {
+  return (
+    <div className="border rounded-lg p-4 space-y-1 text-sm">
+      <h3 className="font-semibold text-gray-900">{title}</h3>
+      {patient ? (
+        <>
+          <p className="text-gray-900">
+            <Link href={`/patients/${patient.id}`} className="text-indigo-600 hover:text-indigo-800">
+              {patient.firstName} {patient.lastName}
+            </Link>
+          </p>
+          <p className="text-gray-600">Born {formatDate(patient.dateOfBirth)}</p>
+          <p className="text-gray-600">{patient.phone || 'No phone'}</p>
+          <p className="text-gray-600">{patient.email || 'No email'}</p>
+          <p className="text-gray-600">
+            {[patient.address, patient.city, patient.zip].filter(Boolean).join(', ') || 'No address'}
+          </p>
+          <p className="text-gray-600">Status: {patient.status?.name ?? '—'}</p>
+          <p className="text-gray-600">
+            {patient.procedures.length} procedure{patient.procedures.length === 1 ? '' : 's'}, {patient.lops.length} LOP{patient.lops.length === 1 ? '' : 's'}
+          </p>
+        </>
+      ) : (
+        <p className="text-gray-500">Not selected</p>
+      )}
+    </div>
+  )
+}
+
+export default function MergePatientsPage() {
+  const searchParams = useSearchParams()
+  const { toast } = useToast()
+  const [patients, setPatients] = useState<PatientOption[]>([])
+  const [survivorId, setSurvivorId] = useState(searchParams.get('survivorId') ?? '')
+  const [duplicateId, setDuplicateId] = useState('')
+  const [suggestions, setSuggestions] = useState<PossibleDuplicate[]>([])
+  const [survivor, setSurvivor] = useState<PatientDetail | null>(null)
+  const [duplicate, setDuplicate] = useState<PatientDetail | null>(null)
+  const [loading, setLoading] = useState(true)
+  const [merging, setMerging] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    fetchAllPatients()
+      .then(setPatients)
+      .catch((err) => setError(err instanceof Error ? err.message : 'Failed to fetch patients'))
+      .finally(() => setLoading(false))
+  }, [])
+
+  useEffect(() => {
+    setSuggestions([])
+    setSurvivor(null)
+    if (!survivorId) return
+
+    const load = async () => {
+      const [patientRes, duplicatesRes] = await Promise.all([
+        fetch(`/api/patients/${survivorId}`),
+        fetch(`/api/patients/${survivorId}/duplicates`),
+      ])
+      if (patientRes.ok) setSurvivor(await patientRes.json())
+      if (duplicatesRes.ok) setSuggestions(await duplicatesRes.json())
+    }
+
+    load().catch((err) => console.error('Error loading patient:', err))
+  }, [survivorId])
+
+  useEffect(() => {
+    setDuplicate(null)
+    if (!duplicateId) return
+
+    fetch(`/api/patients/${duplicateId}`)
+      .then((response) => (response.ok ? response.json() : null))
+      .then(setDuplicate)
+      .catch((err) => console.error('Error loading patient:', err))
+  }, [duplicateId])
+
+  const merge = async () => {
+    if (!survivor || !duplicate) return
+    if (!window.confirm(
+      `Move everything recorded for ${duplicate.firstName} ${duplicate.lastName} to ${survivor.firstName} ${survivor.lastName} and delete the duplicate? This cannot be undone.`
+    )) {
+      return
+    }
+
+    setMerging(true)
+    setError(null)
+    try {
+      const response = await fetch('/api/patients/merge', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ survivorId, duplicateId }),
+      })
+      const data = await response.json()
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to merge patients')
+      }
+
+      const moved = Object.entries(data.moved as Record<string, number>)
+        .filter(([, count]) => count > 0)
+        .map(([name, count]) => `${count} ${name}`)
+        .join(', ')
+      toast({
+        title: 'Patients merged',
+        description: moved ? `Moved ${moved}` : 'The duplicate had no records to move',
+      })
+
+      setPatients(prev => prev.filter((patient) => patient.id !== duplicateId))
+      setDuplicateId('')
+      setSuggestions(prev => prev.filter((suggestion) => suggestion.id !== duplicateId))
+      const refreshed = await fetch(`/api/patients/${survivorId}`)
+      if (refreshed.ok) setSurvivor(await refreshed.json())
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to merge patients')
+    } finally {
+      setMerging(false)
+    }
+  }
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center min-h-screen">
+        <Loader2 className="h-8 w-8 animate-spin text-indigo-600" />
+      </div>
+    )
+  }
+
+  return (
+    <div className="container mx-auto px-4 py-8 space-y-6">
+      <div>
+        <h1 className="text-2xl font-bold text-gray-900">Merge Patients</h1>
+        <p className="text-sm text-gray-500">
+          Procedures, appointments, cases, LOPs, billing, tasks and audit history of the duplicate move to the patient you keep.
+          Blank details on the kept patient are filled in from the duplicate.
+        </p>
+      </div>
+
+      {error && (
+        <div className="bg-red-50 border-l-4 border-red-500 p-4 rounded-lg">
+          <p className="text-sm font-medium text-red-800">{error}</p>
+        </div>
+      )}
+
+      <div className="bg-white rounded-lg shadow-lg p-6 space-y-6">
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <div>
+            <label className="block text-sm font-medium text-gray-700">Patient to keep</label>
+            <select
+              value={survivorId}
+              onChange={(e) => {
+                setSurvivorId(e.target.value)
+                setDuplicateId('')
+              }}
+              className={selectClassName}
+            >
+              <option value="">Select a patient</option>
+              {patients.map((patient) => (
+                <option key={patient.id} value={patient.id}>{patient.lastName}, {patient.firstName}</option>
+              ))}
+            </select>
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700">Duplicate to merge in</label>
+            <select
+              value={duplicateId}
+              onChange={(e) => setDuplicateId(e.target.value)}
+              disabled={!survivorId}
+              className={selectClassName}
+            >
+              <option value="">Select a patient</option>
+              {patients.filter((patient) => patient.id !== survivorId).map((patient) => (
+                <option key={patient.id} value={patient.id}>{patient.lastName}, {patient.firstName}</option>
+              ))}
+            </select>
+          </div>
+        </div>
+
+        {survivorId && (
+          <div>
+            <h2 className="text-sm font-semibold text-gray-700 mb-2">Possible duplicates</h2>
+            {suggestions.length === 0 ? (
+              <p className="text-sm text-gray-500">No likely duplicates found for this patient.</p>
+            ) : (
+              <ul className="divide-y border rounded-md">
+                {suggestions.map((suggestion) => (
+                  <li key={suggestion.id} className="flex flex-wrap items-center justify-between gap-2 px-4 py-2 text-sm">
+                    <div>
+                      <span className="font-medium text-gray-900">{suggestion.firstName} {suggestion.lastName}</span>
+                      <span className="text-gray-500"> · born {formatDate(suggestion.dateOfBirth)} · {suggestion.phone}</span>
+                      <div className="mt-1 flex flex-wrap gap-1">
+                        {suggestion.reasons.map((reason) => (
+                          <Badge key={reason} variant="secondary">{reason}</Badge>
+                        ))}
+                      </div>
+                    </div>
+                    <Button
+                      type="button"
+                      variant={duplicateId === suggestion.id ? 'default' : 'outline'}
+                      size="sm"
+                      onClick={() => setDuplicateId(suggestion.id)}
+                    >
+                      Select
+                    </Button>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+        )}
+
+        <div className="grid grid-cols-1 md:grid-cols-[1fr_auto_1fr] gap-4 items-center">
+          <PatientCard title="Duplicate (will be deleted)" patient={duplicate} />
+          <ArrowRight className="h-6 w-6 text-gray-400 mx-auto hidden md:block" />
+          <PatientCard title="Kept" patient={survivor} />
+        </div>
+
+        <div className="flex justify-end">
+          <Button type="button" variant="destructive" onClick={merge} disabled={!survivor || !duplicate || merging}>
+            {merging && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+            Merge Patients
+          </Button>
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -1,415 +0,0 @@
-'use client'
-
-import { useState, useEffect, use } from 'react'
-import { useRouter } from 'next/navigation'
-import { formatPhoneNumber } from '@/utils/formatters'
-import { Physician } from '@/types'
-import { motion, AnimatePresence } from 'framer-motion'
-import { Loader2, Trash2, ArrowLeft } from 'lucide-react'
-
-interface FormData {
-  prefix: string
-  name: string
-  suffix: string
-  phoneNumber: string
-  email: string
-  npiNumber: string
-  isActive: boolean
-}
-
-export default function EditPhysicianPage({ params }: { params: Promise<{ id: string }> }) {
-  const router = useRouter()
-  const resolvedParams = use(params)
-  const [isLoading, setIsLoading] = useState(false)
-  const [error, setError] = useState<string | null>(null)
-  const [formData, setFormData] = useState<FormData>({
-    prefix: '',
-    name: '',
-    suffix: '',
-    phoneNumber: '',
-    email: '',
-    npiNumber: '',
-    isActive: true,
-  })
-
-  useEffect(() => {
-    fetchPhysician()
-  }, [resolvedParams.id])
-
-  const fetchPhysician = async () => {
-    try {
-      const response = await fetch(`/api/physicians?id=${resolvedParams.id}`)
-      if (!response.ok) {
-        throw new Error('Failed to fetch physician')
-      }
-      const data = await response.json()
-      
-      // Check if data is an array and get the first item
-      const physician = Array.isArray(data) ? data[0] : data
-      
-      if (!physician) {
-        throw new Error('Physician not found')
-      }
-
-      setFormData({
-        prefix: physician.prefix || '',
-        name: physician.name || '',
-        suffix: physician.suffix || '',
-        phoneNumber: physician.phoneNumber || '',
-        email: physician.email || '',
-        npiNumber: physician.npiNumber || '',
-        isActive: physician.isActive === false ? false : true,
-      })
-    } catch (err) {
-      setError(err instanceof Error ? err.message : 'An error occurred')
-    } finally {
-      setIsLoading(false)
-    }
-  }
-
-  const handleChange = (e: React.ChangeEvent<HTMLInputElement | HTMLSelectElement>) => {
-    const { name, value, type } = e.target
-
-    if (type === 'checkbox') {
-      const checked = (e.target as HTMLInputElement).checked
-      console.log(`Setting ${name} to:`, checked) // Debug log
-      setFormData(prev => ({
-        ...prev,
-        [name]: checked
-      }))
-      return
-    }
-
-    if (name === 'phoneNumber') {
-      const formattedValue = formatPhoneNumber(value)
-      setFormData(prev => ({
-        ...prev,
-        [name]: formattedValue || ''
-      }))
-      return
-    }
-
-    setFormData(prev => ({
-      ...prev,
-      [name]: value || ''
-    }))
-  }
-
-  const handleSubmit = async (e: React.FormEvent) => {
-    e.preventDefault()
-    setIsLoading(true)
-    setError(null)
-
-    // Validate required fields
-    if (!formData.name.trim()) {
-      setError('Name is required')
-      setIsLoading(false)
-      return
-    }
-
-    if (!formData.email.trim()) {
-      setError('Email is required')
-      setIsLoading(false)
-      return
-    }
-
-    // Validate email format
-    const emailRegex = /^[^\s@]+@[^\s@]+\.[^\s@]+$/
-    if (!emailRegex.test(formData.email)) {
-      setError('Invalid email format')
-      setIsLoading(false)
-      return
-    }
-
-    try {
-      const response = await fetch(`/api/physicians/${resolvedParams.id}`, {
-        method: 'PUT',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({
-          id: resolvedParams.id,
-          ...formData
-        }),
-      })
-
-      if (!response.ok) {
-        const errorData = await response.json()
-        throw new Error(errorData.error || 'Failed to update physician')
-      }
-
-      router.push('/tools/physicians')
-    } catch (err) {
-      setError(err instanceof Error ? err.message : 'An error occurred')
-    } finally {
-      setIsLoading(false)
-    }
-  }
-
-  const handleDelete = async () => {
-    if (!confirm('Are you sure you want to delete this physician?')) {
-      return
-    }
-
-    try {
-      const response = await fetch(`/api/physicians?id=${resolvedParams.id}`, {
-        method: 'DELETE',
-      })
-
-      if (!response.ok) {
-        const errorData = await response.json()
-        throw new Error(errorData.error || 'Failed to delete physician')
-      }
-
-      router.push('/tools/physicians')
-    } catch (err) {
-      setError(err instanceof Error ? err.message : 'An error occurred')
-    }
-  }
-
-  if (isLoading) {
-    return (
-      <motion.div 
-        initial={{ opacity: 0 }}
-        animate={{ opacity: 1 }}
-        className="flex items-center justify-center min-h-screen bg-gradient-to-br from-gray-50 to-gray-100"
-      >
-        <motion.div
-          animate={{ rotate: 360 }}
-          transition={{ duration: 1, repeat: Infinity, ease: "linear" }}
-          className="h-16 w-16 text-indigo-600"
-        >
-          <Loader2 className="h-full w-full" />
-        </motion.div>
-      </motion.div>
-    )
-  }
-
-  return (
-    <motion.div 
-      initial={{ opacity: 0 }}
-      animate={{ opacity: 1 }}
-      className="min-h-screen bg-gradient-to-br from-gray-50 to-gray-100 py-12"
-    >
-      <div className="max-w-4xl mx-auto px-4 sm:px-6 lg:px-8">
-        <motion.div 
-          initial={{ y: 20, opacity: 0 }}
-          animate={{ y: 0, opacity: 1 }}
-          transition={{ duration: 0.5 }}
-          className="bg-white rounded-2xl shadow-xl overflow-hidden"
-        >
-          <motion.div 
-            initial={{ opacity: 0 }}
-            animate={{ opacity: 1 }}
-            className="px-8 py-6 bg-gradient-to-r from-indigo-600 to-indigo-700"
-          >
-            <div className="flex justify-between items-center">
-              <motion.h1 
-                initial={{ x: -20, opacity: 0 }}
-                animate={{ x: 0, opacity: 1 }}
-                className="text-2xl font-bold text-white"
-              >
-                Edit Physician
-              </motion.h1>
-              <motion.button
-                whileHover={{ scale: 1.05 }}
-                whileTap={{ scale: 0.95 }}
-                type="button"
-                onClick={handleDelete}
-                className="inline-flex items-center px-4 py-2 bg-red-500 hover:bg-red-600 text-white text-sm font-medium rounded-lg transition-all duration-200 shadow-sm hover:shadow-md"
-              >
-                <Trash2 className="w-4 h-4 mr-2" />
-                Delete Physician
-              </motion.button>
-            </div>
-          </motion.div>
-
-          <div className="px-8 py-8">
-            <AnimatePresence>
-              {error && (
-                <motion.div 
-                  initial={{ opacity: 0, y: -10 }}
-                  animate={{ opacity: 1, y: 0 }}
-                  exit={{ opacity: 0, y: -10 }}
-                  className="mb-8 bg-red-50 border-l-4 border-red-500 p-4 rounded-lg"
-                >
-                  <div className="flex">
-                    <div className="flex-shrink-0">
-                      <svg className="h-5 w-5 text-red-400" viewBox="0 0 20 20" fill="currentColor">
-                        <path fillRule="evenodd" d="M10 18a8 8 0 100-16 8 8 0 000 16zM8.707 7.293a1 1 0 00-1.414 1.414L8.586 10l-1.293 1.293a1 1 0 101.414 1.414L10 11.414l1.293 1.293a1 1 0 001.414-1.414L11.414 10l1.293-1.293a1 1 0 00-1.414-1.414L10 8.586 8.707 7.293z" clipRule="evenodd" />
-                      </svg>
-                    </div>
-                    <div className="ml-3">
-                      <p className="text-sm text-red-700">{error}</p>
-                    </div>
-                  </div>
-                </motion.div>
-              )}
-            </AnimatePresence>
-
-            <form onSubmit={handleSubmit} className="space-y-6">
-              <motion.div 
-                initial={{ opacity: 0, y: 20 }}
-                animate={{ opacity: 1, y: 0 }}
-                transition={{ delay: 0.1 }}
-                className="grid grid-cols-1 gap-6 sm:grid-cols-2"
-              >
-                <div className="space-y-2">
-                  <label htmlFor="prefix" className="block text-sm font-semibold text-gray-700">
-                    Prefix
-                  </label>
-                  <motion.input
-                    whileFocus={{ scale: 1.02 }}
-                    type="text"
-                    id="prefix"
-                    name="prefix"
-                    value={formData.prefix}
-                    onChange={handleChange}
-                    className="mt-1 block w-full rounded-lg border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm transition-all duration-200"
-                    placeholder="Dr., Mr., etc."
-                  />
-                </div>
-
-                <div className="space-y-2">
-                  <label htmlFor="name" className="block text-sm font-semibold text-gray-700">
-                    Name *
-                  </label>
-                  <motion.input
-                    whileFocus={{ scale: 1.02 }}
-                    type="text"
-                    id="name"
-                    name="name"
-                    required
-                    value={formData.name}
-                    onChange={handleChange}
-                    className="mt-1 block w-full rounded-lg border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm transition-all duration-200"
-                    placeholder="Enter full name"
-                  />
-                </div>
-
-                <div className="space-y-2">
-                  <label htmlFor="suffix" className="block text-sm font-semibold text-gray-700">
-                    Suffix
-                  </label>
-                  <motion.input
-                    whileFocus={{ scale: 1.02 }}
-                    type="text"
-                    id="suffix"
-                    name="suffix"
-                    value={formData.suffix}
-                    onChange={handleChange}
-                    className="mt-1 block w-full rounded-lg border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm transition-all duration-200"
-                    placeholder="NP, FNP, etc."
-                  />
-                </div>
-
-                <div className="space-y-2">
-                  <label htmlFor="phoneNumber" className="block text-sm font-semibold text-gray-700">
-                    Phone Number * (XXX) XXX-XXXX
-                  </label>
-                  <motion.input
-                    whileFocus={{ scale: 1.02 }}
-                    type="tel"
-                    id="phoneNumber"
-                    name="phoneNumber"
-                    required
-                    value={formData.phoneNumber}
-                    onChange={handleChange}
-                    placeholder="(555) 555-5555"
-                    className="mt-1 block w-full rounded-lg border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm transition-all duration-200"
-                  />
-                </div>
-
-                <div className="space-y-2">
-                  <label htmlFor="email" className="block text-sm font-semibold text-gray-700">
-                    Email *
-                  </label>
-                  <motion.input
-                    whileFocus={{ scale: 1.02 }}
-                    type="email"
-                    id="email"
-                    name="email"
-                    required
-                    value={formData.email}
-                    onChange={handleChange}
-                    className="mt-1 block w-full rounded-lg border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm transition-all duration-200"
-                    placeholder="Enter email address"
-                  />
-                </div>
-
-                <div className="space-y-2">
-                  <label htmlFor="npiNumber" className="block text-sm font-semibold text-gray-700">
-                    NPI Number
-                  </label>
-                  <motion.input
-                    whileFocus={{ scale: 1.02 }}
-                    type="text"
-                    id="npiNumber"
-                    name="npiNumber"
-                    value={formData.npiNumber}
-                    onChange={handleChange}
-                    className="mt-1 block w-full rounded-lg border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm transition-all duration-200"
-                    placeholder="Enter NPI number"
-                  />
-                </div>
-              </motion.div>
-
-              <motion.div 
-                initial={{ opacity: 0, y: 20 }}
-                animate={{ opacity: 1, y: 0 }}
-                transition={{ delay: 0.2 }}
-                className="flex items-center space-x-3 bg-gray-50 p-4 rounded-lg"
-              >
-                <input
-                  type="checkbox"
-                  id="isActive"
-                  name="isActive"
-                  checked={formData.isActive}
-                  onChange={handleChange}
-                  className="h-5 w-5 rounded border-gray-300 text-indigo-600 focus:ring-indigo-500 transition-colors duration-200"
-                />
-                <label htmlFor="isActive" className="text-sm font-medium text-gray-700">
-                  Active
-                </label>
-              </motion.div>
-
-              <motion.div 
-                initial={{ opacity: 0, y: 20 }}
-                animate={{ opacity: 1, y: 0 }}
-                transition={{ delay: 0.3 }}
-                className="flex justify-end space-x-4 pt-6 border-t border-gray-200"
-              >
-                <motion.button
-                  whileHover={{ scale: 1.05 }}
-                  whileTap={{ scale: 0.95 }}
-                  type="button"
-                  onClick={() => router.push('/tools/physicians')}
-                  className="inline-flex items-center px-6 py-2.5 border border-gray-300 shadow-sm text-sm font-medium rounded-lg text-gray-700 bg-white hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500 transition-all duration-200 hover:shadow-md"
-                >
-                  <ArrowLeft className="w-4 h-4 mr-2" />
-                  Cancel
-                </motion.button>
-                <motion.button
-                  whileHover={{ scale: 1.05 }}
-                  whileTap={{ scale: 0.95 }}
-                  type="submit"
-                  disabled={isLoading}
-                  className="inline-flex items-center px-6 py-2.5 border border-transparent text-sm font-medium rounded-lg text-white bg-indigo-600 hover:bg-indigo-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500 disabled:opacity-50 transition-all duration-200 hover:shadow-md"
-                >
-                  {isLoading ? (
-                    <>
-                      <Loader2 className="animate-spin -ml-1 mr-3 h-5 w-5 text-white" />
-                      Updating...
-                    </>
-                  ) : (
-                    'Update Physician'
-                  )}
-                </motion.button>
-              </motion.div>
-            </form>
-          </div>
-        </motion.div>
-      </div>
-    </motion.div>
-  )
-} 
\ No newline at end of file
@@ -0,0 +1,72 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import { useRouter } from 'next/navigation'
+import { use } from 'react'
+import { useToast } from '@/components/ui/use-toast'
+import { ProviderForm } from '@/components/providers/ProviderForm'
+import type { ProviderValues } from '@/lib/validations'
+import type { Provider } from '@/types/provider'
+
+export default function EditProviderPage({ params }: { params: Promise<{ id: string }> }) {
+  const resolvedParams = use(params)
+  const router = useRouter()
+  const { toast } = useToast()
+  const [provider, setProvider] = useState<Provider | null>(null)
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState('')
+
+  useEffect(() => {
+    const fetchProvider = async () => {
+      try {
+        const response = await fetch(`/api/providers/${resolvedParams.id}`)
+        if (!response.ok) {
+          throw new Error('Failed to fetch provider')
+        }
+        setProvider(await response.json())
+      } catch (err) {
+        setError('Failed to load provider data')
+        console.error('Error fetching provider:', err)
+      } finally {
+        setLoading(false)
+      }
+    }
+
+    fetchProvider()
+  }, [resolvedParams.id])
+
+  const handleSubmit = async (values: ProviderValues) => {
+    const response = await fetch(`/api/providers/${resolvedParams.id}`, {
+      method: 'PUT',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify(values),
+    })
+    const data = await response.json()
+    if (!response.ok) {
+      throw new Error(data.error || 'Failed to update provider')
+    }
+
+    if (data.invited) {
+      toast({ title: 'Invitation sent', description: `${data.email} can now choose a password.` })
+    }
+    router.push('/tools/providers')
+    router.refresh()
+  }
+
+  if (loading) return <div className="p-4">Loading...</div>
+  if (error) return <div className="p-4 text-red-500">{error}</div>
+  if (!provider) return <div className="p-4">Provider not found</div>
+
+  return (
+    <div className="px-4 sm:px-6 lg:px-8">
+      <h1 className="text-2xl font-semibold text-gray-900">Edit Provider</h1>
+      <ProviderForm
+        provider={provider}
+        onSubmit={handleSubmit}
+        onCancel={() => router.push('/tools/providers')}
+      />
+    </div>
+  )
+}
@@ -0,0 +1,50 @@
+'use client'
+
+import { useRouter, useSearchParams } from 'next/navigation'
+import { useToast } from '@/components/ui/use-toast'
+import { ProviderForm } from '@/components/providers/ProviderForm'
+import { PROVIDER_ROLES, type ProviderRole, type ProviderValues } from '@/lib/validations'
+
+export default function AddProviderPage() {
+  const router = useRouter()
+  const searchParams = useSearchParams()
+  const { toast } = useToast()
+
+  const role = searchParams.get('role')
+  const defaultRole = PROVIDER_ROLES.find((item) => item === role) as ProviderRole | undefined
+
+  const handleSubmit = async (values: ProviderValues) => {
+    const response = await fetch('/api/providers', {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify(values),
+    })
+    const data = await response.json()
+    if (!response.ok) {
+      throw new Error(data.error || 'Failed to create provider')
+    }
+
+    if (data.invited) {
+      toast({ title: 'Invitation sent', description: `${data.email} can now choose a password.` })
+    }
+    router.push('/tools/providers')
+    router.refresh()
+  }
+
+  return (
+    <div className="px-4 sm:px-6 lg:px-8">
+      <div className="sm:flex sm:items-center">
+        <div className="sm:flex-auto">
+          <h1 className="text-2xl font-semibold text-gray-900">Add New Provider</h1>
+          <p className="mt-2 text-sm text-gray-700">
+            Referring doctors, reading physicians and treating providers all live in one directory.
+          </p>
+        </div>
+      </div>
+
+      <ProviderForm defaultRole={defaultRole} onSubmit={handleSubmit} onCancel={() => router.back()} />
+    </div>
+  )
+}
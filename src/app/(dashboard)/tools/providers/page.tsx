@@ -2,58 +2,48 @@
 
 import { useState, useEffect } from 'react'
 import { PlusIcon } from '@heroicons/react/20/solid'
-import { Phone, Mail, MapPin, Edit, ToggleLeft, ToggleRight } from 'lucide-react'
+import { Phone, Mail, MapPin, Edit, Send, ToggleLeft, ToggleRight, UserCheck, UserX } from 'lucide-react'
 import Link from 'next/link'
 import { motion } from 'framer-motion'
 import { Button } from '@/components/ui/button'
+import { useToast } from '@/components/ui/use-toast'
+import { providerLabel } from '@/components/providers/ProviderPicker'
+import { PROVIDER_ROLE_LABELS, PROVIDER_ROLES, type ProviderRole } from '@/lib/validations'
+import type { Provider } from '@/types/provider'
 
-interface Doctor {
-  id: string
-  prefix: string
-  name: string
-  phoneNumber: string
-  faxNumber: string
-  email: string
-  clinicName: string
-  address: string
-  mapLink: string
-  status: 'Active' | 'Inactive'
-  hasLogin: boolean
-}
-
-export default function DoctorsPage() {
-  const [doctors, setDoctors] = useState<Doctor[]>([])
+export default function ProvidersPage() {
+  const { toast } = useToast()
+  const [providers, setProviders] = useState<Provider[]>([])
+  const [roleFilter, setRoleFilter] = useState<ProviderRole | ''>('')
   const [loading, setLoading] = useState(true)
 
   useEffect(() => {
-    // Fetch doctors data
-    const fetchDoctors = async () => {
+    const fetchProviders = async () => {
       try {
-        const response = await fetch('/api/doctors')
+        const query = new URLSearchParams({ includeInactive: 'true' })
+        if (roleFilter) query.set('role', roleFilter)
+
+        const response = await fetch(`/api/providers?${query}`)
         const data = await response.json()
         
         if (!response.ok) {
-          throw new Error(data.error || 'Failed to fetch doctors')
-        }
-
-        if (!data.success) {
-          throw new Error(data.error || 'Failed to fetch doctors')
+          throw new Error(data.error || 'Failed to fetch providers')
         }
 
-        setDoctors(data.data || [])
+        setProviders(data)
       } catch (error) {
-        console.error('Error fetching doctors:', error)
+        console.error('Error fetching providers:', error)
       } finally {
         setLoading(false)
       }
     }
 
-    fetchDoctors()
-  }, [])
+    fetchProviders()
+  }, [roleFilter])
 
-  const toggleStatus = async (doctorId: string, currentStatus: string) => {
+  const toggleStatus = async (providerId: string, currentStatus: string) => {
     try {
-      const response = await fetch(`/api/doctors/${doctorId}/status`, {
+      const response = await fetch(`/api/providers/${providerId}/status`, {
         method: 'PATCH',
         headers: { 'Content-Type': 'application/json' },
         body: JSON.stringify({ status: currentStatus === 'Active' ? 'Inactive' : 'Active' }),
@@ -61,33 +51,66 @@ export default function DoctorsPage() {
       if (!response.ok) throw new Error('Failed to update status')
       
       // Update local state
-      setDoctors(doctors.map(doctor => 
-        doctor.id === doctorId 
-          ? { ...doctor, status: currentStatus === 'Active' ? 'Inactive' : 'Active' }
-          : doctor
+      setProviders(providers.map(provider => 
+        provider.id === providerId 
+          ? { ...provider, status: currentStatus === 'Active' ? 'Inactive' : 'Active' }
+          : provider
       ))
     } catch (error) {
-      console.error('Error updating doctor status:', error)
+      console.error('Error updating provider status:', error)
     }
   }
 
-  const toggleLogin = async (doctorId: string, currentHasLogin: boolean) => {
+  const toggleLogin = async (providerId: string, currentHasLogin: boolean) => {
     try {
-      const response = await fetch(`/api/doctors/${doctorId}/login`, {
+      const response = await fetch(`/api/providers/${providerId}/login`, {
         method: 'PATCH',
         headers: { 'Content-Type': 'application/json' },
         body: JSON.stringify({ hasLogin: !currentHasLogin }),
       })
-      if (!response.ok) throw new Error('Failed to update login status')
+      const data = await response.json()
+      if (!response.ok) throw new Error(data.error || 'Failed to update login status')
+      if (data.invited) {
+        toast({ title: 'Invitation sent', description: `${data.email} can now choose a password.` })
+      }
       
       // Update local state
-      setDoctors(doctors.map(doctor => 
-        doctor.id === doctorId 
-          ? { ...doctor, hasLogin: !currentHasLogin }
-          : doctor
+      setProviders(providers.map(provider => 
+        provider.id === providerId 
+          ? { ...provider, hasLogin: !currentHasLogin }
+          : provider
       ))
     } catch (error) {
-      console.error('Error updating doctor login status:', error)
+      console.error('Error updating provider login status:', error)
+      toast({
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Failed to update login status',
+        variant: 'destructive',
+      })
+    }
+  }
+
+  const resendInvitation = async (providerId: string) => {
+    try {
+      const response = await fetch(`/api/providers/${providerId}/login`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ hasLogin: true, resend: true }),
+      })
+      const data = await response.json()
+      if (!response.ok) throw new Error(data.error || 'Failed to resend invitation')
+      toast(
+        data.invited
+          ? { title: 'Invitation sent', description: `${data.email} can now choose a password.` }
+          : { title: 'No invitation needed', description: `${data.email} has already chosen a password.` }
+      )
+    } catch (error) {
+      console.error('Error resending provider invitation:', error)
+      toast({
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Failed to resend invitation',
+        variant: 'destructive',
+      })
     }
   }
 
@@ -120,25 +143,40 @@ export default function DoctorsPage() {
                 transition={{ delay: 0.2 }}
                 className="text-lg font-semibold text-white"
               >
-                Doctors
+                Providers
               </motion.h1>
-              <motion.div
-                whileHover={{ scale: 1.02 }}
-                whileTap={{ scale: 0.98 }}
-              >
-                <Link
-                  href="/tools/doctors/add"
-                  className="inline-flex items-center px-2 py-1 bg-white/10 text-white text-sm border border-white/20 rounded hover:bg-white/20 transition-all duration-200 focus:outline-none focus:ring-2 focus:ring-white/50 focus:ring-offset-1 focus:ring-offset-indigo-600"
+              <div className="flex items-center gap-2">
+                <select
+                  value={roleFilter}
+                  onChange={(e) => setRoleFilter(e.target.value as ProviderRole | '')}
+                  aria-label="Filter by role"
+                  className="rounded border border-white/20 bg-white/10 px-2 py-1 text-sm text-white focus:outline-none focus:ring-2 focus:ring-white/50"
                 >
-                  <PlusIcon className="w-3.5 h-3.5 mr-1" aria-hidden="true" />
-                  Add Doctor
-                </Link>
-              </motion.div>
+                  <option value="" className="text-gray-900">All roles</option>
+                  {PROVIDER_ROLES.map((role) => (
+                    <option key={role} value={role} className="text-gray-900">
+                      {PROVIDER_ROLE_LABELS[role]}
+                    </option>
+                  ))}
+                </select>
+                <motion.div
+                  whileHover={{ scale: 1.02 }}
+                  whileTap={{ scale: 0.98 }}
+                >
+                  <Link
+                    href={roleFilter ? `/tools/providers/add?role=${roleFilter}` : '/tools/providers/add'}
+                    className="inline-flex items-center px-2 py-1 bg-white/10 text-white text-sm border border-white/20 rounded hover:bg-white/20 transition-all duration-200 focus:outline-none focus:ring-2 focus:ring-white/50 focus:ring-offset-1 focus:ring-offset-indigo-600"
+                  >
+                    <PlusIcon className="w-3.5 h-3.5 mr-1" aria-hidden="true" />
+                    Add Provider
+                  </Link>
+                </motion.div>
+              </div>
             </div>
           </div>
 
           <div className="px-2 py-2">
-            {doctors.length === 0 ? (
+            {providers.length === 0 ? (
               <motion.div 
                 initial={{ opacity: 0, scale: 0.95 }}
                 animate={{ opacity: 1, scale: 1 }}
@@ -162,19 +200,19 @@ export default function DoctorsPage() {
                 >
                   <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M16 7a4 4 0 11-8 0 4 4 0 018 0zM12 14a7 7 0 00-7 7h14a7 7 0 00-7-7z" />
                 </motion.svg>
-                <h3 className="mt-2 text-sm font-medium text-gray-900">No doctors found</h3>
-                <p className="mt-1 text-sm text-gray-500">Get started by adding a new doctor.</p>
+                <h3 className="mt-2 text-sm font-medium text-gray-900">No providers found</h3>
+                <p className="mt-1 text-sm text-gray-500">Get started by adding a new provider.</p>
                 <motion.div 
                   className="mt-6"
                   whileHover={{ scale: 1.02 }}
                   whileTap={{ scale: 0.98 }}
                 >
                   <Link
-                    href="/tools/doctors/add"
+                    href="/tools/providers/add"
                     className="inline-flex items-center px-4 py-2 border border-transparent shadow-sm text-sm font-medium rounded-md text-white bg-indigo-600 hover:bg-indigo-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500 transition-colors duration-200"
                   >
                     <PlusIcon className="w-5 h-5 mr-2" aria-hidden="true" />
-                    Add Doctor
+                    Add Provider
                   </Link>
                 </motion.div>
               </motion.div>
@@ -186,7 +224,13 @@ export default function DoctorsPage() {
                       <thead className="bg-gray-50">
                         <tr>
                           <th scope="col" className="w-36 px-2 py-1 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
-                            Doctor Name
+                            Provider Name
+                          </th>
+                          <th scope="col" className="w-24 px-2 py-1 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                            NPI
+                          </th>
+                          <th scope="col" className="w-32 px-2 py-1 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                            Roles
                           </th>
                           <th scope="col" className="w-28 px-2 py-1 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
                             Phone
@@ -212,64 +256,70 @@ export default function DoctorsPage() {
                         </tr>
                       </thead>
                       <tbody className="bg-white divide-y divide-gray-200">
-                        {doctors.map((doctor) => (
-                          <tr key={doctor.id} className="hover:bg-gray-50">
+                        {providers.map((provider) => (
+                          <tr key={provider.id} className="hover:bg-gray-50">
                             <td className="px-2 py-1 whitespace-nowrap text-sm">
                               <div className="font-medium text-gray-900">
-                                {doctor.prefix} {doctor.name}
+                                {providerLabel(provider)}
                               </div>
                             </td>
                             <td className="px-2 py-1 whitespace-nowrap text-sm text-gray-900">
-                              {doctor.phoneNumber}
+                              {provider.npiNumber}
+                            </td>
+                            <td className="px-2 py-1 whitespace-nowrap text-sm text-gray-900">
+                              {provider.roles.map((role) => PROVIDER_ROLE_LABELS[role]).join(', ')}
                             </td>
                             <td className="px-2 py-1 whitespace-nowrap text-sm text-gray-900">
-                              {doctor.faxNumber}
+                              {provider.phoneNumber}
                             </td>
                             <td className="px-2 py-1 whitespace-nowrap text-sm text-gray-900">
-                              {doctor.email}
+                              {provider.faxNumber}
                             </td>
                             <td className="px-2 py-1 whitespace-nowrap text-sm text-gray-900">
-                              {doctor.clinicName}
+                              {provider.email}
                             </td>
                             <td className="px-2 py-1 whitespace-nowrap text-sm text-gray-900">
-                              {doctor.address}
+                              {provider.clinicName}
+                            </td>
+                            <td className="px-2 py-1 whitespace-nowrap text-sm text-gray-900">
+                              {provider.address}
                             </td>
                             <td className="px-2 py-1 whitespace-nowrap">
                               <span className={`inline-flex items-center px-1.5 py-0.5 rounded text-xs font-medium ${
-                                doctor.status === 'Active' ? 'bg-green-100 text-green-800' : 'bg-red-100 text-red-800'
+                                provider.status === 'Active' ? 'bg-green-100 text-green-800' : 'bg-red-100 text-red-800'
                               }`}>
-                                {doctor.status}
+                                {provider.status}
                               </span>
                             </td>
                             <td className="px-2 py-1 whitespace-nowrap text-right">
                               <div className="inline-flex items-center justify-end -space-x-px">
-                                {doctor.phoneNumber && (
+                                {provider.phoneNumber && (
                                   <Button
                                     variant="ghost"
                                     size="icon"
-                                    onClick={() => window.location.href = `tel:${doctor.phoneNumber}`}
+                                    onClick={() => window.location.href = `tel:${provider.phoneNumber}`}
                                     title="Call"
                                     className="h-6 w-6 rounded-none first:rounded-l hover:bg-gray-100 hover:z-10"
                                   >
                                     <Phone className="h-3 w-3" />
                                   </Button>
                                 )}
-                                {doctor.email && (
+                                {provider.email && (
                                   <Button
                                     variant="ghost"
                                     size="icon"
-                                    onClick={() => window.location.href = `mailto:${doctor.email}`}
+                                    onClick={() => window.location.href = `mailto:${provider.email}`}
                                     title="Email"
                                     className="h-6 w-6 rounded-none hover:bg-gray-100 hover:z-10"
                                   >
                                     <Mail className="h-3 w-3" />
                                   </Button>
                                 )}
-                                {doctor.mapLink && (
+                                {provider.mapLink && (
                                   <Button
                                     variant="ghost"
                                     size="icon"
-                                    onClick={() => window.open(doctor.mapLink, '_blank')}
+                                    onClick={() => window.open(provider.mapLink ?? undefined, '_blank')}
                                     title="View on Map"
                                     className="h-6 w-6 rounded-none hover:bg-gray-100 hover:z-10"
                                   >
@@ -283,18 +333,42 @@ export default function DoctorsPage() {
                                   title="Edit"
                                   className="h-6 w-6 rounded-none hover:bg-gray-100 hover:z-10"
                                 >
-                                  <Link href={`/tools/doctors/${doctor.id}/edit`}>
+                                  <Link href={`/tools/providers/${provider.id}/edit`}>
                                     <Edit className="h-3 w-3" />
                                   </Link>
                                 </Button>
                                 <Button
                                   variant="ghost"
                                   size="icon"
-                                  onClick={() => toggleStatus(doctor.id, doctor.status)}
-                                  title={doctor.status === 'Active' ? 'Deactivate' : 'Activate'}
+                                  onClick={() => toggleLogin(provider.id, provider.hasLogin)}
+                                  title={provider.hasLogin ? 'Remove portal login' : 'Invite to the referral portal'}
+                                  className="h-6 w-6 rounded-none hover:bg-gray-100 hover:z-10"
+                                >
+                                  {provider.hasLogin ? (
+                                    <UserCheck className="h-3 w-3 text-green-600" />
+                                  ) : (
+                                    <UserX className="h-3 w-3 text-gray-400" />
+                                  )}
+                                </Button>
+                                {provider.hasLogin && (
+                                  <Button
+                                    variant="ghost"
+                                    size="icon"
+                                    onClick={() => resendInvitation(provider.id)}
+                                    title="Resend the portal invitation"
+                                    className="h-6 w-6 rounded-none hover:bg-gray-100 hover:z-10"
+                                  >
+                                    <Send className="h-3 w-3" />
+                                  </Button>
+                                )}
+                                <Button
+                                  variant="ghost"
+                                  size="icon"
+                                  onClick={() => toggleStatus(provider.id, provider.status)}
+                                  title={provider.status === 'Active' ? 'Deactivate' : 'Activate'}
                                   className="h-6 w-6 rounded-none last:rounded-r hover:bg-gray-100 hover:z-10"
                                 >
-                                  {doctor.status === 'Active' ? (
+                                  {provider.status === 'Active' ? (
                                     <ToggleRight className="h-3 w-3 text-green-600" />
                                   ) : (
                                     <ToggleLeft className="h-3 w-3 text-red-600" />
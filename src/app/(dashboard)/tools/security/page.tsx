@@ -0,0 +1,205 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { Loader2, Save } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { useToast } from '@/components/ui/use-toast'
+
+interface SecurityPolicy {
+  twoFactorRequiredRoles: string[]
+  passwordMinLength: number
+  passwordRequireUppercase: boolean
+  passwordRequireLowercase: boolean
+  passwordRequireNumber: boolean
+  passwordRequireSymbol: boolean
+  passwordMaxAgeDays: number
+  lockoutThreshold: number
+  lockoutMinutes: number
+  idleTimeoutMinutes: number
+  sessionMaxHours: number
+  twoFactorRoles: string[]
+}
+
+type NumberField = 'passwordMinLength' | 'passwordMaxAgeDays' | 'lockoutThreshold' | 'lockoutMinutes' | 'idleTimeoutMinutes' | 'sessionMaxHours'
+type RuleField = 'passwordRequireUppercase' | 'passwordRequireLowercase' | 'passwordRequireNumber' | 'passwordRequireSymbol'
+
+const roleLabels: Record<string, string> = {
+  ADMIN: 'Administrators',
+  STAFF: 'Office staff',
+  DOCTOR: 'Doctors',
+}
+
+const passwordRules: { field: RuleField; label: string }[] = [
+  { field: 'passwordRequireUppercase', label: 'An uppercase letter' },
+  { field: 'passwordRequireLowercase', label: 'A lowercase letter' },
+  { field: 'passwordRequireNumber', label: 'A number' },
+  { field: 'passwordRequireSymbol', label: 'A symbol' },
+]
+
+export default function SecurityPolicyPage() {
+  const { toast } = useToast()
+  const [policy, setPolicy] = useState<SecurityPolicy | null>(null)
+  const [loading, setLoading] = useState(true)
+  const [saving, setSaving] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    fetch('/api/security-policy')
+      .then(async (response) => {
+        if (!response.ok) throw new Error('Failed to load security policy')
+        setPolicy(await response.json())
+      })
+      .catch((err) => setError(err instanceof Error ? err.message : 'Failed to load security policy'))
+      .finally(() => setLoading(false))
+  }, [])
+
+  const toggleRole = (role: string, required: boolean) => {
+    if (!policy) return
+    setPolicy({
+      ...policy,
+      twoFactorRequiredRoles: required
+        ? [...policy.twoFactorRequiredRoles, role]
+        : policy.twoFactorRequiredRoles.filter((item) => item !== role),
+    })
+  }
+
+  const setNumber = (field: NumberField, value: string) => {
+    if (!policy) return
+    setPolicy({ ...policy, [field]: value === '' ? 0 : Number(value) })
+  }
+
+  const numberField = (field: NumberField, label: string, hint?: string) =>
+    policy && (
+      <div className="space-y-2">
+        <Label htmlFor={field}>{label}</Label>
+        <Input
+          id={field}
+          type="number"
+          min={0}
+          value={policy[field]}
+          onChange={(e) => setNumber(field, e.target.value)}
+          className="max-w-[10rem]"
+        />
+        {hint && <p className="text-xs text-gray-500">{hint}</p>}
+      </div>
+    )
+
+  const save = async () => {
+    if (!policy) return
+
+    setSaving(true)
+    setError(null)
+    try {
+      const response = await fetch('/api/security-policy', {
+        method: 'PUT',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        // twoFactorRoles only describes the choices
+        body: JSON.stringify({ ...policy, twoFactorRoles: undefined }),
+      })
+      const data = await response.json()
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to save security policy')
+      }
+      setPolicy(data)
+      toast({ title: 'Security policy saved' })
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save security policy')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center min-h-screen">
+        <Loader2 className="h-8 w-8 animate-spin text-indigo-600" />
+      </div>
+    )
+  }
+
+  return (
+    <div className="container mx-auto px-4 py-8 space-y-6">
+      <div>
+        <h1 className="text-2xl font-bold text-gray-900">Security Policy</h1>
+        <p className="text-sm text-gray-500">Rules that apply to every account from its next sign-in.</p>
+      </div>
+
+      {error && (
+        <div className="bg-red-50 border-l-4 border-red-500 p-4 rounded-lg">
+          <p className="text-sm font-medium text-red-800">{error}</p>
+        </div>
+      )}
+
+      {policy && (
+        <div className="bg-white rounded-lg shadow-lg p-6 space-y-6">
+          <div className="space-y-2">
+            <h2 className="text-lg font-semibold text-gray-900">Two-factor authentication</h2>
+            <p className="text-sm text-gray-500">
+              Users in these roles must set up an authenticator app before they can use the app, and cannot turn it off.
+            </p>
+            {policy.twoFactorRoles.map((role) => (
+              <label key={role} className="flex items-center gap-2 text-sm text-gray-700">
+                <input
+                  type="checkbox"
+                  checked={policy.twoFactorRequiredRoles.includes(role)}
+                  onChange={(e) => toggleRole(role, e.target.checked)}
+                  className="rounded border-gray-300 text-indigo-600 focus:ring-indigo-500"
+                />
+                {roleLabels[role] ?? role}
+              </label>
+            ))}
+          </div>
+
+          <div className="space-y-4 border-t pt-6">
+            <h2 className="text-lg font-semibold text-gray-900">Passwords</h2>
+            <p className="text-sm text-gray-500">
+              Checked whenever a password is set. Existing passwords keep working until they expire.
+            </p>
+            {numberField('passwordMinLength', 'Minimum length')}
+            <div className="space-y-2">
+              <p className="text-sm font-medium text-gray-700">Must include</p>
+              {passwordRules.map(({ field, label }) => (
+                <label key={field} className="flex items-center gap-2 text-sm text-gray-700">
+                  <input
+                    type="checkbox"
+                    checked={policy[field]}
+                    onChange={(e) => setPolicy({ ...policy, [field]: e.target.checked })}
+                    className="rounded border-gray-300 text-indigo-600 focus:ring-indigo-500"
+                  />
+                  {label}
+                </label>
+              ))}
+            </div>
+            {numberField('passwordMaxAgeDays', 'Expire passwords after (days)', '0 keeps passwords until the user changes them.')}
+          </div>
+
+          <div className="space-y-4 border-t pt-6">
+            <h2 className="text-lg font-semibold text-gray-900">Account lockout</h2>
+            <p className="text-sm text-gray-500">
+              Each further round of failed attempts doubles the lockout, up to a day. Resetting the password unlocks the account.
+            </p>
+            {numberField('lockoutThreshold', 'Failed sign-ins before locking')}
+            {numberField('lockoutMinutes', 'First lockout (minutes)')}
+          </div>
+
+          <div className="space-y-4 border-t pt-6">
+            <h2 className="text-lg font-semibold text-gray-900">Sessions</h2>
+            {numberField('idleTimeoutMinutes', 'Sign out after inactivity (minutes)')}
+            {numberField('sessionMaxHours', 'Sign out after (hours)', 'However active the user is. At most 24 hours.')}
+          </div>
+
+          <div className="flex justify-end">
+            <Button type="button" onClick={save} disabled={saving}>
+              {saving ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Save className="h-4 w-4 mr-2" />}
+              Save Policy
+            </Button>
+          </div>
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,212 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { formatDistanceToNow, format } from 'date-fns'
+import { Loader2, LogOut } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { Badge } from '@/components/ui/badge'
+import { Label } from '@/components/ui/label'
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table'
+import { useToast } from '@/components/ui/use-toast'
+
+interface ActiveSession {
+  id: string
+  ipAddress: string | null
+  userAgent: string | null
+  createdAt: string
+  lastSeenAt: string
+  expiresAt: string
+  current: boolean
+  user: { id: string; name: string | null; email: string; role: string }
+}
+
+interface Option {
+  id: string
+  name: string
+}
+
+const selectClassName =
+  'mt-1 block w-full rounded-md border border-gray-300 bg-white px-3 py-2 text-sm shadow-sm focus:border-indigo-500 focus:outline-none focus:ring-1 focus:ring-indigo-500'
+
+export default function ActiveSessionsPage() {
+  const { toast } = useToast()
+  const [sessions, setSessions] = useState<ActiveSession[]>([])
+  const [users, setUsers] = useState<Option[]>([])
+  const [userId, setUserId] = useState('')
+  const [loading, setLoading] = useState(true)
+  const [revoking, setRevoking] = useState<string | null>(null)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    fetch('/api/users')
+      .then(async (response) => {
+        if (!response.ok) return
+        const data: { id: string; name: string | null; email: string }[] = await response.json()
+        setUsers(data.map((user) => ({ id: user.id, name: user.name || user.email })))
+      })
+      .catch((err) => console.error('Error fetching users:', err))
+  }, [])
+
+  const fetchSessions = async (forUser: string) => {
+    setLoading(true)
+    setError(null)
+    try {
+      const response = await fetch(`/api/sessions${forUser ? `?userId=${forUser}` : ''}`)
+      if (!response.ok) throw new Error('Failed to load sessions')
+      setSessions(await response.json())
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load sessions')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  useEffect(() => {
+    fetchSessions(userId)
+  }, [userId])
+
+  const revoke = async (url: string, key: string, confirmation: string) => {
+    if (!confirm(confirmation)) return
+
+    setRevoking(key)
+    setError(null)
+    try {
+      const response = await fetch(url, { method: 'DELETE' })
+      const data = await response.json()
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to revoke session')
+      }
+      toast({ title: 'Signed out', description: 'The session ends within a minute.' })
+      await fetchSessions(userId)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to revoke session')
+    } finally {
+      setRevoking(null)
+    }
+  }
+
+  return (
+    <div className="container mx-auto px-4 py-8 space-y-6">
+      <div>
+        <h1 className="text-2xl font-bold text-gray-900">Active Sessions</h1>
+        <p className="text-sm text-gray-500">Everyone signed in right now, and on which devices.</p>
+      </div>
+
+      {error && (
+        <div className="bg-red-50 border-l-4 border-red-500 p-4 rounded-lg">
+          <p className="text-sm font-medium text-red-800">{error}</p>
+        </div>
+      )}
+
+      <div className="bg-white rounded-lg shadow-lg p-6 space-y-6">
+        <div className="flex flex-col sm:flex-row sm:items-end gap-4">
+          <div className="sm:w-72">
+            <Label htmlFor="sessions-user">User</Label>
+            <select
+              id="sessions-user"
+              value={userId}
+              onChange={(e) => setUserId(e.target.value)}
+              className={selectClassName}
+            >
+              <option value="">All users</option>
+              {users.map((user) => (
+                <option key={user.id} value={user.id}>{user.name}</option>
+              ))}
+            </select>
+          </div>
+          {userId && sessions.some((session) => !session.current) && (
+            <Button
+              type="button"
+              variant="destructive"
+              disabled={revoking !== null}
+              onClick={() => revoke(
+                `/api/sessions?userId=${userId}`,
+                'all',
+                'Sign this user out on every device?'
+              )}
+            >
+              {revoking === 'all' ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <LogOut className="h-4 w-4 mr-2" />}
+              Sign out everywhere
+            </Button>
+          )}
+        </div>
+
+        {loading ? (
+          <div className="flex justify-center py-8">
+            <Loader2 className="h-8 w-8 animate-spin text-indigo-600" />
+          </div>
+        ) : (
+          <div className="rounded-lg border border-gray-200">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>User</TableHead>
+                  <TableHead>Device</TableHead>
+                  <TableHead>IP Address</TableHead>
+                  <TableHead>Signed in</TableHead>
+                  <TableHead>Last active</TableHead>
+                  <TableHead />
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {sessions.length === 0 && (
+                  <TableRow>
+                    <TableCell colSpan={6} className="text-center text-gray-500 py-8">
+                      No active sessions
+                    </TableCell>
+                  </TableRow>
+                )}
+                {sessions.map((session) => (
+                  <TableRow key={session.id}>
+                    <TableCell>
+                      <div>{session.user.name || session.user.email}</div>
+                      <div className="text-xs text-gray-500">{session.user.role}</div>
+                    </TableCell>
+                    <TableCell className="max-w-xs">
+                      <div className="truncate text-sm text-gray-700" title={session.userAgent ?? undefined}>
+                        {session.userAgent || 'Unknown'}
+                      </div>
+                      {session.current && <Badge className="bg-green-100 text-green-800">This session</Badge>}
+                    </TableCell>
+                    <TableCell className="text-gray-500">{session.ipAddress || '—'}</TableCell>
+                    <TableCell className="whitespace-nowrap">
+                      {format(new Date(session.createdAt), 'MM/dd/yyyy HH:mm')}
+                    </TableCell>
+                    <TableCell className="whitespace-nowrap">
+                      {formatDistanceToNow(new Date(session.lastSeenAt), { addSuffix: true })}
+                    </TableCell>
+                    <TableCell className="text-right">
+                      {!session.current && (
+                        <Button
+                          type="button"
+                          variant="outline"
+                          size="sm"
+                          disabled={revoking !== null}
+                          onClick={() => revoke(
+                            `/api/sessions/${session.id}`,
+                            session.id,
+                            `Sign ${session.user.name || session.user.email} out of this session?`
+                          )}
+                        >
+                          {revoking === session.id && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                          Sign out
+                        </Button>
+                      )}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+        )}
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,451 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { Loader2, Pencil, Trash2 } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { Badge } from '@/components/ui/badge'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Switch } from '@/components/ui/switch'
+import { Textarea } from '@/components/ui/textarea'
+import { useToast } from '@/components/ui/use-toast'
+
+const TRIGGER_LABELS: Record<string, string> = {
+  PATIENT_CREATED: 'Patient is created',
+  PATIENT_STATUS_CHANGED: 'Patient status changes',
+  PROCEDURE_CREATED: 'Procedure is scheduled',
+  PROCEDURE_STATUS_CHANGED: 'Procedure status changes',
+  PROCEDURE_COMPLETED: 'Procedure is completed',
+}
+
+const PATIENT_TRIGGERS = ['PATIENT_CREATED', 'PATIENT_STATUS_CHANGED']
+
+interface Option {
+  id: string
+  name: string
+}
+
+interface TaskRule {
+  id: string
+  name: string
+  isActive: boolean
+  trigger: string
+  conditions: {
+    statusId?: string
+    examId?: string
+    missingPayer?: boolean
+    missingAttorney?: boolean
+  } | null
+  title: string
+  description: string
+  priority: string
+  dueInDays: number
+  assignToId: string | null
+  assignTo: { id: string; name: string } | null
+}
+
+interface RuleForm {
+  name: string
+  isActive: boolean
+  trigger: string
+  statusId: string
+  examId: string
+  missingPayer: boolean
+  missingAttorney: boolean
+  title: string
+  description: string
+  priority: string
+  dueInDays: string
+  assignToId: string
+}
+
+const emptyForm: RuleForm = {
+  name: '',
+  isActive: true,
+  trigger: 'PATIENT_CREATED',
+  statusId: '',
+  examId: '',
+  missingPayer: false,
+  missingAttorney: false,
+  title: '',
+  description: '',
+  priority: 'medium',
+  dueInDays: '1',
+  assignToId: '',
+}
+
+const selectClassName =
+  'block w-full rounded-md border border-gray-300 bg-white px-3 py-2 text-sm shadow-sm focus:border-indigo-500 focus:outline-none focus:ring-1 focus:ring-indigo-500'
+
+const toForm = (rule: TaskRule): RuleForm => ({
+  name: rule.name,
+  isActive: rule.isActive,
+  trigger: rule.trigger,
+  statusId: rule.conditions?.statusId ?? '',
+  examId: rule.conditions?.examId ?? '',
+  missingPayer: Boolean(rule.conditions?.missingPayer),
+  missingAttorney: Boolean(rule.conditions?.missingAttorney),
+  title: rule.title,
+  description: rule.description,
+  priority: rule.priority,
+  dueInDays: String(rule.dueInDays),
+  assignToId: rule.assignToId ?? '',
+})
+
+export default function TaskRulesPage() {
+  const { toast } = useToast()
+  const [rules, setRules] = useState<TaskRule[]>([])
+  const [statuses, setStatuses] = useState<Option[]>([])
+  const [exams, setExams] = useState<Option[]>([])
+  const [users, setUsers] = useState<Option[]>([])
+  const [form, setForm] = useState<RuleForm>(emptyForm)
+  const [editingId, setEditingId] = useState<string | null>(null)
+  const [loading, setLoading] = useState(true)
+  const [saving, setSaving] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    const load = async () => {
+      const responses = await Promise.all([
+        fetch('/api/task-rules'),
+        fetch('/api/statuses'),
+        fetch('/api/exams'),
+        fetch('/api/users'),
+      ])
+      if (responses.some((response) => !response.ok)) {
+        throw new Error('Failed to load task rules')
+      }
+      const [rulesData, statusesData, examsData, usersData] = await Promise.all(
+        responses.map((response) => response.json())
+      )
+      setRules(rulesData)
+      setStatuses(statusesData)
+      setExams(examsData)
+      setUsers(usersData)
+    }
+
+    load()
+      .catch((err) => setError(err instanceof Error ? err.message : 'Failed to load task rules'))
+      .finally(() => setLoading(false))
+  }, [])
+
+  const update = (changes: Partial<RuleForm>) => setForm((prev) => ({ ...prev, ...changes }))
+
+  const isPatientTrigger = PATIENT_TRIGGERS.includes(form.trigger)
+
+  const resetForm = () => {
+    setForm(emptyForm)
+    setEditingId(null)
+  }
+
+  const save = async (e: React.FormEvent) => {
+    e.preventDefault()
+    setSaving(true)
+    setError(null)
+    try {
+      const response = await fetch(editingId ? `/api/task-rules/${editingId}` : '/api/task-rules', {
+        method: editingId ? 'PUT' : 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          name: form.name,
+          isActive: form.isActive,
+          trigger: form.trigger,
+          // Exam and payer/attorney conditions only apply to one kind of trigger
+          conditions: {
+            statusId: form.statusId,
+            examId: isPatientTrigger ? '' : form.examId,
+            missingPayer: isPatientTrigger && form.missingPayer,
+            missingAttorney: isPatientTrigger && form.missingAttorney,
+          },
+          title: form.title,
+          description: form.description,
+          priority: form.priority,
+          dueInDays: Number(form.dueInDays),
+          assignToId: form.assignToId || null,
+        }),
+      })
+      const data = await response.json()
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to save rule')
+      }
+
+      setRules((prev) => (editingId ? prev.map((rule) => (rule.id === editingId ? data : rule)) : [...prev, data]))
+      toast({ title: editingId ? 'Rule updated' : 'Rule created' })
+      resetForm()
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save rule')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const toggleActive = async (rule: TaskRule, isActive: boolean) => {
+    const response = await fetch(`/api/task-rules/${rule.id}`, {
+      method: 'PUT',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({ isActive }),
+    })
+    if (!response.ok) {
+      setError('Failed to update rule')
+      return
+    }
+    const data = await response.json()
+    setRules((prev) => prev.map((item) => (item.id === rule.id ? data : item)))
+  }
+
+  const remove = async (rule: TaskRule) => {
+    if (!window.confirm(`Delete the rule "${rule.name}"? Tasks it already created are kept.`)) return
+
+    const response = await fetch(`/api/task-rules/${rule.id}`, { method: 'DELETE' })
+    if (!response.ok) {
+      setError('Failed to delete rule')
+      return
+    }
+    setRules((prev) => prev.filter((item) => item.id !== rule.id))
+    if (editingId === rule.id) resetForm()
+  }
+
+  const describeConditions = (rule: TaskRule) => {
+    const parts: string[] = []
+    const conditions = rule.conditions ?? {}
+    if (conditions.statusId) {
+      parts.push(`status is ${statuses.find((status) => status.id === conditions.statusId)?.name ?? 'unknown'}`)
+    }
+    if (conditions.examId) {
+      parts.push(`exam is ${exams.find((exam) => exam.id === conditions.examId)?.name ?? 'unknown'}`)
+    }
+    if (conditions.missingPayer) parts.push('no payer')
+    if (conditions.missingAttorney) parts.push('no attorney')
+    return parts.length > 0 ? parts.join(', ') : 'always'
+  }
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center min-h-screen">
+        <Loader2 className="h-8 w-8 animate-spin text-indigo-600" />
+      </div>
+    )
+  }
+
+  return (
+    <div className="container mx-auto px-4 py-8 space-y-6">
+      <div>
+        <h1 className="text-2xl font-bold text-gray-900">Task Rules</h1>
+        <p className="text-sm text-gray-500">
+          Create follow-up tasks automatically when patients and procedures change.
+          Use {'{patient}'}, {'{exam}'} and {'{status}'} in the title or description.
+        </p>
+      </div>
+
+      {error && (
+        <div className="bg-red-50 border-l-4 border-red-500 p-4 rounded-lg">
+          <p className="text-sm font-medium text-red-800">{error}</p>
+        </div>
+      )}
+
+      <div className="bg-white rounded-lg shadow-lg overflow-hidden">
+        {rules.length === 0 ? (
+          <p className="p-6 text-sm text-gray-500">No rules yet. Add one below.</p>
+        ) : (
+          <ul className="divide-y">
+            {rules.map((rule) => (
+              <li key={rule.id} className="flex flex-wrap items-center justify-between gap-4 px-6 py-4">
+                <div className="space-y-1">
+                  <div className="flex items-center gap-2">
+                    <span className="font-medium text-gray-900">{rule.name}</span>
+                    <Badge variant="secondary">{rule.priority}</Badge>
+                    {!rule.isActive && <Badge variant="outline">Paused</Badge>}
+                  </div>
+                  <p className="text-sm text-gray-600">
+                    When {TRIGGER_LABELS[rule.trigger]?.toLowerCase() ?? rule.trigger} ({describeConditions(rule)}):
+                    &ldquo;{rule.title}&rdquo; due in {rule.dueInDays} day{rule.dueInDays === 1 ? '' : 's'} for{' '}
+                    {rule.assignTo?.name ?? 'the user who made the change'}
+                  </p>
+                </div>
+                <div className="flex items-center gap-3">
+                  <Switch
+                    checked={rule.isActive}
+                    onCheckedChange={(checked) => toggleActive(rule, checked)}
+                    aria-label={`Toggle ${rule.name}`}
+                  />
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => {
+                      setForm(toForm(rule))
+                      setEditingId(rule.id)
+                    }}
+                  >
+                    <Pencil className="h-4 w-4" />
+                  </Button>
+                  <Button type="button" variant="ghost" size="sm" onClick={() => remove(rule)}>
+                    <Trash2 className="h-4 w-4 text-red-600" />
+                  </Button>
+                </div>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+
+      <form onSubmit={save} className="bg-white rounded-lg shadow-lg p-6 space-y-6">
+        <h2 className="text-lg font-semibold text-gray-900">{editingId ? 'Edit Rule' : 'New Rule'}</h2>
+
+        <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+          <div className="space-y-2">
+            <Label htmlFor="name">Rule Name</Label>
+            <Input id="name" value={form.name} onChange={(e) => update({ name: e.target.value })} required />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="trigger">When</Label>
+            <select
+              id="trigger"
+              value={form.trigger}
+              onChange={(e) => update({ trigger: e.target.value })}
+              className={selectClassName}
+            >
+              {Object.entries(TRIGGER_LABELS).map(([key, label]) => (
+                <option key={key} value={key}>{label}</option>
+              ))}
+            </select>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="statusId">Only when status is</Label>
+            <select
+              id="statusId"
+              value={form.statusId}
+              onChange={(e) => update({ statusId: e.target.value })}
+              className={selectClassName}
+            >
+              <option value="">Any status</option>
+              {statuses.map((status) => (
+                <option key={status.id} value={status.id}>{status.name}</option>
+              ))}
+            </select>
+          </div>
+          {isPatientTrigger ? (
+            <div className="space-y-2">
+              <Label>Only when the patient has</Label>
+              <label className="flex items-center gap-2 text-sm text-gray-700">
+                <input
+                  type="checkbox"
+                  checked={form.missingPayer}
+                  onChange={(e) => update({ missingPayer: e.target.checked })}
+                  className="rounded border-gray-300 text-indigo-600 focus:ring-indigo-500"
+                />
+                No payer
+              </label>
+              <label className="flex items-center gap-2 text-sm text-gray-700">
+                <input
+                  type="checkbox"
+                  checked={form.missingAttorney}
+                  onChange={(e) => update({ missingAttorney: e.target.checked })}
+                  className="rounded border-gray-300 text-indigo-600 focus:ring-indigo-500"
+                />
+                No attorney
+              </label>
+            </div>
+          ) : (
+            <div className="space-y-2">
+              <Label htmlFor="examId">Only for exam</Label>
+              <select
+                id="examId"
+                value={form.examId}
+                onChange={(e) => update({ examId: e.target.value })}
+                className={selectClassName}
+              >
+                <option value="">Any exam</option>
+                {exams.map((exam) => (
+                  <option key={exam.id} value={exam.id}>{exam.name}</option>
+                ))}
+              </select>
+            </div>
+          )}
+          <div className="space-y-2 sm:col-span-2">
+            <Label htmlFor="title">Task Title</Label>
+            <Input
+              id="title"
+              value={form.title}
+              onChange={(e) => update({ title: e.target.value })}
+              placeholder="Request records for {patient}"
+              required
+            />
+          </div>
+          <div className="space-y-2 sm:col-span-2">
+            <Label htmlFor="description">Task Description</Label>
+            <Textarea
+              id="description"
+              value={form.description}
+              onChange={(e) => update({ description: e.target.value })}
+              rows={3}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="priority">Priority</Label>
+            <select
+              id="priority"
+              value={form.priority}
+              onChange={(e) => update({ priority: e.target.value })}
+              className={selectClassName}
+            >
+              <option value="low">Low</option>
+              <option value="medium">Medium</option>
+              <option value="high">High</option>
+            </select>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="dueInDays">Due In (days)</Label>
+            <Input
+              id="dueInDays"
+              type="number"
+              min="0"
+              max="365"
+              value={form.dueInDays}
+              onChange={(e) => update({ dueInDays: e.target.value })}
+              required
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="assignToId">Assign To</Label>
+            <select
+              id="assignToId"
+              value={form.assignToId}
+              onChange={(e) => update({ assignToId: e.target.value })}
+              className={selectClassName}
+            >
+              <option value="">User who made the change</option>
+              {users.map((user) => (
+                <option key={user.id} value={user.id}>{user.name}</option>
+              ))}
+            </select>
+          </div>
+          <div className="flex items-center gap-3 pt-6">
+            <Switch
+              id="isActive"
+              checked={form.isActive}
+              onCheckedChange={(checked) => update({ isActive: checked })}
+            />
+            <Label htmlFor="isActive">Active</Label>
+          </div>
+        </div>
+
+        <div className="flex justify-end gap-2">
+          {editingId && (
+            <Button type="button" variant="outline" onClick={resetForm}>
+              Cancel
+            </Button>
+          )}
+          <Button type="submit" disabled={saving}>
+            {saving && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+            {editingId ? 'Save Rule' : 'Add Rule'}
+          </Button>
+        </div>
+      </form>
+    </div>
+  )
+}
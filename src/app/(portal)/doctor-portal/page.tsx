@@ -0,0 +1,251 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { motion } from 'framer-motion'
+import { format } from 'date-fns'
+import { ChevronDown, ChevronRight, FileCheck, Loader2, Plus } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Badge } from '@/components/ui/badge'
+import { useToast } from '@/components/ui/use-toast'
+import { ReferralForm } from '@/components/doctors/ReferralForm'
+
+interface ReferredPatient {
+  id: string
+  firstName: string
+  lastName: string
+  dateOfBirth: string
+  status: {
+    name: string
+    color: string
+  }
+  procedures: Array<{
+    id: string
+    scheduleDate: string
+    scheduleTime: string
+    isCompleted: boolean
+    reportDeliveredAt: string | null
+    reportAvailable: boolean
+    exam: {
+      name: string
+    }
+    facility: {
+      name: string
+    }
+    status: {
+      name: string
+      color: string
+    }
+  }>
+  referrals: Array<{
+    id: string
+    exams: string[]
+    notes: string | null
+    createdAt: string
+  }>
+}
+
+interface PortalData {
+  doctor: {
+    id: string
+    name: string
+  }
+  patients: ReferredPatient[]
+}
+
+export default function DoctorPortalPage() {
+  const { toast } = useToast()
+  const [data, setData] = useState<PortalData | null>(null)
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+  const [search, setSearch] = useState('')
+  const [expanded, setExpanded] = useState<string | null>(null)
+  const [referring, setReferring] = useState(false)
+
+  const fetchPortal = async () => {
+    try {
+      const response = await fetch('/api/portal/doctor')
+      const body = await response.json()
+      if (!response.ok) {
+        throw new Error(body.error || 'Failed to load your referrals')
+      }
+      setData(body)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load your referrals')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  useEffect(() => {
+    fetchPortal()
+  }, [])
+
+  const formatDate = (date: string) => format(new Date(date), 'MM/dd/yyyy')
+
+  if (loading) {
+    return (
+      <div className="min-h-[60vh] flex justify-center items-center">
+        <Loader2 className="h-16 w-16 text-indigo-600 animate-spin" />
+      </div>
+    )
+  }
+
+  if (error || !data) {
+    return (
+      <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-12">
+        <div className="bg-red-50 border-l-4 border-red-500 p-4 rounded-lg max-w-md">
+          <p className="text-sm font-medium text-red-800">{error}</p>
+        </div>
+      </div>
+    )
+  }
+
+  const term = search.trim().toLowerCase()
+  const patients = term
+    ? data.patients.filter((patient) =>
+        `${patient.firstName} ${patient.lastName}`.toLowerCase().includes(term)
+      )
+    : data.patients
+
+  const awaitingBooking = data.patients.filter((patient) => patient.procedures.length === 0).length
+  const resultsReady = data.patients.reduce(
+    (total, patient) => total + patient.procedures.filter((procedure) => procedure.reportAvailable).length,
+    0
+  )
+
+  return (
+    <motion.div
+      initial={{ opacity: 0 }}
+      animate={{ opacity: 1 }}
+      transition={{ duration: 0.5 }}
+      className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-12 space-y-6"
+    >
+      <div className="flex flex-col sm:flex-row sm:items-end justify-between gap-4">
+        <div>
+          <h1 className="text-2xl font-bold text-gray-900">{data.doctor.name}</h1>
+          <p className="text-sm text-gray-500">
+            {data.patients.length} referred patient{data.patients.length !== 1 ? 's' : ''} &middot; {awaitingBooking} awaiting booking &middot; {resultsReady} result{resultsReady !== 1 ? 's' : ''} ready
+          </p>
+        </div>
+        <div className="flex gap-2">
+          <Input
+            placeholder="Search patients..."
+            value={search}
+            onChange={(e) => setSearch(e.target.value)}
+            className="sm:w-64"
+          />
+          {!referring && (
+            <Button type="button" onClick={() => setReferring(true)}>
+              <Plus className="h-4 w-4 mr-2" />
+              New referral
+            </Button>
+          )}
+        </div>
+      </div>
+
+      {referring && (
+        <ReferralForm
+          onCancel={() => setReferring(false)}
+          onSubmitted={() => {
+            setReferring(false)
+            toast({ title: 'Referral sent', description: 'Our office will contact the patient to schedule.' })
+            fetchPortal()
+          }}
+        />
+      )}
+
+      {patients.length === 0 ? (
+        <p className="text-sm text-gray-500">No referred patients found.</p>
+      ) : (
+        <div className="bg-white rounded-2xl shadow-xl overflow-hidden divide-y divide-gray-200">
+          {patients.map((patient) => {
+            const isOpen = expanded === patient.id
+            const upcoming = patient.procedures
+              .filter((procedure) => !procedure.isCompleted)
+              .sort((a, b) => new Date(a.scheduleDate).getTime() - new Date(b.scheduleDate).getTime())[0]
+
+            return (
+              <div key={patient.id}>
+                <button
+                  onClick={() => setExpanded(isOpen ? null : patient.id)}
+                  className="w-full flex items-center justify-between px-6 py-4 text-left hover:bg-gray-50 transition-colors"
+                >
+                  <div className="flex items-center gap-3">
+                    {isOpen ? <ChevronDown className="h-4 w-4 text-gray-400" /> : <ChevronRight className="h-4 w-4 text-gray-400" />}
+                    <div>
+                      <p className="font-medium text-gray-900">
+                        {patient.lastName}, {patient.firstName}
+                      </p>
+                      <p className="text-xs text-gray-500">DOB {formatDate(patient.dateOfBirth)}</p>
+                    </div>
+                  </div>
+                  <div className="flex items-center gap-6 text-sm">
+                    <span className="hidden md:inline text-gray-500">
+                      {upcoming ? `Next: ${upcoming.exam.name} on ${formatDate(upcoming.scheduleDate)}` : 'Nothing scheduled'}
+                    </span>
+                    <Badge style={{ backgroundColor: patient.status.color }}>{patient.status.name}</Badge>
+                  </div>
+                </button>
+
+                {isOpen && (
+                  <div className="px-6 pb-6 space-y-4">
+                    {patient.referrals.map((referral) => (
+                      <div key={referral.id} className="rounded-lg bg-gray-50 p-4 text-sm">
+                        <p className="text-gray-900">
+                          Referred {formatDate(referral.createdAt)}: {referral.exams.join(', ')}
+                        </p>
+                        {referral.notes && <p className="mt-1 text-gray-600 whitespace-pre-line">{referral.notes}</p>}
+                      </div>
+                    ))}
+
+                    <table className="min-w-full divide-y divide-gray-200">
+                      <thead className="bg-gray-50">
+                        <tr>
+                          <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Procedure</th>
+                          <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Scheduled</th>
+                          <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Facility</th>
+                          <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Status</th>
+                          <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Results</th>
+                        </tr>
+                      </thead>
+                      <tbody className="divide-y divide-gray-200 text-sm">
+                        {patient.procedures.map((procedure) => (
+                          <tr key={procedure.id}>
+                            <td className="px-4 py-2 text-gray-900">{procedure.exam.name}</td>
+                            <td className="px-4 py-2 text-gray-900">
+                              {formatDate(procedure.scheduleDate)} {procedure.scheduleTime}
+                            </td>
+                            <td className="px-4 py-2 text-gray-900">{procedure.facility.name}</td>
+                            <td className="px-4 py-2">
+                              <Badge style={{ backgroundColor: procedure.status.color }}>{procedure.status.name}</Badge>
+                            </td>
+                            <td className="px-4 py-2">
+                              {procedure.reportAvailable ? (
+                                <span className="inline-flex items-center text-green-700">
+                                  <FileCheck className="h-4 w-4 mr-1" />
+                                  {procedure.reportDeliveredAt ? `Sent ${formatDate(procedure.reportDeliveredAt)}` : 'Available'}
+                                </span>
+                              ) : (
+                                <span className="text-gray-500">Pending</span>
+                              )}
+                            </td>
+                          </tr>
+                        ))}
+                        {patient.procedures.length === 0 && (
+                          <tr>
+                            <td colSpan={5} className="px-4 py-2 text-gray-500">Not booked yet; our office will call the patient.</td>
+                          </tr>
+                        )}
+                      </tbody>
+                    </table>
+                  </div>
+                )}
+              </div>
+            )
+          })}
+        </div>
+      )}
+    </motion.div>
+  )
+}
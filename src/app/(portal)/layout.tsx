@@ -0,0 +1,93 @@
+'use client'
+
+import { useSession } from 'next-auth/react'
+import { useRouter } from 'next/navigation'
+import Link from 'next/link'
+import { Button } from '@/components/ui/button'
+import { useAuth } from '@/hooks/use-auth'
+import { IdleTimeout } from '@/components/auth/IdleTimeout'
+import { PasswordSettings } from '@/components/auth/PasswordSettings'
+
+const portals: Record<string, { href: string; name: string }> = {
+  PATIENT: { href: '/patient-portal', name: 'Patient Portal' },
+  DOCTOR: { href: '/doctor-portal', name: 'Referral Portal' },
+  ATTORNEY: { href: '/portal', name: 'Attorney Portal' },
+}
+
+export default function PortalLayout({
+  children,
+}: {
+  children: React.ReactNode
+}) {
+  const { data: session, status } = useSession()
+  const router = useRouter()
+  const { logout } = useAuth()
+
+  if (status === 'unauthenticated') {
+    router.push('/login')
+    return null
+  }
+
+  if (status === 'loading') {
+    return (
+      <div className="min-h-screen bg-gradient-to-br from-gray-50 to-gray-100 flex items-center justify-center">
+        <div className="animate-spin rounded-full h-16 w-16 border-t-4 border-b-4 border-indigo-600"></div>
+      </div>
+    )
+  }
+
+  if (!session) {
+    return null
+  }
+
+  // Patients, referring doctors and attorney-side logins share this chrome
+  const portal = portals[session.user.role] ?? portals.ATTORNEY
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-gray-50 to-gray-100">
+      <nav className="bg-white shadow-lg fixed w-full z-50">
+        <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
+          <div className="flex justify-between h-16">
+            <div className="flex items-center">
+              <Link href={portal.href} className="text-xl font-bold bg-gradient-to-r from-indigo-600 to-indigo-700 bg-clip-text text-transparent">
+                Gulf Coast Medical
+              </Link>
+              <span className="ml-3 text-sm text-gray-500">{portal.name}</span>
+            </div>
+            <div className="flex items-center space-x-3">
+              {session.user.role === 'DOCTOR' && (
+                <Link href="/patients" className="text-sm text-indigo-600 hover:text-indigo-800">
+                  Patient records
+                </Link>
+              )}
+              <span className="text-sm text-gray-700">
+                {session.user?.name || session.user?.email}
+              </span>
+              <Button
+                variant="outline"
+                onClick={() => logout()}
+                className="text-sm text-gray-700 border-gray-300 hover:bg-gray-50"
+              >
+                Logout
+              </Button>
+            </div>
+          </div>
+        </div>
+      </nav>
+      <main className="pt-16 pb-10">
+        {session.user.passwordChangeRequired ? (
+          <div className="max-w-xl mx-auto px-4 py-8">
+            <div className="bg-white rounded-lg shadow-lg p-6 space-y-4">
+              <h1 className="text-xl font-bold text-gray-900">Change your password</h1>
+              <p className="text-sm text-gray-600">Your password has expired. Choose a new one to continue.</p>
+              <PasswordSettings />
+            </div>
+          </div>
+        ) : (
+          children
+        )}
+      </main>
+      <IdleTimeout />
+    </div>
+  )
+}
@@ -0,0 +1,348 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { motion } from 'framer-motion'
+import { format } from 'date-fns'
+import { CalendarClock, CheckCircle2, FileText, Loader2, MapPin, Trash2, Upload } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { Badge } from '@/components/ui/badge'
+import { Label } from '@/components/ui/label'
+import { Textarea } from '@/components/ui/textarea'
+import { useToast } from '@/components/ui/use-toast'
+import { PATIENT_DOCUMENT_KINDS, type PatientDocumentKind } from '@/lib/validations'
+import type { PortalProcedure } from '@/lib/patient-portal'
+
+interface PortalDocument {
+  id: string
+  kind: string
+  name: string
+  type: string
+  size: number
+  createdAt: string
+}
+
+interface PortalData {
+  patient: {
+    id: string
+    firstName: string
+    lastName: string
+  }
+  procedures: PortalProcedure[]
+  documents: PortalDocument[]
+}
+
+const confirmationBadges: Record<string, { label: string; className: string }> = {
+  PENDING: { label: 'Awaiting confirmation', className: 'bg-gray-100 text-gray-800' },
+  CONFIRMED: { label: 'Confirmed', className: 'bg-green-100 text-green-800' },
+  RESCHEDULE_REQUESTED: { label: 'Reschedule requested', className: 'bg-amber-100 text-amber-800' },
+  CANCELLED: { label: 'Cancelled', className: 'bg-red-100 text-red-800' },
+}
+
+const selectClassName =
+  'mt-1 block w-full rounded-md border border-gray-300 bg-white px-3 py-2 text-sm shadow-sm focus:border-indigo-500 focus:outline-none focus:ring-1 focus:ring-indigo-500'
+
+export default function PatientPortalPage() {
+  const { toast } = useToast()
+  const [data, setData] = useState<PortalData | null>(null)
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+  const [busy, setBusy] = useState<string | null>(null)
+  const [rescheduling, setRescheduling] = useState<string | null>(null)
+  const [note, setNote] = useState('')
+  const [kind, setKind] = useState<PatientDocumentKind>('ID')
+  const [file, setFile] = useState<File | null>(null)
+
+  useEffect(() => {
+    const fetchPortal = async () => {
+      try {
+        const response = await fetch('/api/portal/patient')
+        const body = await response.json()
+        if (!response.ok) {
+          throw new Error(body.error || 'Failed to load your appointments')
+        }
+        setData(body)
+      } catch (err) {
+        setError(err instanceof Error ? err.message : 'Failed to load your appointments')
+      } finally {
+        setLoading(false)
+      }
+    }
+
+    fetchPortal()
+  }, [])
+
+  const run = async (key: string, action: () => Promise<void>) => {
+    setBusy(key)
+    try {
+      await action()
+    } catch (err) {
+      toast({
+        title: 'Error',
+        description: err instanceof Error ? err.message : 'Something went wrong',
+        variant: 'destructive',
+      })
+    } finally {
+      setBusy(null)
+    }
+  }
+
+  const respond = (procedureId: string, action: 'CONFIRM' | 'RESCHEDULE') =>
+    run(procedureId, async () => {
+      const response = await fetch(`/api/portal/patient/procedures/${procedureId}`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ action, note: action === 'RESCHEDULE' ? note : undefined }),
+      })
+      const body = await response.json()
+      if (!response.ok) {
+        throw new Error(body.error || 'Failed to update your appointment')
+      }
+      setData((prev) => prev && {
+        ...prev,
+        procedures: prev.procedures.map((procedure) => (procedure.id === procedureId ? body : procedure)),
+      })
+      setRescheduling(null)
+      setNote('')
+      toast({
+        title: action === 'CONFIRM' ? 'Appointment confirmed' : 'Request sent',
+        description: action === 'CONFIRM' ? 'Thank you, see you then.' : 'Our office will call you to find a new time.',
+      })
+    })
+
+  const upload = () =>
+    run('upload', async () => {
+      if (!file) return
+      const formData = new FormData()
+      formData.append('kind', kind)
+      formData.append('file', file)
+
+      const response = await fetch('/api/portal/patient/documents', {
+        method: 'POST',
+        body: formData,
+      })
+      const body = await response.json()
+      if (!response.ok) {
+        throw new Error(body.error || 'Failed to upload document')
+      }
+      setData((prev) => prev && { ...prev, documents: [body, ...prev.documents] })
+      setFile(null)
+      toast({ title: 'Document uploaded' })
+    })
+
+  const removeDocument = (documentId: string) =>
+    run(documentId, async () => {
+      if (!confirm('Remove this document?')) return
+      const response = await fetch(`/api/portal/patient/documents/${documentId}`, { method: 'DELETE' })
+      if (!response.ok) {
+        const body = await response.json()
+        throw new Error(body.error || 'Failed to remove document')
+      }
+      setData((prev) => prev && { ...prev, documents: prev.documents.filter((document) => document.id !== documentId) })
+    })
+
+  if (loading) {
+    return (
+      <div className="min-h-[60vh] flex justify-center items-center">
+        <Loader2 className="h-16 w-16 text-indigo-600 animate-spin" />
+      </div>
+    )
+  }
+
+  if (error || !data) {
+    return (
+      <div className="max-w-4xl mx-auto px-4 sm:px-6 lg:px-8 py-12">
+        <div className="bg-red-50 border-l-4 border-red-500 p-4 rounded-lg max-w-md">
+          <p className="text-sm font-medium text-red-800">{error}</p>
+        </div>
+      </div>
+    )
+  }
+
+  return (
+    <motion.div
+      initial={{ opacity: 0 }}
+      animate={{ opacity: 1 }}
+      transition={{ duration: 0.5 }}
+      className="max-w-4xl mx-auto px-4 sm:px-6 lg:px-8 py-12 space-y-8"
+    >
+      <div>
+        <h1 className="text-2xl font-bold text-gray-900">Hello, {data.patient.firstName}</h1>
+        <p className="text-sm text-gray-500">Your upcoming appointments and the documents we have on file.</p>
+      </div>
+
+      <section className="space-y-4">
+        <h2 className="text-lg font-semibold text-gray-900">Upcoming appointments</h2>
+        {data.procedures.length === 0 ? (
+          <p className="text-sm text-gray-500">You have no upcoming appointments.</p>
+        ) : (
+          data.procedures.map((procedure) => {
+            const badge = confirmationBadges[procedure.confirmationStatus] ?? confirmationBadges.PENDING
+            const { facility } = procedure
+
+            return (
+              <div key={procedure.id} className="bg-white rounded-2xl shadow-xl p-6 space-y-4">
+                <div className="flex flex-col sm:flex-row sm:items-start justify-between gap-2">
+                  <div>
+                    <h3 className="text-lg font-semibold text-gray-900">{procedure.examName}</h3>
+                    <p className="flex items-center gap-2 text-sm text-gray-700">
+                      <CalendarClock className="h-4 w-4 text-indigo-600" />
+                      {format(new Date(procedure.startsAt), 'EEEE, MMMM d, yyyy')} at {procedure.scheduleTime}
+                    </p>
+                  </div>
+                  <Badge className={badge.className}>{badge.label}</Badge>
+                </div>
+
+                <div className="flex items-start gap-2 text-sm text-gray-700">
+                  <MapPin className="h-4 w-4 mt-0.5 text-indigo-600" />
+                  <div>
+                    <div className="font-medium">{facility.name}</div>
+                    <div>{facility.address}</div>
+                    <div>{facility.city}, {facility.state} {facility.zip}</div>
+                    {facility.phone && <div>{facility.phone}</div>}
+                    <a
+                      href={facility.mapUrl}
+                      target="_blank"
+                      rel="noopener noreferrer"
+                      className="text-indigo-600 hover:text-indigo-800"
+                    >
+                      Get directions
+                    </a>
+                  </div>
+                </div>
+
+                {procedure.prepInstructions && (
+                  <div className="rounded-lg bg-indigo-50 p-4">
+                    <p className="text-sm font-medium text-indigo-900">How to prepare</p>
+                    <p className="mt-1 text-sm text-indigo-900 whitespace-pre-line">{procedure.prepInstructions}</p>
+                  </div>
+                )}
+
+                {procedure.confirmationStatus === 'RESCHEDULE_REQUESTED' && (
+                  <p className="text-sm text-gray-600">
+                    We received your request{procedure.rescheduleNote ? ` ("${procedure.rescheduleNote}")` : ''} and will call you to find a new time.
+                  </p>
+                )}
+
+                {procedure.canRespond && rescheduling === procedure.id ? (
+                  <div className="space-y-2">
+                    <Label htmlFor={`note-${procedure.id}`}>When would suit you better?</Label>
+                    <Textarea
+                      id={`note-${procedure.id}`}
+                      value={note}
+                      onChange={(e) => setNote(e.target.value)}
+                      placeholder="e.g. any weekday morning next week"
+                      maxLength={500}
+                    />
+                    <div className="flex gap-2">
+                      <Button type="button" disabled={busy !== null} onClick={() => respond(procedure.id, 'RESCHEDULE')}>
+                        {busy === procedure.id && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                        Send request
+                      </Button>
+                      <Button type="button" variant="outline" disabled={busy !== null} onClick={() => setRescheduling(null)}>
+                        Never mind
+                      </Button>
+                    </div>
+                  </div>
+                ) : procedure.canRespond && (
+                  <div className="flex flex-wrap gap-2">
+                    {procedure.confirmationStatus !== 'CONFIRMED' && (
+                      <Button type="button" disabled={busy !== null} onClick={() => respond(procedure.id, 'CONFIRM')}>
+                        {busy === procedure.id ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <CheckCircle2 className="h-4 w-4 mr-2" />}
+                        Confirm
+                      </Button>
+                    )}
+                    {procedure.confirmationStatus !== 'RESCHEDULE_REQUESTED' && (
+                      <Button
+                        type="button"
+                        variant="outline"
+                        disabled={busy !== null}
+                        onClick={() => {
+                          setRescheduling(procedure.id)
+                          setNote('')
+                        }}
+                      >
+                        Request a different time
+                      </Button>
+                    )}
+                  </div>
+                )}
+              </div>
+            )
+          })
+        )}
+      </section>
+
+      <section className="bg-white rounded-2xl shadow-xl p-6 space-y-4">
+        <div>
+          <h2 className="text-lg font-semibold text-gray-900">ID and insurance cards</h2>
+          <p className="text-sm text-gray-500">Upload a photo or PDF so we have it ready before your visit.</p>
+        </div>
+
+        <div className="flex flex-col sm:flex-row sm:items-end gap-3">
+          <div className="sm:w-48">
+            <Label htmlFor="document-kind">Document</Label>
+            <select
+              id="document-kind"
+              value={kind}
+              onChange={(e) => setKind(e.target.value as PatientDocumentKind)}
+              className={selectClassName}
+            >
+              {Object.entries(PATIENT_DOCUMENT_KINDS).map(([value, label]) => (
+                <option key={value} value={value}>{label}</option>
+              ))}
+            </select>
+          </div>
+          <div className="flex-1">
+            <Label htmlFor="document-file">File</Label>
+            <input
+              id="document-file"
+              type="file"
+              accept="image/*,application/pdf"
+              onChange={(e) => setFile(e.target.files?.[0] ?? null)}
+              className="mt-1 block w-full text-sm text-gray-700"
+            />
+          </div>
+          <Button type="button" disabled={!file || busy !== null} onClick={upload}>
+            {busy === 'upload' ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Upload className="h-4 w-4 mr-2" />}
+            Upload
+          </Button>
+        </div>
+
+        {data.documents.length === 0 ? (
+          <p className="text-sm text-gray-500">Nothing uploaded yet.</p>
+        ) : (
+          <ul className="divide-y divide-gray-200">
+            {data.documents.map((document) => (
+              <li key={document.id} className="flex items-center justify-between py-2">
+                <a
+                  href={`/api/portal/patient/documents/${document.id}`}
+                  target="_blank"
+                  rel="noopener noreferrer"
+                  className="flex items-center gap-2 text-sm text-indigo-600 hover:text-indigo-800"
+                >
+                  <FileText className="h-4 w-4" />
+                  {PATIENT_DOCUMENT_KINDS[document.kind as PatientDocumentKind] ?? document.kind}: {document.name}
+                </a>
+                <div className="flex items-center gap-3">
+                  <span className="text-xs text-gray-500">{format(new Date(document.createdAt), 'MM/dd/yyyy')}</span>
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="sm"
+                    disabled={busy !== null}
+                    onClick={() => removeDocument(document.id)}
+                    aria-label="Remove document"
+                  >
+                    <Trash2 className="h-4 w-4 text-red-600" />
+                  </Button>
+                </div>
+              </li>
+            ))}
+          </ul>
+        )}
+      </section>
+    </motion.div>
+  )
+}
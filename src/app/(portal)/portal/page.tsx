@@ -0,0 +1,251 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { motion } from 'framer-motion'
+import { format } from 'date-fns'
+import { ChevronDown, ChevronRight, FileCheck, Loader2 } from 'lucide-react'
+import { Input } from '@/components/ui/input'
+import { Badge } from '@/components/ui/badge'
+
+interface PortalPatient {
+  id: string
+  firstName: string
+  lastName: string
+  dateOfBirth: string
+  status: {
+    name: string
+    color: string
+  }
+  procedures: Array<{
+    id: string
+    scheduleDate: string
+    scheduleTime: string
+    isCompleted: boolean
+    reportAvailable: boolean
+    exam: {
+      name: string
+    }
+    facility: {
+      name: string
+    }
+    status: {
+      name: string
+      color: string
+    }
+    lop: {
+      status: string
+    } | null
+  }>
+  invoices: Array<{
+    id: string
+    invoiceNumber: string
+    issueDate: string
+    status: string
+    subtotal: number
+    balance: number
+  }>
+  outstandingBalance: number
+}
+
+interface PortalData {
+  attorney: {
+    id: string
+    name: string
+  }
+  patients: PortalPatient[]
+}
+
+export default function AttorneyPortalPage() {
+  const [data, setData] = useState<PortalData | null>(null)
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+  const [search, setSearch] = useState('')
+  const [expanded, setExpanded] = useState<string | null>(null)
+
+  useEffect(() => {
+    const fetchPortal = async () => {
+      try {
+        const response = await fetch('/api/portal/attorney')
+        const body = await response.json()
+        if (!response.ok) {
+          throw new Error(body.error || 'Failed to load your clients')
+        }
+        setData(body)
+      } catch (err) {
+        setError(err instanceof Error ? err.message : 'Failed to load your clients')
+      } finally {
+        setLoading(false)
+      }
+    }
+
+    fetchPortal()
+  }, [])
+
+  const formatDate = (date: string) => format(new Date(date), 'MM/dd/yyyy')
+
+  if (loading) {
+    return (
+      <div className="min-h-[60vh] flex justify-center items-center">
+        <Loader2 className="h-16 w-16 text-indigo-600 animate-spin" />
+      </div>
+    )
+  }
+
+  if (error || !data) {
+    return (
+      <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-12">
+        <div className="bg-red-50 border-l-4 border-red-500 p-4 rounded-lg max-w-md">
+          <p className="text-sm font-medium text-red-800">{error}</p>
+        </div>
+      </div>
+    )
+  }
+
+  const term = search.trim().toLowerCase()
+  const patients = term
+    ? data.patients.filter((patient) =>
+        `${patient.firstName} ${patient.lastName}`.toLowerCase().includes(term)
+      )
+    : data.patients
+
+  const totalOutstanding = data.patients.reduce((total, patient) => total + patient.outstandingBalance, 0)
+  const pendingReports = data.patients.reduce(
+    (total, patient) => total + patient.procedures.filter((procedure) => !procedure.reportAvailable).length,
+    0
+  )
+
+  return (
+    <motion.div
+      initial={{ opacity: 0 }}
+      animate={{ opacity: 1 }}
+      transition={{ duration: 0.5 }}
+      className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-12 space-y-6"
+    >
+      <div className="flex flex-col sm:flex-row sm:items-end justify-between gap-4">
+        <div>
+          <h1 className="text-2xl font-bold text-gray-900">{data.attorney.name}</h1>
+          <p className="text-sm text-gray-500">
+            {data.patients.length} client{data.patients.length !== 1 ? 's' : ''} &middot; {pendingReports} report{pendingReports !== 1 ? 's' : ''} pending &middot; ${totalOutstanding.toFixed(2)} outstanding
+          </p>
+        </div>
+        <Input
+          placeholder="Search clients..."
+          value={search}
+          onChange={(e) => setSearch(e.target.value)}
+          className="sm:w-64"
+        />
+      </div>
+
+      {patients.length === 0 ? (
+        <p className="text-sm text-gray-500">No clients found.</p>
+      ) : (
+        <div className="bg-white rounded-2xl shadow-xl overflow-hidden divide-y divide-gray-200">
+          {patients.map((patient) => {
+            const isOpen = expanded === patient.id
+            const upcoming = patient.procedures
+              .filter((procedure) => !procedure.isCompleted)
+              .sort((a, b) => new Date(a.scheduleDate).getTime() - new Date(b.scheduleDate).getTime())[0]
+
+            return (
+              <div key={patient.id}>
+                <button
+                  onClick={() => setExpanded(isOpen ? null : patient.id)}
+                  className="w-full flex items-center justify-between px-6 py-4 text-left hover:bg-gray-50 transition-colors"
+                >
+                  <div className="flex items-center gap-3">
+                    {isOpen ? <ChevronDown className="h-4 w-4 text-gray-400" /> : <ChevronRight className="h-4 w-4 text-gray-400" />}
+                    <div>
+                      <p className="font-medium text-gray-900">
+                        {patient.lastName}, {patient.firstName}
+                      </p>
+                      <p className="text-xs text-gray-500">DOB {formatDate(patient.dateOfBirth)}</p>
+                    </div>
+                  </div>
+                  <div className="flex items-center gap-6 text-sm">
+                    <span className="hidden md:inline text-gray-500">
+                      {upcoming ? `Next: ${upcoming.exam.name} on ${formatDate(upcoming.scheduleDate)}` : 'Nothing scheduled'}
+                    </span>
+                    <span className="text-gray-900">${patient.outstandingBalance.toFixed(2)}</span>
+                    <Badge style={{ backgroundColor: patient.status.color }}>{patient.status.name}</Badge>
+                  </div>
+                </button>
+
+                {isOpen && (
+                  <div className="px-6 pb-6 space-y-4">
+                    <table className="min-w-full divide-y divide-gray-200">
+                      <thead className="bg-gray-50">
+                        <tr>
+                          <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Procedure</th>
+                          <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Scheduled</th>
+                          <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Facility</th>
+                          <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Status</th>
+                          <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">LOP</th>
+                          <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Report</th>
+                        </tr>
+                      </thead>
+                      <tbody className="divide-y divide-gray-200 text-sm">
+                        {patient.procedures.map((procedure) => (
+                          <tr key={procedure.id}>
+                            <td className="px-4 py-2 text-gray-900">{procedure.exam.name}</td>
+                            <td className="px-4 py-2 text-gray-900">
+                              {formatDate(procedure.scheduleDate)} {procedure.scheduleTime}
+                            </td>
+                            <td className="px-4 py-2 text-gray-900">{procedure.facility.name}</td>
+                            <td className="px-4 py-2">
+                              <Badge style={{ backgroundColor: procedure.status.color }}>{procedure.status.name}</Badge>
+                            </td>
+                            <td className="px-4 py-2 text-gray-900">{procedure.lop?.status ?? '—'}</td>
+                            <td className="px-4 py-2">
+                              {procedure.reportAvailable ? (
+                                <span className="inline-flex items-center text-green-700">
+                                  <FileCheck className="h-4 w-4 mr-1" />
+                                  Available
+                                </span>
+                              ) : (
+                                <span className="text-gray-500">Pending</span>
+                              )}
+                            </td>
+                          </tr>
+                        ))}
+                        {patient.procedures.length === 0 && (
+                          <tr>
+                            <td colSpan={6} className="px-4 py-2 text-gray-500">No procedures yet.</td>
+                          </tr>
+                        )}
+                      </tbody>
+                    </table>
+
+                    {patient.invoices.length > 0 && (
+                      <table className="min-w-full divide-y divide-gray-200">
+                        <thead className="bg-gray-50">
+                          <tr>
+                            <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Invoice</th>
+                            <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Issued</th>
+                            <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Status</th>
+                            <th className="px-4 py-2 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Total</th>
+                            <th className="px-4 py-2 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Balance</th>
+                          </tr>
+                        </thead>
+                        <tbody className="divide-y divide-gray-200 text-sm">
+                          {patient.invoices.map((invoice) => (
+                            <tr key={invoice.id}>
+                              <td className="px-4 py-2 text-gray-900">{invoice.invoiceNumber}</td>
+                              <td className="px-4 py-2 text-gray-900">{formatDate(invoice.issueDate)}</td>
+                              <td className="px-4 py-2 text-gray-900">{invoice.status}</td>
+                              <td className="px-4 py-2 text-right text-gray-900">${invoice.subtotal.toFixed(2)}</td>
+                              <td className="px-4 py-2 text-right text-gray-900">${invoice.balance.toFixed(2)}</td>
+                            </tr>
+                          ))}
+                        </tbody>
+                      </table>
+                    )}
+                  </div>
+                )}
+              </div>
+            )
+          })}
+        </div>
+      )}
+    </motion.div>
+  )
+}
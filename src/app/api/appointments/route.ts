@@ -1,5 +1,8 @@
 import { prisma } from '@/lib/prisma'
 import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { authOptions } from '@/lib/auth'
+import { getAppointmentScope } from '@/lib/access'
 
 type AppointmentInput = {
   patientId: string
@@ -12,6 +15,11 @@ type AppointmentInput = {
 
 export async function GET(request: NextRequest) {
   try {
+    const session = await getServerSession(authOptions)
+    if (!session) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
     const searchParams = request.nextUrl.searchParams
     const startDate = searchParams.get('startDate')
     const endDate = searchParams.get('endDate')
@@ -53,7 +61,9 @@ export async function GET(request: NextRequest) {
     console.log('Final where clause:', where)
 
     const appointments = await prisma.appointment.findMany({
-      where,
+      where: {
+        AND: [where, await getAppointmentScope(session)],
+      },
       include: {
         patient: true,
       },
@@ -81,6 +91,11 @@ export async function GET(request: NextRequest) {
 
 export async function POST(request: NextRequest) {
   try {
+    const session = await getServerSession(authOptions)
+    if (!session) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
     const data = await request.json()
     const { patientId, date, time, type, status = 'scheduled', notes } = data
 
@@ -123,6 +138,11 @@ export async function POST(request: NextRequest) {
 
 export async function PUT(request: NextRequest) {
   try {
+    const session = await getServerSession(authOptions)
+    if (!session) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
     const data = await request.json()
     const { id, patientId, date, time, type, status, notes } = data
 
@@ -155,6 +175,11 @@ export async function PUT(request: NextRequest) {
 
 export async function DELETE(request: NextRequest) {
   try {
+    const session = await getServerSession(authOptions)
+    if (!session) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
     const data = await request.json()
     const { id } = data
 
@@ -2,14 +2,12 @@ import { NextResponse } from 'next/server'
 import { Prisma } from '@prisma/client'
 import bcrypt from 'bcryptjs'
 import { prisma } from '@/lib/prisma'
-
-interface CaseManagerData {
-  name: string
-  email: string
-  phone: string
-  phoneExt?: string
-  faxNumber?: string
-}
+import { getServerSession } from 'next-auth'
+import { authOptions } from '@/lib/auth'
+import { CaseManagerError, syncCaseManagers } from '@/lib/case-managers'
+import { recordAudit } from '@/lib/audit'
+import { checkPasswordPolicy, PasswordPolicyError } from '@/lib/security-policy'
+import { endUserSessions } from '@/lib/sessions'
 
 export async function PUT(
   request: Request,
@@ -25,6 +23,13 @@ export async function PUT(
     const { password, caseManagers, ...attorneyData } = data
     console.log('Attorney Data:', attorneyData)
 
+    if (password) {
+      await checkPasswordPolicy(password)
+    }
+
+    const session = await getServerSession(authOptions)
+    const before = await prisma.attorney.findUnique({ where: { id } })
+
     // Start a transaction
     const result = await prisma.$transaction(async (tx) => {
       // Update attorney profile
@@ -43,7 +48,8 @@ export async function PUT(
             update: {
               name: attorneyData.name,
               email: attorneyData.email,
-              password: password ? await bcrypt.hash(password, 10) : undefined
+              password: password ? await bcrypt.hash(password, 10) : undefined,
+              passwordChangedAt: password ? new Date() : undefined
             }
           }
         },
@@ -62,27 +68,7 @@ export async function PUT(
 
       // Handle case managers if provided
       if (caseManagers && caseManagers.length > 0) {
-        // Delete existing case managers
-        await tx.caseManager.deleteMany({
-          where: { attorneyId: id }
-        })
-
-        // Create new case managers
-        const validCaseManagers = caseManagers.filter((manager: CaseManagerData) => 
-          manager.name && manager.email && manager.phone
-        )
-
-        if (validCaseManagers.length > 0) {
-          await tx.caseManager.createMany({
-            data: validCaseManagers.map((manager: CaseManagerData) => ({
-              attorneyId: id,
-              firstName: manager.name.split(' ')[0] || '',
-              lastName: manager.name.split(' ').slice(1).join(' ') || '',
-              email: manager.email,
-              phone: manager.phone
-            }))
-          })
-        }
+        await syncCaseManagers(tx, id, caseManagers)
       }
 
       // Always fetch and return the updated attorney with case managers
@@ -100,9 +86,27 @@ export async function PUT(
       })
     })
 
+    // Whoever was signed in with the old password has to sign in again
+    if (password && result) {
+      await endUserSessions(result.userId, session?.user.id)
+    }
+
+    await recordAudit(session, {
+      action: 'UPDATE',
+      entityType: 'Attorney',
+      entityId: id,
+      summary: result?.user.name,
+      before,
+      after: result,
+      ...(password && { details: { passwordChanged: true } }),
+    }, request)
+
     return NextResponse.json(result)
   } catch (error) {
     console.error('Error updating attorney:', error)
+    if (error instanceof CaseManagerError || error instanceof PasswordPolicyError) {
+      return NextResponse.json({ message: error.message }, { status: 400 })
+    }
     if (error instanceof Prisma.PrismaClientKnownRequestError) {
       return NextResponse.json(
         { message: `Database error: ${error.message}` },
@@ -8,14 +8,10 @@ import { jwtVerify } from 'jose'
 import { JwtPayload } from 'jsonwebtoken'
 import { getServerSession } from 'next-auth'
 import { authOptions } from '@/lib/auth'
-
-interface CaseManagerData {
-  name: string
-  email: string
-  phone: string
-  phoneExt?: string
-  faxNumber?: string
-}
+import { CaseManagerError, syncCaseManagers } from '@/lib/case-managers'
+import { recordAudit } from '@/lib/audit'
+import { checkPasswordPolicy, PasswordPolicyError } from '@/lib/security-policy'
+import { endUserSessions } from '@/lib/sessions'
 
 type AttorneyUpdateData = {
   phone?: string | null
@@ -60,6 +56,13 @@ export async function GET(request: Request) {
         )
       }
 
+      await recordAudit(session, {
+        action: 'VIEW',
+        entityType: 'Attorney',
+        entityId: attorney.id,
+        summary: attorney.user.name,
+      }, request)
+
       return NextResponse.json(attorney)
     }
 
@@ -78,6 +81,14 @@ export async function GET(request: Request) {
         createdAt: 'desc'
       }
     })
+
+    await recordAudit(session, {
+      action: 'VIEW',
+      entityType: 'Attorney',
+      summary: `Attorney list (${attorneys.length} records)`,
+      details: { attorneyIds: attorneys.map((attorney) => attorney.id) },
+    }, request)
+
     return NextResponse.json(attorneys)
   } catch (error) {
     console.error('Error fetching attorneys:', error)
@@ -91,6 +102,7 @@ export async function GET(request: Request) {
 // POST /api/attorneys - Create a new attorney
 export async function POST(request: Request) {
   try {
+    const session = await getServerSession(authOptions)
     const body = await request.json()
     console.log('Received attorney creation request:', body)
     const { name, email, password, hasLogin, phone, faxNumber, address, city, state, zipcode, zip, notes, caseManagers } = body
@@ -113,6 +125,10 @@ export async function POST(request: Request) {
       )
     }
 
+    if (hasLogin) {
+      await checkPasswordPolicy(password)
+    }
+
     // Check if email already exists
     const existingUser = await prisma.user.findUnique({
       where: { email }
@@ -140,7 +156,8 @@ export async function POST(request: Request) {
         email,
         name,
         role: 'ATTORNEY',
-        password: hasLogin && password ? await bcrypt.hash(password, 10) : ''
+        password: hasLogin && password ? await bcrypt.hash(password, 10) : '',
+        ...(hasLogin && password && { passwordChangedAt: new Date() })
       }
 
       const user = await tx.user.create({
@@ -192,31 +209,28 @@ export async function POST(request: Request) {
 
       // Create case managers if any
       if (caseManagers && caseManagers.length > 0) {
-        const validCaseManagers = caseManagers.filter((manager: CaseManagerData) => 
-          manager.name && manager.email && manager.phone
-        )
-
-        if (validCaseManagers.length > 0) {
-          console.log('Creating case managers:', JSON.stringify(validCaseManagers, null, 2))
-          await tx.caseManager.createMany({
-            data: validCaseManagers.map((manager: CaseManagerData) => ({
-              attorneyId: attorneyProfile.id,
-              firstName: manager.name.split(' ')[0] || '',
-              lastName: manager.name.split(' ').slice(1).join(' ') || '',
-              email: manager.email,
-              phone: manager.phone
-            }))
-          })
-        }
+        await syncCaseManagers(tx, attorneyProfile.id, caseManagers)
       }
 
       return attorneyProfile
     })
 
     console.log('Attorney created successfully:', JSON.stringify(attorney, null, 2))
+
+    await recordAudit(session, {
+      action: 'CREATE',
+      entityType: 'Attorney',
+      entityId: attorney.id,
+      summary: name,
+      after: attorney,
+    }, request)
+
     return NextResponse.json(attorney)
   } catch (error) {
     console.error('Error creating attorney:', error)
+    if (error instanceof CaseManagerError || error instanceof PasswordPolicyError) {
+      return NextResponse.json({ message: error.message }, { status: 400 })
+    }
     if (error instanceof Prisma.PrismaClientKnownRequestError) {
       console.error('Prisma error code:', error.code)
       console.error('Prisma error message:', error.message)
@@ -255,6 +269,13 @@ export async function PUT(request: Request) {
 
     const { password, caseManagers, ...attorneyData } = data
 
+    if (password) {
+      await checkPasswordPolicy(password)
+    }
+
+    const session = await getServerSession(authOptions)
+    const before = await prisma.attorney.findUnique({ where: { id } })
+
     // Start a transaction
     const result = await prisma.$transaction(async (tx) => {
       // Update attorney profile
@@ -272,41 +293,39 @@ export async function PUT(request: Request) {
         const hashedPassword = await bcrypt.hash(password, 10)
         await tx.user.update({
           where: { id: attorney.userId },
-          data: { password: hashedPassword },
+          data: { password: hashedPassword, passwordChangedAt: new Date() },
         })
       }
 
       // Handle case managers if provided
       if (caseManagers && caseManagers.length > 0) {
-        // Delete existing case managers
-        await tx.caseManager.deleteMany({
-          where: { attorneyId: id }
-        })
-
-        // Create new case managers
-        const validCaseManagers = caseManagers.filter((manager: CaseManagerData) => 
-          manager.name && manager.email && manager.phone
-        )
-
-        if (validCaseManagers.length > 0) {
-          await tx.caseManager.createMany({
-            data: validCaseManagers.map((manager: CaseManagerData) => ({
-              attorneyId: id,
-              firstName: manager.name.split(' ')[0] || '',
-              lastName: manager.name.split(' ').slice(1).join(' ') || '',
-              email: manager.email,
-              phone: manager.phone
-            }))
-          })
-        }
+        await syncCaseManagers(tx, id, caseManagers)
       }
 
       return attorney
     })
 
+    // Whoever was signed in with the old password has to sign in again
+    if (password) {
+      await endUserSessions(result.userId, session?.user.id)
+    }
+
+    await recordAudit(session, {
+      action: 'UPDATE',
+      entityType: 'Attorney',
+      entityId: id,
+      summary: `${result.firstName} ${result.lastName}`.trim(),
+      before,
+      after: result,
+      ...(password && { details: { passwordChanged: true } }),
+    }, request)
+
     return NextResponse.json(result)
   } catch (error) {
     console.error('Error updating attorney:', error)
+    if (error instanceof CaseManagerError || error instanceof PasswordPolicyError) {
+      return NextResponse.json({ message: error.message }, { status: 400 })
+    }
     if (error instanceof Prisma.PrismaClientKnownRequestError) {
       return NextResponse.json(
         { message: `Database error: ${error.message}` },
@@ -375,10 +394,8 @@ export async function DELETE(request: Request) {
 
     // Delete attorney and associated user in a transaction
     await prisma.$transaction(async (tx) => {
-      // Delete case managers first
-      await tx.caseManager.deleteMany({
-        where: { attorneyId: id }
-      })
+      // Delete case managers (and their portal logins) first
+      await syncCaseManagers(tx, id, [])
 
       // Delete attorney
       await tx.attorney.delete({
@@ -391,6 +408,14 @@ export async function DELETE(request: Request) {
       })
     })
 
+    await recordAudit(await getServerSession(authOptions), {
+      action: 'DELETE',
+      entityType: 'Attorney',
+      entityId: id,
+      summary: attorney.user.name,
+      before: attorney,
+    }, request)
+
     return NextResponse.json({ message: 'Attorney deleted successfully' })
   } catch (error) {
     console.error('Error deleting attorney:', error)
@@ -1,6 +1,7 @@
 import { NextResponse } from 'next/server'
 import { hash } from 'bcryptjs'
 import { prisma } from '@/lib/prisma'
+import { checkPasswordPolicy, PasswordPolicyError } from '@/lib/security-policy'
 
 export async function POST(request: Request) {
   try {
@@ -24,6 +25,8 @@ export async function POST(request: Request) {
       )
     }
 
+    await checkPasswordPolicy(password)
+
     const hashedPassword = await hash(password, 12)
 
     const user = await prisma.user.create({
@@ -31,6 +34,7 @@ export async function POST(request: Request) {
         name,
         email,
         password: hashedPassword,
+        passwordChangedAt: new Date(),
       }
     })
 
@@ -44,6 +48,9 @@ export async function POST(request: Request) {
       }
     })
   } catch (error) {
+    if (error instanceof PasswordPolicyError) {
+      return NextResponse.json({ error: error.message }, { status: 400 })
+    }
     console.error('Registration error:', error)
     return NextResponse.json(
       { error: 'An error occurred during registration' },
@@ -1,6 +1,6 @@
 import { NextResponse } from 'next/server'
 import { prisma } from '@/lib/prisma'
-import { randomBytes } from 'crypto'
+import { sendPasswordReset } from '@/lib/password-reset'
 
 export async function POST(request: Request) {
   try {
@@ -17,31 +17,19 @@ export async function POST(request: Request) {
       where: { email }
     })
 
-    if (!user) {
-      return NextResponse.json(
-        { error: 'No user found with this email' },
-        { status: 404 }
-      )
-    }
-
-    // Generate reset token
-    const resetToken = randomBytes(32).toString('hex')
-    const resetTokenExpiry = new Date(Date.now() + 3600000) // 1 hour from now
-
-    // Update user with reset token
-    await prisma.user.update({
-      where: { id: user.id },
-      data: {
-        resetToken,
-        resetTokenExpiry,
+    // The response is the same whether or not the account exists, so this
+    // endpoint cannot be used to discover registered emails. A failed send is
+    // only logged for the same reason.
+    if (user) {
+      try {
+        await sendPasswordReset(user)
+      } catch (error) {
+        console.error('Password reset email failed:', error)
       }
-    })
+    }
 
-    // TODO: Send email with reset link
-    // For now, we'll just return the token in the response
     return NextResponse.json({
-      message: 'Password reset instructions sent to your email',
-      resetToken // In production, remove this and send via email
+      message: 'If an account exists for this email, password reset instructions have been sent'
     })
   } catch (error) {
     console.error('Password reset error:', error)
@@ -50,4 +38,4 @@ export async function POST(request: Request) {
       { status: 500 }
     )
   }
-} 
\ No newline at end of file
+}
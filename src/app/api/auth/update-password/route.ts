@@ -1,6 +1,9 @@
 import { NextResponse } from 'next/server'
 import { hash } from 'bcryptjs'
 import { prisma } from '@/lib/prisma'
+import { hashResetToken } from '@/lib/password-reset'
+import { checkPasswordPolicy, PasswordPolicyError } from '@/lib/security-policy'
+import { endUserSessions } from '@/lib/sessions'
 
 export async function POST(request: Request) {
   try {
@@ -15,7 +18,7 @@ export async function POST(request: Request) {
 
     const user = await prisma.user.findFirst({
       where: {
-        resetToken: token,
+        resetToken: hashResetToken(token),
         resetTokenExpiry: {
           gt: new Date()
         }
@@ -29,21 +32,31 @@ export async function POST(request: Request) {
       )
     }
 
+    await checkPasswordPolicy(password)
+
     const hashedPassword = await hash(password, 12)
 
+    // A reset also unlocks the account and signs out anyone holding the old password
     await prisma.user.update({
       where: { id: user.id },
       data: {
         password: hashedPassword,
+        passwordChangedAt: new Date(),
+        failedLoginAttempts: 0,
+        lockedUntil: null,
         resetToken: null,
         resetTokenExpiry: null,
       }
     })
+    await endUserSessions(user.id)
 
     return NextResponse.json({
       message: 'Password updated successfully'
     })
   } catch (error) {
+    if (error instanceof PasswordPolicyError) {
+      return NextResponse.json({ error: error.message }, { status: 400 })
+    }
     console.error('Password update error:', error)
     return NextResponse.json(
       { error: 'An error occurred while updating your password' },
@@ -0,0 +1,39 @@
+import { NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { authOptions } from '@/lib/auth'
+import { getAvailability, SchedulingError } from '@/lib/scheduling'
+
+// GET /api/availability?examId=&facilityId=&date=yyyy-MM-dd - Open slots for an exam
+export async function GET(request: Request) {
+  try {
+    const session = await getServerSession(authOptions)
+    if (!session) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { searchParams } = new URL(request.url)
+    const examId = searchParams.get('examId')
+    const facilityId = searchParams.get('facilityId')
+    const date = searchParams.get('date')
+
+    if (!examId || !facilityId || !date) {
+      return NextResponse.json(
+        { error: 'Exam, facility and date are required' },
+        { status: 400 }
+      )
+    }
+
+    const availability = await getAvailability({ examId, facilityId, date })
+
+    return NextResponse.json(availability)
+  } catch (error) {
+    if (error instanceof SchedulingError) {
+      return NextResponse.json({ error: error.message }, { status: 400 })
+    }
+    console.error('[AVAILABILITY_GET]', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,63 @@
+import { NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { authOptions } from '@/lib/auth'
+import { prisma } from '@/lib/prisma'
+import { recordAuditMany } from '@/lib/audit'
+import { notifyReportsDelivered } from '@/lib/notifications'
+
+// POST /api/cases/[id]/reports - Mark procedure reports as sent to the attorney
+export async function POST(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await getServerSession(authOptions)
+    if (!session) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { id } = await params
+    const { procedureIds, delivered = true } = await request.json()
+    if (!Array.isArray(procedureIds) || procedureIds.length === 0) {
+      return NextResponse.json({ error: 'Procedure IDs are required' }, { status: 400 })
+    }
+
+    const procedures = await prisma.procedure.findMany({
+      where: { id: { in: procedureIds }, caseId: id },
+      include: { exam: true },
+    })
+    if (procedures.length !== new Set(procedureIds).size) {
+      return NextResponse.json({ error: 'Procedures must belong to this case' }, { status: 400 })
+    }
+    if (delivered && procedures.some((procedure) => !procedure.isCompleted)) {
+      return NextResponse.json({ error: 'Only completed procedures have a report to deliver' }, { status: 400 })
+    }
+
+    const reportDeliveredAt = delivered ? new Date() : null
+    await prisma.procedure.updateMany({
+      where: { id: { in: procedureIds } },
+      data: { reportDeliveredAt },
+    })
+
+    await recordAuditMany(session, procedures.map((procedure) => ({
+      action: 'UPDATE' as const,
+      entityType: 'Procedure' as const,
+      entityId: procedure.id,
+      patientId: procedure.patientId,
+      summary: delivered ? `${procedure.exam.name} report delivered` : `${procedure.exam.name} report marked undelivered`,
+      before: { reportDeliveredAt: procedure.reportDeliveredAt },
+      after: { reportDeliveredAt },
+    })), request)
+    if (delivered) {
+      await notifyReportsDelivered(session, id, procedures)
+    }
+
+    return NextResponse.json({ updated: procedures.length, reportDeliveredAt })
+  } catch (error) {
+    console.error('[CASE_REPORTS_POST]', error)
+    return NextResponse.json(
+      { error: 'Failed to update report delivery' },
+      { status: 500 }
+    )
+  }
+}
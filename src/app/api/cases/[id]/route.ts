@@ -1,7 +1,18 @@
 import { NextResponse } from 'next/server'
 import { getServerSession } from 'next-auth'
 import { authOptions } from '@/lib/auth'
+import { getPatientScope } from '@/lib/access'
 import { prisma } from '@/lib/prisma'
+import { recordAudit } from '@/lib/audit'
+import {
+  assignCaseProcedures,
+  buildCaseSummary,
+  CaseError,
+  caseInclude,
+  caseListInclude,
+  parseCaseInput,
+  validateCaseLinks,
+} from '@/lib/cases'
 
 export async function GET(
   request: Request,
@@ -14,19 +25,12 @@ export async function GET(
     }
 
     const resolvedParams = await params
-    const case_ = await prisma.case.findUnique({
+    const case_ = await prisma.case.findFirst({
       where: {
         id: resolvedParams.id,
+        patient: await getPatientScope(session),
       },
-      include: {
-        patient: {
-          select: {
-            id: true,
-            firstName: true,
-            lastName: true,
-          },
-        },
-      },
+      include: caseInclude,
     })
 
     if (!case_) {
@@ -37,8 +41,17 @@ export async function GET(
     const formattedCase = {
       ...case_,
       filingDate: case_.filingDate?.toISOString() || null,
+      summary: await buildCaseSummary(case_),
     }
 
+    await recordAudit(session, {
+      action: 'VIEW',
+      entityType: 'Case',
+      entityId: case_.id,
+      patientId: case_.patientId,
+      summary: case_.caseNumber,
+    }, request)
+
     return NextResponse.json(formattedCase)
   } catch (error) {
     console.error('Error fetching case:', error)
@@ -57,28 +70,43 @@ export async function PUT(
     }
 
     const resolvedParams = await params
-    const body = await request.json()
-    const { caseNumber, status, filingDate, notes } = body
+    const input = parseCaseInput(await request.json())
 
-    const case_ = await prisma.case.update({
+    const before = await prisma.case.findUnique({
       where: {
         id: resolvedParams.id,
       },
-      data: {
-        caseNumber,
-        status,
-        filingDate: filingDate ? new Date(filingDate) : null,
-        notes,
-      },
-      include: {
-        patient: {
-          select: {
-            id: true,
-            firstName: true,
-            lastName: true,
-          },
+    })
+    if (!before) {
+      return new NextResponse('Case not found', { status: 404 })
+    }
+
+    // A new attorney brings their own case managers
+    const attorneyChanged = input.attorneyId !== undefined && input.attorneyId !== before.attorneyId
+    if (attorneyChanged && input.caseManagerId === undefined) {
+      input.caseManagerId = null
+    }
+    await validateCaseLinks(before.patientId, {
+      attorneyId: input.attorneyId !== undefined ? input.attorneyId : before.attorneyId,
+      caseManagerId: input.caseManagerId !== undefined ? input.caseManagerId : before.caseManagerId,
+      procedureIds: input.procedureIds,
+    })
+
+    const { procedureIds, ...fields } = input
+    const case_ = await prisma.$transaction(async (tx) => {
+      if (procedureIds) {
+        await assignCaseProcedures(before.id, procedureIds, tx)
+      }
+      return tx.case.update({
+        where: {
+          id: resolvedParams.id,
         },
-      },
+        data: {
+          ...fields,
+          updatedAt: new Date(),
+        },
+        include: caseListInclude,
+      })
     })
 
     // Format the date to ISO string for consistent handling
@@ -87,8 +115,21 @@ export async function PUT(
       filingDate: case_.filingDate?.toISOString() || null,
     }
 
+    await recordAudit(session, {
+      action: 'UPDATE',
+      entityType: 'Case',
+      entityId: case_.id,
+      patientId: case_.patientId,
+      summary: case_.caseNumber,
+      before,
+      after: case_,
+    }, request)
+
     return NextResponse.json(formattedCase)
   } catch (error) {
+    if (error instanceof CaseError) {
+      return NextResponse.json({ error: error.message }, { status: 400 })
+    }
     console.error('Error updating case:', error)
     return new NextResponse('Internal Server Error', { status: 500 })
   }
@@ -105,12 +146,25 @@ export async function DELETE(
     }
 
     const resolvedParams = await params
-    await prisma.case.delete({
+    await prisma.procedure.updateMany({
+      where: { caseId: resolvedParams.id },
+      data: { caseId: null },
+    })
+    const case_ = await prisma.case.delete({
       where: {
         id: resolvedParams.id,
       },
     })
 
+    await recordAudit(session, {
+      action: 'DELETE',
+      entityType: 'Case',
+      entityId: case_.id,
+      patientId: case_.patientId,
+      summary: case_.caseNumber,
+      before: case_,
+    }, request)
+
     return new NextResponse(null, { status: 204 })
   } catch (error) {
     console.error('Error deleting case:', error)
@@ -1,9 +1,12 @@
 import { NextResponse } from 'next/server'
 import { getServerSession } from 'next-auth'
 import { authOptions } from '@/lib/auth'
+import { getPatientScope } from '@/lib/access'
 import { prisma } from '@/lib/prisma'
+import { recordAudit } from '@/lib/audit'
+import { assignCaseProcedures, CaseError, caseListInclude, parseCaseInput, validateCaseLinks } from '@/lib/cases'
 
-export async function GET() {
+export async function GET(request: Request) {
   try {
     const session = await getServerSession(authOptions)
 
@@ -12,20 +15,22 @@ export async function GET() {
     }
 
     const cases = await prisma.case.findMany({
+      where: {
+        patient: await getPatientScope(session),
+      },
       orderBy: {
         createdAt: 'desc',
       },
-      include: {
-        patient: {
-          select: {
-            id: true,
-            firstName: true,
-            lastName: true,
-          },
-        },
-      },
+      include: caseListInclude,
     })
 
+    await recordAudit(session, {
+      action: 'VIEW',
+      entityType: 'Case',
+      summary: `Case list (${cases.length} records)`,
+      details: { caseIds: cases.map((item) => item.id) },
+    }, request)
+
     return NextResponse.json(cases)
   } catch (error) {
     console.error('Error fetching cases:', error)
@@ -41,34 +46,63 @@ export async function POST(request: Request) {
     }
 
     const body = await request.json()
-    const { caseNumber, patientId, status, filingDate, notes } = body
+    const { patientId } = body
+    const input = parseCaseInput(body)
+    if (!patientId || !input.caseNumber || !input.filingDate) {
+      return NextResponse.json(
+        { error: 'Patient, case number and filing date are required' },
+        { status: 400 }
+      )
+    }
+
+    const patient = await prisma.patient.findUnique({ where: { id: patientId } })
+    if (!patient) {
+      return NextResponse.json({ error: 'Patient not found' }, { status: 404 })
+    }
+    await validateCaseLinks(patientId, input)
 
-    // Convert the date string to an ISO-8601 DateTime
-    const formattedFilingDate = new Date(filingDate).toISOString()
+    // The patient's date of injury is the usual starting point for the case
+    const { procedureIds, ...fields } = input
+    const injury = patient.doidol ? new Date(patient.doidol as string) : null
+    const now = new Date()
 
-    const case_ = await prisma.case.create({
-      data: {
-        caseNumber,
-        patient: {
-          connect: { id: patientId },
-        },
-        status,
-        filingDate: formattedFilingDate,
-        notes,
-      },
-      include: {
-        patient: {
-          select: {
-            id: true,
-            firstName: true,
-            lastName: true,
-          },
+    const case_ = await prisma.$transaction(async (tx) => {
+      const created = await tx.case.create({
+        data: {
+          ...fields,
+          caseNumber: input.caseNumber!,
+          filingDate: input.filingDate!,
+          status: input.status ?? 'open',
+          notes: input.notes ?? '',
+          dateOfInjury: input.dateOfInjury !== undefined
+            ? input.dateOfInjury
+            : injury && !isNaN(injury.getTime()) ? injury : null,
+          patientId,
+          createdAt: now,
+          updatedAt: now,
         },
-      },
+        include: caseListInclude,
+      })
+      if (procedureIds) {
+        await assignCaseProcedures(created.id, procedureIds, tx)
+      }
+      return created
     })
 
+    await recordAudit(session, {
+      action: 'CREATE',
+      entityType: 'Case',
+      entityId: case_.id,
+      patientId: case_.patientId,
+      summary: case_.caseNumber,
+      after: case_,
+    }, request)
+
     return NextResponse.json(case_)
   } catch (error) {
+    if (error instanceof CaseError) {
+      return NextResponse.json({ error: error.message }, { status: 400 })
+    }
     console.error('Error creating case:', error)
     return new NextResponse('Internal Server Error', { status: 500 })
   }
@@ -0,0 +1,53 @@
+import { NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { authOptions } from '@/lib/auth'
+import { prisma } from '@/lib/prisma'
+
+// GET /api/charges - List ledger line items, e.g. ?patientId=...&unbilled=true
+export async function GET(request: Request) {
+  try {
+    const session = await getServerSession(authOptions)
+    if (!session) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { searchParams } = new URL(request.url)
+    const patientId = searchParams.get('patientId')
+    const attorneyId = searchParams.get('attorneyId')
+    const unbilled = searchParams.get('unbilled') === 'true'
+
+    const charges = await prisma.charge.findMany({
+      where: {
+        ...(patientId && { patientId }),
+        ...(attorneyId && { attorneyId }),
+        ...(unbilled && { invoiceId: null }),
+      },
+      include: {
+        patient: {
+          select: {
+            id: true,
+            firstName: true,
+            lastName: true,
+          },
+        },
+        invoice: {
+          select: {
+            id: true,
+            invoiceNumber: true,
+          },
+        },
+      },
+      orderBy: {
+        serviceDate: 'desc',
+      },
+    })
+
+    return NextResponse.json(charges)
+  } catch (error) {
+    console.error('[CHARGES_GET]', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
@@ -1,22 +0,0 @@
-import { NextResponse } from 'next/server'
-import { prisma } from '@/lib/prisma'
-
-export async function PATCH(
-  request: Request,
-  { params }: { params: { id: string } }
-) {
-  try {
-    const data = await request.json()
-    const doctor = await prisma.doctor.update({
-      where: { id: params.id },
-      data: { hasLogin: data.hasLogin },
-    })
-    return NextResponse.json(doctor)
-  } catch (error) {
-    console.error('Error updating doctor login status:', error)
-    return NextResponse.json(
-      { error: 'Failed to update doctor login status' },
-      { status: 500 }
-    )
-  }
-} 
\ No newline at end of file
@@ -0,0 +1,34 @@
+import { NextResponse } from "next/server"
+import { getServerSession } from "next-auth"
+import { format } from "date-fns"
+import { authOptions } from "@/lib/auth"
+import { prisma } from "@/lib/prisma"
+import { auditToCsv, buildAuditWhere } from "@/lib/audit"
+
+// GET /api/events/export - Download the filtered audit log as CSV
+export async function GET(request: Request) {
+  try {
+    const session = await getServerSession(authOptions)
+    if (!session) {
+      return new NextResponse("Unauthorized", { status: 401 })
+    }
+
+    const { searchParams } = new URL(request.url)
+    const events = await prisma.event.findMany({
+      where: buildAuditWhere(searchParams),
+      orderBy: {
+        createdAt: "desc",
+      },
+    })
+
+    return new NextResponse(auditToCsv(events), {
+      headers: {
+        "Content-Type": "text/csv",
+        "Content-Disposition": `attachment; filename="audit-log-${format(new Date(), "yyyy-MM-dd")}.csv"`,
+      },
+    })
+  } catch (error) {
+    console.error("[EVENTS_EXPORT]", error)
+    return new NextResponse("Internal error", { status: 500 })
+  }
+}
@@ -2,106 +2,37 @@ import { NextResponse } from "next/server"
 import { getServerSession } from "next-auth"
 import { authOptions } from "@/lib/auth"
 import { prisma } from "@/lib/prisma"
+import { buildAuditWhere } from "@/lib/audit"
 
-export async function GET() {
+// GET /api/events - Page through the audit log, filtered by user, patient,
+// record type, action and date range
+export async function GET(request: Request) {
   try {
     const session = await getServerSession(authOptions)
     if (!session) {
       return new NextResponse("Unauthorized", { status: 401 })
     }
 
-    const events = await prisma.event.findMany({
-      include: {
-        assignedTo: {
-          select: {
-            id: true,
-            name: true,
-            email: true,
-          },
-        },
-        examType: {
-          select: {
-            id: true,
-            name: true,
-            duration: true,
-          },
-        },
-        patient: {
-          select: {
-            id: true,
-            firstName: true,
-            lastName: true,
-            email: true,
-          },
+    const { searchParams } = new URL(request.url)
+    const page = Math.max(parseInt(searchParams.get("page") || "1", 10) || 1, 1)
+    const limit = Math.min(Math.max(parseInt(searchParams.get("limit") || "50", 10) || 50, 1), 200)
+    const where = buildAuditWhere(searchParams)
+
+    const [events, total] = await Promise.all([
+      prisma.event.findMany({
+        where,
+        orderBy: {
+          createdAt: "desc",
         },
-      },
-      orderBy: {
-        start: "asc",
-      },
-    })
+        skip: (page - 1) * limit,
+        take: limit,
+      }),
+      prisma.event.count({ where }),
+    ])
 
-    return NextResponse.json(events)
+    return NextResponse.json({ events, total, page, limit })
   } catch (error) {
     console.error("[EVENTS_GET]", error)
     return new NextResponse("Internal error", { status: 500 })
   }
 }
-
-export async function POST(req: Request) {
-  try {
-    const session = await getServerSession(authOptions)
-    if (!session) {
-      return new NextResponse("Unauthorized", { status: 401 })
-    }
-
-    const body = await req.json()
-    const { title, start, end, description, type, assignedToId, examTypeId, patientId } = body
-
-    if (!title || !start || !end) {
-      return new NextResponse("Missing required fields", { status: 400 })
-    }
-
-    const event = await prisma.event.create({
-      data: {
-        title,
-        start: new Date(start),
-        end: new Date(end),
-        description,
-        type,
-        assignedToId,
-        examTypeId,
-        patientId,
-        status: "scheduled",
-      },
-      include: {
-        assignedTo: {
-          select: {
-            id: true,
-            name: true,
-            email: true,
-          },
-        },
-        examType: {
-          select: {
-            id: true,
-            name: true,
-            duration: true,
-          },
-        },
-        patient: {
-          select: {
-            id: true,
-            firstName: true,
-            lastName: true,
-            email: true,
-          },
-        },
-      },
-    })
-
-    return NextResponse.json(event)
-  } catch (error) {
-    console.error("[EVENTS_POST]", error)
-    return new NextResponse("Internal error", { status: 500 })
-  }
-} 
\ No newline at end of file
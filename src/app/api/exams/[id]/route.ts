@@ -1,4 +1,6 @@
 import { NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { authOptions } from '@/lib/auth'
 import { prisma } from '@/lib/prisma'
 
 export async function GET(
@@ -6,6 +8,11 @@ export async function GET(
   { params }: { params: { id: string } }
 ) {
   try {
+    const session = await getServerSession(authOptions)
+    if (!session) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
     const id = await Promise.resolve(params.id)
     const exam = await prisma.exam.findUnique({
       where: { id },
@@ -36,9 +43,14 @@ export async function PUT(
   { params }: { params: { id: string } }
 ) {
   try {
+    const session = await getServerSession(authOptions)
+    if (!session) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
     const id = await Promise.resolve(params.id)
     const body = await request.json()
-    const { name, category, subExams } = body
+    const { name, category, subExams, modality, durationMinutes, prepInstructions } = body
 
     // Update exam and handle sub-exams
     const exam = await prisma.exam.update({
@@ -46,6 +58,9 @@ export async function PUT(
       data: {
         name: name.trim(),
         category: category.trim(),
+        modality: modality || null,
+        durationMinutes: durationMinutes ? Number(durationMinutes) : null,
+        prepInstructions: prepInstructions?.trim() || null,
         subExams: {
           deleteMany: {}, // Delete all existing sub-exams
           create: subExams.map((subExam: { name: string; price: number }) => ({
@@ -74,6 +89,11 @@ export async function DELETE(
   { params }: { params: { id: string } }
 ) {
   try {
+    const session = await getServerSession(authOptions)
+    if (!session) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
     const id = await Promise.resolve(params.id)
     await prisma.exam.delete({
       where: { id }
@@ -40,14 +40,22 @@ export async function GET() {
 
 export async function POST(request: NextRequest) {
   try {
+    const session = await getServerSession(authOptions)
+    if (!session) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
     const body = await request.json()
-    const { name, category, subExams } = body
+    const { name, category, subExams, modality, durationMinutes, prepInstructions } = body
 
     // Create exam with sub-exams
     const exam = await prisma.exam.create({
       data: {
         name: name.trim(),
         category: category.trim(),
+        modality: modality || null,
+        durationMinutes: durationMinutes ? Number(durationMinutes) : null,
+        prepInstructions: prepInstructions?.trim() || null,
         subExams: {
           create: subExams.map((subExam: { name: string; price: number }) => ({
             name: subExam.name.trim(),
@@ -72,6 +80,11 @@ export async function POST(request: NextRequest) {
 
 export async function PUT(request: NextRequest) {
   try {
+    const session = await getServerSession(authOptions)
+    if (!session) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
     const data = await request.json()
     const { id } = data
 
@@ -115,6 +128,11 @@ export async function PUT(request: NextRequest) {
 
 export async function DELETE(request: NextRequest) {
   try {
+    const session = await getServerSession(authOptions)
+    if (!session) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
     const { searchParams } = new URL(request.url)
     const id = searchParams.get('id')
 
@@ -0,0 +1,101 @@
+import { NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { authOptions } from '@/lib/auth'
+import { prisma } from '@/lib/prisma'
+import { MODALITIES, type Modality } from '@/lib/scheduling'
+
+// PUT /api/facilities/[id]/resources/[resourceId] - Rename, retype or (de)activate
+export async function PUT(
+  request: Request,
+  { params }: { params: Promise<{ id: string; resourceId: string }> }
+) {
+  try {
+    const session = await getServerSession(authOptions)
+    if (!session) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { id, resourceId } = await params
+    const { name, modality, isActive } = await request.json()
+
+    if (name !== undefined && !name.trim()) {
+      return NextResponse.json({ error: 'Name is required' }, { status: 400 })
+    }
+    if (modality !== undefined && !MODALITIES.includes(modality as Modality)) {
+      return NextResponse.json(
+        { error: `Modality must be one of ${MODALITIES.join(', ')}` },
+        { status: 400 }
+      )
+    }
+
+    const existing = await prisma.facilityResource.findFirst({
+      where: { id: resourceId, facilityId: id },
+    })
+    if (!existing) {
+      return NextResponse.json({ error: 'Resource not found' }, { status: 404 })
+    }
+
+    const resource = await prisma.facilityResource.update({
+      where: { id: resourceId },
+      data: {
+        ...(name !== undefined && { name: name.trim() }),
+        ...(modality !== undefined && { modality }),
+        ...(isActive !== undefined && { isActive: Boolean(isActive) }),
+      },
+    })
+
+    return NextResponse.json(resource)
+  } catch (error) {
+    console.error('[FACILITY_RESOURCE_PUT]', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
+
+// DELETE /api/facilities/[id]/resources/[resourceId] - Resources with bookings
+// are deactivated so past procedures keep their room
+export async function DELETE(
+  request: Request,
+  { params }: { params: Promise<{ id: string; resourceId: string }> }
+) {
+  try {
+    const session = await getServerSession(authOptions)
+    if (!session) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { id, resourceId } = await params
+    const resource = await prisma.facilityResource.findFirst({
+      where: { id: resourceId, facilityId: id },
+      include: {
+        _count: {
+          select: { procedures: true },
+        },
+      },
+    })
+    if (!resource) {
+      return NextResponse.json({ error: 'Resource not found' }, { status: 404 })
+    }
+
+    if (resource._count.procedures > 0) {
+      await prisma.facilityResource.update({
+        where: { id: resourceId },
+        data: { isActive: false },
+      })
+    } else {
+      await prisma.facilityResource.delete({
+        where: { id: resourceId },
+      })
+    }
+
+    return new NextResponse(null, { status: 204 })
+  } catch (error) {
+    console.error('[FACILITY_RESOURCE_DELETE]', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
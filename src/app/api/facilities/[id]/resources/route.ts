@@ -0,0 +1,74 @@
+import { NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { authOptions } from '@/lib/auth'
+import { prisma } from '@/lib/prisma'
+import { MODALITIES, type Modality } from '@/lib/scheduling'
+
+// GET /api/facilities/[id]/resources - Rooms and machines at a facility
+export async function GET(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await getServerSession(authOptions)
+    if (!session) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { id } = await params
+    const resources = await prisma.facilityResource.findMany({
+      where: { facilityId: id },
+      orderBy: { name: 'asc' },
+    })
+
+    return NextResponse.json(resources)
+  } catch (error) {
+    console.error('[FACILITY_RESOURCES_GET]', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
+
+// POST /api/facilities/[id]/resources - Add a room or machine
+export async function POST(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await getServerSession(authOptions)
+    if (!session) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { id } = await params
+    const { name, modality } = await request.json()
+
+    if (!name?.trim()) {
+      return NextResponse.json({ error: 'Name is required' }, { status: 400 })
+    }
+    if (!MODALITIES.includes(modality as Modality)) {
+      return NextResponse.json(
+        { error: `Modality must be one of ${MODALITIES.join(', ')}` },
+        { status: 400 }
+      )
+    }
+
+    const resource = await prisma.facilityResource.create({
+      data: {
+        facilityId: id,
+        name: name.trim(),
+        modality,
+      },
+    })
+
+    return NextResponse.json(resource)
+  } catch (error) {
+    console.error('[FACILITY_RESOURCES_POST]', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
@@ -1,14 +1,27 @@
 import { NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { authOptions } from '@/lib/auth'
 import { prisma } from '@/lib/prisma'
+import { parseOperatingHours, SchedulingError } from '@/lib/scheduling'
 
 export async function GET(
   request: Request,
   { params }: { params: { id: string } }
 ) {
   try {
+    const session = await getServerSession(authOptions)
+    if (!session) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
     const id = await Promise.resolve(params.id)
     const facility = await prisma.facility.findUnique({
       where: { id },
+      include: {
+        resources: {
+          orderBy: { name: 'asc' },
+        },
+      },
     })
 
     if (!facility) {
@@ -33,6 +46,11 @@ export async function PUT(
   { params }: { params: { id: string } }
 ) {
   try {
+    const session = await getServerSession(authOptions)
+    if (!session) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
     const id = await Promise.resolve(params.id)
     const body = await request.json()
     const {
@@ -45,6 +63,7 @@ export async function PUT(
       fax,
       email,
       mapLink,
+      operatingHours,
     } = body
 
     // Validate required fields
@@ -67,11 +86,15 @@ export async function PUT(
         fax: fax?.trim(),
         email: email?.trim(),
         mapLink: mapLink?.trim(),
+        ...(operatingHours !== undefined && { operatingHours: parseOperatingHours(operatingHours) }),
       },
     })
 
     return NextResponse.json(facility)
   } catch (error) {
+    if (error instanceof SchedulingError) {
+      return NextResponse.json({ error: error.message }, { status: 400 })
+    }
     console.error('Error updating facility:', error)
     return NextResponse.json(
       { error: 'Failed to update facility' },
@@ -85,6 +108,11 @@ export async function DELETE(
   { params }: { params: { id: string } }
 ) {
   try {
+    const session = await getServerSession(authOptions)
+    if (!session) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
     const id = await Promise.resolve(params.id)
     await prisma.facility.delete({
       where: { id },
@@ -0,0 +1,21 @@
+import { NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { authOptions } from '@/lib/auth'
+import { searchCities } from '@/lib/geo'
+
+export async function GET(request: Request) {
+  try {
+    const session = await getServerSession(authOptions)
+    if (!session) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { searchParams } = new URL(request.url)
+    const cities = await searchCities(searchParams.get('q') ?? '', searchParams.get('state'))
+
+    return NextResponse.json(cities)
+  } catch (error) {
+    console.error('[GEO_CITIES_GET]', error)
+    return NextResponse.json({ error: 'Failed to search cities' }, { status: 500 })
+  }
+}
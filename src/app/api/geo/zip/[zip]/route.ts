@@ -0,0 +1,30 @@
+import { NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { authOptions } from '@/lib/auth'
+import { findZipCode, GeoError } from '@/lib/geo'
+
+export async function GET(
+  request: Request,
+  { params }: { params: Promise<{ zip: string }> }
+) {
+  try {
+    const session = await getServerSession(authOptions)
+    if (!session) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { zip } = await params
+    const place = await findZipCode(zip)
+    if (!place) {
+      return NextResponse.json({ error: 'ZIP code not found' }, { status: 404 })
+    }
+
+    return NextResponse.json(place)
+  } catch (error) {
+    if (error instanceof GeoError) {
+      return NextResponse.json({ error: error.message }, { status: 400 })
+    }
+    console.error('[GEO_ZIP_GET]', error)
+    return NextResponse.json({ error: 'Failed to look up ZIP code' }, { status: 500 })
+  }
+}
@@ -0,0 +1,54 @@
+import { NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { authOptions } from '@/lib/auth'
+import { BillingError, PAYMENT_METHODS, recordPayment } from '@/lib/billing'
+
+// POST /api/invoices/[id]/payments - Record a payment received against an invoice
+export async function POST(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await getServerSession(authOptions)
+    if (!session) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { id } = await params
+    const { amount, receivedDate, method, reference, notes } = await request.json()
+
+    const parsedAmount = Number(amount)
+    if (!parsedAmount || parsedAmount <= 0) {
+      return NextResponse.json(
+        { error: 'Payment amount must be greater than zero' },
+        { status: 400 }
+      )
+    }
+
+    if (!PAYMENT_METHODS.includes(method)) {
+      return NextResponse.json(
+        { error: `Payment method must be one of ${PAYMENT_METHODS.join(', ')}` },
+        { status: 400 }
+      )
+    }
+
+    const invoice = await recordPayment(id, {
+      amount: parsedAmount,
+      receivedDate: receivedDate ? new Date(receivedDate) : new Date(),
+      method,
+      reference: reference?.trim() || null,
+      notes: notes?.trim() || null,
+    })
+
+    return NextResponse.json(invoice, { status: 201 })
+  } catch (error) {
+    if (error instanceof BillingError) {
+      return NextResponse.json({ error: error.message }, { status: 400 })
+    }
+    console.error('[INVOICE_PAYMENTS_POST]', error)
+    return NextResponse.json(
+      { error: 'Failed to record payment' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,52 @@
+import { NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { authOptions } from '@/lib/auth'
+import { BillingError, recordReduction } from '@/lib/billing'
+
+// POST /api/invoices/[id]/reductions - Record a negotiated reduction on an invoice
+export async function POST(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await getServerSession(authOptions)
+    if (!session) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { id } = await params
+    const { amount, reason, date } = await request.json()
+
+    const parsedAmount = Number(amount)
+    if (!parsedAmount || parsedAmount <= 0) {
+      return NextResponse.json(
+        { error: 'Reduction amount must be greater than zero' },
+        { status: 400 }
+      )
+    }
+
+    if (!reason?.trim()) {
+      return NextResponse.json(
+        { error: 'A reason is required for reductions' },
+        { status: 400 }
+      )
+    }
+
+    const invoice = await recordReduction(id, {
+      amount: parsedAmount,
+      reason: reason.trim(),
+      date: date ? new Date(date) : new Date(),
+    })
+
+    return NextResponse.json(invoice, { status: 201 })
+  } catch (error) {
+    if (error instanceof BillingError) {
+      return NextResponse.json({ error: error.message }, { status: 400 })
+    }
+    console.error('[INVOICE_REDUCTIONS_POST]', error)
+    return NextResponse.json(
+      { error: 'Failed to record reduction' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,111 @@
+import { NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { authOptions } from '@/lib/auth'
+import { prisma } from '@/lib/prisma'
+import { invoiceInclude, voidInvoice } from '@/lib/billing'
+import { invoiceToCsv, renderInvoiceHtml, renderInvoicePdf } from '@/lib/invoices'
+
+// GET /api/invoices/[id] - Fetch an invoice, or render it with ?format=html|pdf|csv
+export async function GET(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await getServerSession(authOptions)
+    if (!session) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { id } = await params
+    const invoice = await prisma.invoice.findUnique({
+      where: { id },
+      include: invoiceInclude,
+    })
+
+    if (!invoice) {
+      return NextResponse.json({ error: 'Invoice not found' }, { status: 404 })
+    }
+
+    const { searchParams } = new URL(request.url)
+    const format = searchParams.get('format')
+
+    switch (format) {
+      case 'html':
+        return new NextResponse(renderInvoiceHtml(invoice), {
+          headers: {
+            'Content-Type': 'text/html; charset=utf-8',
+          }
+        })
+      case 'pdf':
+        return new NextResponse(await renderInvoicePdf(invoice), {
+          headers: {
+            'Content-Type': 'application/pdf',
+            'Content-Disposition': `inline; filename="${invoice.invoiceNumber}.pdf"`
+          }
+        })
+      case 'csv':
+        return new NextResponse(invoiceToCsv(invoice), {
+          headers: {
+            'Content-Type': 'text/csv',
+            'Content-Disposition': `attachment; filename="${invoice.invoiceNumber}.csv"`
+          }
+        })
+      default:
+        return NextResponse.json(invoice)
+    }
+  } catch (error) {
+    console.error('[INVOICE_GET]', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
+
+// PUT /api/invoices/[id] - Update due date and notes, or void with { status: 'VOID' }
+export async function PUT(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await getServerSession(authOptions)
+    if (!session) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { id } = await params
+    const { status, dueDate, notes } = await request.json()
+
+    const existing = await prisma.invoice.findUnique({ where: { id } })
+    if (!existing) {
+      return NextResponse.json({ error: 'Invoice not found' }, { status: 404 })
+    }
+
+    if (status === 'VOID') {
+      if (existing.paymentTotal > 0) {
+        return NextResponse.json(
+          { error: 'Invoices with recorded payments cannot be voided' },
+          { status: 400 }
+        )
+      }
+      return NextResponse.json(await voidInvoice(id))
+    }
+
+    const invoice = await prisma.invoice.update({
+      where: { id },
+      data: {
+        ...(dueDate !== undefined && { dueDate: dueDate ? new Date(dueDate) : null }),
+        ...(notes !== undefined && { notes: notes?.trim() || null }),
+      },
+      include: invoiceInclude,
+    })
+
+    return NextResponse.json(invoice)
+  } catch (error) {
+    console.error('[INVOICE_PUT]', error)
+    return NextResponse.json(
+      { error: 'Failed to update invoice' },
+      { status: 500 }
+    )
+  }
+}
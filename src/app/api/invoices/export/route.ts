@@ -0,0 +1,36 @@
+import { NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { authOptions } from '@/lib/auth'
+import { prisma } from '@/lib/prisma'
+import { buildInvoiceWhere, invoiceInclude } from '@/lib/billing'
+import { invoicesToCsv } from '@/lib/invoices'
+
+export async function GET(request: Request) {
+  try {
+    const session = await getServerSession(authOptions)
+    if (!session) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { searchParams } = new URL(request.url)
+
+    const invoices = await prisma.invoice.findMany({
+      where: buildInvoiceWhere(searchParams),
+      include: invoiceInclude,
+      orderBy: { issueDate: 'desc' },
+    })
+
+    return new NextResponse(invoicesToCsv(invoices), {
+      headers: {
+        'Content-Type': 'text/csv',
+        'Content-Disposition': 'attachment; filename="invoices.csv"'
+      }
+    })
+  } catch (error) {
+    console.error('Error exporting invoices:', error)
+    return NextResponse.json(
+      { message: 'Error exporting invoices' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,72 @@
+import { NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { authOptions } from '@/lib/auth'
+import { prisma } from '@/lib/prisma'
+import { BillingError, buildInvoiceWhere, createInvoice, invoiceInclude } from '@/lib/billing'
+
+// GET /api/invoices - List invoices by patient, attorney, case or status
+export async function GET(request: Request) {
+  try {
+    const session = await getServerSession(authOptions)
+    if (!session) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { searchParams } = new URL(request.url)
+
+    const invoices = await prisma.invoice.findMany({
+      where: buildInvoiceWhere(searchParams),
+      include: invoiceInclude,
+      orderBy: {
+        issueDate: 'desc',
+      },
+    })
+
+    return NextResponse.json(invoices)
+  } catch (error) {
+    console.error('[INVOICES_GET]', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
+
+// POST /api/invoices - Invoice a patient's unbilled charges
+export async function POST(request: Request) {
+  try {
+    const session = await getServerSession(authOptions)
+    if (!session) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { patientId, caseId, attorneyId, chargeIds, dueDate, notes } = await request.json()
+
+    if (!patientId) {
+      return NextResponse.json(
+        { error: 'Patient is required' },
+        { status: 400 }
+      )
+    }
+
+    const invoice = await createInvoice({
+      patientId,
+      caseId,
+      attorneyId,
+      chargeIds: Array.isArray(chargeIds) && chargeIds.length > 0 ? chargeIds : undefined,
+      dueDate: dueDate ? new Date(dueDate) : null,
+      notes: notes?.trim() || null,
+    })
+
+    return NextResponse.json(invoice, { status: 201 })
+  } catch (error) {
+    if (error instanceof BillingError) {
+      return NextResponse.json({ error: error.message }, { status: 400 })
+    }
+    console.error('[INVOICES_POST]', error)
+    return NextResponse.json(
+      { error: 'Failed to create invoice' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,44 @@
+import { NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { authOptions } from '@/lib/auth'
+import { runJobs } from '@/lib/jobs'
+
+// Schedulers authenticate with CRON_SECRET (Vercel Cron sends it as a bearer
+// token); admins can also trigger a run by hand
+async function isAuthorized(request: Request) {
+  const secret = process.env.CRON_SECRET
+  if (secret && request.headers.get('authorization') === `Bearer ${secret}`) {
+    return true
+  }
+
+  const session = await getServerSession(authOptions)
+  return session?.user.role === 'ADMIN'
+}
+
+async function handle(request: Request) {
+  try {
+    if (!(await isAuthorized(request))) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { searchParams } = new URL(request.url)
+    const runs = await runJobs(searchParams.getAll('job'))
+
+    return NextResponse.json({ runs }, { status: runs.every((run) => run.ok) ? 200 : 500 })
+  } catch (error) {
+    console.error('[JOBS_RUN]', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
+
+// GET /api/jobs/run - Run every due background job (?job=name to pick some)
+export async function GET(request: Request) {
+  return handle(request)
+}
+
+export async function POST(request: Request) {
+  return handle(request)
+}
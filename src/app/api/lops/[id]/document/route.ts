@@ -0,0 +1,99 @@
+import { NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { authOptions } from '@/lib/auth'
+import { getPatientScope } from '@/lib/access'
+import { prisma } from '@/lib/prisma'
+import { lopInclude } from '@/lib/lops'
+import { contentDisposition, deleteUpload, readUpload, saveUpload, UploadError } from '@/lib/storage'
+
+// GET /api/lops/[id]/document - Download the signed LOP document
+export async function GET(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await getServerSession(authOptions)
+    if (!session) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { id } = await params
+    const lop = await prisma.lop.findFirst({
+      where: {
+        id,
+        patient: await getPatientScope(session),
+      },
+    })
+
+    if (!lop?.documentKey) {
+      return NextResponse.json({ error: 'Document not found' }, { status: 404 })
+    }
+
+    const file = await readUpload(lop.documentKey)
+
+    return new NextResponse(file, {
+      headers: {
+        'Content-Type': lop.documentType || 'application/octet-stream',
+        'Content-Disposition': contentDisposition(lop.documentName || 'lop')
+      }
+    })
+  } catch (error) {
+    console.error('[LOP_DOCUMENT_GET]', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
+
+// POST /api/lops/[id]/document - Attach (or replace) the LOP document
+export async function POST(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await getServerSession(authOptions)
+    if (!session) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { id } = await params
+    const existing = await prisma.lop.findUnique({ where: { id } })
+    if (!existing) {
+      return NextResponse.json({ error: 'LOP not found' }, { status: 404 })
+    }
+
+    const formData = await request.formData()
+    const file = formData.get('file')
+    if (!(file instanceof File)) {
+      return NextResponse.json({ error: 'A file is required' }, { status: 400 })
+    }
+
+    const stored = await saveUpload(`lops/${existing.patientId}`, file)
+
+    const lop = await prisma.lop.update({
+      where: { id },
+      data: {
+        documentKey: stored.key,
+        documentName: stored.name,
+        documentType: stored.type,
+      },
+      include: lopInclude,
+    })
+
+    if (existing.documentKey) {
+      await deleteUpload(existing.documentKey)
+    }
+
+    return NextResponse.json(lop)
+  } catch (error) {
+    if (error instanceof UploadError) {
+      return NextResponse.json({ error: error.message }, { status: 400 })
+    }
+    console.error('[LOP_DOCUMENT_POST]', error)
+    return NextResponse.json(
+      { error: 'Failed to upload document' },
+      { status: 500 }
+    )
+  }
+}
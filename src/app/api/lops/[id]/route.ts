@@ -0,0 +1,153 @@
+import { NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { authOptions } from '@/lib/auth'
+import { getPatientScope } from '@/lib/access'
+import { prisma } from '@/lib/prisma'
+import { deriveLopStatus, LopStatus, lopInclude, parseLopInput } from '@/lib/lops'
+import { deleteUpload } from '@/lib/storage'
+
+export async function GET(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await getServerSession(authOptions)
+    if (!session) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { id } = await params
+    const lop = await prisma.lop.findFirst({
+      where: {
+        id,
+        patient: await getPatientScope(session),
+      },
+      include: lopInclude,
+    })
+
+    if (!lop) {
+      return NextResponse.json({ error: 'LOP not found' }, { status: 404 })
+    }
+
+    return NextResponse.json(lop)
+  } catch (error) {
+    console.error('[LOP_GET]', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
+
+export async function PUT(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await getServerSession(authOptions)
+    if (!session) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { id } = await params
+    const existing = await prisma.lop.findUnique({ where: { id } })
+    if (!existing) {
+      return NextResponse.json({ error: 'LOP not found' }, { status: 404 })
+    }
+
+    let input
+    try {
+      input = parseLopInput(await request.json())
+    } catch (error) {
+      return NextResponse.json(
+        { error: error instanceof Error ? error.message : 'Invalid LOP data' },
+        { status: 400 }
+      )
+    }
+
+    if (input.procedureIds && input.procedureIds.length > 0) {
+      const count = await prisma.procedure.count({
+        where: { id: { in: input.procedureIds }, patientId: existing.patientId },
+      })
+      if (count !== input.procedureIds.length) {
+        return NextResponse.json(
+          { error: 'Covered procedures must belong to the patient' },
+          { status: 400 }
+        )
+      }
+    }
+
+    const dates = {
+      requestedDate: input.requestedDate !== undefined ? input.requestedDate : existing.requestedDate,
+      receivedDate: input.receivedDate !== undefined ? input.receivedDate : existing.receivedDate,
+      signedDate: input.signedDate !== undefined ? input.signedDate : existing.signedDate,
+    }
+
+    const lop = await prisma.lop.update({
+      where: { id },
+      data: {
+        ...dates,
+        status: deriveLopStatus(dates, input.status ?? (existing.status as LopStatus)),
+        ...(input.attorneyId !== undefined && {
+          attorney: input.attorneyId
+            ? { connect: { id: input.attorneyId } }
+            : { disconnect: true },
+        }),
+        ...(input.amount !== undefined && { amount: input.amount }),
+        ...(input.notes !== undefined && { notes: input.notes }),
+        ...(input.procedureIds && {
+          procedures: {
+            set: input.procedureIds.map((procedureId) => ({ id: procedureId })),
+          },
+        }),
+      },
+      include: lopInclude,
+    })
+
+    return NextResponse.json(lop)
+  } catch (error) {
+    console.error('[LOP_PUT]', error)
+    return NextResponse.json(
+      { error: 'Failed to update LOP' },
+      { status: 500 }
+    )
+  }
+}
+
+export async function DELETE(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await getServerSession(authOptions)
+    if (!session) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { id } = await params
+    const lop = await prisma.lop.findUnique({ where: { id } })
+    if (!lop) {
+      return NextResponse.json({ error: 'LOP not found' }, { status: 404 })
+    }
+
+    await prisma.$transaction([
+      prisma.procedure.updateMany({
+        where: { lopId: id },
+        data: { lopId: null },
+      }),
+      prisma.lop.delete({ where: { id } }),
+    ])
+
+    if (lop.documentKey) {
+      await deleteUpload(lop.documentKey)
+    }
+
+    return NextResponse.json({ message: 'LOP deleted successfully' })
+  } catch (error) {
+    console.error('[LOP_DELETE]', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
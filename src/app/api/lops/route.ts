@@ -0,0 +1,113 @@
+import { NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { authOptions } from '@/lib/auth'
+import { getPatientScope } from '@/lib/access'
+import { prisma } from '@/lib/prisma'
+import { deriveLopStatus, lopInclude, parseLopInput } from '@/lib/lops'
+
+// GET /api/lops - List LOPs for a patient or attorney
+export async function GET(request: Request) {
+  try {
+    const session = await getServerSession(authOptions)
+    if (!session) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { searchParams } = new URL(request.url)
+    const patientId = searchParams.get('patientId')
+    const attorneyId = searchParams.get('attorneyId')
+
+    const lops = await prisma.lop.findMany({
+      where: {
+        ...(patientId && { patientId }),
+        ...(attorneyId && { attorneyId }),
+        patient: await getPatientScope(session),
+      },
+      include: lopInclude,
+      orderBy: {
+        createdAt: 'desc',
+      },
+    })
+
+    return NextResponse.json(lops)
+  } catch (error) {
+    console.error('[LOPS_GET]', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
+
+// POST /api/lops - Record a new LOP request for a patient
+export async function POST(request: Request) {
+  try {
+    const session = await getServerSession(authOptions)
+    if (!session) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const body = await request.json()
+
+    if (!body.patientId) {
+      return NextResponse.json(
+        { error: 'Patient is required' },
+        { status: 400 }
+      )
+    }
+
+    let input
+    try {
+      input = parseLopInput(body)
+    } catch (error) {
+      return NextResponse.json(
+        { error: error instanceof Error ? error.message : 'Invalid LOP data' },
+        { status: 400 }
+      )
+    }
+
+    const procedureIds = input.procedureIds ?? []
+    if (procedureIds.length > 0) {
+      const count = await prisma.procedure.count({
+        where: { id: { in: procedureIds }, patientId: body.patientId },
+      })
+      if (count !== procedureIds.length) {
+        return NextResponse.json(
+          { error: 'Covered procedures must belong to the patient' },
+          { status: 400 }
+        )
+      }
+    }
+
+    const lop = await prisma.lop.create({
+      data: {
+        patient: {
+          connect: { id: body.patientId },
+        },
+        ...(input.attorneyId && {
+          attorney: {
+            connect: { id: input.attorneyId },
+          },
+        }),
+        status: deriveLopStatus(input, input.status),
+        requestedDate: input.requestedDate ?? new Date(),
+        receivedDate: input.receivedDate ?? null,
+        signedDate: input.signedDate ?? null,
+        amount: input.amount ?? null,
+        notes: input.notes ?? null,
+        procedures: {
+          connect: procedureIds.map((id) => ({ id })),
+        },
+      },
+      include: lopInclude,
+    })
+
+    return NextResponse.json(lop, { status: 201 })
+  } catch (error) {
+    console.error('[LOPS_POST]', error)
+    return NextResponse.json(
+      { error: 'Failed to create LOP' },
+      { status: 500 }
+    )
+  }
+}
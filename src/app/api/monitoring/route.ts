@@ -2,7 +2,7 @@ import { NextRequest } from 'next/server'
 import { getServerSession } from 'next-auth'
 import { authOptions } from '@/lib/auth'
 import { monitoring } from '@/lib/monitoring'
-import { sendApiResponse, requireRole } from '@/lib/api-utils'
+import { sendApiResponse, requirePermission } from '@/lib/api-utils'
 import { logger } from '@/lib/logger'
 
 export async function GET(request: NextRequest) {
@@ -15,8 +15,7 @@ export async function GET(request: NextRequest) {
       return sendApiResponse(undefined, 'Unauthorized', 401)
     }
 
-    // Only allow admin users to view monitoring data
-    const roleCheck = requireRole(request, ['ADMIN'])
+    const roleCheck = await requirePermission(request)
     if (roleCheck) {
       logger.warn('Role check failed for fetching monitoring data', request)
       return roleCheck
@@ -41,8 +40,7 @@ export async function DELETE(request: NextRequest) {
       return sendApiResponse(undefined, 'Unauthorized', 401)
     }
 
-    // Only allow admin users to clear monitoring data
-    const roleCheck = requireRole(request, ['ADMIN'])
+    const roleCheck = await requirePermission(request)
     if (roleCheck) {
       logger.warn('Role check failed for clearing monitoring data', request)
       return roleCheck
@@ -0,0 +1,53 @@
+import { NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { authOptions } from '@/lib/auth'
+import {
+  getNotificationPreferences,
+  NOTIFICATION_TYPES,
+  NotificationError,
+  updateNotificationPreferences,
+} from '@/lib/notifications'
+
+// The page cannot import the server library, so the type labels come along
+const types = Object.entries(NOTIFICATION_TYPES).map(([type, label]) => ({ type, label }))
+
+// GET /api/notifications/preferences - Delivery channels and muted types
+export async function GET() {
+  try {
+    const session = await getServerSession(authOptions)
+    if (!session) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const preferences = await getNotificationPreferences(session.user.id)
+    return NextResponse.json({ ...preferences, types })
+  } catch (error) {
+    console.error('[NOTIFICATION_PREFERENCES_GET]', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
+
+// PUT /api/notifications/preferences - Save the signed-in user's preferences
+export async function PUT(request: Request) {
+  try {
+    const session = await getServerSession(authOptions)
+    if (!session) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const preferences = await updateNotificationPreferences(session.user.id, await request.json())
+    return NextResponse.json({ ...preferences, types })
+  } catch (error) {
+    if (error instanceof NotificationError) {
+      return NextResponse.json({ error: error.message }, { status: 400 })
+    }
+    console.error('[NOTIFICATION_PREFERENCES_PUT]', error)
+    return NextResponse.json(
+      { error: 'Failed to save preferences' },
+      { status: 500 }
+    )
+  }
+}
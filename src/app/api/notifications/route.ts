@@ -0,0 +1,78 @@
+import { NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { authOptions } from '@/lib/auth'
+import { prisma } from '@/lib/prisma'
+
+const MAX_LIMIT = 100
+
+// GET /api/notifications - The signed-in user's latest notifications and unread count
+export async function GET(request: Request) {
+  try {
+    const session = await getServerSession(authOptions)
+    if (!session) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { searchParams } = new URL(request.url)
+    const limit = Math.min(Number(searchParams.get('limit')) || 20, MAX_LIMIT)
+    const unreadOnly = searchParams.get('unread') === 'true'
+
+    const [notifications, unreadCount] = await Promise.all([
+      prisma.notification.findMany({
+        where: {
+          userId: session.user.id,
+          ...(unreadOnly && { readAt: null }),
+        },
+        orderBy: { createdAt: 'desc' },
+        take: limit,
+      }),
+      prisma.notification.count({
+        where: { userId: session.user.id, readAt: null },
+      }),
+    ])
+
+    return NextResponse.json({ notifications, unreadCount })
+  } catch (error) {
+    console.error('[NOTIFICATIONS_GET]', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
+
+// PATCH /api/notifications - Mark the given notifications, or all of them, as read
+export async function PATCH(request: Request) {
+  try {
+    const session = await getServerSession(authOptions)
+    if (!session) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { ids, all } = await request.json()
+    if (!all && (!Array.isArray(ids) || ids.length === 0)) {
+      return NextResponse.json({ error: 'Notification IDs are required' }, { status: 400 })
+    }
+
+    await prisma.notification.updateMany({
+      where: {
+        userId: session.user.id,
+        readAt: null,
+        ...(!all && { id: { in: ids } }),
+      },
+      data: { readAt: new Date() },
+    })
+
+    const unreadCount = await prisma.notification.count({
+      where: { userId: session.user.id, readAt: null },
+    })
+
+    return NextResponse.json({ unreadCount })
+  } catch (error) {
+    console.error('[NOTIFICATIONS_PATCH]', error)
+    return NextResponse.json(
+      { error: 'Failed to update notifications' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,39 @@
+import { NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { authOptions } from '@/lib/auth'
+import { findPatientDocument } from '@/lib/patient-portal'
+import { contentDisposition, readUpload } from '@/lib/storage'
+
+// GET /api/patients/[id]/documents/[documentId] - Download an uploaded document
+export async function GET(
+  request: Request,
+  { params }: { params: Promise<{ id: string; documentId: string }> }
+) {
+  try {
+    const session = await getServerSession(authOptions)
+    if (!session) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { id, documentId } = await params
+    const document = await findPatientDocument(id, documentId)
+    if (!document) {
+      return NextResponse.json({ error: 'Document not found' }, { status: 404 })
+    }
+
+    const file = await readUpload(document.key)
+
+    return new NextResponse(file, {
+      headers: {
+        'Content-Type': document.type || 'application/octet-stream',
+        'Content-Disposition': contentDisposition(document.name)
+      }
+    })
+  } catch (error) {
+    console.error('[PATIENT_DOCUMENT_GET]', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
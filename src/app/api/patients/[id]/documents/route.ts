@@ -0,0 +1,26 @@
+import { NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { authOptions } from '@/lib/auth'
+import { listPatientDocuments } from '@/lib/patient-portal'
+
+// GET /api/patients/[id]/documents - ID and insurance cards the patient uploaded
+export async function GET(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await getServerSession(authOptions)
+    if (!session) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { id } = await params
+    return NextResponse.json(await listPatientDocuments(id))
+  } catch (error) {
+    console.error('[PATIENT_DOCUMENTS_GET]', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,34 @@
+import { NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { authOptions } from '@/lib/auth'
+import { prisma } from '@/lib/prisma'
+import { findPossibleDuplicates } from '@/lib/patient-duplicates'
+
+// GET /api/patients/[id]/duplicates - Other patients that look like the same person
+export async function GET(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await getServerSession(authOptions)
+    if (!session) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { id } = await params
+    const patient = await prisma.patient.findUnique({ where: { id } })
+    if (!patient) {
+      return NextResponse.json({ error: 'Patient not found' }, { status: 404 })
+    }
+
+    const duplicates = await findPossibleDuplicates(patient, { excludeId: id })
+
+    return NextResponse.json(duplicates)
+  } catch (error) {
+    console.error('[PATIENT_DUPLICATES_GET]', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
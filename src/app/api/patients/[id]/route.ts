@@ -3,6 +3,14 @@ import { PrismaClient } from '@prisma/client'
 import { Prisma } from '@prisma/client'
 import { getServerSession } from 'next-auth'
 import { authOptions } from '@/lib/auth'
+import { getPatientScope } from '@/lib/access'
+import { lopInclude } from '@/lib/lops'
+import { syncProcedureCharges } from '@/lib/billing'
+import { patientLabel, recordAudit, recordProcedureChanges } from '@/lib/audit'
+import { notifyAttorneysOfStatusChange, sendProcedureConfirmations } from '@/lib/mail-notifications'
+import { resetRescheduledReminders } from '@/lib/reminders'
+import { notifyRescheduledProcedures } from '@/lib/notifications'
+import { applyPatientTaskRules, applyProcedureTaskRules } from '@/lib/task-rules'
 
 const prisma = new PrismaClient()
 
@@ -16,22 +24,46 @@ export async function GET(
       return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
     }
 
-    const patient = await prisma.patient.findUnique({
-      where: { id: params.id },
+    const patient = await prisma.patient.findFirst({
+      where: {
+        AND: [{ id: params.id }, await getPatientScope(session)],
+      },
       include: {
         status: true,
         payer: true,
+        referringDoctor: {
+          select: {
+            id: true,
+            name: true,
+          },
+        },
         procedures: {
           include: {
             exam: true,
             facility: true,
             physician: true,
             status: true,
+            lop: true,
           },
           orderBy: {
             scheduleDate: 'desc',
           },
         },
+        lops: {
+          include: lopInclude,
+          orderBy: {
+            createdAt: 'desc',
+          },
+        },
+        cases: {
+          select: {
+            id: true,
+            caseNumber: true,
+          },
+          orderBy: {
+            createdAt: 'desc',
+          },
+        },
       },
     })
 
@@ -39,6 +71,14 @@ export async function GET(
       return NextResponse.json({ error: 'Patient not found' }, { status: 404 })
     }
 
+    await recordAudit(session, {
+      action: 'VIEW',
+      entityType: 'Patient',
+      entityId: patient.id,
+      patientId: patient.id,
+      summary: patientLabel(patient),
+    }, request)
+
     return NextResponse.json(patient)
   } catch (error) {
     console.error('Error fetching patient:', error)
@@ -185,6 +225,10 @@ export async function PUT(
       payer: payerId ? {
         connect: { id: payerId }
       } : undefined,
+      // Left alone when the field is not sent; an empty value clears it
+      referringDoctor: referringDoctorId === undefined ? undefined : referringDoctorId ? {
+        connect: { id: referringDoctorId }
+      } : { disconnect: true },
       lawyer: lawyer?.trim() || null,
       orderFor: orderFor?.trim() || null,
     }
@@ -206,6 +250,18 @@ export async function PUT(
 
     console.log('Update data:', updateData)
 
+    const auditInclude = { procedures: { include: { exam: true } } } satisfies Prisma.PatientInclude
+    const before = await prisma.patient.findUnique({ where: { id }, include: auditInclude })
+
+    // A procedure id from another patient's chart must not be rewritten here
+    const ownIds = new Set(before?.procedures.map((procedure) => procedure.id) ?? [])
+    if (procedures?.some((proc: { id?: string }) => proc.id && !ownIds.has(proc.id.toString()))) {
+      return NextResponse.json(
+        { message: 'A procedure does not belong to this patient' },
+        { status: 400 }
+      )
+    }
+
     // Start a transaction to update patient and procedures
     console.log('Starting transaction to update patient and procedures');
     const patient = await prisma.$transaction(async (tx) => {
@@ -233,14 +289,16 @@ export async function PUT(
 
         // Handle procedures if provided
         if (procedures && procedures.length > 0) {
-          console.log(`Deleting ${procedures.length} existing procedures`);
-          // Delete existing procedures
-          await tx.procedure.deleteMany({
-            where: { patientId: id }
+          // Update procedures in place so their LOPs and charges stay attached,
+          // and only delete the ones that were removed from the form
+          const keptIds = procedures
+            .filter((proc: { id?: string }) => proc.id)
+            .map((proc: { id: string }) => proc.id.toString())
+          const removed = await tx.procedure.deleteMany({
+            where: { patientId: id, id: { notIn: keptIds } }
           })
-          console.log('Existing procedures deleted successfully');
+          console.log(`Deleted ${removed.count} removed procedures`);
 
-          // Create new procedures
           for (const proc of procedures) {
             try {
               console.log('Processing procedure:', proc);
@@ -254,9 +312,6 @@ export async function PUT(
               }
               
               const procedureData: any = {
-                patient: {
-                  connect: { id }
-                },
                 exam: {
                   connect: { id: proc.examId.toString() }
                 },
@@ -265,10 +320,19 @@ export async function PUT(
                 status: {
                   connect: { id: proc.statusId.toString() }
                 },
-                lop: proc.lop || null,
                 isCompleted: proc.isCompleted || false
               }
 
+              if (proc.lopId) {
+                procedureData.lop = {
+                  connect: { id: proc.lopId.toString() }
+                }
+              } else if (proc.id) {
+                procedureData.lop = {
+                  disconnect: true
+                }
+              }
+
               // Only add facility if provided
               if (proc.facilityId) {
                 procedureData.facility = {
@@ -283,19 +347,35 @@ export async function PUT(
                 }
               }
 
-              console.log('Creating procedure with data:', procedureData)
-              const createdProcedure = await tx.procedure.create({
-                data: procedureData
-              })
-              console.log('Procedure created successfully:', createdProcedure.id);
+              if (proc.id) {
+                console.log('Updating procedure with data:', procedureData)
+                await tx.procedure.update({
+                  where: { id: proc.id.toString(), patientId: id },
+                  data: procedureData
+                })
+                console.log('Procedure updated successfully:', proc.id);
+              } else {
+                console.log('Creating procedure with data:', procedureData)
+                const createdProcedure = await tx.procedure.create({
+                  data: {
+                    ...procedureData,
+                    patient: {
+                      connect: { id }
+                    }
+                  }
+                })
+                console.log('Procedure created successfully:', createdProcedure.id);
+              }
             } catch (error) {
-              console.error('Error creating procedure:', error, 'Procedure data:', proc)
-              throw new Error(`Failed to create procedure: ${error instanceof Error ? error.message : 'Unknown error'}`)
+              console.error('Error saving procedure:', error, 'Procedure data:', proc)
+              throw new Error(`Failed to save procedure: ${error instanceof Error ? error.message : 'Unknown error'}`)
             }
           }
-          console.log('All procedures created successfully');
+          console.log('All procedures saved successfully');
+
+          await syncProcedureCharges({ patientId: id }, tx)
         } else {
-          console.log('No procedures to create');
+          console.log('No procedures to save');
         }
 
         return updatedPatient
@@ -306,6 +386,31 @@ export async function PUT(
     })
     console.log('Transaction completed successfully');
 
+    const after = await prisma.patient.findUnique({ where: { id }, include: auditInclude })
+    await recordAudit(session, {
+      action: 'UPDATE',
+      entityType: 'Patient',
+      entityId: id,
+      patientId: id,
+      summary: patientLabel(patient),
+      before,
+      after,
+    }, request)
+    await recordProcedureChanges(session, before?.procedures ?? [], after?.procedures ?? [], request)
+    if (after) {
+      await applyPatientTaskRules(session, before, after)
+    }
+    await applyProcedureTaskRules(session, before?.procedures ?? [], after?.procedures ?? [])
+
+    await resetRescheduledReminders(before?.procedures ?? [], after?.procedures ?? [])
+    await notifyRescheduledProcedures(session, before?.procedures ?? [], after?.procedures ?? [])
+    await notifyAttorneysOfStatusChange(id, before?.statusId)
+    await sendProcedureConfirmations(
+      (after?.procedures ?? [])
+        .filter((procedure) => !before?.procedures.some((existing) => existing.id === procedure.id))
+        .map((procedure) => procedure.id)
+    )
+
     return NextResponse.json(patient)
   } catch (error) {
     console.error('Error updating patient:', error)
@@ -338,11 +443,21 @@ export async function DELETE(
   { params }: { params: { id: string } }
 ) {
   try {
+    const session = await getServerSession(authOptions)
     const id = await Promise.resolve(params.id)
-    await prisma.patient.delete({
+    const patient = await prisma.patient.delete({
       where: { id },
     })
 
+    await recordAudit(session, {
+      action: 'DELETE',
+      entityType: 'Patient',
+      entityId: id,
+      patientId: id,
+      summary: patientLabel(patient),
+      before: patient,
+    }, request)
+
     return NextResponse.json({ message: 'Patient deleted successfully' })
   } catch (error) {
     console.error('Error deleting patient:', error)
@@ -0,0 +1,37 @@
+import { NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { authOptions } from '@/lib/auth'
+import { IMPORT_FIELDS, ImportError, parseSpreadsheet, suggestMapping } from '@/lib/patient-import'
+
+// POST /api/patients/import/parse - Read an uploaded CSV/XLSX intake sheet
+export async function POST(request: Request) {
+  try {
+    const session = await getServerSession(authOptions)
+    if (!session) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const formData = await request.formData()
+    const file = formData.get('file')
+    if (!(file instanceof File)) {
+      return NextResponse.json({ error: 'A file is required' }, { status: 400 })
+    }
+
+    const table = await parseSpreadsheet(file.name, Buffer.from(await file.arrayBuffer()))
+
+    return NextResponse.json({
+      ...table,
+      fields: IMPORT_FIELDS,
+      mapping: suggestMapping(table.headers),
+    })
+  } catch (error) {
+    if (error instanceof ImportError) {
+      return NextResponse.json({ error: error.message }, { status: 400 })
+    }
+    console.error('[PATIENT_IMPORT_PARSE_POST]', error)
+    return NextResponse.json(
+      { error: 'Failed to read file' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,36 @@
+import { NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { authOptions } from '@/lib/auth'
+import { ImportError, validateImport } from '@/lib/patient-import'
+
+// POST /api/patients/import/preview - Validate mapped rows without saving them
+export async function POST(request: Request) {
+  try {
+    const session = await getServerSession(authOptions)
+    if (!session) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { table, mapping, defaults } = await request.json()
+    if (!table?.headers || !Array.isArray(table.rows)) {
+      return NextResponse.json({ error: 'Rows are required' }, { status: 400 })
+    }
+
+    const rows = await validateImport(table, mapping ?? {}, defaults ?? {})
+
+    return NextResponse.json({
+      rows,
+      valid: rows.filter((row) => row.errors.length === 0).length,
+      invalid: rows.filter((row) => row.errors.length > 0).length,
+    })
+  } catch (error) {
+    if (error instanceof ImportError) {
+      return NextResponse.json({ error: error.message }, { status: 400 })
+    }
+    console.error('[PATIENT_IMPORT_PREVIEW_POST]', error)
+    return NextResponse.json(
+      { error: 'Failed to validate rows' },
+      { status: 500 }
+    )
+  }
+}
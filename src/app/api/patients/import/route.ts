@@ -0,0 +1,38 @@
+import { NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { authOptions } from '@/lib/auth'
+import { commitImport, ImportError, validateImport } from '@/lib/patient-import'
+
+// POST /api/patients/import - Create a patient for every valid row
+export async function POST(request: Request) {
+  try {
+    const session = await getServerSession(authOptions)
+    if (!session) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { table, mapping, defaults } = await request.json()
+    if (!table?.headers || !Array.isArray(table.rows)) {
+      return NextResponse.json({ error: 'Rows are required' }, { status: 400 })
+    }
+
+    // Validated again here; names may have changed since the preview
+    const validated = await validateImport(table, mapping ?? {}, defaults ?? {})
+    const rows = await commitImport(session, validated, request)
+
+    return NextResponse.json({
+      rows,
+      created: rows.filter((row) => row.patientId).length,
+      failed: rows.filter((row) => !row.patientId).length,
+    })
+  } catch (error) {
+    if (error instanceof ImportError) {
+      return NextResponse.json({ error: error.message }, { status: 400 })
+    }
+    console.error('[PATIENT_IMPORT_POST]', error)
+    return NextResponse.json(
+      { error: 'Failed to import patients' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,35 @@
+import { NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { authOptions } from '@/lib/auth'
+import { mergePatients, PatientMergeError } from '@/lib/patient-duplicates'
+
+// POST /api/patients/merge - Fold a duplicate patient into the record being kept
+export async function POST(request: Request) {
+  try {
+    const session = await getServerSession(authOptions)
+    if (!session) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { survivorId, duplicateId } = await request.json()
+    if (!survivorId || !duplicateId) {
+      return NextResponse.json(
+        { error: 'The patient to keep and the duplicate are required' },
+        { status: 400 }
+      )
+    }
+
+    const result = await mergePatients(session, survivorId, duplicateId, request)
+
+    return NextResponse.json(result)
+  } catch (error) {
+    if (error instanceof PatientMergeError) {
+      return NextResponse.json({ error: error.message }, { status: 400 })
+    }
+    console.error('[PATIENT_MERGE_POST]', error)
+    return NextResponse.json(
+      { error: 'Failed to merge patients' },
+      { status: 500 }
+    )
+  }
+}
@@ -2,6 +2,11 @@ import { NextResponse } from 'next/server'
 import { PrismaClient } from '@prisma/client'
 import bcrypt from 'bcryptjs'
 import jwt from 'jsonwebtoken'
+import { findPossibleDuplicates } from '@/lib/patient-duplicates'
+import { checkPasswordPolicy, PasswordPolicyError } from '@/lib/security-policy'
+import { SELF_REGISTERED_STATUS } from '@/lib/patient-portal'
+import { notifyPossibleDuplicateRegistration } from '@/lib/notifications'
+import { applyPatientTaskRules } from '@/lib/task-rules'
 
 const prisma = new PrismaClient()
 
@@ -18,6 +23,8 @@ export async function POST(request: Request) {
       )
     }
 
+    await checkPasswordPolicy(password)
+
     // Check if email already exists
     const existingUser = await prisma.user.findUnique({
       where: { email },
@@ -30,9 +37,26 @@ export async function POST(request: Request) {
       )
     }
 
+    // This route is public, so the answer must not depend on whether the
+    // person is already a patient. A likely match is flagged for the office.
+    const [firstName = '', ...lastNames] = name.trim().split(/\s+/)
+    const duplicates = await findPossibleDuplicates({
+      firstName,
+      lastName: lastNames.join(' '),
+      dateOfBirth,
+      phone,
+    })
+
     // Hash password
     const hashedPassword = await bcrypt.hash(password, 10)
 
+    const now = new Date()
+    const status = await prisma.status.upsert({
+      where: { name: SELF_REGISTERED_STATUS.name },
+      update: {},
+      create: { ...SELF_REGISTERED_STATUS, createdAt: now, updatedAt: now },
+    })
+
     // Create user and patient in a transaction
     const result = await prisma.$transaction(async (tx) => {
       // Create user
@@ -40,25 +64,39 @@ export async function POST(request: Request) {
         data: {
           email,
           password: hashedPassword,
-          role: 'patient',
+          passwordChangedAt: now,
+          role: 'PATIENT',
           name,
+          createdAt: now,
+          updatedAt: now,
         },
       })
 
-      // Create patient profile
+      // Create the patient record the portal login is scoped to
       const patient = await tx.patient.create({
         data: {
           userId: user.id,
+          firstName,
+          lastName: lastNames.join(' '),
+          email,
           dateOfBirth: new Date(dateOfBirth),
           gender,
           phone,
           address,
+          statusId: status.id,
+          createdAt: now,
+          updatedAt: now,
         },
       })
 
       return { user, patient }
     })
 
+    if (duplicates.length > 0) {
+      await notifyPossibleDuplicateRegistration(result.patient, duplicates.length)
+    }
+    await applyPatientTaskRules(null, null, result.patient)
+
     // Generate JWT token
     const token = jwt.sign(
       {
@@ -86,6 +124,9 @@ export async function POST(request: Request) {
 
     return response
   } catch (error) {
+    if (error instanceof PasswordPolicyError) {
+      return NextResponse.json({ message: error.message }, { status: 400 })
+    }
     console.error('Error registering patient:', error)
     return NextResponse.json(
       { message: 'Error registering patient' },
@@ -1,56 +1,66 @@
 import { NextResponse } from 'next/server'
 import { getServerSession } from 'next-auth'
 import { authOptions } from '@/lib/auth'
+import { getPatientScope } from '@/lib/access'
 import { prisma } from '@/lib/prisma'
 import { Prisma } from '@prisma/client'
+import { syncProcedureCharges } from '@/lib/billing'
+import { patientLabel, recordAudit, recordProcedureChanges } from '@/lib/audit'
+import { notifyAttorneysOfStatusChange, sendProcedureConfirmations } from '@/lib/mail-notifications'
+import {
+  buildPatientSearchWhere,
+  parsePatientSearch,
+  patientListSelect,
+  toPatientListItem,
+  type PatientPage,
+} from '@/lib/patient-search'
+import { findPossibleDuplicates } from '@/lib/patient-duplicates'
+import { applyPatientTaskRules, applyProcedureTaskRules } from '@/lib/task-rules'
 
-export async function GET() {
+export async function GET(request: Request) {
   try {
     const session = await getServerSession(authOptions)
     if (!session) {
       return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
     }
 
-    const patients = await prisma.patient.findMany({
-      include: {
-        appointments: {
-          include: {
-            doctor: true,
-            exam: true,
-          },
-          orderBy: {
-            date: 'asc'
-          }
-        },
-        procedures: {
-          include: {
-            exam: true,
-            facility: true,
-            physician: true,
-            status: true
-          },
-          orderBy: {
-            scheduleDate: 'desc'
-          }
-        },
-        status: true,
-        payer: true
-      },
-      orderBy: [
-        { lastName: 'asc' },
-        { firstName: 'asc' }
-      ]
-    })
+    const { searchParams } = new URL(request.url)
+    const search = parsePatientSearch(searchParams)
+    const where: Prisma.PatientWhereInput = {
+      AND: [await getPatientScope(session), await buildPatientSearchWhere(search)],
+    }
+
+    // One extra row tells us whether there is another page
+    const [rows, total] = await Promise.all([
+      prisma.patient.findMany({
+        where,
+        select: patientListSelect,
+        orderBy: [
+          { lastName: 'asc' },
+          { firstName: 'asc' },
+          { id: 'asc' }
+        ],
+        take: search.limit + 1,
+        ...(search.cursor && { cursor: { id: search.cursor }, skip: 1 }),
+      }),
+      prisma.patient.count({ where }),
+    ])
 
-    // Transform the response to include full name
-    const transformedPatients = patients.map(patient => ({
-      ...patient,
-      name: `${patient.firstName} ${patient.lastName}`,
-    }))
+    const patients = rows.slice(0, search.limit).map(toPatientListItem)
+    const page: PatientPage = {
+      patients,
+      nextCursor: rows.length > search.limit ? patients[patients.length - 1].id : null,
+      total,
+    }
 
-    console.log('Fetched patients with appointments:', transformedPatients)
+    await recordAudit(session, {
+      action: 'VIEW',
+      entityType: 'Patient',
+      summary: `Patient list (${patients.length} records)`,
+      details: { patientIds: patients.map((patient) => patient.id) },
+    }, request)
 
-    return NextResponse.json(transformedPatients)
+    return NextResponse.json(page)
   } catch (error) {
     console.error('[PATIENTS_GET]', error)
     return NextResponse.json(
@@ -67,7 +77,7 @@ interface Procedure {
   scheduleTime?: string
   facilityId?: string
   physicianId?: string
-  lop?: string | null
+  lopId?: string | null
   isCompleted?: boolean
   status?: {
     name: string
@@ -109,6 +119,17 @@ export async function POST(request: Request) {
       }
     }
 
+    // Likely duplicates are refused unless the caller confirms them
+    if (!data.allowDuplicate) {
+      const duplicates = await findPossibleDuplicates(data)
+      if (duplicates.length > 0) {
+        return NextResponse.json({
+          error: 'This patient may already exist',
+          duplicates,
+        }, { status: 409 })
+      }
+    }
+
     // Check if default facility exists, if not create it
     let defaultFacilityId = '67ed260cc52a7fd85d24a7a1'
     try {
@@ -159,21 +180,20 @@ export async function POST(request: Request) {
     // Check if default physician exists, if not create it
     let defaultPhysicianId = '67ed260cc52a7fd85d24a7a2'
     try {
-      const physicianExists = await prisma.physician.findUnique({
+      const physicianExists = await prisma.provider.findUnique({
         where: { id: defaultPhysicianId }
       })
       
       if (!physicianExists) {
-        // Generate a unique email for the default physician
-        const uniqueEmail = `default_${Date.now()}@example.com`
-        
         try {
-          const newPhysician = await prisma.physician.create({
+          const now = new Date()
+          const newPhysician = await prisma.provider.create({
             data: {
               name: 'Default Physician',
-              email: uniqueEmail,
+              roles: ['READING'],
               status: 'Active',
-              isActive: true
+              createdAt: now,
+              updatedAt: now
             }
           })
           defaultPhysicianId = newPhysician.id
@@ -181,8 +201,8 @@ export async function POST(request: Request) {
           console.error('Error creating default physician:', createError)
           
           // If creation fails, try to find an existing physician to use
-          const existingPhysician = await prisma.physician.findFirst({
-            where: { isActive: true }
+          const existingPhysician = await prisma.provider.findFirst({
+            where: { status: 'Active', roles: { has: 'READING' } }
           })
           
           if (existingPhysician) {
@@ -241,9 +261,16 @@ export async function POST(request: Request) {
               },
               scheduleDate: new Date(proc.scheduleDate),
               scheduleTime: proc.scheduleTime || '00:00',
-              lop: proc.lop || null,
               isCompleted: proc.isCompleted || false
             };
+
+            if (proc.lopId) {
+              procedureData.lop = {
+                connect: {
+                  id: proc.lopId
+                }
+              };
+            }
             
             // Only add facility if it exists
             if (proc.facilityId || defaultFacilityId) {
@@ -281,6 +308,25 @@ export async function POST(request: Request) {
       }
     })
 
+    await syncProcedureCharges({ patientId: patient.id })
+
+    const procedures = await prisma.procedure.findMany({
+      where: { patientId: patient.id },
+      include: { exam: true },
+    })
+    await recordAudit(session, {
+      action: 'CREATE',
+      entityType: 'Patient',
+      entityId: patient.id,
+      patientId: patient.id,
+      summary: patientLabel(patient),
+      after: patient,
+    }, request)
+    await recordProcedureChanges(session, [], procedures, request)
+    await applyPatientTaskRules(session, null, patient)
+    await applyProcedureTaskRules(session, [], procedures)
+    await sendProcedureConfirmations(procedures.map((procedure) => procedure.id))
+
     return NextResponse.json(patient)
   } catch (error) {
     console.error('[PATIENTS_POST] Error details:', error)
@@ -293,6 +339,7 @@ export async function POST(request: Request) {
 
 export async function PUT(request: Request) {
   try {
+    const session = await getServerSession(authOptions)
     const { searchParams } = new URL(request.url)
     const id = searchParams.get('id')
 
@@ -376,13 +423,18 @@ export async function PUT(request: Request) {
             scheduleTime: proc.scheduleTime || null,
             facilityId: proc.facilityId || null,
             physicianId: proc.physicianId || null,
-            lop: proc.lop || null,
+            lopId: proc.lopId || null,
             isCompleted: proc.isCompleted || false
           }))
         } : {})
       }
     }
 
+    const before = await prisma.patient.findUnique({
+      where: { id },
+      include: { procedures: { include: { exam: true } } },
+    })
+
     const patient = await prisma.patient.update({
       where: { id },
       data: updateData,
@@ -400,6 +452,23 @@ export async function PUT(request: Request) {
       }
     })
 
+    await syncProcedureCharges({ patientId: id })
+
+    await recordAudit(session, {
+      action: 'UPDATE',
+      entityType: 'Patient',
+      entityId: id,
+      patientId: id,
+      summary: patientLabel(patient),
+      before,
+      after: patient,
+    }, request)
+    await recordProcedureChanges(session, before?.procedures ?? [], patient.procedures, request)
+    // Procedures are recreated on this path, so only patient rules can tell
+    // what actually changed
+    await applyPatientTaskRules(session, before, patient)
+    await notifyAttorneysOfStatusChange(id, before?.statusId)
+
     return NextResponse.json(patient)
   } catch (error) {
     console.error('Error updating patient:', error)
@@ -412,6 +481,7 @@ export async function PUT(request: Request) {
 
 export async function DELETE(request: Request) {
   try {
+    const session = await getServerSession(authOptions)
     const { searchParams } = new URL(request.url)
     const id = searchParams.get('id')
 
@@ -422,10 +492,19 @@ export async function DELETE(request: Request) {
       )
     }
 
-    await prisma.patient.delete({
+    const patient = await prisma.patient.delete({
       where: { id }
     })
 
+    await recordAudit(session, {
+      action: 'DELETE',
+      entityType: 'Patient',
+      entityId: id,
+      patientId: id,
+      summary: patientLabel(patient),
+      before: patient,
+    }, request)
+
     return NextResponse.json({ message: 'Patient deleted successfully' })
   } catch (error) {
     console.error('Error deleting patient:', error)
@@ -0,0 +1,55 @@
+import { NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { authOptions } from '@/lib/auth'
+import { getPortalPatient, isPortalRole, resolvePortalAttorney } from '@/lib/attorney-portal'
+import { patientLabel, recordAudit } from '@/lib/audit'
+
+// GET /api/portal/attorney/patients/[id] - A single client, if they belong to the attorney
+export async function GET(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await getServerSession(authOptions)
+    if (!session) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    if (!isPortalRole(session.user.role)) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 })
+    }
+
+    const attorney = await resolvePortalAttorney(session.user.id)
+    if (!attorney) {
+      return NextResponse.json(
+        { error: 'No attorney profile is linked to this login' },
+        { status: 403 }
+      )
+    }
+
+    const { id } = await params
+    const patient = await getPortalPatient(attorney, id)
+
+    // Patients outside the attorney's caseload are reported as missing
+    if (!patient) {
+      return NextResponse.json({ error: 'Patient not found' }, { status: 404 })
+    }
+
+    await recordAudit(session, {
+      action: 'VIEW',
+      entityType: 'Patient',
+      entityId: patient.id,
+      patientId: patient.id,
+      summary: patientLabel(patient),
+      details: { portal: 'attorney', attorneyId: attorney.id },
+    }, request)
+
+    return NextResponse.json(patient)
+  } catch (error) {
+    console.error('[ATTORNEY_PORTAL_PATIENT_GET]', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,44 @@
+import { NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { authOptions } from '@/lib/auth'
+import { getPortalPatients, isPortalRole, resolvePortalAttorney } from '@/lib/attorney-portal'
+import { recordAudit } from '@/lib/audit'
+
+// GET /api/portal/attorney - The signed-in attorney's (or case manager's) clients
+export async function GET(request: Request) {
+  try {
+    const session = await getServerSession(authOptions)
+    if (!session) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    if (!isPortalRole(session.user.role)) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 })
+    }
+
+    const attorney = await resolvePortalAttorney(session.user.id)
+    if (!attorney) {
+      return NextResponse.json(
+        { error: 'No attorney profile is linked to this login' },
+        { status: 403 }
+      )
+    }
+
+    const patients = await getPortalPatients(attorney)
+
+    await recordAudit(session, {
+      action: 'VIEW',
+      entityType: 'Patient',
+      summary: `Attorney portal client list (${patients.length} records)`,
+      details: { portal: 'attorney', attorneyId: attorney.id, patientIds: patients.map((patient) => patient.id) },
+    }, request)
+
+    return NextResponse.json({ attorney, patients })
+  } catch (error) {
+    console.error('[ATTORNEY_PORTAL_GET]', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
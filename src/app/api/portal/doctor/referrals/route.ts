@@ -0,0 +1,38 @@
+import { NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { authOptions } from '@/lib/auth'
+import { DoctorPortalError, resolvePortalDoctor, submitReferral } from '@/lib/doctor-portal'
+
+// POST /api/portal/doctor/referrals - Sends a new patient with the exams they need
+export async function POST(request: Request) {
+  try {
+    const session = await getServerSession(authOptions)
+    if (!session) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    if (session.user.role !== 'DOCTOR') {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 })
+    }
+
+    const doctor = await resolvePortalDoctor(session)
+    if (!doctor) {
+      return NextResponse.json(
+        { error: 'No doctor profile is linked to this login' },
+        { status: 403 }
+      )
+    }
+
+    const patient = await submitReferral(session, doctor, await request.json(), request)
+    return NextResponse.json({ id: patient.id }, { status: 201 })
+  } catch (error) {
+    if (error instanceof DoctorPortalError) {
+      return NextResponse.json({ error: error.message }, { status: 400 })
+    }
+    console.error('[DOCTOR_REFERRALS_POST]', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,44 @@
+import { NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { authOptions } from '@/lib/auth'
+import { getReferredPatients, resolvePortalDoctor } from '@/lib/doctor-portal'
+import { recordAudit } from '@/lib/audit'
+
+// GET /api/portal/doctor - Patients the signed-in doctor referred, with their progress
+export async function GET(request: Request) {
+  try {
+    const session = await getServerSession(authOptions)
+    if (!session) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    if (session.user.role !== 'DOCTOR') {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 })
+    }
+
+    const doctor = await resolvePortalDoctor(session)
+    if (!doctor) {
+      return NextResponse.json(
+        { error: 'No doctor profile is linked to this login' },
+        { status: 403 }
+      )
+    }
+
+    const patients = await getReferredPatients(doctor)
+
+    await recordAudit(session, {
+      action: 'VIEW',
+      entityType: 'Patient',
+      summary: `Referral portal patient list (${patients.length} records)`,
+      details: { portal: 'doctor', doctorId: doctor.id, patientIds: patients.map((patient) => patient.id) },
+    }, request)
+
+    return NextResponse.json({ doctor, patients })
+  } catch (error) {
+    console.error('[DOCTOR_PORTAL_GET]', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,90 @@
+import { NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { authOptions } from '@/lib/auth'
+import { findPatientDocument, PatientPortalError, removePatientDocument, resolvePortalPatient } from '@/lib/patient-portal'
+import { contentDisposition, readUpload } from '@/lib/storage'
+
+// GET /api/portal/patient/documents/[id] - Download one of the patient's own documents
+export async function GET(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await getServerSession(authOptions)
+    if (!session) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    if (session.user.role !== 'PATIENT') {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 })
+    }
+
+    const patient = await resolvePortalPatient(session.user.id)
+    if (!patient) {
+      return NextResponse.json(
+        { error: 'No patient record is linked to this login' },
+        { status: 403 }
+      )
+    }
+
+    const { id } = await params
+    const document = await findPatientDocument(patient.id, id)
+    if (!document) {
+      return NextResponse.json({ error: 'Document not found' }, { status: 404 })
+    }
+
+    const file = await readUpload(document.key)
+
+    return new NextResponse(file, {
+      headers: {
+        'Content-Type': document.type || 'application/octet-stream',
+        'Content-Disposition': contentDisposition(document.name)
+      }
+    })
+  } catch (error) {
+    console.error('[PATIENT_PORTAL_DOCUMENT_GET]', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
+
+// DELETE /api/portal/patient/documents/[id] - Remove an upload, e.g. an expired card
+export async function DELETE(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await getServerSession(authOptions)
+    if (!session) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    if (session.user.role !== 'PATIENT') {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 })
+    }
+
+    const patient = await resolvePortalPatient(session.user.id)
+    if (!patient) {
+      return NextResponse.json(
+        { error: 'No patient record is linked to this login' },
+        { status: 403 }
+      )
+    }
+
+    const { id } = await params
+    await removePatientDocument(session, patient, id, request)
+
+    return new NextResponse(null, { status: 204 })
+  } catch (error) {
+    if (error instanceof PatientPortalError) {
+      return NextResponse.json({ error: error.message }, { status: 404 })
+    }
+    console.error('[PATIENT_PORTAL_DOCUMENT_DELETE]', error)
+    return NextResponse.json(
+      { error: 'Failed to delete document' },
+      { status: 500 }
+    )
+  }
+}
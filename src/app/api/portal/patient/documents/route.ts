@@ -0,0 +1,49 @@
+import { NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { authOptions } from '@/lib/auth'
+import { addPatientDocument, isPatientDocumentKind, resolvePortalPatient } from '@/lib/patient-portal'
+import { UploadError } from '@/lib/storage'
+
+// POST /api/portal/patient/documents - Upload a photo ID or insurance card
+export async function POST(request: Request) {
+  try {
+    const session = await getServerSession(authOptions)
+    if (!session) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    if (session.user.role !== 'PATIENT') {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 })
+    }
+
+    const patient = await resolvePortalPatient(session.user.id)
+    if (!patient) {
+      return NextResponse.json(
+        { error: 'No patient record is linked to this login' },
+        { status: 403 }
+      )
+    }
+
+    const formData = await request.formData()
+    const kind = formData.get('kind')
+    const file = formData.get('file')
+    if (!isPatientDocumentKind(kind)) {
+      return NextResponse.json({ error: 'Choose what kind of document this is' }, { status: 400 })
+    }
+    if (!(file instanceof File)) {
+      return NextResponse.json({ error: 'A file is required' }, { status: 400 })
+    }
+
+    const document = await addPatientDocument(session, patient, kind, file, request)
+    return NextResponse.json(document)
+  } catch (error) {
+    if (error instanceof UploadError) {
+      return NextResponse.json({ error: error.message }, { status: 400 })
+    }
+    console.error('[PATIENT_PORTAL_DOCUMENTS_POST]', error)
+    return NextResponse.json(
+      { error: 'Failed to upload document' },
+      { status: 500 }
+    )
+  }
+}
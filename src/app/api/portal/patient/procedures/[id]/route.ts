@@ -0,0 +1,53 @@
+import { NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { authOptions } from '@/lib/auth'
+import {
+  PATIENT_PORTAL_ACTIONS,
+  PatientPortalError,
+  resolvePortalPatient,
+  respondToProcedure,
+  type PatientPortalAction,
+} from '@/lib/patient-portal'
+
+// POST /api/portal/patient/procedures/[id] - Confirm an appointment or ask to reschedule it
+export async function POST(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await getServerSession(authOptions)
+    if (!session) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    if (session.user.role !== 'PATIENT') {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 })
+    }
+
+    const patient = await resolvePortalPatient(session.user.id)
+    if (!patient) {
+      return NextResponse.json(
+        { error: 'No patient record is linked to this login' },
+        { status: 403 }
+      )
+    }
+
+    const { id } = await params
+    const { action, note } = await request.json()
+    if (!PATIENT_PORTAL_ACTIONS.includes(action)) {
+      return NextResponse.json({ error: 'Action must be CONFIRM or RESCHEDULE' }, { status: 400 })
+    }
+
+    const procedure = await respondToProcedure(session, patient, id, action as PatientPortalAction, note, request)
+    return NextResponse.json(procedure)
+  } catch (error) {
+    if (error instanceof PatientPortalError) {
+      return NextResponse.json({ error: error.message }, { status: 400 })
+    }
+    console.error('[PATIENT_PORTAL_PROCEDURE_POST]', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
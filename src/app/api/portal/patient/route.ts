@@ -0,0 +1,46 @@
+import { NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { authOptions } from '@/lib/auth'
+import { getPatientPortal, resolvePortalPatient } from '@/lib/patient-portal'
+import { recordAudit } from '@/lib/audit'
+
+// GET /api/portal/patient - The signed-in patient's upcoming appointments and documents
+export async function GET(request: Request) {
+  try {
+    const session = await getServerSession(authOptions)
+    if (!session) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    if (session.user.role !== 'PATIENT') {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 })
+    }
+
+    const patient = await resolvePortalPatient(session.user.id)
+    if (!patient) {
+      return NextResponse.json(
+        { error: 'No patient record is linked to this login' },
+        { status: 403 }
+      )
+    }
+
+    const portal = await getPatientPortal(patient)
+
+    await recordAudit(session, {
+      action: 'VIEW',
+      entityType: 'Patient',
+      entityId: patient.id,
+      patientId: patient.id,
+      summary: 'Patient portal',
+      details: { portal: 'patient' },
+    }, request)
+
+    return NextResponse.json(portal)
+  } catch (error) {
+    console.error('[PATIENT_PORTAL_GET]', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
@@ -2,6 +2,14 @@ import { NextResponse } from 'next/server'
 import { getServerSession } from 'next-auth'
 import { prisma } from '@/lib/prisma'
 import { authOptions } from '@/lib/auth'
+import { getPatientScope } from '@/lib/access'
+import { syncProcedureCharges } from '@/lib/billing'
+import { recordAudit } from '@/lib/audit'
+import { sendProcedureConfirmations } from '@/lib/mail-notifications'
+import { resetRescheduledReminders } from '@/lib/reminders'
+import { notifyRescheduledProcedures } from '@/lib/notifications'
+import { applyProcedureTaskRules } from '@/lib/task-rules'
+import { checkSlot, SchedulingError, type SlotCheck } from '@/lib/scheduling'
 
 export async function GET(request: Request) {
   try {
@@ -13,21 +21,36 @@ export async function GET(request: Request) {
     const { searchParams } = new URL(request.url)
     const patientId = searchParams.get('patientId')
 
-    const where = patientId ? { patientId } : {}
-
     const procedures = await prisma.procedure.findMany({
-      where,
+      where: {
+        ...(patientId && { patientId }),
+        patient: await getPatientScope(session),
+      },
       include: {
         patient: true,
         facility: true,
         physician: true,
         status: true,
+        lop: {
+          select: {
+            id: true,
+            status: true,
+          },
+        },
       },
       orderBy: {
         scheduleDate: 'desc',
       },
     })
 
+    await recordAudit(session, {
+      action: 'VIEW',
+      entityType: 'Procedure',
+      patientId,
+      summary: `Procedure list (${procedures.length} records)`,
+      details: { procedureIds: procedures.map((procedure) => procedure.id) },
+    }, request)
+
     return NextResponse.json(procedures)
   } catch (error) {
     console.error('Error fetching procedures:', error)
@@ -62,6 +85,25 @@ export async function POST(request: Request) {
       }, { status: 400 })
     }
 
+    // Double bookings are refused unless the caller confirms them
+    let slot: SlotCheck | null = null
+    if (data.facilityId) {
+      slot = await checkSlot({
+        facilityId: data.facilityId,
+        examId: data.examId,
+        date: data.scheduleDate,
+        time: data.scheduleTime,
+        resourceId: data.resourceId,
+      })
+      if (slot.conflicts.length > 0 && !data.allowDoubleBooking) {
+        return NextResponse.json({
+          error: 'This time is already booked at the selected facility',
+          conflicts: slot.conflicts,
+          warnings: slot.warnings,
+        }, { status: 409 })
+      }
+    }
+
     // Create the procedure
     const procedure = await prisma.procedure.create({
       data: {
@@ -86,6 +128,11 @@ export async function POST(request: Request) {
             connect: { id: data.physicianId }
           }
         }),
+        ...(slot?.resourceId && {
+          resource: {
+            connect: { id: slot.resourceId }
+          }
+        }),
         isCompleted: false
       },
       include: {
@@ -97,8 +144,29 @@ export async function POST(request: Request) {
       }
     })
 
-    return NextResponse.json(procedure)
+    await recordAudit(session, {
+      action: 'CREATE',
+      entityType: 'Procedure',
+      entityId: procedure.id,
+      patientId: procedure.patientId,
+      summary: procedure.exam.name,
+      after: procedure,
+    }, request)
+
+    await applyProcedureTaskRules(session, [], [procedure])
+    await sendProcedureConfirmations([procedure.id])
+
+    return NextResponse.json({
+      ...procedure,
+      warnings: [
+        ...(slot?.warnings ?? []),
+        ...(slot?.conflicts.length ? ['Booked over an existing procedure'] : []),
+      ],
+    })
   } catch (error) {
+    if (error instanceof SchedulingError) {
+      return NextResponse.json({ error: error.message }, { status: 400 })
+    }
     console.error('[PROCEDURES_POST]', error)
     return NextResponse.json(
       { error: 'Failed to create procedure' },
@@ -115,7 +183,7 @@ export async function PUT(request: Request) {
     }
 
     const data = await request.json()
-    const { id, ...updateData } = data
+    const { id, allowDoubleBooking, ...updateData } = data
 
     if (!id) {
       return NextResponse.json(
@@ -124,6 +192,36 @@ export async function PUT(request: Request) {
       )
     }
 
+    const before = await prisma.procedure.findUnique({ where: { id } })
+
+    // Moving a procedure is checked against the schedule like a new booking
+    let slot: SlotCheck | null = null
+    const moved = before && (
+      (updateData.scheduleDate && new Date(updateData.scheduleDate).getTime() !== before.scheduleDate.getTime()) ||
+      (updateData.scheduleTime && updateData.scheduleTime !== before.scheduleTime) ||
+      (updateData.facilityId && updateData.facilityId !== before.facilityId) ||
+      (updateData.examId && updateData.examId !== before.examId) ||
+      (updateData.resourceId !== undefined && updateData.resourceId !== before.resourceId)
+    )
+    if (before && moved) {
+      slot = await checkSlot({
+        facilityId: updateData.facilityId ?? before.facilityId,
+        examId: updateData.examId ?? before.examId,
+        date: updateData.scheduleDate ?? before.scheduleDate,
+        time: updateData.scheduleTime ?? before.scheduleTime,
+        resourceId: updateData.resourceId,
+        excludeProcedureIds: [id],
+      })
+      if (slot.conflicts.length > 0 && !allowDoubleBooking) {
+        return NextResponse.json({
+          error: 'This time is already booked at the selected facility',
+          conflicts: slot.conflicts,
+          warnings: slot.warnings,
+        }, { status: 409 })
+      }
+      updateData.resourceId = slot.resourceId
+    }
+
     const procedure = await prisma.procedure.update({
       where: { id },
       data: {
@@ -140,8 +238,31 @@ export async function PUT(request: Request) {
       },
     })
 
-    return NextResponse.json(procedure)
+    if (before) {
+      await resetRescheduledReminders([before], [procedure])
+      await notifyRescheduledProcedures(session, [before], [procedure])
+    }
+
+    // Completing a procedure adds its charges to the billing ledger
+    if (updateData.isCompleted !== undefined) {
+      await syncProcedureCharges({ id })
+    }
+
+    await recordAudit(session, {
+      action: 'UPDATE',
+      entityType: 'Procedure',
+      entityId: id,
+      patientId: procedure.patientId,
+      before,
+      after: procedure,
+    }, request)
+    await applyProcedureTaskRules(session, before ? [before] : [], [procedure])
+
+    return NextResponse.json({ ...procedure, warnings: slot?.warnings ?? [] })
   } catch (error) {
+    if (error instanceof SchedulingError) {
+      return NextResponse.json({ error: error.message }, { status: 400 })
+    }
     console.error('Error updating procedure:', error)
     return NextResponse.json(
       { error: 'Internal server error' },
@@ -167,10 +288,18 @@ export async function DELETE(request: Request) {
       )
     }
 
-    await prisma.procedure.delete({
+    const procedure = await prisma.procedure.delete({
       where: { id },
     })
 
+    await recordAudit(session, {
+      action: 'DELETE',
+      entityType: 'Procedure',
+      entityId: id,
+      patientId: procedure.patientId,
+      before: procedure,
+    }, request)
+
     return NextResponse.json({ message: 'Procedure deleted successfully' })
   } catch (error) {
     console.error('Error deleting procedure:', error)
@@ -0,0 +1,48 @@
+import { NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { authOptions } from '@/lib/auth'
+import { prisma } from '@/lib/prisma'
+import { DoctorPortalError, syncDoctorLogin } from '@/lib/doctor-portal'
+
+// PATCH /api/providers/[id]/login - Turns the provider's referral portal login
+// on (with an emailed invitation) or off. `resend: true` sends a fresh
+// invitation to a doctor who has not chosen a password yet.
+export async function PATCH(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await getServerSession(authOptions)
+    if (!session) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { id } = await params
+    const data = await request.json()
+    const existing = await prisma.provider.findUnique({ where: { id } })
+    if (!existing) {
+      return NextResponse.json({ error: 'Provider not found' }, { status: 404 })
+    }
+
+    const hasLogin = data.hasLogin === true
+    const { invited } = await syncDoctorLogin(
+      { ...existing, hasLogin },
+      { resend: !existing.hasLogin || data.resend === true }
+    )
+
+    const provider = await prisma.provider.update({
+      where: { id },
+      data: { hasLogin, updatedAt: new Date() },
+    })
+    return NextResponse.json({ ...provider, invited })
+  } catch (error) {
+    if (error instanceof DoctorPortalError) {
+      return NextResponse.json({ error: error.message }, { status: 400 })
+    }
+    console.error('Error updating provider login status:', error)
+    return NextResponse.json(
+      { error: 'Failed to update provider login status' },
+      { status: 500 }
+    )
+  }
+}
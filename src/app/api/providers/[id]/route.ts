@@ -0,0 +1,86 @@
+import { NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { authOptions } from '@/lib/auth'
+import { prisma } from '@/lib/prisma'
+import { DoctorPortalError, revokeDoctorLogin } from '@/lib/doctor-portal'
+import { ProviderError, updateProvider } from '@/lib/providers'
+
+export async function GET(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await getServerSession(authOptions)
+    if (!session) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { id } = await params
+    const provider = await prisma.provider.findUnique({ where: { id } })
+    if (!provider) {
+      return NextResponse.json({ error: 'Provider not found' }, { status: 404 })
+    }
+
+    return NextResponse.json(provider)
+  } catch (error) {
+    console.error('[PROVIDER_GET]', error)
+    return NextResponse.json({ error: 'Failed to fetch provider' }, { status: 500 })
+  }
+}
+
+export async function PUT(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await getServerSession(authOptions)
+    if (!session) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { id } = await params
+    const result = await updateProvider(id, await request.json())
+    if (!result) {
+      return NextResponse.json({ error: 'Provider not found' }, { status: 404 })
+    }
+
+    return NextResponse.json({ ...result.provider, invited: result.invited })
+  } catch (error) {
+    if (error instanceof ProviderError || error instanceof DoctorPortalError) {
+      return NextResponse.json({ error: error.message }, { status: 400 })
+    }
+    console.error('[PROVIDER_PUT]', error)
+    return NextResponse.json({ error: 'Failed to update provider' }, { status: 500 })
+  }
+}
+
+// Providers are referenced by appointments, procedures and referrals, so
+// deleting one only deactivates it and removes its referral portal login
+export async function DELETE(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await getServerSession(authOptions)
+    if (!session) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { id } = await params
+    const existing = await prisma.provider.findUnique({ where: { id } })
+    if (!existing) {
+      return NextResponse.json({ error: 'Provider not found' }, { status: 404 })
+    }
+
+    const provider = await prisma.provider.update({
+      where: { id },
+      data: { status: 'Inactive', hasLogin: false, updatedAt: new Date() },
+    })
+    await revokeDoctorLogin(existing)
+
+    return NextResponse.json(provider)
+  } catch (error) {
+    console.error('[PROVIDER_DELETE]', error)
+    return NextResponse.json({ error: 'Failed to deactivate provider' }, { status: 500 })
+  }
+}
@@ -0,0 +1,34 @@
+import { NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { authOptions } from '@/lib/auth'
+import { prisma } from '@/lib/prisma'
+
+export async function PATCH(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await getServerSession(authOptions)
+    if (!session) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { id } = await params
+    const data = await request.json()
+    if (data.status !== 'Active' && data.status !== 'Inactive') {
+      return NextResponse.json({ error: 'Status must be Active or Inactive' }, { status: 400 })
+    }
+
+    const provider = await prisma.provider.update({
+      where: { id },
+      data: { status: data.status, updatedAt: new Date() },
+    })
+    return NextResponse.json(provider)
+  } catch (error) {
+    console.error('Error updating provider status:', error)
+    return NextResponse.json(
+      { error: 'Failed to update provider status' },
+      { status: 500 }
+    )
+  }
+}
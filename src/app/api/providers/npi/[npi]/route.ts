@@ -0,0 +1,31 @@
+import { NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { authOptions } from '@/lib/auth'
+import { lookupNpi, NpiRegistryError } from '@/lib/npi-registry'
+
+// Registry details for the provider form to fill in from an NPI
+export async function GET(
+  request: Request,
+  { params }: { params: Promise<{ npi: string }> }
+) {
+  try {
+    const session = await getServerSession(authOptions)
+    if (!session) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { npi } = await params
+    const details = await lookupNpi(npi)
+    if (!details) {
+      return NextResponse.json({ error: 'NPI not found in the NPPES registry' }, { status: 404 })
+    }
+
+    return NextResponse.json(details)
+  } catch (error) {
+    if (error instanceof NpiRegistryError) {
+      return NextResponse.json({ error: error.message }, { status: 400 })
+    }
+    console.error('[PROVIDER_NPI_GET]', error)
+    return NextResponse.json({ error: 'Failed to look up NPI' }, { status: 500 })
+  }
+}
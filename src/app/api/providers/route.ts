@@ -0,0 +1,52 @@
+import { NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { authOptions } from '@/lib/auth'
+import { DoctorPortalError } from '@/lib/doctor-portal'
+import { createProvider, isProviderRole, listProviders, ProviderError } from '@/lib/providers'
+
+// GET /api/providers - The provider directory, optionally narrowed to one role
+// (?role=REFERRING|READING|TREATING). Inactive providers are left out unless
+// ?includeInactive=true.
+export async function GET(request: Request) {
+  try {
+    const session = await getServerSession(authOptions)
+    if (!session) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { searchParams } = new URL(request.url)
+    const role = searchParams.get('role')
+    if (role !== null && !isProviderRole(role)) {
+      return NextResponse.json({ error: 'Unknown provider role' }, { status: 400 })
+    }
+
+    const providers = await listProviders({
+      role: role ?? undefined,
+      includeInactive: searchParams.get('includeInactive') === 'true',
+    })
+    return NextResponse.json(providers)
+  } catch (error) {
+    console.error('[PROVIDERS_GET]', error)
+    return NextResponse.json({ error: 'Failed to fetch providers' }, { status: 500 })
+  }
+}
+
+// POST /api/providers - Adds a provider, inviting them to the referral portal
+// when hasLogin is set
+export async function POST(request: Request) {
+  try {
+    const session = await getServerSession(authOptions)
+    if (!session) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { provider, invited } = await createProvider(await request.json())
+    return NextResponse.json({ ...provider, invited }, { status: 201 })
+  } catch (error) {
+    if (error instanceof ProviderError || error instanceof DoctorPortalError) {
+      return NextResponse.json({ error: error.message }, { status: 400 })
+    }
+    console.error('[PROVIDERS_POST]', error)
+    return NextResponse.json({ error: 'Failed to create provider' }, { status: 500 })
+  }
+}
@@ -0,0 +1,53 @@
+import { NextResponse } from 'next/server'
+import { getAppointmentByToken, REMINDER_RESPONSES, ReminderError, respondToReminder, type ReminderResponse } from '@/lib/reminders'
+
+// GET /api/reminders/[token] - The appointment a reminder link points at
+export async function GET(
+  request: Request,
+  { params }: { params: Promise<{ token: string }> }
+) {
+  try {
+    const { token } = await params
+    const appointment = await getAppointmentByToken(token)
+
+    if (!appointment) {
+      return NextResponse.json({ error: 'This link is invalid or has expired' }, { status: 404 })
+    }
+
+    return NextResponse.json(appointment)
+  } catch (error) {
+    console.error('[REMINDER_GET]', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
+
+// POST /api/reminders/[token] - The patient confirms or cancels
+export async function POST(
+  request: Request,
+  { params }: { params: Promise<{ token: string }> }
+) {
+  try {
+    const { token } = await params
+    const { response } = await request.json()
+
+    if (!Object.keys(REMINDER_RESPONSES).includes(response)) {
+      return NextResponse.json({ error: 'Response must be CONFIRM or CANCEL' }, { status: 400 })
+    }
+
+    const appointment = await respondToReminder(token, response as ReminderResponse, request)
+
+    return NextResponse.json(appointment)
+  } catch (error) {
+    if (error instanceof ReminderError) {
+      return NextResponse.json({ error: error.message }, { status: 400 })
+    }
+    console.error('[REMINDER_POST]', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
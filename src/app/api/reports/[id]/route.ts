@@ -0,0 +1,103 @@
+import { NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { authOptions } from '@/lib/auth'
+import { prisma } from '@/lib/prisma'
+import { ReportData, reportToCsv } from '@/lib/reports'
+import { format as formatDate } from 'date-fns'
+
+// GET /api/reports/[id] - Fetch a report run, or download it with ?format=csv|json
+export async function GET(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await getServerSession(authOptions)
+    if (!session) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { id } = await params
+    const report = await prisma.report.findUnique({
+      where: { id },
+      include: {
+        generatedBy: {
+          select: {
+            id: true,
+            name: true,
+          },
+        },
+      },
+    })
+
+    if (!report) {
+      return NextResponse.json({ error: 'Report not found' }, { status: 404 })
+    }
+
+    const { searchParams } = new URL(request.url)
+    const format = searchParams.get('format')
+
+    if (!format) {
+      return NextResponse.json(report)
+    }
+
+    if (report.status !== 'completed' || !report.data) {
+      return NextResponse.json(
+        { error: 'Report has not been generated successfully' },
+        { status: 409 }
+      )
+    }
+
+    const filename = `${report.type}-report-${formatDate(report.startDate, 'yyyy-MM-dd')}`
+    let responseData: string
+    let contentType: string
+
+    switch (format) {
+      case 'csv':
+        responseData = reportToCsv(report.data as unknown as ReportData)
+        contentType = 'text/csv'
+        break
+      case 'json':
+      default:
+        responseData = JSON.stringify(report, null, 2)
+        contentType = 'application/json'
+    }
+
+    return new NextResponse(responseData, {
+      headers: {
+        'Content-Type': contentType,
+        'Content-Disposition': `attachment; filename="${filename}.${format === 'csv' ? 'csv' : 'json'}"`
+      }
+    })
+  } catch (error) {
+    console.error('[REPORT_GET]', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
+
+export async function DELETE(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await getServerSession(authOptions)
+    if (!session) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { id } = await params
+    await prisma.report.delete({
+      where: { id },
+    })
+
+    return NextResponse.json({ message: 'Report deleted successfully' })
+  } catch (error) {
+    console.error('[REPORT_DELETE]', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,103 @@
+import { NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { authOptions } from '@/lib/auth'
+import { prisma } from '@/lib/prisma'
+import { isReportType, resolveReportParameters, runReport } from '@/lib/reports'
+
+// GET /api/reports - List generated report runs, optionally filtered by type
+export async function GET(request: Request) {
+  try {
+    const session = await getServerSession(authOptions)
+    if (!session) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { searchParams } = new URL(request.url)
+    const type = searchParams.get('type')
+    const limit = Math.min(parseInt(searchParams.get('limit') || '20', 10) || 20, 100)
+
+    if (type && !isReportType(type)) {
+      return NextResponse.json({ error: 'Invalid report type' }, { status: 400 })
+    }
+
+    const reports = await prisma.report.findMany({
+      where: type ? { type } : {},
+      select: {
+        id: true,
+        type: true,
+        title: true,
+        status: true,
+        startDate: true,
+        endDate: true,
+        parameters: true,
+        error: true,
+        createdAt: true,
+        generatedBy: {
+          select: {
+            id: true,
+            name: true,
+          },
+        },
+      },
+      orderBy: {
+        createdAt: 'desc',
+      },
+      take: limit,
+    })
+
+    return NextResponse.json(reports)
+  } catch (error) {
+    console.error('[REPORTS_GET]', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
+
+// POST /api/reports - Generate and persist a new report run
+export async function POST(request: Request) {
+  try {
+    const session = await getServerSession(authOptions)
+    if (!session) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const body = await request.json()
+    const { type, startDate, endDate, facilityId, physicianId, payerId, attorneyId } = body
+
+    if (!isReportType(type)) {
+      return NextResponse.json(
+        { error: 'Report type must be one of daily, weekly or monthly' },
+        { status: 400 }
+      )
+    }
+
+    let params
+    try {
+      params = resolveReportParameters(type, {
+        startDate,
+        endDate,
+        facilityId,
+        physicianId,
+        payerId,
+        attorneyId,
+      })
+    } catch (error) {
+      return NextResponse.json(
+        { error: error instanceof Error ? error.message : 'Invalid report parameters' },
+        { status: 400 }
+      )
+    }
+
+    const report = await runReport(type, params, session.user.id)
+
+    return NextResponse.json(report, { status: report.status === 'failed' ? 500 : 201 })
+  } catch (error) {
+    console.error('[REPORTS_POST]', error)
+    return NextResponse.json(
+      { error: 'Failed to generate report' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,48 @@
+import { NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { authOptions } from '@/lib/auth'
+import { SchedulingError } from '@/lib/scheduling'
+import { bookAppointments, ScheduleConflictError } from '@/lib/schedule-planner'
+import { recordProcedureChanges } from '@/lib/audit'
+import { sendProcedureConfirmations } from '@/lib/mail-notifications'
+import { applyProcedureTaskRules } from '@/lib/task-rules'
+
+// POST /api/scheduling/book - Book a proposed plan in one go
+export async function POST(request: Request) {
+  try {
+    const session = await getServerSession(authOptions)
+    if (!session) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const data = await request.json()
+    const procedures = await bookAppointments({
+      patientId: data.patientId,
+      physicianId: data.physicianId,
+      statusId: data.statusId,
+      appointments: data.appointments,
+      allowDoubleBooking: Boolean(data.allowDoubleBooking),
+    })
+
+    await recordProcedureChanges(session, [], procedures, request)
+    await applyProcedureTaskRules(session, [], procedures)
+    await sendProcedureConfirmations(procedures.map((procedure) => procedure.id))
+
+    return NextResponse.json({ procedures })
+  } catch (error) {
+    if (error instanceof ScheduleConflictError) {
+      return NextResponse.json(
+        { error: error.message, conflicts: error.conflicts },
+        { status: 409 }
+      )
+    }
+    if (error instanceof SchedulingError) {
+      return NextResponse.json({ error: error.message }, { status: 400 })
+    }
+    console.error('[SCHEDULING_BOOK_POST]', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
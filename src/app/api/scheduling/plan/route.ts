@@ -0,0 +1,50 @@
+import { NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { authOptions } from '@/lib/auth'
+import { prisma } from '@/lib/prisma'
+import { SchedulingError } from '@/lib/scheduling'
+import { parsePlanItems, proposePlans } from '@/lib/schedule-planner'
+
+// POST /api/scheduling/plan - Propose days on which all of a patient's procedures fit
+export async function POST(request: Request) {
+  try {
+    const session = await getServerSession(authOptions)
+    if (!session) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const data = await request.json()
+    if (!data.patientId || !data.startDate) {
+      return NextResponse.json(
+        { error: 'Patient and start date are required' },
+        { status: 400 }
+      )
+    }
+
+    const patient = await prisma.patient.findUnique({
+      where: { id: data.patientId },
+      select: { id: true },
+    })
+    if (!patient) {
+      return NextResponse.json({ error: 'Patient not found' }, { status: 404 })
+    }
+
+    const plans = await proposePlans({
+      patientId: patient.id,
+      items: parsePlanItems(data.items),
+      startDate: data.startDate,
+      searchDays: data.searchDays ? Number(data.searchDays) : undefined,
+    })
+
+    return NextResponse.json({ plans })
+  } catch (error) {
+    if (error instanceof SchedulingError) {
+      return NextResponse.json({ error: error.message }, { status: 400 })
+    }
+    console.error('[SCHEDULING_PLAN_POST]', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,50 @@
+import { NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { authOptions } from '@/lib/auth'
+import {
+  getSecurityPolicy,
+  SecurityPolicyError,
+  TWO_FACTOR_POLICY_ROLES,
+  updateSecurityPolicy,
+} from '@/lib/security-policy'
+
+// GET /api/security-policy - The app-wide policy and the roles it can cover
+export async function GET() {
+  try {
+    const session = await getServerSession(authOptions)
+    if (!session) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const policy = await getSecurityPolicy()
+    return NextResponse.json({ ...policy, twoFactorRoles: TWO_FACTOR_POLICY_ROLES })
+  } catch (error) {
+    console.error('[SECURITY_POLICY_GET]', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
+
+// PUT /api/security-policy - Replace the policy; applies from each user's next sign-in
+export async function PUT(request: Request) {
+  try {
+    const session = await getServerSession(authOptions)
+    if (!session) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const policy = await updateSecurityPolicy(session.user.id, await request.json())
+    return NextResponse.json({ ...policy, twoFactorRoles: TWO_FACTOR_POLICY_ROLES })
+  } catch (error) {
+    if (error instanceof SecurityPolicyError) {
+      return NextResponse.json({ error: error.message }, { status: 400 })
+    }
+    console.error('[SECURITY_POLICY_PUT]', error)
+    return NextResponse.json(
+      { error: 'Failed to save security policy' },
+      { status: 500 }
+    )
+  }
+}
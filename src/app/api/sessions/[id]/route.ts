@@ -0,0 +1,34 @@
+import { NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { authOptions } from '@/lib/auth'
+import { endUserSession } from '@/lib/sessions'
+
+// DELETE /api/sessions/[id] - Revoke one session; it ends within a minute
+export async function DELETE(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await getServerSession(authOptions)
+    if (!session) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { id } = await params
+    if (id === session.sessionId) {
+      return NextResponse.json(
+        { error: 'Sign out to end your own session' },
+        { status: 400 }
+      )
+    }
+
+    await endUserSession(id, session.user.id)
+    return NextResponse.json({ success: true })
+  } catch (error) {
+    console.error('[SESSION_DELETE]', error)
+    return NextResponse.json(
+      { error: 'Failed to revoke session' },
+      { status: 500 }
+    )
+  }
+}
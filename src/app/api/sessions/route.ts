@@ -0,0 +1,56 @@
+import { NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { authOptions } from '@/lib/auth'
+import { endUserSessions, listActiveSessions } from '@/lib/sessions'
+
+// GET /api/sessions - Active sessions, optionally for one user
+export async function GET(request: Request) {
+  try {
+    const session = await getServerSession(authOptions)
+    if (!session) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { searchParams } = new URL(request.url)
+    const sessions = await listActiveSessions(searchParams.get('userId'))
+
+    return NextResponse.json(
+      sessions.map((userSession) => ({
+        ...userSession,
+        current: userSession.id === session.sessionId,
+      }))
+    )
+  } catch (error) {
+    console.error('[SESSIONS_GET]', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
+
+// DELETE /api/sessions?userId= - Sign a user out everywhere
+export async function DELETE(request: Request) {
+  try {
+    const session = await getServerSession(authOptions)
+    if (!session) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { searchParams } = new URL(request.url)
+    const userId = searchParams.get('userId')
+    if (!userId) {
+      return NextResponse.json({ error: 'userId is required' }, { status: 400 })
+    }
+
+    // An admin signing themselves out everywhere keeps this session
+    const revoked = await endUserSessions(userId, session.user.id, session.sessionId)
+    return NextResponse.json({ revoked })
+  } catch (error) {
+    console.error('[SESSIONS_DELETE]', error)
+    return NextResponse.json(
+      { error: 'Failed to revoke sessions' },
+      { status: 500 }
+    )
+  }
+}
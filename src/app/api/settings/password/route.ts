@@ -0,0 +1,70 @@
+import { NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { compare, hash } from 'bcryptjs'
+import { authOptions } from '@/lib/auth'
+import { prisma } from '@/lib/prisma'
+import { checkPasswordPolicy, PasswordPolicyError } from '@/lib/security-policy'
+import { endUserSessions } from '@/lib/sessions'
+
+// PUT /api/settings/password - Change the signed-in user's password
+export async function PUT(request: Request) {
+  try {
+    const session = await getServerSession(authOptions)
+    if (!session) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const body = await request.json().catch(() => null)
+    const currentPassword = typeof body?.currentPassword === 'string' ? body.currentPassword : ''
+    const newPassword = typeof body?.newPassword === 'string' ? body.newPassword : ''
+    if (!currentPassword || !newPassword) {
+      return NextResponse.json(
+        { error: 'Current and new password are required' },
+        { status: 400 }
+      )
+    }
+
+    const user = await prisma.user.findUnique({
+      where: { id: session.user.id },
+      select: { id: true, password: true },
+    })
+    if (!user) {
+      return NextResponse.json({ error: 'User not found' }, { status: 404 })
+    }
+    if (!(await compare(currentPassword, user.password || ''))) {
+      return NextResponse.json(
+        { error: 'Current password is incorrect' },
+        { status: 400 }
+      )
+    }
+    if (await compare(newPassword, user.password || '')) {
+      return NextResponse.json(
+        { error: 'Choose a password you have not used here before' },
+        { status: 400 }
+      )
+    }
+
+    await checkPasswordPolicy(newPassword)
+
+    await prisma.user.update({
+      where: { id: user.id },
+      data: {
+        password: await hash(newPassword, 12),
+        passwordChangedAt: new Date(),
+      },
+    })
+    // Other devices signed in with the old password are signed out
+    await endUserSessions(user.id, user.id, session.sessionId)
+
+    return NextResponse.json({ message: 'Password changed' })
+  } catch (error) {
+    if (error instanceof PasswordPolicyError) {
+      return NextResponse.json({ error: error.message }, { status: 400 })
+    }
+    console.error('[SETTINGS_PASSWORD_PUT]', error)
+    return NextResponse.json(
+      { error: 'Failed to change password' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,52 @@
+import { NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { authOptions } from '@/lib/auth'
+import { prisma } from '@/lib/prisma'
+import { generateRecoveryCodes, hashRecoveryCode, verifyTotp } from '@/lib/two-factor'
+
+// POST /api/settings/two-factor/recovery-codes - Replace every recovery code
+export async function POST(request: Request) {
+  try {
+    const session = await getServerSession(authOptions)
+    if (!session) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const body = await request.json().catch(() => null)
+    const code = typeof body?.code === 'string' ? body.code : ''
+    const user = await prisma.user.findUnique({
+      where: { id: session.user.id },
+      select: { id: true, twoFactorEnabled: true, twoFactorSecret: true },
+    })
+    if (!user) {
+      return NextResponse.json({ error: 'User not found' }, { status: 404 })
+    }
+    if (!user.twoFactorEnabled || !user.twoFactorSecret) {
+      return NextResponse.json(
+        { error: 'Two-factor authentication is not on' },
+        { status: 400 }
+      )
+    }
+    // Only the app will do here; a recovery code could be the one that leaked
+    if (!verifyTotp(code, user.twoFactorSecret)) {
+      return NextResponse.json(
+        { error: 'Invalid authentication code' },
+        { status: 400 }
+      )
+    }
+
+    const recoveryCodes = generateRecoveryCodes()
+    await prisma.user.update({
+      where: { id: user.id },
+      data: { twoFactorRecoveryCodes: recoveryCodes.map(hashRecoveryCode) },
+    })
+
+    return NextResponse.json({ recoveryCodes })
+  } catch (error) {
+    console.error('[TWO_FACTOR_RECOVERY_CODES_POST]', error)
+    return NextResponse.json(
+      { error: 'Failed to create recovery codes' },
+      { status: 500 }
+    )
+  }
+}
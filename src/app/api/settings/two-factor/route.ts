@@ -0,0 +1,197 @@
+import { NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { authOptions } from '@/lib/auth'
+import { prisma } from '@/lib/prisma'
+import { getSecurityPolicy, isTwoFactorRequired } from '@/lib/security-policy'
+import {
+  generateRecoveryCodes,
+  generateTwoFactorSecret,
+  hashRecoveryCode,
+  totpTimeStep,
+  twoFactorQrCode,
+  verifySecondFactor,
+} from '@/lib/two-factor'
+
+const userSelect = {
+  id: true,
+  email: true,
+  role: true,
+  twoFactorEnabled: true,
+  twoFactorSecret: true,
+  twoFactorRecoveryCodes: true,
+  twoFactorLastStep: true,
+}
+
+async function readCode(request: Request) {
+  const body = await request.json().catch(() => null)
+  return typeof body?.code === 'string' ? body.code.trim() : ''
+}
+
+// GET /api/settings/two-factor - Whether 2FA is on, and whether the policy requires it
+export async function GET() {
+  try {
+    const session = await getServerSession(authOptions)
+    if (!session) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const [user, policy] = await Promise.all([
+      prisma.user.findUnique({ where: { id: session.user.id }, select: userSelect }),
+      getSecurityPolicy(),
+    ])
+    if (!user) {
+      return NextResponse.json({ error: 'User not found' }, { status: 404 })
+    }
+
+    return NextResponse.json({
+      enabled: user.twoFactorEnabled,
+      required: isTwoFactorRequired(policy, user.role),
+      recoveryCodesRemaining: user.twoFactorRecoveryCodes.length,
+    })
+  } catch (error) {
+    console.error('[TWO_FACTOR_GET]', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
+
+// POST /api/settings/two-factor - Start enrolling: a new secret and its QR code
+export async function POST() {
+  try {
+    const session = await getServerSession(authOptions)
+    if (!session) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const user = await prisma.user.findUnique({ where: { id: session.user.id }, select: userSelect })
+    if (!user) {
+      return NextResponse.json({ error: 'User not found' }, { status: 404 })
+    }
+    if (user.twoFactorEnabled) {
+      return NextResponse.json(
+        { error: 'Two-factor authentication is already on' },
+        { status: 400 }
+      )
+    }
+
+    // Not in force until a code from it is confirmed
+    const secret = generateTwoFactorSecret()
+    await prisma.user.update({
+      where: { id: user.id },
+      data: { twoFactorSecret: secret },
+    })
+
+    return NextResponse.json({ secret, ...(await twoFactorQrCode(user.email, secret)) })
+  } catch (error) {
+    console.error('[TWO_FACTOR_POST]', error)
+    return NextResponse.json(
+      { error: 'Failed to start two-factor setup' },
+      { status: 500 }
+    )
+  }
+}
+
+// PUT /api/settings/two-factor - Confirm enrollment with a code from the app
+export async function PUT(request: Request) {
+  try {
+    const session = await getServerSession(authOptions)
+    if (!session) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const code = await readCode(request)
+    const user = await prisma.user.findUnique({ where: { id: session.user.id }, select: userSelect })
+    if (!user) {
+      return NextResponse.json({ error: 'User not found' }, { status: 404 })
+    }
+    if (user.twoFactorEnabled || !user.twoFactorSecret) {
+      return NextResponse.json(
+        { error: 'Start two-factor setup first' },
+        { status: 400 }
+      )
+    }
+    const timeStep = totpTimeStep(code, user.twoFactorSecret)
+    if (timeStep === null) {
+      return NextResponse.json(
+        { error: 'That code is not valid. Check the time on your phone and try again.' },
+        { status: 400 }
+      )
+    }
+
+    const recoveryCodes = generateRecoveryCodes()
+    await prisma.user.update({
+      where: { id: user.id },
+      data: {
+        twoFactorEnabled: true,
+        twoFactorRecoveryCodes: recoveryCodes.map(hashRecoveryCode),
+        // The code used to turn 2FA on cannot also be used to sign in
+        twoFactorLastStep: timeStep,
+      },
+    })
+
+    return NextResponse.json({ enabled: true, recoveryCodes })
+  } catch (error) {
+    console.error('[TWO_FACTOR_PUT]', error)
+    return NextResponse.json(
+      { error: 'Failed to turn on two-factor authentication' },
+      { status: 500 }
+    )
+  }
+}
+
+// DELETE /api/settings/two-factor - Turn 2FA off; needs a current code
+export async function DELETE(request: Request) {
+  try {
+    const session = await getServerSession(authOptions)
+    if (!session) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const code = await readCode(request)
+    const [user, policy] = await Promise.all([
+      prisma.user.findUnique({ where: { id: session.user.id }, select: userSelect }),
+      getSecurityPolicy(),
+    ])
+    if (!user) {
+      return NextResponse.json({ error: 'User not found' }, { status: 404 })
+    }
+    if (!user.twoFactorEnabled) {
+      return NextResponse.json(
+        { error: 'Two-factor authentication is not on' },
+        { status: 400 }
+      )
+    }
+    if (isTwoFactorRequired(policy, user.role)) {
+      return NextResponse.json(
+        { error: 'Your role requires two-factor authentication' },
+        { status: 400 }
+      )
+    }
+    if (!verifySecondFactor(code, user).valid) {
+      return NextResponse.json(
+        { error: 'Invalid authentication code' },
+        { status: 400 }
+      )
+    }
+
+    await prisma.user.update({
+      where: { id: user.id },
+      data: {
+        twoFactorEnabled: false,
+        twoFactorSecret: null,
+        twoFactorRecoveryCodes: [],
+        twoFactorLastStep: null,
+      },
+    })
+
+    return NextResponse.json({ enabled: false })
+  } catch (error) {
+    console.error('[TWO_FACTOR_DELETE]', error)
+    return NextResponse.json(
+      { error: 'Failed to turn off two-factor authentication' },
+      { status: 500 }
+    )
+  }
+}
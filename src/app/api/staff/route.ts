@@ -2,6 +2,7 @@ import { NextResponse } from 'next/server'
 import { PrismaClient } from '@prisma/client'
 import bcrypt from 'bcryptjs'
 import { hasPermission } from '@/utils/auth'
+import { checkPasswordPolicy, PasswordPolicyError } from '@/lib/security-policy'
 
 const prisma = new PrismaClient()
 
@@ -75,6 +76,8 @@ export async function POST(request: Request) {
       )
     }
 
+    await checkPasswordPolicy(password)
+
     // Hash password
     const hashedPassword = await bcrypt.hash(password, 10)
 
@@ -83,6 +86,7 @@ export async function POST(request: Request) {
       data: {
         email,
         password: hashedPassword,
+        passwordChangedAt: new Date(),
         name,
         role: 'STAFF',
       },
@@ -97,6 +101,9 @@ export async function POST(request: Request) {
 
     return NextResponse.json(staff, { status: 201 })
   } catch (error) {
+    if (error instanceof PasswordPolicyError) {
+      return NextResponse.json({ message: error.message }, { status: 400 })
+    }
     console.error('Error creating staff:', error)
     return NextResponse.json(
       { message: 'Error creating staff' },
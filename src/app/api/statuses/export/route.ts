@@ -1,4 +1,7 @@
 import { NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { authOptions } from '@/lib/auth'
+import { toCsv } from '@/lib/csv'
 import { prisma } from '@/lib/prisma'
 
 interface Status {
@@ -12,6 +15,11 @@ interface Status {
 
 export async function GET(request: Request) {
   try {
+    const session = await getServerSession(authOptions)
+    if (!session) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
     const { searchParams } = new URL(request.url)
     const format = searchParams.get('format') || 'json'
     const search = searchParams.get('search') || ''
@@ -50,10 +58,7 @@ export async function GET(request: Request) {
           status.description,
           status.color
         ])
-        responseData = [
-          headers.join(','),
-          ...rows.map((row: string[]) => row.join(','))
-        ].join('\n')
+        responseData = toCsv([headers, ...rows])
         contentType = 'text/csv'
         break
       case 'json':
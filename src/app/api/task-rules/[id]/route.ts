@@ -0,0 +1,72 @@
+import { NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { authOptions } from '@/lib/auth'
+import { prisma } from '@/lib/prisma'
+import { parseTaskRuleInput, taskRuleInclude, TaskRuleError } from '@/lib/task-rules'
+
+// PUT /api/task-rules/[id] - Change a rule or switch it on and off
+export async function PUT(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await getServerSession(authOptions)
+    if (!session) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { id } = await params
+    const existing = await prisma.taskRule.findUnique({ where: { id } })
+    if (!existing) {
+      return NextResponse.json({ error: 'Rule not found' }, { status: 404 })
+    }
+
+    const input = parseTaskRuleInput(await request.json())
+    const rule = await prisma.taskRule.update({
+      where: { id },
+      data: {
+        ...input,
+        conditions: input.conditions ? { ...input.conditions } : undefined,
+      },
+      include: taskRuleInclude,
+    })
+
+    return NextResponse.json(rule)
+  } catch (error) {
+    if (error instanceof TaskRuleError) {
+      return NextResponse.json({ error: error.message }, { status: 400 })
+    }
+    console.error('[TASK_RULE_PUT]', error)
+    return NextResponse.json(
+      { error: 'Failed to update rule' },
+      { status: 500 }
+    )
+  }
+}
+
+// DELETE /api/task-rules/[id] - Remove a rule; tasks it already created stay
+export async function DELETE(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await getServerSession(authOptions)
+    if (!session) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { id } = await params
+    await prisma.$transaction([
+      prisma.task.updateMany({ where: { ruleId: id }, data: { ruleId: null } }),
+      prisma.taskRule.delete({ where: { id } }),
+    ])
+
+    return new NextResponse(null, { status: 204 })
+  } catch (error) {
+    console.error('[TASK_RULE_DELETE]', error)
+    return NextResponse.json(
+      { error: 'Failed to delete rule' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,70 @@
+import { NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { authOptions } from '@/lib/auth'
+import { prisma } from '@/lib/prisma'
+import { parseTaskRuleInput, taskRuleInclude, TaskRuleError } from '@/lib/task-rules'
+
+// GET /api/task-rules - Every automation rule, active or not
+export async function GET() {
+  try {
+    const session = await getServerSession(authOptions)
+    if (!session) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const rules = await prisma.taskRule.findMany({
+      include: taskRuleInclude,
+      orderBy: { createdAt: 'asc' },
+    })
+
+    return NextResponse.json(rules)
+  } catch (error) {
+    console.error('[TASK_RULES_GET]', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
+
+// POST /api/task-rules - Define a new automation rule
+export async function POST(request: Request) {
+  try {
+    const session = await getServerSession(authOptions)
+    if (!session) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const input = parseTaskRuleInput(await request.json())
+    if (!input.name || !input.trigger || !input.title || !input.priority || input.dueInDays === undefined) {
+      return NextResponse.json(
+        { error: 'Name, trigger, task title, priority and due in days are required' },
+        { status: 400 }
+      )
+    }
+
+    const rule = await prisma.taskRule.create({
+      data: {
+        ...input,
+        name: input.name,
+        trigger: input.trigger,
+        title: input.title,
+        priority: input.priority,
+        dueInDays: input.dueInDays,
+        conditions: input.conditions ? { ...input.conditions } : undefined,
+      },
+      include: taskRuleInclude,
+    })
+
+    return NextResponse.json(rule)
+  } catch (error) {
+    if (error instanceof TaskRuleError) {
+      return NextResponse.json({ error: error.message }, { status: 400 })
+    }
+    console.error('[TASK_RULES_POST]', error)
+    return NextResponse.json(
+      { error: 'Failed to create rule' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,71 @@
+import { NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { authOptions } from '@/lib/auth'
+import { prisma } from '@/lib/prisma'
+import { contentDisposition, deleteUpload, readUpload } from '@/lib/storage'
+import { recordTaskActivity } from '@/lib/tasks'
+
+// GET /api/tasks/[id]/attachments/[attachmentId] - Download an attachment
+export async function GET(
+  request: Request,
+  { params }: { params: Promise<{ id: string; attachmentId: string }> }
+) {
+  try {
+    const session = await getServerSession(authOptions)
+    if (!session) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { id, attachmentId } = await params
+    const attachment = await prisma.taskAttachment.findFirst({ where: { id: attachmentId, taskId: id } })
+    if (!attachment) {
+      return NextResponse.json({ error: 'Attachment not found' }, { status: 404 })
+    }
+
+    const file = await readUpload(attachment.key)
+
+    return new NextResponse(file, {
+      headers: {
+        'Content-Type': attachment.type || 'application/octet-stream',
+        'Content-Disposition': contentDisposition(attachment.name)
+      }
+    })
+  } catch (error) {
+    console.error('[TASK_ATTACHMENT_GET]', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
+
+// DELETE /api/tasks/[id]/attachments/[attachmentId] - Remove an attachment
+export async function DELETE(
+  request: Request,
+  { params }: { params: Promise<{ id: string; attachmentId: string }> }
+) {
+  try {
+    const session = await getServerSession(authOptions)
+    if (!session) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { id, attachmentId } = await params
+    const attachment = await prisma.taskAttachment.findFirst({ where: { id: attachmentId, taskId: id } })
+    if (!attachment) {
+      return NextResponse.json({ error: 'Attachment not found' }, { status: 404 })
+    }
+
+    await prisma.taskAttachment.delete({ where: { id: attachmentId } })
+    await deleteUpload(attachment.key)
+    await recordTaskActivity(id, session.user.id, 'ATTACHMENT_REMOVED', { fromValue: attachment.name })
+
+    return new NextResponse(null, { status: 204 })
+  } catch (error) {
+    console.error('[TASK_ATTACHMENT_DELETE]', error)
+    return NextResponse.json(
+      { error: 'Failed to delete attachment' },
+      { status: 500 }
+    )
+  }
+}
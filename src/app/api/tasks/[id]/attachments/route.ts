@@ -0,0 +1,62 @@
+import { NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { authOptions } from '@/lib/auth'
+import { prisma } from '@/lib/prisma'
+import { saveUpload, UploadError } from '@/lib/storage'
+import { recordTaskActivity } from '@/lib/tasks'
+
+// POST /api/tasks/[id]/attachments - Attach a file to a task
+export async function POST(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await getServerSession(authOptions)
+    if (!session) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { id } = await params
+    const task = await prisma.task.findUnique({ where: { id }, select: { id: true } })
+    if (!task) {
+      return NextResponse.json({ error: 'Task not found' }, { status: 404 })
+    }
+
+    const formData = await request.formData()
+    const file = formData.get('file')
+    if (!(file instanceof File)) {
+      return NextResponse.json({ error: 'A file is required' }, { status: 400 })
+    }
+
+    const stored = await saveUpload(`tasks/${id}`, file)
+    const attachment = await prisma.taskAttachment.create({
+      data: {
+        taskId: id,
+        uploadedById: session.user.id,
+        ...stored,
+      },
+      include: {
+        uploadedBy: {
+          select: {
+            id: true,
+            name: true,
+            email: true,
+          },
+        },
+      },
+    })
+
+    await recordTaskActivity(id, session.user.id, 'ATTACHMENT_ADDED', { toValue: attachment.name })
+
+    return NextResponse.json(attachment)
+  } catch (error) {
+    if (error instanceof UploadError) {
+      return NextResponse.json({ error: error.message }, { status: 400 })
+    }
+    console.error('[TASK_ATTACHMENTS_POST]', error)
+    return NextResponse.json(
+      { error: 'Failed to upload attachment' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,41 @@
+import { NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { authOptions } from '@/lib/auth'
+import { prisma } from '@/lib/prisma'
+
+// DELETE /api/tasks/[id]/comments/[commentId] - Authors and admins remove a
+// comment together with its replies
+export async function DELETE(
+  request: Request,
+  { params }: { params: Promise<{ id: string; commentId: string }> }
+) {
+  try {
+    const session = await getServerSession(authOptions)
+    if (!session) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { id, commentId } = await params
+    const comment = await prisma.taskComment.findFirst({ where: { id: commentId, taskId: id } })
+    if (!comment) {
+      return NextResponse.json({ error: 'Comment not found' }, { status: 404 })
+    }
+    if (comment.authorId !== session.user.id && session.user.role !== 'ADMIN') {
+      return NextResponse.json({ error: 'Only the author can delete this comment' }, { status: 403 })
+    }
+
+    await prisma.taskComment.deleteMany({
+      where: {
+        OR: [{ id: commentId }, { parentId: commentId }],
+      },
+    })
+
+    return new NextResponse(null, { status: 204 })
+  } catch (error) {
+    console.error('[TASK_COMMENT_DELETE]', error)
+    return NextResponse.json(
+      { error: 'Failed to delete comment' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,73 @@
+import { NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { authOptions } from '@/lib/auth'
+import { prisma } from '@/lib/prisma'
+import { resolveMentions } from '@/lib/tasks'
+import { notifyTaskComment } from '@/lib/notifications'
+
+// POST /api/tasks/[id]/comments - Comment on a task or reply to a comment
+export async function POST(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await getServerSession(authOptions)
+    if (!session) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { id } = await params
+    const task = await prisma.task.findUnique({ where: { id }, select: { id: true, title: true, assignedToId: true } })
+    if (!task) {
+      return NextResponse.json({ error: 'Task not found' }, { status: 404 })
+    }
+
+    const body = await request.json()
+    const text = String(body.body ?? '').trim()
+    if (!text) {
+      return NextResponse.json({ error: 'Comment cannot be empty' }, { status: 400 })
+    }
+
+    // Replies always hang off the top-level comment
+    let parentId: string | null = null
+    if (body.parentId) {
+      const parent = await prisma.taskComment.findFirst({
+        where: { id: body.parentId, taskId: id },
+        select: { id: true, parentId: true },
+      })
+      if (!parent) {
+        return NextResponse.json({ error: 'The comment being replied to was not found' }, { status: 400 })
+      }
+      parentId = parent.parentId ?? parent.id
+    }
+
+    const comment = await prisma.taskComment.create({
+      data: {
+        taskId: id,
+        authorId: session.user.id,
+        parentId,
+        body: text,
+        mentionIds: await resolveMentions(text, body.mentionIds),
+      },
+      include: {
+        author: {
+          select: {
+            id: true,
+            name: true,
+            email: true,
+          },
+        },
+      },
+    })
+
+    await notifyTaskComment(session, task, comment)
+
+    return NextResponse.json(comment)
+  } catch (error) {
+    console.error('[TASK_COMMENTS_POST]', error)
+    return NextResponse.json(
+      { error: 'Failed to add comment' },
+      { status: 500 }
+    )
+  }
+}
@@ -2,10 +2,19 @@ import { NextResponse } from "next/server"
 import { getServerSession } from "next-auth"
 import { authOptions } from "@/lib/auth"
 import { prisma } from "@/lib/prisma"
+import { deleteUpload } from "@/lib/storage"
+import { notifyTaskAssigned } from "@/lib/notifications"
+import {
+  recordTaskChanges,
+  resolveTaskLinks,
+  taskDetailInclude,
+  TaskError,
+  withTaskLinks
+} from "@/lib/tasks"
 
 export async function GET(
   req: Request,
-  { params }: { params: { id: string } }
+  { params }: { params: Promise<{ id: string }> }
 ) {
   try {
     const session = await getServerSession(authOptions)
@@ -16,19 +25,12 @@ export async function GET(
       )
     }
 
+    const { id } = await params
     const task = await prisma.task.findUnique({
       where: {
-        id: params.id,
+        id,
       },
-      include: {
-        assignedTo: {
-          select: {
-            id: true,
-            name: true,
-            email: true
-          }
-        }
-      }
+      include: taskDetailInclude
     })
 
     if (!task) {
@@ -38,7 +40,8 @@ export async function GET(
       )
     }
 
-    return NextResponse.json(task)
+    const [withLinks] = await withTaskLinks([task])
+    return NextResponse.json(withLinks)
   } catch (error) {
     console.error("[TASK_GET] Error", error)
     return NextResponse.json(
@@ -50,7 +53,7 @@ export async function GET(
 
 export async function PUT(
   req: Request,
-  { params }: { params: { id: string } }
+  { params }: { params: Promise<{ id: string }> }
 ) {
   try {
     const session = await getServerSession(authOptions)
@@ -61,6 +64,7 @@ export async function PUT(
       )
     }
 
+    const { id } = await params
     const body = await req.json()
     const { title, description, status, priority, dueDate, assignedToId } = body
 
@@ -71,31 +75,46 @@ export async function PUT(
       )
     }
 
+    const existing = await prisma.task.findUnique({ where: { id } })
+    if (!existing) {
+      return NextResponse.json(
+        { error: "Task not found" },
+        { status: 404 }
+      )
+    }
+
+    // Links are only touched when the form sent them
+    const linksSent = ["patientId", "caseId", "procedureId"].some((field) => field in body)
+    const links = linksSent ? await resolveTaskLinks(body) : {}
+
     const task = await prisma.task.update({
       where: {
-        id: params.id,
+        id,
       },
       data: {
         title,
         description,
         status,
         priority,
-        dueDate: dueDate ? new Date(dueDate) : null,
-        assignedToId
+        ...(dueDate && { dueDate: new Date(dueDate) }),
+        ...(assignedToId && { assignedToId }),
+        ...links,
+        updatedAt: new Date()
       },
-      include: {
-        assignedTo: {
-          select: {
-            id: true,
-            name: true,
-            email: true
-          }
-        }
-      }
+      include: taskDetailInclude
     })
 
-    return NextResponse.json(task)
+    await recordTaskChanges(session.user.id, existing, task)
+    if (existing.assignedToId !== task.assignedToId) {
+      await notifyTaskAssigned(session, task)
+    }
+
+    const [withLinks] = await withTaskLinks([task])
+    return NextResponse.json(withLinks)
   } catch (error) {
+    if (error instanceof TaskError) {
+      return NextResponse.json({ error: error.message }, { status: 400 })
+    }
     console.error("[TASK_PUT] Error", error)
     return NextResponse.json(
       { error: "Internal error" },
@@ -106,7 +125,7 @@ export async function PUT(
 
 export async function DELETE(
   req: Request,
-  { params }: { params: { id: string } }
+  { params }: { params: Promise<{ id: string }> }
 ) {
   try {
     const session = await getServerSession(authOptions)
@@ -117,12 +136,22 @@ export async function DELETE(
       )
     }
 
+    const { id } = await params
+    const attachments = await prisma.taskAttachment.findMany({
+      where: { taskId: id },
+      select: { key: true }
+    })
+
     await prisma.task.delete({
       where: {
-        id: params.id,
+        id,
       },
     })
 
+    for (const attachment of attachments) {
+      await deleteUpload(attachment.key)
+    }
+
     return new NextResponse(null, { status: 204 })
   } catch (error) {
     console.error("[TASK_DELETE] Error", error)
@@ -131,4 +160,4 @@ export async function DELETE(
       { status: 500 }
     )
   }
-} 
\ No newline at end of file
+}
@@ -1,9 +1,13 @@
 import { NextResponse } from "next/server"
 import { getServerSession } from "next-auth"
+import type { Prisma } from "@prisma/client"
 import { authOptions } from "@/lib/auth"
 import { prisma } from "@/lib/prisma"
+import { recordTaskActivity, resolveTaskLinks, taskInclude, TaskError, withTaskLinks } from "@/lib/tasks"
+import { notifyTaskAssigned } from "@/lib/notifications"
 
-export async function GET() {
+// GET /api/tasks - All tasks, or those linked to ?patientId, ?caseId or ?procedureId
+export async function GET(request: Request) {
   try {
     const session = await getServerSession(authOptions)
     if (!session?.user) {
@@ -13,22 +17,22 @@ export async function GET() {
       )
     }
 
+    const { searchParams } = new URL(request.url)
+    const where: Prisma.TaskWhereInput = {}
+    for (const field of ["patientId", "caseId", "procedureId"] as const) {
+      const value = searchParams.get(field)
+      if (value) where[field] = value
+    }
+
     const tasks = await prisma.task.findMany({
-      include: {
-        assignedTo: {
-          select: {
-            id: true,
-            name: true,
-            email: true
-          }
-        }
-      },
+      where,
+      include: taskInclude,
       orderBy: {
         createdAt: "desc"
       }
     })
 
-    return NextResponse.json(tasks)
+    return NextResponse.json(await withTaskLinks(tasks))
   } catch (error) {
     console.error("[TASKS_GET] Error", error)
     return NextResponse.json(
@@ -51,39 +55,42 @@ export async function POST(req: Request) {
     const body = await req.json()
     const { title, description, status, priority, dueDate, assignedToId } = body
 
-    if (!title) {
+    if (!title || !dueDate) {
       return NextResponse.json(
-        { error: "Title is required" },
+        { error: "Title and due date are required" },
         { status: 400 }
       )
     }
 
+    const links = await resolveTaskLinks(body)
+    const now = new Date()
     const task = await prisma.task.create({
       data: {
         title,
-        description,
+        description: description ?? "",
         status,
         priority,
-        dueDate: dueDate ? new Date(dueDate) : null,
-        assignedToId
+        dueDate: new Date(dueDate),
+        assignedToId: assignedToId || session.user.id,
+        ...links,
+        createdAt: now,
+        updatedAt: now
       },
-      include: {
-        assignedTo: {
-          select: {
-            id: true,
-            name: true,
-            email: true
-          }
-        }
-      }
+      include: taskInclude
     })
 
+    await recordTaskActivity(task.id, session.user.id, "CREATED")
+    await notifyTaskAssigned(session, task)
+
     return NextResponse.json(task)
   } catch (error) {
+    if (error instanceof TaskError) {
+      return NextResponse.json({ error: error.message }, { status: 400 })
+    }
     console.error("[TASKS_POST] Error", error)
     return NextResponse.json(
       { error: "Internal error" },
       { status: 500 }
     )
   }
-} 
\ No newline at end of file
+}
@@ -15,6 +15,7 @@ export async function GET() {
         id: true,
         name: true,
         email: true,
+        role: true,
       },
       orderBy: {
         name: "asc",
@@ -0,0 +1,142 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { useParams } from 'next/navigation'
+import { format } from 'date-fns'
+import { Loader2, CheckCircle2, XCircle } from 'lucide-react'
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+
+interface Appointment {
+  patientFirstName: string
+  examName: string
+  startsAt: string
+  scheduleTime: string
+  facility: {
+    name: string
+    address: string | null
+    city: string | null
+  }
+  confirmationStatus: 'PENDING' | 'CONFIRMED' | 'CANCELLED'
+  canRespond: boolean
+}
+
+export default function ConfirmAppointmentPage() {
+  const { token } = useParams<{ token: string }>()
+  const [appointment, setAppointment] = useState<Appointment | null>(null)
+  const [loading, setLoading] = useState(true)
+  const [submitting, setSubmitting] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    const fetchAppointment = async () => {
+      try {
+        const response = await fetch(`/api/reminders/${token}`)
+        const data = await response.json()
+        if (!response.ok) {
+          throw new Error(data.error || 'This link is invalid or has expired')
+        }
+        setAppointment(data)
+      } catch (err) {
+        setError(err instanceof Error ? err.message : 'An error occurred')
+      } finally {
+        setLoading(false)
+      }
+    }
+
+    fetchAppointment()
+  }, [token])
+
+  const respond = async (response: 'CONFIRM' | 'CANCEL') => {
+    setSubmitting(true)
+    setError(null)
+
+    try {
+      const res = await fetch(`/api/reminders/${token}`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ response }),
+      })
+      const data = await res.json()
+      if (!res.ok) {
+        throw new Error(data.error || 'Failed to save your response')
+      }
+      setAppointment(data)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save your response')
+    } finally {
+      setSubmitting(false)
+    }
+  }
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center min-h-screen">
+        <Loader2 className="h-8 w-8 animate-spin" />
+      </div>
+    )
+  }
+
+  return (
+    <div className="flex items-center justify-center min-h-screen bg-gray-50 px-4">
+      <Card className="w-full max-w-md">
+        <CardHeader>
+          <CardTitle className="text-2xl text-center">Your Appointment</CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {error && (
+            <div className="bg-red-50 border-l-4 border-red-500 p-4 rounded-lg">
+              <p className="text-sm font-medium text-red-800">{error}</p>
+            </div>
+          )}
+
+          {appointment && (
+            <>
+              <p>Hello {appointment.patientFirstName},</p>
+              <dl className="grid grid-cols-3 gap-2 text-sm">
+                <dt className="text-gray-500">Exam</dt>
+                <dd className="col-span-2 font-medium">{appointment.examName}</dd>
+                <dt className="text-gray-500">Date</dt>
+                <dd className="col-span-2 font-medium">{format(new Date(appointment.startsAt), 'EEEE, MMMM d, yyyy')}</dd>
+                <dt className="text-gray-500">Time</dt>
+                <dd className="col-span-2 font-medium">{appointment.scheduleTime}</dd>
+                <dt className="text-gray-500">Location</dt>
+                <dd className="col-span-2 font-medium">
+                  {[appointment.facility.name, appointment.facility.address, appointment.facility.city].filter(Boolean).join(', ')}
+                </dd>
+              </dl>
+
+              {appointment.confirmationStatus === 'CONFIRMED' && (
+                <div className="flex items-center gap-2 rounded-lg bg-green-50 p-4 text-green-800">
+                  <CheckCircle2 className="h-5 w-5" />
+                  <span>Thank you, your appointment is confirmed.</span>
+                </div>
+              )}
+              {appointment.confirmationStatus === 'CANCELLED' && (
+                <div className="flex items-center gap-2 rounded-lg bg-red-50 p-4 text-red-800">
+                  <XCircle className="h-5 w-5" />
+                  <span>Your appointment has been cancelled. Please call our office to reschedule.</span>
+                </div>
+              )}
+
+              {appointment.canRespond && appointment.confirmationStatus !== 'CANCELLED' && (
+                <div className="flex gap-2">
+                  {appointment.confirmationStatus !== 'CONFIRMED' && (
+                    <Button className="flex-1" disabled={submitting} onClick={() => respond('CONFIRM')}>
+                      {submitting ? <Loader2 className="h-4 w-4 animate-spin" /> : 'Confirm'}
+                    </Button>
+                  )}
+                  <Button variant="outline" className="flex-1" disabled={submitting} onClick={() => respond('CANCEL')}>
+                    Cancel Appointment
+                  </Button>
+                </div>
+              )}
+            </>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  )
+}
@@ -3,6 +3,7 @@
 import Link from "next/link"
 import { usePathname } from "next/navigation"
 import { ThemeToggle } from "./theme-toggle"
+import { NotificationBell } from "./notifications/NotificationBell"
 
 const navigation = [
   { name: "Dashboard", href: "/dashboard" },
@@ -42,6 +43,7 @@ export function Navbar() {
         </div>
       </div>
       <div className="flex items-center space-x-4">
+        <NotificationBell />
         <ThemeToggle />
       </div>
     </nav>
@@ -101,11 +101,11 @@ export default function Navigation() {
                         Attorneys
                       </Link>
                       <Link
-                        href="/tools/doctors"
+                        href="/tools/providers"
                         className="block px-4 py-2 text-sm text-gray-700 dark:text-gray-200 hover:bg-gray-100 dark:hover:bg-gray-700"
                         role="menuitem"
                       >
-                        Doctors
+                        Providers
                       </Link>
                       <Link
                         href="/tools/statuses"
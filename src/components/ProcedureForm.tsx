@@ -3,6 +3,7 @@
 import { useState, useEffect } from 'react'
 import { useSession } from 'next-auth/react'
 import { formatDate } from '@/utils/formatters'
+import { ProviderPicker } from '@/components/providers/ProviderPicker'
 
 interface Status {
   id: string
@@ -23,16 +24,6 @@ interface Facility {
   mapLink: string | null
 }
 
-interface Physician {
-  id: string
-  prefix: string
-  name: string
-  suffix: string | null
-  phoneNumber: string
-  email: string
-  npiNumber: string | null
-}
-
 interface Exam {
   id: string
   name: string
@@ -59,32 +50,28 @@ export default function ProcedureForm({ procedures, onProceduresChange }: Proced
   const { data: session } = useSession()
   const [statuses, setStatuses] = useState<Status[]>([])
   const [facilities, setFacilities] = useState<Facility[]>([])
-  const [physicians, setPhysicians] = useState<Physician[]>([])
   const [exams, setExams] = useState<Exam[]>([])
   const [error, setError] = useState<string>('')
 
   useEffect(() => {
     const fetchData = async () => {
       try {
-        const [statusesRes, facilitiesRes, physiciansRes] = await Promise.all([
+        const [statusesRes, facilitiesRes] = await Promise.all([
           fetch('/api/statuses'),
-          fetch('/api/facilities'),
-          fetch('/api/physicians')
+          fetch('/api/facilities')
         ])
 
-        if (!statusesRes.ok || !facilitiesRes.ok || !physiciansRes.ok) {
+        if (!statusesRes.ok || !facilitiesRes.ok) {
           throw new Error('Failed to fetch data')
         }
 
-        const [statusesData, facilitiesData, physiciansData] = await Promise.all([
+        const [statusesData, facilitiesData] = await Promise.all([
           statusesRes.json(),
-          facilitiesRes.json(),
-          physiciansRes.json()
+          facilitiesRes.json()
         ])
 
         setStatuses(statusesData)
         setFacilities(facilitiesData)
-        setPhysicians(physiciansData)
       } catch (error) {
         console.error('Error fetching data:', error)
         setError('Failed to load form data')
@@ -218,19 +205,12 @@ export default function ProcedureForm({ procedures, onProceduresChange }: Proced
 
             <div>
               <label className="block text-sm font-medium text-gray-700">Physician</label>
-              <select
+              <ProviderPicker
+                role="READING"
                 value={procedure.physicianId}
-                onChange={(e) => updateProcedure(index, 'physicianId', e.target.value)}
-                className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500"
-              >
-                <option value="">Select Physician</option>
-                {physicians.map((physician) => (
-                  <option key={physician.id} value={physician.id}>
-                    {physician.prefix} {physician.name}
-                    {physician.suffix && `, ${physician.suffix}`}
-                  </option>
-                ))}
-              </select>
+                onChange={(providerId) => updateProcedure(index, 'physicianId', providerId)}
+                placeholder="Select Physician"
+              />
             </div>
 
             <div>
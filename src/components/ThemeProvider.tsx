@@ -1,9 +1,28 @@
 "use client"
 
 import * as React from "react"
-import { ThemeProvider as NextThemesProvider } from "next-themes"
+import { ThemeProvider as NextThemesProvider, useTheme } from "next-themes"
 import { type ThemeProviderProps } from "next-themes/dist/types"
+import { useUserSettings } from "@/context/UserSettingsContext"
+
+// Applies the theme saved in the user's settings once they load
+function PersistedTheme() {
+  const { settings } = useUserSettings()
+  const { setTheme } = useTheme()
+  const theme = settings?.theme
+
+  React.useEffect(() => {
+    if (theme) setTheme(theme.toLowerCase())
+  }, [theme, setTheme])
+
+  return null
+}
 
 export function ThemeProvider({ children, ...props }: ThemeProviderProps) {
-  return <NextThemesProvider {...props}>{children}</NextThemesProvider>
-} 
\ No newline at end of file
+  return (
+    <NextThemesProvider {...props}>
+      <PersistedTheme />
+      {children}
+    </NextThemesProvider>
+  )
+}
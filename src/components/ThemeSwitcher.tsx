@@ -3,15 +3,28 @@
 import { Moon, Sun } from 'lucide-react'
 import { useTheme } from 'next-themes'
 import { Button } from '@/components/ui/button'
+import { useUserSettings } from '@/context/UserSettingsContext'
 
 export function ThemeSwitcher() {
-  const { theme, setTheme } = useTheme()
+  const { resolvedTheme, setTheme } = useTheme()
+  const { settings, updateSettings } = useUserSettings()
+
+  const toggle = () => {
+    const next = resolvedTheme === 'dark' ? 'light' : 'dark'
+    setTheme(next)
+    // Signed-in users keep the choice on every device
+    if (settings) {
+      updateSettings({ theme: next === 'dark' ? 'DARK' : 'LIGHT' }).catch((err) =>
+        console.error('Error saving theme:', err)
+      )
+    }
+  }
 
   return (
     <Button
       variant="ghost"
       size="icon"
-      onClick={() => setTheme(theme === 'light' ? 'dark' : 'light')}
+      onClick={toggle}
       className="w-9 px-0 text-gray-500 dark:text-gray-300 hover:bg-transparent dark:hover:bg-transparent"
     >
       <Sun className="h-[1.2rem] w-[1.2rem] rotate-0 scale-100 transition-all dark:rotate-90 dark:scale-0" />
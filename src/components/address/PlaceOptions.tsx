@@ -0,0 +1,51 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { US_STATES } from '@/lib/us-states'
+
+interface CityOption {
+  city: string
+  state: string
+}
+
+// Suggestions for a city input (`list={id}`) from the offline ZIP database,
+// narrowed to the state when one is entered
+export function CityOptions({ id, city, state }: { id: string; city: string; state?: string }) {
+  const [options, setOptions] = useState<CityOption[]>([])
+
+  useEffect(() => {
+    if (city.trim().length < 2) {
+      setOptions([])
+      return
+    }
+
+    const timer = setTimeout(() => {
+      const params = new URLSearchParams({ q: city.trim() })
+      if (state) params.set('state', state)
+      fetch(`/api/geo/cities?${params}`)
+        .then((response) => (response.ok ? response.json() : []))
+        .then(setOptions)
+        .catch((err) => console.error('Error fetching cities:', err))
+    }, 250)
+    return () => clearTimeout(timer)
+  }, [city, state])
+
+  return (
+    <datalist id={id}>
+      {options.map((option) => (
+        <option key={`${option.city}-${option.state}`} value={option.city} label={`${option.city}, ${option.state}`} />
+      ))}
+    </datalist>
+  )
+}
+
+// State abbreviations for a state input (`list={id}`), searchable by name
+export function StateOptions({ id }: { id: string }) {
+  return (
+    <datalist id={id}>
+      {Object.entries(US_STATES).map(([code, name]) => (
+        <option key={code} value={code} label={name} />
+      ))}
+    </datalist>
+  )
+}
@@ -17,26 +17,20 @@ import {
   SelectItem,
   SelectTrigger,
   SelectValue,
-  SelectGroup,
-  SelectLabel,
 } from '@/components/ui/select'
 import { Appointment } from '@/types/appointment'
 import { Patient } from '@/types/patient'
-import { Doctor } from '@/types/doctor'
 import { Exam } from '@/types'
 import { useEffect, useState } from 'react'
 import { usePatient } from '@/hooks/use-patient'
-import { useDoctor } from '@/hooks/use-doctor'
+import { ProviderPicker } from '@/components/providers/ProviderPicker'
 import { Textarea } from '@/components/ui/textarea'
-import { Phone, Mail, MapPin } from 'lucide-react'
 
 const appointmentSchema = z.object({
   patientId: z.string().refine(value => {
     return value !== 'loading' && value !== 'error' && value !== 'empty'
   }, 'Please select a valid patient'),
-  doctorId: z.string().refine(value => {
-    return value !== 'loading' && value !== 'error' && value !== 'empty'
-  }, 'Please select a valid doctor'),
+  doctorId: z.string().min(1, 'Please select a valid doctor'),
   examId: z.string().refine(value => {
     return value !== 'loading' && value !== 'error' && value !== 'no-patient' && value !== 'no-exams'
   }, 'Please select a valid exam type'),
@@ -61,12 +55,10 @@ interface AppointmentFormProps {
 }
 
 export function AppointmentForm({ appointment, onSubmit, onCancel, patients, allExams }: AppointmentFormProps) {
-  const [doctors, setDoctors] = useState<Doctor[]>([])
   const [filteredExams, setFilteredExams] = useState<Exam[]>([])
   const [loading, setLoading] = useState(false)
   const [error, setError] = useState<string | null>(null)
   const { getPatients } = usePatient()
-  const { getDoctors } = useDoctor()
   
   useEffect(() => {
     const fetchData = async () => {
@@ -77,22 +69,17 @@ export function AppointmentForm({ appointment, onSubmit, onCancel, patients, all
         // For testing, use mock data
         // In production, uncomment the API calls
         // const patientsResult = await getPatients()
-        // const doctorsResult = await getDoctors()
         // const examsResponse = await fetch('/api/exams')
         // const examsData = await examsResponse.json()
         // if (patientsResult?.data) {
         //   setPatients(patientsResult.data)
         // }
-        // if (doctorsResult?.data) {
-        //   setDoctors(doctorsResult.data)
-        // }
         // if (examsData) {
         //   setAllExams(examsData)
         // }
         
         // Mock data for testing
         // setPatients(mockPatients)
-        // setDoctors(mockDoctors)
         // setAllExams(mockExams)
       } catch (err) {
         console.error('Error fetching data:', err)
@@ -103,29 +90,7 @@ export function AppointmentForm({ appointment, onSubmit, onCancel, patients, all
     }
     
     fetchData()
-  }, [getPatients, getDoctors])
-
-  // Fetch doctors when component mounts
-  useEffect(() => {
-    const fetchDoctors = async () => {
-      try {
-        setLoading(true)
-        const response = await fetch('/api/doctors')
-        if (!response.ok) {
-          throw new Error('Failed to fetch doctors')
-        }
-        const data = await response.json()
-        setDoctors(data)
-      } catch (err) {
-        console.error('Error fetching doctors:', err)
-        setError('Failed to load doctors')
-      } finally {
-        setLoading(false)
-      }
-    }
-
-    fetchDoctors()
-  }, [])
+  }, [getPatients])
 
   const form = useForm<AppointmentFormData>({
     resolver: zodResolver(appointmentSchema),
@@ -140,7 +105,7 @@ export function AppointmentForm({ appointment, onSubmit, onCancel, patients, all
       notes: appointment.notes || '',
     } : {
       patientId: 'empty',
-      doctorId: 'empty',
+      doctorId: '',
       examId: 'no-patient',
       date: '',
       time: '',
@@ -249,77 +214,15 @@ export function AppointmentForm({ appointment, onSubmit, onCancel, patients, all
           render={({ field }) => (
             <FormItem>
               <FormLabel>Doctor</FormLabel>
-              <Select onValueChange={field.onChange} defaultValue={field.value}>
-                <FormControl>
-                  <SelectTrigger>
-                    <SelectValue placeholder="Select a doctor" />
-                  </SelectTrigger>
-                </FormControl>
-                <SelectContent>
-                  {loading ? (
-                    <SelectItem value="loading" disabled>Loading doctors...</SelectItem>
-                  ) : error ? (
-                    <SelectItem value="error" disabled>Error loading doctors</SelectItem>
-                  ) : doctors.length === 0 ? (
-                    <SelectItem value="empty" disabled>No doctors available</SelectItem>
-                  ) : (
-                    doctors.map((doctor) => (
-                      <SelectGroup key={doctor.id}>
-                        <SelectItem value={doctor.id}>
-                          {doctor.prefix} {doctor.name}
-                        </SelectItem>
-                        <div className="px-2 py-1 space-x-2">
-                          {doctor.phoneNumber && (
-                            <Button
-                              type="button"
-                              variant="ghost"
-                              size="sm"
-                              className="h-8"
-                              onClick={(e) => {
-                                e.preventDefault()
-                                window.location.href = `tel:${doctor.phoneNumber}`
-                              }}
-                            >
-                              <Phone className="h-4 w-4 mr-1" />
-                              Call
-                            </Button>
-                          )}
-                          {doctor.email && (
-                            <Button
-                              type="button"
-                              variant="ghost"
-                              size="sm"
-                              className="h-8"
-                              onClick={(e) => {
-                                e.preventDefault()
-                                window.location.href = `mailto:${doctor.email}`
-                              }}
-                            >
-                              <Mail className="h-4 w-4 mr-1" />
-                              Email
-                            </Button>
-                          )}
-                          {doctor.mapLink && (
-                            <Button
-                              type="button"
-                              variant="ghost"
-                              size="sm"
-                              className="h-8"
-                              onClick={(e) => {
-                                e.preventDefault()
-                                window.open(doctor.mapLink, '_blank')
-                              }}
-                            >
-                              <MapPin className="h-4 w-4 mr-1" />
-                              Map
-                            </Button>
-                          )}
-                        </div>
-                      </SelectGroup>
-                    ))
-                  )}
-                </SelectContent>
-              </Select>
+              <FormControl>
+                <ProviderPicker
+                  role="TREATING"
+                  value={field.value}
+                  onChange={field.onChange}
+                  placeholder="Select a doctor"
+                  className="flex h-10 w-full rounded-md border border-input bg-background px-3 py-2 text-sm ring-offset-background focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring focus-visible:ring-offset-2"
+                />
+              </FormControl>
               <FormMessage />
             </FormItem>
           )}
@@ -0,0 +1,58 @@
+'use client'
+
+import { useEffect, useRef, useState } from 'react'
+import { useSession } from 'next-auth/react'
+import { useAuth } from '@/hooks/use-auth'
+
+const ACTIVITY_EVENTS = ['mousemove', 'mousedown', 'keydown', 'scroll', 'touchstart'] as const
+
+// Warn this long before signing out
+const WARNING_MS = 60 * 1000
+
+// Background polling (the notification bell) keeps the server session fresh,
+// so idleness is judged by what the user does in the browser
+export function IdleTimeout() {
+  const { data: session } = useSession()
+  const { logout } = useAuth()
+  const lastActivity = useRef(Date.now())
+  // useAuth hands out a new logout on every render
+  const logoutRef = useRef(logout)
+  logoutRef.current = logout
+  const [warning, setWarning] = useState(false)
+
+  const timeoutMs = (session?.idleTimeoutMinutes ?? 0) * 60 * 1000
+
+  useEffect(() => {
+    if (!timeoutMs) return
+
+    const onActivity = () => {
+      lastActivity.current = Date.now()
+    }
+    ACTIVITY_EVENTS.forEach((event) => window.addEventListener(event, onActivity, { passive: true }))
+
+    const interval = setInterval(() => {
+      const idle = Date.now() - lastActivity.current
+      if (idle >= timeoutMs) {
+        clearInterval(interval)
+        logoutRef.current()
+      } else {
+        setWarning(idle >= timeoutMs - WARNING_MS)
+      }
+    }, 5 * 1000)
+
+    return () => {
+      ACTIVITY_EVENTS.forEach((event) => window.removeEventListener(event, onActivity))
+      clearInterval(interval)
+    }
+  }, [timeoutMs])
+
+  if (!warning) return null
+
+  return (
+    <div className="fixed bottom-4 right-4 z-50 max-w-sm bg-amber-50 border border-amber-200 rounded-lg shadow-lg p-4">
+      <p className="text-sm text-amber-900">
+        You will be signed out in a minute because of inactivity. Move the mouse or press a key to stay signed in.
+      </p>
+    </div>
+  )
+}
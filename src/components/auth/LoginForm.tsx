@@ -16,6 +16,7 @@ import { LoginCredentials } from '@/types/user'
 const loginSchema = z.object({
   email: z.string().email('Invalid email address'),
   password: z.string().min(6, 'Password must be at least 6 characters'),
+  code: z.string().optional(),
 })
 
 type LoginFormData = z.infer<typeof loginSchema>
@@ -23,19 +24,67 @@ type LoginFormData = z.infer<typeof loginSchema>
 interface LoginFormProps {
   onSubmit: (data: LoginCredentials) => void
   onForgotPassword: () => void
+  // Set once the password is accepted and the account also needs a code
+  twoFactorRequired?: boolean
+  onCancelTwoFactor?: () => void
+  defaultValues?: LoginCredentials
 }
 
-export function LoginForm({ onSubmit, onForgotPassword }: LoginFormProps) {
+export function LoginForm({
+  onSubmit,
+  onForgotPassword,
+  twoFactorRequired = false,
+  onCancelTwoFactor,
+  defaultValues,
+}: LoginFormProps) {
   const form = useForm<LoginFormData>({
     resolver: zodResolver(loginSchema),
     defaultValues: {
-      email: '',
-      password: '',
+      email: defaultValues?.email ?? '',
+      password: defaultValues?.password ?? '',
+      code: '',
     },
   })
 
   const handleSubmit = (data: LoginFormData) => {
-    onSubmit(data)
+    if (twoFactorRequired && !data.code?.trim()) {
+      form.setError('code', { message: 'Enter the code from your authenticator app' })
+      return
+    }
+    onSubmit({ ...data, code: twoFactorRequired ? data.code?.trim() : undefined })
+  }
+
+  if (twoFactorRequired) {
+    return (
+      <Form {...form}>
+        <form onSubmit={form.handleSubmit(handleSubmit)} className="space-y-4">
+          <p className="text-sm text-gray-600">
+            Enter the 6-digit code from your authenticator app. If you do not have your phone, use one of your recovery codes.
+          </p>
+
+          <FormField
+            control={form.control}
+            name="code"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Authentication code</FormLabel>
+                <FormControl>
+                  <Input autoComplete="one-time-code" autoFocus placeholder="123456" {...field} />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+
+          <Button type="submit" className="w-full">
+            Verify
+          </Button>
+          <Button type="button" variant="link" onClick={onCancelTwoFactor} className="w-full text-sm">
+            Use a different account
+          </Button>
+        </form>
+      </Form>
+    )
   }
 
   return (
@@ -0,0 +1,86 @@
+'use client'
+
+import { useState } from 'react'
+import { useSession } from 'next-auth/react'
+import { Loader2 } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { useToast } from '@/components/ui/use-toast'
+
+const emptyForm = {
+  currentPassword: '',
+  newPassword: '',
+  confirmPassword: '',
+}
+
+export function PasswordSettings() {
+  const { update } = useSession()
+  const { toast } = useToast()
+  const [form, setForm] = useState(emptyForm)
+  const [busy, setBusy] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const submit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    if (form.newPassword !== form.confirmPassword) {
+      setError('The new passwords do not match')
+      return
+    }
+
+    setBusy(true)
+    setError(null)
+    try {
+      const response = await fetch('/api/settings/password', {
+        method: 'PUT',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ currentPassword: form.currentPassword, newPassword: form.newPassword }),
+      })
+      const data = await response.json()
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to change password')
+      }
+      setForm(emptyForm)
+      toast({ title: 'Password changed', description: 'Your other devices have been signed out.' })
+      // Lifts an expired-password restriction on the current session
+      await update()
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to change password')
+    } finally {
+      setBusy(false)
+    }
+  }
+
+  const field = (name: keyof typeof emptyForm, label: string, autoComplete: string) => (
+    <div className="space-y-2">
+      <Label htmlFor={name}>{label}</Label>
+      <Input
+        id={name}
+        type="password"
+        value={form[name]}
+        onChange={(e) => setForm({ ...form, [name]: e.target.value })}
+        autoComplete={autoComplete}
+        className="max-w-sm"
+      />
+    </div>
+  )
+
+  return (
+    <form onSubmit={submit} className="space-y-4">
+      {error && (
+        <div className="bg-red-50 border-l-4 border-red-500 p-4 rounded-lg">
+          <p className="text-sm font-medium text-red-800">{error}</p>
+        </div>
+      )}
+      {field('currentPassword', 'Current password', 'current-password')}
+      {field('newPassword', 'New password', 'new-password')}
+      {field('confirmPassword', 'Confirm new password', 'new-password')}
+      <Button type="submit" disabled={busy || !form.currentPassword || !form.newPassword}>
+        {busy && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+        Change password
+      </Button>
+    </form>
+  )
+}
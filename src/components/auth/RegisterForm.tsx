@@ -23,7 +23,7 @@ import { RegisterData } from '@/types/user'
 const registerSchema = z.object({
   name: z.string().min(2, 'Name must be at least 2 characters'),
   email: z.string().email('Invalid email address'),
-  password: z.string().min(6, 'Password must be at least 6 characters'),
+  password: z.string().min(8, 'Password must be at least 8 characters'),
   confirmPassword: z.string(),
   role: z.enum(['admin', 'doctor', 'staff']),
 }).refine((data) => data.password === data.confirmPassword, {
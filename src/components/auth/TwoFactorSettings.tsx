@@ -0,0 +1,207 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import Image from 'next/image'
+import { useSession } from 'next-auth/react'
+import { Loader2 } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+
+interface TwoFactorStatus {
+  enabled: boolean
+  required: boolean
+  recoveryCodesRemaining: number
+}
+
+interface Enrollment {
+  secret: string
+  qrCode: string
+}
+
+async function send<T>(url: string, method: string, body?: object): Promise<T> {
+  const response = await fetch(url, {
+    method,
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    body: body ? JSON.stringify(body) : undefined,
+  })
+  const data = await response.json()
+  if (!response.ok) {
+    throw new Error(data.error || 'Something went wrong')
+  }
+  return data
+}
+
+export function TwoFactorSettings() {
+  const { update } = useSession()
+  const [status, setStatus] = useState<TwoFactorStatus | null>(null)
+  const [enrollment, setEnrollment] = useState<Enrollment | null>(null)
+  const [recoveryCodes, setRecoveryCodes] = useState<string[] | null>(null)
+  const [code, setCode] = useState('')
+  const [busy, setBusy] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    send<TwoFactorStatus>('/api/settings/two-factor', 'GET')
+      .then(setStatus)
+      .catch((err) => setError(err.message))
+  }, [])
+
+  const run = async (action: () => Promise<void>) => {
+    setBusy(true)
+    setError(null)
+    try {
+      await action()
+      setCode('')
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Something went wrong')
+    } finally {
+      setBusy(false)
+    }
+  }
+
+  const startSetup = () =>
+    run(async () => {
+      setRecoveryCodes(null)
+      setEnrollment(await send<Enrollment>('/api/settings/two-factor', 'POST'))
+    })
+
+  const confirmSetup = () =>
+    run(async () => {
+      const data = await send<{ recoveryCodes: string[] }>('/api/settings/two-factor', 'PUT', { code })
+      setEnrollment(null)
+      setRecoveryCodes(data.recoveryCodes)
+      setStatus((prev) => prev && { ...prev, enabled: true, recoveryCodesRemaining: data.recoveryCodes.length })
+      // Lifts the policy's restriction on the current session
+      await update()
+    })
+
+  const disable = () =>
+    run(async () => {
+      await send('/api/settings/two-factor', 'DELETE', { code })
+      setRecoveryCodes(null)
+      setStatus((prev) => prev && { ...prev, enabled: false, recoveryCodesRemaining: 0 })
+    })
+
+  const regenerate = () =>
+    run(async () => {
+      const data = await send<{ recoveryCodes: string[] }>('/api/settings/two-factor/recovery-codes', 'POST', { code })
+      setRecoveryCodes(data.recoveryCodes)
+      setStatus((prev) => prev && { ...prev, recoveryCodesRemaining: data.recoveryCodes.length })
+    })
+
+  const downloadCodes = () => {
+    if (!recoveryCodes) return
+    const blob = new Blob([`Gulf Coast recovery codes\n\n${recoveryCodes.join('\n')}\n`], { type: 'text/plain' })
+    const url = URL.createObjectURL(blob)
+    const link = document.createElement('a')
+    link.href = url
+    link.download = 'gulf-coast-recovery-codes.txt'
+    link.click()
+    URL.revokeObjectURL(url)
+  }
+
+  if (!status) {
+    return error ? (
+      <p className="text-sm text-red-600">{error}</p>
+    ) : (
+      <Loader2 className="h-5 w-5 animate-spin text-indigo-600" />
+    )
+  }
+
+  const codeField = (
+    <div className="space-y-2">
+      <Label htmlFor="two-factor-code">Code from your authenticator app</Label>
+      <Input
+        id="two-factor-code"
+        value={code}
+        onChange={(e) => setCode(e.target.value)}
+        autoComplete="one-time-code"
+        placeholder="123456"
+        className="max-w-xs"
+      />
+    </div>
+  )
+
+  return (
+    <div className="space-y-4">
+      {error && (
+        <div className="bg-red-50 border-l-4 border-red-500 p-4 rounded-lg">
+          <p className="text-sm font-medium text-red-800">{error}</p>
+        </div>
+      )}
+
+      {recoveryCodes && (
+        <div className="p-4 bg-amber-50 border border-amber-200 rounded-lg space-y-3">
+          <p className="text-sm text-amber-900">
+            Save these recovery codes somewhere safe. Each one signs you in once if you lose your phone, and they will not be shown again.
+          </p>
+          <ul className="grid grid-cols-2 gap-2 font-mono text-sm text-gray-900">
+            {recoveryCodes.map((recoveryCode) => (
+              <li key={recoveryCode}>{recoveryCode}</li>
+            ))}
+          </ul>
+          <Button type="button" variant="outline" size="sm" onClick={downloadCodes}>
+            Download codes
+          </Button>
+        </div>
+      )}
+
+      {status.enabled ? (
+        <div className="space-y-4">
+          <p className="text-sm text-gray-700">
+            Two-factor authentication is <span className="font-medium text-green-700">on</span>.{' '}
+            {status.recoveryCodesRemaining} recovery code{status.recoveryCodesRemaining === 1 ? '' : 's'} left.
+          </p>
+          {codeField}
+          <div className="flex flex-wrap gap-2">
+            <Button type="button" variant="outline" onClick={regenerate} disabled={busy || !code}>
+              New recovery codes
+            </Button>
+            {!status.required && (
+              <Button type="button" variant="destructive" onClick={disable} disabled={busy || !code}>
+                Turn off
+              </Button>
+            )}
+          </div>
+          {status.required && (
+            <p className="text-sm text-gray-500">Your role requires two-factor authentication, so it cannot be turned off.</p>
+          )}
+        </div>
+      ) : enrollment ? (
+        <div className="space-y-4">
+          <p className="text-sm text-gray-700">
+            Scan this QR code with an authenticator app such as Google Authenticator, Microsoft Authenticator or 1Password,
+            then enter the code it shows.
+          </p>
+          <Image src={enrollment.qrCode} alt="Two-factor QR code" width={192} height={192} unoptimized />
+          <p className="text-sm text-gray-500">
+            Can&apos;t scan it? Enter this key instead: <span className="font-mono text-gray-900 break-all">{enrollment.secret}</span>
+          </p>
+          {codeField}
+          <div className="flex gap-2">
+            <Button type="button" onClick={confirmSetup} disabled={busy || !code}>
+              {busy && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              Turn on
+            </Button>
+            <Button type="button" variant="outline" onClick={() => setEnrollment(null)} disabled={busy}>
+              Cancel
+            </Button>
+          </div>
+        </div>
+      ) : (
+        <div className="space-y-4">
+          <p className="text-sm text-gray-700">
+            Protect your account with a code from your phone in addition to your password.
+          </p>
+          <Button type="button" onClick={startSetup} disabled={busy}>
+            {busy && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+            Set up two-factor authentication
+          </Button>
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,216 @@
+'use client'
+
+import { format } from 'date-fns'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+
+export const CLAIM_TYPE_LABELS: Record<string, string> = {
+  AUTO: 'Auto accident',
+  PREMISES: 'Premises / slip and fall',
+  WORKERS_COMP: "Workers' compensation",
+  MALPRACTICE: 'Medical malpractice',
+  OTHER: 'Other',
+}
+
+export const SETTLEMENT_STATUS_LABELS: Record<string, string> = {
+  PENDING: 'Pending',
+  NEGOTIATING: 'Negotiating',
+  LITIGATION: 'In litigation',
+  SETTLED: 'Settled',
+  DROPPED: 'Dropped',
+}
+
+export interface CaseAttorneyOption {
+  id: string
+  user: { name: string }
+  caseManagers: Array<{ id: string; firstName: string; lastName: string }>
+}
+
+export interface CaseProcedureOption {
+  id: string
+  scheduleDate: string
+  caseId?: string | null
+  exam: { name: string }
+}
+
+export interface CaseDetailsValue {
+  attorneyId: string
+  caseManagerId: string
+  dateOfInjury: string
+  claimType: string
+  opposingInsurer: string
+  settlementStatus: string
+  settlementAmount: string
+  procedureIds: string[]
+}
+
+export const emptyCaseDetails: CaseDetailsValue = {
+  attorneyId: '',
+  caseManagerId: '',
+  dateOfInjury: '',
+  claimType: '',
+  opposingInsurer: '',
+  settlementStatus: '',
+  settlementAmount: '',
+  procedureIds: [],
+}
+
+// Blank fields are sent as null so clearing one in the form clears it on the case
+export function toCaseDetailsPayload(value: CaseDetailsValue) {
+  return {
+    ...value,
+    attorneyId: value.attorneyId || null,
+    caseManagerId: value.caseManagerId || null,
+    dateOfInjury: value.dateOfInjury ? new Date(value.dateOfInjury).toISOString() : null,
+    claimType: value.claimType || null,
+    opposingInsurer: value.opposingInsurer || null,
+    settlementStatus: value.settlementStatus || null,
+    settlementAmount: value.settlementAmount === '' ? null : Number(value.settlementAmount),
+  }
+}
+
+const selectClassName =
+  'block w-full rounded-md border border-gray-300 bg-white px-3 py-2 text-sm shadow-sm focus:border-indigo-500 focus:outline-none focus:ring-1 focus:ring-indigo-500'
+
+interface CaseDetailsFieldsProps {
+  value: CaseDetailsValue
+  onChange: (changes: Partial<CaseDetailsValue>) => void
+  attorneys: CaseAttorneyOption[]
+  procedures: CaseProcedureOption[]
+  caseId?: string
+}
+
+export function CaseDetailsFields({ value, onChange, attorneys, procedures, caseId }: CaseDetailsFieldsProps) {
+  const caseManagers = attorneys.find((attorney) => attorney.id === value.attorneyId)?.caseManagers ?? []
+
+  const toggleProcedure = (id: string, checked: boolean) => {
+    onChange({
+      procedureIds: checked
+        ? [...value.procedureIds, id]
+        : value.procedureIds.filter((procedureId) => procedureId !== id),
+    })
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+        <div className="space-y-2">
+          <Label htmlFor="attorneyId">Attorney</Label>
+          <select
+            id="attorneyId"
+            value={value.attorneyId}
+            onChange={(e) => onChange({ attorneyId: e.target.value, caseManagerId: '' })}
+            className={selectClassName}
+          >
+            <option value="">No attorney</option>
+            {attorneys.map((attorney) => (
+              <option key={attorney.id} value={attorney.id}>{attorney.user.name}</option>
+            ))}
+          </select>
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="caseManagerId">Case Manager</Label>
+          <select
+            id="caseManagerId"
+            value={value.caseManagerId}
+            onChange={(e) => onChange({ caseManagerId: e.target.value })}
+            disabled={!value.attorneyId}
+            className={selectClassName}
+          >
+            <option value="">No case manager</option>
+            {caseManagers.map((caseManager) => (
+              <option key={caseManager.id} value={caseManager.id}>
+                {caseManager.firstName} {caseManager.lastName}
+              </option>
+            ))}
+          </select>
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="dateOfInjury">Date of Injury</Label>
+          <Input
+            id="dateOfInjury"
+            type="date"
+            value={value.dateOfInjury}
+            onChange={(e) => onChange({ dateOfInjury: e.target.value })}
+          />
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="claimType">Claim Type</Label>
+          <select
+            id="claimType"
+            value={value.claimType}
+            onChange={(e) => onChange({ claimType: e.target.value })}
+            className={selectClassName}
+          >
+            <option value="">Not set</option>
+            {Object.entries(CLAIM_TYPE_LABELS).map(([key, label]) => (
+              <option key={key} value={key}>{label}</option>
+            ))}
+          </select>
+        </div>
+        <div className="space-y-2 sm:col-span-2">
+          <Label htmlFor="opposingInsurer">Opposing Insurer</Label>
+          <Input
+            id="opposingInsurer"
+            value={value.opposingInsurer}
+            onChange={(e) => onChange({ opposingInsurer: e.target.value })}
+            placeholder="At-fault party's insurance carrier"
+          />
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="settlementStatus">Settlement Status</Label>
+          <select
+            id="settlementStatus"
+            value={value.settlementStatus}
+            onChange={(e) => onChange({ settlementStatus: e.target.value })}
+            className={selectClassName}
+          >
+            <option value="">Not set</option>
+            {Object.entries(SETTLEMENT_STATUS_LABELS).map(([key, label]) => (
+              <option key={key} value={key}>{label}</option>
+            ))}
+          </select>
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="settlementAmount">Settlement Amount</Label>
+          <Input
+            id="settlementAmount"
+            type="number"
+            min="0"
+            step="0.01"
+            value={value.settlementAmount}
+            onChange={(e) => onChange({ settlementAmount: e.target.value })}
+          />
+        </div>
+      </div>
+
+      <div className="space-y-2">
+        <Label>Procedures Billed Under This Case</Label>
+        {procedures.length === 0 ? (
+          <p className="text-sm text-gray-500">The patient has no procedures yet.</p>
+        ) : (
+          <ul className="divide-y border rounded-md">
+            {procedures.map((procedure) => (
+              <li key={procedure.id} className="px-4 py-2">
+                <label className="flex items-center gap-3 text-sm text-gray-700">
+                  <input
+                    type="checkbox"
+                    checked={value.procedureIds.includes(procedure.id)}
+                    onChange={(e) => toggleProcedure(procedure.id, e.target.checked)}
+                    className="rounded border-gray-300 text-indigo-600 focus:ring-indigo-500"
+                  />
+                  <span>
+                    {procedure.exam.name} · {format(new Date(procedure.scheduleDate), 'MM/dd/yyyy')}
+                  </span>
+                  {procedure.caseId && procedure.caseId !== caseId && !value.procedureIds.includes(procedure.id) && (
+                    <span className="text-xs text-amber-600">On another case</span>
+                  )}
+                </label>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+    </div>
+  )
+}
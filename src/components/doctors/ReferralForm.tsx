@@ -0,0 +1,193 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { Loader2 } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Textarea } from '@/components/ui/textarea'
+import { CityOptions } from '@/components/address/PlaceOptions'
+import { getCityStateFromZip } from '@/lib/zipcode'
+
+interface ExamOption {
+  id: string
+  name: string
+  category: string
+}
+
+const emptyForm = {
+  firstName: '',
+  lastName: '',
+  dateOfBirth: '',
+  phone: '',
+  email: '',
+  gender: '',
+  address: '',
+  city: '',
+  zip: '',
+  notes: '',
+}
+
+const selectClassName =
+  'mt-1 block w-full rounded-md border border-gray-300 bg-white px-3 py-2 text-sm shadow-sm focus:border-indigo-500 focus:outline-none focus:ring-1 focus:ring-indigo-500'
+
+interface ReferralFormProps {
+  onSubmitted: () => void
+  onCancel: () => void
+}
+
+// Patient demographics plus the exams the doctor orders for them
+export function ReferralForm({ onSubmitted, onCancel }: ReferralFormProps) {
+  const [form, setForm] = useState(emptyForm)
+  const [examIds, setExamIds] = useState<string[]>([])
+  const [exams, setExams] = useState<ExamOption[]>([])
+  const [busy, setBusy] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    fetch('/api/exams')
+      .then((response) => (response.ok ? response.json() : []))
+      .then(setExams)
+      .catch((err) => console.error('Error fetching exams:', err))
+  }, [])
+
+  const toggleExam = (id: string) => {
+    setExamIds((prev) => (prev.includes(id) ? prev.filter((examId) => examId !== id) : [...prev, id]))
+  }
+
+  const setField = (name: keyof typeof emptyForm, value: string) => {
+    setForm((prev) => ({ ...prev, [name]: value }))
+
+    // A complete ZIP fills in the city from the offline ZIP database
+    if (name === 'zip' && value.length === 5) {
+      getCityStateFromZip(value)
+        .then((location) => {
+          if (location) {
+            setForm((prev) => ({ ...prev, city: location.city }))
+          }
+        })
+        .catch((err) => console.error('Error looking up ZIP code:', err))
+    }
+  }
+
+  const submit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    setBusy(true)
+    setError(null)
+    try {
+      const response = await fetch('/api/portal/doctor/referrals', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ ...form, examIds }),
+      })
+      const data = await response.json()
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to send referral')
+      }
+      setForm(emptyForm)
+      setExamIds([])
+      onSubmitted()
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to send referral')
+    } finally {
+      setBusy(false)
+    }
+  }
+
+  const field = (name: keyof typeof emptyForm, label: string, type = 'text', required = false) => (
+    <div>
+      <Label htmlFor={`referral-${name}`}>{label}</Label>
+      <Input
+        id={`referral-${name}`}
+        type={type}
+        value={form[name]}
+        onChange={(e) => setField(name, e.target.value)}
+        required={required}
+        list={name === 'city' ? 'referral-city-options' : undefined}
+        className="mt-1"
+      />
+    </div>
+  )
+
+  return (
+    <form onSubmit={submit} className="bg-white rounded-2xl shadow-xl p-6 space-y-6">
+      <h2 className="text-lg font-semibold text-gray-900">New referral</h2>
+
+      {error && (
+        <div className="bg-red-50 border-l-4 border-red-500 p-4 rounded-lg">
+          <p className="text-sm font-medium text-red-800">{error}</p>
+        </div>
+      )}
+
+      <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+        {field('firstName', 'First name', 'text', true)}
+        {field('lastName', 'Last name', 'text', true)}
+        {field('dateOfBirth', 'Date of birth', 'date', true)}
+        {field('phone', 'Phone', 'tel', true)}
+        {field('email', 'Email', 'email')}
+        <div>
+          <Label htmlFor="referral-gender">Gender</Label>
+          <select
+            id="referral-gender"
+            value={form.gender}
+            onChange={(e) => setForm({ ...form, gender: e.target.value })}
+            className={selectClassName}
+          >
+            <option value="">Not specified</option>
+            <option value="male">Male</option>
+            <option value="female">Female</option>
+            <option value="other">Other</option>
+          </select>
+        </div>
+        {field('address', 'Address')}
+        <div className="grid grid-cols-2 gap-4">
+          {field('city', 'City')}
+          {field('zip', 'ZIP')}
+          <CityOptions id="referral-city-options" city={form.city} />
+        </div>
+      </div>
+
+      <div>
+        <p className="text-sm font-medium text-gray-900">Exams ordered</p>
+        <div className="mt-2 grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-2">
+          {exams.map((exam) => (
+            <label key={exam.id} className="flex items-center gap-2 text-sm text-gray-700">
+              <input
+                type="checkbox"
+                checked={examIds.includes(exam.id)}
+                onChange={() => toggleExam(exam.id)}
+                className="rounded border-gray-300 text-indigo-600 focus:ring-indigo-500"
+              />
+              {exam.name}
+              <span className="text-xs text-gray-400">{exam.category}</span>
+            </label>
+          ))}
+        </div>
+      </div>
+
+      <div>
+        <Label htmlFor="referral-notes">Clinical notes</Label>
+        <Textarea
+          id="referral-notes"
+          value={form.notes}
+          onChange={(e) => setForm({ ...form, notes: e.target.value })}
+          placeholder="Reason for the exam, relevant history"
+          maxLength={1000}
+          className="mt-1"
+        />
+      </div>
+
+      <div className="flex gap-2">
+        <Button type="submit" disabled={busy || examIds.length === 0}>
+          {busy && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+          Send referral
+        </Button>
+        <Button type="button" variant="outline" disabled={busy} onClick={onCancel}>
+          Cancel
+        </Button>
+      </div>
+    </form>
+  )
+}
@@ -0,0 +1,174 @@
+'use client'
+
+import { Fragment, useCallback, useEffect, useRef, useState } from 'react'
+import { useRouter } from 'next/navigation'
+import Link from 'next/link'
+import { Menu, Transition } from '@headlessui/react'
+import { formatDistanceToNow } from 'date-fns'
+import { Bell } from 'lucide-react'
+import { cn } from '@/lib/utils'
+
+export interface AppNotification {
+  id: string
+  type: string
+  title: string
+  body: string
+  link: string | null
+  readAt: string | null
+  createdAt: string
+}
+
+const POLL_INTERVAL = 60 * 1000
+
+// Shows a desktop notification when the user opted into push and the browser allows it
+function showPush(notification: AppNotification) {
+  if (typeof window === 'undefined' || !('Notification' in window) || window.Notification.permission !== 'granted') return
+  new window.Notification(notification.title, { body: notification.body, tag: notification.id })
+}
+
+export function NotificationBell() {
+  const router = useRouter()
+  const [notifications, setNotifications] = useState<AppNotification[]>([])
+  const [unreadCount, setUnreadCount] = useState(0)
+  const [push, setPush] = useState(false)
+  const seenIds = useRef<Set<string> | null>(null)
+
+  useEffect(() => {
+    fetch('/api/notifications/preferences')
+      .then((response) => (response.ok ? response.json() : null))
+      .then((preferences) => setPush(Boolean(preferences?.notifications.push)))
+      .catch((err) => console.error('Error fetching notification preferences:', err))
+  }, [])
+
+  const load = useCallback(async () => {
+    const response = await fetch('/api/notifications?limit=10')
+    if (!response.ok) return
+
+    const data: { notifications: AppNotification[]; unreadCount: number } = await response.json()
+    // The first load only records what is already there
+    if (seenIds.current && push) {
+      data.notifications
+        .filter((notification) => !notification.readAt && !seenIds.current?.has(notification.id))
+        .forEach(showPush)
+    }
+    seenIds.current = new Set(data.notifications.map((notification) => notification.id))
+    setNotifications(data.notifications)
+    setUnreadCount(data.unreadCount)
+  }, [push])
+
+  useEffect(() => {
+    load().catch((err) => console.error('Error fetching notifications:', err))
+    const timer = setInterval(() => {
+      load().catch((err) => console.error('Error fetching notifications:', err))
+    }, POLL_INTERVAL)
+    return () => clearInterval(timer)
+  }, [load])
+
+  const markRead = async (body: { ids: string[] } | { all: true }) => {
+    const response = await fetch('/api/notifications', {
+      method: 'PATCH',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify(body),
+    })
+    if (!response.ok) return
+
+    const data = await response.json()
+    const readAt = new Date().toISOString()
+    setUnreadCount(data.unreadCount)
+    setNotifications((prev) =>
+      prev.map((notification) =>
+        'all' in body || body.ids.includes(notification.id) ? { ...notification, readAt: notification.readAt ?? readAt } : notification
+      )
+    )
+  }
+
+  const open = async (notification: AppNotification) => {
+    if (!notification.readAt) {
+      await markRead({ ids: [notification.id] })
+    }
+    router.push(notification.link || '/notifications')
+  }
+
+  return (
+    <Menu as="div" className="relative">
+      <Menu.Button
+        className="relative inline-flex items-center justify-center h-9 w-9 rounded-full text-gray-500 hover:text-gray-700 hover:bg-gray-100 transition-colors"
+        aria-label={unreadCount > 0 ? `${unreadCount} unread notifications` : 'Notifications'}
+      >
+        <Bell className="h-5 w-5" />
+        {unreadCount > 0 && (
+          <span className="absolute -top-0.5 -right-0.5 min-w-[1.25rem] rounded-full bg-red-600 px-1 text-center text-xs font-medium leading-5 text-white">
+            {unreadCount > 99 ? '99+' : unreadCount}
+          </span>
+        )}
+      </Menu.Button>
+      <Transition
+        as={Fragment}
+        enter="transition ease-out duration-100"
+        enterFrom="transform opacity-0 scale-95"
+        enterTo="transform opacity-100 scale-100"
+        leave="transition ease-in duration-75"
+        leaveFrom="transform opacity-100 scale-100"
+        leaveTo="transform opacity-0 scale-95"
+      >
+        <Menu.Items className="absolute right-0 top-full z-50 mt-2 w-80 origin-top-right rounded-lg bg-white shadow-lg ring-1 ring-black ring-opacity-5 focus:outline-none">
+          <div className="flex items-center justify-between border-b px-4 py-2">
+            <span className="text-sm font-semibold text-gray-900">Notifications</span>
+            {unreadCount > 0 && (
+              <button
+                type="button"
+                onClick={() => markRead({ all: true })}
+                className="text-xs text-indigo-600 hover:text-indigo-800"
+              >
+                Mark all read
+              </button>
+            )}
+          </div>
+          <div className="max-h-96 overflow-y-auto py-1">
+            {notifications.length === 0 ? (
+              <p className="px-4 py-6 text-center text-sm text-gray-500">You&apos;re all caught up.</p>
+            ) : (
+              notifications.map((notification) => (
+                <Menu.Item key={notification.id}>
+                  {({ active }) => (
+                    <button
+                      type="button"
+                      onClick={() => open(notification)}
+                      className={cn(
+                        active ? 'bg-gray-50' : '',
+                        'block w-full px-4 py-2 text-left'
+                      )}
+                    >
+                      <div className="flex items-start gap-2">
+                        <span
+                          className={cn(
+                            notification.readAt ? 'bg-transparent' : 'bg-indigo-600',
+                            'mt-1.5 h-2 w-2 flex-shrink-0 rounded-full'
+                          )}
+                        />
+                        <div>
+                          <p className="text-sm font-medium text-gray-900">{notification.title}</p>
+                          <p className="text-sm text-gray-600 line-clamp-2">{notification.body}</p>
+                          <p className="text-xs text-gray-400">
+                            {formatDistanceToNow(new Date(notification.createdAt), { addSuffix: true })}
+                          </p>
+                        </div>
+                      </div>
+                    </button>
+                  )}
+                </Menu.Item>
+              ))
+            )}
+          </div>
+          <div className="border-t px-4 py-2 text-center">
+            <Link href="/notifications" className="text-sm text-indigo-600 hover:text-indigo-800">
+              View all and preferences
+            </Link>
+          </div>
+        </Menu.Items>
+      </Transition>
+    </Menu>
+  )
+}
@@ -0,0 +1,341 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { format } from 'date-fns'
+import { FileText, Loader2, Plus, Upload } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+
+export interface PatientLop {
+  id: string
+  status: 'REQUESTED' | 'RECEIVED' | 'SIGNED' | 'REVOKED'
+  requestedDate: string | null
+  receivedDate: string | null
+  signedDate: string | null
+  amount: number | null
+  notes: string | null
+  documentName: string | null
+  attorney: {
+    id: string
+    user: {
+      name: string
+    }
+  } | null
+  procedures: Array<{
+    id: string
+    exam: {
+      name: string
+    }
+  }>
+}
+
+interface LopPanelProps {
+  patientId: string
+  lops: PatientLop[]
+  procedures: Array<{
+    id: string
+    exam: {
+      name: string
+    }
+    scheduleDate: string
+  }>
+  onChange: () => void
+}
+
+interface Attorney {
+  id: string
+  user: {
+    name: string
+  }
+}
+
+const statusStyles: Record<PatientLop['status'], string> = {
+  REQUESTED: 'bg-yellow-100 text-yellow-800',
+  RECEIVED: 'bg-blue-100 text-blue-800',
+  SIGNED: 'bg-green-100 text-green-800',
+  REVOKED: 'bg-red-100 text-red-800',
+}
+
+const emptyForm = {
+  attorneyId: '',
+  requestedDate: '',
+  amount: '',
+  notes: '',
+  procedureIds: [] as string[],
+}
+
+export function LopPanel({ patientId, lops, procedures, onChange }: LopPanelProps) {
+  const [attorneys, setAttorneys] = useState<Attorney[]>([])
+  const [showForm, setShowForm] = useState(false)
+  const [formData, setFormData] = useState(emptyForm)
+  const [saving, setSaving] = useState<string | null>(null)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    const fetchAttorneys = async () => {
+      try {
+        const response = await fetch('/api/attorneys')
+        if (response.ok) {
+          setAttorneys(await response.json())
+        }
+      } catch (err) {
+        console.error('Error fetching attorneys:', err)
+      }
+    }
+
+    fetchAttorneys()
+  }, [])
+
+  const formatDate = (date: string | null) =>
+    date ? format(new Date(date), 'MM/dd/yyyy') : '—'
+
+  const toggleProcedure = (procedureId: string) => {
+    setFormData((prev) => ({
+      ...prev,
+      procedureIds: prev.procedureIds.includes(procedureId)
+        ? prev.procedureIds.filter((id) => id !== procedureId)
+        : [...prev.procedureIds, procedureId],
+    }))
+  }
+
+  const request = async (key: string, url: string, init: RequestInit) => {
+    setSaving(key)
+    setError(null)
+
+    try {
+      const response = await fetch(url, init)
+      const data = await response.json()
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to save LOP')
+      }
+      onChange()
+      return true
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save LOP')
+      return false
+    } finally {
+      setSaving(null)
+    }
+  }
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault()
+
+    const created = await request('new', '/api/lops', {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({
+        patientId,
+        attorneyId: formData.attorneyId || null,
+        requestedDate: formData.requestedDate || undefined,
+        amount: formData.amount || null,
+        notes: formData.notes,
+        procedureIds: formData.procedureIds,
+      }),
+    })
+
+    if (created) {
+      setFormData(emptyForm)
+      setShowForm(false)
+    }
+  }
+
+  const markDate = (lop: PatientLop, field: 'receivedDate' | 'signedDate') =>
+    request(lop.id, `/api/lops/${lop.id}`, {
+      method: 'PUT',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({ [field]: new Date().toISOString() }),
+    })
+
+  const uploadDocument = (lop: PatientLop, file: File) => {
+    const body = new FormData()
+    body.append('file', file)
+    return request(lop.id, `/api/lops/${lop.id}/document`, {
+      method: 'POST',
+      body,
+    })
+  }
+
+  return (
+    <div className="mt-8 space-y-4">
+      <div className="flex items-center justify-between">
+        <h2 className="text-lg font-semibold text-gray-900">Letters of Protection</h2>
+        <Button variant="outline" size="sm" onClick={() => setShowForm(!showForm)}>
+          <Plus className="h-4 w-4 mr-1" />
+          Request LOP
+        </Button>
+      </div>
+
+      {error && (
+        <div className="bg-red-50 border-l-4 border-red-500 p-3 rounded-lg">
+          <p className="text-sm text-red-800">{error}</p>
+        </div>
+      )}
+
+      {showForm && (
+        <form onSubmit={handleCreate} className="grid grid-cols-1 gap-4 rounded-lg border border-gray-200 p-4 md:grid-cols-2">
+          <div>
+            <Label htmlFor="lop-attorney">Issuing Attorney</Label>
+            <select
+              id="lop-attorney"
+              value={formData.attorneyId}
+              onChange={(e) => setFormData({ ...formData, attorneyId: e.target.value })}
+              className="mt-1 block w-full rounded-md border border-gray-300 bg-white px-3 py-2 text-sm shadow-sm focus:border-indigo-500 focus:outline-none focus:ring-1 focus:ring-indigo-500"
+            >
+              <option value="">Select Attorney</option>
+              {attorneys.map((attorney) => (
+                <option key={attorney.id} value={attorney.id}>
+                  {attorney.user.name}
+                </option>
+              ))}
+            </select>
+          </div>
+          <div>
+            <Label htmlFor="lop-requested">Requested Date</Label>
+            <Input
+              id="lop-requested"
+              type="date"
+              value={formData.requestedDate}
+              onChange={(e) => setFormData({ ...formData, requestedDate: e.target.value })}
+            />
+          </div>
+          <div>
+            <Label htmlFor="lop-amount">Amount</Label>
+            <Input
+              id="lop-amount"
+              type="number"
+              min="0"
+              step="0.01"
+              value={formData.amount}
+              onChange={(e) => setFormData({ ...formData, amount: e.target.value })}
+            />
+          </div>
+          <div>
+            <Label htmlFor="lop-notes">Notes</Label>
+            <Input
+              id="lop-notes"
+              value={formData.notes}
+              onChange={(e) => setFormData({ ...formData, notes: e.target.value })}
+            />
+          </div>
+          {procedures.length > 0 && (
+            <div className="md:col-span-2">
+              <Label>Covered Procedures</Label>
+              <div className="mt-2 grid grid-cols-1 gap-2 sm:grid-cols-2">
+                {procedures.map((procedure) => (
+                  <label key={procedure.id} className="flex items-center text-sm text-gray-700">
+                    <input
+                      type="checkbox"
+                      checked={formData.procedureIds.includes(procedure.id)}
+                      onChange={() => toggleProcedure(procedure.id)}
+                      className="h-4 w-4 mr-2 text-indigo-600 focus:ring-indigo-500 border-gray-300 rounded"
+                    />
+                    {procedure.exam.name} — {formatDate(procedure.scheduleDate)}
+                  </label>
+                ))}
+              </div>
+            </div>
+          )}
+          <div className="md:col-span-2 flex justify-end">
+            <Button type="submit" disabled={saving === 'new'}>
+              {saving === 'new' && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              Save LOP
+            </Button>
+          </div>
+        </form>
+      )}
+
+      {lops.length === 0 ? (
+        <p className="text-sm text-gray-500">No LOPs recorded for this patient.</p>
+      ) : (
+        <div className="overflow-x-auto">
+          <table className="min-w-full divide-y divide-gray-200">
+            <thead className="bg-gray-50">
+              <tr>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Attorney</th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Status</th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Requested</th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Received</th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Signed</th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Amount</th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Procedures</th>
+                <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Actions</th>
+              </tr>
+            </thead>
+            <tbody className="bg-white divide-y divide-gray-200">
+              {lops.map((lop) => (
+                <tr key={lop.id}>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                    {lop.attorney?.user.name || '—'}
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap">
+                    <span className={`px-2 py-1 text-xs font-medium rounded-full ${statusStyles[lop.status]}`}>
+                      {lop.status}
+                    </span>
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">{formatDate(lop.requestedDate)}</td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">{formatDate(lop.receivedDate)}</td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">{formatDate(lop.signedDate)}</td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                    {lop.amount != null ? `$${lop.amount.toFixed(2)}` : '—'}
+                  </td>
+                  <td className="px-6 py-4 text-sm text-gray-900">
+                    {lop.procedures.map((procedure) => procedure.exam.name).join(', ') || '—'}
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-right text-sm space-x-3">
+                    {saving === lop.id ? (
+                      <Loader2 className="inline h-4 w-4 animate-spin text-indigo-600" />
+                    ) : (
+                      <>
+                        {lop.status === 'REQUESTED' && (
+                          <button onClick={() => markDate(lop, 'receivedDate')} className="text-indigo-600 hover:text-indigo-900">
+                            Mark received
+                          </button>
+                        )}
+                        {lop.status === 'RECEIVED' && (
+                          <button onClick={() => markDate(lop, 'signedDate')} className="text-indigo-600 hover:text-indigo-900">
+                            Mark signed
+                          </button>
+                        )}
+                        {lop.documentName ? (
+                          <a
+                            href={`/api/lops/${lop.id}/document`}
+                            target="_blank"
+                            rel="noopener noreferrer"
+                            className="inline-flex items-center text-indigo-600 hover:text-indigo-900"
+                          >
+                            <FileText className="h-4 w-4 mr-1" />
+                            Document
+                          </a>
+                        ) : (
+                          <label className="inline-flex items-center cursor-pointer text-indigo-600 hover:text-indigo-900">
+                            <Upload className="h-4 w-4 mr-1" />
+                            Attach
+                            <input
+                              type="file"
+                              accept="application/pdf,image/*"
+                              className="hidden"
+                              onChange={(e) => {
+                                const file = e.target.files?.[0]
+                                if (file) uploadDocument(lop, file)
+                              }}
+                            />
+                          </label>
+                        )}
+                      </>
+                    )}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  )
+}
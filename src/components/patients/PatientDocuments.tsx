@@ -0,0 +1,49 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { format } from 'date-fns'
+import { FileText } from 'lucide-react'
+import { PATIENT_DOCUMENT_KINDS, type PatientDocumentKind } from '@/lib/validations'
+
+interface PatientDocument {
+  id: string
+  kind: string
+  name: string
+  createdAt: string
+}
+
+// Uploads come from the patient portal; the panel stays hidden until there is one
+export function PatientDocuments({ patientId }: { patientId: string }) {
+  const [documents, setDocuments] = useState<PatientDocument[]>([])
+
+  useEffect(() => {
+    fetch(`/api/patients/${patientId}/documents`)
+      .then((response) => (response.ok ? response.json() : []))
+      .then(setDocuments)
+      .catch((err) => console.error('Error fetching patient documents:', err))
+  }, [patientId])
+
+  if (documents.length === 0) return null
+
+  return (
+    <div className="space-y-4">
+      <h2 className="text-lg font-semibold text-gray-900">Uploaded Documents</h2>
+      <ul className="divide-y border rounded-md">
+        {documents.map((document) => (
+          <li key={document.id} className="flex flex-wrap items-center justify-between gap-2 px-4 py-3 text-sm">
+            <a
+              href={`/api/patients/${patientId}/documents/${document.id}`}
+              target="_blank"
+              rel="noopener noreferrer"
+              className="flex items-center gap-2 font-medium text-indigo-600 hover:text-indigo-800"
+            >
+              <FileText className="h-4 w-4" />
+              {PATIENT_DOCUMENT_KINDS[document.kind as PatientDocumentKind] ?? document.kind}: {document.name}
+            </a>
+            <span className="text-gray-500">{format(new Date(document.createdAt), 'MM/dd/yyyy')}</span>
+          </li>
+        ))}
+      </ul>
+    </div>
+  )
+}
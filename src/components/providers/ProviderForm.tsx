@@ -0,0 +1,302 @@
+'use client'
+
+import { useState } from 'react'
+import { format } from 'date-fns'
+import { Loader2, Search } from 'lucide-react'
+import { formatPhoneNumber } from '@/utils/formatters'
+import {
+  PROVIDER_ROLE_LABELS,
+  PROVIDER_ROLES,
+  providerSchema,
+  type ProviderRole,
+  type ProviderValues,
+} from '@/lib/validations'
+import type { Provider } from '@/types/provider'
+
+const inputClassName =
+  'mt-1 block w-full rounded-md border-gray-300 bg-white text-gray-900 shadow-sm focus:border-blue-500 focus:ring-blue-500 sm:text-sm'
+
+type TextField = 'prefix' | 'name' | 'suffix' | 'npiNumber' | 'taxonomyCode' | 'clinicName' | 'email' | 'phoneNumber' | 'faxNumber' | 'address' | 'mapLink'
+
+const PREFIXES = ['Dr.', 'Prof.', 'Mr.', 'Mrs.', 'Ms.']
+
+// What GET /api/providers/npi/[npi] returns from the NPPES registry
+interface NpiDetails {
+  prefix: string | null
+  name: string | null
+  suffix: string | null
+  taxonomyCode: string | null
+  address: string | null
+  phoneNumber: string | null
+  faxNumber: string | null
+  active: boolean
+  deactivatedAt: string | null
+  lastUpdated: string | null
+}
+
+function initialValues(provider?: Provider | null, role?: ProviderRole): ProviderValues {
+  return {
+    prefix: provider?.prefix ?? 'Dr.',
+    name: provider?.name ?? '',
+    suffix: provider?.suffix ?? '',
+    npiNumber: provider?.npiNumber ?? '',
+    taxonomyCode: provider?.taxonomyCode ?? '',
+    roles: provider?.roles ?? (role ? [role] : []),
+    clinicName: provider?.clinicName ?? '',
+    email: provider?.email ?? '',
+    phoneNumber: provider?.phoneNumber ?? '',
+    faxNumber: provider?.faxNumber ?? '',
+    address: provider?.address ?? '',
+    mapLink: provider?.mapLink ?? '',
+    status: provider?.status ?? 'Active',
+    hasLogin: provider?.hasLogin ?? false,
+  }
+}
+
+interface ProviderFormProps {
+  provider?: Provider | null
+  // Pre-ticks a role when adding from a role-filtered list
+  defaultRole?: ProviderRole
+  onSubmit: (values: ProviderValues) => Promise<void>
+  onCancel: () => void
+}
+
+export function ProviderForm({ provider, defaultRole, onSubmit, onCancel }: ProviderFormProps) {
+  const [values, setValues] = useState<ProviderValues>(() => initialValues(provider, defaultRole))
+  const [busy, setBusy] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const [lookingUp, setLookingUp] = useState(false)
+  const [lookup, setLookup] = useState<{ tone: 'info' | 'warning'; message: string } | null>(null)
+
+  const setField = (name: TextField, value: string) => {
+    const formatted = name === 'phoneNumber' || name === 'faxNumber' ? formatPhoneNumber(value) : value
+    setValues((prev) => ({ ...prev, [name]: formatted }))
+  }
+
+  const toggleRole = (role: ProviderRole) => {
+    setValues((prev) => ({
+      ...prev,
+      roles: prev.roles.includes(role) ? prev.roles.filter((item) => item !== role) : [...prev.roles, role],
+    }))
+  }
+
+  // Fills the form from the offline NPPES registry; the office can still edit
+  // anything before saving
+  const lookUpNpi = async () => {
+    if (!values.npiNumber) return
+    setLookingUp(true)
+    setLookup(null)
+    try {
+      const response = await fetch(`/api/providers/npi/${encodeURIComponent(values.npiNumber)}`)
+      const data = await response.json()
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to look up NPI')
+      }
+
+      const details = data as NpiDetails
+      if (!details.active) {
+        const since = details.deactivatedAt ? ` on ${format(new Date(details.deactivatedAt), 'MM/dd/yyyy')}` : ''
+        setLookup({ tone: 'warning', message: `This NPI was deactivated${since} and can't be saved.` })
+        return
+      }
+
+      setValues((prev) => ({
+        ...prev,
+        prefix: details.prefix && PREFIXES.includes(details.prefix) ? details.prefix : prev.prefix,
+        name: details.name ?? prev.name,
+        suffix: details.suffix ?? prev.suffix,
+        taxonomyCode: details.taxonomyCode ?? prev.taxonomyCode,
+        address: details.address ?? prev.address,
+        phoneNumber: details.phoneNumber ?? prev.phoneNumber,
+        faxNumber: details.faxNumber ?? prev.faxNumber,
+      }))
+      const updated = details.lastUpdated ? ` (updated ${format(new Date(details.lastUpdated), 'MM/dd/yyyy')})` : ''
+      setLookup({ tone: 'info', message: `Filled in from the NPPES registry${updated}. Check the details before saving.` })
+    } catch (err) {
+      setLookup({ tone: 'warning', message: err instanceof Error ? err.message : 'Failed to look up NPI' })
+    } finally {
+      setLookingUp(false)
+    }
+  }
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    const validation = providerSchema.safeParse(values)
+    if (!validation.success) {
+      setError(validation.error.issues[0]?.message ?? 'Check the form and try again')
+      return
+    }
+    if (values.hasLogin && !values.email) {
+      setError('Add an email address before inviting the provider to the referral portal')
+      return
+    }
+
+    setBusy(true)
+    setError(null)
+    try {
+      await onSubmit(validation.data)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save provider')
+    } finally {
+      setBusy(false)
+    }
+  }
+
+  const field = (name: TextField, label: string, type = 'text', span = 'sm:col-span-3') => (
+    <div className={span}>
+      <label htmlFor={name} className="block text-sm font-medium text-gray-700">
+        {label}
+      </label>
+      <input
+        type={type}
+        id={name}
+        name={name}
+        value={values[name] ?? ''}
+        onChange={(e) => setField(name, e.target.value)}
+        required={name === 'name'}
+        maxLength={name === 'phoneNumber' || name === 'faxNumber' ? 14 : undefined}
+        className={inputClassName}
+      />
+    </div>
+  )
+
+  return (
+    <form onSubmit={handleSubmit} className="mt-8 space-y-6">
+      {error && (
+        <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded">
+          {error}
+        </div>
+      )}
+
+      <div className="bg-white shadow px-4 py-5 sm:rounded-lg sm:p-6">
+        <div className="grid grid-cols-1 gap-y-6 gap-x-4 sm:grid-cols-6">
+          <div className="sm:col-span-1">
+            <label htmlFor="prefix" className="block text-sm font-medium text-gray-700">
+              Prefix
+            </label>
+            <select
+              id="prefix"
+              name="prefix"
+              value={values.prefix ?? ''}
+              onChange={(e) => setField('prefix', e.target.value)}
+              className={inputClassName}
+            >
+              <option value="">None</option>
+              {PREFIXES.map((prefix) => (
+                <option key={prefix} value={prefix}>
+                  {prefix}
+                </option>
+              ))}
+            </select>
+          </div>
+          {field('name', 'Name', 'text', 'sm:col-span-3')}
+          {field('suffix', 'Suffix (MD, DO, NP)', 'text', 'sm:col-span-2')}
+          <div className="sm:col-span-2">
+            <label htmlFor="npiNumber" className="block text-sm font-medium text-gray-700">
+              NPI Number
+            </label>
+            <div className="mt-1 flex gap-2">
+              <input
+                type="text"
+                id="npiNumber"
+                name="npiNumber"
+                value={values.npiNumber ?? ''}
+                onChange={(e) => {
+                  setField('npiNumber', e.target.value)
+                  setLookup(null)
+                }}
+                className={inputClassName.replace('mt-1 ', '')}
+              />
+              <button
+                type="button"
+                onClick={lookUpNpi}
+                disabled={lookingUp || !values.npiNumber}
+                title="Fill in from the NPPES registry"
+                className="inline-flex items-center py-2 px-3 border border-gray-300 rounded-md shadow-sm text-sm font-medium text-gray-700 bg-white hover:bg-gray-50 disabled:opacity-50"
+              >
+                {lookingUp ? <Loader2 className="h-4 w-4 animate-spin" /> : <Search className="h-4 w-4" />}
+                <span className="ml-1">Look up</span>
+              </button>
+            </div>
+            {lookup && (
+              <p className={`mt-1 text-sm ${lookup.tone === 'warning' ? 'text-amber-700' : 'text-gray-500'}`}>
+                {lookup.message}
+              </p>
+            )}
+          </div>
+          {field('taxonomyCode', 'Taxonomy Code', 'text', 'sm:col-span-1')}
+
+          <fieldset className="sm:col-span-3">
+            <legend className="block text-sm font-medium text-gray-700">Roles</legend>
+            <div className="mt-2 flex flex-wrap gap-4">
+              {PROVIDER_ROLES.map((role) => (
+                <label key={role} className="flex items-center gap-2 text-sm text-gray-700">
+                  <input
+                    type="checkbox"
+                    checked={values.roles.includes(role)}
+                    onChange={() => toggleRole(role)}
+                    className="h-4 w-4 rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+                  />
+                  {PROVIDER_ROLE_LABELS[role]}
+                </label>
+              ))}
+            </div>
+          </fieldset>
+
+          {field('email', 'Email', 'email')}
+          {field('clinicName', 'Clinic Name')}
+          {field('phoneNumber', 'Phone Number', 'tel')}
+          {field('faxNumber', 'Fax Number', 'tel')}
+          {field('address', 'Address', 'text', 'sm:col-span-6')}
+          {field('mapLink', 'Map Link (optional)', 'url', 'sm:col-span-6')}
+
+          <div className="sm:col-span-3">
+            <label htmlFor="status" className="block text-sm font-medium text-gray-700">
+              Status
+            </label>
+            <select
+              id="status"
+              name="status"
+              value={values.status}
+              onChange={(e) => setValues((prev) => ({ ...prev, status: e.target.value as ProviderValues['status'] }))}
+              className={inputClassName}
+            >
+              <option value="Active">Active</option>
+              <option value="Inactive">Inactive</option>
+            </select>
+          </div>
+
+          <div className="sm:col-span-3 flex items-end">
+            <label className="flex items-center gap-2 text-sm text-gray-700">
+              <input
+                type="checkbox"
+                checked={values.hasLogin}
+                onChange={(e) => setValues((prev) => ({ ...prev, hasLogin: e.target.checked }))}
+                className="h-4 w-4 rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+              />
+              Has Login Access (emails an invitation to the referral portal)
+            </label>
+          </div>
+        </div>
+      </div>
+
+      <div className="flex justify-end">
+        <button
+          type="button"
+          onClick={onCancel}
+          className="bg-white py-2 px-4 border border-gray-300 rounded-md shadow-sm text-sm font-medium text-gray-700 hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500"
+        >
+          Cancel
+        </button>
+        <button
+          type="submit"
+          disabled={busy}
+          className="ml-3 inline-flex items-center justify-center py-2 px-4 border border-transparent shadow-sm text-sm font-medium rounded-md text-white bg-blue-600 hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500"
+        >
+          {busy && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+          {busy ? 'Saving...' : 'Save'}
+        </button>
+      </div>
+    </form>
+  )
+}
@@ -0,0 +1,81 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import type { ProviderRole } from '@/lib/validations'
+import type { Provider } from '@/types/provider'
+
+export function providerLabel(provider: Pick<Provider, 'prefix' | 'name' | 'suffix'>) {
+  const name = [provider.prefix, provider.name].filter(Boolean).join(' ')
+  return provider.suffix ? `${name}, ${provider.suffix}` : name
+}
+
+interface ProviderPickerProps {
+  role: ProviderRole
+  id?: string
+  name?: string
+  // Controlled with value/onChange, or left to the form with defaultValue
+  value?: string
+  defaultValue?: string
+  onChange?: (providerId: string) => void
+  required?: boolean
+  disabled?: boolean
+  placeholder?: string
+  className?: string
+}
+
+// The one provider dropdown for scheduling screens. It offers active providers
+// with the given role, plus whichever provider is already selected so older
+// records still show who they were booked with.
+export function ProviderPicker({
+  role,
+  id,
+  name,
+  value,
+  defaultValue,
+  onChange,
+  required,
+  disabled,
+  placeholder = 'Select a provider',
+  className = 'mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500',
+}: ProviderPickerProps) {
+  const [providers, setProviders] = useState<Provider[] | null>(null)
+
+  useEffect(() => {
+    fetch(`/api/providers?role=${role}&includeInactive=true`)
+      .then((response) => (response.ok ? response.json() : []))
+      .then(setProviders)
+      .catch((err) => {
+        console.error('Error fetching providers:', err)
+        setProviders([])
+      })
+  }, [role])
+
+  const selected = value ?? defaultValue
+  const options = (providers ?? []).filter(
+    (provider) => provider.status === 'Active' || provider.id === selected
+  )
+
+  return (
+    <select
+      // Remount once the options arrive so defaultValue can select one of them
+      key={providers ? 'loaded' : 'loading'}
+      id={id}
+      name={name}
+      value={value}
+      defaultValue={value === undefined ? defaultValue : undefined}
+      onChange={(e) => onChange?.(e.target.value)}
+      required={required}
+      disabled={disabled || !providers}
+      className={className}
+    >
+      <option value="">{providers ? placeholder : 'Loading providers...'}</option>
+      {options.map((provider) => (
+        <option key={provider.id} value={provider.id}>
+          {providerLabel(provider)}
+          {provider.clinicName ? ` (${provider.clinicName})` : ''}
+          {provider.status !== 'Active' ? ' - inactive' : ''}
+        </option>
+      ))}
+    </select>
+  )
+}
@@ -0,0 +1,89 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import Link from 'next/link'
+import { format } from 'date-fns'
+import { Plus } from 'lucide-react'
+
+interface LinkedTask {
+  id: string
+  title: string
+  status: string
+  dueDate: string
+  assignedTo: { name: string } | null
+  procedure: { exam: { name: string } } | null
+}
+
+const statusStyles: Record<string, string> = {
+  pending: 'bg-gray-100 text-gray-800',
+  in_progress: 'bg-blue-100 text-blue-800',
+  completed: 'bg-green-100 text-green-800',
+}
+
+const statusLabels: Record<string, string> = {
+  pending: 'Pending',
+  in_progress: 'In Progress',
+  completed: 'Completed',
+}
+
+interface LinkedTasksProps {
+  patientId?: string
+  caseId?: string
+}
+
+// Tasks are staff-only; other roles get a 403 and the panel stays hidden
+export function LinkedTasks({ patientId, caseId }: LinkedTasksProps) {
+  const [tasks, setTasks] = useState<LinkedTask[] | null>(null)
+
+  const query = new URLSearchParams({
+    ...(patientId && { patientId }),
+    ...(caseId && { caseId }),
+  }).toString()
+
+  useEffect(() => {
+    fetch(`/api/tasks?${query}`)
+      .then((response) => (response.ok ? response.json() : null))
+      .then(setTasks)
+      .catch((err) => console.error('Error fetching tasks:', err))
+  }, [query])
+
+  if (!tasks) return null
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between">
+        <h2 className="text-lg font-semibold text-gray-900">Tasks</h2>
+        <Link
+          href={`/tasks/add?${query}`}
+          className="inline-flex items-center px-3 py-1 rounded-md text-sm font-medium text-indigo-600 hover:text-indigo-800"
+        >
+          <Plus className="h-4 w-4 mr-1" />
+          Add Task
+        </Link>
+      </div>
+      {tasks.length === 0 ? (
+        <p className="text-sm text-gray-500">No tasks linked to this record.</p>
+      ) : (
+        <ul className="divide-y border rounded-md">
+          {tasks.map((task) => (
+            <li key={task.id} className="flex flex-wrap items-center justify-between gap-2 px-4 py-3 text-sm">
+              <div>
+                <Link href={`/tasks/${task.id}`} className="font-medium text-indigo-600 hover:text-indigo-800">
+                  {task.title}
+                </Link>
+                <p className="text-gray-500">
+                  Due {format(new Date(task.dueDate), 'MM/dd/yyyy')}
+                  {task.assignedTo && ` · ${task.assignedTo.name}`}
+                  {task.procedure && ` · ${task.procedure.exam.name}`}
+                </p>
+              </div>
+              <span className={`px-2 py-1 text-xs font-medium rounded-full ${statusStyles[task.status] ?? statusStyles.pending}`}>
+                {statusLabels[task.status] ?? task.status}
+              </span>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,114 @@
+'use client'
+
+import { useRef, useState } from 'react'
+import { format } from 'date-fns'
+import { FileText, Loader2, Trash2, Upload } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+
+export interface TaskAttachment {
+  id: string
+  name: string
+  type: string
+  size: number
+  createdAt: string
+  uploadedBy: { name: string }
+}
+
+const formatSize = (bytes: number) =>
+  bytes >= 1024 * 1024 ? `${(bytes / (1024 * 1024)).toFixed(1)} MB` : `${Math.max(1, Math.round(bytes / 1024))} KB`
+
+interface TaskAttachmentsProps {
+  taskId: string
+  attachments: TaskAttachment[]
+  onChange: () => void
+}
+
+export function TaskAttachments({ taskId, attachments, onChange }: TaskAttachmentsProps) {
+  const inputRef = useRef<HTMLInputElement>(null)
+  const [uploading, setUploading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const upload = async (file: File) => {
+    setUploading(true)
+    setError(null)
+    try {
+      const formData = new FormData()
+      formData.append('file', file)
+      const response = await fetch(`/api/tasks/${taskId}/attachments`, {
+        method: 'POST',
+        body: formData,
+      })
+      const data = await response.json()
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to upload attachment')
+      }
+      onChange()
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to upload attachment')
+    } finally {
+      setUploading(false)
+      if (inputRef.current) inputRef.current.value = ''
+    }
+  }
+
+  const remove = async (attachment: TaskAttachment) => {
+    if (!window.confirm(`Remove ${attachment.name}?`)) return
+
+    const response = await fetch(`/api/tasks/${taskId}/attachments/${attachment.id}`, { method: 'DELETE' })
+    if (!response.ok) {
+      setError('Failed to remove attachment')
+      return
+    }
+    onChange()
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between">
+        <h2 className="text-lg font-semibold text-gray-900">Attachments</h2>
+        <input
+          ref={inputRef}
+          type="file"
+          accept="application/pdf,image/*"
+          className="hidden"
+          onChange={(e) => {
+            const file = e.target.files?.[0]
+            if (file) upload(file)
+          }}
+        />
+        <Button type="button" variant="outline" size="sm" onClick={() => inputRef.current?.click()} disabled={uploading}>
+          {uploading ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Upload className="h-4 w-4 mr-2" />}
+          Attach File
+        </Button>
+      </div>
+      {error && <p className="text-sm text-red-600">{error}</p>}
+      {attachments.length === 0 ? (
+        <p className="text-sm text-gray-500">No files attached.</p>
+      ) : (
+        <ul className="divide-y border rounded-md">
+          {attachments.map((attachment) => (
+            <li key={attachment.id} className="flex items-center justify-between gap-2 px-4 py-2 text-sm">
+              <a
+                href={`/api/tasks/${taskId}/attachments/${attachment.id}`}
+                target="_blank"
+                rel="noreferrer"
+                className="inline-flex items-center text-indigo-600 hover:text-indigo-800"
+              >
+                <FileText className="h-4 w-4 mr-2" />
+                {attachment.name}
+              </a>
+              <div className="flex items-center gap-2 text-gray-500">
+                <span>
+                  {formatSize(attachment.size)} · {attachment.uploadedBy.name} · {format(new Date(attachment.createdAt), 'MM/dd/yyyy')}
+                </span>
+                <Button type="button" variant="ghost" size="sm" onClick={() => remove(attachment)}>
+                  <Trash2 className="h-4 w-4 text-red-600" />
+                </Button>
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  )
+}
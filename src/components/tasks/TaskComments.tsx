@@ -0,0 +1,231 @@
+'use client'
+
+import { Fragment, useRef, useState } from 'react'
+import { formatDistanceToNow } from 'date-fns'
+import { Loader2, Reply, Trash2 } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { Textarea } from '@/components/ui/textarea'
+
+export interface TaskCommentUser {
+  id: string
+  name: string
+  email: string
+}
+
+export interface TaskComment {
+  id: string
+  parentId: string | null
+  body: string
+  mentionIds: string[]
+  createdAt: string
+  author: TaskCommentUser
+}
+
+// Wraps each @Name of a mentioned user so it stands out in the thread
+function renderBody(comment: TaskComment, users: TaskCommentUser[]) {
+  const names = users.filter((user) => comment.mentionIds.includes(user.id)).map((user) => `@${user.name}`)
+  if (names.length === 0) return comment.body
+
+  const escaped = names.map((name) => name.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'))
+  return comment.body.split(new RegExp(`(${escaped.join('|')})`, 'g')).map((part, index) =>
+    names.includes(part) ? (
+      <span key={index} className="font-medium text-indigo-600">{part}</span>
+    ) : (
+      <Fragment key={index}>{part}</Fragment>
+    )
+  )
+}
+
+interface CommentBoxProps {
+  taskId: string
+  users: TaskCommentUser[]
+  parentId?: string
+  onPosted: (comment: TaskComment) => void
+  onCancel?: () => void
+}
+
+function CommentBox({ taskId, users, parentId, onPosted, onCancel }: CommentBoxProps) {
+  const textareaRef = useRef<HTMLTextAreaElement>(null)
+  const [text, setText] = useState('')
+  const [mentionIds, setMentionIds] = useState<string[]>([])
+  const [query, setQuery] = useState<string | null>(null)
+  const [posting, setPosting] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  // The word being typed right before the cursor, when it starts with @
+  const updateQuery = (value: string, cursor: number) => {
+    const match = value.slice(0, cursor).match(/(?:^|\s)@([^@\s]*)$/)
+    setQuery(match ? match[1].toLowerCase() : null)
+  }
+
+  const suggestions = query === null
+    ? []
+    : users.filter((user) => user.name.toLowerCase().includes(query)).slice(0, 6)
+
+  const mention = (user: TaskCommentUser) => {
+    const cursor = textareaRef.current?.selectionStart ?? text.length
+    const before = text.slice(0, cursor).replace(/@([^@\s]*)$/, `@${user.name} `)
+    setText(before + text.slice(cursor))
+    setMentionIds((prev) => (prev.includes(user.id) ? prev : [...prev, user.id]))
+    setQuery(null)
+    textareaRef.current?.focus()
+  }
+
+  const post = async () => {
+    if (!text.trim()) return
+
+    setPosting(true)
+    setError(null)
+    try {
+      const response = await fetch(`/api/tasks/${taskId}/comments`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ body: text, mentionIds, parentId }),
+      })
+      const data = await response.json()
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to add comment')
+      }
+
+      onPosted(data)
+      setText('')
+      setMentionIds([])
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to add comment')
+    } finally {
+      setPosting(false)
+    }
+  }
+
+  return (
+    <div className="space-y-2">
+      <div className="relative">
+        <Textarea
+          ref={textareaRef}
+          value={text}
+          onChange={(e) => {
+            setText(e.target.value)
+            updateQuery(e.target.value, e.target.selectionStart)
+          }}
+          placeholder={parentId ? 'Write a reply…' : 'Add a comment. Type @ to mention someone.'}
+          rows={parentId ? 2 : 3}
+        />
+        {suggestions.length > 0 && (
+          <ul className="absolute z-10 mt-1 w-64 rounded-md border bg-white shadow-lg">
+            {suggestions.map((user) => (
+              <li key={user.id}>
+                <button
+                  type="button"
+                  onMouseDown={(e) => {
+                    e.preventDefault()
+                    mention(user)
+                  }}
+                  className="block w-full px-3 py-2 text-left text-sm hover:bg-indigo-50"
+                >
+                  <span className="font-medium text-gray-900">{user.name}</span>
+                  <span className="block text-xs text-gray-500">{user.email}</span>
+                </button>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+      {error && <p className="text-sm text-red-600">{error}</p>}
+      <div className="flex justify-end gap-2">
+        {onCancel && (
+          <Button type="button" variant="ghost" size="sm" onClick={onCancel}>
+            Cancel
+          </Button>
+        )}
+        <Button type="button" size="sm" onClick={post} disabled={posting || !text.trim()}>
+          {posting && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+          {parentId ? 'Reply' : 'Comment'}
+        </Button>
+      </div>
+    </div>
+  )
+}
+
+interface TaskCommentsProps {
+  taskId: string
+  comments: TaskComment[]
+  users: TaskCommentUser[]
+  currentUserId?: string
+  isAdmin: boolean
+  onChange: (comments: TaskComment[]) => void
+}
+
+export function TaskComments({ taskId, comments, users, currentUserId, isAdmin, onChange }: TaskCommentsProps) {
+  const [replyTo, setReplyTo] = useState<string | null>(null)
+
+  const remove = async (comment: TaskComment) => {
+    if (!window.confirm('Delete this comment and its replies?')) return
+
+    const response = await fetch(`/api/tasks/${taskId}/comments/${comment.id}`, { method: 'DELETE' })
+    if (response.ok) {
+      onChange(comments.filter((item) => item.id !== comment.id && item.parentId !== comment.id))
+    }
+  }
+
+  const renderComment = (comment: TaskComment) => (
+    <div className="space-y-1">
+      <div className="flex items-center justify-between gap-2">
+        <p className="text-sm">
+          <span className="font-medium text-gray-900">{comment.author.name}</span>
+          <span className="text-gray-500"> · {formatDistanceToNow(new Date(comment.createdAt), { addSuffix: true })}</span>
+        </p>
+        <div className="flex items-center gap-1">
+          {!comment.parentId && (
+            <Button type="button" variant="ghost" size="sm" onClick={() => setReplyTo(comment.id)}>
+              <Reply className="h-4 w-4" />
+            </Button>
+          )}
+          {(comment.author.id === currentUserId || isAdmin) && (
+            <Button type="button" variant="ghost" size="sm" onClick={() => remove(comment)}>
+              <Trash2 className="h-4 w-4 text-red-600" />
+            </Button>
+          )}
+        </div>
+      </div>
+      <p className="text-sm text-gray-700 whitespace-pre-wrap">{renderBody(comment, users)}</p>
+    </div>
+  )
+
+  const threads = comments.filter((comment) => !comment.parentId)
+
+  return (
+    <div className="space-y-4">
+      <h2 className="text-lg font-semibold text-gray-900">Comments</h2>
+      {threads.length === 0 && <p className="text-sm text-gray-500">No comments yet.</p>}
+      <ul className="space-y-4">
+        {threads.map((thread) => (
+          <li key={thread.id} className="border rounded-md p-4 space-y-3">
+            {renderComment(thread)}
+            {comments.filter((comment) => comment.parentId === thread.id).map((reply) => (
+              <div key={reply.id} className="ml-6 border-l-2 border-gray-200 pl-4">
+                {renderComment(reply)}
+              </div>
+            ))}
+            {replyTo === thread.id && (
+              <div className="ml-6">
+                <CommentBox
+                  taskId={taskId}
+                  users={users}
+                  parentId={thread.id}
+                  onPosted={(comment) => {
+                    onChange([...comments, comment])
+                    setReplyTo(null)
+                  }}
+                  onCancel={() => setReplyTo(null)}
+                />
+              </div>
+            )}
+          </li>
+        ))}
+      </ul>
+      <CommentBox taskId={taskId} users={users} onPosted={(comment) => onChange([...comments, comment])} />
+    </div>
+  )
+}
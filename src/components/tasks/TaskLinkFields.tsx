@@ -0,0 +1,101 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { format } from 'date-fns'
+import { Label } from '@/components/ui/label'
+import { fetchAllPatients, type PatientOption } from '@/lib/patient-options'
+
+export interface TaskLinksValue {
+  patientId: string
+  caseId: string
+  procedureId: string
+}
+
+interface PatientRecords {
+  cases: Array<{ id: string; caseNumber: string }>
+  procedures: Array<{ id: string; scheduleDate: string; exam: { name: string } }>
+}
+
+const selectClassName =
+  'mt-1 block w-full rounded-md border border-gray-300 bg-white px-3 py-2 text-sm shadow-sm focus:border-indigo-500 focus:outline-none focus:ring-1 focus:ring-indigo-500'
+
+interface TaskLinkFieldsProps {
+  value: TaskLinksValue
+  onChange: (value: TaskLinksValue) => void
+}
+
+// Case and procedure choices come from the selected patient, so a task can
+// never point at records of two different patients
+export function TaskLinkFields({ value, onChange }: TaskLinkFieldsProps) {
+  const [patients, setPatients] = useState<PatientOption[]>([])
+  const [records, setRecords] = useState<PatientRecords>({ cases: [], procedures: [] })
+
+  useEffect(() => {
+    fetchAllPatients()
+      .then(setPatients)
+      .catch((err) => console.error('Error fetching patients:', err))
+  }, [])
+
+  useEffect(() => {
+    setRecords({ cases: [], procedures: [] })
+    if (!value.patientId) return
+
+    fetch(`/api/patients/${value.patientId}`)
+      .then((response) => (response.ok ? response.json() : null))
+      .then((patient) => {
+        if (patient) setRecords({ cases: patient.cases ?? [], procedures: patient.procedures ?? [] })
+      })
+      .catch((err) => console.error('Error fetching patient:', err))
+  }, [value.patientId])
+
+  return (
+    <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+      <div>
+        <Label htmlFor="patientId">Patient</Label>
+        <select
+          id="patientId"
+          value={value.patientId}
+          onChange={(e) => onChange({ patientId: e.target.value, caseId: '', procedureId: '' })}
+          className={selectClassName}
+        >
+          <option value="">No patient</option>
+          {patients.map((patient) => (
+            <option key={patient.id} value={patient.id}>{patient.lastName}, {patient.firstName}</option>
+          ))}
+        </select>
+      </div>
+      <div>
+        <Label htmlFor="caseId">Case</Label>
+        <select
+          id="caseId"
+          value={value.caseId}
+          onChange={(e) => onChange({ ...value, caseId: e.target.value })}
+          disabled={!value.patientId}
+          className={selectClassName}
+        >
+          <option value="">No case</option>
+          {records.cases.map((item) => (
+            <option key={item.id} value={item.id}>{item.caseNumber}</option>
+          ))}
+        </select>
+      </div>
+      <div>
+        <Label htmlFor="procedureId">Procedure</Label>
+        <select
+          id="procedureId"
+          value={value.procedureId}
+          onChange={(e) => onChange({ ...value, procedureId: e.target.value })}
+          disabled={!value.patientId}
+          className={selectClassName}
+        >
+          <option value="">No procedure</option>
+          {records.procedures.map((procedure) => (
+            <option key={procedure.id} value={procedure.id}>
+              {procedure.exam.name} · {format(new Date(procedure.scheduleDate), 'MM/dd/yyyy')}
+            </option>
+          ))}
+        </select>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,74 @@
+'use client'
+
+import { createContext, useCallback, useContext, useEffect, useState } from 'react'
+import { useSession } from 'next-auth/react'
+import { DEFAULT_PAGE_SIZES, type TableName } from '@/lib/validations'
+import type { UserSettingsResponse } from '@/lib/user-settings'
+
+interface UserSettingsContextType {
+  // null until loaded, and for signed-out visitors
+  settings: UserSettingsResponse | null
+  // True once there is nothing more to wait for, even if loading failed
+  loaded: boolean
+  updateSettings: (changes: Partial<UserSettingsResponse>) => Promise<UserSettingsResponse>
+}
+
+const UserSettingsContext = createContext<UserSettingsContextType | undefined>(undefined)
+
+export function UserSettingsProvider({ children }: { children: React.ReactNode }) {
+  const { status } = useSession()
+  const [settings, setSettings] = useState<UserSettingsResponse | null>(null)
+  const [loaded, setLoaded] = useState(false)
+
+  useEffect(() => {
+    if (status === 'loading') return
+    if (status === 'unauthenticated') {
+      setSettings(null)
+      setLoaded(true)
+      return
+    }
+
+    fetch('/api/settings')
+      .then((response) => (response.ok ? response.json() : null))
+      .then(setSettings)
+      .catch((err) => console.error('Error fetching settings:', err))
+      .finally(() => setLoaded(true))
+  }, [status])
+
+  const updateSettings = useCallback(async (changes: Partial<UserSettingsResponse>) => {
+    const response = await fetch('/api/settings', {
+      method: 'PUT',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify(changes),
+    })
+    const data = await response.json()
+    if (!response.ok) {
+      throw new Error(data.error || 'Failed to save settings')
+    }
+    setSettings(data)
+    return data as UserSettingsResponse
+  }, [])
+
+  return (
+    <UserSettingsContext.Provider value={{ settings, loaded, updateSettings }}>
+      {children}
+    </UserSettingsContext.Provider>
+  )
+}
+
+export function useUserSettings() {
+  const context = useContext(UserSettingsContext)
+  if (context === undefined) {
+    throw new Error('useUserSettings must be used within a UserSettingsProvider')
+  }
+  return context
+}
+
+// Rows per page the user chose for a table, or null until settings have loaded
+export function usePageSize(table: TableName) {
+  const { settings, loaded } = useUserSettings()
+  if (!loaded) return null
+  return settings?.pageSizes[table] ?? DEFAULT_PAGE_SIZES[table]
+}
@@ -3,20 +3,28 @@
 import { useSession, signIn, signOut } from 'next-auth/react'
 import { useRouter } from 'next/navigation'
 import { useToast } from '@/hooks/use-toast'
+import { TWO_FACTOR_REQUIRED } from '@/lib/validations'
 
 export function useAuth() {
   const { data: session, status } = useSession()
   const router = useRouter()
   const { toast } = useToast()
 
-  const login = async (email: string, password: string) => {
+  // Resolves to TWO_FACTOR_REQUIRED when the password was right but the
+  // account also needs a code
+  const login = async (email: string, password: string, code?: string) => {
     try {
       const result = await signIn('credentials', {
         email,
         password,
+        ...(code && { code }),
         redirect: false,
       })
 
+      if (result?.error === TWO_FACTOR_REQUIRED) {
+        return TWO_FACTOR_REQUIRED
+      }
+
       if (result?.error) {
         toast({
           title: 'Error',
@@ -114,7 +122,7 @@ export function useAuth() {
 
       toast({
         title: 'Success',
-        description: 'Password reset instructions sent to your email',
+        description: result.message || 'Password reset instructions sent to your email',
         type: 'success',
       })
       return true
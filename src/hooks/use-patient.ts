@@ -49,8 +49,8 @@ export function usePatient() {
     })
   }
 
-  const getPatients = async () => {
-    return callApi<Patient[]>('/api/patients', 'GET', undefined, {
+  const getPatients = async (query = '') => {
+    return callApi<{ patients: Patient[]; nextCursor: string | null; total: number }>(`/api/patients${query ? `?${query}` : ''}`, 'GET', undefined, {
       successMessage: 'Patients fetched successfully',
       errorMessage: 'Failed to fetch patients',
     })
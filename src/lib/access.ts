@@ -0,0 +1,61 @@
+import type { Session } from 'next-auth'
+import { prisma } from '@/lib/prisma'
+import { resolvePortalAttorney } from '@/lib/attorney-portal'
+import { resolvePortalPatient } from '@/lib/patient-portal'
+import {
+  appointmentScopeWhere,
+  isRole,
+  patientScopeWhere,
+  type RecordScope,
+} from '@/lib/permissions'
+
+// Resolves the records a signed-in user is limited to. ADMIN and STAFF are
+// unrestricted; doctors are matched to their Provider record by email,
+// attorney-side logins to the attorney they act for and patients to their own
+// record.
+export async function getRecordScope(session: Session): Promise<RecordScope> {
+  const role = isRole(session.user.role) ? session.user.role : null
+
+  // Unknown roles get the most restrictive scope available
+  if (!role) {
+    return { role: 'DOCTOR', doctorIds: [] }
+  }
+
+  if (role === 'DOCTOR') {
+    const doctors = session.user.email
+      ? await prisma.provider.findMany({
+          where: { email: session.user.email },
+          select: { id: true },
+        })
+      : []
+    return { role, doctorIds: doctors.map((doctor) => doctor.id) }
+  }
+
+  if (role === 'ATTORNEY' || role === 'CASE_MANAGER') {
+    return { role, attorney: await resolvePortalAttorney(session.user.id) }
+  }
+
+  if (role === 'PATIENT') {
+    const patient = await resolvePortalPatient(session.user.id)
+    return { role, patientId: patient?.id ?? null }
+  }
+
+  return { role }
+}
+
+export async function getPatientScope(session: Session) {
+  return patientScopeWhere(await getRecordScope(session))
+}
+
+export async function getAppointmentScope(session: Session) {
+  return appointmentScopeWhere(await getRecordScope(session))
+}
+
+export async function canAccessPatientRecord(session: Session, patientId: string) {
+  const count = await prisma.patient.count({
+    where: {
+      AND: [{ id: patientId }, await getPatientScope(session)],
+    },
+  })
+  return count > 0
+}
@@ -3,6 +3,7 @@ import { apiResponseSchema } from './validations'
 import { getServerSession } from 'next-auth'
 import { authOptions } from '@/lib/auth'
 import { logger } from '@/lib/logger'
+import { canAccessApi } from '@/lib/permissions'
 
 export type ApiResponse<T = any> = {
   success: boolean
@@ -66,7 +67,10 @@ export function requireAuth(request: Request): NextResponse | null {
   return null
 }
 
-export async function requireRole(request: NextRequest, allowedRoles: string[]) {
+// Checks the signed-in user against the central policy in lib/permissions for
+// this request's route and method. The middleware already enforces the same
+// policy; this keeps route handlers safe when called outside of it.
+export async function requirePermission(request: NextRequest) {
   const session = await getServerSession(authOptions)
   
   if (!session?.user?.role) {
@@ -77,7 +81,7 @@ export async function requireRole(request: NextRequest, allowedRoles: string[])
     )
   }
 
-  if (!allowedRoles.includes(session.user.role)) {
+  if (!canAccessApi(session.user.role, request.method, request.nextUrl.pathname)) {
     return sendApiResponse(
       undefined,
       'You do not have permission to perform this action',
@@ -0,0 +1,138 @@
+import type { Prisma } from '@prisma/client'
+import { prisma } from '@/lib/prisma'
+import { attorneyPatientWhere } from '@/lib/permissions'
+
+export const PORTAL_ROLES = ['ATTORNEY', 'CASE_MANAGER'] as const
+
+export interface PortalAttorney {
+  id: string
+  name: string
+}
+
+export function isPortalRole(role: string | undefined) {
+  return PORTAL_ROLES.includes(role as (typeof PORTAL_ROLES)[number])
+}
+
+// Attorneys log in through their own User, case managers through theirs; both
+// resolve to the attorney whose clients they are allowed to see
+export async function resolvePortalAttorney(userId: string): Promise<PortalAttorney | null> {
+  const attorney = await prisma.attorney.findFirst({
+    where: {
+      OR: [
+        { userId },
+        { caseManagers: { some: { userId } } },
+      ],
+    },
+    select: {
+      id: true,
+      user: {
+        select: {
+          name: true,
+        },
+      },
+    },
+  })
+
+  return attorney ? { id: attorney.id, name: attorney.user.name } : null
+}
+
+export const portalPatientSelect = {
+  id: true,
+  firstName: true,
+  lastName: true,
+  dateOfBirth: true,
+  status: {
+    select: {
+      name: true,
+      color: true,
+    },
+  },
+  procedures: {
+    select: {
+      id: true,
+      scheduleDate: true,
+      scheduleTime: true,
+      isCompleted: true,
+      exam: {
+        select: {
+          name: true,
+        },
+      },
+      facility: {
+        select: {
+          name: true,
+        },
+      },
+      status: {
+        select: {
+          name: true,
+          color: true,
+        },
+      },
+      lop: {
+        select: {
+          status: true,
+        },
+      },
+    },
+    orderBy: {
+      scheduleDate: 'desc',
+    },
+  },
+  invoices: {
+    where: {
+      status: { not: 'VOID' },
+    },
+    select: {
+      id: true,
+      invoiceNumber: true,
+      issueDate: true,
+      status: true,
+      subtotal: true,
+      balance: true,
+    },
+    orderBy: {
+      issueDate: 'desc',
+    },
+  },
+} satisfies Prisma.PatientSelect
+
+type PortalPatientRecord = Prisma.PatientGetPayload<{ select: typeof portalPatientSelect }>
+
+// Reports are read and released once a procedure has been marked completed
+function toPortalPatient(patient: PortalPatientRecord) {
+  return {
+    ...patient,
+    procedures: patient.procedures.map((procedure) => ({
+      ...procedure,
+      reportAvailable: procedure.isCompleted,
+    })),
+    outstandingBalance: patient.invoices.reduce((total, invoice) => total + invoice.balance, 0),
+  }
+}
+
+export type PortalPatient = ReturnType<typeof toPortalPatient>
+
+export async function getPortalPatients(attorney: PortalAttorney) {
+  const patients = await prisma.patient.findMany({
+    where: attorneyPatientWhere(attorney),
+    select: portalPatientSelect,
+    orderBy: [
+      { lastName: 'asc' },
+      { firstName: 'asc' },
+    ],
+  })
+
+  return patients.map(toPortalPatient)
+}
+
+export async function getPortalPatient(attorney: PortalAttorney, patientId: string) {
+  const patient = await prisma.patient.findFirst({
+    where: {
+      AND: [{ id: patientId }, attorneyPatientWhere(attorney)],
+    },
+    select: portalPatientSelect,
+  })
+
+  return patient ? toPortalPatient(patient) : null
+}
@@ -0,0 +1,199 @@
+import type { Event, Prisma } from '@prisma/client'
+import type { Session } from 'next-auth'
+import { format } from 'date-fns'
+import { toCsv } from '@/lib/csv'
+import { prisma } from '@/lib/prisma'
+
+export const AUDIT_ACTIONS = ['VIEW', 'CREATE', 'UPDATE', 'DELETE'] as const
+
+export type AuditAction = (typeof AUDIT_ACTIONS)[number]
+
+export const AUDIT_ENTITIES = ['Patient', 'Procedure', 'Case', 'Attorney'] as const
+
+export type AuditEntity = (typeof AUDIT_ENTITIES)[number]
+
+export type AuditChanges = Record<string, { before: unknown; after: unknown }>
+
+// Bookkeeping fields and secrets never belong in a diff
+const IGNORED_FIELDS = [
+  'createdAt',
+  'updatedAt',
+  'password',
+  'resetToken',
+  'resetTokenExpiry',
+  'twoFactorSecret',
+  'twoFactorRecoveryCodes',
+]
+
+function normalize(value: unknown): unknown {
+  if (value instanceof Date) return value.toISOString()
+  if (value === undefined) return null
+  return value
+}
+
+function isPlainValue(value: unknown): boolean {
+  if (Array.isArray(value)) return value.every(isPlainValue)
+  return value === null || value === undefined || value instanceof Date || typeof value !== 'object'
+}
+
+// Compares the scalar fields of two versions of a record. Included relations
+// are skipped; they are audited as records of their own.
+export function diffRecords(
+  before: Record<string, unknown> | null | undefined,
+  after: Record<string, unknown> | null | undefined
+): AuditChanges {
+  const changes: AuditChanges = {}
+  const fields = new Set([...Object.keys(before ?? {}), ...Object.keys(after ?? {})])
+
+  for (const field of fields) {
+    if (IGNORED_FIELDS.includes(field)) continue
+
+    const previous = before?.[field]
+    const next = after?.[field]
+    if (!isPlainValue(previous) || !isPlainValue(next)) continue
+    if (JSON.stringify(normalize(previous)) === JSON.stringify(normalize(next))) continue
+
+    changes[field] = { before: normalize(previous), after: normalize(next) }
+  }
+
+  return changes
+}
+
+export interface AuditEntry {
+  action: AuditAction
+  entityType: AuditEntity
+  entityId?: string | null
+  patientId?: string | null
+  summary?: string | null
+  before?: object | null
+  after?: object | null
+  details?: Prisma.InputJsonValue
+}
+
+function clientIp(request?: Request) {
+  return request?.headers.get('x-forwarded-for')?.split(',')[0].trim() || null
+}
+
+function toEventData(session: Session | null, entry: AuditEntry, request?: Request) {
+  const changes = entry.before || entry.after
+    ? diffRecords(entry.before as Record<string, unknown>, entry.after as Record<string, unknown>)
+    : null
+
+  return {
+    action: entry.action,
+    entityType: entry.entityType,
+    entityId: entry.entityId ?? null,
+    patientId: entry.patientId ?? null,
+    summary: entry.summary ?? null,
+    changes: changes && Object.keys(changes).length > 0 ? (changes as Prisma.InputJsonValue) : undefined,
+    details: entry.details,
+    userId: session?.user.id ?? null,
+    userName: session?.user.name ?? session?.user.email ?? null,
+    userRole: session?.user.role ?? null,
+    ipAddress: clientIp(request),
+  }
+}
+
+// Audit writes never fail the request they describe; a failure is logged so
+// it can be picked up by monitoring instead
+export async function recordAudit(session: Session | null, entry: AuditEntry, request?: Request) {
+  try {
+    await prisma.event.create({ data: toEventData(session, entry, request) })
+  } catch (error) {
+    console.error('[AUDIT]', error)
+  }
+}
+
+export async function recordAuditMany(session: Session | null, entries: AuditEntry[], request?: Request) {
+  if (entries.length === 0) return
+
+  try {
+    await prisma.event.createMany({
+      data: entries.map((entry) => toEventData(session, entry, request)),
+    })
+  } catch (error) {
+    console.error('[AUDIT]', error)
+  }
+}
+
+type AuditedProcedure = { id: string; patientId: string; exam?: { name: string } | null }
+
+// Logs the procedure-level effect of saving a patient with its procedures:
+// removed ones as deletes, new ones as creates and the rest as updates
+export async function recordProcedureChanges<T extends AuditedProcedure>(
+  session: Session | null,
+  before: T[],
+  after: T[],
+  request?: Request
+) {
+  const entries: AuditEntry[] = []
+  const label = (procedure: T) => procedure.exam?.name ?? null
+
+  for (const procedure of before) {
+    const current = after.find((item) => item.id === procedure.id)
+    if (!current) {
+      entries.push({ action: 'DELETE', entityType: 'Procedure', entityId: procedure.id, patientId: procedure.patientId, summary: label(procedure), before: procedure })
+    } else if (Object.keys(diffRecords(procedure, current)).length > 0) {
+      entries.push({ action: 'UPDATE', entityType: 'Procedure', entityId: procedure.id, patientId: procedure.patientId, summary: label(current), before: procedure, after: current })
+    }
+  }
+
+  for (const procedure of after) {
+    if (!before.some((item) => item.id === procedure.id)) {
+      entries.push({ action: 'CREATE', entityType: 'Procedure', entityId: procedure.id, patientId: procedure.patientId, summary: label(procedure), after: procedure })
+    }
+  }
+
+  await recordAuditMany(session, entries, request)
+}
+
+export function patientLabel(patient: { firstName: string; lastName: string }) {
+  return `${patient.firstName} ${patient.lastName}`
+}
+
+export function buildAuditWhere(searchParams: URLSearchParams): Prisma.EventWhereInput {
+  const userId = searchParams.get('userId')
+  const patientId = searchParams.get('patientId')
+  const entityType = searchParams.get('entityType')
+  const action = searchParams.get('action')
+  const startDate = searchParams.get('startDate')
+  const endDate = searchParams.get('endDate')
+
+  const createdAt: Prisma.DateTimeFilter = {}
+  if (startDate) {
+    const start = new Date(startDate)
+    start.setHours(0, 0, 0, 0)
+    createdAt.gte = start
+  }
+  if (endDate) {
+    const end = new Date(endDate)
+    end.setHours(23, 59, 59, 999)
+    createdAt.lte = end
+  }
+
+  return {
+    ...(userId && { userId }),
+    ...(patientId && { patientId }),
+    ...(entityType && AUDIT_ENTITIES.includes(entityType as AuditEntity) && { entityType }),
+    ...(action && AUDIT_ACTIONS.includes(action as AuditAction) && { action }),
+    ...((startDate || endDate) && { createdAt }),
+  }
+}
+
+export function auditToCsv(events: Event[]) {
+  const header = ['Timestamp', 'User', 'Role', 'Action', 'Record Type', 'Record ID', 'Patient ID', 'Summary', 'Changes', 'IP Address']
+  const rows = events.map((event) => [
+    format(event.createdAt, 'yyyy-MM-dd HH:mm:ss'),
+    event.userName,
+    event.userRole,
+    event.action,
+    event.entityType,
+    event.entityId,
+    event.patientId,
+    event.summary,
+    event.changes,
+    event.ipAddress,
+  ])
+
+  return toCsv([header, ...rows])
+}
@@ -3,31 +3,70 @@ import CredentialsProvider from 'next-auth/providers/credentials'
 import { compare } from 'bcryptjs'
 import { prisma } from '@/lib/prisma'
 import { DefaultSession } from 'next-auth'
+import { verifySecondFactor } from '@/lib/two-factor'
+import {
+  getSecurityPolicy,
+  MAX_SESSION_HOURS,
+  recordFailedSignIn,
+  signInRequirements
+} from '@/lib/security-policy'
+import { checkUserSession, endUserSession, SESSION_CHECK_INTERVAL_MS, startUserSession } from '@/lib/sessions'
+import { TWO_FACTOR_REQUIRED } from '@/lib/validations'
 
 // Extend the built-in session types
 declare module 'next-auth' {
   interface User {
     role: string
+    sessionId?: string
+    idleTimeoutMinutes?: number
+    twoFactorSetupRequired?: boolean
+    passwordChangeRequired?: boolean
   }
   interface Session {
     user: {
+      id: string
       role: string
+      // The security policy wants 2FA for this role and the user has not enrolled
+      twoFactorSetupRequired?: boolean
+      // The password is older than the policy's rotation period
+      passwordChangeRequired?: boolean
     } & DefaultSession['user']
+    // The UserSession record behind this sign-in
+    sessionId?: string
+    idleTimeoutMinutes?: number
   }
 }
 
+declare module 'next-auth/jwt' {
+  interface JWT {
+    role?: string
+    sessionId?: string
+    sessionCheckedAt?: number
+    idleTimeoutMinutes?: number
+    twoFactorSetupRequired?: boolean
+    passwordChangeRequired?: boolean
+  }
+}
+
+// The same answer for an unknown email, a wrong password and a locked
+// account, so sign-in cannot be used to find out who has an account
+const INVALID_CREDENTIALS = 'Invalid email or password'
+
+// Compared against when the email is unknown, so both cases take as long
+const DUMMY_PASSWORD_HASH = '$2b$12$klP.XaKwNeo.jgtQD1cQ3eCHkiXU1TOMjoeyeQd4FoG740BhUWEgu'
+
 export const authOptions: NextAuthOptions = {
   providers: [
     CredentialsProvider({
       name: 'Credentials',
       credentials: {
         email: { label: 'Email', type: 'email' },
-        password: { label: 'Password', type: 'password' }
+        password: { label: 'Password', type: 'password' },
+        code: { label: 'Authentication code', type: 'text' }
       },
-      async authorize(credentials) {
+      async authorize(credentials, req) {
         try {
           if (!credentials?.email || !credentials?.password) {
-            console.log('Missing credentials')
             throw new Error('Please enter an email and password')
           }
 
@@ -38,26 +77,89 @@ export const authOptions: NextAuthOptions = {
           })
 
           if (!user) {
-            console.log('No user found')
-            throw new Error('No user found with this email')
+            await compare(credentials.password, DUMMY_PASSWORD_HASH)
+            throw new Error(INVALID_CREDENTIALS)
+          }
+
+          const policy = await getSecurityPolicy()
+
+          if (user.lockedUntil && user.lockedUntil > new Date()) {
+            await compare(credentials.password, DUMMY_PASSWORD_HASH)
+            throw new Error(INVALID_CREDENTIALS)
           }
 
           const isPasswordValid = await compare(credentials.password, user.password || '')
 
           if (!isPasswordValid) {
-            console.log('Invalid password')
-            throw new Error('Invalid password')
+            await recordFailedSignIn(user, policy)
+            throw new Error(INVALID_CREDENTIALS)
           }
 
-          console.log('Login successful')
+          if (user.twoFactorEnabled) {
+            // The password was right; LoginForm now asks for the second step
+            if (!credentials.code) {
+              throw new Error(TWO_FACTOR_REQUIRED)
+            }
+
+            // Wrong codes count towards the lockout like wrong passwords
+            const result = verifySecondFactor(credentials.code, user)
+            if (!result.valid) {
+              await recordFailedSignIn(user, policy)
+              throw new Error('Invalid authentication code')
+            }
+            // Claim the step in the same write that checks it, so one app code
+            // cannot be replayed by a concurrent sign-in either
+            if (result.timeStep !== undefined) {
+              const claimed = await prisma.user.updateMany({
+                where: {
+                  id: user.id,
+                  OR: [
+                    { twoFactorLastStep: { isSet: false } },
+                    { twoFactorLastStep: null },
+                    { twoFactorLastStep: { lt: result.timeStep } },
+                  ],
+                },
+                data: { twoFactorLastStep: result.timeStep },
+              })
+              if (claimed.count === 0) {
+                await recordFailedSignIn(user, policy)
+                throw new Error('Invalid authentication code')
+              }
+            }
+            // A recovery code is spent only if the list is still the one it
+            // was checked against, so two sign-ins cannot share one code
+            if (result.remainingRecoveryCodes) {
+              const claimed = await prisma.user.updateMany({
+                where: { id: user.id, twoFactorRecoveryCodes: { equals: user.twoFactorRecoveryCodes } },
+                data: { twoFactorRecoveryCodes: { set: result.remainingRecoveryCodes } },
+              })
+              if (claimed.count === 0) {
+                await recordFailedSignIn(user, policy)
+                throw new Error('Invalid authentication code')
+              }
+            }
+          }
+
+          await prisma.user.update({
+            where: { id: user.id },
+            data: {
+              failedLoginAttempts: 0,
+              lockedUntil: null,
+            }
+          })
+          const session = await startUserSession(user.id, policy, req?.headers)
+
           return {
             id: user.id,
             email: user.email,
             name: user.name,
-            role: user.role
+            role: user.role,
+            sessionId: session.id,
+            idleTimeoutMinutes: policy.idleTimeoutMinutes,
+            ...signInRequirements(user, policy)
           }
         } catch (error) {
-          console.error('Auth error:', error)
+          console.error('Auth error:', error instanceof Error ? error.message : error)
           throw error
         }
       }
@@ -68,23 +170,62 @@ export const authOptions: NextAuthOptions = {
     error: '/login',
   },
   callbacks: {
-    async jwt({ token, user }) {
+    async jwt({ token, user, trigger }) {
       if (user) {
         token.role = user.role
+        token.sessionId = user.sessionId
+        token.sessionCheckedAt = Date.now()
+        token.idleTimeoutMinutes = user.idleTimeoutMinutes
+        token.twoFactorSetupRequired = user.twoFactorSetupRequired ?? false
+        token.passwordChangeRequired = user.passwordChangeRequired ?? false
+        return token
+      }
+
+      // Revoked, expired and idle sessions end here: next-auth treats the
+      // error as a missing session and clears the cookie
+      if (token.sessionId && Date.now() - (token.sessionCheckedAt ?? 0) > SESSION_CHECK_INTERVAL_MS) {
+        await checkUserSession(token.sessionId)
+        token.sessionCheckedAt = Date.now()
+      }
+
+      // The settings page calls update() after enrolling in 2FA or changing
+      // the password, which lifts the matching restriction
+      if (trigger === 'update' && (token.twoFactorSetupRequired || token.passwordChangeRequired) && token.sub) {
+        const [current, policy] = await Promise.all([
+          prisma.user.findUnique({ where: { id: token.sub } }),
+          getSecurityPolicy()
+        ])
+        if (current) {
+          Object.assign(token, signInRequirements(current, policy))
+        }
       }
       return token
     },
     async session({ session, token }) {
       if (session.user) {
+        session.user.id = token.sub as string
         session.user.role = token.role as string
+        session.user.twoFactorSetupRequired = Boolean(token.twoFactorSetupRequired)
+        session.user.passwordChangeRequired = Boolean(token.passwordChangeRequired)
       }
+      session.sessionId = token.sessionId
+      session.idleTimeoutMinutes = token.idleTimeoutMinutes
       return session
     }
   },
+  events: {
+    async signOut({ token }) {
+      if (token?.sessionId) {
+        await endUserSession(token.sessionId)
+      }
+    }
+  },
   session: {
     strategy: 'jwt',
-    maxAge: 30 * 24 * 60 * 60, // 30 days
+    // The security policy's session lifetime, checked on every request, is
+    // usually shorter than this
+    maxAge: MAX_SESSION_HOURS * 60 * 60,
   },
   secret: process.env.NEXTAUTH_SECRET,
   debug: process.env.NODE_ENV === 'development',
-} 
\ No newline at end of file
+}
@@ -0,0 +1,324 @@
+import { Prisma } from '@prisma/client'
+import { format } from 'date-fns'
+import { prisma } from '@/lib/prisma'
+
+type Db = Prisma.TransactionClient
+
+export const INVOICE_STATUSES = ['OPEN', 'PARTIAL', 'PAID', 'VOID'] as const
+
+export type InvoiceStatus = (typeof INVOICE_STATUSES)[number]
+
+export const PAYMENT_METHODS = ['CHECK', 'ACH', 'WIRE', 'CARD', 'CASH', 'OTHER'] as const
+
+export const invoiceInclude = {
+  patient: {
+    select: {
+      id: true,
+      firstName: true,
+      lastName: true,
+      dateOfBirth: true,
+      address: true,
+      city: true,
+      zip: true,
+    },
+  },
+  case: {
+    select: {
+      id: true,
+      caseNumber: true,
+    },
+  },
+  attorney: {
+    select: {
+      id: true,
+      address: true,
+      city: true,
+      state: true,
+      zip: true,
+      user: {
+        select: {
+          name: true,
+        },
+      },
+    },
+  },
+  charges: {
+    orderBy: {
+      serviceDate: 'asc',
+    },
+  },
+  payments: {
+    orderBy: {
+      receivedDate: 'asc',
+    },
+  },
+  reductions: {
+    orderBy: {
+      date: 'asc',
+    },
+  },
+} satisfies Prisma.InvoiceInclude
+
+export type InvoiceWithDetails = Prisma.InvoiceGetPayload<{ include: typeof invoiceInclude }>
+
+export class BillingError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'BillingError'
+  }
+}
+
+export function buildInvoiceWhere(searchParams: URLSearchParams): Prisma.InvoiceWhereInput {
+  const patientId = searchParams.get('patientId')
+  const attorneyId = searchParams.get('attorneyId')
+  const caseId = searchParams.get('caseId')
+  const status = searchParams.get('status')
+
+  return {
+    ...(patientId && { patientId }),
+    ...(attorneyId && { attorneyId }),
+    ...(caseId && { caseId }),
+    ...(status && INVOICE_STATUSES.includes(status as InvoiceStatus) && { status }),
+  }
+}
+
+export function roundCurrency(value: number) {
+  return Math.round(value * 100) / 100
+}
+
+export function computeInvoiceTotals(
+  charges: { amount: number }[],
+  reductions: { amount: number }[],
+  payments: { amount: number }[]
+) {
+  const subtotal = roundCurrency(charges.reduce((total, charge) => total + charge.amount, 0))
+  const reductionTotal = roundCurrency(reductions.reduce((total, reduction) => total + reduction.amount, 0))
+  const paymentTotal = roundCurrency(payments.reduce((total, payment) => total + payment.amount, 0))
+  const balance = roundCurrency(subtotal - reductionTotal - paymentTotal)
+
+  let status: InvoiceStatus = 'OPEN'
+  if (balance <= 0 && subtotal > 0) {
+    status = 'PAID'
+  } else if (paymentTotal > 0 || reductionTotal > 0) {
+    status = 'PARTIAL'
+  }
+
+  return { subtotal, reductionTotal, paymentTotal, balance, status }
+}
+
+// Turns a completed procedure into one line item per sub-exam. Procedures that
+// already have charges are left alone, so this is safe to call repeatedly.
+export async function createChargesForProcedure(procedureId: string, db: Db = prisma) {
+  const existing = await db.charge.count({ where: { procedureId } })
+  if (existing > 0) return []
+
+  const procedure = await db.procedure.findUnique({
+    where: { id: procedureId },
+    include: {
+      exam: { include: { subExams: true } },
+      lop: { select: { attorneyId: true } },
+    },
+  })
+
+  if (!procedure?.isCompleted) return []
+
+  const lines = procedure.exam.subExams.length > 0
+    ? procedure.exam.subExams.map((subExam) => ({
+        subExamId: subExam.id,
+        description: `${procedure.exam.name} - ${subExam.name}`,
+        amount: subExam.price,
+      }))
+    : [{ subExamId: null, description: procedure.exam.name, amount: 0 }]
+
+  return Promise.all(
+    lines.map((line) =>
+      db.charge.create({
+        data: {
+          ...line,
+          patientId: procedure.patientId,
+          procedureId: procedure.id,
+          attorneyId: procedure.lop?.attorneyId ?? null,
+          serviceDate: procedure.scheduleDate,
+        },
+      })
+    )
+  )
+}
+
+// Brings the ledger in line with procedure completion: completed procedures get
+// charges, and reopened procedures lose any charges that were not invoiced yet
+export async function syncProcedureCharges(where: Prisma.ProcedureWhereInput, db: Db = prisma) {
+  const procedures = await db.procedure.findMany({
+    where,
+    select: { id: true, isCompleted: true },
+  })
+
+  for (const procedure of procedures) {
+    if (procedure.isCompleted) {
+      await createChargesForProcedure(procedure.id, db)
+    } else {
+      await db.charge.deleteMany({
+        where: { procedureId: procedure.id, invoiceId: null },
+      })
+    }
+  }
+}
+
+// Each day's invoices are numbered from an atomic counter, so invoices created
+// at the same moment never share a number. The counter is first raised to the
+// number of invoices already issued that day, for days numbered before it existed.
+// It runs outside the invoice's transaction; a failed invoice leaves a gap.
+async function generateInvoiceNumber() {
+  const day = format(new Date(), 'yyyyMMdd')
+  const prefix = `INV-${day}`
+  const name = `invoice-${day}`
+  const issued = await prisma.invoice.count({
+    where: { invoiceNumber: { startsWith: prefix } },
+  })
+
+  await prisma.$runCommandRaw({
+    findAndModify: 'Counter',
+    query: { name },
+    update: { $max: { value: issued } },
+    upsert: true,
+  })
+  const result = await prisma.$runCommandRaw({
+    findAndModify: 'Counter',
+    query: { name },
+    update: { $inc: { value: 1 } },
+    new: true,
+  }) as { value: { value: number } }
+
+  return `${prefix}-${String(result.value.value).padStart(4, '0')}`
+}
+
+export async function recalculateInvoice(invoiceId: string, db: Db = prisma) {
+  const invoice = await db.invoice.findUnique({
+    where: { id: invoiceId },
+    include: { charges: true, reductions: true, payments: true },
+  })
+
+  if (!invoice) {
+    throw new BillingError('Invoice not found')
+  }
+
+  const totals = computeInvoiceTotals(invoice.charges, invoice.reductions, invoice.payments)
+
+  return db.invoice.update({
+    where: { id: invoiceId },
+    data: {
+      ...totals,
+      status: invoice.status === 'VOID' ? 'VOID' : totals.status,
+    },
+    include: invoiceInclude,
+  })
+}
+
+export interface CreateInvoiceInput {
+  patientId: string
+  caseId?: string | null
+  attorneyId?: string | null
+  chargeIds?: string[]
+  dueDate?: Date | null
+  notes?: string | null
+}
+
+// Groups a patient's unbilled charges (optionally only those under one
+// attorney, or an explicit selection) into a new invoice
+export async function createInvoice(input: CreateInvoiceInput) {
+  return prisma.$transaction(async (tx) => {
+    const charges = await tx.charge.findMany({
+      where: {
+        patientId: input.patientId,
+        invoiceId: null,
+        ...(input.attorneyId && { attorneyId: input.attorneyId }),
+        ...(input.chargeIds && { id: { in: input.chargeIds } }),
+      },
+    })
+
+    if (charges.length === 0) {
+      throw new BillingError('There are no unbilled charges to invoice')
+    }
+
+    const invoice = await tx.invoice.create({
+      data: {
+        invoiceNumber: await generateInvoiceNumber(),
+        patientId: input.patientId,
+        caseId: input.caseId || null,
+        attorneyId: input.attorneyId || charges.find((charge) => charge.attorneyId)?.attorneyId || null,
+        issueDate: new Date(),
+        dueDate: input.dueDate ?? null,
+        notes: input.notes ?? null,
+        ...computeInvoiceTotals(charges, [], []),
+      },
+    })
+
+    await tx.charge.updateMany({
+      where: { id: { in: charges.map((charge) => charge.id) } },
+      data: { invoiceId: invoice.id },
+    })
+
+    return tx.invoice.findUniqueOrThrow({
+      where: { id: invoice.id },
+      include: invoiceInclude,
+    })
+  })
+}
+
+export async function recordPayment(
+  invoiceId: string,
+  payment: { amount: number; receivedDate: Date; method: string; reference?: string | null; notes?: string | null }
+) {
+  return prisma.$transaction(async (tx) => {
+    const invoice = await tx.invoice.findUnique({ where: { id: invoiceId } })
+    if (!invoice) {
+      throw new BillingError('Invoice not found')
+    }
+    if (invoice.status === 'VOID') {
+      throw new BillingError('Payments cannot be recorded on a void invoice')
+    }
+
+    await tx.payment.create({
+      data: { ...payment, invoiceId },
+    })
+    return recalculateInvoice(invoiceId, tx)
+  })
+}
+
+export async function recordReduction(
+  invoiceId: string,
+  reduction: { amount: number; reason: string; date: Date }
+) {
+  return prisma.$transaction(async (tx) => {
+    const invoice = await tx.invoice.findUnique({ where: { id: invoiceId } })
+    if (!invoice) {
+      throw new BillingError('Invoice not found')
+    }
+    if (invoice.status === 'VOID') {
+      throw new BillingError('Reductions cannot be recorded on a void invoice')
+    }
+    if (reduction.amount > invoice.balance) {
+      throw new BillingError('Reduction cannot exceed the outstanding balance')
+    }
+
+    await tx.reduction.create({
+      data: { ...reduction, invoiceId },
+    })
+    return recalculateInvoice(invoiceId, tx)
+  })
+}
+
+// Voiding releases the charges so they can be billed again on a new invoice
+export async function voidInvoice(invoiceId: string) {
+  return prisma.$transaction(async (tx) => {
+    await tx.charge.updateMany({
+      where: { invoiceId },
+      data: { invoiceId: null },
+    })
+    return tx.invoice.update({
+      where: { id: invoiceId },
+      data: { status: 'VOID', balance: 0 },
+      include: invoiceInclude,
+    })
+  })
+}
@@ -0,0 +1,106 @@
+import type { Prisma } from '@prisma/client'
+import bcrypt from 'bcryptjs'
+import { checkPasswordPolicy } from '@/lib/security-policy'
+
+export interface CaseManagerInput {
+  name: string
+  email: string
+  phone: string
+  phoneExt?: string
+  faxNumber?: string
+  // Setting a password gives the case manager their own attorney portal login
+  password?: string
+}
+
+export class CaseManagerError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'CaseManagerError'
+  }
+}
+
+function splitName(name: string) {
+  return {
+    firstName: name.split(' ')[0] || '',
+    lastName: name.split(' ').slice(1).join(' ') || '',
+  }
+}
+
+// Replaces an attorney's case managers with the submitted list. Managers are
+// matched by email so existing portal logins survive an edit; managers that
+// were removed lose their login along with the record.
+export async function syncCaseManagers(
+  tx: Prisma.TransactionClient,
+  attorneyId: string,
+  managers: CaseManagerInput[]
+) {
+  const valid = managers.filter((manager) => manager.name && manager.email && manager.phone)
+  const existing = await tx.caseManager.findMany({ where: { attorneyId } })
+  const submittedEmails = valid.map((manager) => manager.email.toLowerCase())
+
+  const removed = existing.filter((manager) => !submittedEmails.includes(manager.email.toLowerCase()))
+  if (removed.length > 0) {
+    await tx.caseManager.deleteMany({
+      where: { id: { in: removed.map((manager) => manager.id) } },
+    })
+    const removedUserIds = removed.flatMap((manager) => (manager.userId ? [manager.userId] : []))
+    if (removedUserIds.length > 0) {
+      await tx.user.deleteMany({ where: { id: { in: removedUserIds } } })
+    }
+  }
+
+  for (const manager of valid) {
+    const current = existing.find((item) => item.email.toLowerCase() === manager.email.toLowerCase())
+    const { firstName, lastName } = splitName(manager.name)
+    let userId = current?.userId ?? null
+
+    if (manager.password) {
+      // Throws PasswordPolicyError, which the attorney routes answer with a 400
+      await checkPasswordPolicy(manager.password)
+      const password = await bcrypt.hash(manager.password, 10)
+      const now = new Date()
+
+      if (userId) {
+        await tx.user.update({
+          where: { id: userId },
+          data: { name: manager.name, password, passwordChangedAt: now },
+        })
+      } else {
+        const emailTaken = await tx.user.findUnique({ where: { email: manager.email } })
+        if (emailTaken) {
+          throw new CaseManagerError(`A login already exists for ${manager.email}`)
+        }
+
+        const user = await tx.user.create({
+          data: {
+            email: manager.email,
+            name: manager.name,
+            role: 'CASE_MANAGER',
+            password,
+            passwordChangedAt: now,
+            createdAt: now,
+            updatedAt: now,
+          },
+        })
+        userId = user.id
+      }
+    }
+
+    const data = {
+      firstName,
+      lastName,
+      email: manager.email,
+      phone: manager.phone,
+      userId,
+      updatedAt: new Date(),
+    }
+
+    if (current) {
+      await tx.caseManager.update({ where: { id: current.id }, data })
+    } else {
+      await tx.caseManager.create({
+        data: { ...data, attorneyId, createdAt: new Date() },
+      })
+    }
+  }
+}
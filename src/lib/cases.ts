@@ -0,0 +1,280 @@
+import type { Prisma } from '@prisma/client'
+import { prisma } from '@/lib/prisma'
+import { roundCurrency } from '@/lib/billing'
+import { isLopReceived } from '@/lib/lops'
+
+export const CLAIM_TYPES = ['AUTO', 'PREMISES', 'WORKERS_COMP', 'MALPRACTICE', 'OTHER'] as const
+
+export type ClaimType = (typeof CLAIM_TYPES)[number]
+
+export const SETTLEMENT_STATUSES = ['PENDING', 'NEGOTIATING', 'LITIGATION', 'SETTLED', 'DROPPED'] as const
+
+export type SettlementStatus = (typeof SETTLEMENT_STATUSES)[number]
+
+export class CaseError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'CaseError'
+  }
+}
+
+export const caseListInclude = {
+  patient: {
+    select: {
+      id: true,
+      firstName: true,
+      lastName: true,
+    },
+  },
+  attorney: {
+    select: {
+      id: true,
+      user: {
+        select: {
+          name: true,
+        },
+      },
+    },
+  },
+} satisfies Prisma.CaseInclude
+
+export const caseInclude = {
+  ...caseListInclude,
+  caseManager: {
+    select: {
+      id: true,
+      firstName: true,
+      lastName: true,
+      email: true,
+      phone: true,
+    },
+  },
+  procedures: {
+    orderBy: { scheduleDate: 'asc' },
+    select: {
+      id: true,
+      scheduleDate: true,
+      scheduleTime: true,
+      isCompleted: true,
+      reportDeliveredAt: true,
+      exam: {
+        select: {
+          id: true,
+          name: true,
+        },
+      },
+      lop: {
+        select: {
+          id: true,
+          status: true,
+        },
+      },
+      charges: {
+        select: {
+          id: true,
+          amount: true,
+          invoiceId: true,
+        },
+      },
+    },
+  },
+  invoices: {
+    orderBy: { issueDate: 'desc' },
+    select: {
+      id: true,
+      invoiceNumber: true,
+      status: true,
+      issueDate: true,
+      subtotal: true,
+      reductionTotal: true,
+      paymentTotal: true,
+      balance: true,
+    },
+  },
+} satisfies Prisma.CaseInclude
+
+export type CaseWithDetails = Prisma.CaseGetPayload<{ include: typeof caseInclude }>
+
+export interface CaseInput {
+  caseNumber?: string
+  status?: string
+  filingDate?: Date
+  notes?: string
+  attorneyId?: string | null
+  caseManagerId?: string | null
+  dateOfInjury?: Date | null
+  claimType?: ClaimType | null
+  opposingInsurer?: string | null
+  settlementStatus?: SettlementStatus | null
+  settlementAmount?: number | null
+  procedureIds?: string[]
+}
+
+function parseDate(value: unknown, field: string) {
+  const date = new Date(value as string)
+  if (isNaN(date.getTime())) {
+    throw new CaseError(`Invalid ${field}`)
+  }
+  return date
+}
+
+function parseChoice<T extends string>(value: unknown, choices: readonly T[], field: string) {
+  if (value === null || value === '') return null
+  if (!choices.includes(value as T)) {
+    throw new CaseError(`${field} must be one of ${choices.join(', ')}`)
+  }
+  return value as T
+}
+
+// Only the fields present in the body are returned, so the same parser
+// serves create and partial update
+export function parseCaseInput(body: Record<string, unknown>): CaseInput {
+  const input: CaseInput = {}
+
+  if (body.caseNumber !== undefined) {
+    const caseNumber = String(body.caseNumber ?? '').trim()
+    if (!caseNumber) {
+      throw new CaseError('Case number is required')
+    }
+    input.caseNumber = caseNumber
+  }
+  if (body.status !== undefined) {
+    input.status = String(body.status)
+  }
+  if (body.filingDate !== undefined) {
+    input.filingDate = parseDate(body.filingDate, 'filing date')
+  }
+  if (body.notes !== undefined) {
+    input.notes = String(body.notes ?? '')
+  }
+  if (body.attorneyId !== undefined) {
+    input.attorneyId = (body.attorneyId as string) || null
+  }
+  if (body.caseManagerId !== undefined) {
+    input.caseManagerId = (body.caseManagerId as string) || null
+  }
+  if (body.dateOfInjury !== undefined) {
+    input.dateOfInjury = body.dateOfInjury ? parseDate(body.dateOfInjury, 'date of injury') : null
+  }
+  if (body.claimType !== undefined) {
+    input.claimType = parseChoice(body.claimType, CLAIM_TYPES, 'Claim type')
+  }
+  if (body.opposingInsurer !== undefined) {
+    input.opposingInsurer = (body.opposingInsurer as string)?.trim() || null
+  }
+  if (body.settlementStatus !== undefined) {
+    input.settlementStatus = parseChoice(body.settlementStatus, SETTLEMENT_STATUSES, 'Settlement status')
+  }
+  if (body.settlementAmount !== undefined) {
+    if (body.settlementAmount === null || body.settlementAmount === '') {
+      input.settlementAmount = null
+    } else {
+      const amount = Number(body.settlementAmount)
+      if (isNaN(amount) || amount < 0) {
+        throw new CaseError('Settlement amount must be a positive number')
+      }
+      input.settlementAmount = roundCurrency(amount)
+    }
+  }
+  if (body.procedureIds !== undefined) {
+    if (!Array.isArray(body.procedureIds)) {
+      throw new CaseError('Procedure IDs must be an array')
+    }
+    input.procedureIds = body.procedureIds as string[]
+  }
+
+  return input
+}
+
+// The case manager has to work for the case's attorney, and only the
+// patient's own procedures can be billed under the case
+export async function validateCaseLinks(
+  patientId: string,
+  input: Pick<CaseInput, 'attorneyId' | 'caseManagerId' | 'procedureIds'>
+) {
+  if (input.attorneyId) {
+    const attorney = await prisma.attorney.findUnique({ where: { id: input.attorneyId } })
+    if (!attorney) {
+      throw new CaseError('Attorney not found')
+    }
+  }
+
+  if (input.caseManagerId) {
+    const caseManager = await prisma.caseManager.findUnique({ where: { id: input.caseManagerId } })
+    if (!caseManager) {
+      throw new CaseError('Case manager not found')
+    }
+    if (caseManager.attorneyId !== input.attorneyId) {
+      throw new CaseError("The case manager must belong to the case's attorney")
+    }
+  }
+
+  if (input.procedureIds && input.procedureIds.length > 0) {
+    const count = await prisma.procedure.count({
+      where: { id: { in: input.procedureIds }, patientId },
+    })
+    if (count !== new Set(input.procedureIds).size) {
+      throw new CaseError("Procedures must belong to the case's patient")
+    }
+  }
+}
+
+// Moves the given procedures under the case and releases any it no longer lists
+export async function assignCaseProcedures(caseId: string, procedureIds: string[], db: Prisma.TransactionClient = prisma) {
+  await db.procedure.updateMany({
+    where: { caseId, id: { notIn: procedureIds } },
+    data: { caseId: null },
+  })
+  if (procedureIds.length > 0) {
+    await db.procedure.updateMany({
+      where: { id: { in: procedureIds } },
+      data: { caseId },
+    })
+  }
+}
+
+// What the case dashboard leads with: money owed, LOPs still to come back and
+// reports the attorney is waiting on
+export async function buildCaseSummary(case_: CaseWithDetails) {
+  const charges = case_.procedures.flatMap((procedure) => procedure.charges)
+  const openInvoices = case_.invoices.filter((invoice) => invoice.status !== 'VOID')
+  const uninvoiced = roundCurrency(
+    charges.filter((charge) => !charge.invoiceId).reduce((sum, charge) => sum + charge.amount, 0)
+  )
+  const invoicedBalance = roundCurrency(openInvoices.reduce((sum, invoice) => sum + invoice.balance, 0))
+
+  const outstandingLops = await prisma.lop.findMany({
+    where: {
+      patientId: case_.patientId,
+      status: { in: ['REQUESTED', 'RECEIVED'] },
+      OR: [
+        ...(case_.attorneyId ? [{ attorneyId: case_.attorneyId }] : []),
+        { procedures: { some: { caseId: case_.id } } },
+      ],
+    },
+    orderBy: { requestedDate: 'asc' },
+    select: {
+      id: true,
+      status: true,
+      requestedDate: true,
+      receivedDate: true,
+      amount: true,
+    },
+  })
+
+  return {
+    totalCharges: roundCurrency(charges.reduce((sum, charge) => sum + charge.amount, 0)),
+    invoiced: roundCurrency(openInvoices.reduce((sum, invoice) => sum + invoice.subtotal, 0)),
+    paid: roundCurrency(openInvoices.reduce((sum, invoice) => sum + invoice.paymentTotal, 0)),
+    reduced: roundCurrency(openInvoices.reduce((sum, invoice) => sum + invoice.reductionTotal, 0)),
+    uninvoiced,
+    balance: roundCurrency(invoicedBalance + uninvoiced),
+    outstandingLops,
+    proceduresWithoutLop: case_.procedures.filter((procedure) => !isLopReceived(procedure.lop)).length,
+    reportsPending: case_.procedures
+      .filter((procedure) => procedure.isCompleted && !procedure.reportDeliveredAt)
+      .map((procedure) => procedure.id),
+  }
+}
+
+export type CaseSummary = Awaited<ReturnType<typeof buildCaseSummary>>
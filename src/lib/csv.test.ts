@@ -0,0 +1,28 @@
+import { describe, expect, it } from 'vitest'
+import { escapeCsvValue, toCsv } from '@/lib/csv'
+
+describe('escapeCsvValue', () => {
+  it('quotes values with commas, quotes or line breaks', () => {
+    expect(escapeCsvValue('Smith, John')).toBe('"Smith, John"')
+    expect(escapeCsvValue('5" cut')).toBe('"5"" cut"')
+    expect(escapeCsvValue('two\nlines')).toBe('"two\nlines"')
+    expect(escapeCsvValue(null)).toBe('')
+  })
+
+  it('stops text from being read as a formula', () => {
+    expect(escapeCsvValue('=HYPERLINK("http://x")')).toBe(`"'=HYPERLINK(""http://x"")"`)
+    expect(escapeCsvValue('+1 555')).toBe("'+1 555")
+    expect(escapeCsvValue('-2')).toBe("'-2")
+    expect(escapeCsvValue('@SUM(A1)')).toBe("'@SUM(A1)")
+  })
+
+  it('leaves numbers alone', () => {
+    expect(escapeCsvValue(-12.5)).toBe('-12.5')
+  })
+})
+
+describe('toCsv', () => {
+  it('joins cells with commas and rows with newlines', () => {
+    expect(toCsv([['Name', 'Total'], ['Ann', 3]])).toBe('Name,Total\nAnn,3')
+  })
+})
@@ -0,0 +1,17 @@
+// Spreadsheet apps run a cell that starts with one of these as a formula, so
+// text from users (names, notes, audit summaries) could execute on export
+const FORMULA_START = /^[=+\-@\t\r]/
+
+// Strings are written as they are, anything else as JSON
+export function escapeCsvValue(value: unknown) {
+  if (value === null || value === undefined) return ''
+  let text = typeof value === 'string' ? value : JSON.stringify(value)
+  if (typeof value === 'string' && FORMULA_START.test(text)) {
+    text = `'${text}`
+  }
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text
+}
+
+export function toCsv(rows: unknown[][]) {
+  return rows.map((row) => row.map(escapeCsvValue).join(',')).join('\n')
+}
@@ -0,0 +1,285 @@
+import type { Prisma, Provider } from '@prisma/client'
+import type { Session } from 'next-auth'
+import { randomBytes } from 'crypto'
+import bcrypt from 'bcryptjs'
+import { prisma } from '@/lib/prisma'
+import { sendInvitation } from '@/lib/password-reset'
+import { findPossibleDuplicates } from '@/lib/patient-duplicates'
+import { notifyReferralSubmitted } from '@/lib/notifications'
+import { recordAudit } from '@/lib/audit'
+import { applyPatientTaskRules } from '@/lib/task-rules'
+import { referralSchema } from '@/lib/validations'
+
+// Referred patients start here until the office books their exams
+export const REFERRED_STATUS = { name: 'Referred', color: '#0891b2' } as const
+
+export class DoctorPortalError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'DoctorPortalError'
+  }
+}
+
+export interface PortalDoctor {
+  id: string
+  name: string
+}
+
+// DOCTOR logins are matched to their Provider record by email, as in getRecordScope
+export async function resolvePortalDoctor(session: Session): Promise<PortalDoctor | null> {
+  if (!session.user.email) return null
+
+  // A deactivated provider keeps no portal access, even if a login survived
+  return prisma.provider.findFirst({
+    where: { email: session.user.email, status: 'Active' },
+    select: { id: true, name: true },
+  })
+}
+
+// Creates the DOCTOR login behind Provider.hasLogin and emails an invitation to
+// choose a password. A doctor who already chose one keeps their login; one who
+// never did (the invitation expired or failed to send) is invited again when
+// `resend` is set.
+export async function provisionDoctorLogin(
+  doctor: Pick<Provider, 'name' | 'email'>,
+  { resend = true }: { resend?: boolean } = {}
+) {
+  if (!doctor.email) {
+    throw new DoctorPortalError('Add an email address before inviting the provider to the referral portal')
+  }
+  const email = doctor.email
+
+  const existing = await prisma.user.findUnique({ where: { email } })
+  if (existing) {
+    if (existing.role !== 'DOCTOR') {
+      throw new DoctorPortalError(`${email} already signs in as a different kind of user`)
+    }
+    if (resend && !existing.passwordChangedAt) {
+      await sendInvitation(existing, 'referral portal')
+      return { user: existing, invited: true }
+    }
+    return { user: existing, invited: false }
+  }
+
+  // Unusable until the doctor picks a password from the invitation
+  const now = new Date()
+  const user = await prisma.user.create({
+    data: {
+      email,
+      name: doctor.name,
+      role: 'DOCTOR',
+      password: await bcrypt.hash(randomBytes(32).toString('hex'), 10),
+      createdAt: now,
+      updatedAt: now,
+    },
+  })
+
+  await sendInvitation(user, 'referral portal')
+  return { user, invited: true }
+}
+
+// Removing the login also ends its sessions, which cascade with the user
+export async function revokeDoctorLogin(doctor: Pick<Provider, 'email'>) {
+  if (!doctor.email) return
+
+  await prisma.user.deleteMany({
+    where: { email: doctor.email, role: 'DOCTOR' },
+  })
+}
+
+// Brings the login in line with Provider.hasLogin after a create or edit
+export async function syncDoctorLogin(
+  doctor: Pick<Provider, 'name' | 'email' | 'hasLogin'>,
+  options?: { resend?: boolean }
+) {
+  if (doctor.hasLogin) {
+    return provisionDoctorLogin(doctor, options)
+  }
+  await revokeDoctorLogin(doctor)
+  return { user: null, invited: false }
+}
+
+const referredPatientSelect = {
+  id: true,
+  firstName: true,
+  lastName: true,
+  dateOfBirth: true,
+  status: {
+    select: {
+      name: true,
+      color: true,
+    },
+  },
+  procedures: {
+    select: {
+      id: true,
+      scheduleDate: true,
+      scheduleTime: true,
+      isCompleted: true,
+      reportDeliveredAt: true,
+      exam: {
+        select: {
+          name: true,
+        },
+      },
+      facility: {
+        select: {
+          name: true,
+        },
+      },
+      status: {
+        select: {
+          name: true,
+          color: true,
+        },
+      },
+    },
+    orderBy: {
+      scheduleDate: 'desc',
+    },
+  },
+  referrals: {
+    select: {
+      id: true,
+      doctorId: true,
+      examIds: true,
+      notes: true,
+      createdAt: true,
+    },
+    orderBy: {
+      createdAt: 'desc',
+    },
+  },
+} satisfies Prisma.PatientSelect
+
+type ReferredPatientRecord = Prisma.PatientGetPayload<{ select: typeof referredPatientSelect }>
+
+// As in the attorney portal, results are released once a procedure is completed
+function toReferredPatient(patient: ReferredPatientRecord, doctor: PortalDoctor, examNames: Map<string, string>) {
+  return {
+    ...patient,
+    procedures: patient.procedures.map((procedure) => ({
+      ...procedure,
+      reportAvailable: procedure.isCompleted,
+    })),
+    referrals: patient.referrals
+      .filter((referral) => referral.doctorId === doctor.id)
+      .map(({ examIds, ...referral }) => ({
+        ...referral,
+        exams: examIds.map((id) => examNames.get(id) ?? 'Unknown exam'),
+      })),
+  }
+}
+
+export type ReferredPatient = ReturnType<typeof toReferredPatient>
+
+async function examNamesFor(patients: ReferredPatientRecord[]) {
+  const ids = [...new Set(patients.flatMap((patient) => patient.referrals.flatMap((referral) => referral.examIds)))]
+  const exams = ids.length
+    ? await prisma.exam.findMany({ where: { id: { in: ids } }, select: { id: true, name: true } })
+    : []
+  return new Map(exams.map((exam) => [exam.id, exam.name]))
+}
+
+export async function getReferredPatients(doctor: PortalDoctor) {
+  const patients = await prisma.patient.findMany({
+    where: { referringDoctorId: doctor.id },
+    select: referredPatientSelect,
+    orderBy: { createdAt: 'desc' },
+  })
+
+  const examNames = await examNamesFor(patients)
+  return patients.map((patient) => toReferredPatient(patient, doctor, examNames))
+}
+
+// Every referral opens a new patient record. Matching it to an existing one
+// is left to the office, which is told when a duplicate looks likely.
+export async function submitReferral(session: Session, doctor: PortalDoctor, body: unknown, request?: Request) {
+  const validation = referralSchema.safeParse(body)
+  if (!validation.success) {
+    throw new DoctorPortalError(validation.error.issues[0]?.message ?? 'Invalid referral')
+  }
+  const input = validation.data
+
+  const examIds = [...new Set(input.examIds)]
+  const exams = await prisma.exam.findMany({
+    where: { id: { in: examIds } },
+    select: { id: true, name: true },
+  })
+  if (exams.length !== examIds.length) {
+    throw new DoctorPortalError('Choose exams from the list')
+  }
+
+  const now = new Date()
+  const status = await prisma.status.upsert({
+    where: { name: REFERRED_STATUS.name },
+    update: {},
+    create: { ...REFERRED_STATUS, createdAt: now, updatedAt: now },
+  })
+
+  const duplicates = await findPossibleDuplicates({
+    firstName: input.firstName,
+    lastName: input.lastName,
+    dateOfBirth: input.dateOfBirth,
+    phone: input.phone,
+  })
+
+  const { patient, referral } = await prisma.$transaction(async (tx) => {
+    const patient = await tx.patient.create({
+      data: {
+        firstName: input.firstName,
+        lastName: input.lastName,
+        dateOfBirth: new Date(input.dateOfBirth),
+        phone: input.phone,
+        email: input.email || null,
+        gender: input.gender || null,
+        address: input.address || null,
+        city: input.city || null,
+        zip: input.zip || null,
+        orderDate: now,
+        statusId: status.id,
+        referringDoctorId: doctor.id,
+        createdAt: now,
+        updatedAt: now,
+      },
+    })
+
+    const referral = await tx.referral.create({
+      data: {
+        doctorId: doctor.id,
+        patientId: patient.id,
+        examIds,
+        notes: input.notes || null,
+        submittedById: session.user.id,
+      },
+    })
+
+    return { patient, referral }
+  })
+
+  await recordAudit(session, {
+    action: 'CREATE',
+    entityType: 'Patient',
+    entityId: patient.id,
+    patientId: patient.id,
+    summary: `Referral from ${doctor.name}`,
+    details: {
+      portal: 'doctor',
+      doctorId: doctor.id,
+      referralId: referral.id,
+      exams: exams.map((exam) => exam.name),
+      possibleDuplicates: duplicates.length,
+    },
+  }, request)
+
+  await notifyReferralSubmitted(
+    session,
+    doctor.name,
+    patient,
+    exams.map((exam) => exam.name),
+    duplicates.length > 0
+  )
+  await applyPatientTaskRules(session, null, patient)
+
+  return patient
+}
@@ -0,0 +1,46 @@
+import { prisma } from '@/lib/prisma'
+import { normalizeZip, toStateCode } from '@/lib/us-states'
+
+// ZIP and city lookups against the ZipCode collection, which
+// `npm run load:zipcodes` fills from the GeoNames file in prisma/data rather
+// than calling out to a third-party API
+
+export class GeoError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'GeoError'
+  }
+}
+
+const CITY_SUGGESTIONS = 10
+
+export async function findZipCode(value: string) {
+  const zip = normalizeZip(value)
+  if (!zip) {
+    throw new GeoError('Enter a 5-digit ZIP code')
+  }
+
+  return prisma.zipCode.findUnique({
+    where: { zip },
+    select: { zip: true, city: true, state: true, county: true, latitude: true, longitude: true },
+  })
+}
+
+// Distinct city and state pairs starting with the query, for address autocomplete
+export async function searchCities(query: string, state?: string | null) {
+  const text = query.trim()
+  if (text.length < 2) return []
+
+  const stateCode = state ? toStateCode(state) : null
+  const places = await prisma.zipCode.findMany({
+    where: {
+      city: { startsWith: text, mode: 'insensitive' },
+      ...(stateCode && { state: stateCode }),
+    },
+    select: { city: true, state: true },
+    distinct: ['city', 'state'],
+    orderBy: [{ city: 'asc' }, { state: 'asc' }],
+    take: CITY_SUGGESTIONS,
+  })
+  return places
+}
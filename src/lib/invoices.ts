@@ -0,0 +1,233 @@
+import { format } from 'date-fns'
+import { PDFDocument, PDFFont, StandardFonts, rgb } from 'pdf-lib'
+import type { InvoiceWithDetails } from '@/lib/billing'
+import { toCsv } from '@/lib/csv'
+import { escapeHtml } from '@/lib/utils'
+
+const PRACTICE_NAME = 'Gulf Coast Medical'
+
+function formatCurrency(value: number) {
+  return `$${value.toFixed(2)}`
+}
+
+function formatDay(date: Date | string | null) {
+  return date ? format(new Date(date), 'MM/dd/yyyy') : ''
+}
+
+function patientName(invoice: InvoiceWithDetails) {
+  return `${invoice.patient.firstName} ${invoice.patient.lastName}`
+}
+
+export function invoiceToCsv(invoice: InvoiceWithDetails) {
+  return toCsv([
+    ['Invoice', 'Service Date', 'Description', 'Amount'],
+    ...invoice.charges.map((charge) => [
+      invoice.invoiceNumber,
+      formatDay(charge.serviceDate),
+      charge.description,
+      charge.amount.toFixed(2),
+    ]),
+    ...invoice.reductions.map((reduction) => [
+      invoice.invoiceNumber,
+      formatDay(reduction.date),
+      `Reduction: ${reduction.reason}`,
+      (-reduction.amount).toFixed(2),
+    ]),
+    ...invoice.payments.map((payment) => [
+      invoice.invoiceNumber,
+      formatDay(payment.receivedDate),
+      `Payment (${payment.method}${payment.reference ? ` #${payment.reference}` : ''})`,
+      (-payment.amount).toFixed(2),
+    ]),
+    [invoice.invoiceNumber, '', 'Balance', invoice.balance.toFixed(2)],
+  ])
+}
+
+export function invoicesToCsv(invoices: InvoiceWithDetails[]) {
+  return toCsv([
+    ['Invoice', 'Issue Date', 'Patient', 'Attorney', 'Case', 'Status', 'Subtotal', 'Reductions', 'Payments', 'Balance'],
+    ...invoices.map((invoice) => [
+      invoice.invoiceNumber,
+      formatDay(invoice.issueDate),
+      patientName(invoice),
+      invoice.attorney?.user.name,
+      invoice.case?.caseNumber,
+      invoice.status,
+      invoice.subtotal.toFixed(2),
+      invoice.reductionTotal.toFixed(2),
+      invoice.paymentTotal.toFixed(2),
+      invoice.balance.toFixed(2),
+    ]),
+  ])
+}
+
+export function renderInvoiceHtml(invoice: InvoiceWithDetails) {
+  const lineRows = invoice.charges
+    .map(
+      (charge) => `
+        <tr>
+          <td>${formatDay(charge.serviceDate)}</td>
+          <td>${escapeHtml(charge.description)}</td>
+          <td class="amount">${formatCurrency(charge.amount)}</td>
+        </tr>`
+    )
+    .join('')
+
+  const adjustmentRows = [
+    ...invoice.reductions.map(
+      (reduction) => `
+        <tr>
+          <td>${formatDay(reduction.date)}</td>
+          <td>Reduction: ${escapeHtml(reduction.reason)}</td>
+          <td class="amount">-${formatCurrency(reduction.amount)}</td>
+        </tr>`
+    ),
+    ...invoice.payments.map(
+      (payment) => `
+        <tr>
+          <td>${formatDay(payment.receivedDate)}</td>
+          <td>Payment received (${escapeHtml(payment.method)}${payment.reference ? ` #${escapeHtml(payment.reference)}` : ''})</td>
+          <td class="amount">-${formatCurrency(payment.amount)}</td>
+        </tr>`
+    ),
+  ].join('')
+
+  const attorney = invoice.attorney
+    ? `<p><strong>Attorney:</strong> ${escapeHtml(invoice.attorney.user.name)}<br />
+        ${escapeHtml(invoice.attorney.address)}<br />
+        ${escapeHtml(invoice.attorney.city)}, ${escapeHtml(invoice.attorney.state)} ${escapeHtml(invoice.attorney.zip)}</p>`
+    : ''
+
+  return `<!DOCTYPE html>
+<html>
+<head>
+  <meta charset="utf-8" />
+  <title>Invoice ${escapeHtml(invoice.invoiceNumber)}</title>
+  <style>
+    body { font-family: Helvetica, Arial, sans-serif; color: #111827; margin: 40px; }
+    h1 { color: #4f46e5; margin-bottom: 0; }
+    .meta { display: flex; justify-content: space-between; margin: 24px 0; }
+    table { width: 100%; border-collapse: collapse; margin-top: 16px; }
+    th, td { padding: 8px; border-bottom: 1px solid #e5e7eb; text-align: left; font-size: 14px; }
+    th { background: #f9fafb; text-transform: uppercase; font-size: 12px; color: #6b7280; }
+    .amount { text-align: right; }
+    .totals td { border: none; }
+    .balance td { font-weight: bold; font-size: 16px; }
+    @media print { body { margin: 0; } .no-print { display: none; } }
+  </style>
+</head>
+<body>
+  <button class="no-print" onclick="window.print()">Print / Save as PDF</button>
+  <h1>${PRACTICE_NAME}</h1>
+  <p>Invoice <strong>${escapeHtml(invoice.invoiceNumber)}</strong> &middot; ${escapeHtml(invoice.status)}</p>
+  <div class="meta">
+    <div>
+      <p><strong>Patient:</strong> ${escapeHtml(patientName(invoice))}<br />
+        DOB: ${formatDay(invoice.patient.dateOfBirth)}</p>
+      ${attorney}
+    </div>
+    <div>
+      <p><strong>Issued:</strong> ${formatDay(invoice.issueDate)}<br />
+        ${invoice.dueDate ? `<strong>Due:</strong> ${formatDay(invoice.dueDate)}<br />` : ''}
+        ${invoice.case ? `<strong>Case:</strong> ${escapeHtml(invoice.case.caseNumber)}` : ''}</p>
+    </div>
+  </div>
+  <table>
+    <thead>
+      <tr><th>Date</th><th>Description</th><th class="amount">Amount</th></tr>
+    </thead>
+    <tbody>
+      ${lineRows}
+      ${adjustmentRows}
+    </tbody>
+    <tfoot>
+      <tr class="totals"><td></td><td class="amount">Subtotal</td><td class="amount">${formatCurrency(invoice.subtotal)}</td></tr>
+      <tr class="totals"><td></td><td class="amount">Reductions</td><td class="amount">-${formatCurrency(invoice.reductionTotal)}</td></tr>
+      <tr class="totals"><td></td><td class="amount">Payments</td><td class="amount">-${formatCurrency(invoice.paymentTotal)}</td></tr>
+      <tr class="totals balance"><td></td><td class="amount">Balance Due</td><td class="amount">${formatCurrency(invoice.balance)}</td></tr>
+    </tfoot>
+  </table>
+  ${invoice.notes ? `<p><strong>Notes:</strong> ${escapeHtml(invoice.notes)}</p>` : ''}
+</body>
+</html>`
+}
+
+export async function renderInvoicePdf(invoice: InvoiceWithDetails) {
+  const pdf = await PDFDocument.create()
+  const font = await pdf.embedFont(StandardFonts.Helvetica)
+  const bold = await pdf.embedFont(StandardFonts.HelveticaBold)
+
+  let page = pdf.addPage([612, 792])
+  let y = 740
+  const left = 50
+  const right = 562
+
+  const text = (value: string, x: number, options: { font?: PDFFont; size?: number } = {}) => {
+    page.drawText(value, { x, y, size: options.size ?? 10, font: options.font ?? font, color: rgb(0.07, 0.09, 0.15) })
+  }
+  const textRight = (value: string, x: number, options: { font?: PDFFont; size?: number } = {}) => {
+    const width = (options.font ?? font).widthOfTextAtSize(value, options.size ?? 10)
+    text(value, x - width, options)
+  }
+  const nextLine = (height = 16) => {
+    y -= height
+    if (y < 60) {
+      page = pdf.addPage([612, 792])
+      y = 740
+    }
+  }
+
+  text(PRACTICE_NAME, left, { font: bold, size: 18 })
+  nextLine(24)
+  text(`Invoice ${invoice.invoiceNumber} (${invoice.status})`, left, { size: 12 })
+  nextLine(24)
+  text(`Patient: ${patientName(invoice)}`, left)
+  textRight(`Issued: ${formatDay(invoice.issueDate)}`, right)
+  nextLine()
+  text(`DOB: ${formatDay(invoice.patient.dateOfBirth)}`, left)
+  if (invoice.dueDate) textRight(`Due: ${formatDay(invoice.dueDate)}`, right)
+  nextLine()
+  if (invoice.attorney) text(`Attorney: ${invoice.attorney.user.name}`, left)
+  if (invoice.case) textRight(`Case: ${invoice.case.caseNumber}`, right)
+  nextLine(28)
+
+  text('Date', left, { font: bold })
+  text('Description', left + 90, { font: bold })
+  textRight('Amount', right, { font: bold })
+  nextLine()
+
+  for (const charge of invoice.charges) {
+    text(formatDay(charge.serviceDate), left)
+    text(charge.description.slice(0, 70), left + 90)
+    textRight(formatCurrency(charge.amount), right)
+    nextLine()
+  }
+  for (const reduction of invoice.reductions) {
+    text(formatDay(reduction.date), left)
+    text(`Reduction: ${reduction.reason}`.slice(0, 70), left + 90)
+    textRight(`-${formatCurrency(reduction.amount)}`, right)
+    nextLine()
+  }
+  for (const payment of invoice.payments) {
+    text(formatDay(payment.receivedDate), left)
+    text(`Payment received (${payment.method})`, left + 90)
+    textRight(`-${formatCurrency(payment.amount)}`, right)
+    nextLine()
+  }
+
+  nextLine(12)
+  const totals: [string, string][] = [
+    ['Subtotal', formatCurrency(invoice.subtotal)],
+    ['Reductions', `-${formatCurrency(invoice.reductionTotal)}`],
+    ['Payments', `-${formatCurrency(invoice.paymentTotal)}`],
+  ]
+  for (const [label, value] of totals) {
+    textRight(label, right - 100)
+    textRight(value, right)
+    nextLine()
+  }
+  textRight('Balance Due', right - 100, { font: bold, size: 12 })
+  textRight(formatCurrency(invoice.balance), right, { font: bold, size: 12 })
+
+  return pdf.save()
+}
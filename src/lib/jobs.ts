@@ -0,0 +1,56 @@
+import { sendDueReminders } from '@/lib/reminders'
+import { runNpiReconciliation } from '@/lib/reports'
+
+export interface Job {
+  name: string
+  description: string
+  run(now: Date): Promise<Record<string, number>>
+}
+
+export interface JobRun {
+  name: string
+  ok: boolean
+  durationMs: number
+  result?: Record<string, number>
+  error?: string
+}
+
+// Every background job the app knows about. They are triggered by calling
+// /api/jobs/run from a scheduler (see vercel.json), so each run must be safe
+// to repeat.
+export const jobs: Job[] = [
+  {
+    name: 'procedure-reminders',
+    description: 'Sends appointment reminders 48 hours and 2 hours before each procedure',
+    run: sendDueReminders,
+  },
+  {
+    name: 'npi-reconciliation',
+    description: 'Weekly report of active providers whose NPI is deactivated or missing from the NPPES registry',
+    run: runNpiReconciliation,
+  },
+]
+
+export async function runJobs(names?: string[], now = new Date()): Promise<JobRun[]> {
+  const selected = names?.length ? jobs.filter((job) => names.includes(job.name)) : jobs
+  const runs: JobRun[] = []
+
+  // Jobs run one after another so a slow provider cannot overlap a run with itself
+  for (const job of selected) {
+    const startedAt = Date.now()
+    try {
+      const result = await job.run(now)
+      runs.push({ name: job.name, ok: true, durationMs: Date.now() - startedAt, result })
+    } catch (error) {
+      console.error(`[JOB_${job.name}]`, error)
+      runs.push({
+        name: job.name,
+        ok: false,
+        durationMs: Date.now() - startedAt,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      })
+    }
+  }
+
+  return runs
+}
@@ -0,0 +1,117 @@
+import type { Prisma } from '@prisma/client'
+
+export const LOP_STATUSES = ['REQUESTED', 'RECEIVED', 'SIGNED', 'REVOKED'] as const
+
+export type LopStatus = (typeof LOP_STATUSES)[number]
+
+export const lopInclude = {
+  attorney: {
+    select: {
+      id: true,
+      user: {
+        select: {
+          name: true,
+        },
+      },
+    },
+  },
+  procedures: {
+    select: {
+      id: true,
+      scheduleDate: true,
+      scheduleTime: true,
+      isCompleted: true,
+      exam: {
+        select: {
+          id: true,
+          name: true,
+        },
+      },
+    },
+  },
+} satisfies Prisma.LopInclude
+
+export interface LopDates {
+  requestedDate?: Date | null
+  receivedDate?: Date | null
+  signedDate?: Date | null
+}
+
+export interface LopInput extends LopDates {
+  attorneyId?: string | null
+  status?: LopStatus
+  amount?: number | null
+  notes?: string | null
+  procedureIds?: string[]
+}
+
+// The lifecycle follows the recorded dates unless the LOP has been revoked
+export function deriveLopStatus(dates: LopDates, requested?: LopStatus): LopStatus {
+  if (requested === 'REVOKED') return 'REVOKED'
+  if (dates.signedDate) return 'SIGNED'
+  if (dates.receivedDate) return 'RECEIVED'
+  return 'REQUESTED'
+}
+
+export function isLopReceived(lop: { status: string } | null | undefined) {
+  return lop?.status === 'RECEIVED' || lop?.status === 'SIGNED'
+}
+
+// Procedures that went on the schedule before the attorney's LOP came back
+export function procedureNeedsLop(procedure: { lop?: { status: string } | null }) {
+  return !isLopReceived(procedure.lop)
+}
+
+function parseOptionalDate(value: unknown, field: string) {
+  if (value === undefined) return undefined
+  if (value === null || value === '') return null
+  const date = new Date(value as string)
+  if (isNaN(date.getTime())) {
+    throw new Error(`Invalid ${field}`)
+  }
+  return date
+}
+
+export function parseLopInput(body: Record<string, unknown>): LopInput {
+  const input: LopInput = {
+    requestedDate: parseOptionalDate(body.requestedDate, 'requested date'),
+    receivedDate: parseOptionalDate(body.receivedDate, 'received date'),
+    signedDate: parseOptionalDate(body.signedDate, 'signed date'),
+  }
+
+  if (body.status !== undefined) {
+    if (!LOP_STATUSES.includes(body.status as LopStatus)) {
+      throw new Error(`Status must be one of ${LOP_STATUSES.join(', ')}`)
+    }
+    input.status = body.status as LopStatus
+  }
+
+  if (body.attorneyId !== undefined) {
+    input.attorneyId = (body.attorneyId as string) || null
+  }
+
+  if (body.amount !== undefined) {
+    if (body.amount === null || body.amount === '') {
+      input.amount = null
+    } else {
+      const amount = Number(body.amount)
+      if (isNaN(amount) || amount < 0) {
+        throw new Error('Amount must be a positive number')
+      }
+      input.amount = amount
+    }
+  }
+
+  if (body.notes !== undefined) {
+    input.notes = (body.notes as string)?.trim() || null
+  }
+
+  if (body.procedureIds !== undefined) {
+    if (!Array.isArray(body.procedureIds)) {
+      throw new Error('Procedure IDs must be an array')
+    }
+    input.procedureIds = body.procedureIds as string[]
+  }
+
+  return input
+}
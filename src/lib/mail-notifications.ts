@@ -0,0 +1,83 @@
+import { prisma } from '@/lib/prisma'
+import { appUrl, trySendMail } from '@/lib/mail'
+import { appointmentConfirmationEmail, attorneyStatusUpdateEmail } from '@/lib/mail-templates'
+
+// Sends each patient with an email address a confirmation for their newly
+// scheduled procedures
+export async function sendProcedureConfirmations(procedureIds: string[]) {
+  if (procedureIds.length === 0) return
+
+  try {
+    const procedures = await prisma.procedure.findMany({
+      where: { id: { in: procedureIds } },
+      include: {
+        patient: true,
+        exam: true,
+        facility: true,
+      },
+    })
+
+    for (const procedure of procedures) {
+      if (!procedure.patient.email) continue
+
+      await trySendMail({
+        to: procedure.patient.email,
+        ...appointmentConfirmationEmail({
+          patientName: `${procedure.patient.firstName} ${procedure.patient.lastName}`,
+          examName: procedure.exam.name,
+          date: procedure.scheduleDate,
+          time: procedure.scheduleTime,
+          facility: procedure.facility,
+        }),
+      })
+    }
+  } catch (error) {
+    console.error('[MAIL_PROCEDURE_CONFIRMATIONS]', error)
+  }
+}
+
+// Tells the attorneys representing a patient that the patient's status moved.
+// Attorneys are matched the same way the portal scopes them: by the name on
+// the patient record or through an LOP.
+export async function notifyAttorneysOfStatusChange(patientId: string, previousStatusId: string | null | undefined) {
+  try {
+    const patient = await prisma.patient.findUnique({
+      where: { id: patientId },
+      include: { status: true },
+    })
+    if (!patient || !patient.status || patient.statusId === previousStatusId) return
+
+    const previousStatus = previousStatusId
+      ? await prisma.status.findUnique({ where: { id: previousStatusId } })
+      : null
+
+    const lawyerName = typeof patient.lawyer === 'string' ? patient.lawyer.trim() : ''
+    const attorneys = await prisma.attorney.findMany({
+      where: {
+        OR: [
+          ...(lawyerName ? [{ user: { name: lawyerName } }] : []),
+          { lops: { some: { patientId } } },
+        ],
+      },
+      include: { user: true },
+    })
+
+    for (const attorney of attorneys) {
+      const email = attorney.email || attorney.user.email
+      if (!email) continue
+
+      await trySendMail({
+        to: email,
+        ...attorneyStatusUpdateEmail({
+          attorneyName: attorney.user.name,
+          patientName: `${patient.firstName} ${patient.lastName}`,
+          previousStatus: previousStatus?.name,
+          status: patient.status.name,
+          portalUrl: appUrl('/portal'),
+        }),
+      })
+    }
+  } catch (error) {
+    console.error('[MAIL_ATTORNEY_STATUS]', error)
+  }
+}
@@ -0,0 +1,146 @@
+import { format } from 'date-fns'
+import type { MailMessage } from '@/lib/mail'
+import { escapeHtml } from '@/lib/utils'
+
+export type MailContent = Omit<MailMessage, 'to'>
+
+const PRACTICE_NAME = 'Gulf Coast Medical'
+
+interface TemplateParts {
+  subject: string
+  greeting: string
+  paragraphs: string[]
+  details?: [string, string][]
+  action?: { label: string; url: string }
+  footer?: string
+}
+
+// Every message shares one layout and is sent as both HTML and plain text
+function render({ subject, greeting, paragraphs, details = [], action, footer }: TemplateParts): MailContent {
+  const text = [
+    greeting,
+    '',
+    ...paragraphs.flatMap((paragraph) => [paragraph, '']),
+    ...details.map(([label, value]) => `${label}: ${value}`),
+    ...(details.length ? [''] : []),
+    ...(action ? [`${action.label}: ${action.url}`, ''] : []),
+    ...(footer ? [footer, ''] : []),
+    PRACTICE_NAME,
+  ].join('\n')
+
+  const html = `<!DOCTYPE html>
+<html>
+  <body style="margin:0;padding:24px;background:#f9fafb;font-family:Arial,sans-serif;color:#111827;">
+    <div style="max-width:560px;margin:0 auto;background:#ffffff;border-radius:12px;overflow:hidden;">
+      <div style="background:#4f46e5;color:#ffffff;padding:20px 24px;font-size:18px;font-weight:bold;">${PRACTICE_NAME}</div>
+      <div style="padding:24px;font-size:14px;line-height:1.6;">
+        <p>${escapeHtml(greeting)}</p>
+        ${paragraphs.map((paragraph) => `<p>${escapeHtml(paragraph)}</p>`).join('\n        ')}
+        ${details.length ? `<table style="border-collapse:collapse;margin:16px 0;">${details
+          .map(([label, value]) => `<tr><td style="padding:4px 16px 4px 0;color:#6b7280;">${escapeHtml(label)}</td><td style="padding:4px 0;font-weight:bold;">${escapeHtml(value)}</td></tr>`)
+          .join('')}</table>` : ''}
+        ${action ? `<p style="margin:24px 0;"><a href="${escapeHtml(action.url)}" style="background:#4f46e5;color:#ffffff;padding:10px 20px;border-radius:8px;text-decoration:none;">${escapeHtml(action.label)}</a></p>` : ''}
+        ${footer ? `<p style="color:#6b7280;font-size:12px;">${escapeHtml(footer)}</p>` : ''}
+      </div>
+    </div>
+  </body>
+</html>`
+
+  return { subject, text, html }
+}
+
+export function passwordResetEmail({ name, resetUrl, expiresInMinutes }: {
+  name: string
+  resetUrl: string
+  expiresInMinutes: number
+}) {
+  return render({
+    subject: 'Reset your password',
+    greeting: `Hello ${name},`,
+    paragraphs: ['We received a request to reset the password for your account.'],
+    action: { label: 'Choose a new password', url: resetUrl },
+    footer: `This link expires in ${expiresInMinutes} minutes. If you did not ask to reset your password, you can ignore this email.`,
+  })
+}
+
+export function invitationEmail({ name, portalName, setPasswordUrl, expiresInDays }: {
+  name: string
+  portalName: string
+  setPasswordUrl: string
+  expiresInDays: number
+}) {
+  return render({
+    subject: `Your ${portalName} login`,
+    greeting: `Hello ${name},`,
+    paragraphs: [`An account has been created for you in the ${PRACTICE_NAME} ${portalName}. Choose a password to sign in.`],
+    action: { label: 'Choose a password', url: setPasswordUrl },
+    footer: `This link expires in ${expiresInDays} days. Once it has, use "Forgot password" on the sign-in page to get a new one.`,
+  })
+}
+
+interface AppointmentDetails {
+  patientName: string
+  examName: string
+  date: Date
+  time?: string | null
+  facility?: { name: string; address?: string | null; city?: string | null } | null
+}
+
+function appointmentDetails({ examName, date, time, facility }: AppointmentDetails) {
+  const details: [string, string][] = [
+    ['Exam', examName],
+    ['Date', format(date, 'EEEE, MMMM d, yyyy')],
+  ]
+  if (time) details.push(['Time', time])
+  if (facility) {
+    details.push(['Location', [facility.name, facility.address, facility.city].filter(Boolean).join(', ')])
+  }
+  return details
+}
+
+export function appointmentConfirmationEmail(appointment: AppointmentDetails) {
+  return render({
+    subject: `Your ${appointment.examName} appointment is scheduled`,
+    greeting: `Hello ${appointment.patientName},`,
+    paragraphs: ['Your appointment has been scheduled. Please arrive 15 minutes early and bring a photo ID.'],
+    details: appointmentDetails(appointment),
+    footer: 'If you need to reschedule, please call our office.',
+  })
+}
+
+export function appointmentReminderEmail({ respondUrl, startsIn, ...appointment }: AppointmentDetails & {
+  respondUrl: string
+  startsIn: string
+}) {
+  return render({
+    subject: `Reminder: your ${appointment.examName} appointment is ${startsIn}`,
+    greeting: `Hello ${appointment.patientName},`,
+    paragraphs: [
+      `This is a reminder that your appointment is ${startsIn}.`,
+      'Please let us know whether you will be attending so we can offer the time to another patient if you cannot make it.',
+    ],
+    details: appointmentDetails(appointment),
+    action: { label: 'Confirm or cancel', url: respondUrl },
+    footer: 'Please arrive 15 minutes early and bring a photo ID.',
+  })
+}
+
+export function attorneyStatusUpdateEmail({ attorneyName, patientName, previousStatus, status, portalUrl }: {
+  attorneyName: string
+  patientName: string
+  previousStatus?: string | null
+  status: string
+  portalUrl: string
+}) {
+  const details: [string, string][] = [['Client', patientName]]
+  if (previousStatus) details.push(['Previous status', previousStatus])
+  details.push(['Current status', status])
+
+  return render({
+    subject: `Status update for ${patientName}`,
+    greeting: `Hello ${attorneyName},`,
+    paragraphs: [`The status of your client ${patientName} has changed.`],
+    details,
+    action: { label: 'Open the attorney portal', url: portalUrl },
+  })
+}
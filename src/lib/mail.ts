@@ -0,0 +1,120 @@
+import { mkdir, writeFile } from 'fs/promises'
+import path from 'path'
+import { randomUUID } from 'crypto'
+import nodemailer from 'nodemailer'
+import { API_BASE_URL } from '@/config/api'
+
+export interface MailMessage {
+  to: string
+  subject: string
+  text: string
+  html: string
+}
+
+export interface MailTransport {
+  name: string
+  send(message: MailMessage & { from: string }): Promise<void>
+}
+
+export class MailError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'MailError'
+  }
+}
+
+const MAIL_FROM = process.env.MAIL_FROM || 'Gulf Coast Medical <no-reply@gulfcoastmedical.local>'
+
+// Development mail lands next to uploads, outside of /public
+const MAIL_DIR = process.env.MAIL_DIR || path.join(process.cwd(), 'storage', 'mail')
+
+function smtpTransport(): MailTransport {
+  if (!process.env.SMTP_HOST) {
+    throw new MailError('SMTP_HOST must be set to use the smtp mail transport')
+  }
+
+  const transporter = nodemailer.createTransport({
+    host: process.env.SMTP_HOST,
+    port: Number(process.env.SMTP_PORT || 587),
+    secure: process.env.SMTP_SECURE === 'true',
+    auth: process.env.SMTP_USER
+      ? { user: process.env.SMTP_USER, pass: process.env.SMTP_PASSWORD }
+      : undefined,
+  })
+
+  return {
+    name: 'smtp',
+    async send(message) {
+      await transporter.sendMail(message)
+    },
+  }
+}
+
+// Writes each message to disk so links in it can be opened during development
+function fileTransport(): MailTransport {
+  return {
+    name: 'file',
+    async send(message) {
+      await mkdir(MAIL_DIR, { recursive: true })
+      const fileName = `${new Date().toISOString().replace(/[:.]/g, '-')}-${randomUUID()}`
+      await writeFile(path.join(MAIL_DIR, `${fileName}.json`), JSON.stringify(message, null, 2))
+      await writeFile(path.join(MAIL_DIR, `${fileName}.html`), message.html)
+    },
+  }
+}
+
+function consoleTransport(): MailTransport {
+  return {
+    name: 'console',
+    async send(message) {
+      console.log(`[MAIL] To: ${message.to}\nSubject: ${message.subject}\n\n${message.text}`)
+    },
+  }
+}
+
+let transport: MailTransport | null = null
+
+// MAIL_TRANSPORT picks the transport; without it production requires SMTP and
+// everything else falls back to the console
+export function getMailTransport() {
+  if (transport) return transport
+
+  const name = process.env.MAIL_TRANSPORT || (process.env.NODE_ENV === 'production' ? 'smtp' : 'console')
+  switch (name) {
+    case 'smtp':
+      transport = smtpTransport()
+      break
+    case 'file':
+      transport = fileTransport()
+      break
+    case 'console':
+      transport = consoleTransport()
+      break
+    default:
+      throw new MailError(`Unknown mail transport "${name}"`)
+  }
+
+  return transport
+}
+
+export async function sendMail(message: MailMessage) {
+  await getMailTransport().send({ ...message, from: MAIL_FROM })
+}
+
+// Notifications are best effort; a delivery failure is logged without failing
+// the request that triggered it
+export async function trySendMail(message: MailMessage) {
+  try {
+    await sendMail(message)
+    return true
+  } catch (error) {
+    console.error('[MAIL]', error)
+    return false
+  }
+}
+
+// Links in outgoing mail have to be absolute
+export function appUrl(pathname: string) {
+  const base = process.env.APP_URL || process.env.NEXTAUTH_URL || API_BASE_URL
+  return new URL(pathname, base).toString()
+}
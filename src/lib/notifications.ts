@@ -0,0 +1,371 @@
+import type { Prisma } from '@prisma/client'
+import type { Session } from 'next-auth'
+import { format } from 'date-fns'
+import { z } from 'zod'
+import { prisma } from '@/lib/prisma'
+import { appUrl, trySendMail } from '@/lib/mail'
+import { sendSms } from '@/lib/sms'
+import { procedureStartsAt } from '@/lib/reminders'
+import { escapeHtml } from '@/lib/utils'
+import { userSettingsSchema } from '@/lib/validations'
+
+export const NOTIFICATION_TYPES = {
+  TASK_ASSIGNED: 'A task is assigned to me',
+  TASK_MENTIONED: 'Someone mentions me in a comment',
+  TASK_COMMENTED: 'Someone comments on my task',
+  PROCEDURE_RESCHEDULED: 'A procedure for one of my patients is rescheduled',
+  REPORT_DELIVERED: 'A procedure report is delivered for my case',
+  RESCHEDULE_REQUESTED: 'A patient asks to reschedule from the patient portal',
+  REFERRAL_SUBMITTED: 'A referring doctor sends a new patient',
+  NPI_DEACTIVATED: 'A provider\'s NPI is deactivated or missing from the NPPES registry',
+  PATIENT_REGISTERED: 'A patient who signed up online may already have a record',
+} as const
+
+export type NotificationType = keyof typeof NOTIFICATION_TYPES
+
+export type NotificationChannels = z.infer<typeof userSettingsSchema.shape.notifications>
+
+// The same defaults the settings page starts from
+export const DEFAULT_NOTIFICATION_CHANNELS: NotificationChannels = {
+  email: true,
+  push: true,
+  sms: false,
+}
+
+export class NotificationError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'NotificationError'
+  }
+}
+
+export interface NotificationPreferences {
+  notifications: NotificationChannels
+  mutedTypes: NotificationType[]
+}
+
+function toPreferences(settings: { notifications: Prisma.JsonValue; mutedNotificationTypes: string[] } | null): NotificationPreferences {
+  const stored = userSettingsSchema.shape.notifications.partial().safeParse(settings?.notifications ?? {})
+  return {
+    notifications: { ...DEFAULT_NOTIFICATION_CHANNELS, ...(stored.success ? stored.data : {}) },
+    mutedTypes: (settings?.mutedNotificationTypes ?? []).filter((type): type is NotificationType => Object.hasOwn(NOTIFICATION_TYPES, type)),
+  }
+}
+
+export async function getNotificationPreferences(userId: string) {
+  const settings = await prisma.userSettings.findUnique({ where: { userId } })
+  return toPreferences(settings)
+}
+
+const preferencesSchema = z.object({
+  notifications: userSettingsSchema.shape.notifications,
+  mutedTypes: z.array(z.string()).default([]),
+})
+
+export async function updateNotificationPreferences(userId: string, body: unknown) {
+  const parsed = preferencesSchema.safeParse(body)
+  if (!parsed.success) {
+    throw new NotificationError('Notification preferences need email, push and sms switches')
+  }
+
+  const unknownType = parsed.data.mutedTypes.find((type) => !Object.hasOwn(NOTIFICATION_TYPES, type))
+  if (unknownType) {
+    throw new NotificationError(`Unknown notification type "${unknownType}"`)
+  }
+
+  const data = {
+    notifications: parsed.data.notifications,
+    mutedNotificationTypes: [...new Set(parsed.data.mutedTypes)],
+  }
+  const settings = await prisma.userSettings.upsert({
+    where: { userId },
+    create: { userId, ...data },
+    update: data,
+  })
+  return toPreferences(settings)
+}
+
+export interface NotificationInput {
+  type: NotificationType
+  title: string
+  body: string
+  link?: string
+}
+
+// Attorneys and case managers only ever reach the portal, so links into the
+// dashboard send them there instead
+const PORTAL_ROLES = ['ATTORNEY', 'CASE_MANAGER']
+
+function linkFor(role: string, link: string | undefined) {
+  return link && PORTAL_ROLES.includes(role) ? '/portal' : link
+}
+
+async function deliver(userIds: string[], input: NotificationInput) {
+  const users = await prisma.user.findMany({
+    where: { id: { in: userIds } },
+    select: { id: true, email: true, phone: true, role: true, settings: true },
+  })
+  const recipients = users
+    .map((user) => ({ ...user, preferences: toPreferences(user.settings) }))
+    .filter((user) => !user.preferences.mutedTypes.includes(input.type))
+  if (recipients.length === 0) return
+
+  await prisma.notification.createMany({
+    data: recipients.map((user) => ({
+      userId: user.id,
+      type: input.type,
+      title: input.title,
+      body: input.body,
+      link: linkFor(user.role, input.link) ?? null,
+    })),
+  })
+
+  // Push is shown by the bell in the browser; email and SMS go out from here
+  for (const user of recipients) {
+    if (user.preferences.notifications.email) {
+      const link = linkFor(user.role, input.link)
+      const url = link ? appUrl(link) : appUrl('/notifications')
+      await trySendMail({
+        to: user.email,
+        subject: input.title,
+        text: `${input.body}\n\n${url}`,
+        html: `<p>${escapeHtml(input.body)}</p><p><a href="${escapeHtml(url)}">Open in Gulf Coast</a></p>`,
+      })
+    }
+    if (user.preferences.notifications.sms && user.phone) {
+      try {
+        await sendSms({ to: user.phone, body: `${input.title}: ${input.body}` })
+      } catch (error) {
+        console.error('[SMS]', error)
+      }
+    }
+  }
+}
+
+// Nobody is told about their own change. Like audit writes, notifications
+// never fail the request that triggered them.
+export async function notifyUsers(
+  session: Session | null,
+  userIds: Array<string | null | undefined>,
+  input: NotificationInput
+) {
+  const recipients = [...new Set(userIds.filter((id): id is string => Boolean(id) && id !== session?.user.id))]
+  if (recipients.length === 0) return
+
+  try {
+    await deliver(recipients, input)
+  } catch (error) {
+    console.error('[NOTIFICATIONS]', error)
+  }
+}
+
+export async function notifyTaskAssigned(
+  session: Session | null,
+  task: { id: string; title: string; assignedToId: string; dueDate: Date }
+) {
+  await notifyUsers(session, [task.assignedToId], {
+    type: 'TASK_ASSIGNED',
+    title: 'New task assigned to you',
+    body: `${task.title}, due ${format(task.dueDate, 'MM/dd/yyyy')}`,
+    link: `/tasks/${task.id}`,
+  })
+}
+
+export async function notifyTaskComment(
+  session: Session,
+  task: { id: string; title: string; assignedToId: string },
+  comment: { body: string; mentionIds: string[] }
+) {
+  const author = session.user.name || 'Someone'
+  const excerpt = comment.body.length > 140 ? `${comment.body.slice(0, 137)}...` : comment.body
+
+  await notifyUsers(session, comment.mentionIds, {
+    type: 'TASK_MENTIONED',
+    title: `${author} mentioned you on "${task.title}"`,
+    body: excerpt,
+    link: `/tasks/${task.id}`,
+  })
+  // A mentioned assignee already heard about it
+  if (!comment.mentionIds.includes(task.assignedToId)) {
+    await notifyUsers(session, [task.assignedToId], {
+      type: 'TASK_COMMENTED',
+      title: `${author} commented on "${task.title}"`,
+      body: excerpt,
+      link: `/tasks/${task.id}`,
+    })
+  }
+}
+
+type ScheduledProcedure = { id: string; scheduleDate: Date; scheduleTime: string }
+
+// Tells the attorneys and case managers on the patient's cases and LOPs, and
+// whoever holds an open task on the procedure
+export async function notifyRescheduledProcedures(
+  session: Session | null,
+  before: ScheduledProcedure[],
+  after: ScheduledProcedure[]
+) {
+  const rescheduled = after.filter((procedure) => {
+    const previous = before.find((item) => item.id === procedure.id)
+    return previous && procedureStartsAt(previous).getTime() !== procedureStartsAt(procedure).getTime()
+  })
+
+  for (const { id } of rescheduled) {
+    try {
+      const procedure = await prisma.procedure.findUnique({
+        where: { id },
+        include: {
+          exam: { select: { name: true } },
+          patient: {
+            select: {
+              id: true,
+              firstName: true,
+              lastName: true,
+              cases: {
+                select: {
+                  attorney: { select: { userId: true } },
+                  caseManager: { select: { userId: true } },
+                },
+              },
+              lops: { select: { attorney: { select: { userId: true } } } },
+            },
+          },
+        },
+      })
+      if (!procedure) continue
+
+      const tasks = await prisma.task.findMany({
+        where: { procedureId: id, status: { not: 'completed' } },
+        select: { assignedToId: true },
+      })
+      const { patient } = procedure
+
+      await notifyUsers(session, [
+        ...patient.cases.flatMap((item) => [item.attorney?.userId, item.caseManager?.userId]),
+        ...patient.lops.map((lop) => lop.attorney?.userId),
+        ...tasks.map((task) => task.assignedToId),
+      ], {
+        type: 'PROCEDURE_RESCHEDULED',
+        title: `${procedure.exam.name} rescheduled`,
+        body: `${patient.firstName} ${patient.lastName}'s ${procedure.exam.name} is now on ${format(procedure.scheduleDate, 'MM/dd/yyyy')} at ${procedure.scheduleTime}`,
+        link: `/patients/${patient.id}`,
+      })
+    } catch (error) {
+      console.error('[NOTIFICATIONS]', error)
+    }
+  }
+}
+
+export async function notifyReportsDelivered(
+  session: Session | null,
+  caseId: string,
+  procedures: Array<{ exam: { name: string } }>
+) {
+  try {
+    const caseRecord = await prisma.case.findUnique({
+      where: { id: caseId },
+      select: {
+        caseNumber: true,
+        attorney: { select: { userId: true } },
+        caseManager: { select: { userId: true } },
+      },
+    })
+    if (!caseRecord) return
+
+    const exams = procedures.map((procedure) => procedure.exam.name).join(', ')
+    await notifyUsers(session, [caseRecord.attorney?.userId, caseRecord.caseManager?.userId], {
+      type: 'REPORT_DELIVERED',
+      title: `Report${procedures.length === 1 ? '' : 's'} delivered for case ${caseRecord.caseNumber}`,
+      body: `${exams} ${procedures.length === 1 ? 'report is' : 'reports are'} ready`,
+      link: `/cases/${caseId}`,
+    })
+  } catch (error) {
+    console.error('[NOTIFICATIONS]', error)
+  }
+}
+
+async function officeUserIds() {
+  const staff = await prisma.user.findMany({
+    where: { role: { in: ['ADMIN', 'STAFF'] } },
+    select: { id: true },
+  })
+  return staff.map((user) => user.id)
+}
+
+// The front desk picks the new time, so every office login hears about it
+export async function notifyRescheduleRequested(
+  session: Session | null,
+  procedure: { scheduleDate: Date; scheduleTime: string; rescheduleNote: string | null },
+  patient: { id: string; firstName: string; lastName: string },
+  examName: string
+) {
+  try {
+    const note = procedure.rescheduleNote ? ` "${procedure.rescheduleNote}"` : ''
+
+    await notifyUsers(session, await officeUserIds(), {
+      type: 'RESCHEDULE_REQUESTED',
+      title: `${patient.firstName} ${patient.lastName} asks to reschedule`,
+      body: `${examName} on ${format(procedure.scheduleDate, 'MM/dd/yyyy')} at ${procedure.scheduleTime}.${note}`,
+      link: `/patients/${patient.id}`,
+    })
+  } catch (error) {
+    console.error('[NOTIFICATIONS]', error)
+  }
+}
+
+// New referrals wait on the front desk to book them
+export async function notifyReferralSubmitted(
+  session: Session | null,
+  doctorName: string,
+  patient: { id: string; firstName: string; lastName: string },
+  examNames: string[],
+  possibleDuplicate: boolean
+) {
+  try {
+    const duplicate = possibleDuplicate ? ' This may be a patient already on file.' : ''
+
+    await notifyUsers(session, await officeUserIds(), {
+      type: 'REFERRAL_SUBMITTED',
+      title: `New referral from ${doctorName}`,
+      body: `${patient.firstName} ${patient.lastName}: ${examNames.join(', ')}.${duplicate}`,
+      link: `/patients/${patient.id}`,
+    })
+  } catch (error) {
+    console.error('[NOTIFICATIONS]', error)
+  }
+}
+
+// Online sign-ups always get an account, so a likely existing record is left
+// for the office to review and merge
+export async function notifyPossibleDuplicateRegistration(
+  patient: { id: string; firstName: string; lastName: string },
+  matches: number
+) {
+  try {
+    await notifyUsers(null, await officeUserIds(), {
+      type: 'PATIENT_REGISTERED',
+      title: `${patient.firstName} ${patient.lastName} signed up online`,
+      body: `They may already have a record: ${matches} possible match${matches !== 1 ? 'es' : ''} on name, date of birth or phone.`,
+      link: `/patients/${patient.id}`,
+    })
+  } catch (error) {
+    console.error('[NOTIFICATIONS]', error)
+  }
+}
+
+// Sent by the weekly NPI reconciliation when providers need attention
+export async function notifyNpiIssues(providerNames: string[]) {
+  try {
+    const names = providerNames.slice(0, 3)
+    const more = providerNames.length > names.length ? ` and ${providerNames.length - names.length} more` : ''
+
+    await notifyUsers(null, await officeUserIds(), {
+      type: 'NPI_DEACTIVATED',
+      title: `${providerNames.length} provider NPI${providerNames.length !== 1 ? 's' : ''} need attention`,
+      body: `${names.join(', ')}${more}. See the NPI reconciliation report.`,
+      link: '/reports',
+    })
+  } catch (error) {
+    console.error('[NOTIFICATIONS]', error)
+  }
+}
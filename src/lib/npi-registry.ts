@@ -0,0 +1,127 @@
+import type { NpiRecord } from '@prisma/client'
+import { prisma } from '@/lib/prisma'
+import { isValidNpi, normalizeNpi } from '@/lib/npi'
+import { isNpiActive } from '@/lib/nppes'
+import { formatPhoneNumber } from '@/utils/formatters'
+
+// Lookups against the offline copy of the NPPES registry in NpiRecord, loaded
+// with `npm run load:nppes`. Until a file has been loaded only the NPI check
+// digit can be verified.
+
+export class NpiRegistryError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'NpiRegistryError'
+  }
+}
+
+export type NpiProblem = 'INVALID' | 'NOT_FOUND' | 'DEACTIVATED'
+
+export const NPI_PROBLEM_LABELS: Record<NpiProblem, string> = {
+  INVALID: 'Invalid check digit',
+  NOT_FOUND: 'Not in the NPPES registry',
+  DEACTIVATED: 'Deactivated',
+}
+
+export async function isRegistryLoaded() {
+  return (await prisma.npiRecord.findFirst({ select: { id: true } })) !== null
+}
+
+// The registry stores names and addresses in capitals
+function titleCase(value: string) {
+  return value.toLowerCase().replace(/\b[a-z]/g, (letter) => letter.toUpperCase())
+}
+
+function practiceAddress(record: NpiRecord) {
+  const lines = [record.addressLine1, record.addressLine2, record.city].filter(Boolean).map((line) => titleCase(line!))
+  const region = [record.state, record.zip].filter(Boolean).join(' ')
+  return [...lines, region].filter(Boolean).join(', ') || null
+}
+
+// Shaped like the provider form so a lookup can fill it in
+function toNpiDetails(record: NpiRecord) {
+  const name = record.entityType === 2
+    ? record.organizationName
+    : [record.firstName, record.middleName, record.lastName].filter(Boolean).join(' ')
+
+  return {
+    npi: record.npi,
+    entityType: record.entityType === 2 ? 'Organization' : 'Individual',
+    prefix: record.namePrefix ? titleCase(record.namePrefix) : null,
+    name: name ? titleCase(name) : null,
+    suffix: record.credential,
+    taxonomyCode: record.taxonomyCode,
+    address: practiceAddress(record),
+    phoneNumber: record.phone ? formatPhoneNumber(record.phone) : null,
+    faxNumber: record.fax ? formatPhoneNumber(record.fax) : null,
+    active: isNpiActive(record),
+    deactivatedAt: record.deactivatedAt,
+    lastUpdated: record.lastUpdated,
+  }
+}
+
+export type NpiDetails = ReturnType<typeof toNpiDetails>
+
+export async function lookupNpi(value: string): Promise<NpiDetails | null> {
+  const npi = normalizeNpi(value)
+  if (!isValidNpi(npi)) {
+    throw new NpiRegistryError('Enter a valid 10-digit NPI')
+  }
+  if (!(await isRegistryLoaded())) {
+    throw new NpiRegistryError('The NPPES registry has not been loaded yet')
+  }
+
+  const record = await prisma.npiRecord.findUnique({ where: { npi } })
+  return record ? toNpiDetails(record) : null
+}
+
+// Why an NPI can't be used, or null when it can. An unloaded registry only
+// rules out bad check digits.
+export async function checkNpi(value: string): Promise<{ problem: NpiProblem; deactivatedAt: Date | null } | null> {
+  const npi = normalizeNpi(value)
+  if (!isValidNpi(npi)) return { problem: 'INVALID', deactivatedAt: null }
+
+  const record = await prisma.npiRecord.findUnique({ where: { npi } })
+  if (!record) {
+    return (await isRegistryLoaded()) ? { problem: 'NOT_FOUND', deactivatedAt: null } : null
+  }
+  return isNpiActive(record) ? null : { problem: 'DEACTIVATED', deactivatedAt: record.deactivatedAt }
+}
+
+// Active providers whose NPI no longer checks out against the registry
+export async function findNpiIssues() {
+  const [providers, loaded] = await Promise.all([
+    prisma.provider.findMany({
+      where: { status: 'Active' },
+      select: { id: true, name: true, npiNumber: true, roles: true },
+      orderBy: { name: 'asc' },
+    }),
+    isRegistryLoaded(),
+  ])
+  const withNpi = providers.filter((provider) => provider.npiNumber)
+
+  const records = await prisma.npiRecord.findMany({
+    where: { npi: { in: withNpi.map((provider) => provider.npiNumber!) } },
+  })
+  const byNpi = new Map(records.map((record) => [record.npi, record]))
+
+  const issues: Array<{
+    provider: (typeof providers)[number]
+    problem: NpiProblem
+    deactivatedAt: Date | null
+  }> = []
+
+  for (const provider of withNpi) {
+    const npi = provider.npiNumber!
+    const record = byNpi.get(npi)
+    if (!isValidNpi(npi)) {
+      issues.push({ provider, problem: 'INVALID', deactivatedAt: null })
+    } else if (!record) {
+      if (loaded) issues.push({ provider, problem: 'NOT_FOUND', deactivatedAt: null })
+    } else if (!isNpiActive(record)) {
+      issues.push({ provider, problem: 'DEACTIVATED', deactivatedAt: record.deactivatedAt })
+    }
+  }
+
+  return { checked: withNpi.length, registryLoaded: loaded, issues }
+}
@@ -0,0 +1,26 @@
+import { describe, expect, it } from 'vitest'
+import { isValidNpi, normalizeNpi } from '@/lib/npi'
+
+describe('isValidNpi', () => {
+  it('accepts numbers with a correct check digit', () => {
+    expect(isValidNpi('1234567893')).toBe(true)
+    expect(isValidNpi('1245319599')).toBe(true)
+  })
+
+  it('rejects a wrong check digit', () => {
+    expect(isValidNpi('1234567890')).toBe(false)
+    expect(isValidNpi('1245319598')).toBe(false)
+  })
+
+  it('rejects the wrong length, letters and numbers not starting with 1 or 2', () => {
+    expect(isValidNpi('123456789')).toBe(false)
+    expect(isValidNpi('12345678931')).toBe(false)
+    expect(isValidNpi('12345678a3')).toBe(false)
+    expect(isValidNpi('3234567893')).toBe(false)
+  })
+
+  it('ignores spaces and dashes typed between the digits', () => {
+    expect(normalizeNpi('123-456 7893')).toBe('1234567893')
+    expect(isValidNpi('123-456 7893')).toBe(true)
+  })
+})
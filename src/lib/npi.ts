@@ -0,0 +1,25 @@
+// National Provider Identifiers are 10 digits whose last digit is a Luhn check
+// digit computed over the number prefixed with 80840 (the US health industry
+// issuer prefix), so typos are caught before they reach a claim or a lookup.
+const NPI_PREFIX = '80840'
+
+export function normalizeNpi(value: string) {
+  return value.replace(/[\s-]/g, '')
+}
+
+export function isValidNpi(value: string) {
+  const npi = normalizeNpi(value)
+  if (!/^[12]\d{9}$/.test(npi)) return false
+
+  const digits = `${NPI_PREFIX}${npi}`
+  let sum = 0
+  for (let i = 0; i < digits.length; i++) {
+    let digit = Number(digits[digits.length - 1 - i])
+    if (i % 2 === 1) {
+      digit *= 2
+      if (digit > 9) digit -= 9
+    }
+    sum += digit
+  }
+  return sum % 10 === 0
+}
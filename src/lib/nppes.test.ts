@@ -0,0 +1,87 @@
+import { describe, expect, it } from 'vitest'
+import { isNpiActive, nppesColumns, parseCsvLine, parseNppesRow } from '@/lib/nppes'
+
+const header = [
+  'NPI',
+  'Entity Type Code',
+  'Provider Organization Name (Legal Business Name)',
+  'Provider Last Name (Legal Name)',
+  'Provider First Name',
+  'Provider Middle Name',
+  'Provider Name Prefix Text',
+  'Provider Credential Text',
+  'Provider First Line Business Practice Location Address',
+  'Provider Second Line Business Practice Location Address',
+  'Provider Business Practice Location Address City Name',
+  'Provider Business Practice Location Address State Name',
+  'Provider Business Practice Location Address Postal Code',
+  'Provider Business Practice Location Address Telephone Number',
+  'Provider Business Practice Location Address Fax Number',
+  'Last Update Date',
+  'NPI Deactivation Date',
+  'NPI Reactivation Date',
+  'Healthcare Provider Taxonomy Code_1',
+  'Healthcare Provider Primary Taxonomy Switch_1',
+  'Healthcare Provider Taxonomy Code_2',
+  'Healthcare Provider Primary Taxonomy Switch_2',
+]
+
+const toLine = (fields: string[]) => fields.map((field) => `"${field}"`).join(',')
+
+describe('parseCsvLine', () => {
+  it('splits quoted fields and keeps commas and doubled quotes inside them', () => {
+    expect(parseCsvLine('"1","Smith, Jr.","say ""hi""",""')).toEqual(['1', 'Smith, Jr.', 'say "hi"', ''])
+  })
+})
+
+describe('parseNppesRow', () => {
+  const columns = nppesColumns(header)
+
+  it('reads an individual provider with their primary taxonomy', () => {
+    const record = parseNppesRow(columns, parseCsvLine(toLine([
+      '1234567893', '1', '', 'DOE', 'JANE', 'A', 'DR.', 'M.D.',
+      '6565 FANNIN ST', 'SUITE 100', 'HOUSTON', 'TX', '770302707', '7135551234', '7135555678',
+      '07/08/2023', '', '',
+      '207R00000X', 'N', '2085R0202X', 'Y',
+    ])))
+
+    expect(record).toMatchObject({
+      npi: '1234567893',
+      entityType: 1,
+      namePrefix: 'DR.',
+      firstName: 'JANE',
+      lastName: 'DOE',
+      credential: 'M.D.',
+      taxonomyCode: '2085R0202X',
+      city: 'HOUSTON',
+      zip: '77030-2707',
+      phone: '7135551234',
+      deactivatedAt: null,
+    })
+    expect(record?.lastUpdated?.toISOString()).toBe('2023-07-08T00:00:00.000Z')
+  })
+
+  it('keeps deactivated NPIs, which only carry their dates', () => {
+    const fields = header.map(() => '')
+    fields[0] = '1245319599'
+    fields[16] = '05/01/2020'
+    const record = parseNppesRow(columns, fields)
+
+    expect(record?.deactivatedAt?.toISOString()).toBe('2020-05-01T00:00:00.000Z')
+    expect(record && isNpiActive(record)).toBe(false)
+  })
+
+  it('skips rows without an NPI and rejects files without the column', () => {
+    expect(parseNppesRow(columns, header.map(() => ''))).toBeNull()
+    expect(() => nppesColumns(['Name', 'Address'])).toThrow(/NPI column/)
+  })
+})
+
+describe('isNpiActive', () => {
+  it('treats a reactivation after the deactivation as active again', () => {
+    const deactivatedAt = new Date('2020-05-01')
+    expect(isNpiActive({ deactivatedAt, reactivatedAt: new Date('2021-01-01') })).toBe(true)
+    expect(isNpiActive({ deactivatedAt, reactivatedAt: new Date('2019-01-01') })).toBe(false)
+    expect(isNpiActive({ deactivatedAt: null, reactivatedAt: null })).toBe(true)
+  })
+})
@@ -0,0 +1,156 @@
+import { normalizeNpi } from './npi'
+
+// Reading the CMS NPPES data dissemination file (npidata_pfile_*.csv). The
+// monthly file has a row per NPI ever issued, including deactivated ones, and
+// the weekly update files share its columns, so either can be loaded.
+
+export interface NppesRecord {
+  npi: string
+  entityType: number | null
+  namePrefix: string | null
+  firstName: string | null
+  middleName: string | null
+  lastName: string | null
+  credential: string | null
+  organizationName: string | null
+  taxonomyCode: string | null
+  addressLine1: string | null
+  addressLine2: string | null
+  city: string | null
+  state: string | null
+  zip: string | null
+  phone: string | null
+  fax: string | null
+  lastUpdated: Date | null
+  deactivatedAt: Date | null
+  reactivatedAt: Date | null
+}
+
+const COLUMNS = {
+  npi: 'NPI',
+  entityType: 'Entity Type Code',
+  organizationName: 'Provider Organization Name (Legal Business Name)',
+  lastName: 'Provider Last Name (Legal Name)',
+  firstName: 'Provider First Name',
+  middleName: 'Provider Middle Name',
+  namePrefix: 'Provider Name Prefix Text',
+  credential: 'Provider Credential Text',
+  addressLine1: 'Provider First Line Business Practice Location Address',
+  addressLine2: 'Provider Second Line Business Practice Location Address',
+  city: 'Provider Business Practice Location Address City Name',
+  state: 'Provider Business Practice Location Address State Name',
+  zip: 'Provider Business Practice Location Address Postal Code',
+  phone: 'Provider Business Practice Location Address Telephone Number',
+  fax: 'Provider Business Practice Location Address Fax Number',
+  lastUpdated: 'Last Update Date',
+  deactivatedAt: 'NPI Deactivation Date',
+  reactivatedAt: 'NPI Reactivation Date',
+} as const
+
+// Providers list up to 15 taxonomies; one of them is flagged as primary
+const TAXONOMY_SLOTS = 15
+
+export type NppesColumns = Record<keyof typeof COLUMNS, number> & {
+  taxonomies: Array<{ code: number; primary: number }>
+}
+
+// NPPES quotes every field but never puts a newline inside one, so the file
+// can be read a line at a time
+export function parseCsvLine(line: string): string[] {
+  const fields: string[] = []
+  let field = ''
+  let quoted = false
+
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i]
+    if (quoted) {
+      if (char === '"' && line[i + 1] === '"') {
+        field += '"'
+        i++
+      } else if (char === '"') {
+        quoted = false
+      } else {
+        field += char
+      }
+    } else if (char === '"') {
+      quoted = true
+    } else if (char === ',') {
+      fields.push(field)
+      field = ''
+    } else {
+      field += char
+    }
+  }
+  fields.push(field)
+  return fields
+}
+
+export function nppesColumns(header: string[]): NppesColumns {
+  const index = (name: string) => header.indexOf(name)
+
+  const columns = Object.fromEntries(
+    Object.entries(COLUMNS).map(([key, name]) => [key, index(name)])
+  ) as Record<keyof typeof COLUMNS, number>
+  if (columns.npi === -1) {
+    throw new Error('This does not look like an NPPES data file: there is no NPI column')
+  }
+
+  const taxonomies = Array.from({ length: TAXONOMY_SLOTS }, (_, slot) => ({
+    code: index(`Healthcare Provider Taxonomy Code_${slot + 1}`),
+    primary: index(`Healthcare Provider Primary Taxonomy Switch_${slot + 1}`),
+  })).filter((taxonomy) => taxonomy.code !== -1)
+
+  return { ...columns, taxonomies }
+}
+
+function nppesDate(value: string | null) {
+  const match = value?.match(/^(\d{2})\/(\d{2})\/(\d{4})$/)
+  return match ? new Date(Date.UTC(Number(match[3]), Number(match[1]) - 1, Number(match[2]))) : null
+}
+
+// Nine-digit postal codes are split into ZIP+4
+function nppesZip(value: string | null) {
+  if (value && /^\d{9}$/.test(value)) return `${value.slice(0, 5)}-${value.slice(5)}`
+  return value
+}
+
+export function parseNppesRow(columns: NppesColumns, fields: string[]): NppesRecord | null {
+  const value = (column: number) => (column === -1 ? null : fields[column]?.trim() || null)
+
+  const npi = value(columns.npi)
+  if (!npi) return null
+
+  const taxonomies = columns.taxonomies
+    .map((taxonomy) => ({ code: value(taxonomy.code), primary: value(taxonomy.primary) === 'Y' }))
+    .filter((taxonomy) => taxonomy.code)
+  const taxonomy = taxonomies.find((item) => item.primary) ?? taxonomies[0]
+  const entityType = Number(value(columns.entityType))
+
+  return {
+    npi: normalizeNpi(npi),
+    entityType: entityType === 1 || entityType === 2 ? entityType : null,
+    namePrefix: value(columns.namePrefix),
+    firstName: value(columns.firstName),
+    middleName: value(columns.middleName),
+    lastName: value(columns.lastName),
+    credential: value(columns.credential),
+    organizationName: value(columns.organizationName),
+    taxonomyCode: taxonomy?.code ?? null,
+    addressLine1: value(columns.addressLine1),
+    addressLine2: value(columns.addressLine2),
+    city: value(columns.city),
+    state: value(columns.state),
+    zip: nppesZip(value(columns.zip)),
+    phone: value(columns.phone),
+    fax: value(columns.fax),
+    lastUpdated: nppesDate(value(columns.lastUpdated)),
+    deactivatedAt: nppesDate(value(columns.deactivatedAt)),
+    reactivatedAt: nppesDate(value(columns.reactivatedAt)),
+  }
+}
+
+// An NPI that was reactivated after its last deactivation is usable again
+export function isNpiActive(record: Pick<NppesRecord, 'deactivatedAt' | 'reactivatedAt'>) {
+  if (!record.deactivatedAt) return true
+  return Boolean(record.reactivatedAt && record.reactivatedAt >= record.deactivatedAt)
+}
@@ -0,0 +1,56 @@
+import { createHash, randomBytes } from 'crypto'
+import type { User } from '@prisma/client'
+import { prisma } from '@/lib/prisma'
+import { appUrl, sendMail } from '@/lib/mail'
+import { invitationEmail, passwordResetEmail } from '@/lib/mail-templates'
+
+export const RESET_TOKEN_TTL_MINUTES = 60
+
+// Invitations reuse the reset token but give the new user longer to answer
+export const INVITATION_TTL_DAYS = 7
+
+// Only the hash is stored, so a leaked database does not leak usable links
+export function hashResetToken(token: string) {
+  return createHash('sha256').update(token).digest('hex')
+}
+
+async function issueResetToken(userId: string, ttlMinutes: number) {
+  const token = randomBytes(32).toString('hex')
+
+  await prisma.user.update({
+    where: { id: userId },
+    data: {
+      resetToken: hashResetToken(token),
+      resetTokenExpiry: new Date(Date.now() + ttlMinutes * 60 * 1000),
+    },
+  })
+
+  return token
+}
+
+export async function sendPasswordReset(user: Pick<User, 'id' | 'email' | 'name'>) {
+  const token = await issueResetToken(user.id, RESET_TOKEN_TTL_MINUTES)
+
+  await sendMail({
+    to: user.email,
+    ...passwordResetEmail({
+      name: user.name,
+      resetUrl: appUrl(`/new-password?token=${token}`),
+      expiresInMinutes: RESET_TOKEN_TTL_MINUTES,
+    }),
+  })
+}
+
+export async function sendInvitation(user: Pick<User, 'id' | 'email' | 'name'>, portalName: string) {
+  const token = await issueResetToken(user.id, INVITATION_TTL_DAYS * 24 * 60)
+
+  await sendMail({
+    to: user.email,
+    ...invitationEmail({
+      name: user.name,
+      portalName,
+      setPasswordUrl: appUrl(`/new-password?token=${token}`),
+      expiresInDays: INVITATION_TTL_DAYS,
+    }),
+  })
+}
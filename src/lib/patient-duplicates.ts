@@ -0,0 +1,290 @@
+import type { Prisma } from '@prisma/client'
+import type { Session } from 'next-auth'
+import { prisma } from '@/lib/prisma'
+import { patientLabel, recordAudit } from '@/lib/audit'
+
+// A candidate needs at least this many points to be reported; a matching name
+// alone is not enough, but a name with a birth date, phone or injury date is
+export const DUPLICATE_THRESHOLD = 55
+
+const MAX_CANDIDATES = 200
+const MAX_DUPLICATES = 5
+
+export interface DuplicateCheck {
+  firstName: string
+  lastName: string
+  dateOfBirth: Date | string
+  phone?: string | null
+  doidol?: unknown
+}
+
+export interface PossibleDuplicate {
+  id: string
+  firstName: string
+  lastName: string
+  dateOfBirth: Date
+  phone: string
+  score: number
+  reasons: string[]
+}
+
+export class PatientMergeError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'PatientMergeError'
+  }
+}
+
+const normalizeName = (value: string) => value.toLowerCase().replace(/[^a-z]/g, '')
+
+const phoneDigits = (value: string | null | undefined) => (value ?? '').replace(/\D/g, '').slice(-10)
+
+function levenshtein(a: string, b: string) {
+  let previous = Array.from({ length: b.length + 1 }, (_, i) => i)
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i]
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(
+        previous[j] + 1,
+        current[j - 1] + 1,
+        previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1)
+      )
+    }
+    previous = current
+  }
+  return previous[b.length]
+}
+
+// Allows a typo in longer names and a shortened first name (Rob/Robert)
+function similarName(a: string, b: string, allowPrefix: boolean) {
+  if (!a || !b) return false
+  if (a === b) return true
+  if (allowPrefix && Math.min(a.length, b.length) >= 3 && (a.startsWith(b) || b.startsWith(a))) return true
+  const longest = Math.max(a.length, b.length)
+  return longest >= 4 && levenshtein(a, b) <= (longest >= 8 ? 2 : 1)
+}
+
+// doidol is untyped and holds either a date or an ISO string
+function toDay(value: unknown) {
+  const raw = value && typeof value === 'object' && '$date' in value ? (value as { $date: unknown }).$date : value
+  if (!(raw instanceof Date) && typeof raw !== 'string') return null
+  const date = new Date(raw)
+  return isNaN(date.getTime()) ? null : date.toISOString().slice(0, 10)
+}
+
+function phoneVariants(digits: string) {
+  return [
+    digits,
+    `(${digits.slice(0, 3)}) ${digits.slice(3, 6)}-${digits.slice(6)}`,
+    `${digits.slice(0, 3)}-${digits.slice(3, 6)}-${digits.slice(6)}`,
+  ]
+}
+
+function scoreCandidate(
+  check: DuplicateCheck,
+  patient: { firstName: string; lastName: string; dateOfBirth: Date; phone: string; altNumber: string | null; doidol: unknown }
+) {
+  const reasons: string[] = []
+  let score = 0
+
+  const first = normalizeName(check.firstName)
+  const last = normalizeName(check.lastName)
+  const otherFirst = normalizeName(patient.firstName)
+  const otherLast = normalizeName(patient.lastName)
+  const swapped = similarName(first, otherLast, false) && similarName(last, otherFirst, false)
+
+  if (first === otherFirst && last === otherLast) {
+    score += 40
+    reasons.push('Same name')
+  } else if ((similarName(first, otherFirst, true) && similarName(last, otherLast, false)) || swapped) {
+    score += 30
+    reasons.push('Similar name')
+  } else if (similarName(last, otherLast, false)) {
+    score += 10
+    reasons.push('Same last name')
+  }
+
+  if (toDay(check.dateOfBirth) === toDay(patient.dateOfBirth)) {
+    score += 30
+    reasons.push('Same date of birth')
+  }
+
+  const digits = phoneDigits(check.phone)
+  if (digits.length === 10 && [patient.phone, patient.altNumber].some((phone) => phoneDigits(phone) === digits)) {
+    score += 25
+    reasons.push('Same phone number')
+  }
+
+  const injury = toDay(check.doidol)
+  if (injury && injury === toDay(patient.doidol)) {
+    score += 15
+    reasons.push('Same date of injury')
+  }
+
+  return { score, reasons }
+}
+
+// Narrows the search to patients sharing a birth date, a phone number or the
+// start of the name, then scores each of them in memory
+export async function findPossibleDuplicates(
+  check: DuplicateCheck,
+  options: { excludeId?: string } = {}
+): Promise<PossibleDuplicate[]> {
+  const or: Prisma.PatientWhereInput[] = []
+
+  const birthDay = toDay(check.dateOfBirth)
+  if (birthDay) {
+    const start = new Date(`${birthDay}T00:00:00.000Z`)
+    or.push({ dateOfBirth: { gte: start, lt: new Date(start.getTime() + 24 * 60 * 60 * 1000) } })
+  }
+
+  const digits = phoneDigits(check.phone)
+  if (digits.length === 10) {
+    or.push({ phone: { in: phoneVariants(digits) } }, { altNumber: { in: phoneVariants(digits) } })
+  }
+
+  const first = check.firstName.trim()
+  const last = check.lastName.trim()
+  if (first && last) {
+    or.push({
+      firstName: { startsWith: first.slice(0, 1), mode: 'insensitive' },
+      lastName: { startsWith: last.slice(0, 2), mode: 'insensitive' },
+    })
+  }
+
+  if (or.length === 0) return []
+
+  const candidates = await prisma.patient.findMany({
+    where: {
+      OR: or,
+      ...(options.excludeId && { id: { not: options.excludeId } }),
+    },
+    select: {
+      id: true,
+      firstName: true,
+      lastName: true,
+      dateOfBirth: true,
+      phone: true,
+      altNumber: true,
+      doidol: true,
+    },
+    take: MAX_CANDIDATES,
+  })
+
+  return candidates
+    .map(({ altNumber, doidol, ...patient }) => ({
+      ...patient,
+      ...scoreCandidate(check, { ...patient, altNumber, doidol }),
+    }))
+    .filter((candidate) => candidate.score >= DUPLICATE_THRESHOLD)
+    .sort((a, b) => b.score - a.score)
+    .slice(0, MAX_DUPLICATES)
+}
+
+// Fields the surviving record takes from the duplicate when it has none itself
+const FILL_FIELDS = [
+  'middleName',
+  'email',
+  'altNumber',
+  'address',
+  'city',
+  'zip',
+  'gender',
+  'doidol',
+  'lawyer',
+  'orderDate',
+  'orderFor',
+  'payerId',
+  'userId',
+  'referringDoctorId',
+] as const
+
+const isBlank = (value: unknown) => value === null || value === undefined || value === '' || value === 'unknown'
+
+export interface MergeResult {
+  survivorId: string
+  duplicateId: string
+  moved: Record<string, number>
+}
+
+// Re-points everything recorded against the duplicate to the survivor and
+// removes the duplicate. Audit events move too so the history stays whole.
+// When both have a patient portal login the survivor's is kept and the
+// duplicate's is deleted, since it would point at nothing.
+export async function mergePatients(
+  session: Session,
+  survivorId: string,
+  duplicateId: string,
+  request?: Request
+): Promise<MergeResult> {
+  if (survivorId === duplicateId) {
+    throw new PatientMergeError('Choose two different patients')
+  }
+
+  const [survivor, duplicate] = await Promise.all([
+    prisma.patient.findUnique({ where: { id: survivorId } }),
+    prisma.patient.findUnique({ where: { id: duplicateId } }),
+  ])
+  if (!survivor) {
+    throw new PatientMergeError('The patient to keep was not found')
+  }
+  if (!duplicate) {
+    throw new PatientMergeError('The duplicate patient was not found')
+  }
+
+  const fill: Record<string, unknown> = {}
+  for (const field of FILL_FIELDS) {
+    if (isBlank(survivor[field]) && !isBlank(duplicate[field])) {
+      fill[field] = duplicate[field]
+    }
+  }
+
+  const where = { patientId: duplicateId }
+  const data = { patientId: survivorId }
+  const { moved, updated, removedLogin } = await prisma.$transaction(async (tx) => {
+    const counts = {
+      appointments: (await tx.appointment.updateMany({ where, data })).count,
+      procedures: (await tx.procedure.updateMany({ where, data })).count,
+      cases: (await tx.case.updateMany({ where, data })).count,
+      lops: (await tx.lop.updateMany({ where, data })).count,
+      charges: (await tx.charge.updateMany({ where, data })).count,
+      invoices: (await tx.invoice.updateMany({ where, data })).count,
+      events: (await tx.event.updateMany({ where, data })).count,
+      tasks: (await tx.task.updateMany({ where, data })).count,
+      documents: (await tx.patientDocument.updateMany({ where, data })).count,
+      referrals: (await tx.referral.updateMany({ where, data })).count,
+    }
+
+    const patient = await tx.patient.update({
+      where: { id: survivorId },
+      data: { ...(fill as Prisma.PatientUncheckedUpdateInput), updatedAt: new Date() },
+    })
+    await tx.patient.delete({ where: { id: duplicateId } })
+    const removedLogin = duplicate.userId && duplicate.userId !== patient.userId
+      ? (await tx.user.deleteMany({ where: { id: duplicate.userId, role: 'PATIENT' } })).count > 0
+      : false
+
+    return { moved: counts, updated: patient, removedLogin }
+  })
+
+  await recordAudit(session, {
+    action: 'UPDATE',
+    entityType: 'Patient',
+    entityId: survivorId,
+    patientId: survivorId,
+    summary: `Merged ${patientLabel(duplicate)} into ${patientLabel(survivor)}`,
+    before: survivor,
+    after: updated,
+    details: { duplicateId, moved, ...(removedLogin && { removedLoginId: duplicate.userId }) },
+  }, request)
+  await recordAudit(session, {
+    action: 'DELETE',
+    entityType: 'Patient',
+    entityId: duplicateId,
+    patientId: survivorId,
+    summary: `${patientLabel(duplicate)} (merged into ${patientLabel(survivor)})`,
+    before: duplicate,
+  }, request)
+
+  return { survivorId, duplicateId, moved }
+}
@@ -0,0 +1,684 @@
+import ExcelJS from 'exceljs'
+import type { Session } from 'next-auth'
+import { z } from 'zod'
+import { prisma } from '@/lib/prisma'
+import { syncProcedureCharges } from '@/lib/billing'
+import { patientLabel, recordAudit, recordProcedureChanges } from '@/lib/audit'
+import { sendProcedureConfirmations } from '@/lib/mail-notifications'
+import { applyPatientTaskRules, applyProcedureTaskRules } from '@/lib/task-rules'
+import { findPossibleDuplicates } from '@/lib/patient-duplicates'
+import { checkSlot, SchedulingError, type SlotCheck } from '@/lib/scheduling'
+
+export const MAX_IMPORT_BYTES = 5 * 1024 * 1024
+export const MAX_IMPORT_ROWS = 2000
+
+export const IMPORT_FIELDS = [
+  { key: 'firstName', label: 'First Name', group: 'Patient', required: true, aliases: ['first', 'fname', 'given name'] },
+  { key: 'lastName', label: 'Last Name', group: 'Patient', required: true, aliases: ['last', 'lname', 'surname', 'family name'] },
+  { key: 'middleName', label: 'Middle Name', group: 'Patient', aliases: ['middle', 'mi', 'middle initial'] },
+  { key: 'dateOfBirth', label: 'Date of Birth', group: 'Patient', required: true, aliases: ['dob', 'birth date', 'birthdate'] },
+  { key: 'gender', label: 'Gender', group: 'Patient', aliases: ['sex'] },
+  { key: 'phone', label: 'Phone', group: 'Patient', required: true, aliases: ['phone number', 'cell', 'mobile', 'telephone'] },
+  { key: 'altNumber', label: 'Alternate Phone', group: 'Patient', aliases: ['alt phone', 'alt number', 'alternate number', 'home phone', 'work phone'] },
+  { key: 'email', label: 'Email', group: 'Patient', aliases: ['e-mail', 'email address'] },
+  { key: 'address', label: 'Address', group: 'Patient', aliases: ['street', 'street address', 'address 1'] },
+  { key: 'city', label: 'City', group: 'Patient', aliases: [] },
+  { key: 'zip', label: 'ZIP', group: 'Patient', aliases: ['zip code', 'zipcode', 'postal code'] },
+  { key: 'doidol', label: 'Date of Injury', group: 'Patient', aliases: ['doi', 'dol', 'doi/dol', 'date of loss', 'injury date', 'accident date'] },
+  { key: 'attorney', label: 'Attorney', group: 'Patient', aliases: ['lawyer', 'attorney name'] },
+  { key: 'payer', label: 'Payer', group: 'Patient', aliases: ['payor', 'insurance', 'carrier'] },
+  { key: 'status', label: 'Patient Status', group: 'Patient', aliases: ['status'] },
+  { key: 'orderDate', label: 'Order Date', group: 'Patient', aliases: ['referral date'] },
+  { key: 'orderFor', label: 'Order For', group: 'Patient', aliases: ['ordered', 'order'] },
+  { key: 'exam', label: 'Exam', group: 'Procedure', aliases: ['procedure', 'study', 'exam name'] },
+  { key: 'facility', label: 'Facility', group: 'Procedure', aliases: ['location', 'site'] },
+  { key: 'physician', label: 'Physician', group: 'Procedure', aliases: ['doctor', 'provider'] },
+  { key: 'scheduleDate', label: 'Procedure Date', group: 'Procedure', aliases: ['appointment date', 'schedule date', 'exam date'] },
+  { key: 'scheduleTime', label: 'Procedure Time', group: 'Procedure', aliases: ['appointment time', 'schedule time', 'time'] },
+  { key: 'procedureStatus', label: 'Procedure Status', group: 'Procedure', aliases: [] },
+] as const
+
+export type ImportFieldKey = (typeof IMPORT_FIELDS)[number]['key']
+
+// Maps each field to the index of the spreadsheet column it is read from
+export type ColumnMapping = Partial<Record<ImportFieldKey, number>>
+
+export interface ImportTable {
+  headers: string[]
+  rows: string[][]
+}
+
+export interface ImportDefaults {
+  statusId: string
+  procedureStatusId?: string
+  facilityId?: string
+  physicianId?: string
+}
+
+export class ImportError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'ImportError'
+  }
+}
+
+// RFC 4180: quoted fields may contain commas, newlines and doubled quotes
+export function parseCsv(text: string): string[][] {
+  const rows: string[][] = []
+  let row: string[] = []
+  let field = ''
+  let quoted = false
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i]
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"'
+        i++
+      } else if (char === '"') {
+        quoted = false
+      } else {
+        field += char
+      }
+    } else if (char === '"') {
+      quoted = true
+    } else if (char === ',') {
+      row.push(field)
+      field = ''
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++
+      row.push(field)
+      rows.push(row)
+      row = []
+      field = ''
+    } else {
+      field += char
+    }
+  }
+
+  if (field || row.length > 0) {
+    row.push(field)
+    rows.push(row)
+  }
+  return rows
+}
+
+function isoDay(date: Date) {
+  return date.toISOString().slice(0, 10)
+}
+
+// Spreadsheet dates come back as UTC midnight, so they are written out as
+// plain days and parsed again like any typed date
+function cellText(value: ExcelJS.CellValue): string {
+  if (value === null || value === undefined) return ''
+  if (value instanceof Date) return isoDay(value)
+  if (typeof value !== 'object') return String(value)
+  if ('richText' in value) return value.richText.map((part) => part.text).join('')
+  if ('formula' in value || 'sharedFormula' in value) {
+    return cellText((value.result ?? null) as ExcelJS.CellValue)
+  }
+  if ('text' in value) return String(value.text)
+  return ''
+}
+
+async function readWorkbook(buffer: Buffer): Promise<string[][]> {
+  const workbook = new ExcelJS.Workbook()
+  await workbook.xlsx.load(buffer as unknown as ArrayBuffer)
+  const sheet = workbook.worksheets[0]
+  if (!sheet) return []
+
+  const rows: string[][] = []
+  sheet.eachRow({ includeEmpty: true }, (row) => {
+    const cells: string[] = []
+    for (let column = 1; column <= sheet.columnCount; column++) {
+      cells.push(cellText(row.getCell(column).value))
+    }
+    rows.push(cells)
+  })
+  return rows
+}
+
+export async function parseSpreadsheet(filename: string, buffer: Buffer): Promise<ImportTable> {
+  if (buffer.length > MAX_IMPORT_BYTES) {
+    throw new ImportError('File is larger than 5 MB')
+  }
+
+  const extension = filename.toLowerCase().split('.').pop()
+  let grid: string[][]
+  if (extension === 'csv') {
+    grid = parseCsv(buffer.toString('utf8').replace(/^\uFEFF/, ''))
+  } else if (extension === 'xlsx') {
+    try {
+      grid = await readWorkbook(buffer)
+    } catch {
+      throw new ImportError('The file could not be read as an Excel workbook')
+    }
+  } else {
+    throw new ImportError('Upload a .csv or .xlsx file')
+  }
+
+  const [headerRow, ...body] = grid
+    .map((row) => row.map((cell) => cell.trim()))
+    .filter((row) => row.some(Boolean))
+  if (!headerRow) {
+    throw new ImportError('The file is empty')
+  }
+  if (body.length === 0) {
+    throw new ImportError('The file has a header row but no patients')
+  }
+  if (body.length > MAX_IMPORT_ROWS) {
+    throw new ImportError(`Files are limited to ${MAX_IMPORT_ROWS} rows`)
+  }
+
+  const width = Math.max(headerRow.length, ...body.map((row) => row.length))
+  const pad = (row: string[]) => Array.from({ length: width }, (_, i) => row[i] ?? '')
+  return {
+    headers: pad(headerRow).map((header, i) => header || `Column ${i + 1}`),
+    rows: body.map(pad),
+  }
+}
+
+const normalizeName = (value: string) => value.trim().toLowerCase().replace(/[^a-z0-9]+/g, ' ').trim()
+
+// Matches headers against field labels and the names intake sheets commonly use
+export function suggestMapping(headers: string[]): ColumnMapping {
+  const mapping: ColumnMapping = {}
+  const used = new Set<number>()
+
+  for (const field of IMPORT_FIELDS) {
+    const names = [field.key, field.label, ...field.aliases].map(normalizeName)
+    const index = headers.findIndex((header, i) => !used.has(i) && names.includes(normalizeName(header)))
+    if (index !== -1) {
+      mapping[field.key] = index
+      used.add(index)
+    }
+  }
+  return mapping
+}
+
+// Accepts YYYY-MM-DD, MM/DD/YYYY and MM/DD/YY; two-digit years after the
+// current one are taken as last century
+export function parseImportDate(value: string) {
+  const iso = /^(\d{4})-(\d{1,2})-(\d{1,2})(?:T.*)?$/.exec(value)
+  const us = /^(\d{1,2})[/-](\d{1,2})[/-](\d{2}|\d{4})$/.exec(value)
+  if (!iso && !us) return null
+
+  const [shortYear, month, day] = iso
+    ? [Number(iso[1]), Number(iso[2]), Number(iso[3])]
+    : [Number(us![3]), Number(us![1]), Number(us![2])]
+  const year = us && us[3].length === 2
+    ? shortYear + (shortYear > new Date().getFullYear() % 100 ? 1900 : 2000)
+    : shortYear
+
+  const date = new Date(Date.UTC(year, month - 1, day))
+  if (date.getUTCMonth() !== month - 1 || date.getUTCDate() !== day) return null
+  return date
+}
+
+// Returns HH:mm:00, the format procedures are stored with
+export function parseImportTime(value: string) {
+  const match = /^(\d{1,2})(?::(\d{2}))?(?::\d{2})?\s*([ap]\.?m\.?)?$/i.exec(value)
+  if (!match) return null
+
+  let hours = Number(match[1])
+  const minutes = Number(match[2] ?? 0)
+  const meridiem = match[3]?.toLowerCase().replace(/\./g, '')
+  if (meridiem) {
+    if (hours < 1 || hours > 12) return null
+    hours = (hours % 12) + (meridiem === 'pm' ? 12 : 0)
+  }
+  if (hours > 23 || minutes > 59) return null
+  return `${String(hours).padStart(2, '0')}:${String(minutes).padStart(2, '0')}:00`
+}
+
+function formatPhone(value: string) {
+  let digits = value.replace(/\D/g, '')
+  if (digits.length === 11 && digits.startsWith('1')) digits = digits.slice(1)
+  if (digits.length !== 10) return null
+  return `(${digits.slice(0, 3)}) ${digits.slice(3, 6)}-${digits.slice(6)}`
+}
+
+const GENDERS: Record<string, string> = {
+  m: 'male',
+  male: 'male',
+  f: 'female',
+  female: 'female',
+  o: 'other',
+  other: 'other',
+}
+
+const blank = z.string().trim().max(0).transform(() => undefined)
+
+const optional = <T extends z.ZodTypeAny>(schema: T) => z.union([blank, schema]).optional()
+
+const requiredText = (label: string) =>
+  z.string({ required_error: `${label} is required` }).trim().min(1, `${label} is required`)
+
+const dateField = (label: string) =>
+  z.string().trim().transform((value, ctx) => {
+    const date = parseImportDate(value)
+    if (!date) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, message: `${label} "${value}" is not a valid date` })
+      return z.NEVER
+    }
+    return date
+  })
+
+const phoneField = (label: string) =>
+  z.string().trim().transform((value, ctx) => {
+    const phone = formatPhone(value)
+    if (!phone) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, message: `${label} "${value}" is not a 10-digit phone number` })
+      return z.NEVER
+    }
+    return phone
+  })
+
+export const importRowSchema = z
+  .object({
+    firstName: requiredText('First Name'),
+    lastName: requiredText('Last Name'),
+    middleName: optional(z.string().trim()),
+    dateOfBirth: requiredText('Date of Birth').pipe(dateField('Date of Birth')),
+    gender: optional(
+      z.string().trim().transform((value, ctx) => {
+        const gender = GENDERS[value.toLowerCase()]
+        if (!gender) {
+          ctx.addIssue({ code: z.ZodIssueCode.custom, message: `Gender "${value}" is not Male, Female or Other` })
+          return z.NEVER
+        }
+        return gender
+      })
+    ),
+    phone: requiredText('Phone').pipe(phoneField('Phone')),
+    altNumber: optional(phoneField('Alternate Phone')),
+    email: optional(z.string().trim().email('Email is not a valid address')),
+    address: optional(z.string().trim()),
+    city: optional(z.string().trim()),
+    zip: optional(z.string().trim().regex(/^\d{5}(-\d{4})?$/, 'ZIP must be 5 digits')),
+    doidol: optional(dateField('Date of Injury')),
+    attorney: optional(z.string().trim()),
+    payer: optional(z.string().trim()),
+    status: optional(z.string().trim()),
+    orderDate: optional(dateField('Order Date')),
+    orderFor: optional(z.string().trim()),
+    exam: optional(z.string().trim()),
+    facility: optional(z.string().trim()),
+    physician: optional(z.string().trim()),
+    scheduleDate: optional(dateField('Procedure Date')),
+    scheduleTime: optional(
+      z.string().trim().transform((value, ctx) => {
+        const time = parseImportTime(value)
+        if (!time) {
+          ctx.addIssue({ code: z.ZodIssueCode.custom, message: `Procedure Time "${value}" is not a valid time` })
+          return z.NEVER
+        }
+        return time
+      })
+    ),
+    procedureStatus: optional(z.string().trim()),
+  })
+  .superRefine((row, ctx) => {
+    if (!row.exam && (row.scheduleDate || row.scheduleTime)) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, message: 'Exam is required when a procedure date or time is given' })
+    }
+    if (row.exam && !row.scheduleDate) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, message: 'Procedure Date is required when an exam is given' })
+    }
+    if (row.exam && !row.scheduleTime) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, message: 'Procedure Time is required when an exam is given' })
+    }
+  })
+
+export type ImportRow = z.infer<typeof importRowSchema>
+
+export interface ImportPatient {
+  firstName: string
+  lastName: string
+  middleName: string
+  dateOfBirth: Date
+  gender: string
+  phone: string
+  altNumber: string
+  email: string | null
+  address: string
+  city: string
+  zip: string
+  doidol: string | null
+  lawyer: string
+  payerId: string | null
+  statusId: string
+  orderDate: Date | null
+  orderFor: string
+}
+
+export interface ImportProcedure {
+  examId: string
+  facilityId: string
+  physicianId: string
+  statusId: string
+  scheduleDate: Date
+  scheduleTime: string
+}
+
+export interface ImportRowResult {
+  rowNumber: number
+  name: string
+  errors: string[]
+  // Shown in the preview; the row is still imported
+  warnings: string[]
+  possibleDuplicates: number
+  patient: ImportPatient | null
+  procedure: ImportProcedure | null
+  patientId?: string
+}
+
+type NameLookup = Map<string, { id: string; name: string }>
+
+interface ImportLookups {
+  attorneys: NameLookup
+  payers: NameLookup
+  statuses: NameLookup
+  exams: NameLookup
+  facilities: NameLookup
+  physicians: NameLookup
+}
+
+function toLookup(records: { id: string; names: string[]; name: string }[]): NameLookup {
+  const lookup: NameLookup = new Map()
+  for (const record of records) {
+    for (const name of record.names) {
+      const key = normalizeName(name)
+      if (key && !lookup.has(key)) lookup.set(key, { id: record.id, name: record.name })
+    }
+  }
+  return lookup
+}
+
+async function loadLookups(): Promise<ImportLookups> {
+  const [attorneys, payers, statuses, exams, facilities, physicians] = await Promise.all([
+    prisma.attorney.findMany({ select: { id: true, firstName: true, lastName: true, user: { select: { name: true } } } }),
+    prisma.payer.findMany({ select: { id: true, name: true } }),
+    prisma.status.findMany({ select: { id: true, name: true } }),
+    prisma.exam.findMany({ select: { id: true, name: true } }),
+    prisma.facility.findMany({ select: { id: true, name: true } }),
+    prisma.provider.findMany({ where: { roles: { has: 'READING' } }, select: { id: true, name: true } }),
+  ])
+  const byName = (records: { id: string; name: string }[]) =>
+    toLookup(records.map((record) => ({ ...record, names: [record.name] })))
+
+  // Patients are linked to attorneys by the attorney's account name, so that is
+  // what gets stored whichever spelling the sheet used
+  return {
+    attorneys: toLookup(attorneys.map((attorney) => ({
+      id: attorney.id,
+      name: attorney.user.name,
+      names: [
+        attorney.user.name,
+        `${attorney.firstName} ${attorney.lastName}`,
+        `${attorney.lastName} ${attorney.firstName}`,
+      ],
+    }))),
+    payers: byName(payers),
+    statuses: byName(statuses),
+    exams: byName(exams),
+    facilities: byName(facilities),
+    physicians: byName(physicians),
+  }
+}
+
+function mappedRow(row: string[], mapping: ColumnMapping) {
+  const values: Partial<Record<ImportFieldKey, string>> = {}
+  for (const field of IMPORT_FIELDS) {
+    const column = mapping[field.key]
+    if (column !== undefined) values[field.key] = row[column] ?? ''
+  }
+  return values
+}
+
+function resolveRow(row: ImportRow, defaults: ImportDefaults, lookups: ImportLookups, errors: string[]) {
+  const match = (lookup: NameLookup, value: string | undefined, label: string) => {
+    if (!value) return undefined
+    const found = lookup.get(normalizeName(value))
+    if (!found) errors.push(`${label} "${value}" was not found`)
+    return found
+  }
+
+  const attorney = match(lookups.attorneys, row.attorney, 'Attorney')
+  const payer = match(lookups.payers, row.payer, 'Payer')
+  const status = match(lookups.statuses, row.status, 'Patient Status')
+  const patient: ImportPatient = {
+    firstName: row.firstName,
+    lastName: row.lastName,
+    middleName: row.middleName ?? '',
+    dateOfBirth: row.dateOfBirth,
+    gender: row.gender ?? 'unknown',
+    phone: row.phone,
+    altNumber: row.altNumber ?? '',
+    email: row.email ?? null,
+    address: row.address ?? '',
+    city: row.city ?? '',
+    zip: row.zip ?? '',
+    doidol: row.doidol?.toISOString() ?? null,
+    lawyer: attorney?.name ?? '',
+    payerId: payer?.id ?? null,
+    statusId: status?.id ?? defaults.statusId,
+    orderDate: row.orderDate ?? null,
+    orderFor: row.orderFor ?? '',
+  }
+
+  if (!row.exam || !row.scheduleDate || !row.scheduleTime) {
+    return { patient, procedure: null }
+  }
+
+  const exam = match(lookups.exams, row.exam, 'Exam')
+  const facilityId = match(lookups.facilities, row.facility, 'Facility')?.id ?? defaults.facilityId
+  const physicianId = match(lookups.physicians, row.physician, 'Physician')?.id ?? defaults.physicianId
+  const procedureStatusId = match(lookups.statuses, row.procedureStatus, 'Procedure Status')?.id
+  if (!row.facility && !facilityId) errors.push('Facility is required for a procedure')
+  if (!row.physician && !physicianId) errors.push('Physician is required for a procedure')
+
+  if (!exam || !facilityId || !physicianId) {
+    return { patient, procedure: null }
+  }
+  return {
+    patient,
+    procedure: {
+      examId: exam.id,
+      facilityId,
+      physicianId,
+      statusId: procedureStatusId ?? defaults.procedureStatusId ?? patient.statusId,
+      scheduleDate: row.scheduleDate,
+      scheduleTime: row.scheduleTime,
+    },
+  }
+}
+
+function conflictErrors(slot: SlotCheck) {
+  return slot.conflicts.map((conflict) =>
+    `${conflict.time} is already booked for ${conflict.examName}${conflict.resourceName ? ` in ${conflict.resourceName}` : ''}`
+  )
+}
+
+// The same booking rules as the add form: double bookings are refused, times
+// outside operating hours only warn
+async function checkProcedureSlot(procedure: ImportProcedure, errors: string[], warnings: string[]) {
+  try {
+    const slot = await checkSlot({
+      facilityId: procedure.facilityId,
+      examId: procedure.examId,
+      date: procedure.scheduleDate,
+      time: procedure.scheduleTime,
+    })
+    errors.push(...conflictErrors(slot))
+    warnings.push(...slot.warnings)
+    return slot
+  } catch (error) {
+    if (error instanceof SchedulingError) {
+      errors.push(error.message)
+      return null
+    }
+    throw error
+  }
+}
+
+export async function validateImport(
+  table: ImportTable,
+  mapping: ColumnMapping,
+  defaults: ImportDefaults
+): Promise<ImportRowResult[]> {
+  const missing = IMPORT_FIELDS.filter((field) => 'required' in field && mapping[field.key] === undefined)
+  if (missing.length > 0) {
+    throw new ImportError(`Map a column to ${missing.map((field) => field.label).join(', ')}`)
+  }
+  if (!defaults.statusId) {
+    throw new ImportError('Choose a default patient status')
+  }
+  if (table.rows.length > MAX_IMPORT_ROWS) {
+    throw new ImportError(`Files are limited to ${MAX_IMPORT_ROWS} rows`)
+  }
+
+  const lookups = await loadLookups()
+  if (![...lookups.statuses.values()].some((status) => status.id === defaults.statusId)) {
+    throw new ImportError('The default patient status no longer exists')
+  }
+
+  const results: ImportRowResult[] = []
+  for (const [index, cells] of table.rows.entries()) {
+    const values = mappedRow(cells, mapping)
+    const rowNumber = index + 2
+    const name = [values.firstName, values.lastName].filter(Boolean).join(' ')
+    const parsed = importRowSchema.safeParse(values)
+    if (!parsed.success) {
+      results.push({
+        rowNumber,
+        name,
+        errors: parsed.error.issues.map((issue) => issue.message),
+        warnings: [],
+        possibleDuplicates: 0,
+        patient: null,
+        procedure: null,
+      })
+      continue
+    }
+
+    const errors: string[] = []
+    const warnings: string[] = []
+    const { patient, procedure } = resolveRow(parsed.data, defaults, lookups, errors)
+    if (procedure && errors.length === 0) {
+      await checkProcedureSlot(procedure, errors, warnings)
+    }
+
+    const duplicates = errors.length > 0 ? [] : await findPossibleDuplicates(patient)
+    for (const duplicate of duplicates) {
+      warnings.push(`May already be in the system as ${duplicate.firstName} ${duplicate.lastName} (${duplicate.reasons.join(', ').toLowerCase()})`)
+    }
+
+    results.push({
+      rowNumber,
+      name,
+      errors,
+      warnings,
+      possibleDuplicates: duplicates.length,
+      patient: errors.length > 0 ? null : patient,
+      procedure: errors.length > 0 ? null : procedure,
+    })
+  }
+  return results
+}
+
+// Rows are created one at a time so a failure only costs that row; the
+// follow-up work matches a patient created from the add form. Each procedure's
+// slot is checked again just before it is created, which also catches two rows
+// of the same file booking one slot.
+export async function commitImport(
+  session: Session,
+  results: ImportRowResult[],
+  request: Request
+): Promise<ImportRowResult[]> {
+  const committed: ImportRowResult[] = []
+  const procedureIds: string[] = []
+
+  for (const result of results) {
+    if (!result.patient || result.errors.length > 0) {
+      committed.push(result)
+      continue
+    }
+
+    const { statusId, payerId, doidol, ...fields } = result.patient
+    const { procedure } = result
+    const now = new Date()
+    try {
+      let resourceId: string | null = null
+      if (procedure) {
+        const slot = await checkSlot({
+          facilityId: procedure.facilityId,
+          examId: procedure.examId,
+          date: procedure.scheduleDate,
+          time: procedure.scheduleTime,
+        })
+        const conflicts = conflictErrors(slot)
+        if (conflicts.length > 0) {
+          committed.push({ ...result, errors: conflicts })
+          continue
+        }
+        resourceId = slot.resourceId
+      }
+
+      const patient = await prisma.patient.create({
+        data: {
+          ...fields,
+          ...(doidol && { doidol }),
+          createdAt: now,
+          updatedAt: now,
+          status: { connect: { id: statusId } },
+          ...(payerId && { payer: { connect: { id: payerId } } }),
+          ...(procedure && {
+            procedures: {
+              create: {
+                exam: { connect: { id: procedure.examId } },
+                facility: { connect: { id: procedure.facilityId } },
+                physician: { connect: { id: procedure.physicianId } },
+                status: { connect: { id: procedure.statusId } },
+                ...(resourceId && { resource: { connect: { id: resourceId } } }),
+                scheduleDate: procedure.scheduleDate,
+                scheduleTime: procedure.scheduleTime,
+                isCompleted: false,
+                createdAt: now,
+                updatedAt: now,
+              },
+            },
+          }),
+        },
+        include: { status: true, payer: true },
+      })
+
+      await syncProcedureCharges({ patientId: patient.id })
+      const procedures = await prisma.procedure.findMany({
+        where: { patientId: patient.id },
+        include: { exam: true },
+      })
+      await recordAudit(session, {
+        action: 'CREATE',
+        entityType: 'Patient',
+        entityId: patient.id,
+        patientId: patient.id,
+        summary: `${patientLabel(patient)} (imported)`,
+        after: patient,
+        ...(result.possibleDuplicates > 0 && { details: { possibleDuplicates: result.possibleDuplicates } }),
+      }, request)
+      await recordProcedureChanges(session, [], procedures, request)
+      await applyPatientTaskRules(session, null, patient)
+      await applyProcedureTaskRules(session, [], procedures)
+      procedureIds.push(...procedures.map((created) => created.id))
+
+      committed.push({ ...result, patientId: patient.id })
+    } catch (error) {
+      console.error(`[PATIENT_IMPORT] Row ${result.rowNumber} failed:`, error)
+      committed.push({ ...result, errors: ['The patient could not be saved'] })
+    }
+  }
+
+  await sendProcedureConfirmations(procedureIds)
+  return committed
+}
@@ -0,0 +1,28 @@
+// Used in the browser, so it only talks to the API
+
+export interface PatientOption {
+  id: string
+  firstName: string
+  lastName: string
+  name: string
+}
+
+// Pickers need every patient, so they walk the pages of the slim patient list
+export async function fetchAllPatients(): Promise<PatientOption[]> {
+  const patients: PatientOption[] = []
+  let cursor: string | null = null
+
+  do {
+    const query = new URLSearchParams({ limit: '100', ...(cursor && { cursor }) })
+    const response = await fetch(`/api/patients?${query}`)
+    if (!response.ok) {
+      throw new Error('Failed to fetch patients')
+    }
+
+    const page: { patients: PatientOption[]; nextCursor: string | null } = await response.json()
+    patients.push(...page.patients)
+    cursor = page.nextCursor
+  } while (cursor)
+
+  return patients
+}
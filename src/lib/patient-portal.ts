@@ -0,0 +1,240 @@
+import type { Prisma } from '@prisma/client'
+import type { Session } from 'next-auth'
+import { startOfDay } from 'date-fns'
+import { prisma } from '@/lib/prisma'
+import { procedureStartsAt, recordPatientResponse, REMINDER_RESPONSES, RESCHEDULE_REQUEST } from '@/lib/reminders'
+import { notifyRescheduleRequested } from '@/lib/notifications'
+import { deleteUpload, saveUpload } from '@/lib/storage'
+import { recordAudit } from '@/lib/audit'
+import { PATIENT_DOCUMENT_KINDS, type PatientDocumentKind } from '@/lib/validations'
+
+export const PATIENT_PORTAL_ACTIONS = ['CONFIRM', 'RESCHEDULE'] as const
+
+export type PatientPortalAction = (typeof PATIENT_PORTAL_ACTIONS)[number]
+
+const MAX_RESCHEDULE_NOTE_LENGTH = 500
+
+// Patients who sign themselves up start here until the office reviews them
+export const SELF_REGISTERED_STATUS = { name: 'Self-Registered', color: '#4f46e5' } as const
+
+export class PatientPortalError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'PatientPortalError'
+  }
+}
+
+export interface PortalPatientRecord {
+  id: string
+  firstName: string
+  lastName: string
+}
+
+// A PATIENT login sees exactly one record: the one registration linked to it
+export async function resolvePortalPatient(userId: string): Promise<PortalPatientRecord | null> {
+  return prisma.patient.findFirst({
+    where: { userId },
+    select: { id: true, firstName: true, lastName: true },
+  })
+}
+
+// Facilities without a saved map link get a search for their address
+export function facilityMapUrl(facility: { mapLink: string | null; address: string; city: string; state: string; zip: string }) {
+  if (facility.mapLink) return facility.mapLink
+  const address = `${facility.address}, ${facility.city}, ${facility.state} ${facility.zip}`
+  return `https://www.google.com/maps/search/?api=1&query=${encodeURIComponent(address)}`
+}
+
+const portalProcedureInclude = {
+  exam: {
+    select: {
+      name: true,
+      prepInstructions: true,
+    },
+  },
+  facility: {
+    select: {
+      name: true,
+      address: true,
+      city: true,
+      state: true,
+      zip: true,
+      phone: true,
+      mapLink: true,
+    },
+  },
+} satisfies Prisma.ProcedureInclude
+
+type PortalProcedureRecord = Prisma.ProcedureGetPayload<{ include: typeof portalProcedureInclude }>
+
+// Only what the patient needs to get to the appointment; billing and case
+// details stay with the office
+function toPortalProcedure(procedure: PortalProcedureRecord, now = new Date()) {
+  const startsAt = procedureStartsAt(procedure)
+  const confirmationStatus = procedure.confirmationStatus ?? 'PENDING'
+
+  return {
+    id: procedure.id,
+    startsAt: startsAt.toISOString(),
+    scheduleTime: procedure.scheduleTime,
+    examName: procedure.exam.name,
+    prepInstructions: procedure.exam.prepInstructions,
+    facility: {
+      ...procedure.facility,
+      mapUrl: facilityMapUrl(procedure.facility),
+    },
+    confirmationStatus,
+    rescheduleNote: procedure.rescheduleNote,
+    canRespond: startsAt > now && confirmationStatus !== 'CANCELLED',
+  }
+}
+
+export type PortalProcedure = ReturnType<typeof toPortalProcedure>
+
+const portalDocumentSelect = {
+  id: true,
+  kind: true,
+  name: true,
+  type: true,
+  size: true,
+  createdAt: true,
+} satisfies Prisma.PatientDocumentSelect
+
+export async function getPatientPortal(patient: PortalPatientRecord) {
+  const [procedures, documents] = await Promise.all([
+    prisma.procedure.findMany({
+      where: {
+        patientId: patient.id,
+        isCompleted: false,
+        scheduleDate: { gte: startOfDay(new Date()) },
+      },
+      include: portalProcedureInclude,
+      orderBy: [{ scheduleDate: 'asc' }, { scheduleTime: 'asc' }],
+    }),
+    listPatientDocuments(patient.id),
+  ])
+
+  return {
+    patient,
+    procedures: procedures.map((procedure) => toPortalProcedure(procedure)),
+    documents,
+  }
+}
+
+export async function respondToProcedure(
+  session: Session,
+  patient: PortalPatientRecord,
+  procedureId: string,
+  action: PatientPortalAction,
+  note: unknown,
+  request?: Request
+) {
+  const procedure = await prisma.procedure.findFirst({
+    where: { id: procedureId, patientId: patient.id },
+    include: portalProcedureInclude,
+  })
+  if (!procedure) {
+    throw new PatientPortalError('Appointment not found')
+  }
+  if (procedure.isCompleted || !toPortalProcedure(procedure).canRespond) {
+    throw new PatientPortalError('This appointment can no longer be changed online. Please call our office.')
+  }
+
+  if (action === 'CONFIRM') {
+    await recordPatientResponse(session, procedure, REMINDER_RESPONSES.CONFIRM, 'patient-portal', {}, request)
+  } else {
+    const rescheduleNote = typeof note === 'string' ? note.trim() : ''
+    if (rescheduleNote.length > MAX_RESCHEDULE_NOTE_LENGTH) {
+      throw new PatientPortalError(`Keep the note under ${MAX_RESCHEDULE_NOTE_LENGTH} characters`)
+    }
+
+    const requested = await recordPatientResponse(
+      session,
+      procedure,
+      RESCHEDULE_REQUEST,
+      'patient-portal',
+      { rescheduleNote: rescheduleNote || null },
+      request
+    )
+    await notifyRescheduleRequested(session, requested, patient, procedure.exam.name)
+  }
+
+  const updated = await prisma.procedure.findUniqueOrThrow({
+    where: { id: procedure.id },
+    include: portalProcedureInclude,
+  })
+  return toPortalProcedure(updated)
+}
+
+export function isPatientDocumentKind(kind: unknown): kind is PatientDocumentKind {
+  return Object.keys(PATIENT_DOCUMENT_KINDS).includes(kind as string)
+}
+
+export async function listPatientDocuments(patientId: string) {
+  return prisma.patientDocument.findMany({
+    where: { patientId },
+    select: portalDocumentSelect,
+    orderBy: { createdAt: 'desc' },
+  })
+}
+
+// Scoped by patient as well as id, so one patient can never reach another's file
+export async function findPatientDocument(patientId: string, documentId: string) {
+  return prisma.patientDocument.findFirst({
+    where: { id: documentId, patientId },
+  })
+}
+
+export async function addPatientDocument(
+  session: Session,
+  patient: PortalPatientRecord,
+  kind: PatientDocumentKind,
+  file: File,
+  request?: Request
+) {
+  const stored = await saveUpload(`patients/${patient.id}`, file)
+  const document = await prisma.patientDocument.create({
+    data: {
+      patientId: patient.id,
+      kind,
+      uploadedById: session.user.id,
+      ...stored,
+    },
+    select: portalDocumentSelect,
+  })
+
+  await recordAudit(session, {
+    action: 'UPDATE',
+    entityType: 'Patient',
+    entityId: patient.id,
+    patientId: patient.id,
+    summary: `${PATIENT_DOCUMENT_KINDS[kind]} uploaded in the patient portal`,
+    details: { documentId: document.id, kind, name: document.name },
+  }, request)
+
+  return document
+}
+
+export async function removePatientDocument(
+  session: Session,
+  patient: PortalPatientRecord,
+  documentId: string,
+  request?: Request
+) {
+  const document = await findPatientDocument(patient.id, documentId)
+  if (!document) {
+    throw new PatientPortalError('Document not found')
+  }
+
+  await prisma.patientDocument.delete({ where: { id: document.id } })
+  await deleteUpload(document.key)
+
+  await recordAudit(session, {
+    action: 'UPDATE',
+    entityType: 'Patient',
+    entityId: patient.id,
+    patientId: patient.id,
+    summary: `${PATIENT_DOCUMENT_KINDS[document.kind as PatientDocumentKind] ?? 'Document'} removed in the patient portal`,
+    details: { documentId: document.id, kind: document.kind, name: document.name },
+  }, request)
+}
@@ -0,0 +1,206 @@
+import type { Prisma } from '@prisma/client'
+import { prisma } from '@/lib/prisma'
+import { attorneyPatientWhere } from '@/lib/permissions'
+
+export const DEFAULT_PAGE_SIZE = 25
+export const MAX_PAGE_SIZE = 100
+
+export interface PatientSearch {
+  q: string | null
+  statusId: string | null
+  payerId: string | null
+  attorneyId: string | null
+  facilityId: string | null
+  injuryFrom: Date | null
+  injuryTo: Date | null
+  hasOpenProcedures: boolean | null
+  cursor: string | null
+  limit: number
+}
+
+function parseDay(value: string | null) {
+  if (!value) return null
+  const date = new Date(value)
+  return isNaN(date.getTime()) ? null : date
+}
+
+export function parsePatientSearch(searchParams: URLSearchParams): PatientSearch {
+  const limit = Number(searchParams.get('limit')) || DEFAULT_PAGE_SIZE
+  const hasOpen = searchParams.get('hasOpenProcedures')
+
+  return {
+    q: searchParams.get('q')?.trim() || null,
+    statusId: searchParams.get('statusId'),
+    payerId: searchParams.get('payerId'),
+    attorneyId: searchParams.get('attorneyId'),
+    facilityId: searchParams.get('facilityId'),
+    injuryFrom: parseDay(searchParams.get('injuryFrom')),
+    injuryTo: parseDay(searchParams.get('injuryTo')),
+    hasOpenProcedures: hasOpen === 'true' ? true : hasOpen === 'false' ? false : null,
+    cursor: searchParams.get('cursor'),
+    limit: Math.min(Math.max(Math.floor(limit), 1), MAX_PAGE_SIZE),
+  }
+}
+
+// Accepts MM/DD/YYYY and YYYY-MM-DD, the two ways staff type a birth date
+function parseBirthDate(token: string) {
+  const us = /^(\d{1,2})\/(\d{1,2})\/(\d{4})$/.exec(token)
+  const iso = /^(\d{4})-(\d{2})-(\d{2})$/.exec(token)
+  if (!us && !iso) return null
+
+  const [year, month, day] = us
+    ? [Number(us[3]), Number(us[1]), Number(us[2])]
+    : [Number(iso![1]), Number(iso![2]), Number(iso![3])]
+
+  const start = new Date(Date.UTC(year, month - 1, day))
+  if (start.getUTCMonth() !== month - 1) return null
+  return { gte: start, lt: new Date(start.getTime() + 24 * 60 * 60 * 1000) }
+}
+
+// Phones are stored as (XXX) XXX-XXXX, so a full number typed as digits is
+// reformatted before matching
+function phoneVariants(token: string) {
+  const digits = token.replace(/\D/g, '')
+  const variants = [token]
+  if (digits.length === 10) {
+    variants.push(`(${digits.slice(0, 3)}) ${digits.slice(3, 6)}-${digits.slice(6)}`)
+  } else if (digits.length === 7) {
+    variants.push(`${digits.slice(0, 3)}-${digits.slice(3)}`)
+  }
+  return variants
+}
+
+// Every word of the query has to match the name, phone, email, birth date or
+// one of the patient's case numbers
+function searchTokenWhere(token: string): Prisma.PatientWhereInput {
+  const birthDate = parseBirthDate(token)
+  if (birthDate) {
+    return { dateOfBirth: birthDate }
+  }
+
+  const contains = { contains: token, mode: 'insensitive' as const }
+  return {
+    OR: [
+      { firstName: contains },
+      { lastName: contains },
+      { email: contains },
+      { cases: { some: { caseNumber: contains } } },
+      ...phoneVariants(token).map((phone) => ({ phone: { contains: phone } })),
+    ],
+  }
+}
+
+// doidol is an untyped field holding either a date or an ISO string, which
+// Prisma cannot range-filter, so the range is resolved with a raw query
+async function patientIdsInjuredBetween(from: Date | null, to: Date | null) {
+  const range = (value: (date: Date) => Prisma.InputJsonValue) => ({
+    ...(from && { $gte: value(from) }),
+    ...(to && { $lt: value(new Date(to.getTime() + 24 * 60 * 60 * 1000)) }),
+  })
+
+  const rows = await prisma.patient.findRaw({
+    filter: {
+      $or: [
+        { doidol: range((date) => ({ $date: date.toISOString() })) },
+        { doidol: range((date) => date.toISOString()) },
+      ],
+    },
+    options: { projection: { _id: 1 } },
+  }) as unknown as { _id: { $oid: string } }[]
+
+  return rows.map((row) => row._id.$oid)
+}
+
+export async function buildPatientSearchWhere(search: PatientSearch): Promise<Prisma.PatientWhereInput> {
+  const conditions: Prisma.PatientWhereInput[] = []
+
+  if (search.q) {
+    conditions.push(...search.q.split(/\s+/).map(searchTokenWhere))
+  }
+  if (search.statusId) {
+    conditions.push({ statusId: search.statusId })
+  }
+  if (search.payerId) {
+    conditions.push({ payerId: search.payerId })
+  }
+  if (search.attorneyId) {
+    const attorney = await prisma.attorney.findUnique({
+      where: { id: search.attorneyId },
+      select: { id: true, user: { select: { name: true } } },
+    })
+    conditions.push(attorney ? attorneyPatientWhere({ id: attorney.id, name: attorney.user.name }) : { id: { in: [] } })
+  }
+  if (search.facilityId) {
+    conditions.push({ procedures: { some: { facilityId: search.facilityId } } })
+  }
+  if (search.injuryFrom || search.injuryTo) {
+    conditions.push({ id: { in: await patientIdsInjuredBetween(search.injuryFrom, search.injuryTo) } })
+  }
+  if (search.hasOpenProcedures !== null) {
+    conditions.push(
+      search.hasOpenProcedures
+        ? { procedures: { some: { isCompleted: false } } }
+        : { procedures: { none: { isCompleted: false } } }
+    )
+  }
+
+  return { AND: conditions }
+}
+
+// Just what the list needs; the full record is loaded on the patient page
+export const patientListSelect = {
+  id: true,
+  firstName: true,
+  lastName: true,
+  dateOfBirth: true,
+  phone: true,
+  email: true,
+  doidol: true,
+  lawyer: true,
+  status: {
+    select: {
+      id: true,
+      name: true,
+      color: true,
+    },
+  },
+  payer: {
+    select: {
+      id: true,
+      name: true,
+    },
+  },
+  procedures: {
+    where: { isCompleted: false },
+    orderBy: { scheduleDate: 'asc' },
+    select: {
+      id: true,
+      scheduleDate: true,
+      scheduleTime: true,
+      exam: {
+        select: {
+          name: true,
+        },
+      },
+    },
+  },
+} satisfies Prisma.PatientSelect
+
+type PatientListRow = Prisma.PatientGetPayload<{ select: typeof patientListSelect }>
+
+export function toPatientListItem({ procedures, ...patient }: PatientListRow) {
+  return {
+    ...patient,
+    name: `${patient.firstName} ${patient.lastName}`,
+    openProcedureCount: procedures.length,
+    nextProcedure: procedures[0] ?? null,
+  }
+}
+
+export type PatientListItem = ReturnType<typeof toPatientListItem>
+
+export interface PatientPage {
+  patients: PatientListItem[]
+  nextCursor: string | null
+  total: number
+}
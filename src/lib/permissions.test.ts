@@ -0,0 +1,189 @@
+import { describe, expect, it } from 'vitest'
+import {
+  apiPermissions,
+  appointmentScopeWhere,
+  canAccessApi,
+  isAuthPagePath,
+  isPublicApiPath,
+  matchApiRoute,
+  patientScopeWhere,
+  ROLES,
+} from '@/lib/permissions'
+
+const attorney = { id: 'attorney-1', name: 'Jane Counsel' }
+
+describe('isAuthPagePath', () => {
+  it('lets emailed reset and invitation links open without a session', () => {
+    expect(isAuthPagePath('/new-password')).toBe(true)
+    expect(isAuthPagePath('/reset-password')).toBe(true)
+    expect(isAuthPagePath('/login')).toBe(true)
+    expect(isAuthPagePath('/patients')).toBe(false)
+  })
+})
+
+describe('matchApiRoute', () => {
+  it('matches static and dynamic segments', () => {
+    expect(matchApiRoute('/api/patients')?.route).toBe('/api/patients')
+    expect(matchApiRoute('/api/patients/abc123')?.route).toBe('/api/patients/[id]')
+    expect(matchApiRoute('/api/lops/abc123/document')?.route).toBe('/api/lops/[id]/document')
+  })
+
+  it('prefers static segments over dynamic ones', () => {
+    expect(matchApiRoute('/api/invoices/export')?.route).toBe('/api/invoices/export')
+    expect(matchApiRoute('/api/procedures/scheduled')?.route).toBe('/api/procedures/scheduled')
+  })
+
+  it('ignores trailing slashes', () => {
+    expect(matchApiRoute('/api/patients/')?.route).toBe('/api/patients')
+  })
+
+  it('returns null for unknown routes', () => {
+    expect(matchApiRoute('/api/unknown')).toBeNull()
+    expect(matchApiRoute('/api/patients/abc/extra')).toBeNull()
+  })
+})
+
+describe('canAccessApi', () => {
+  it('lets every role through public routes', () => {
+    expect(isPublicApiPath('/api/auth/session')).toBe(true)
+    expect(isPublicApiPath('/api/auth/callback/credentials')).toBe(true)
+    expect(canAccessApi(undefined, 'POST', '/api/auth/register')).toBe(true)
+  })
+
+  it('denies unknown roles and unknown routes', () => {
+    expect(canAccessApi(undefined, 'GET', '/api/patients')).toBe(false)
+    expect(canAccessApi('PATIENT', 'GET', '/api/patients')).toBe(false)
+    expect(canAccessApi('ADMIN', 'GET', '/api/unknown')).toBe(false)
+  })
+
+  it('denies methods that are not listed for a route', () => {
+    expect(canAccessApi('ADMIN', 'DELETE', '/api/charges')).toBe(false)
+    expect(canAccessApi('ADMIN', 'PATCH', '/api/patients')).toBe(false)
+  })
+
+  it('restricts writes to office staff', () => {
+    expect(canAccessApi('STAFF', 'POST', '/api/patients')).toBe(true)
+    expect(canAccessApi('DOCTOR', 'POST', '/api/patients')).toBe(false)
+    expect(canAccessApi('ATTORNEY', 'PUT', '/api/patients/abc')).toBe(false)
+  })
+
+  it('limits admin-only routes to admins', () => {
+    expect(canAccessApi('ADMIN', 'GET', '/api/monitoring')).toBe(true)
+    expect(canAccessApi('STAFF', 'GET', '/api/monitoring')).toBe(false)
+    expect(canAccessApi('STAFF', 'DELETE', '/api/patients/abc')).toBe(false)
+  })
+
+  it('gives doctors and attorneys read access to scoped clinical records', () => {
+    for (const role of ['DOCTOR', 'ATTORNEY', 'CASE_MANAGER']) {
+      expect(canAccessApi(role, 'GET', '/api/patients')).toBe(true)
+      expect(canAccessApi(role, 'GET', '/api/patients/abc')).toBe(true)
+      expect(canAccessApi(role, 'GET', '/api/procedures')).toBe(true)
+    }
+  })
+
+  it('keeps billing and reports away from doctors and attorneys', () => {
+    for (const role of ['DOCTOR', 'ATTORNEY', 'CASE_MANAGER']) {
+      expect(canAccessApi(role, 'GET', '/api/invoices')).toBe(false)
+      expect(canAccessApi(role, 'GET', '/api/reports')).toBe(false)
+    }
+  })
+
+  it('reserves the attorney portal for attorney-side logins', () => {
+    expect(canAccessApi('ATTORNEY', 'GET', '/api/portal/attorney')).toBe(true)
+    expect(canAccessApi('CASE_MANAGER', 'GET', '/api/portal/attorney/patients/abc')).toBe(true)
+    expect(canAccessApi('ADMIN', 'GET', '/api/portal/attorney')).toBe(false)
+  })
+
+  it('reserves the referral portal for doctors', () => {
+    expect(canAccessApi('DOCTOR', 'GET', '/api/portal/doctor')).toBe(true)
+    expect(canAccessApi('DOCTOR', 'POST', '/api/portal/doctor/referrals')).toBe(true)
+    expect(canAccessApi('STAFF', 'POST', '/api/portal/doctor/referrals')).toBe(false)
+    expect(canAccessApi('PATIENT', 'GET', '/api/portal/doctor')).toBe(false)
+  })
+
+  it('keeps patients to their own portal', () => {
+    expect(canAccessApi('PATIENT', 'GET', '/api/portal/patient')).toBe(true)
+    expect(canAccessApi('PATIENT', 'POST', '/api/portal/patient/documents')).toBe(true)
+    expect(canAccessApi('PATIENT', 'GET', '/api/procedures')).toBe(false)
+    expect(canAccessApi('PATIENT', 'GET', '/api/portal/attorney')).toBe(false)
+    expect(canAccessApi('STAFF', 'GET', '/api/portal/patient')).toBe(false)
+  })
+
+  it('is case-insensitive about the HTTP method', () => {
+    expect(canAccessApi('STAFF', 'get', '/api/patients')).toBe(true)
+  })
+
+  it('grants ADMIN every method on every route that lists one', () => {
+    for (const permission of apiPermissions) {
+      if (permission.route.startsWith('/api/portal')) continue
+      for (const method of Object.keys(permission.methods)) {
+        expect(permission.methods[method as keyof typeof permission.methods]).toContain('ADMIN')
+      }
+    }
+  })
+
+  it('only references known roles', () => {
+    for (const permission of apiPermissions) {
+      for (const roles of Object.values(permission.methods)) {
+        for (const role of roles ?? []) {
+          expect(ROLES).toContain(role)
+        }
+      }
+    }
+  })
+})
+
+describe('patientScopeWhere', () => {
+  it('does not restrict office staff', () => {
+    expect(patientScopeWhere({ role: 'ADMIN' })).toEqual({})
+    expect(patientScopeWhere({ role: 'STAFF' })).toEqual({})
+  })
+
+  it('limits doctors to patients they referred or have appointments with', () => {
+    expect(patientScopeWhere({ role: 'DOCTOR', doctorIds: ['doctor-1'] })).toEqual({
+      OR: [
+        { referringDoctorId: { in: ['doctor-1'] } },
+        { appointments: { some: { doctorId: { in: ['doctor-1'] } } } },
+      ],
+    })
+  })
+
+  it('limits attorney-side logins to their own clients', () => {
+    const expected = {
+      OR: [
+        { lawyer: { equals: 'Jane Counsel' } },
+        { lops: { some: { attorneyId: 'attorney-1' } } },
+      ],
+    }
+    expect(patientScopeWhere({ role: 'ATTORNEY', attorney })).toEqual(expected)
+    expect(patientScopeWhere({ role: 'CASE_MANAGER', attorney })).toEqual(expected)
+  })
+
+  it('matches nothing when a login is not linked to a doctor, attorney or patient', () => {
+    expect(patientScopeWhere({ role: 'DOCTOR', doctorIds: [] })).toEqual({ id: { in: [] } })
+    expect(patientScopeWhere({ role: 'ATTORNEY', attorney: null })).toEqual({ id: { in: [] } })
+    expect(patientScopeWhere({ role: 'PATIENT', patientId: null })).toEqual({ id: { in: [] } })
+  })
+
+  it('limits patients to their own record', () => {
+    expect(patientScopeWhere({ role: 'PATIENT', patientId: 'patient-1' })).toEqual({ id: 'patient-1' })
+  })
+})
+
+describe('appointmentScopeWhere', () => {
+  it('limits doctors to their own appointments', () => {
+    expect(appointmentScopeWhere({ role: 'DOCTOR', doctorIds: ['doctor-1'] })).toEqual({
+      doctorId: { in: ['doctor-1'] },
+    })
+  })
+
+  it('limits attorneys to appointments of their clients', () => {
+    expect(appointmentScopeWhere({ role: 'ATTORNEY', attorney })).toEqual({
+      patient: patientScopeWhere({ role: 'ATTORNEY', attorney }),
+    })
+  })
+
+  it('does not restrict office staff', () => {
+    expect(appointmentScopeWhere({ role: 'STAFF' })).toEqual({})
+  })
+})
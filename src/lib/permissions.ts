@@ -0,0 +1,232 @@
+import type { Prisma } from '@prisma/client'
+
+// This module is imported by the middleware, so it has to stay free of Prisma
+// client and Node-only imports.
+
+export const ROLES = ['ADMIN', 'STAFF', 'DOCTOR', 'ATTORNEY', 'CASE_MANAGER', 'PATIENT'] as const
+
+export type Role = (typeof ROLES)[number]
+
+export type HttpMethod = 'GET' | 'POST' | 'PUT' | 'PATCH' | 'DELETE'
+
+export type MethodPermissions = Partial<Record<HttpMethod, readonly Role[]>>
+
+export interface ApiPermission {
+  route: string
+  methods: MethodPermissions
+}
+
+const ADMIN_ONLY: readonly Role[] = ['ADMIN']
+const STAFF: readonly Role[] = ['ADMIN', 'STAFF']
+const DOCTOR_ONLY: readonly Role[] = ['DOCTOR']
+const ATTORNEY_SIDE: readonly Role[] = ['ATTORNEY', 'CASE_MANAGER']
+const PATIENT_ONLY: readonly Role[] = ['PATIENT']
+// DOCTOR and ATTORNEY-side roles only ever get record-filtered results.
+// Patients are left out; they only reach the patient portal and their account.
+const ALL: readonly Role[] = ['ADMIN', 'STAFF', 'DOCTOR', 'ATTORNEY', 'CASE_MANAGER']
+const ANY_LOGIN: readonly Role[] = ROLES
+
+// Reachable without a session: sign-in, sign-up and password reset flows,
+// tokenized reminder links, and the job runner (which checks CRON_SECRET itself)
+export const publicApiRoutes = [
+  '/api/auth/[...nextauth]',
+  '/api/auth/register',
+  '/api/auth/reset-password',
+  '/api/auth/update-password',
+  '/api/auth/logout',
+  '/api/patients/register',
+  '/api/reminders/[token]',
+  '/api/jobs/run',
+]
+
+// Pages that work without a session. /new-password is opened from emailed
+// reset and invitation links, so it must not bounce to /login.
+export const authPagePaths = ['/login', '/register', '/reset-password', '/new-password']
+
+export function isAuthPagePath(pathname: string) {
+  return authPagePaths.some((path) => pathname.startsWith(path))
+}
+
+// The single source of truth for who may call what. Routes that are missing
+// from this table are denied for every role.
+export const apiPermissions: ApiPermission[] = [
+  { route: '/api/appointments', methods: { GET: ALL, POST: STAFF, PUT: STAFF, DELETE: STAFF } },
+  { route: '/api/appointments/sync', methods: { POST: STAFF } },
+  { route: '/api/attorneys', methods: { GET: STAFF, POST: STAFF, PUT: STAFF, DELETE: ADMIN_ONLY } },
+  { route: '/api/attorneys/[id]', methods: { PUT: STAFF } },
+  { route: '/api/auth/me', methods: { GET: ANY_LOGIN } },
+  { route: '/api/availability', methods: { GET: STAFF } },
+  { route: '/api/cases', methods: { GET: ALL, POST: STAFF } },
+  { route: '/api/cases/[id]', methods: { GET: ALL, PUT: STAFF, DELETE: ADMIN_ONLY } },
+  { route: '/api/cases/[id]/reports', methods: { POST: STAFF } },
+  { route: '/api/charges', methods: { GET: STAFF } },
+  { route: '/api/events', methods: { GET: ADMIN_ONLY } },
+  { route: '/api/events/export', methods: { GET: ADMIN_ONLY } },
+  { route: '/api/exam-types', methods: { GET: ALL, POST: STAFF } },
+  { route: '/api/exams', methods: { GET: ALL, POST: STAFF, PUT: STAFF, DELETE: STAFF } },
+  { route: '/api/exams/[id]', methods: { GET: ALL, PUT: STAFF, DELETE: STAFF } },
+  { route: '/api/facilities', methods: { GET: ALL, POST: STAFF, PUT: STAFF, DELETE: STAFF } },
+  { route: '/api/facilities/[id]', methods: { GET: ALL, PUT: STAFF, DELETE: STAFF } },
+  { route: '/api/facilities/[id]/resources', methods: { GET: STAFF, POST: STAFF } },
+  { route: '/api/facilities/[id]/resources/[resourceId]', methods: { PUT: STAFF, DELETE: STAFF } },
+  { route: '/api/geo/cities', methods: { GET: ALL } },
+  { route: '/api/geo/zip/[zip]', methods: { GET: ALL } },
+  { route: '/api/invoices', methods: { GET: STAFF, POST: STAFF } },
+  { route: '/api/invoices/export', methods: { GET: STAFF } },
+  { route: '/api/invoices/[id]', methods: { GET: STAFF, PUT: STAFF } },
+  { route: '/api/invoices/[id]/payments', methods: { POST: STAFF } },
+  { route: '/api/invoices/[id]/reductions', methods: { POST: STAFF } },
+  { route: '/api/lops', methods: { GET: ALL, POST: STAFF } },
+  { route: '/api/lops/[id]', methods: { GET: ALL, PUT: STAFF, DELETE: STAFF } },
+  { route: '/api/lops/[id]/document', methods: { GET: ALL, POST: STAFF } },
+  { route: '/api/monitoring', methods: { GET: ADMIN_ONLY, DELETE: ADMIN_ONLY } },
+  { route: '/api/notifications', methods: { GET: ALL, PATCH: ALL } },
+  { route: '/api/notifications/preferences', methods: { GET: ALL, PUT: ALL } },
+  { route: '/api/patients', methods: { GET: ALL, POST: STAFF, PUT: STAFF, DELETE: ADMIN_ONLY } },
+  { route: '/api/patients/[id]', methods: { GET: ALL, PUT: STAFF, DELETE: ADMIN_ONLY } },
+  { route: '/api/patients/[id]/documents', methods: { GET: STAFF } },
+  { route: '/api/patients/[id]/documents/[documentId]', methods: { GET: STAFF } },
+  { route: '/api/patients/[id]/duplicates', methods: { GET: ADMIN_ONLY } },
+  { route: '/api/patients/import', methods: { POST: STAFF } },
+  { route: '/api/patients/import/parse', methods: { POST: STAFF } },
+  { route: '/api/patients/import/preview', methods: { POST: STAFF } },
+  { route: '/api/patients/merge', methods: { POST: ADMIN_ONLY } },
+  { route: '/api/payers', methods: { GET: ALL, POST: STAFF, PUT: STAFF, DELETE: STAFF } },
+  { route: '/api/payers/[id]', methods: { GET: ALL } },
+  { route: '/api/portal/attorney', methods: { GET: ATTORNEY_SIDE } },
+  { route: '/api/portal/attorney/patients/[id]', methods: { GET: ATTORNEY_SIDE } },
+  { route: '/api/portal/doctor', methods: { GET: DOCTOR_ONLY } },
+  { route: '/api/portal/doctor/referrals', methods: { POST: DOCTOR_ONLY } },
+  { route: '/api/portal/patient', methods: { GET: PATIENT_ONLY } },
+  { route: '/api/portal/patient/documents', methods: { POST: PATIENT_ONLY } },
+  { route: '/api/portal/patient/documents/[id]', methods: { GET: PATIENT_ONLY, DELETE: PATIENT_ONLY } },
+  { route: '/api/portal/patient/procedures/[id]', methods: { POST: PATIENT_ONLY } },
+  { route: '/api/procedures', methods: { GET: ALL, POST: STAFF, PUT: STAFF, DELETE: STAFF } },
+  { route: '/api/procedures/scheduled', methods: { GET: STAFF } },
+  { route: '/api/providers', methods: { GET: ALL, POST: STAFF } },
+  { route: '/api/providers/[id]', methods: { GET: ALL, PUT: STAFF, DELETE: STAFF } },
+  { route: '/api/providers/[id]/login', methods: { PATCH: ADMIN_ONLY } },
+  { route: '/api/providers/[id]/status', methods: { PATCH: STAFF } },
+  { route: '/api/providers/npi/[npi]', methods: { GET: STAFF } },
+  { route: '/api/reports', methods: { GET: STAFF, POST: STAFF } },
+  { route: '/api/reports/[id]', methods: { GET: STAFF, DELETE: STAFF } },
+  { route: '/api/scheduling/book', methods: { POST: STAFF } },
+  { route: '/api/scheduling/plan', methods: { POST: STAFF } },
+  { route: '/api/security-policy', methods: { GET: ADMIN_ONLY, PUT: ADMIN_ONLY } },
+  { route: '/api/sessions', methods: { GET: ADMIN_ONLY, DELETE: ADMIN_ONLY } },
+  { route: '/api/sessions/[id]', methods: { DELETE: ADMIN_ONLY } },
+  { route: '/api/settings', methods: { GET: ALL, PUT: ALL } },
+  { route: '/api/settings/password', methods: { PUT: ANY_LOGIN } },
+  { route: '/api/settings/two-factor', methods: { GET: ALL, POST: ALL, PUT: ALL, DELETE: ALL } },
+  { route: '/api/settings/two-factor/recovery-codes', methods: { POST: ALL } },
+  { route: '/api/staff', methods: { GET: ADMIN_ONLY, POST: ADMIN_ONLY, PUT: ADMIN_ONLY, DELETE: ADMIN_ONLY } },
+  { route: '/api/statuses', methods: { GET: ALL, POST: STAFF, PUT: STAFF, PATCH: STAFF, DELETE: STAFF } },
+  { route: '/api/statuses/export', methods: { GET: STAFF } },
+  { route: '/api/task-rules', methods: { GET: ADMIN_ONLY, POST: ADMIN_ONLY } },
+  { route: '/api/task-rules/[id]', methods: { PUT: ADMIN_ONLY, DELETE: ADMIN_ONLY } },
+  { route: '/api/tasks', methods: { GET: STAFF, POST: STAFF } },
+  { route: '/api/tasks/[id]/comments', methods: { POST: STAFF } },
+  { route: '/api/tasks/[id]/comments/[commentId]', methods: { DELETE: STAFF } },
+  { route: '/api/tasks/[id]/attachments', methods: { POST: STAFF } },
+  { route: '/api/tasks/[id]/attachments/[attachmentId]', methods: { GET: STAFF, DELETE: STAFF } },
+  { route: '/api/tasks/[id]', methods: { GET: STAFF, PUT: STAFF, DELETE: STAFF } },
+  { route: '/api/users', methods: { GET: STAFF } },
+]
+
+export function isRole(value: unknown): value is Role {
+  return ROLES.includes(value as Role)
+}
+
+function routeMatches(route: string, pathname: string) {
+  const routeParts = route.split('/').filter(Boolean)
+  const pathParts = pathname.replace(/\/+$/, '').split('/').filter(Boolean)
+
+  for (let i = 0; i < routeParts.length; i++) {
+    // Catch-all segments swallow the rest of the path
+    if (routeParts[i].startsWith('[...')) {
+      return pathParts.length >= i + 1
+    }
+    if (pathParts[i] === undefined) return false
+    if (routeParts[i].startsWith('[')) continue
+    if (routeParts[i] !== pathParts[i]) return false
+  }
+
+  return routeParts.length === pathParts.length
+}
+
+// Static segments win over dynamic ones, so /api/invoices/export is not
+// mistaken for /api/invoices/[id]
+export function matchApiRoute(pathname: string) {
+  return apiPermissions
+    .filter((permission) => routeMatches(permission.route, pathname))
+    .sort((a, b) => (a.route.match(/\[/g)?.length ?? 0) - (b.route.match(/\[/g)?.length ?? 0))[0] ?? null
+}
+
+export function isPublicApiPath(pathname: string) {
+  return publicApiRoutes.some((route) => routeMatches(route, pathname))
+}
+
+export function canAccessApi(role: unknown, method: string, pathname: string) {
+  if (isPublicApiPath(pathname)) return true
+  if (!isRole(role)) return false
+
+  const permission = matchApiRoute(pathname)
+  const allowed = permission?.methods[method.toUpperCase() as HttpMethod]
+
+  return allowed?.includes(role) ?? false
+}
+
+export interface RecordScope {
+  role: Role
+  // The attorney a lawyer-side login acts for
+  attorney?: { id: string; name: string } | null
+  // Referring doctor records matched to a DOCTOR login
+  doctorIds?: string[]
+  // The patient record linked to a PATIENT login
+  patientId?: string | null
+}
+
+const NO_RECORDS = { id: { in: [] as string[] } }
+
+// Patient.lawyer holds the attorney's display name; patients covered by one of
+// the attorney's LOPs belong to them as well
+export function attorneyPatientWhere(attorney: { id: string; name: string }): Prisma.PatientWhereInput {
+  return {
+    OR: [
+      { lawyer: { equals: attorney.name } },
+      { lops: { some: { attorneyId: attorney.id } } },
+    ],
+  }
+}
+
+export function patientScopeWhere(scope: RecordScope): Prisma.PatientWhereInput {
+  switch (scope.role) {
+    case 'ADMIN':
+    case 'STAFF':
+      return {}
+    case 'DOCTOR':
+      return scope.doctorIds?.length
+        ? {
+            OR: [
+              { referringDoctorId: { in: scope.doctorIds } },
+              { appointments: { some: { doctorId: { in: scope.doctorIds } } } },
+            ],
+          }
+        : NO_RECORDS
+    case 'ATTORNEY':
+    case 'CASE_MANAGER':
+      return scope.attorney ? attorneyPatientWhere(scope.attorney) : NO_RECORDS
+    case 'PATIENT':
+      return scope.patientId ? { id: scope.patientId } : NO_RECORDS
+  }
+}
+
+// Doctors only see their own appointments; everyone else sees the
+// appointments of the patients in their scope
+export function appointmentScopeWhere(scope: RecordScope): Prisma.AppointmentWhereInput {
+  if (scope.role === 'DOCTOR') {
+    return scope.doctorIds?.length ? { doctorId: { in: scope.doctorIds } } : NO_RECORDS
+  }
+  if (scope.role === 'ADMIN' || scope.role === 'STAFF') return {}
+  return { patient: patientScopeWhere(scope) }
+}
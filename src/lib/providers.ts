@@ -0,0 +1,128 @@
+import type { Prisma } from '@prisma/client'
+import { format } from 'date-fns'
+import { prisma } from '@/lib/prisma'
+import { normalizeNpi } from '@/lib/npi'
+import { providerSchema, PROVIDER_ROLES, type ProviderRole, type ProviderValues } from '@/lib/validations'
+import { revokeDoctorLogin, syncDoctorLogin } from '@/lib/doctor-portal'
+import { checkNpi, NPI_PROBLEM_LABELS } from '@/lib/npi-registry'
+
+export class ProviderError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'ProviderError'
+  }
+}
+
+export function isProviderRole(value: string): value is ProviderRole {
+  return (PROVIDER_ROLES as readonly string[]).includes(value)
+}
+
+// Inactive providers stay on past appointments and procedures but are no
+// longer offered for new ones
+export async function listProviders({ role, includeInactive = false }: { role?: ProviderRole; includeInactive?: boolean } = {}) {
+  const where: Prisma.ProviderWhereInput = {}
+  if (role) where.roles = { has: role }
+  if (!includeInactive) where.status = 'Active'
+
+  return prisma.provider.findMany({
+    where,
+    orderBy: { name: 'asc' },
+  })
+}
+
+function parseProvider(body: unknown): ProviderValues {
+  const validation = providerSchema.safeParse(body)
+  if (!validation.success) {
+    throw new ProviderError(validation.error.issues[0]?.message ?? 'Invalid provider')
+  }
+  return validation.data
+}
+
+// Blank form fields are stored as null so the directory has one notion of "missing"
+function toProviderData(values: ProviderValues) {
+  const text = (value?: string | null) => value?.trim() || null
+
+  return {
+    prefix: text(values.prefix),
+    name: values.name.trim(),
+    suffix: text(values.suffix),
+    npiNumber: values.npiNumber ? normalizeNpi(values.npiNumber) : null,
+    taxonomyCode: text(values.taxonomyCode)?.toUpperCase() ?? null,
+    roles: [...new Set(values.roles)],
+    clinicName: text(values.clinicName),
+    email: text(values.email),
+    phoneNumber: text(values.phoneNumber),
+    faxNumber: text(values.faxNumber),
+    address: text(values.address),
+    mapLink: text(values.mapLink),
+    status: values.status,
+    hasLogin: values.hasLogin,
+  }
+}
+
+// An NPI identifies one clinician, so two directory entries can't share it
+async function assertUniqueNpi(npiNumber: string | null, excludeId?: string) {
+  if (!npiNumber) return
+
+  const existing = await prisma.provider.findFirst({
+    where: { npiNumber, ...(excludeId ? { NOT: { id: excludeId } } : {}) },
+    select: { name: true },
+  })
+  if (existing) {
+    throw new ProviderError(`NPI ${npiNumber} already belongs to ${existing.name}`)
+  }
+}
+
+// A new or changed NPI must be live in the NPPES registry. NPIs already on file
+// are left to the reconciliation report, so a deactivation doesn't block edits.
+async function assertRegisteredNpi(npiNumber: string | null, previous?: string | null) {
+  if (!npiNumber || npiNumber === previous) return
+
+  const result = await checkNpi(npiNumber)
+  if (result?.problem === 'DEACTIVATED') {
+    const since = result.deactivatedAt ? ` on ${format(result.deactivatedAt, 'MM/dd/yyyy')}` : ''
+    throw new ProviderError(`NPI ${npiNumber} was deactivated${since}`)
+  }
+  if (result) {
+    throw new ProviderError(`NPI ${npiNumber}: ${NPI_PROBLEM_LABELS[result.problem]}`)
+  }
+}
+
+export async function createProvider(body: unknown) {
+  const data = toProviderData(parseProvider(body))
+  await assertUniqueNpi(data.npiNumber)
+  await assertRegisteredNpi(data.npiNumber)
+
+  const { invited } = data.hasLogin ? await syncDoctorLogin(data) : { invited: false }
+
+  const now = new Date()
+  const provider = await prisma.provider.create({
+    data: { ...data, createdAt: now, updatedAt: now },
+  })
+  return { provider, invited }
+}
+
+export async function updateProvider(id: string, body: unknown) {
+  const existing = await prisma.provider.findUnique({ where: { id } })
+  if (!existing) return null
+
+  const data = toProviderData(parseProvider(body))
+  await assertUniqueNpi(data.npiNumber, id)
+  await assertRegisteredNpi(data.npiNumber, existing.npiNumber)
+
+  // A new address gets its own login and invitation
+  if (existing.hasLogin && data.email !== existing.email) {
+    await revokeDoctorLogin(existing)
+  }
+  // Only turning the login on re-invites a doctor who never chose a password,
+  // so ordinary edits don't send another email
+  const { invited } = data.hasLogin || existing.hasLogin
+    ? await syncDoctorLogin(data, { resend: !existing.hasLogin })
+    : { invited: false }
+
+  const provider = await prisma.provider.update({
+    where: { id },
+    data: { ...data, updatedAt: new Date() },
+  })
+  return { provider, invited }
+}
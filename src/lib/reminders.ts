@@ -0,0 +1,317 @@
+import { randomBytes } from 'crypto'
+import { addDays, addHours, startOfDay } from 'date-fns'
+import type { Prisma, Procedure } from '@prisma/client'
+import type { Session } from 'next-auth'
+import { prisma } from '@/lib/prisma'
+import { appUrl, sendMail } from '@/lib/mail'
+import { appointmentReminderEmail } from '@/lib/mail-templates'
+import { sendSms } from '@/lib/sms'
+import { recordAudit } from '@/lib/audit'
+import { zonedTimeToDate } from '@/lib/utils'
+
+export const REMINDER_WINDOWS = [
+  { kind: '48H', hoursBefore: 48, startsIn: 'in two days' },
+  { kind: '2H', hoursBefore: 2, startsIn: 'in two hours' },
+] as const
+
+export type ReminderKind = (typeof REMINDER_WINDOWS)[number]['kind']
+
+export const REMINDER_CHANNELS = ['EMAIL', 'SMS'] as const
+
+export type ReminderChannel = (typeof REMINDER_CHANNELS)[number]
+
+// How a patient's answer is written back to the procedure
+export const REMINDER_RESPONSES = {
+  CONFIRM: { confirmationStatus: 'CONFIRMED', statusName: 'Confirmed', color: '#16a34a' },
+  CANCEL: { confirmationStatus: 'CANCELLED', statusName: 'Cancelled', color: '#dc2626' },
+} as const
+
+export type ReminderResponse = keyof typeof REMINDER_RESPONSES
+
+// Only offered in the patient portal; the office picks the new time
+export const RESCHEDULE_REQUEST = {
+  confirmationStatus: 'RESCHEDULE_REQUESTED',
+  statusName: 'Reschedule Requested',
+  color: '#d97706',
+} as const
+
+type PatientResponseOutcome = (typeof REMINDER_RESPONSES)[ReminderResponse] | typeof RESCHEDULE_REQUEST
+
+const RESPONSE_SOURCES = {
+  'reminder-link': 'from a reminder link',
+  'patient-portal': 'in the patient portal',
+} as const
+
+export class ReminderError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'ReminderError'
+  }
+}
+
+// Procedure times are wall clock times at the practice. The server runs in
+// UTC, so the zone has to be named.
+export const PRACTICE_TIMEZONE = process.env.PRACTICE_TIMEZONE || 'America/Chicago'
+
+// scheduleDate holds the calendar day (stored at UTC midnight) and
+// scheduleTime the wall clock time at the facility
+export function procedureStartsAt(procedure: { scheduleDate: Date; scheduleTime: string }, timezone = PRACTICE_TIMEZONE) {
+  const [hours, minutes] = procedure.scheduleTime.split(':').map(Number)
+  const day = procedure.scheduleDate
+  return zonedTimeToDate(timezone, day.getUTCFullYear(), day.getUTCMonth(), day.getUTCDate(), hours || 0, minutes || 0)
+}
+
+// The reminder that should have gone out by now. A procedure booked inside
+// the 48 h window only gets the reminders that are still ahead of it.
+export function dueReminderKind(startsAt: Date, now: Date): ReminderKind | null {
+  if (now >= startsAt) return null
+
+  const due = REMINDER_WINDOWS.filter((window) => now >= addHours(startsAt, -window.hoursBefore))
+  return due.length > 0 ? due[due.length - 1].kind : null
+}
+
+const reminderInclude = {
+  patient: true,
+  exam: true,
+  facility: true,
+  reminders: true,
+} satisfies Prisma.ProcedureInclude
+
+type ReminderProcedure = Prisma.ProcedureGetPayload<{ include: typeof reminderInclude }>
+
+function reminderSms(procedure: ReminderProcedure, startsIn: string, respondUrl: string) {
+  const time = procedure.scheduleTime ? ` at ${procedure.scheduleTime}` : ''
+  return `Gulf Coast Medical: your ${procedure.exam.name} appointment is ${startsIn}${time} at ${procedure.facility.name}. Confirm or cancel: ${respondUrl}`
+}
+
+async function ensureConfirmationToken(procedure: ReminderProcedure) {
+  if (procedure.confirmationToken) return procedure.confirmationToken
+
+  const token = randomBytes(24).toString('hex')
+  await prisma.procedure.update({
+    where: { id: procedure.id },
+    data: {
+      confirmationToken: token,
+      confirmationTokenExpiresAt: procedureStartsAt(procedure),
+      confirmationStatus: procedure.confirmationStatus ?? 'PENDING',
+    },
+  })
+  return token
+}
+
+async function deliver(procedure: ReminderProcedure, kind: ReminderKind, channel: ReminderChannel, respondUrl: string) {
+  const window = REMINDER_WINDOWS.find((item) => item.kind === kind)!
+  const recipient = channel === 'EMAIL' ? procedure.patient.email : procedure.patient.phone
+
+  if (!recipient) {
+    return { status: 'SKIPPED', recipient: null, error: `Patient has no ${channel === 'EMAIL' ? 'email address' : 'phone number'}` }
+  }
+
+  try {
+    if (channel === 'EMAIL') {
+      await sendMail({
+        to: recipient,
+        ...appointmentReminderEmail({
+          patientName: `${procedure.patient.firstName} ${procedure.patient.lastName}`,
+          examName: procedure.exam.name,
+          date: procedure.scheduleDate,
+          time: procedure.scheduleTime,
+          facility: procedure.facility,
+          respondUrl,
+          startsIn: window.startsIn,
+        }),
+      })
+    } else {
+      await sendSms({ to: recipient, body: reminderSms(procedure, window.startsIn, respondUrl) })
+    }
+    return { status: 'SENT', recipient, error: null }
+  } catch (error) {
+    return { status: 'FAILED', recipient, error: error instanceof Error ? error.message : 'Unknown error' }
+  }
+}
+
+// Sends every reminder that is due. Each procedure, window and channel is sent
+// at most once; failed deliveries are retried on the next run.
+export async function sendDueReminders(now = new Date()) {
+  const summary = { sent: 0, failed: 0, skipped: 0 }
+
+  const procedures = await prisma.procedure.findMany({
+    where: {
+      isCompleted: false,
+      scheduleDate: {
+        gte: startOfDay(addDays(now, -1)),
+        lte: addDays(now, 3),
+      },
+    },
+    include: reminderInclude,
+  })
+
+  for (const procedure of procedures) {
+    if (procedure.confirmationStatus === 'CANCELLED') continue
+
+    const kind = dueReminderKind(procedureStartsAt(procedure), now)
+    if (!kind) continue
+
+    const pending = REMINDER_CHANNELS.filter((channel) => {
+      const existing = procedure.reminders.find((reminder) => reminder.kind === kind && reminder.channel === channel)
+      return !existing || existing.status === 'FAILED'
+    })
+    if (pending.length === 0) continue
+
+    const token = await ensureConfirmationToken(procedure)
+    const respondUrl = appUrl(`/confirm/${token}`)
+
+    for (const channel of pending) {
+      const result = await deliver(procedure, kind, channel, respondUrl)
+
+      await prisma.procedureReminder.upsert({
+        where: {
+          procedureId_kind_channel: { procedureId: procedure.id, kind, channel },
+        },
+        update: result,
+        create: { procedureId: procedure.id, kind, channel, ...result },
+      })
+
+      if (result.status === 'SENT') summary.sent++
+      else if (result.status === 'FAILED') summary.failed++
+      else summary.skipped++
+    }
+  }
+
+  return summary
+}
+
+type ScheduledProcedure = { id: string; scheduleDate: Date; scheduleTime: string }
+
+// Moving a procedure starts its reminders and confirmation over; the old link
+// expired with the old time, so the next reminder brings a new one
+export async function resetRescheduledReminders(before: ScheduledProcedure[], after: ScheduledProcedure[]) {
+  const rescheduled = after
+    .filter((procedure) => {
+      const previous = before.find((item) => item.id === procedure.id)
+      return previous && procedureStartsAt(previous).getTime() !== procedureStartsAt(procedure).getTime()
+    })
+    .map((procedure) => procedure.id)
+  if (rescheduled.length === 0) return
+
+  await prisma.procedureReminder.deleteMany({ where: { procedureId: { in: rescheduled } } })
+  await prisma.procedure.updateMany({
+    where: { id: { in: rescheduled } },
+    data: {
+      confirmationStatus: null,
+      respondedAt: null,
+      rescheduleNote: null,
+      confirmationToken: null,
+      confirmationTokenExpiresAt: null,
+    },
+  })
+}
+
+const publicProcedureInclude = {
+  patient: {
+    select: {
+      firstName: true,
+    },
+  },
+  exam: {
+    select: {
+      name: true,
+    },
+  },
+  facility: {
+    select: {
+      name: true,
+      address: true,
+      city: true,
+    },
+  },
+} satisfies Prisma.ProcedureInclude
+
+type PublicProcedure = Prisma.ProcedureGetPayload<{ include: typeof publicProcedureInclude }>
+
+// The reminder link is not a login, so it only reveals what the reminder
+// itself already said
+function toPublicAppointment(procedure: PublicProcedure, now = new Date()) {
+  const startsAt = procedureStartsAt(procedure)
+
+  return {
+    patientFirstName: procedure.patient.firstName,
+    examName: procedure.exam.name,
+    startsAt: startsAt.toISOString(),
+    scheduleTime: procedure.scheduleTime,
+    facility: procedure.facility,
+    confirmationStatus: procedure.confirmationStatus ?? 'PENDING',
+    canRespond: !procedure.isCompleted && startsAt > now && procedure.confirmationStatus !== 'CANCELLED',
+  }
+}
+
+export type PublicAppointment = ReturnType<typeof toPublicAppointment>
+
+async function findByToken(token: string) {
+  if (!token) return null
+
+  return prisma.procedure.findFirst({
+    where: { confirmationToken: token, confirmationTokenExpiresAt: { gt: new Date() } },
+    include: publicProcedureInclude,
+  })
+}
+
+export async function getAppointmentByToken(token: string) {
+  const procedure = await findByToken(token)
+  return procedure ? toPublicAppointment(procedure) : null
+}
+
+export async function respondToReminder(token: string, response: ReminderResponse, request?: Request) {
+  const procedure = await findByToken(token)
+  if (!procedure) {
+    throw new ReminderError('This link is invalid or has expired')
+  }
+  if (!toPublicAppointment(procedure).canRespond) {
+    throw new ReminderError('This appointment can no longer be changed online. Please call our office.')
+  }
+
+  const updated = await recordPatientResponse(null, procedure, REMINDER_RESPONSES[response], 'reminder-link', {}, request)
+  return toPublicAppointment(updated)
+}
+
+// Writes a patient's answer to the procedure and its status, whether it came
+// from a reminder link or the patient portal
+export async function recordPatientResponse(
+  session: Session | null,
+  procedure: Procedure,
+  outcome: PatientResponseOutcome,
+  source: keyof typeof RESPONSE_SOURCES,
+  data: Prisma.ProcedureUncheckedUpdateInput = {},
+  request?: Request
+) {
+  const now = new Date()
+  const status = await prisma.status.upsert({
+    where: { name: outcome.statusName },
+    update: {},
+    create: { name: outcome.statusName, color: outcome.color, createdAt: now, updatedAt: now },
+  })
+
+  const updated = await prisma.procedure.update({
+    where: { id: procedure.id },
+    data: {
+      ...data,
+      statusId: status.id,
+      confirmationStatus: outcome.confirmationStatus,
+      respondedAt: now,
+    },
+    include: publicProcedureInclude,
+  })
+
+  await recordAudit(session, {
+    action: 'UPDATE',
+    entityType: 'Procedure',
+    entityId: procedure.id,
+    patientId: procedure.patientId,
+    summary: `${outcome.statusName} by the patient ${RESPONSE_SOURCES[source]}`,
+    before: procedure,
+    after: updated,
+    details: { source },
+  }, request)
+
+  return updated
+}
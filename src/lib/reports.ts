@@ -0,0 +1,388 @@
+import { Prisma } from '@prisma/client'
+import {
+  endOfDay,
+  endOfMonth,
+  format,
+  startOfDay,
+  startOfMonth,
+  subDays,
+} from 'date-fns'
+import { toCsv } from '@/lib/csv'
+import { prisma } from '@/lib/prisma'
+import { findNpiIssues, NPI_PROBLEM_LABELS } from '@/lib/npi-registry'
+import { notifyNpiIssues } from '@/lib/notifications'
+
+export type ReportType = 'daily' | 'weekly' | 'monthly' | 'npi'
+
+export type ReportStatus = 'pending' | 'completed' | 'failed'
+
+export interface ReportFilters {
+  facilityId?: string
+  physicianId?: string
+  payerId?: string
+  attorneyId?: string
+}
+
+export interface ReportParameters extends ReportFilters {
+  startDate: Date
+  endDate: Date
+}
+
+export interface ReportData {
+  summary: Record<string, number | string>
+  breakdown?: { label: string; count: number; color?: string }[]
+  columns: string[]
+  rows: (string | number)[][]
+}
+
+interface ReportDefinition {
+  title: string
+  defaultRange: (reference: Date) => { startDate: Date; endDate: Date }
+  generate: (params: ReportParameters) => Promise<ReportData>
+}
+
+const procedureInclude = {
+  patient: { include: { payer: true } },
+  exam: { include: { subExams: true } },
+  facility: true,
+  physician: true,
+  status: true,
+} satisfies Prisma.ProcedureInclude
+
+type ReportProcedure = Prisma.ProcedureGetPayload<{ include: typeof procedureInclude }>
+
+// An exam is billed as the sum of its sub-exam prices
+export function examCharge(exam: { subExams: { price: number }[] }) {
+  return exam.subExams.reduce((total, subExam) => total + subExam.price, 0)
+}
+
+function patientName(patient: { firstName: string; lastName: string }) {
+  return `${patient.firstName} ${patient.lastName}`
+}
+
+function roundCurrency(value: number) {
+  return Math.round(value * 100) / 100
+}
+
+// Patient.lawyer holds the attorney's display name, so the attorney filter is
+// resolved to that name before querying
+async function buildPatientWhere(filters: ReportFilters): Promise<Prisma.PatientWhereInput> {
+  const where: Prisma.PatientWhereInput = {}
+
+  if (filters.payerId) {
+    where.payerId = filters.payerId
+  }
+
+  if (filters.attorneyId) {
+    const attorney = await prisma.attorney.findUnique({
+      where: { id: filters.attorneyId },
+      include: { user: { select: { name: true } } },
+    })
+    where.lawyer = { equals: attorney?.user.name ?? '' }
+  }
+
+  return where
+}
+
+async function buildProcedureWhere(
+  params: ReportParameters,
+  extra: Prisma.ProcedureWhereInput = {}
+): Promise<Prisma.ProcedureWhereInput> {
+  const patientWhere = await buildPatientWhere(params)
+
+  return {
+    ...extra,
+    scheduleDate: {
+      gte: params.startDate,
+      lte: params.endDate,
+    },
+    ...(params.facilityId && { facilityId: params.facilityId }),
+    ...(params.physicianId && { physicianId: params.physicianId }),
+    ...(Object.keys(patientWhere).length > 0 && { patient: { is: patientWhere } }),
+  }
+}
+
+async function findProcedures(
+  params: ReportParameters,
+  extra?: Prisma.ProcedureWhereInput
+): Promise<ReportProcedure[]> {
+  return prisma.procedure.findMany({
+    where: await buildProcedureWhere(params, extra),
+    include: procedureInclude,
+    orderBy: [{ scheduleDate: 'asc' }, { scheduleTime: 'asc' }],
+  })
+}
+
+async function generateDailyPatientReport(params: ReportParameters): Promise<ReportData> {
+  const procedures = await findProcedures(params)
+  const patientWhere = await buildPatientWhere(params)
+
+  const newPatients = await prisma.patient.count({
+    where: {
+      ...patientWhere,
+      createdAt: {
+        gte: params.startDate,
+        lte: params.endDate,
+      },
+    },
+  })
+
+  const patientIds = new Set(procedures.map((procedure) => procedure.patientId))
+
+  return {
+    summary: {
+      patientsScheduled: patientIds.size,
+      proceduresScheduled: procedures.length,
+      proceduresCompleted: procedures.filter((procedure) => procedure.isCompleted).length,
+      newPatients,
+    },
+    columns: ['Date', 'Time', 'Patient', 'Date of Birth', 'Phone', 'Exam', 'Facility', 'Physician', 'Status'],
+    rows: procedures.map((procedure) => [
+      format(procedure.scheduleDate, 'yyyy-MM-dd'),
+      procedure.scheduleTime,
+      patientName(procedure.patient),
+      format(procedure.patient.dateOfBirth, 'yyyy-MM-dd'),
+      procedure.patient.phone,
+      procedure.exam.name,
+      procedure.facility.name,
+      procedure.physician.name,
+      procedure.status.name,
+    ]),
+  }
+}
+
+async function generateWeeklyRevenueReport(params: ReportParameters): Promise<ReportData> {
+  const procedures = await findProcedures(params, { isCompleted: true })
+
+  const rows = procedures.map((procedure) => [
+    format(procedure.scheduleDate, 'yyyy-MM-dd'),
+    patientName(procedure.patient),
+    procedure.exam.name,
+    procedure.facility.name,
+    procedure.patient.payer?.name ?? 'None',
+    roundCurrency(examCharge(procedure.exam)),
+  ])
+
+  const totalRevenue = roundCurrency(
+    procedures.reduce((total, procedure) => total + examCharge(procedure.exam), 0)
+  )
+
+  return {
+    summary: {
+      completedProcedures: procedures.length,
+      totalRevenue,
+      averageCharge: procedures.length > 0 ? roundCurrency(totalRevenue / procedures.length) : 0,
+    },
+    columns: ['Date', 'Patient', 'Exam', 'Facility', 'Payer', 'Amount'],
+    rows,
+  }
+}
+
+async function generateMonthlyPerformanceReport(params: ReportParameters): Promise<ReportData> {
+  const procedures = await findProcedures(params)
+
+  const byStatus = new Map<string, { label: string; count: number; color?: string }>()
+  const byFacility = new Map<string, { name: string; scheduled: number; completed: number; revenue: number }>()
+
+  for (const procedure of procedures) {
+    const status = byStatus.get(procedure.statusId) ?? {
+      label: procedure.status.name,
+      count: 0,
+      color: procedure.status.color,
+    }
+    status.count += 1
+    byStatus.set(procedure.statusId, status)
+
+    const facility = byFacility.get(procedure.facilityId) ?? {
+      name: procedure.facility.name,
+      scheduled: 0,
+      completed: 0,
+      revenue: 0,
+    }
+    facility.scheduled += 1
+    if (procedure.isCompleted) {
+      facility.completed += 1
+      facility.revenue += examCharge(procedure.exam)
+    }
+    byFacility.set(procedure.facilityId, facility)
+  }
+
+  const completed = procedures.filter((procedure) => procedure.isCompleted)
+  const completionRate = (done: number, total: number) =>
+    total > 0 ? roundCurrency((done / total) * 100) : 0
+
+  return {
+    summary: {
+      totalProcedures: procedures.length,
+      completedProcedures: completed.length,
+      completionRate: completionRate(completed.length, procedures.length),
+      totalRevenue: roundCurrency(
+        completed.reduce((total, procedure) => total + examCharge(procedure.exam), 0)
+      ),
+    },
+    breakdown: Array.from(byStatus.values()).sort((a, b) => b.count - a.count),
+    columns: ['Facility', 'Scheduled', 'Completed', 'Completion Rate (%)', 'Revenue'],
+    rows: Array.from(byFacility.values())
+      .sort((a, b) => a.name.localeCompare(b.name))
+      .map((facility) => [
+        facility.name,
+        facility.scheduled,
+        facility.completed,
+        completionRate(facility.completed, facility.scheduled),
+        roundCurrency(facility.revenue),
+      ]),
+  }
+}
+
+// Checks the directory as it stands today, so the date range is only a label
+async function generateNpiReconciliationReport(): Promise<ReportData> {
+  const { checked, registryLoaded, issues } = await findNpiIssues()
+  const count = (problem: keyof typeof NPI_PROBLEM_LABELS) =>
+    issues.filter((issue) => issue.problem === problem).length
+
+  return {
+    summary: {
+      providersChecked: checked,
+      deactivated: count('DEACTIVATED'),
+      notInRegistry: count('NOT_FOUND'),
+      invalidCheckDigit: count('INVALID'),
+      registry: registryLoaded ? 'Loaded' : 'Not loaded',
+    },
+    columns: ['Provider', 'NPI', 'Roles', 'Problem', 'Deactivated On'],
+    rows: issues.map((issue) => [
+      issue.provider.name,
+      issue.provider.npiNumber ?? '',
+      issue.provider.roles.join(', '),
+      NPI_PROBLEM_LABELS[issue.problem],
+      issue.deactivatedAt ? format(issue.deactivatedAt, 'yyyy-MM-dd') : '',
+    ]),
+  }
+}
+
+export const reportDefinitions: Record<ReportType, ReportDefinition> = {
+  daily: {
+    title: 'Daily Patient Report',
+    defaultRange: (reference) => ({
+      startDate: startOfDay(reference),
+      endDate: endOfDay(reference),
+    }),
+    generate: generateDailyPatientReport,
+  },
+  weekly: {
+    title: 'Weekly Revenue Report',
+    defaultRange: (reference) => ({
+      startDate: startOfDay(subDays(reference, 6)),
+      endDate: endOfDay(reference),
+    }),
+    generate: generateWeeklyRevenueReport,
+  },
+  monthly: {
+    title: 'Monthly Performance Report',
+    defaultRange: (reference) => ({
+      startDate: startOfMonth(reference),
+      endDate: endOfMonth(reference),
+    }),
+    generate: generateMonthlyPerformanceReport,
+  },
+  npi: {
+    title: 'NPI Reconciliation Report',
+    defaultRange: (reference) => ({
+      startDate: startOfDay(reference),
+      endDate: endOfDay(reference),
+    }),
+    generate: generateNpiReconciliationReport,
+  },
+}
+
+export function isReportType(value: unknown): value is ReportType {
+  return typeof value === 'string' && Object.hasOwn(reportDefinitions, value)
+}
+
+export function resolveReportParameters(
+  type: ReportType,
+  input: Partial<Record<keyof ReportParameters, string | null | undefined>>
+): ReportParameters {
+  const defaults = reportDefinitions[type].defaultRange(new Date())
+
+  const startDate = input.startDate ? startOfDay(new Date(input.startDate)) : defaults.startDate
+  const endDate = input.endDate ? endOfDay(new Date(input.endDate)) : defaults.endDate
+
+  if (isNaN(startDate.getTime()) || isNaN(endDate.getTime())) {
+    throw new Error('Invalid report date range')
+  }
+  if (startDate > endDate) {
+    throw new Error('Report start date must be before the end date')
+  }
+
+  return {
+    startDate,
+    endDate,
+    facilityId: input.facilityId || undefined,
+    physicianId: input.physicianId || undefined,
+    payerId: input.payerId || undefined,
+    attorneyId: input.attorneyId || undefined,
+  }
+}
+
+// Generates a report and persists the run, recording failures on the run itself
+export async function runReport(type: ReportType, params: ReportParameters, userId?: string) {
+  const { startDate, endDate, ...filters } = params
+
+  const report = await prisma.report.create({
+    data: {
+      type,
+      title: reportDefinitions[type].title,
+      status: 'pending',
+      startDate,
+      endDate,
+      parameters: filters as Prisma.InputJsonObject,
+      ...(userId && { generatedBy: { connect: { id: userId } } }),
+    },
+  })
+
+  try {
+    const data = await reportDefinitions[type].generate(params)
+    return await prisma.report.update({
+      where: { id: report.id },
+      data: {
+        status: 'completed',
+        data: data as unknown as Prisma.InputJsonObject,
+      },
+    })
+  } catch (error) {
+    console.error(`[REPORTS] Failed to generate ${type} report:`, error)
+    return prisma.report.update({
+      where: { id: report.id },
+      data: {
+        status: 'failed',
+        error: error instanceof Error ? error.message : 'Report generation failed',
+      },
+    })
+  }
+}
+
+// Weekly check of the provider directory against the NPPES registry. The job
+// runs every 15 minutes, so it only reports once a week has passed since the
+// last completed run.
+export async function runNpiReconciliation(now: Date) {
+  const recent = await prisma.report.findFirst({
+    where: { type: 'npi', status: 'completed', createdAt: { gte: subDays(now, 7) } },
+    select: { id: true },
+  })
+  if (recent) return { flagged: 0, skipped: 1 }
+
+  const report = await runReport('npi', resolveReportParameters('npi', {}))
+  const data = report.data as unknown as ReportData | null
+  if (report.status !== 'completed' || !data) {
+    throw new Error(report.error ?? 'NPI reconciliation report failed')
+  }
+
+  if (data.rows.length > 0) {
+    await notifyNpiIssues(data.rows.map((row) => String(row[0])))
+  }
+  return { flagged: data.rows.length, skipped: 0 }
+}
+
+export function reportToCsv(data: ReportData) {
+  return toCsv([data.columns, ...data.rows])
+}
@@ -0,0 +1,402 @@
+import { randomUUID } from 'crypto'
+import type { Prisma } from '@prisma/client'
+import { prisma } from '@/lib/prisma'
+import {
+  checkSlot,
+  dayRange,
+  DEFAULT_DURATION_MINUTES,
+  getAvailability,
+  minutesToTime,
+  SchedulingError,
+  timeToMinutes,
+  type Conflict,
+} from '@/lib/scheduling'
+
+export const DEFAULT_SEARCH_DAYS = 14
+export const MAX_SEARCH_DAYS = 60
+export const MAX_PLAN_OPTIONS = 3
+export const MAX_OCCURRENCES = 26
+
+// Left free between appointments at different facilities so the patient can
+// get from one to the other
+export const TRAVEL_BUFFER_MINUTES = 30
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+export interface Recurrence {
+  intervalWeeks: number
+  occurrences: number
+}
+
+export interface PlanItem {
+  examId: string
+  facilityId?: string | null
+  recurrence?: Recurrence | null
+}
+
+export interface PlanRequest {
+  patientId: string
+  items: PlanItem[]
+  startDate: string
+  searchDays?: number
+}
+
+export interface PlannedAppointment {
+  item: number
+  occurrence: number
+  examId: string
+  facilityId: string
+  resourceId: string | null
+  date: string
+  time: string
+  durationMinutes: number
+  // False for a follow-up that has no free slot on its day
+  available: boolean
+}
+
+export interface SchedulePlan {
+  date: string
+  appointments: PlannedAppointment[]
+}
+
+export interface AppointmentConflict {
+  index: number
+  conflicts: Conflict[]
+}
+
+export class ScheduleConflictError extends SchedulingError {
+  conflicts: AppointmentConflict[]
+
+  constructor(conflicts: AppointmentConflict[]) {
+    super('Some of the selected times are already booked')
+    this.name = 'ScheduleConflictError'
+    this.conflicts = conflicts
+  }
+}
+
+interface Busy {
+  date: string
+  facilityId: string
+  start: number
+  end: number
+}
+
+function isoDate(date: Date) {
+  return date.toISOString().slice(0, 10)
+}
+
+// Calendar days are UTC midnights, so step in whole days of UTC time
+function addUtcDays(date: string, days: number) {
+  return isoDate(new Date(dayRange(date).start.getTime() + days * DAY_MS))
+}
+
+export function parsePlanItems(input: unknown): PlanItem[] {
+  if (!Array.isArray(input) || input.length === 0) {
+    throw new SchedulingError('Add at least one procedure to schedule')
+  }
+
+  return input.map((entry) => {
+    if (!entry?.examId) {
+      throw new SchedulingError('Each procedure needs an exam')
+    }
+
+    let recurrence: Recurrence | null = null
+    if (entry.recurrence) {
+      const intervalWeeks = Number(entry.recurrence.intervalWeeks)
+      const occurrences = Number(entry.recurrence.occurrences)
+      if (!Number.isInteger(intervalWeeks) || intervalWeeks < 1 || intervalWeeks > 12) {
+        throw new SchedulingError('Follow-ups must repeat every 1 to 12 weeks')
+      }
+      if (!Number.isInteger(occurrences) || occurrences < 1 || occurrences > MAX_OCCURRENCES) {
+        throw new SchedulingError(`Follow-ups must have between 1 and ${MAX_OCCURRENCES} sessions`)
+      }
+      recurrence = { intervalWeeks, occurrences }
+    }
+
+    return {
+      examId: String(entry.examId),
+      facilityId: entry.facilityId ? String(entry.facilityId) : null,
+      recurrence,
+    }
+  })
+}
+
+// A patient cannot be in two places at once, and needs time to travel
+// between facilities
+function fitsPatient(busy: Busy[], date: string, facilityId: string, start: number, end: number) {
+  return busy.every((booking) => {
+    if (booking.date !== date) return true
+    const buffer = booking.facilityId === facilityId ? 0 : TRAVEL_BUFFER_MINUTES
+    return !(start < booking.end + buffer && booking.start < end + buffer)
+  })
+}
+
+async function patientBookings(patientId: string, from: string, to: string): Promise<Busy[]> {
+  const procedures = await prisma.procedure.findMany({
+    where: {
+      patientId,
+      scheduleDate: { gte: dayRange(from).start, lt: dayRange(to).end },
+    },
+    include: { exam: true },
+  })
+
+  return procedures
+    .filter((procedure) => procedure.confirmationStatus !== 'CANCELLED')
+    .flatMap((procedure) => {
+      const start = timeToMinutes(procedure.scheduleTime)
+      if (start === null) return []
+      return [{
+        date: isoDate(procedure.scheduleDate),
+        facilityId: procedure.facilityId,
+        start,
+        end: start + (procedure.exam.durationMinutes ?? DEFAULT_DURATION_MINUTES),
+      }]
+    })
+}
+
+type DayAvailability = Awaited<ReturnType<typeof getAvailability>>
+
+// Each facility, exam and day is looked up once per proposal
+function availabilityLookup() {
+  const cache = new Map<string, Promise<DayAvailability | null>>()
+
+  return (facilityId: string, examId: string, date: string) => {
+    const key = `${facilityId}:${examId}:${date}`
+    if (!cache.has(key)) {
+      cache.set(key, getAvailability({ facilityId, examId, date }).catch((error) => {
+        if (error instanceof SchedulingError) return null
+        throw error
+      }))
+    }
+    return cache.get(key)!
+  }
+}
+
+type Lookup = ReturnType<typeof availabilityLookup>
+
+// The earliest free slot across the given facilities, or the preferred time
+// when it is free. Earlier facilities in the list win ties.
+async function findSlot(
+  lookup: Lookup,
+  busy: Busy[],
+  examId: string,
+  facilityIds: string[],
+  date: string,
+  preferredTime?: string
+) {
+  let best: { facilityId: string; resourceId: string | null; time: string; durationMinutes: number } | null = null
+
+  for (const facilityId of facilityIds) {
+    const day = await lookup(facilityId, examId, date)
+    if (!day) continue
+
+    const open = day.slots.filter((slot) => {
+      const start = timeToMinutes(slot.time)!
+      return fitsPatient(busy, date, facilityId, start, start + day.durationMinutes)
+    })
+    const slot = open.find((item) => item.time === preferredTime) ?? open[0]
+    if (!slot) continue
+
+    const candidate = { facilityId, resourceId: slot.resourceIds[0], time: slot.time, durationMinutes: day.durationMinutes }
+    if (slot.time === preferredTime) return candidate
+    if (!best || timeToMinutes(slot.time)! < timeToMinutes(best.time)!) {
+      best = candidate
+    }
+  }
+
+  return best
+}
+
+function toBusy(appointment: PlannedAppointment): Busy {
+  const start = timeToMinutes(appointment.time)!
+  return { date: appointment.date, facilityId: appointment.facilityId, start, end: start + appointment.durationMinutes }
+}
+
+// Places every procedure on one day, then its follow-ups on the same weekday
+// at the same facility, keeping the first session's time where possible
+async function planDay(
+  lookup: Lookup,
+  items: PlanItem[],
+  facilityIds: string[],
+  existing: Busy[],
+  date: string
+): Promise<SchedulePlan | null> {
+  const busy = [...existing]
+  const appointments: PlannedAppointment[] = []
+
+  for (const [index, item] of items.entries()) {
+    // Facilities already in the plan come first to save the patient a trip
+    const used = appointments.map((appointment) => appointment.facilityId)
+    const candidates = item.facilityId
+      ? [item.facilityId]
+      : [...facilityIds].sort((a, b) => Number(used.includes(b)) - Number(used.includes(a)))
+
+    const slot = await findSlot(lookup, busy, item.examId, candidates, date)
+    if (!slot) return null
+
+    const appointment = { item: index, occurrence: 0, examId: item.examId, date, available: true, ...slot }
+    appointments.push(appointment)
+    busy.push(toBusy(appointment))
+  }
+
+  for (const [index, item] of items.entries()) {
+    if (!item.recurrence) continue
+    const first = appointments.find((appointment) => appointment.item === index)!
+
+    for (let occurrence = 1; occurrence < item.recurrence.occurrences; occurrence++) {
+      const followUpDate = addUtcDays(date, occurrence * item.recurrence.intervalWeeks * 7)
+      const slot = await findSlot(lookup, busy, item.examId, [first.facilityId], followUpDate, first.time)
+      const appointment = slot
+        ? { item: index, occurrence, examId: item.examId, date: followUpDate, available: true, ...slot }
+        : { ...first, occurrence, date: followUpDate, available: false }
+
+      appointments.push(appointment)
+      if (slot) busy.push(toBusy(appointment))
+    }
+  }
+
+  appointments.sort((a, b) => a.date.localeCompare(b.date) || timeToMinutes(a.time)! - timeToMinutes(b.time)!)
+  return { date, appointments }
+}
+
+// Proposes up to MAX_PLAN_OPTIONS days on which all of the procedures fit,
+// using the same availability as the calendar
+export async function proposePlans(request: PlanRequest): Promise<SchedulePlan[]> {
+  const startDate = isoDate(dayRange(request.startDate).start)
+  const searchDays = Math.min(Math.max(request.searchDays ?? DEFAULT_SEARCH_DAYS, 1), MAX_SEARCH_DAYS)
+  const followUpDays = Math.max(
+    0,
+    ...request.items.map((item) => item.recurrence ? (item.recurrence.occurrences - 1) * item.recurrence.intervalWeeks * 7 : 0)
+  )
+
+  const facilities = await prisma.facility.findMany({ select: { id: true, status: true } })
+  const facilityIds = facilities
+    .filter((facility) => facility.status.toLowerCase() === 'active')
+    .map((facility) => facility.id)
+
+  const existing = await patientBookings(request.patientId, startDate, addUtcDays(startDate, searchDays + followUpDays))
+  const lookup = availabilityLookup()
+  const plans: SchedulePlan[] = []
+
+  for (let offset = 0; offset < searchDays && plans.length < MAX_PLAN_OPTIONS; offset++) {
+    const plan = await planDay(lookup, request.items, facilityIds, existing, addUtcDays(startDate, offset))
+    if (plan) plans.push(plan)
+  }
+
+  return plans
+}
+
+export interface BookingAppointment {
+  item: number
+  examId: string
+  facilityId: string
+  resourceId?: string | null
+  date: string
+  time: string
+}
+
+export interface BookingRequest {
+  patientId: string
+  physicianId: string
+  statusId: string
+  appointments: BookingAppointment[]
+  allowDoubleBooking?: boolean
+}
+
+// Re-checks every appointment against the live schedule, then creates them
+// all in one transaction so a plan is never left half booked
+export async function bookAppointments(request: BookingRequest) {
+  if (!request.patientId || !request.physicianId || !request.statusId) {
+    throw new SchedulingError('Patient, physician and status are required')
+  }
+  if (!Array.isArray(request.appointments) || request.appointments.length === 0) {
+    throw new SchedulingError('There is nothing to book')
+  }
+
+  const exams = await prisma.exam.findMany({
+    where: { id: { in: [...new Set(request.appointments.map((appointment) => appointment.examId))] } },
+  })
+
+  const appointments = request.appointments.map((appointment) => {
+    const start = timeToMinutes(appointment.time)
+    const exam = exams.find((item) => item.id === appointment.examId)
+    if (start === null) {
+      throw new SchedulingError('Invalid time format. Please use HH:mm')
+    }
+    if (!exam) {
+      throw new SchedulingError('Exam not found')
+    }
+    return {
+      ...appointment,
+      date: isoDate(dayRange(appointment.date).start),
+      start,
+      end: start + (exam.durationMinutes ?? DEFAULT_DURATION_MINUTES),
+    }
+  })
+
+  appointments.forEach((appointment, index) => {
+    const clash = appointments.findIndex((other, otherIndex) =>
+      otherIndex !== index &&
+      other.date === appointment.date &&
+      other.start < appointment.end &&
+      appointment.start < other.end
+    )
+    if (clash !== -1) {
+      throw new SchedulingError(`Appointments on ${appointment.date} at ${minutesToTime(appointment.start)} and ${minutesToTime(appointments[clash].start)} overlap`)
+    }
+  })
+
+  const checked: (typeof appointments[number] & { resourceId: string | null })[] = []
+  const conflicts: AppointmentConflict[] = []
+  for (const [index, appointment] of appointments.entries()) {
+    const slot = await checkSlot({
+      facilityId: appointment.facilityId,
+      examId: appointment.examId,
+      date: appointment.date,
+      time: minutesToTime(appointment.start),
+      resourceId: appointment.resourceId,
+    })
+    if (slot.conflicts.length > 0) {
+      conflicts.push({ index, conflicts: slot.conflicts })
+    }
+    checked.push({ ...appointment, resourceId: slot.resourceId })
+  }
+
+  if (conflicts.length > 0 && !request.allowDoubleBooking) {
+    throw new ScheduleConflictError(conflicts)
+  }
+
+  // Sessions of the same recurring procedure are linked as a series
+  const seriesIds = new Map<number, string>()
+  for (const appointment of checked) {
+    const sessions = checked.filter((other) => other.item === appointment.item).length
+    if (sessions > 1 && !seriesIds.has(appointment.item)) {
+      seriesIds.set(appointment.item, randomUUID())
+    }
+  }
+
+  const now = new Date()
+  return prisma.$transaction(async (tx) => {
+    const procedures: Prisma.ProcedureGetPayload<{ include: { exam: true } }>[] = []
+    for (const appointment of checked) {
+      procedures.push(await tx.procedure.create({
+        data: {
+          patientId: request.patientId,
+          examId: appointment.examId,
+          facilityId: appointment.facilityId,
+          resourceId: appointment.resourceId,
+          physicianId: request.physicianId,
+          statusId: request.statusId,
+          scheduleDate: dayRange(appointment.date).start,
+          scheduleTime: `${minutesToTime(appointment.start)}:00`,
+          seriesId: seriesIds.get(appointment.item) ?? null,
+          isCompleted: false,
+          createdAt: now,
+          updatedAt: now,
+        },
+        include: { exam: true },
+      }))
+    }
+    return procedures
+  })
+}
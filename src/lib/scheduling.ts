@@ -0,0 +1,296 @@
+import type { OperatingHours } from '@prisma/client'
+import { prisma } from '@/lib/prisma'
+
+export const MODALITIES = ['MRI', 'CT', 'XRAY', 'ULTRASOUND', 'FLUOROSCOPY', 'OTHER'] as const
+
+export type Modality = (typeof MODALITIES)[number]
+
+export const DEFAULT_DURATION_MINUTES = 30
+
+// Facilities that have not set their hours are open weekdays 8–5
+export const DEFAULT_OPERATING_HOURS: OperatingHours[] = [1, 2, 3, 4, 5].map((dayOfWeek) => ({
+  dayOfWeek,
+  open: '08:00',
+  close: '17:00',
+}))
+
+export class SchedulingError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'SchedulingError'
+  }
+}
+
+// Accepts HH:mm and HH:mm:ss
+export function timeToMinutes(time: string) {
+  const match = /^([01]\d|2[0-3]):([0-5]\d)(?::[0-5]\d)?$/.exec(time.trim())
+  return match ? Number(match[1]) * 60 + Number(match[2]) : null
+}
+
+export function minutesToTime(minutes: number) {
+  return `${String(Math.floor(minutes / 60)).padStart(2, '0')}:${String(minutes % 60).padStart(2, '0')}`
+}
+
+// Procedures store their calendar day at UTC midnight
+export function dayRange(date: Date | string) {
+  const day = typeof date === 'string' ? new Date(date) : date
+  if (isNaN(day.getTime())) {
+    throw new SchedulingError('Invalid date')
+  }
+
+  const start = new Date(Date.UTC(day.getUTCFullYear(), day.getUTCMonth(), day.getUTCDate()))
+  const end = new Date(start.getTime() + 24 * 60 * 60 * 1000)
+  return { start, end, dayOfWeek: start.getUTCDay() }
+}
+
+export function hoursForDay(operatingHours: OperatingHours[], dayOfWeek: number) {
+  const hours = operatingHours.length > 0 ? operatingHours : DEFAULT_OPERATING_HOURS
+  const day = hours.find((entry) => entry.dayOfWeek === dayOfWeek)
+  if (!day) return null
+
+  return { open: timeToMinutes(day.open) ?? 0, close: timeToMinutes(day.close) ?? 0 }
+}
+
+export function parseOperatingHours(input: unknown): OperatingHours[] {
+  if (!Array.isArray(input)) {
+    throw new SchedulingError('Operating hours must be a list')
+  }
+
+  return input.map((entry) => {
+    const dayOfWeek = Number(entry?.dayOfWeek)
+    const open = timeToMinutes(String(entry?.open ?? ''))
+    const close = timeToMinutes(String(entry?.close ?? ''))
+
+    if (!Number.isInteger(dayOfWeek) || dayOfWeek < 0 || dayOfWeek > 6) {
+      throw new SchedulingError('Each day of the week must be between 0 (Sunday) and 6 (Saturday)')
+    }
+    if (open === null || close === null || close <= open) {
+      throw new SchedulingError('Opening and closing times must be HH:mm with closing after opening')
+    }
+
+    return { dayOfWeek, open: minutesToTime(open), close: minutesToTime(close) }
+  })
+}
+
+export interface Booking {
+  procedureId: string
+  resourceId: string | null
+  start: number
+  end: number
+  examName: string
+  patientName: string
+  resourceName: string | null
+}
+
+export interface Conflict {
+  procedureId: string
+  time: string
+  examName: string
+  patientName: string
+  resourceName: string | null
+}
+
+interface Resource {
+  id: string
+  name: string
+  modality: string
+}
+
+function overlaps(booking: Booking, start: number, end: number) {
+  return booking.start < end && start < booking.end
+}
+
+// Works out which of the candidate resources can take a booking. Legacy
+// bookings without a resource still use up one resource each, and a facility
+// without any resources can hold one booking at a time.
+export function findFreeResources(
+  candidates: Resource[] | null,
+  bookings: Booking[],
+  start: number,
+  end: number
+) {
+  const overlapping = bookings.filter((booking) => overlaps(booking, start, end))
+
+  if (candidates === null) {
+    return { resourceIds: overlapping.length === 0 ? [null] : [], overlapping }
+  }
+
+  const candidateIds = candidates.map((resource) => resource.id)
+  const busy = new Set(overlapping.map((booking) => booking.resourceId).filter((id) => id && candidateIds.includes(id)))
+  const unassigned = overlapping.filter((booking) => !booking.resourceId).length
+  const free = candidateIds.filter((id) => !busy.has(id))
+
+  return {
+    resourceIds: free.length > unassigned ? free.slice(unassigned) : [],
+    overlapping: overlapping.filter((booking) => !booking.resourceId || candidateIds.includes(booking.resourceId)),
+  }
+}
+
+function toConflict(booking: Booking): Conflict {
+  return {
+    procedureId: booking.procedureId,
+    time: minutesToTime(booking.start),
+    examName: booking.examName,
+    patientName: booking.patientName,
+    resourceName: booking.resourceName,
+  }
+}
+
+async function loadExam(examId: string) {
+  const exam = await prisma.exam.findUnique({ where: { id: examId } })
+  if (!exam) {
+    throw new SchedulingError('Exam not found')
+  }
+  return { ...exam, durationMinutes: exam.durationMinutes ?? DEFAULT_DURATION_MINUTES }
+}
+
+// Everything booked at a facility on one day. Cancelled procedures free their slot.
+async function loadFacilityDay(facilityId: string, date: Date | string, excludeProcedureIds: string[] = []) {
+  const facility = await prisma.facility.findUnique({
+    where: { id: facilityId },
+    include: {
+      resources: {
+        where: { isActive: true },
+        orderBy: { name: 'asc' },
+      },
+    },
+  })
+  if (!facility) {
+    throw new SchedulingError('Facility not found')
+  }
+
+  const { start, end, dayOfWeek } = dayRange(date)
+  const procedures = await prisma.procedure.findMany({
+    where: {
+      facilityId,
+      scheduleDate: { gte: start, lt: end },
+      ...(excludeProcedureIds.length > 0 && { id: { notIn: excludeProcedureIds } }),
+    },
+    include: {
+      exam: true,
+      patient: {
+        select: {
+          firstName: true,
+          lastName: true,
+        },
+      },
+      resource: true,
+    },
+  })
+
+  const bookings: Booking[] = procedures
+    .filter((procedure) => procedure.confirmationStatus !== 'CANCELLED')
+    .flatMap((procedure) => {
+      const startMinutes = timeToMinutes(procedure.scheduleTime)
+      if (startMinutes === null) return []
+      return [{
+        procedureId: procedure.id,
+        resourceId: procedure.resourceId,
+        start: startMinutes,
+        end: startMinutes + (procedure.exam.durationMinutes ?? DEFAULT_DURATION_MINUTES),
+        examName: procedure.exam.name,
+        patientName: `${procedure.patient.firstName} ${procedure.patient.lastName}`,
+        resourceName: procedure.resource?.name ?? null,
+      }]
+    })
+
+  return { facility, bookings, hours: hoursForDay(facility.operatingHours, dayOfWeek) }
+}
+
+// Resources that can perform the exam; null when the facility has not set up
+// any resources and is scheduled as a single room
+function candidateResources(resources: Resource[], modality: string | null) {
+  if (resources.length === 0) return null
+  return modality ? resources.filter((resource) => resource.modality === modality) : resources
+}
+
+export interface SlotRequest {
+  facilityId: string
+  examId: string
+  date: Date | string
+  time: string
+  resourceId?: string | null
+  excludeProcedureIds?: string[]
+}
+
+export interface SlotCheck {
+  resourceId: string | null
+  conflicts: Conflict[]
+  warnings: string[]
+}
+
+export async function checkSlot(request: SlotRequest): Promise<SlotCheck> {
+  const start = timeToMinutes(request.time)
+  if (start === null) {
+    throw new SchedulingError('Invalid time format. Please use HH:mm')
+  }
+
+  const exam = await loadExam(request.examId)
+  const { facility, bookings, hours } = await loadFacilityDay(request.facilityId, request.date, request.excludeProcedureIds)
+  const end = start + exam.durationMinutes
+  const warnings: string[] = []
+
+  if (!hours) {
+    warnings.push(`${facility.name} is closed on this day`)
+  } else if (start < hours.open || end > hours.close) {
+    warnings.push(`${facility.name} is open ${minutesToTime(hours.open)}–${minutesToTime(hours.close)} on this day`)
+  }
+
+  let candidates = candidateResources(facility.resources, exam.modality)
+  if (request.resourceId) {
+    candidates = facility.resources.filter((resource) => resource.id === request.resourceId)
+    if (candidates.length === 0) {
+      throw new SchedulingError('The selected resource does not belong to this facility')
+    }
+  }
+  if (candidates && candidates.length === 0) {
+    throw new SchedulingError(`${facility.name} has no ${exam.modality} resource for this exam`)
+  }
+
+  const { resourceIds, overlapping } = findFreeResources(candidates, bookings, start, end)
+
+  return {
+    resourceId: resourceIds[0] ?? candidates?.[0]?.id ?? null,
+    conflicts: resourceIds.length > 0 ? [] : overlapping.map(toConflict),
+    warnings,
+  }
+}
+
+export interface AvailabilityRequest {
+  facilityId: string
+  examId: string
+  date: Date | string
+  excludeProcedureIds?: string[]
+}
+
+export interface Slot {
+  time: string
+  resourceIds: (string | null)[]
+}
+
+// Open start times for an exam at a facility on one day, stepping by the
+// exam's duration through the facility's operating hours
+export async function getAvailability(request: AvailabilityRequest) {
+  const exam = await loadExam(request.examId)
+  const { facility, bookings, hours } = await loadFacilityDay(request.facilityId, request.date, request.excludeProcedureIds)
+  const candidates = candidateResources(facility.resources, exam.modality)
+  const slots: Slot[] = []
+
+  if (hours && (!candidates || candidates.length > 0)) {
+    for (let start = hours.open; start + exam.durationMinutes <= hours.close; start += exam.durationMinutes) {
+      const { resourceIds } = findFreeResources(candidates, bookings, start, start + exam.durationMinutes)
+      if (resourceIds.length > 0) {
+        slots.push({ time: minutesToTime(start), resourceIds })
+      }
+    }
+  }
+
+  return {
+    facilityId: facility.id,
+    examId: exam.id,
+    date: dayRange(request.date).start.toISOString().slice(0, 10),
+    durationMinutes: exam.durationMinutes,
+    hours: hours ? { open: minutesToTime(hours.open), close: minutesToTime(hours.close) } : null,
+    slots,
+  }
+}
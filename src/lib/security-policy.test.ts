@@ -0,0 +1,92 @@
+import { describe, expect, it } from 'vitest'
+import {
+  DEFAULT_SECURITY_POLICY,
+  isPasswordExpired,
+  isTwoFactorRequired,
+  lockoutMinutesAfter,
+  passwordProblems,
+  signInRequirements,
+} from '@/lib/security-policy'
+
+const policy = DEFAULT_SECURITY_POLICY
+
+describe('passwordProblems', () => {
+  it('accepts a password that meets every rule', () => {
+    expect(passwordProblems('Correct-horse-42', policy)).toEqual([])
+  })
+
+  it('lists each unmet rule', () => {
+    expect(passwordProblems('short', policy)).toEqual([
+      'be at least 12 characters',
+      'include an uppercase letter',
+      'include a number',
+    ])
+  })
+
+  it('only asks for a symbol when the policy does', () => {
+    expect(passwordProblems('Correcthorse42', policy)).toEqual([])
+    expect(passwordProblems('Correcthorse42', { ...policy, passwordRequireSymbol: true })).toEqual(['include a symbol'])
+  })
+})
+
+describe('lockoutMinutesAfter', () => {
+  it('does not lock before the threshold', () => {
+    expect(lockoutMinutesAfter(4, policy)).toBe(0)
+  })
+
+  it('locks on the threshold and doubles each further round', () => {
+    expect(lockoutMinutesAfter(5, policy)).toBe(15)
+    expect(lockoutMinutesAfter(6, policy)).toBe(0)
+    expect(lockoutMinutesAfter(10, policy)).toBe(30)
+    expect(lockoutMinutesAfter(15, policy)).toBe(60)
+  })
+
+  it('never locks for longer than a day', () => {
+    expect(lockoutMinutesAfter(100, policy)).toBe(24 * 60)
+  })
+})
+
+describe('isPasswordExpired', () => {
+  const now = new Date('2026-06-01T12:00:00Z')
+
+  it('never expires passwords without a rotation period', () => {
+    expect(isPasswordExpired(new Date('2020-01-01T00:00:00Z'), policy, now)).toBe(false)
+  })
+
+  it('expires passwords older than the rotation period', () => {
+    const rotating = { ...policy, passwordMaxAgeDays: 90 }
+    expect(isPasswordExpired(new Date('2026-03-10T12:00:00Z'), rotating, now)).toBe(false)
+    expect(isPasswordExpired(new Date('2026-03-03T12:00:00Z'), rotating, now)).toBe(true)
+  })
+})
+
+describe('signInRequirements', () => {
+  const user = {
+    role: 'STAFF',
+    twoFactorEnabled: false,
+    passwordChangedAt: null,
+    createdAt: new Date(),
+  }
+
+  it('requires two-factor authentication for admins and staff by default', () => {
+    expect(isTwoFactorRequired(policy, 'ADMIN')).toBe(true)
+    expect(isTwoFactorRequired(policy, 'STAFF')).toBe(true)
+    expect(isTwoFactorRequired(policy, 'DOCTOR')).toBe(false)
+  })
+
+  it('asks nothing of users the policy does not cover', () => {
+    expect(signInRequirements({ ...user, role: 'DOCTOR' }, policy)).toEqual({ twoFactorSetupRequired: false, passwordChangeRequired: false })
+  })
+
+  it('asks users in a covered role to enroll in two-factor authentication', () => {
+    const requiring = { ...policy, twoFactorRequiredRoles: ['STAFF' as const] }
+    expect(signInRequirements(user, requiring).twoFactorSetupRequired).toBe(true)
+    expect(signInRequirements({ ...user, twoFactorEnabled: true }, requiring).twoFactorSetupRequired).toBe(false)
+  })
+
+  it('falls back to the account creation date for the password age', () => {
+    const rotating = { ...policy, passwordMaxAgeDays: 30 }
+    const old = new Date(Date.now() - 60 * 24 * 60 * 60 * 1000)
+    expect(signInRequirements({ ...user, createdAt: old }, rotating).passwordChangeRequired).toBe(true)
+  })
+})
@@ -0,0 +1,172 @@
+import type { SecurityPolicy, User } from '@prisma/client'
+import { addMinutes, differenceInDays } from 'date-fns'
+import { z } from 'zod'
+import { prisma } from '@/lib/prisma'
+import type { Role } from '@/lib/permissions'
+
+export class SecurityPolicyError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'SecurityPolicyError'
+  }
+}
+
+export class PasswordPolicyError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'PasswordPolicyError'
+  }
+}
+
+// Attorney-side logins only see the portal, which has no settings page to enroll from
+export const TWO_FACTOR_POLICY_ROLES = ['ADMIN', 'STAFF', 'DOCTOR'] as const satisfies readonly Role[]
+
+// The session cookie lives this long at most, so a policy cannot ask for longer
+export const MAX_SESSION_HOURS = 24
+
+// Lockouts double each time but never last longer than a day
+const MAX_LOCKOUT_MINUTES = 24 * 60
+
+const policySchema = z.object({
+  twoFactorRequiredRoles: z.array(z.enum(TWO_FACTOR_POLICY_ROLES)),
+  passwordMinLength: z.number().int().min(8, 'Passwords must be at least 8 characters').max(128),
+  passwordRequireUppercase: z.boolean(),
+  passwordRequireLowercase: z.boolean(),
+  passwordRequireNumber: z.boolean(),
+  passwordRequireSymbol: z.boolean(),
+  passwordMaxAgeDays: z.number().int().min(0).max(365, 'Password rotation cannot exceed 365 days'),
+  lockoutThreshold: z.number().int().min(3, 'Lock after at least 3 failed attempts').max(20),
+  lockoutMinutes: z.number().int().min(1).max(MAX_LOCKOUT_MINUTES),
+  idleTimeoutMinutes: z.number().int().min(5, 'Idle timeout must be at least 5 minutes').max(MAX_SESSION_HOURS * 60),
+  sessionMaxHours: z.number().int().min(1).max(MAX_SESSION_HOURS, `Sessions cannot last longer than ${MAX_SESSION_HOURS} hours`),
+})
+
+export type SecurityPolicyValues = Omit<z.infer<typeof policySchema>, 'twoFactorRequiredRoles'> & {
+  twoFactorRequiredRoles: Role[]
+}
+
+// Until an admin saves a policy, office accounts must use two-factor authentication
+export const DEFAULT_SECURITY_POLICY: SecurityPolicyValues = {
+  twoFactorRequiredRoles: ['ADMIN', 'STAFF'],
+  passwordMinLength: 12,
+  passwordRequireUppercase: true,
+  passwordRequireLowercase: true,
+  passwordRequireNumber: true,
+  passwordRequireSymbol: false,
+  passwordMaxAgeDays: 0,
+  lockoutThreshold: 5,
+  lockoutMinutes: 15,
+  idleTimeoutMinutes: 30,
+  sessionMaxHours: 12,
+}
+
+function toPolicy(policy: SecurityPolicy | null): SecurityPolicyValues {
+  if (!policy) return DEFAULT_SECURITY_POLICY
+
+  // Parsing drops the bookkeeping fields
+  const values = policySchema.omit({ twoFactorRequiredRoles: true }).safeParse(policy)
+  return {
+    ...DEFAULT_SECURITY_POLICY,
+    ...(values.success ? values.data : {}),
+    twoFactorRequiredRoles: policy.twoFactorRequiredRoles.filter((role): role is Role =>
+      (TWO_FACTOR_POLICY_ROLES as readonly string[]).includes(role)
+    ),
+  }
+}
+
+export async function getSecurityPolicy() {
+  return toPolicy(await prisma.securityPolicy.findFirst())
+}
+
+export async function updateSecurityPolicy(userId: string, body: unknown) {
+  const parsed = policySchema.safeParse(body)
+  if (!parsed.success) {
+    const issue = parsed.error.errors[0]
+    throw new SecurityPolicyError(
+      issue.path[0] === 'twoFactorRequiredRoles'
+        ? `Two-factor authentication can only be required for ${TWO_FACTOR_POLICY_ROLES.join(', ')}`
+        : issue.message
+    )
+  }
+  if (parsed.data.idleTimeoutMinutes > parsed.data.sessionMaxHours * 60) {
+    throw new SecurityPolicyError('The idle timeout cannot be longer than the session lifetime')
+  }
+
+  const data = {
+    ...parsed.data,
+    twoFactorRequiredRoles: [...new Set(parsed.data.twoFactorRequiredRoles)],
+    updatedById: userId,
+  }
+  const existing = await prisma.securityPolicy.findFirst()
+  const policy = existing
+    ? await prisma.securityPolicy.update({ where: { id: existing.id }, data })
+    : await prisma.securityPolicy.create({ data })
+
+  return toPolicy(policy)
+}
+
+export function isTwoFactorRequired(policy: SecurityPolicyValues, role: string) {
+  return policy.twoFactorRequiredRoles.includes(role as Role)
+}
+
+// Each unmet rule, phrased to follow "Password must"
+export function passwordProblems(password: string, policy: SecurityPolicyValues) {
+  const problems: string[] = []
+  if (password.length < policy.passwordMinLength) problems.push(`be at least ${policy.passwordMinLength} characters`)
+  if (policy.passwordRequireUppercase && !/[A-Z]/.test(password)) problems.push('include an uppercase letter')
+  if (policy.passwordRequireLowercase && !/[a-z]/.test(password)) problems.push('include a lowercase letter')
+  if (policy.passwordRequireNumber && !/[0-9]/.test(password)) problems.push('include a number')
+  if (policy.passwordRequireSymbol && !/[^A-Za-z0-9]/.test(password)) problems.push('include a symbol')
+  return problems
+}
+
+// Every route that sets a password goes through this
+export async function checkPasswordPolicy(password: string) {
+  const problems = passwordProblems(password, await getSecurityPolicy())
+  if (problems.length > 0) {
+    const last = problems.pop()
+    throw new PasswordPolicyError(`Password must ${problems.length > 0 ? `${problems.join(', ')} and ${last}` : last}`)
+  }
+}
+
+// How long to lock the account once this many sign-ins in a row have failed,
+// or 0 when this attempt does not lock it. Every further round of failures
+// doubles the lockout.
+export function lockoutMinutesAfter(failedAttempts: number, policy: SecurityPolicyValues) {
+  if (failedAttempts < policy.lockoutThreshold || failedAttempts % policy.lockoutThreshold !== 0) return 0
+  const round = failedAttempts / policy.lockoutThreshold
+  return Math.min(policy.lockoutMinutes * 2 ** (round - 1), MAX_LOCKOUT_MINUTES)
+}
+
+// The count is incremented in the database, so parallel wrong guesses each
+// count towards the lockout
+export async function recordFailedSignIn(user: Pick<User, 'id'>, policy: SecurityPolicyValues) {
+  const { failedLoginAttempts } = await prisma.user.update({
+    where: { id: user.id },
+    data: { failedLoginAttempts: { increment: 1 } },
+    select: { failedLoginAttempts: true },
+  })
+
+  const minutes = lockoutMinutesAfter(failedLoginAttempts, policy)
+  if (minutes > 0) {
+    await prisma.user.update({
+      where: { id: user.id },
+      data: { lockedUntil: addMinutes(new Date(), minutes) },
+    })
+  }
+}
+
+export function isPasswordExpired(changedAt: Date, policy: SecurityPolicyValues, now = new Date()) {
+  return policy.passwordMaxAgeDays > 0 && differenceInDays(now, changedAt) >= policy.passwordMaxAgeDays
+}
+
+// What a user has to sort out on the settings page before using the rest of the app
+export function signInRequirements(
+  user: Pick<User, 'role' | 'twoFactorEnabled' | 'passwordChangedAt' | 'createdAt'>,
+  policy: SecurityPolicyValues
+) {
+  return {
+    twoFactorSetupRequired: !user.twoFactorEnabled && isTwoFactorRequired(policy, user.role),
+    passwordChangeRequired: isPasswordExpired(user.passwordChangedAt ?? user.createdAt, policy),
+  }
+}
@@ -0,0 +1,100 @@
+import { addHours, subMinutes } from 'date-fns'
+import { prisma } from '@/lib/prisma'
+import { getSecurityPolicy, type SecurityPolicyValues } from '@/lib/security-policy'
+
+// How often a JWT is checked against its session record. Revoking a session
+// takes effect within this long.
+export const SESSION_CHECK_INTERVAL_MS = 60 * 1000
+
+export class SessionEndedError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'SessionEndedError'
+  }
+}
+
+function header(headers: Record<string, unknown> | undefined, name: string) {
+  const value = headers?.[name]
+  return typeof value === 'string' && value ? value : null
+}
+
+export async function startUserSession(
+  userId: string,
+  policy: SecurityPolicyValues,
+  headers?: Record<string, unknown>
+) {
+  const now = new Date()
+  return prisma.userSession.create({
+    data: {
+      userId,
+      ipAddress: header(headers, 'x-forwarded-for')?.split(',')[0].trim() ?? null,
+      userAgent: header(headers, 'user-agent'),
+      lastSeenAt: now,
+      expiresAt: addHours(now, policy.sessionMaxHours),
+    },
+  })
+}
+
+// Throws once the session was revoked, outlived the policy's lifetime or sat
+// idle too long; otherwise records the activity
+export async function checkUserSession(sessionId: string) {
+  const [session, policy] = await Promise.all([
+    prisma.userSession.findUnique({ where: { id: sessionId } }),
+    getSecurityPolicy(),
+  ])
+  const now = new Date()
+
+  if (!session || session.revokedAt) {
+    throw new SessionEndedError('Session was revoked')
+  }
+  if (session.expiresAt <= now) {
+    throw new SessionEndedError('Session expired')
+  }
+  if (session.lastSeenAt < subMinutes(now, policy.idleTimeoutMinutes)) {
+    await endUserSession(sessionId)
+    throw new SessionEndedError('Session timed out')
+  }
+
+  await prisma.userSession.update({
+    where: { id: sessionId },
+    data: { lastSeenAt: now },
+  })
+}
+
+export async function endUserSession(sessionId: string, revokedById?: string) {
+  await prisma.userSession.updateMany({
+    where: { id: sessionId, revokedAt: null },
+    data: { revokedAt: new Date(), revokedById: revokedById ?? null },
+  })
+}
+
+// Signs the user out everywhere, except on the device making the change
+export async function endUserSessions(userId: string, revokedById?: string, exceptSessionId?: string) {
+  const { count } = await prisma.userSession.updateMany({
+    where: {
+      userId,
+      revokedAt: null,
+      ...(exceptSessionId && { id: { not: exceptSessionId } }),
+    },
+    data: { revokedAt: new Date(), revokedById: revokedById ?? null },
+  })
+  return count
+}
+
+export async function listActiveSessions(userId?: string | null) {
+  const policy = await getSecurityPolicy()
+  const now = new Date()
+
+  return prisma.userSession.findMany({
+    where: {
+      ...(userId && { userId }),
+      revokedAt: null,
+      expiresAt: { gt: now },
+      lastSeenAt: { gt: subMinutes(now, policy.idleTimeoutMinutes) },
+    },
+    include: {
+      user: { select: { id: true, name: true, email: true, role: true } },
+    },
+    orderBy: { lastSeenAt: 'desc' },
+  })
+}
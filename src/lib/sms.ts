@@ -0,0 +1,90 @@
+export interface SmsMessage {
+  to: string
+  body: string
+}
+
+export interface SmsTransport {
+  name: string
+  send(message: SmsMessage): Promise<void>
+}
+
+export class SmsError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'SmsError'
+  }
+}
+
+// Numbers are stored however staff typed them; providers want E.164
+export function normalizePhoneNumber(phone: string) {
+  const digits = phone.replace(/\D/g, '')
+  if (digits.length === 10) return `+1${digits}`
+  if (digits.length === 11 && digits.startsWith('1')) return `+${digits}`
+  return null
+}
+
+function twilioTransport(): SmsTransport {
+  const accountSid = process.env.TWILIO_ACCOUNT_SID
+  const authToken = process.env.TWILIO_AUTH_TOKEN
+  const from = process.env.TWILIO_FROM_NUMBER
+  if (!accountSid || !authToken || !from) {
+    throw new SmsError('TWILIO_ACCOUNT_SID, TWILIO_AUTH_TOKEN and TWILIO_FROM_NUMBER must be set to use the twilio SMS transport')
+  }
+
+  return {
+    name: 'twilio',
+    async send(message) {
+      const response = await fetch(`https://api.twilio.com/2010-04-01/Accounts/${accountSid}/Messages.json`, {
+        method: 'POST',
+        headers: {
+          Authorization: `Basic ${Buffer.from(`${accountSid}:${authToken}`).toString('base64')}`,
+          'Content-Type': 'application/x-www-form-urlencoded',
+        },
+        body: new URLSearchParams({ To: message.to, From: from, Body: message.body }),
+      })
+
+      if (!response.ok) {
+        throw new SmsError(`Twilio rejected the message (${response.status}): ${await response.text()}`)
+      }
+    },
+  }
+}
+
+function consoleTransport(): SmsTransport {
+  return {
+    name: 'console',
+    async send(message) {
+      console.log(`[SMS] To: ${message.to}\n${message.body}`)
+    },
+  }
+}
+
+let transport: SmsTransport | null = null
+
+// SMS_TRANSPORT picks the provider; without it messages go to the console
+export function getSmsTransport() {
+  if (transport) return transport
+
+  const name = process.env.SMS_TRANSPORT || 'console'
+  switch (name) {
+    case 'twilio':
+      transport = twilioTransport()
+      break
+    case 'console':
+      transport = consoleTransport()
+      break
+    default:
+      throw new SmsError(`Unknown SMS transport "${name}"`)
+  }
+
+  return transport
+}
+
+export async function sendSms(message: SmsMessage) {
+  const to = normalizePhoneNumber(message.to)
+  if (!to) {
+    throw new SmsError(`"${message.to}" is not a valid phone number`)
+  }
+
+  await getSmsTransport().send({ ...message, to })
+}
@@ -0,0 +1,20 @@
+import { describe, expect, it } from 'vitest'
+import { contentDisposition } from '@/lib/storage'
+
+describe('contentDisposition', () => {
+  it('keeps plain names as they are', () => {
+    expect(contentDisposition('scan.pdf')).toBe(`inline; filename="scan.pdf"; filename*=UTF-8''scan.pdf`)
+  })
+
+  it('cannot be broken out of by quotes or line breaks', () => {
+    const header = contentDisposition('a"b\r\nSet-Cookie: x.pdf', 'attachment')
+    expect(header).toMatch(/^attachment; filename="a_b__Set-Cookie: x.pdf"; /)
+    expect(header).not.toMatch(/[\r\n]/)
+  })
+
+  it('gives the real name to browsers that read filename*', () => {
+    expect(contentDisposition("José's MRI (1).pdf")).toBe(
+      `inline; filename="Jos_'s MRI (1).pdf"; filename*=UTF-8''Jos%C3%A9%27s%20MRI%20%281%29.pdf`
+    )
+  })
+})
@@ -0,0 +1,91 @@
+import { mkdir, readFile, unlink, writeFile } from 'fs/promises'
+import path from 'path'
+import { randomUUID } from 'crypto'
+
+// Uploaded documents hold PHI, so they live outside of /public and are only
+// served back through authenticated API routes
+const STORAGE_ROOT = process.env.UPLOAD_DIR || path.join(process.cwd(), 'storage')
+
+const MAX_UPLOAD_SIZE = 10 * 1024 * 1024 // 10 MB
+
+const ALLOWED_TYPES = [
+  'application/pdf',
+  'image/jpeg',
+  'image/png',
+  'image/heic',
+  'image/webp',
+]
+
+export interface StoredFile {
+  key: string
+  name: string
+  type: string
+  size: number
+}
+
+export class UploadError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'UploadError'
+  }
+}
+
+function resolveKey(key: string) {
+  const filePath = path.resolve(STORAGE_ROOT, key)
+  if (!filePath.startsWith(path.resolve(STORAGE_ROOT) + path.sep)) {
+    throw new UploadError('Invalid file key')
+  }
+  return filePath
+}
+
+export async function saveUpload(folder: string, file: File): Promise<StoredFile> {
+  if (file.size === 0) {
+    throw new UploadError('Uploaded file is empty')
+  }
+  if (file.size > MAX_UPLOAD_SIZE) {
+    throw new UploadError('Uploaded file must be 10 MB or smaller')
+  }
+  if (!ALLOWED_TYPES.includes(file.type)) {
+    throw new UploadError('Only PDF and image files can be uploaded')
+  }
+
+  const extension = path.extname(file.name).replace(/[^a-zA-Z0-9.]/g, '')
+  const key = path.posix.join(folder, `${randomUUID()}${extension}`)
+  const filePath = resolveKey(key)
+
+  await mkdir(path.dirname(filePath), { recursive: true })
+  await writeFile(filePath, Buffer.from(await file.arrayBuffer()))
+
+  return {
+    key,
+    name: file.name,
+    type: file.type,
+    size: file.size,
+  }
+}
+
+// Uploaded names can hold quotes, line breaks and accented letters. The plain
+// filename gets an ASCII-only copy; browsers that read filename* (RFC 5987)
+// get the real name.
+export function contentDisposition(name: string, disposition: 'inline' | 'attachment' = 'inline') {
+  const fallback = name.replace(/[^\x20-\x7e]|["\\]/g, '_').trim() || 'download'
+  const encoded = encodeURIComponent(name).replace(
+    /['()*]/g,
+    (char) => `%${char.charCodeAt(0).toString(16).toUpperCase()}`
+  )
+  return `${disposition}; filename="${fallback}"; filename*=UTF-8''${encoded}`
+}
+
+export async function readUpload(key: string) {
+  return readFile(resolveKey(key))
+}
+
+export async function deleteUpload(key: string) {
+  try {
+    await unlink(resolveKey(key))
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+      throw error
+    }
+  }
+}
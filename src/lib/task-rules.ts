@@ -0,0 +1,270 @@
+import type { Prisma, TaskRule } from '@prisma/client'
+import type { Session } from 'next-auth'
+import { addDays } from 'date-fns'
+import { prisma } from '@/lib/prisma'
+import { recordTaskActivity } from '@/lib/tasks'
+import { notifyTaskAssigned } from '@/lib/notifications'
+
+export const TASK_RULE_TRIGGERS = [
+  'PATIENT_CREATED',
+  'PATIENT_STATUS_CHANGED',
+  'PROCEDURE_CREATED',
+  'PROCEDURE_STATUS_CHANGED',
+  'PROCEDURE_COMPLETED',
+] as const
+
+export type TaskRuleTrigger = (typeof TASK_RULE_TRIGGERS)[number]
+
+export const TASK_PRIORITIES = ['low', 'medium', 'high'] as const
+
+export type TaskPriority = (typeof TASK_PRIORITIES)[number]
+
+export interface TaskRuleConditions {
+  statusId?: string
+  examId?: string
+  missingPayer?: boolean
+  missingAttorney?: boolean
+}
+
+export class TaskRuleError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'TaskRuleError'
+  }
+}
+
+export interface TaskRuleInput {
+  name?: string
+  isActive?: boolean
+  trigger?: TaskRuleTrigger
+  conditions?: TaskRuleConditions
+  title?: string
+  description?: string
+  priority?: TaskPriority
+  dueInDays?: number
+  assignToId?: string | null
+}
+
+// Only the fields present in the body are returned, so the same parser
+// serves create and partial update
+export function parseTaskRuleInput(body: Record<string, unknown>): TaskRuleInput {
+  const input: TaskRuleInput = {}
+
+  if (body.name !== undefined) {
+    input.name = String(body.name ?? '').trim()
+    if (!input.name) throw new TaskRuleError('Name is required')
+  }
+  if (body.isActive !== undefined) {
+    input.isActive = Boolean(body.isActive)
+  }
+  if (body.trigger !== undefined) {
+    if (!TASK_RULE_TRIGGERS.includes(body.trigger as TaskRuleTrigger)) {
+      throw new TaskRuleError(`Trigger must be one of ${TASK_RULE_TRIGGERS.join(', ')}`)
+    }
+    input.trigger = body.trigger as TaskRuleTrigger
+  }
+  if (body.conditions !== undefined) {
+    const raw = (body.conditions ?? {}) as Record<string, unknown>
+    input.conditions = {
+      ...(raw.statusId ? { statusId: String(raw.statusId) } : {}),
+      ...(raw.examId ? { examId: String(raw.examId) } : {}),
+      ...(raw.missingPayer ? { missingPayer: true } : {}),
+      ...(raw.missingAttorney ? { missingAttorney: true } : {}),
+    }
+  }
+  if (body.title !== undefined) {
+    input.title = String(body.title ?? '').trim()
+    if (!input.title) throw new TaskRuleError('Task title is required')
+  }
+  if (body.description !== undefined) {
+    input.description = String(body.description ?? '').trim()
+  }
+  if (body.priority !== undefined) {
+    if (!TASK_PRIORITIES.includes(body.priority as TaskPriority)) {
+      throw new TaskRuleError(`Priority must be one of ${TASK_PRIORITIES.join(', ')}`)
+    }
+    input.priority = body.priority as TaskPriority
+  }
+  if (body.dueInDays !== undefined) {
+    const days = Number(body.dueInDays)
+    if (!Number.isInteger(days) || days < 0 || days > 365) {
+      throw new TaskRuleError('Due in days must be a whole number from 0 to 365')
+    }
+    input.dueInDays = days
+  }
+  if (body.assignToId !== undefined) {
+    input.assignToId = (body.assignToId as string) || null
+  }
+
+  return input
+}
+
+// The slices of a patient and a procedure the rules look at; the records the
+// write paths already load satisfy these
+export interface RulePatient {
+  id: string
+  firstName: string
+  lastName: string
+  statusId: string
+  payerId: string | null
+  lawyer: unknown
+}
+
+export interface RuleProcedure {
+  id: string
+  patientId: string
+  examId: string
+  statusId: string
+  isCompleted: boolean
+}
+
+type RuleEvent =
+  | { trigger: 'PATIENT_CREATED' | 'PATIENT_STATUS_CHANGED'; patient: RulePatient }
+  | { trigger: 'PROCEDURE_CREATED' | 'PROCEDURE_STATUS_CHANGED' | 'PROCEDURE_COMPLETED'; procedure: RuleProcedure }
+
+function matches(rule: TaskRule, event: RuleEvent) {
+  const conditions = (rule.conditions ?? {}) as TaskRuleConditions
+
+  if ('patient' in event) {
+    const { patient } = event
+    if (conditions.statusId && patient.statusId !== conditions.statusId) return false
+    if (conditions.missingPayer && patient.payerId) return false
+    if (conditions.missingAttorney && typeof patient.lawyer === 'string' && patient.lawyer.trim()) return false
+    return true
+  }
+
+  const { procedure } = event
+  if (conditions.statusId && procedure.statusId !== conditions.statusId) return false
+  if (conditions.examId && procedure.examId !== conditions.examId) return false
+  return true
+}
+
+function fillTemplate(template: string, values: Record<string, string>) {
+  return template.replace(/\{(\w+)\}/g, (match, key: string) => values[key] ?? match)
+}
+
+async function createTasks(session: Session | null, events: RuleEvent[]) {
+  if (events.length === 0) return
+
+  const rules = await prisma.taskRule.findMany({
+    where: {
+      isActive: true,
+      trigger: { in: [...new Set(events.map((event) => event.trigger))] },
+    },
+  })
+  const matched = events.flatMap((event) =>
+    rules.filter((rule) => rule.trigger === event.trigger && matches(rule, event)).map((rule) => ({ rule, event }))
+  )
+  if (matched.length === 0) return
+
+  // Names for the title placeholders, loaded once for the whole batch
+  const procedures = matched.flatMap(({ event }) => ('procedure' in event ? [event.procedure] : []))
+  const patientIds = new Set(matched.map(({ event }) => ('patient' in event ? event.patient.id : event.procedure.patientId)))
+  const [patients, exams, statuses] = await Promise.all([
+    prisma.patient.findMany({ where: { id: { in: [...patientIds] } }, select: { id: true, firstName: true, lastName: true } }),
+    prisma.exam.findMany({ where: { id: { in: procedures.map((procedure) => procedure.examId) } }, select: { id: true, name: true } }),
+    prisma.status.findMany({ select: { id: true, name: true } }),
+  ])
+  const nameOf = <T extends { id: string }>(records: T[], id: string, label: (record: T) => string) => {
+    const record = records.find((item) => item.id === id)
+    return record ? label(record) : ''
+  }
+
+  const now = new Date()
+  for (const { rule, event } of matched) {
+    const patientId = 'patient' in event ? event.patient.id : event.procedure.patientId
+    const procedureId = 'procedure' in event ? event.procedure.id : null
+    const assignedToId = rule.assignToId ?? session?.user.id
+    if (!assignedToId) continue
+
+    // A rule never stacks a second open task on the same record
+    const open = await prisma.task.findFirst({
+      where: {
+        ruleId: rule.id,
+        patientId,
+        procedureId,
+        status: { not: 'completed' },
+      },
+      select: { id: true },
+    })
+    if (open) continue
+
+    const values = {
+      patient: nameOf(patients, patientId, (patient) => `${patient.firstName} ${patient.lastName}`),
+      exam: 'procedure' in event ? nameOf(exams, event.procedure.examId, (exam) => exam.name) : '',
+      status: nameOf(statuses, 'patient' in event ? event.patient.statusId : event.procedure.statusId, (status) => status.name),
+    }
+
+    const task = await prisma.task.create({
+      data: {
+        title: fillTemplate(rule.title, values),
+        description: fillTemplate(rule.description, values),
+        status: 'pending',
+        priority: rule.priority,
+        dueDate: addDays(now, rule.dueInDays),
+        assignedToId,
+        patientId,
+        procedureId,
+        ruleId: rule.id,
+        createdAt: now,
+        updatedAt: now,
+      },
+    })
+    await recordTaskActivity(task.id, session?.user.id, 'CREATED')
+    await notifyTaskAssigned(session, task)
+  }
+}
+
+// Like audit writes, automation never fails the request that triggered it
+async function runRules(session: Session | null, events: RuleEvent[]) {
+  try {
+    await createTasks(session, events)
+  } catch (error) {
+    console.error('[TASK_RULES]', error)
+  }
+}
+
+export async function applyPatientTaskRules(
+  session: Session | null,
+  before: RulePatient | null | undefined,
+  after: RulePatient
+) {
+  const events: RuleEvent[] = []
+  if (!before) {
+    events.push({ trigger: 'PATIENT_CREATED', patient: after })
+  } else if (before.statusId !== after.statusId) {
+    events.push({ trigger: 'PATIENT_STATUS_CHANGED', patient: after })
+  }
+  await runRules(session, events)
+}
+
+export async function applyProcedureTaskRules(
+  session: Session | null,
+  before: RuleProcedure[],
+  after: RuleProcedure[]
+) {
+  const events: RuleEvent[] = []
+  for (const procedure of after) {
+    const previous = before.find((item) => item.id === procedure.id)
+    if (!previous) {
+      events.push({ trigger: 'PROCEDURE_CREATED', procedure })
+      continue
+    }
+    if (previous.statusId !== procedure.statusId) {
+      events.push({ trigger: 'PROCEDURE_STATUS_CHANGED', procedure })
+    }
+    if (!previous.isCompleted && procedure.isCompleted) {
+      events.push({ trigger: 'PROCEDURE_COMPLETED', procedure })
+    }
+  }
+  await runRules(session, events)
+}
+
+export const taskRuleInclude = {
+  assignTo: {
+    select: {
+      id: true,
+      name: true,
+    },
+  },
+} satisfies Prisma.TaskRuleInclude
@@ -0,0 +1,182 @@
+import type { Prisma, Task } from '@prisma/client'
+import { prisma } from '@/lib/prisma'
+
+export const TASK_ACTIVITY_TYPES = [
+  'CREATED',
+  'STATUS_CHANGED',
+  'ASSIGNEE_CHANGED',
+  'ATTACHMENT_ADDED',
+  'ATTACHMENT_REMOVED',
+] as const
+
+export type TaskActivityType = (typeof TASK_ACTIVITY_TYPES)[number]
+
+export class TaskError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'TaskError'
+  }
+}
+
+const userSelect = {
+  select: {
+    id: true,
+    name: true,
+    email: true,
+  },
+} as const
+
+export const taskInclude = {
+  assignedTo: userSelect,
+  rule: {
+    select: {
+      name: true,
+    },
+  },
+} satisfies Prisma.TaskInclude
+
+export const taskDetailInclude = {
+  ...taskInclude,
+  comments: {
+    include: { author: userSelect },
+    orderBy: { createdAt: 'asc' },
+  },
+  attachments: {
+    include: { uploadedBy: userSelect },
+    orderBy: { createdAt: 'desc' },
+  },
+  activities: {
+    include: { actor: userSelect },
+    orderBy: { createdAt: 'desc' },
+  },
+} satisfies Prisma.TaskInclude
+
+export interface TaskLinks {
+  patientId: string | null
+  caseId: string | null
+  procedureId: string | null
+}
+
+// Checks that the linked case and procedure exist and belong to the same
+// patient, and fills in the patient from them when it was left out
+export async function resolveTaskLinks(body: Record<string, unknown>): Promise<TaskLinks> {
+  const links: TaskLinks = {
+    patientId: (body.patientId as string) || null,
+    caseId: (body.caseId as string) || null,
+    procedureId: (body.procedureId as string) || null,
+  }
+
+  const [caseRecord, procedure] = await Promise.all([
+    links.caseId ? prisma.case.findUnique({ where: { id: links.caseId }, select: { patientId: true } }) : null,
+    links.procedureId ? prisma.procedure.findUnique({ where: { id: links.procedureId }, select: { patientId: true } }) : null,
+  ])
+  if (links.caseId && !caseRecord) {
+    throw new TaskError('The linked case was not found')
+  }
+  if (links.procedureId && !procedure) {
+    throw new TaskError('The linked procedure was not found')
+  }
+
+  const owners = new Set([links.patientId, caseRecord?.patientId, procedure?.patientId].filter(Boolean))
+  if (owners.size > 1) {
+    throw new TaskError('The linked patient, case and procedure must belong to the same patient')
+  }
+  links.patientId = links.patientId ?? caseRecord?.patientId ?? procedure?.patientId ?? null
+
+  if (links.patientId && !links.caseId && !links.procedureId) {
+    const patient = await prisma.patient.findUnique({ where: { id: links.patientId }, select: { id: true } })
+    if (!patient) {
+      throw new TaskError('The linked patient was not found')
+    }
+  }
+
+  return links
+}
+
+// The linked records are plain ids, so their names are looked up in one go
+// for a whole list of tasks
+export async function withTaskLinks<T extends Pick<Task, 'patientId' | 'caseId' | 'procedureId'>>(tasks: T[]) {
+  const ids = (field: keyof TaskLinks) => [...new Set(tasks.map((task) => task[field]).filter((id): id is string => Boolean(id)))]
+
+  const [patients, cases, procedures] = await Promise.all([
+    prisma.patient.findMany({ where: { id: { in: ids('patientId') } }, select: { id: true, firstName: true, lastName: true } }),
+    prisma.case.findMany({ where: { id: { in: ids('caseId') } }, select: { id: true, caseNumber: true } }),
+    prisma.procedure.findMany({
+      where: { id: { in: ids('procedureId') } },
+      select: { id: true, scheduleDate: true, exam: { select: { name: true } } },
+    }),
+  ])
+
+  return tasks.map((task) => ({
+    ...task,
+    patient: patients.find((patient) => patient.id === task.patientId) ?? null,
+    case: cases.find((item) => item.id === task.caseId) ?? null,
+    procedure: procedures.find((procedure) => procedure.id === task.procedureId) ?? null,
+  }))
+}
+
+// Like audit writes, history never fails the request that changed the task
+export async function recordTaskActivity(
+  taskId: string,
+  actorId: string | null | undefined,
+  type: TaskActivityType,
+  values: { fromValue?: string | null; toValue?: string | null } = {}
+) {
+  try {
+    await prisma.taskActivity.create({
+      data: {
+        taskId,
+        actorId: actorId ?? null,
+        type,
+        fromValue: values.fromValue ?? null,
+        toValue: values.toValue ?? null,
+      },
+    })
+  } catch (error) {
+    console.error('[TASK_ACTIVITY]', error)
+  }
+}
+
+// Writes a history entry for each tracked field that changed in an update
+export async function recordTaskChanges(
+  actorId: string,
+  before: Pick<Task, 'id' | 'status' | 'assignedToId'>,
+  after: Pick<Task, 'status' | 'assignedToId'>
+) {
+  if (before.status !== after.status) {
+    await recordTaskActivity(before.id, actorId, 'STATUS_CHANGED', {
+      fromValue: before.status,
+      toValue: after.status,
+    })
+  }
+
+  if (before.assignedToId !== after.assignedToId) {
+    const users = await prisma.user.findMany({
+      where: { id: { in: [before.assignedToId, after.assignedToId] } },
+      select: { id: true, name: true },
+    })
+    const nameOf = (id: string) => users.find((user) => user.id === id)?.name ?? 'Unknown user'
+    await recordTaskActivity(before.id, actorId, 'ASSIGNEE_CHANGED', {
+      fromValue: nameOf(before.assignedToId),
+      toValue: nameOf(after.assignedToId),
+    })
+  }
+}
+
+const OBJECT_ID = /^[0-9a-f]{24}$/i
+
+// Keeps only the picked users whose @name is still in the comment text, so
+// deleting a mention while editing also drops it. Only office logins can be
+// mentioned; task titles and comments may name any patient.
+export async function resolveMentions(body: string, mentionIds: unknown) {
+  const ids = Array.isArray(mentionIds)
+    ? [...new Set(mentionIds.filter((id): id is string => typeof id === 'string' && OBJECT_ID.test(id)))]
+    : []
+  if (ids.length === 0) return []
+
+  const users = await prisma.user.findMany({
+    where: { id: { in: ids }, role: { in: ['ADMIN', 'STAFF'] } },
+    select: { id: true, name: true },
+  })
+  return users.filter((user) => body.includes(`@${user.name}`)).map((user) => user.id)
+}
@@ -0,0 +1,87 @@
+import { describe, expect, it } from 'vitest'
+import { authenticator } from 'otplib'
+import {
+  generateRecoveryCodes,
+  generateTwoFactorSecret,
+  hashRecoveryCode,
+  RECOVERY_CODE_COUNT,
+  totpTimeStep,
+  twoFactorQrCode,
+  verifySecondFactor,
+  verifyTotp,
+} from '@/lib/two-factor'
+
+describe('verifyTotp', () => {
+  it('accepts the code an authenticator app shows for the secret', () => {
+    const secret = generateTwoFactorSecret()
+    expect(verifyTotp(authenticator.generate(secret), secret)).toBe(true)
+  })
+
+  it('ignores spaces typed between the digits', () => {
+    const secret = generateTwoFactorSecret()
+    const code = authenticator.generate(secret)
+    expect(verifyTotp(`${code.slice(0, 3)} ${code.slice(3)}`, secret)).toBe(true)
+  })
+
+  it('rejects codes for another secret and malformed input', () => {
+    const secret = generateTwoFactorSecret()
+    expect(verifyTotp(authenticator.generate(generateTwoFactorSecret()), secret)).toBe(false)
+    expect(verifyTotp('abcdef', secret)).toBe(false)
+    expect(verifyTotp('', secret)).toBe(false)
+  })
+})
+
+describe('totpTimeStep', () => {
+  it('gives the current 30-second step for a current code', () => {
+    const secret = generateTwoFactorSecret()
+    const step = totpTimeStep(authenticator.generate(secret), secret)
+    expect(step).not.toBeNull()
+    expect(Math.abs(step! - Math.floor(Date.now() / 30000))).toBeLessThanOrEqual(1)
+    expect(totpTimeStep('123', secret)).toBeNull()
+  })
+})
+
+describe('twoFactorQrCode', () => {
+  it('encodes an otpauth URL for the account', async () => {
+    const { otpauthUrl, qrCode } = await twoFactorQrCode('staff@example.com', 'JBSWY3DPEHPK3PXP')
+    expect(otpauthUrl).toMatch(/^otpauth:\/\/totp\//)
+    expect(otpauthUrl).toContain('secret=JBSWY3DPEHPK3PXP')
+    expect(qrCode).toMatch(/^data:image\/png;base64,/)
+  })
+})
+
+describe('verifySecondFactor', () => {
+  const secret = generateTwoFactorSecret()
+  const recoveryCodes = generateRecoveryCodes()
+  const user = { twoFactorSecret: secret, twoFactorRecoveryCodes: recoveryCodes.map(hashRecoveryCode) }
+
+  it('generates distinct recovery codes', () => {
+    expect(new Set(recoveryCodes).size).toBe(RECOVERY_CODE_COUNT)
+  })
+
+  it('accepts an app code without spending recovery codes', () => {
+    const result = verifySecondFactor(authenticator.generate(secret), user)
+    expect(result.valid).toBe(true)
+    expect(result.valid && result.timeStep).toEqual(expect.any(Number))
+    expect(result.valid && result.remainingRecoveryCodes).toBeUndefined()
+  })
+
+  it('rejects an app code whose time step was already used', () => {
+    const code = authenticator.generate(secret)
+    const result = verifySecondFactor(code, user)
+    const twoFactorLastStep = result.valid ? result.timeStep : undefined
+    expect(verifySecondFactor(code, { ...user, twoFactorLastStep })).toEqual({ valid: false })
+  })
+
+  it('spends a recovery code, whatever its case or dashes', () => {
+    const result = verifySecondFactor(recoveryCodes[0].toUpperCase().replace('-', ''), user)
+    expect(result.valid).toBe(true)
+    expect(result.valid && result.remainingRecoveryCodes).toHaveLength(RECOVERY_CODE_COUNT - 1)
+    expect(result.valid && result.remainingRecoveryCodes).not.toContain(hashRecoveryCode(recoveryCodes[0]))
+  })
+
+  it('rejects unknown codes', () => {
+    expect(verifySecondFactor('00000-00000', user)).toEqual({ valid: false })
+    expect(verifySecondFactor('', user)).toEqual({ valid: false })
+  })
+})
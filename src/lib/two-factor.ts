@@ -0,0 +1,102 @@
+import { createHash, randomBytes } from 'crypto'
+import { authenticator } from 'otplib'
+import QRCode from 'qrcode'
+
+// Codes from the step before or after the current one still count, for
+// phones whose clocks have drifted
+authenticator.options = { window: 1 }
+
+export const TWO_FACTOR_ISSUER = 'Gulf Coast'
+export const RECOVERY_CODE_COUNT = 10
+
+export class TwoFactorError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'TwoFactorError'
+  }
+}
+
+export function generateTwoFactorSecret() {
+  return authenticator.generateSecret()
+}
+
+// What an authenticator app scans to add the account
+export async function twoFactorQrCode(email: string, secret: string) {
+  const otpauthUrl = authenticator.keyuri(email, TWO_FACTOR_ISSUER, secret)
+  return { otpauthUrl, qrCode: await QRCode.toDataURL(otpauthUrl) }
+}
+
+export function verifyTotp(code: string, secret: string) {
+  const token = code.replace(/\s/g, '')
+  if (!/^\d{6}$/.test(token)) return false
+  try {
+    return authenticator.check(token, secret)
+  } catch {
+    return false
+  }
+}
+
+// The time step an app code belongs to, or null when it is not valid now.
+// Steps only move forward, so a step at or before the last accepted one is a replay
+export function totpTimeStep(code: string, secret: string) {
+  const token = code.replace(/\s/g, '')
+  if (!/^\d{6}$/.test(token)) return null
+  try {
+    const totp = authenticator.clone({ epoch: Date.now() })
+    const delta = totp.checkDelta(token, secret)
+    if (delta === null) return null
+    const { epoch, step } = totp.allOptions()
+    return Math.floor(epoch / 1000 / step) + delta
+  } catch {
+    return null
+  }
+}
+
+// Recovery codes are compared without case, spaces or dashes
+function normalizeRecoveryCode(code: string) {
+  return code.toLowerCase().replace(/[^a-z0-9]/g, '')
+}
+
+export function hashRecoveryCode(code: string) {
+  return createHash('sha256').update(normalizeRecoveryCode(code)).digest('hex')
+}
+
+// Shown to the user once; only the hashes are stored
+export function generateRecoveryCodes() {
+  return Array.from({ length: RECOVERY_CODE_COUNT }, () => {
+    const hex = randomBytes(5).toString('hex')
+    return `${hex.slice(0, 5)}-${hex.slice(5)}`
+  })
+}
+
+export type SecondFactorResult =
+  | { valid: false }
+  // timeStep is set for app codes and must be saved as twoFactorLastStep;
+  // remainingRecoveryCodes when a recovery code was spent and the stored list must shrink
+  | { valid: true; timeStep?: number; remainingRecoveryCodes?: string[] }
+
+// Accepts a code from the authenticator app that has not been used before,
+// or one of the unused recovery codes
+export function verifySecondFactor(
+  code: string,
+  user: {
+    twoFactorSecret: string | null
+    twoFactorRecoveryCodes: string[]
+    twoFactorLastStep?: number | null
+  }
+): SecondFactorResult {
+  const timeStep = user.twoFactorSecret ? totpTimeStep(code, user.twoFactorSecret) : null
+  if (timeStep !== null) {
+    if (user.twoFactorLastStep != null && timeStep <= user.twoFactorLastStep) {
+      return { valid: false }
+    }
+    return { valid: true, timeStep }
+  }
+
+  const hash = hashRecoveryCode(code)
+  if (normalizeRecoveryCode(code).length > 0 && user.twoFactorRecoveryCodes.includes(hash)) {
+    return { valid: true, remainingRecoveryCodes: user.twoFactorRecoveryCodes.filter((item) => item !== hash) }
+  }
+
+  return { valid: false }
+}
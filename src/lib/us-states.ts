@@ -0,0 +1,83 @@
+// USPS abbreviations for the states, DC and the territories with ZIP codes.
+// Addresses store the abbreviation; the name is for pickers.
+export const US_STATES = {
+  AL: 'Alabama',
+  AK: 'Alaska',
+  AS: 'American Samoa',
+  AZ: 'Arizona',
+  AR: 'Arkansas',
+  CA: 'California',
+  CO: 'Colorado',
+  CT: 'Connecticut',
+  DE: 'Delaware',
+  DC: 'District of Columbia',
+  FL: 'Florida',
+  GA: 'Georgia',
+  GU: 'Guam',
+  HI: 'Hawaii',
+  ID: 'Idaho',
+  IL: 'Illinois',
+  IN: 'Indiana',
+  IA: 'Iowa',
+  KS: 'Kansas',
+  KY: 'Kentucky',
+  LA: 'Louisiana',
+  ME: 'Maine',
+  MD: 'Maryland',
+  MA: 'Massachusetts',
+  MI: 'Michigan',
+  MN: 'Minnesota',
+  MS: 'Mississippi',
+  MO: 'Missouri',
+  MT: 'Montana',
+  NE: 'Nebraska',
+  NV: 'Nevada',
+  NH: 'New Hampshire',
+  NJ: 'New Jersey',
+  NM: 'New Mexico',
+  NY: 'New York',
+  NC: 'North Carolina',
+  ND: 'North Dakota',
+  MP: 'Northern Mariana Islands',
+  OH: 'Ohio',
+  OK: 'Oklahoma',
+  OR: 'Oregon',
+  PA: 'Pennsylvania',
+  PR: 'Puerto Rico',
+  RI: 'Rhode Island',
+  SC: 'South Carolina',
+  SD: 'South Dakota',
+  TN: 'Tennessee',
+  TX: 'Texas',
+  UT: 'Utah',
+  VT: 'Vermont',
+  VI: 'U.S. Virgin Islands',
+  VA: 'Virginia',
+  WA: 'Washington',
+  WV: 'West Virginia',
+  WI: 'Wisconsin',
+  WY: 'Wyoming',
+} as const
+
+export type UsState = keyof typeof US_STATES
+
+export function isUsState(value: string): value is UsState {
+  return value in US_STATES
+}
+
+// Accepts an abbreviation or a full name in any case, as older records and
+// the previous ZIP lookup stored full names
+export function toStateCode(value: string): UsState | null {
+  const text = value.trim()
+  const upper = text.toUpperCase()
+  if (isUsState(upper)) return upper
+
+  const match = Object.entries(US_STATES).find(([, name]) => name.toLowerCase() === text.toLowerCase())
+  return match ? (match[0] as UsState) : null
+}
+
+// 5-digit ZIP or ZIP+4, reduced to the 5 digits the lookup is keyed on
+export function normalizeZip(value: string) {
+  const match = value.trim().match(/^(\d{5})(?:-?\d{4})?$/)
+  return match ? match[1] : null
+}
@@ -0,0 +1,143 @@
+import type { Prisma } from '@prisma/client'
+import { z } from 'zod'
+import { prisma } from '@/lib/prisma'
+import { DEFAULT_NOTIFICATION_CHANNELS } from '@/lib/notifications'
+import {
+  DEFAULT_PAGE_SIZES,
+  userSettingsSchema,
+  type UserSettingsValues,
+} from '@/lib/validations'
+
+export class UserSettingsError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'UserSettingsError'
+  }
+}
+
+export const DEFAULT_USER_SETTINGS: UserSettingsValues = {
+  notifications: DEFAULT_NOTIFICATION_CHANNELS,
+  theme: 'LIGHT',
+  defaultFacilityId: null,
+  defaultCalendarView: 'day',
+  timezone: null,
+  pageSizes: DEFAULT_PAGE_SIZES,
+}
+
+export interface UserSettingsResponse extends UserSettingsValues {
+  name: string
+  email: string
+  phone: string
+}
+
+type StoredSettings = {
+  notifications: Prisma.JsonValue
+  theme: string
+  defaultFacilityId: string | null
+  defaultCalendarView: string
+  timezone: string | null
+  pageSizes: Prisma.JsonValue
+}
+
+const { shape } = userSettingsSchema
+
+function field<T>(schema: z.ZodType<T>, value: unknown, fallback: T) {
+  const parsed = schema.safeParse(value)
+  return parsed.success ? parsed.data : fallback
+}
+
+// Anything stored before a setting existed, or no longer valid, reads as its default
+function toUserSettings(settings: StoredSettings | null): UserSettingsValues {
+  if (!settings) return DEFAULT_USER_SETTINGS
+
+  return {
+    notifications: { ...DEFAULT_NOTIFICATION_CHANNELS, ...field(shape.notifications.partial(), settings.notifications, {}) },
+    theme: field(shape.theme, settings.theme, DEFAULT_USER_SETTINGS.theme),
+    defaultFacilityId: settings.defaultFacilityId,
+    defaultCalendarView: field(shape.defaultCalendarView, settings.defaultCalendarView, DEFAULT_USER_SETTINGS.defaultCalendarView),
+    timezone: settings.timezone,
+    pageSizes: { ...DEFAULT_PAGE_SIZES, ...field(shape.pageSizes.partial(), settings.pageSizes, {}) },
+  }
+}
+
+export function isValidTimezone(timezone: string) {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone: timezone })
+    return true
+  } catch {
+    return false
+  }
+}
+
+export async function getUserSettings(userId: string): Promise<UserSettingsResponse | null> {
+  const user = await prisma.user.findUnique({
+    where: { id: userId },
+    select: { name: true, email: true, phone: true, settings: true },
+  })
+  if (!user) return null
+
+  return {
+    name: user.name || '',
+    email: user.email,
+    phone: user.phone || '',
+    ...toUserSettings(user.settings),
+  }
+}
+
+const profileSchema = z.object({
+  name: z.string().trim().min(1, 'Name cannot be empty').optional(),
+  phone: z.string().trim().max(30, 'Phone number is too long').optional(),
+})
+
+// Accepts any subset of the settings; the rest keep their saved values
+export async function updateUserSettings(userId: string, body: Record<string, unknown>) {
+  const profile = profileSchema.safeParse(body)
+  if (!profile.success) {
+    throw new UserSettingsError(profile.error.errors[0].message)
+  }
+
+  const current = toUserSettings(await prisma.userSettings.findUnique({ where: { userId } }))
+  const { pageSizes } = body
+  const patch = userSettingsSchema.partial().safeParse({
+    ...body,
+    ...(typeof pageSizes === 'object' && pageSizes !== null ? { pageSizes: { ...current.pageSizes, ...pageSizes } } : {}),
+  })
+  if (!patch.success) {
+    throw new UserSettingsError(patch.error.errors[0].message)
+  }
+
+  const settings = { ...current, ...patch.data }
+  settings.timezone = settings.timezone || null
+  settings.defaultFacilityId = settings.defaultFacilityId || null
+
+  if (settings.timezone && !isValidTimezone(settings.timezone)) {
+    throw new UserSettingsError(`Unknown time zone "${settings.timezone}"`)
+  }
+  if (settings.defaultFacilityId && settings.defaultFacilityId !== current.defaultFacilityId) {
+    const facility = /^[a-f0-9]{24}$/i.test(settings.defaultFacilityId)
+      ? await prisma.facility.findUnique({ where: { id: settings.defaultFacilityId } })
+      : null
+    if (!facility) {
+      throw new UserSettingsError('Default facility not found')
+    }
+  }
+
+  await prisma.userSettings.upsert({
+    where: { userId },
+    create: { userId, mutedNotificationTypes: [], ...settings },
+    update: settings,
+  })
+
+  const { name, phone } = profile.data
+  if (name !== undefined || phone !== undefined) {
+    await prisma.user.update({
+      where: { id: userId },
+      data: {
+        ...(name !== undefined && { name }),
+        ...(phone !== undefined && { phone: phone || null }),
+      },
+    })
+  }
+
+  return getUserSettings(userId)
+}
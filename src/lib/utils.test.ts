@@ -0,0 +1,27 @@
+import { describe, expect, it } from 'vitest'
+import { escapeHtml, zonedTimeToDate } from '@/lib/utils'
+
+describe('zonedTimeToDate', () => {
+  it('reads the wall clock time in the given zone', () => {
+    // Central daylight time is UTC-5, standard time UTC-6
+    expect(zonedTimeToDate('America/Chicago', 2024, 6, 15, 9, 30).toISOString()).toBe('2024-07-15T14:30:00.000Z')
+    expect(zonedTimeToDate('America/Chicago', 2024, 0, 15, 9, 30).toISOString()).toBe('2024-01-15T15:30:00.000Z')
+    expect(zonedTimeToDate('UTC', 2024, 0, 15, 9, 30).toISOString()).toBe('2024-01-15T09:30:00.000Z')
+  })
+
+  it('handles times next to a daylight saving change', () => {
+    // Clocks went forward at 2:00 on March 10, 2024 and back at 2:00 on November 3
+    expect(zonedTimeToDate('America/Chicago', 2024, 2, 10, 1, 30).toISOString()).toBe('2024-03-10T07:30:00.000Z')
+    expect(zonedTimeToDate('America/Chicago', 2024, 2, 10, 8, 0).toISOString()).toBe('2024-03-10T13:00:00.000Z')
+    expect(zonedTimeToDate('America/Chicago', 2024, 10, 3, 8, 0).toISOString()).toBe('2024-11-03T14:00:00.000Z')
+  })
+})
+
+describe('escapeHtml', () => {
+  it('escapes markup and quotes', () => {
+    expect(escapeHtml(`<img src=x onerror="alert('1')"> & co`)).toBe(
+      '&lt;img src=x onerror=&quot;alert(&#39;1&#39;)&quot;&gt; &amp; co'
+    )
+    expect(escapeHtml(null)).toBe('')
+  })
+})
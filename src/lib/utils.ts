@@ -3,4 +3,61 @@ import { twMerge } from "tailwind-merge"
 
 export function cn(...inputs: ClassValue[]) {
   return twMerge(clsx(inputs))
-} 
\ No newline at end of file
+}
+
+// For text placed in HTML built by hand (emails, printable invoices)
+export function escapeHtml(value: string | null | undefined) {
+  return (value ?? "")
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&#39;")
+}
+
+// Midnight of today's date in an IANA time zone, as a local Date
+export function todayInTimezone(timezone: string) {
+  const parts = new Intl.DateTimeFormat("en-US", {
+    timeZone: timezone,
+    year: "numeric",
+    month: "numeric",
+    day: "numeric",
+  }).formatToParts(new Date())
+  const part = (type: Intl.DateTimeFormatPartTypes) => Number(parts.find((item) => item.type === type)?.value)
+  return new Date(part("year"), part("month") - 1, part("day"))
+}
+
+// Milliseconds an IANA time zone is ahead of UTC at the given instant
+function timezoneOffset(instant: number, timezone: string) {
+  const parts = new Intl.DateTimeFormat("en-US", {
+    timeZone: timezone,
+    hourCycle: "h23",
+    year: "numeric",
+    month: "numeric",
+    day: "numeric",
+    hour: "numeric",
+    minute: "numeric",
+    second: "numeric",
+  }).formatToParts(new Date(instant))
+  const part = (type: Intl.DateTimeFormatPartTypes) => Number(parts.find((item) => item.type === type)?.value)
+  const wallClock = Date.UTC(part("year"), part("month") - 1, part("day"), part("hour"), part("minute"), part("second"))
+  return wallClock - Math.floor(instant / 1000) * 1000
+}
+
+// The instant a wall clock time in an IANA time zone refers to, whatever zone
+// the server runs in (month is 0-based, as in Date)
+export function zonedTimeToDate(
+  timezone: string,
+  year: number,
+  month: number,
+  day: number,
+  hours = 0,
+  minutes = 0
+) {
+  const wallClock = Date.UTC(year, month, day, hours, minutes)
+  const offset = timezoneOffset(wallClock, timezone)
+  // Near a daylight saving change the offset at the result can differ from
+  // the first guess
+  const corrected = timezoneOffset(wallClock - offset, timezone)
+  return new Date(wallClock - corrected)
+}
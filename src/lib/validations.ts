@@ -1,4 +1,5 @@
 import { z } from 'zod'
+import { isValidNpi } from '@/lib/npi'
 
 // User validation
 export const userSchema = z.object({
@@ -9,20 +10,35 @@ export const userSchema = z.object({
   phone: z.string().optional(),
 })
 
-// Doctor validation
-export const doctorSchema = z.object({
-  prefix: z.string().optional(),
-  name: z.string().min(2, 'Name must be at least 2 characters'),
-  phoneNumber: z.string().optional(),
-  faxNumber: z.string().optional(),
-  email: z.string().email('Invalid email address'),
-  clinicName: z.string().optional(),
-  address: z.string().optional(),
-  mapLink: z.string().url('Invalid URL').nullable().optional(),
+// Provider directory validation; one provider can hold several roles
+export const PROVIDER_ROLES = ['REFERRING', 'READING', 'TREATING'] as const
+export type ProviderRole = (typeof PROVIDER_ROLES)[number]
+
+export const PROVIDER_ROLE_LABELS: Record<ProviderRole, string> = {
+  REFERRING: 'Referring',
+  READING: 'Reading',
+  TREATING: 'Treating',
+}
+
+export const providerSchema = z.object({
+  prefix: z.string().trim().optional(),
+  name: z.string().trim().min(2, 'Name must be at least 2 characters'),
+  suffix: z.string().trim().optional(),
+  npiNumber: z.union([z.string().trim().refine(isValidNpi, 'Enter a valid 10-digit NPI'), z.literal('')]).optional(),
+  taxonomyCode: z.union([z.string().trim().regex(/^[0-9A-Z]{9}X$/i, 'Enter a 10-character taxonomy code'), z.literal('')]).optional(),
+  roles: z.array(z.enum(PROVIDER_ROLES)).min(1, 'Choose at least one role'),
+  clinicName: z.string().trim().optional(),
+  email: z.union([z.string().trim().email('Invalid email address'), z.literal('')]).optional(),
+  phoneNumber: z.string().trim().optional(),
+  faxNumber: z.string().trim().optional(),
+  address: z.string().trim().optional(),
+  mapLink: z.union([z.string().trim().url('Invalid URL'), z.literal('')]).nullable().optional(),
   status: z.enum(['Active', 'Inactive']),
   hasLogin: z.boolean(),
 })
 
+export type ProviderValues = z.infer<typeof providerSchema>
+
 // Patient validation
 export const patientSchema = z.object({
   firstName: z.string().min(2, 'First name must be at least 2 characters'),
@@ -68,16 +84,72 @@ export const statusSchema = z.object({
   type: z.enum(['CASE', 'TASK', 'APPOINTMENT', 'REFERRAL']),
 })
 
+// The sign-in error for a correct password that still needs a second factor
+export const TWO_FACTOR_REQUIRED = 'TWO_FACTOR_REQUIRED'
+
 // User settings validation
+export const THEMES = ['LIGHT', 'DARK', 'SYSTEM'] as const
+export const CALENDAR_VIEWS = ['day', 'week', 'month'] as const
+export const PAGE_SIZE_OPTIONS = [10, 25, 50, 100] as const
+
+// Tables whose rows per page each user can choose
+export const DEFAULT_PAGE_SIZES = {
+  patients: 25,
+  reports: 50,
+  auditLog: 50,
+}
+
+export type TableName = keyof typeof DEFAULT_PAGE_SIZES
+
+const pageSizeSchema = z.number().refine(
+  (size) => (PAGE_SIZE_OPTIONS as readonly number[]).includes(size),
+  `Page size must be one of ${PAGE_SIZE_OPTIONS.join(', ')}`
+)
+
 export const userSettingsSchema = z.object({
   notifications: z.object({
     email: z.boolean(),
     push: z.boolean(),
     sms: z.boolean(),
   }),
-  theme: z.enum(['LIGHT', 'DARK', 'SYSTEM']),
+  theme: z.enum(THEMES),
+  defaultFacilityId: z.string().nullable(),
+  defaultCalendarView: z.enum(CALENDAR_VIEWS),
+  timezone: z.string().nullable(),
+  pageSizes: z.object({
+    patients: pageSizeSchema,
+    reports: pageSizeSchema,
+    auditLog: pageSizeSchema,
+  }),
 })
 
+export type UserSettingsValues = z.infer<typeof userSettingsSchema>
+
+// What a patient can upload from the patient portal
+export const PATIENT_DOCUMENT_KINDS = {
+  ID: 'Photo ID',
+  INSURANCE_CARD: 'Insurance card',
+} as const
+
+export type PatientDocumentKind = keyof typeof PATIENT_DOCUMENT_KINDS
+
+// Imaging referral submitted from the doctor portal
+export const referralSchema = z.object({
+  firstName: z.string().trim().min(1, 'First name is required'),
+  lastName: z.string().trim().min(1, 'Last name is required'),
+  dateOfBirth: z.string().refine((value) => !Number.isNaN(Date.parse(value)), 'Enter a valid date of birth'),
+  phone: z.string().trim().min(1, 'Phone number is required'),
+  email: z.union([z.string().trim().email('Invalid email address'), z.literal('')]).optional(),
+  gender: z.string().optional(),
+  address: z.string().trim().optional(),
+  city: z.string().trim().optional(),
+  zip: z.string().trim().optional(),
+  examIds: z.array(z.string().regex(/^[a-f0-9]{24}$/i, 'Choose exams from the list')).min(1, 'Order at least one exam'),
+  notes: z.string().trim().max(1000, 'Keep the notes under 1000 characters').optional(),
+})
+
+export type ReferralValues = z.infer<typeof referralSchema>
+
 // API response validation
 export const apiResponseSchema = z.object({
   success: z.boolean(),
@@ -0,0 +1,45 @@
+import { describe, expect, it } from 'vitest'
+import { parseGeoNamesLine } from '@/lib/zip-data'
+import { normalizeZip, toStateCode } from '@/lib/us-states'
+
+describe('parseGeoNamesLine', () => {
+  it('reads a US postal code row', () => {
+    const line = 'US\t77030\tHouston\tTexas\tTX\tHarris\t201\t\t\t29.7041\t-95.4018\t4'
+    expect(parseGeoNamesLine(line)).toEqual({
+      zip: '77030',
+      city: 'Houston',
+      state: 'TX',
+      county: 'Harris',
+      latitude: 29.7041,
+      longitude: -95.4018,
+    })
+  })
+
+  it('keeps rows without a county or coordinates', () => {
+    const line = 'US\t96799\tPago Pago\tAmerican Samoa\tAS\t\t\t\t\t\t\t'
+    expect(parseGeoNamesLine(line)).toMatchObject({ zip: '96799', state: 'AS', county: null, latitude: null })
+  })
+
+  it('skips rows that are not usable US ZIP codes', () => {
+    expect(parseGeoNamesLine('CA\tH0H\tNorth Pole\tQuebec\tQC\t\t\t\t\t\t\t')).toBeNull()
+    expect(parseGeoNamesLine('US\t7703\tHouston\tTexas\tTX\t\t\t\t\t\t\t')).toBeNull()
+    expect(parseGeoNamesLine('')).toBeNull()
+  })
+})
+
+describe('toStateCode', () => {
+  it('accepts abbreviations and full names', () => {
+    expect(toStateCode('tx')).toBe('TX')
+    expect(toStateCode('New York')).toBe('NY')
+    expect(toStateCode('Gondor')).toBeNull()
+  })
+})
+
+describe('normalizeZip', () => {
+  it('reduces ZIP+4 to five digits and rejects anything else', () => {
+    expect(normalizeZip('77030')).toBe('77030')
+    expect(normalizeZip('77030-2707')).toBe('77030')
+    expect(normalizeZip('7703')).toBeNull()
+    expect(normalizeZip('abcde')).toBeNull()
+  })
+})
@@ -0,0 +1,37 @@
+import { isUsState } from './us-states'
+
+// Reading the GeoNames US postal code file (US.txt from
+// https://download.geonames.org/export/zip/US.zip). It is tab-separated with no
+// header: country, postal code, place name, state name, state code, county
+// name, county code, community name, community code, latitude, longitude,
+// accuracy.
+
+export interface ZipRecord {
+  zip: string
+  city: string
+  state: string
+  county: string | null
+  latitude: number | null
+  longitude: number | null
+}
+
+function coordinate(value: string | undefined) {
+  const number = value?.trim() ? Number(value) : NaN
+  return Number.isFinite(number) ? number : null
+}
+
+export function parseGeoNamesLine(line: string): ZipRecord | null {
+  const fields = line.split('\t')
+  const [country, zip, city, , state, county] = fields.map((field) => field?.trim() ?? '')
+
+  if (country !== 'US' || !/^\d{5}$/.test(zip) || !city || !isUsState(state)) return null
+
+  return {
+    zip,
+    city,
+    state,
+    county: county || null,
+    latitude: coordinate(fields[9]),
+    longitude: coordinate(fields[10]),
+  }
+}
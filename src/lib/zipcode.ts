@@ -1,18 +1,22 @@
-export async function getCityStateFromZip(zipCode: string) {
-  try {
-    const response = await fetch(`https://api.zippopotam.us/us/${zipCode}`);
-    if (!response.ok) {
-      console.log('ZIP code lookup failed, returning null');
-      return null;
-    }
-    const data = await response.json();
-    const place = data.places[0];
-    return {
-      city: place['place name'],
-      state: place.state
-    };
-  } catch (error) {
-    console.log('Error looking up ZIP code:', error);
-    return null;
+export interface ZipPlace {
+  zip: string
+  city: string
+  state: string
+  county: string | null
+  latitude: number | null
+  longitude: number | null
+}
+
+// City and state for a ZIP code from the offline ZIP database. Returns null for
+// a ZIP that isn't on file and throws when the lookup itself fails, so forms
+// can tell the two apart.
+export async function getCityStateFromZip(zipCode: string): Promise<ZipPlace | null> {
+  const response = await fetch(`/api/geo/zip/${encodeURIComponent(zipCode)}`)
+  if (response.status === 404 || response.status === 400) {
+    return null
   }
-} 
\ No newline at end of file
+  if (!response.ok) {
+    throw new Error('ZIP code lookup failed')
+  }
+  return response.json()
+}
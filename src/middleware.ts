@@ -3,6 +3,7 @@ import type { NextRequest } from 'next/server'
 import { getToken } from 'next-auth/jwt'
 import { Redis } from '@upstash/redis'
 import { Ratelimit } from '@upstash/ratelimit'
+import { canAccessApi, isAuthPagePath, isPublicApiPath, isRole, type Role } from '@/lib/permissions'
 
 // Initialize Redis client
 const redis = new Redis({
@@ -17,21 +18,64 @@ const ratelimit = new Ratelimit({
   analytics: true,
 })
 
-// Define public paths that don't require authentication
-const publicPaths = ['/login', '/register']
-
-// Define role types
-type Role = 'ADMIN' | 'STAFF' | 'DOCTOR' | 'ATTORNEY'
-
-// Give all roles full access for now
-const allPaths = ['/dashboard', '/patients', '/tools', '/calendar', '/reports', '/settings']
-
-// Define role-based access control (temporarily giving all roles full access)
+// Pages opened from emailed or texted links; the token in the URL stands in
+// for a session
+const linkPaths = ['/confirm/']
+
+// Office staff can reach every section of the dashboard
+const allPaths = [
+  '/dashboard',
+  '/patients',
+  '/appointments',
+  '/cases',
+  '/tasks',
+  '/calendar',
+  '/billing',
+  '/reports',
+  '/tools',
+  '/settings',
+  '/help',
+]
+
+// Sections within the dashboard that only administrators may open
+const adminOnlyPaths = [
+  '/tools/audit-log',
+  '/tools/merge-patients',
+  '/tools/security',
+  '/tools/sessions',
+  '/tools/task-rules',
+]
+
+// Doctors land on their referral portal instead of the dashboard and keep the
+// clinical pages; the API filters what they see there
+const doctorPortalPaths = ['/doctor-portal']
+const doctorPaths = [...doctorPortalPaths, '/patients', '/appointments', '/cases', '/calendar', '/settings', '/help']
+
+// All a user may reach while the security policy is waiting for them to set
+// up two-factor authentication or change an expired password
+const accountSetupApiPaths = ['/api/settings', '/api/auth/']
+
+// Attorneys and their case managers only ever see the portal
+const portalPaths = ['/portal']
+
+// Patients who signed themselves up only see their own portal
+const patientPortalPaths = ['/patient-portal']
+
+// Define role-based access control; the first entry is the role's home page
 const roleAccess: Record<Role, string[]> = {
   ADMIN: allPaths,
   STAFF: allPaths,
-  DOCTOR: allPaths,
-  ATTORNEY: allPaths
+  DOCTOR: doctorPaths,
+  ATTORNEY: portalPaths,
+  CASE_MANAGER: portalPaths,
+  PATIENT: patientPortalPaths,
+}
+
+const restrictedPaths = [...allPaths, ...portalPaths, ...patientPortalPaths, ...doctorPortalPaths]
+
+// A role missing from roleAccess gets no pages at all and is sent to sign in
+function homeFor(role: unknown) {
+  return isRole(role) ? roleAccess[role][0] : '/login'
 }
 
 export async function middleware(request: NextRequest) {
@@ -39,6 +83,36 @@ export async function middleware(request: NextRequest) {
 
   // Check if the request is for the API
   if (path.startsWith('/api/')) {
+    // Every API call is checked against the central permission policy
+    if (!isPublicApiPath(path)) {
+      const token = await getToken({ req: request })
+
+      if (!token) {
+        return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+      }
+
+      if (!canAccessApi(token.role, request.method, path)) {
+        return NextResponse.json(
+          { error: 'You do not have permission to perform this action' },
+          { status: 403 }
+        )
+      }
+
+      if (token.twoFactorSetupRequired && !accountSetupApiPaths.some((ap) => path.startsWith(ap))) {
+        return NextResponse.json(
+          { error: 'Set up two-factor authentication to continue' },
+          { status: 403 }
+        )
+      }
+
+      if (token.passwordChangeRequired && !accountSetupApiPaths.some((ap) => path.startsWith(ap))) {
+        return NextResponse.json(
+          { error: 'Change your password to continue' },
+          { status: 403 }
+        )
+      }
+    }
+
     // Skip rate limiting if Redis is not configured
     if (!process.env.UPSTASH_REDIS_REST_URL || !process.env.UPSTASH_REDIS_REST_TOKEN) {
       console.warn('Redis is not configured - skipping rate limiting')
@@ -68,7 +142,7 @@ export async function middleware(request: NextRequest) {
   }
 
   // Protected routes
-  const protectedPaths = ['/dashboard', '/settings', '/profile']
+  const protectedPaths = ['/dashboard', '/settings', '/profile', '/portal', '/patient-portal', '/doctor-portal']
   const isProtectedPath = protectedPaths.some((pp) => path.startsWith(pp))
 
   if (isProtectedPath) {
@@ -88,20 +162,52 @@ export async function middleware(request: NextRequest) {
 
   // Handle authentication
   const token = await getToken({ req: request })
-  const isAuthPage = path.startsWith('/login') || path.startsWith('/register') || path.startsWith('/reset-password')
+  const isAuthPage = isAuthPagePath(path)
   const isApiRoute = path.startsWith('/api/')
 
   if (isAuthPage) {
-    if (token) {
-      return NextResponse.redirect(new URL('/dashboard', request.url))
+    if (token && isRole(token.role)) {
+      return NextResponse.redirect(new URL(homeFor(token.role), request.url))
     }
     return NextResponse.next()
   }
 
-  if (!token && !isApiRoute) {
+  const isLinkPage = linkPaths.some((lp) => path.startsWith(lp))
+
+  if (!token && !isApiRoute && !isLinkPage) {
     return NextResponse.redirect(new URL('/login', request.url))
   }
 
+  // Keep each role inside the sections it is allowed to see
+  if (token && restrictedPaths.some((rp) => path.startsWith(rp))) {
+    const allowed = isRole(token.role) ? roleAccess[token.role] : []
+    if (!allowed.some((ap) => path.startsWith(ap))) {
+      return NextResponse.redirect(new URL(homeFor(token.role), request.url))
+    }
+  }
+
+  if (token && token.role !== 'ADMIN' && adminOnlyPaths.some((ap) => path.startsWith(ap))) {
+    return NextResponse.redirect(new URL(homeFor(token.role), request.url))
+  }
+
+  if (token?.twoFactorSetupRequired && restrictedPaths.some((rp) => path.startsWith(rp)) && !path.startsWith('/settings')) {
+    const url = new URL('/settings', request.url)
+    url.searchParams.set('twoFactor', 'required')
+    return NextResponse.redirect(url)
+  }
+
+  // Portal logins have no settings page; the portal asks for the new password itself
+  if (
+    token?.passwordChangeRequired &&
+    roleAccess[token.role as Role]?.includes('/settings') &&
+    restrictedPaths.some((rp) => path.startsWith(rp)) &&
+    !path.startsWith('/settings')
+  ) {
+    const url = new URL('/settings', request.url)
+    url.searchParams.set('password', 'expired')
+    return NextResponse.redirect(url)
+  }
+
   // Add security headers
   const response = NextResponse.next()
 
@@ -0,0 +1,113 @@
+import { createReadStream } from 'fs'
+import { createInterface } from 'readline'
+import { PrismaClient } from '@prisma/client'
+import { nppesColumns, parseCsvLine, parseNppesRow, type NppesColumns, type NppesRecord } from '../lib/nppes'
+
+// Loads the CMS NPPES data dissemination file into NpiRecord, the offline copy
+// of the registry used to validate and auto-fill provider NPIs. Download the
+// monthly full file (or a weekly update) from
+// https://download.cms.gov/nppes/NPI_Files.html and point this at the
+// npidata_pfile_*.csv inside it. Rows are upserted by NPI, so reloading a newer
+// file updates the records in place.
+//
+// The full file holds every NPI in the country. --states keeps only providers
+// practising in those states; deactivated NPIs are always kept because their
+// rows carry no address to filter on.
+//
+//   npm run load:nppes -- npidata_pfile_20240101-20240107.csv --states TX,LA
+
+const prisma = new PrismaClient()
+const BATCH_SIZE = 1000
+
+function parseArgs() {
+  let file: string | null = null
+  let states: Set<string> | null = null
+
+  const args = process.argv.slice(2)
+  for (let i = 0; i < args.length; i++) {
+    if (args[i] === '--states') {
+      states = new Set((args[++i] ?? '').split(',').map((state) => state.trim().toUpperCase()).filter(Boolean))
+    } else {
+      file = args[i]
+    }
+  }
+  return { file, states }
+}
+
+// Extended JSON, so the dates land as BSON dates through the raw command
+function toDocument(record: NppesRecord, loadedAt: Date) {
+  const date = (value: Date | null) => (value ? { $date: value.toISOString() } : null)
+  return {
+    ...record,
+    lastUpdated: date(record.lastUpdated),
+    deactivatedAt: date(record.deactivatedAt),
+    reactivatedAt: date(record.reactivatedAt),
+    loadedAt: date(loadedAt),
+  }
+}
+
+async function writeBatch(batch: NppesRecord[], loadedAt: Date) {
+  await prisma.$runCommandRaw({
+    update: 'NpiRecord',
+    updates: batch.map((record) => ({
+      q: { npi: record.npi },
+      u: { $set: toDocument(record, loadedAt) },
+      upsert: true,
+    })),
+    ordered: false,
+  })
+}
+
+async function loadNppes() {
+  const { file, states } = parseArgs()
+  if (!file) {
+    console.error('Usage: npm run load:nppes -- <npidata_pfile.csv> [--states TX,LA]')
+    process.exitCode = 1
+    return
+  }
+
+  try {
+    const lines = createInterface({ input: createReadStream(file), crlfDelay: Infinity })
+    const loadedAt = new Date()
+    let columns: NppesColumns | null = null
+    let batch: NppesRecord[] = []
+    let read = 0
+    let loaded = 0
+
+    for await (const line of lines) {
+      if (!line.trim()) continue
+      if (!columns) {
+        columns = nppesColumns(parseCsvLine(line))
+        continue
+      }
+
+      read++
+      const record = parseNppesRow(columns, parseCsvLine(line))
+      if (!record) continue
+      if (states && !record.deactivatedAt && !(record.state && states.has(record.state))) continue
+
+      batch.push(record)
+      if (batch.length === BATCH_SIZE) {
+        await writeBatch(batch, loadedAt)
+        loaded += batch.length
+        batch = []
+      }
+      if (read % 100000 === 0) {
+        console.log(`Read ${read} rows, loaded ${loaded}`)
+      }
+    }
+
+    if (batch.length) {
+      await writeBatch(batch, loadedAt)
+      loaded += batch.length
+    }
+    console.log(`Loaded ${loaded} of ${read} NPPES records`)
+  } catch (error) {
+    console.error('Error loading NPPES data:', error)
+    process.exitCode = 1
+  } finally {
+    await prisma.$disconnect()
+  }
+}
+
+loadNppes()
@@ -0,0 +1,72 @@
+import { createReadStream } from 'fs'
+import { createInterface } from 'readline'
+import { createGunzip } from 'zlib'
+import { PrismaClient } from '@prisma/client'
+import { parseGeoNamesLine, type ZipRecord } from '../lib/zip-data'
+
+// Loads the GeoNames US postal code file into ZipCode, which backs
+// /api/geo/zip/[zip] and the city autocomplete on address forms. A gzipped copy
+// of US.txt from https://download.geonames.org/export/zip/US.zip (GeoNames,
+// CC BY 4.0, March 2026) is kept in prisma/data and loaded when no file is
+// given. Rows are upserted by ZIP, so a newer file, gzipped or not, can be
+// loaded over an older one.
+//
+//   npm run load:zipcodes
+//   npm run load:zipcodes -- US.txt
+
+const prisma = new PrismaClient()
+const BATCH_SIZE = 1000
+// npm scripts run from the project root
+const DEFAULT_FILE = 'prisma/data/us-zipcodes.txt.gz'
+
+async function writeBatch(batch: ZipRecord[]) {
+  await prisma.$runCommandRaw({
+    update: 'ZipCode',
+    updates: batch.map((record) => ({
+      q: { zip: record.zip },
+      u: { $set: { ...record } },
+      upsert: true,
+    })),
+    ordered: false,
+  })
+}
+
+async function loadZipCodes() {
+  const file = process.argv[2] || DEFAULT_FILE
+
+  try {
+    const stream = createReadStream(file)
+    const input = file.endsWith('.gz') ? stream.pipe(createGunzip()) : stream
+    const lines = createInterface({ input, crlfDelay: Infinity })
+    let batch: ZipRecord[] = []
+    let read = 0
+    let loaded = 0
+
+    for await (const line of lines) {
+      if (!line.trim()) continue
+      read++
+      const record = parseGeoNamesLine(line)
+      if (!record) continue
+
+      batch.push(record)
+      if (batch.length === BATCH_SIZE) {
+        await writeBatch(batch)
+        loaded += batch.length
+        batch = []
+      }
+    }
+
+    if (batch.length) {
+      await writeBatch(batch)
+      loaded += batch.length
+    }
+    console.log(`Loaded ${loaded} of ${read} ZIP codes`)
+  } catch (error) {
+    console.error('Error loading ZIP codes:', error)
+    process.exitCode = 1
+  } finally {
+    await prisma.$disconnect()
+  }
+}
+
+loadZipCodes()
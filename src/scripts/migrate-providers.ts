@@ -0,0 +1,201 @@
+import { PrismaClient } from '@prisma/client'
+import { isValidNpi, normalizeNpi } from '../lib/npi'
+
+// Copies the old Doctor and Physician collections into Provider. Records keep
+// their ids, so appointments, referrals, referred patients and procedures stay
+// linked without rewriting them. A physician with the same email as a doctor
+// becomes one provider with both roles, and their procedures are moved to it.
+//
+// Safe to run more than once: providers that already exist are skipped. The old
+// collections are left in place; drop them once the new directory is checked.
+//
+//   npm run migrate:providers -- --dry-run
+
+const prisma = new PrismaClient()
+const dryRun = process.argv.includes('--dry-run')
+
+type RawDocument = Record<string, unknown>
+
+async function readCollection(collection: string) {
+  const documents: RawDocument[] = []
+  let result = (await prisma.$runCommandRaw({ find: collection, filter: {}, batchSize: 1000 })) as {
+    cursor: { id: unknown; firstBatch?: RawDocument[]; nextBatch?: RawDocument[] }
+  }
+  documents.push(...(result.cursor.firstBatch ?? []))
+
+  while (cursorId(result.cursor.id) !== '0') {
+    result = (await prisma.$runCommandRaw({
+      getMore: result.cursor.id as never,
+      collection,
+      batchSize: 1000,
+    })) as typeof result
+    documents.push(...(result.cursor.nextBatch ?? []))
+  }
+  return documents
+}
+
+function cursorId(id: unknown) {
+  if (id && typeof id === 'object' && '$numberLong' in id) return String(id.$numberLong)
+  return String(id ?? '0')
+}
+
+function objectId(value: unknown) {
+  if (value && typeof value === 'object' && '$oid' in value) return String(value.$oid)
+  return String(value)
+}
+
+function toDate(value: unknown) {
+  if (value && typeof value === 'object' && '$date' in value) {
+    const date = value.$date
+    if (date && typeof date === 'object' && '$numberLong' in date) return new Date(Number(date.$numberLong))
+    return new Date(date as string)
+  }
+  return value ? new Date(value as string) : new Date()
+}
+
+// Physician stored several fields as Json?; only real strings carry over
+function text(value: unknown) {
+  return typeof value === 'string' && value.trim() ? value.trim() : null
+}
+
+// Emails are matched case-insensitively but stored as entered, since DOCTOR
+// logins are looked up by the exact address
+function emailKey(value: string | null) {
+  return value?.toLowerCase() ?? null
+}
+
+interface ProviderRecord {
+  id: string
+  prefix: string | null
+  name: string
+  suffix: string | null
+  npiNumber: string | null
+  roles: string[]
+  clinicName: string | null
+  email: string | null
+  phoneNumber: string | null
+  faxNumber: string | null
+  address: string | null
+  mapLink: string | null
+  status: string
+  hasLogin: boolean
+  createdAt: Date
+  updatedAt: Date
+}
+
+async function migrateProviders() {
+  try {
+    const [doctors, physicians] = await Promise.all([readCollection('Doctor'), readCollection('Physician')])
+    console.log(`Found ${doctors.length} doctors and ${physicians.length} physicians${dryRun ? ' (dry run)' : ''}`)
+
+    const providers = new Map<string, ProviderRecord>()
+    const byEmail = new Map<string, ProviderRecord>()
+    const byNpi = new Map<string, ProviderRecord>()
+
+    for (const doctor of doctors) {
+      const id = objectId(doctor._id)
+      const hasAppointments = (await prisma.appointment.count({ where: { doctorId: id } })) > 0
+      const record: ProviderRecord = {
+        id,
+        prefix: text(doctor.prefix),
+        name: text(doctor.name) ?? 'Unnamed provider',
+        suffix: null,
+        npiNumber: null,
+        // Doctors booked on appointments also treat, so they stay in that picker
+        roles: hasAppointments ? ['REFERRING', 'TREATING'] : ['REFERRING'],
+        clinicName: text(doctor.clinicName),
+        email: text(doctor.email),
+        phoneNumber: text(doctor.phoneNumber),
+        faxNumber: text(doctor.faxNumber),
+        address: text(doctor.address),
+        mapLink: text(doctor.mapLink),
+        status: doctor.status === 'Inactive' ? 'Inactive' : 'Active',
+        hasLogin: doctor.hasLogin === true,
+        createdAt: toDate(doctor.createdAt),
+        updatedAt: toDate(doctor.updatedAt),
+      }
+      providers.set(id, record)
+      if (record.email) byEmail.set(emailKey(record.email)!, record)
+    }
+
+    // Procedures to repoint when a physician folds into an existing provider
+    const moves: Array<{ from: string; to: string }> = []
+
+    for (const physician of physicians) {
+      const id = objectId(physician._id)
+      const npi = text(physician.npiNumber) ? normalizeNpi(String(physician.npiNumber)) : null
+      if (npi && !isValidNpi(npi)) {
+        console.warn(`Physician ${physician.name} (${id}) has an invalid NPI ${npi}; fix it in the provider directory`)
+      }
+
+      const address = text(physician.email)
+      const match = (npi && byNpi.get(npi)) || (address && byEmail.get(emailKey(address)!))
+      if (match) {
+        match.roles = [...new Set([...match.roles, 'READING'])]
+        match.npiNumber ??= npi
+        match.suffix ??= text(physician.suffix)
+        match.clinicName ??= text(physician.clinicName)
+        match.phoneNumber ??= text(physician.phoneNumber)
+        match.faxNumber ??= text(physician.faxNumber)
+        match.address ??= text(physician.address)
+        match.mapLink ??= text(physician.mapLink)
+        if (npi) byNpi.set(npi, match)
+        moves.push({ from: id, to: match.id })
+        console.log(`Merging physician ${physician.name} into ${match.name}`)
+        continue
+      }
+
+      const active = physician.isActive !== false && physician.status !== 'Inactive'
+      const record: ProviderRecord = {
+        id,
+        prefix: text(physician.prefix),
+        name: text(physician.name) ?? 'Unnamed provider',
+        suffix: text(physician.suffix),
+        npiNumber: npi,
+        roles: ['READING'],
+        clinicName: text(physician.clinicName),
+        email: address,
+        phoneNumber: text(physician.phoneNumber),
+        faxNumber: text(physician.faxNumber),
+        address: text(physician.address),
+        mapLink: text(physician.mapLink),
+        status: active ? 'Active' : 'Inactive',
+        hasLogin: false,
+        createdAt: toDate(physician.createdAt),
+        updatedAt: toDate(physician.updatedAt),
+      }
+      providers.set(id, record)
+      if (address) byEmail.set(emailKey(address)!, record)
+      if (npi) byNpi.set(npi, record)
+    }
+
+    let created = 0
+    for (const record of providers.values()) {
+      const existing = await prisma.provider.findUnique({ where: { id: record.id } })
+      if (existing) continue
+      if (!dryRun) {
+        await prisma.provider.create({ data: record })
+      }
+      created++
+    }
+
+    let moved = 0
+    for (const { from, to } of moves) {
+      if (dryRun) {
+        moved += await prisma.procedure.count({ where: { physicianId: from } })
+      } else {
+        const result = await prisma.procedure.updateMany({ where: { physicianId: from }, data: { physicianId: to } })
+        moved += result.count
+      }
+    }
+
+    console.log(`${dryRun ? 'Would create' : 'Created'} ${created} providers, merged ${moves.length} physicians and moved ${moved} procedures`)
+  } catch (error) {
+    console.error('Error migrating providers:', error)
+    process.exitCode = 1
+  } finally {
+    await prisma.$disconnect()
+  }
+}
+
+migrateProviders()
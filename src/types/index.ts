@@ -1,21 +1,3 @@
-export interface Physician {
-  id: string
-  prefix: string
-  name: string
-  suffix: string | null
-  phoneNumber: string
-  faxNumber: string | null
-  email: string
-  npiNumber: string | null
-  clinicName: string | null
-  address: string | null
-  mapLink: string | null
-  status: string
-  isActive: boolean
-  createdAt: string
-  updatedAt: string
-}
-
 export interface Procedure {
   id?: string
   patientId: string
@@ -25,7 +7,7 @@ export interface Procedure {
   facilityId: string
   physicianId: string
   statusId: string
-  lop: string | null
+  lopId: string | null
   isCompleted: boolean
   createdAt?: string
   updatedAt?: string
@@ -7,7 +7,11 @@ export interface Procedure {
   facilityId: string
   physicianId: string
   statusId: string
-  lop?: string
+  lopId?: string | null
+  lop?: {
+    id: string
+    status: string
+  } | null
   isCompleted: boolean
   exam?: {
     id: string
@@ -0,0 +1,21 @@
+import type { ProviderRole } from '@/lib/validations'
+
+export interface Provider {
+  id: string
+  prefix: string | null
+  name: string
+  suffix: string | null
+  npiNumber: string | null
+  taxonomyCode: string | null
+  roles: ProviderRole[]
+  clinicName: string | null
+  email: string | null
+  phoneNumber: string | null
+  faxNumber: string | null
+  address: string | null
+  mapLink: string | null
+  status: 'Active' | 'Inactive'
+  hasLogin: boolean
+  createdAt: string
+  updatedAt: string
+}
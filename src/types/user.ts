@@ -11,6 +11,8 @@ export interface User {
 export interface LoginCredentials {
   email: string
   password: string
+  // Authenticator or recovery code, for accounts with two-factor authentication
+  code?: string
 }
 
 export interface RegisterData extends LoginCredentials {
@@ -1,15 +1,18 @@
-import { headers } from 'next/headers'
+import { getServerSession } from 'next-auth'
+import { authOptions } from '@/lib/auth'
+import { canAccessPatientRecord } from '@/lib/access'
+import { isRole, type Role } from '@/lib/permissions'
 
-export type Role = 'ADMIN' | 'STAFF' | 'DOCTOR' | 'ATTORNEY'
+export type { Role }
 
 export async function getUserInfo() {
-  const headersList = await headers()
-  const userId = headersList.get('x-user-id')
-  const userRole = headersList.get('x-user-role') as Role
+  const session = await getServerSession(authOptions)
+  const userRole = isRole(session?.user.role) ? session.user.role : null
 
   return {
-    userId,
+    userId: session?.user.id ?? null,
     userRole,
+    session,
   }
 }
 
@@ -23,25 +26,17 @@ export async function hasPermission(requiredRole: Role) {
     STAFF: 3,
     DOCTOR: 2,
     ATTORNEY: 1,
+    CASE_MANAGER: 0,
+    PATIENT: -1,
   }
 
   return roleHierarchy[userRole] >= roleHierarchy[requiredRole]
 }
 
-export async function canAccessPatient(patientId: string, doctorId?: string, attorneyId?: string) {
-  const { userRole, userId } = await getUserInfo()
-
-  if (!userRole || !userId) return false
-
-  switch (userRole) {
-    case 'ADMIN':
-    case 'STAFF':
-      return true
-    case 'DOCTOR':
-      return doctorId === userId
-    case 'ATTORNEY':
-      return attorneyId === userId
-    default:
-      return false
-  }
-} 
\ No newline at end of file
+export async function canAccessPatient(patientId: string) {
+  const { session } = await getUserInfo()
+
+  if (!session) return false
+
+  return canAccessPatientRecord(session, patientId)
+}
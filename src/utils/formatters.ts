@@ -15,29 +15,6 @@ export const formatPhoneNumber = (value: string): string => {
   return `(${numbers.slice(0, 3)}) ${numbers.slice(3, 6)}-${numbers.slice(6, 10)}`
 }
 
-export const lookupZipCode = async (zipCode: string): Promise<{ city: string; state: string } | null> => {
-  try {
-    const response = await fetch(`https://api.zippopotam.us/us/${zipCode}`, {
-      headers: {
-        'Accept': 'application/json'
-      }
-    })
-    if (!response.ok) {
-      console.log('ZIP code lookup failed, returning null')
-      return null
-    }
-    const data = await response.json()
-    const place = data.places[0]
-    return {
-      city: place['place name'],
-      state: place.state
-    }
-  } catch (error) {
-    console.log('Error looking up ZIP code:', error)
-    return null
-  }
-}
-
 export function formatDate(date: Date): string {
   return date.toISOString().split('T')[0]
 } 
\ No newline at end of file